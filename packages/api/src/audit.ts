@@ -0,0 +1,52 @@
+import {
+  AuditEventType,
+  auditResourceAccess,
+} from "backend-lib/src/security/auditLogger";
+import { FastifyRequest } from "fastify";
+
+export type AuditedResourceType =
+  | "journey"
+  | "message_template"
+  | "secret"
+  | "api_key";
+
+/**
+ * Record who changed a workspace resource, attributing the change to the
+ * workspace member which made the request.
+ */
+export function auditResourceChange({
+  request,
+  eventType,
+  workspaceId,
+  resourceType,
+  resourceId,
+  resourceName,
+}: {
+  request: FastifyRequest;
+  eventType:
+    | AuditEventType.RESOURCE_CREATED
+    | AuditEventType.RESOURCE_UPDATED
+    | AuditEventType.RESOURCE_DELETED;
+  workspaceId: string;
+  resourceType: AuditedResourceType;
+  resourceId: string;
+  resourceName?: string;
+}) {
+  const member = request.requestContext.get("member");
+  const userAgent = request.headers["user-agent"];
+  auditResourceAccess(
+    eventType,
+    workspaceId,
+    resourceType,
+    resourceId,
+    member?.id,
+    true,
+    {
+      userEmail: member?.email,
+      resourceName,
+      requestId: request.id,
+      ipAddress: request.ip,
+      userAgent,
+    },
+  );
+}
@@ -4,6 +4,7 @@ import { DittofeedFastifyInstance } from "backend-lib/src/types";
 import { FastifyInstance } from "fastify";
 
 import apiKeyController from "../controllers/apiKeyController";
+import auditLogController from "../controllers/auditLogController";
 import broadcastsController from "../controllers/broadcastsController";
 import componentConfigurationsController from "../controllers/componentConfigurationsController";
 import computedPropertiesController from "../controllers/computedPropertiesController";
@@ -15,6 +16,7 @@ import groupsController from "../controllers/groupsController";
 import indexController from "../controllers/indexController";
 import integrationsController from "../controllers/integrationsController";
 import journeysController from "../controllers/journeysController";
+import multiTenantAuthController from "../controllers/multiTenantController";
 import permissionsController from "../controllers/permissionsController";
 import publicAppsController from "../controllers/publicAppsController";
 import quotasController from "../controllers/quotasController";
@@ -23,9 +25,9 @@ import secretsController from "../controllers/secretsController";
 import segmentsController from "../controllers/segmentsController";
 import settingsController from "../controllers/settingsController";
 import authController from "../controllers/singleTenantController";
-import multiTenantAuthController from "../controllers/multiTenantController";
 import subscriptionGroupsController from "../controllers/subscriptionGroupsController";
 import subscriptionManagementController from "../controllers/subscriptionManagementController";
+import trackingPlanController from "../controllers/trackingPlanController";
 import userPropertiesController from "../controllers/userPropertiesController";
 import usersController from "../controllers/usersController";
 import webhooksController from "../controllers/webhooksController";
@@ -75,6 +77,8 @@ export default async function router(
           prefix: "/computed-properties",
         }),
         f.register(quotasController, { prefix: "/quotas" }),
+        f.register(auditLogController, { prefix: "/audit-log" }),
+        f.register(trackingPlanController, { prefix: "/tracking-plan" }),
         // mount redundant webhooks controller at root level for backwards
         // compatibility. this is the one exception to this route namespace being auth'd.
         f.register(webhooksController, { prefix: "/webhooks" }),
@@ -89,7 +93,7 @@ export default async function router(
   await fastify.register(
     async (f: FastifyInstance) => {
       const { authMode } = backendConfig();
-      
+
       await Promise.all([
         f.register(subscriptionManagementController, {
           prefix: "/subscription-management",
@@ -134,6 +138,7 @@ export default async function router(
         f.register(computedPropertiesController, {
           prefix: "/computed-properties",
         }),
+        f.register(auditLogController, { prefix: "/audit-log" }),
       ]);
     },
     { prefix: "/api/admin" },
@@ -5,12 +5,15 @@ import * as schema from "backend-lib/src/db/schema";
 import { DittofeedFastifyInstance } from "backend-lib/src/types";
 import { and, eq } from "drizzle-orm";
 import {
+  AuditEventType,
   CreateAdminApiKeyRequest,
   CreateAdminApiKeyResponse,
   DeleteAdminApiKeyRequest,
   EmptyResponse,
 } from "isomorphic-lib/src/types";
 
+import { auditResourceChange } from "../audit";
+
 // eslint-disable-next-line @typescript-eslint/require-await
 export default async function apiKeyController(
   fastify: DittofeedFastifyInstance,
@@ -34,6 +37,14 @@ export default async function apiKeyController(
         return reply.status(409).send();
       }
       const { workspaceId, name, id, apiKey, createdAt } = adminApiKey.value;
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_CREATED,
+        workspaceId,
+        resourceType: "api_key",
+        resourceId: id,
+        resourceName: name,
+      });
 
       return reply.status(200).send({
         workspaceId,
@@ -59,14 +70,25 @@ export default async function apiKeyController(
     },
     async (request, reply) => {
       const { id, workspaceId }: DeleteAdminApiKeyRequest = request.query;
-      await db()
+      const [deleted] = await db()
         .delete(schema.adminApiKey)
         .where(
           and(
             eq(schema.adminApiKey.workspaceId, workspaceId),
             eq(schema.adminApiKey.id, id),
           ),
-        );
+        )
+        .returning();
+      if (deleted) {
+        auditResourceChange({
+          request,
+          eventType: AuditEventType.RESOURCE_DELETED,
+          workspaceId,
+          resourceType: "api_key",
+          resourceId: deleted.id,
+          resourceName: deleted.name,
+        });
+      }
 
       return reply.status(200).send();
     },
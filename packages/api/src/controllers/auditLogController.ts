@@ -0,0 +1,29 @@
+import { TypeBoxTypeProvider } from "@fastify/type-provider-typebox";
+import { getAuditEvents } from "backend-lib/src/security/auditLogger";
+import { FastifyInstance } from "fastify";
+import {
+  GetAuditEventsRequest,
+  GetAuditEventsResponse,
+} from "isomorphic-lib/src/types";
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export default async function auditLogController(fastify: FastifyInstance) {
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/",
+    {
+      schema: {
+        description:
+          "Get a workspace's audit events, most recent first. Can be filtered by event type, severity, actor and time range.",
+        tags: ["Audit Log"],
+        querystring: GetAuditEventsRequest,
+        response: {
+          200: GetAuditEventsResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const events = await getAuditEvents(request.query);
+      return reply.status(200).send({ events });
+    },
+  );
+}
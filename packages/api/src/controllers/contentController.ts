@@ -22,6 +22,7 @@ import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaV
 import { defaultSmsDefinition } from "isomorphic-lib/src/sms";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
 import {
+  AuditEventType,
   BadWorkspaceConfigurationType,
   BaseMessageResponse,
   ChannelType,
@@ -54,6 +55,8 @@ import {
 import { DEFAULT_WEBHOOK_DEFINITION } from "isomorphic-lib/src/webhook";
 import * as R from "remeda";
 
+import { auditResourceChange } from "../audit";
+
 // eslint-disable-next-line @typescript-eslint/require-await
 export default async function contentController(fastify: FastifyInstance) {
   fastify.withTypeProvider<TypeBoxTypeProvider>().post(
@@ -221,6 +224,14 @@ export default async function contentController(fastify: FastifyInstance) {
       if (resource.isErr()) {
         return reply.status(400).send(resource.error);
       }
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_UPDATED,
+        workspaceId: resource.value.workspaceId,
+        resourceType: "message_template",
+        resourceId: resource.value.id,
+        resourceName: resource.value.name,
+      });
       return reply.status(200).send(resource.value);
     },
   );
@@ -274,6 +285,14 @@ export default async function contentController(fastify: FastifyInstance) {
         return reply.status(400).send(result.error);
       }
       const resource = result.value;
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_UPDATED,
+        workspaceId: resource.workspaceId,
+        resourceType: "message_template",
+        resourceId: resource.id,
+        resourceName: resource.name,
+      });
       const { journeyMetadata } = request.body;
       if (journeyMetadata) {
         const { journeyId, nodeId } = journeyMetadata;
@@ -281,7 +300,7 @@ export default async function contentController(fastify: FastifyInstance) {
           const journey = await tx.query.journey.findFirst({
             where: and(
               eq(schema.journey.id, journeyId),
-              eq(schema.journey.workspaceId, workspaceId)
+              eq(schema.journey.workspaceId, workspaceId),
             ),
           });
           if (!journey) {
@@ -307,10 +326,12 @@ export default async function contentController(fastify: FastifyInstance) {
             .set({
               definition: journeyDefinition,
             })
-            .where(and(
-              eq(schema.journey.id, journeyId),
-              eq(schema.journey.workspaceId, workspaceId)
-            ));
+            .where(
+              and(
+                eq(schema.journey.id, journeyId),
+                eq(schema.journey.workspaceId, workspaceId),
+              ),
+            );
         });
       }
       return reply.status(200).send(resource);
@@ -526,9 +547,18 @@ export default async function contentController(fastify: FastifyInstance) {
         )
         .returning();
 
-      if (result.length === 0) {
+      const [deleted] = result;
+      if (!deleted) {
         return reply.status(404).send();
       }
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_DELETED,
+        workspaceId,
+        resourceType: "message_template",
+        resourceId: deleted.id,
+        resourceName: deleted.name,
+      });
       return reply.status(204).send();
     },
   );
@@ -555,6 +585,14 @@ export default async function contentController(fastify: FastifyInstance) {
       if (!messageTemplate) {
         return reply.status(404).send();
       }
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_DELETED,
+        workspaceId: request.query.workspaceId,
+        resourceType: "message_template",
+        resourceId: messageTemplate.id,
+        resourceName: messageTemplate.name,
+      });
       return reply.status(204).send();
     },
   );
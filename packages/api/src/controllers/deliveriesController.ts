@@ -3,8 +3,14 @@ import {
   buildDeliveriesFile,
   searchDeliveries,
 } from "backend-lib/src/deliveries";
+import { replayFailedMessages } from "backend-lib/src/messaging";
+import { getFailedMessages } from "backend-lib/src/messaging/failedMessages";
 import {
   DownloadDeliveriesRequest,
+  GetFailedMessagesRequest,
+  GetFailedMessagesResponse,
+  ReplayFailedMessagesRequest,
+  ReplayFailedMessagesResponse,
   SearchDeliveriesRequest,
   SearchDeliveriesResponse,
 } from "backend-lib/src/types";
@@ -53,4 +59,42 @@ export default async function deliveriesController(fastify: FastifyInstance) {
         .send(fileContent);
     },
   );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/failed",
+    {
+      schema: {
+        description:
+          "Get the failed message sends which have been stored for replay.",
+        tags: ["Deliveries"],
+        querystring: GetFailedMessagesRequest,
+        response: {
+          200: GetFailedMessagesResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const messages = await getFailedMessages(request.query);
+      return reply.status(200).send({ messages });
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().post(
+    "/failed/replay",
+    {
+      schema: {
+        description:
+          "Queue failed messages to be re-sent in the background. Messages which have already been replayed successfully, or are being replayed, are skipped.",
+        tags: ["Deliveries"],
+        body: ReplayFailedMessagesRequest,
+        response: {
+          200: ReplayFailedMessagesResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const result = await replayFailedMessages(request.body);
+      return reply.status(200).send(result);
+    },
+  );
 }
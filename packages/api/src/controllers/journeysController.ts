@@ -8,6 +8,7 @@ import {
   upsertJourney,
 } from "backend-lib/src/journeys";
 import {
+  AuditEventType,
   DeleteJourneyRequest,
   EmptyResponse,
   GetJourneysRequest,
@@ -23,6 +24,8 @@ import { and, eq, inArray } from "drizzle-orm";
 import { FastifyInstance } from "fastify";
 import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
 
+import { auditResourceChange } from "../audit";
+
 // eslint-disable-next-line @typescript-eslint/require-await
 export default async function journeysController(fastify: FastifyInstance) {
   fastify.withTypeProvider<TypeBoxTypeProvider>().get(
@@ -108,6 +111,14 @@ export default async function journeysController(fastify: FastifyInstance) {
       if (result.isErr()) {
         return reply.status(400).send(result.error);
       }
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_UPDATED,
+        workspaceId: result.value.workspaceId,
+        resourceType: "journey",
+        resourceId: result.value.id,
+        resourceName: result.value.name,
+      });
       return reply.status(200).send(result.value);
     },
   );
@@ -130,6 +141,14 @@ export default async function journeysController(fastify: FastifyInstance) {
       if (!result) {
         return reply.status(404).send();
       }
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_DELETED,
+        workspaceId: result.workspaceId,
+        resourceType: "journey",
+        resourceId: result.id,
+        resourceName: result.name,
+      });
 
       return reply.status(204).send();
     },
@@ -153,6 +172,14 @@ export default async function journeysController(fastify: FastifyInstance) {
       if (!result) {
         return reply.status(404).send();
       }
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_DELETED,
+        workspaceId: result.workspaceId,
+        resourceType: "journey",
+        resourceId: result.id,
+        resourceName: result.name,
+      });
 
       return reply.status(204).send();
     },
@@ -1,6 +1,7 @@
 import { TypeBoxTypeProvider } from "@fastify/type-provider-typebox";
 import { Type } from "@sinclair/typebox";
 import {
+  submitAlias,
   submitBatchWithTriggers,
   submitGroup,
   submitIdentify,
@@ -8,21 +9,95 @@ import {
   submitScreen,
   submitTrackWithTriggers,
 } from "backend-lib/src/apps";
-import { validateWriteKey } from "backend-lib/src/auth";
-import logger from "backend-lib/src/logger";
-import { FastifyInstance } from "fastify";
 import {
+  applyTrackingPlan,
+  TrackingPlanViolation,
+} from "backend-lib/src/apps/trackingPlan";
+import {
+  getWebPushPublicKey,
+  submitWebPushSubscription,
+} from "backend-lib/src/apps/webPush";
+import { decodeWriteKey, validateWriteKey } from "backend-lib/src/auth";
+import {
+  checkIngestionLimits,
+  IngestionLimitErrorType,
+} from "backend-lib/src/multitenancy/ingestionLimits";
+import { FastifyInstance, FastifyReply } from "fastify";
+import {
+  AliasData,
   BaseMessageResponse,
   BatchAppData,
   EmptyResponse,
+  EventType,
   GroupData,
   IdentifyData,
   PageData,
   PublicWriteKey,
   ScreenData,
   TrackData,
+  WebPushPublicKeyResponse,
+  WebPushSubscriptionData,
 } from "isomorphic-lib/src/types";
 
+/**
+ * Check the ingestion limits for a request's events, replying with a 413 or
+ * 429 if they're exceeded.
+ *
+ * @returns true if the request was rejected
+ */
+async function rejectIfIngestionLimited({
+  reply,
+  workspaceId,
+  writeKey,
+  events,
+}: {
+  reply: FastifyReply;
+  workspaceId: string;
+  writeKey: string;
+  events: unknown[];
+}): Promise<boolean> {
+  const writeKeyId = decodeWriteKey(writeKey)?.secretKeyId ?? workspaceId;
+  const result = await checkIngestionLimits({
+    workspaceId,
+    writeKeyId,
+    eventSizes: events.map((event) => Buffer.byteLength(JSON.stringify(event))),
+  });
+  if (result.isOk()) {
+    return false;
+  }
+  const { error } = result;
+  switch (error.type) {
+    case IngestionLimitErrorType.EventTooLarge:
+      void reply.status(413).send({
+        message: `Event of ${error.sizeBytes} bytes exceeds the limit of ${error.limit} bytes.`,
+      });
+      break;
+    case IngestionLimitErrorType.RateLimited:
+      void reply
+        .status(429)
+        .header("Retry-After", error.retryAfterSeconds)
+        .send({ message: "Rate limit exceeded." });
+      break;
+    case IngestionLimitErrorType.MonthlyQuotaExceeded:
+      void reply
+        .status(429)
+        .header("Retry-After", error.retryAfterSeconds)
+        .send({ message: `Monthly event quota of ${error.limit} exceeded.` });
+      break;
+  }
+  return true;
+}
+
+function formatTrackingPlanViolations(
+  violations: TrackingPlanViolation[],
+): string {
+  const descriptions = violations.map(
+    (violation) =>
+      `${violation.event ?? violation.eventType} ${violation.messageId} (${violation.errors.join(", ")})`,
+  );
+  return `Events violate the workspace's tracking plan: ${descriptions.join("; ")}.`;
+}
+
 // eslint-disable-next-line @typescript-eslint/require-await
 export default async function publicAppsController(fastify: FastifyInstance) {
   fastify.withTypeProvider<TypeBoxTypeProvider>().post(
@@ -43,7 +118,10 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         }),
         response: {
           204: EmptyResponse,
+          400: BaseMessageResponse,
           401: BaseMessageResponse,
+          413: BaseMessageResponse,
+          429: BaseMessageResponse,
         },
       },
     },
@@ -58,10 +136,34 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         });
       }
 
-      await submitIdentify({
+      if (
+        await rejectIfIngestionLimited({
+          reply,
+          workspaceId: workspaceIdFromWriteKey,
+          writeKey: request.headers.authorization,
+          events: [request.body],
+        })
+      ) {
+        return reply;
+      }
+
+      const trackingPlanResult = await applyTrackingPlan({
         workspaceId: workspaceIdFromWriteKey,
-        data: request.body,
+        eventType: EventType.Identify,
+        events: [request.body],
       });
+      if (trackingPlanResult.isErr()) {
+        return reply.status(400).send({
+          message: formatTrackingPlanViolations(trackingPlanResult.error),
+        });
+      }
+      const [data] = trackingPlanResult.value;
+      if (data) {
+        await submitIdentify({
+          workspaceId: workspaceIdFromWriteKey,
+          data,
+        });
+      }
       return reply.status(204).send();
     },
   );
@@ -84,7 +186,10 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         }),
         response: {
           204: EmptyResponse,
+          400: BaseMessageResponse,
           401: BaseMessageResponse,
+          413: BaseMessageResponse,
+          429: BaseMessageResponse,
         },
       },
     },
@@ -99,10 +204,34 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         });
       }
 
-      await submitTrackWithTriggers({
+      if (
+        await rejectIfIngestionLimited({
+          reply,
+          workspaceId: workspaceIdFromWriteKey,
+          writeKey: request.headers.authorization,
+          events: [request.body],
+        })
+      ) {
+        return reply;
+      }
+
+      const trackingPlanResult = await applyTrackingPlan({
         workspaceId: workspaceIdFromWriteKey,
-        data: request.body,
+        eventType: EventType.Track,
+        events: [request.body],
       });
+      if (trackingPlanResult.isErr()) {
+        return reply.status(400).send({
+          message: formatTrackingPlanViolations(trackingPlanResult.error),
+        });
+      }
+      const [data] = trackingPlanResult.value;
+      if (data) {
+        await submitTrackWithTriggers({
+          workspaceId: workspaceIdFromWriteKey,
+          data,
+        });
+      }
       return reply.status(204).send();
     },
   );
@@ -126,6 +255,8 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         response: {
           204: EmptyResponse,
           401: BaseMessageResponse,
+          413: BaseMessageResponse,
+          429: BaseMessageResponse,
         },
       },
     },
@@ -140,6 +271,17 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         });
       }
 
+      if (
+        await rejectIfIngestionLimited({
+          reply,
+          workspaceId: workspaceIdFromWriteKey,
+          writeKey: request.headers.authorization,
+          events: [request.body],
+        })
+      ) {
+        return reply;
+      }
+
       await submitPage({
         workspaceId: workspaceIdFromWriteKey,
         data: request.body,
@@ -167,6 +309,8 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         response: {
           204: EmptyResponse,
           401: BaseMessageResponse,
+          413: BaseMessageResponse,
+          429: BaseMessageResponse,
         },
       },
     },
@@ -181,6 +325,17 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         });
       }
 
+      if (
+        await rejectIfIngestionLimited({
+          reply,
+          workspaceId: workspaceIdFromWriteKey,
+          writeKey: request.headers.authorization,
+          events: [request.body],
+        })
+      ) {
+        return reply;
+      }
+
       await submitScreen({
         workspaceId: workspaceIdFromWriteKey,
         data: request.body,
@@ -218,6 +373,17 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         });
       }
 
+      if (
+        await rejectIfIngestionLimited({
+          reply,
+          workspaceId: workspaceIdFromWriteKey,
+          writeKey: request.headers.authorization,
+          events: [request.body],
+        })
+      ) {
+        return reply;
+      }
+
       await submitGroup({
         workspaceId: workspaceIdFromWriteKey,
         data: request.body,
@@ -235,15 +401,141 @@ export default async function publicAppsController(fastify: FastifyInstance) {
             publicWriteKey: [],
           },
         ],
+        description:
+          "The alias call merges a user's previous identity, typically an anonymous id, into their canonical user id. The previous identity's events, traits, and segment memberships are attributed to the canonical user.",
+        tags: ["Public Apps"],
+        body: AliasData,
+        headers: Type.Object({
+          authorization: PublicWriteKey,
+        }),
+        response: {
+          204: EmptyResponse,
+          400: BaseMessageResponse,
+          401: BaseMessageResponse,
+          413: BaseMessageResponse,
+          429: BaseMessageResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const workspaceIdFromWriteKey = await validateWriteKey({
+        writeKey: request.headers.authorization,
+      });
+
+      if (!workspaceIdFromWriteKey) {
+        return reply.status(401).send({
+          message: "Invalid write key.",
+        });
+      }
+
+      if (
+        await rejectIfIngestionLimited({
+          reply,
+          workspaceId: workspaceIdFromWriteKey,
+          writeKey: request.headers.authorization,
+          events: [request.body],
+        })
+      ) {
+        return reply;
+      }
+
+      if (request.body.previousId === request.body.userId) {
+        return reply.status(400).send({
+          message: "previousId must differ from userId.",
+        });
+      }
+
+      await submitAlias({
+        workspaceId: workspaceIdFromWriteKey,
+        data: request.body,
+      });
+      return reply.status(204).send();
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().post(
+    "/web-push/subscription",
+    {
+      schema: {
+        security: [
+          {
+            publicWriteKey: [],
+          },
+        ],
+        description:
+          "Register a browser's push subscription for a user, so that they can receive mobile push messages via the web push provider. Replaces the user's previous subscription.",
         tags: ["Public Apps"],
+        body: WebPushSubscriptionData,
+        headers: Type.Object({
+          authorization: PublicWriteKey,
+        }),
+        response: {
+          204: EmptyResponse,
+          401: BaseMessageResponse,
+        },
       },
     },
     async (request, reply) => {
-      logger().warn("Client is calling unimplemented endpoint /alias");
+      const workspaceIdFromWriteKey = await validateWriteKey({
+        writeKey: request.headers.authorization,
+      });
+
+      if (!workspaceIdFromWriteKey) {
+        return reply.status(401).send({
+          message: "Invalid write key.",
+        });
+      }
 
-      return reply.status(400).send({
-        message: "Not yet implemented.",
+      await submitWebPushSubscription({
+        workspaceId: workspaceIdFromWriteKey,
+        data: request.body,
       });
+      return reply.status(204).send();
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/web-push/public-key",
+    {
+      schema: {
+        security: [
+          {
+            publicWriteKey: [],
+          },
+        ],
+        description:
+          "Get the workspace's VAPID public key, used to subscribe a browser to push notifications.",
+        tags: ["Public Apps"],
+        headers: Type.Object({
+          authorization: PublicWriteKey,
+        }),
+        response: {
+          200: WebPushPublicKeyResponse,
+          401: BaseMessageResponse,
+          404: BaseMessageResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const workspaceIdFromWriteKey = await validateWriteKey({
+        writeKey: request.headers.authorization,
+      });
+
+      if (!workspaceIdFromWriteKey) {
+        return reply.status(401).send({
+          message: "Invalid write key.",
+        });
+      }
+
+      const publicKey = await getWebPushPublicKey({
+        workspaceId: workspaceIdFromWriteKey,
+      });
+      if (!publicKey) {
+        return reply.status(404).send({
+          message: "Web push is not configured for this workspace.",
+        });
+      }
+      return reply.status(200).send({ publicKey });
     },
   );
 
@@ -265,7 +557,10 @@ export default async function publicAppsController(fastify: FastifyInstance) {
         }),
         response: {
           204: EmptyResponse,
+          400: BaseMessageResponse,
           401: BaseMessageResponse,
+          413: BaseMessageResponse,
+          429: BaseMessageResponse,
         },
       },
     },
@@ -279,9 +574,33 @@ export default async function publicAppsController(fastify: FastifyInstance) {
           message: "Invalid write key.",
         });
       }
+
+      if (
+        await rejectIfIngestionLimited({
+          reply,
+          workspaceId: workspaceIdFromWriteKey,
+          writeKey: request.headers.authorization,
+          events: request.body.batch,
+        })
+      ) {
+        return reply;
+      }
+      const trackingPlanResult = await applyTrackingPlan({
+        workspaceId: workspaceIdFromWriteKey,
+        events: request.body.batch,
+        context: request.body.context,
+      });
+      if (trackingPlanResult.isErr()) {
+        return reply.status(400).send({
+          message: formatTrackingPlanViolations(trackingPlanResult.error),
+        });
+      }
       await submitBatchWithTriggers({
         workspaceId: workspaceIdFromWriteKey,
-        data: request.body,
+        data: {
+          ...request.body,
+          batch: trackingPlanResult.value,
+        },
       });
       return reply.status(204).send();
     },
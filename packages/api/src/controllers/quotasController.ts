@@ -3,6 +3,7 @@ import { Type } from "@sinclair/typebox";
 import { db } from "backend-lib/src/db";
 import * as schema from "backend-lib/src/db/schema";
 import logger from "backend-lib/src/logger";
+import { getMessagesSentInBillingPeriod } from "backend-lib/src/multitenancy/messageQuotas";
 import {
   getWorkspaceQuota,
   upsertWorkspaceQuota,
@@ -22,7 +23,7 @@ import {
 
 /**
  * Quotas Controller
- * 
+ *
  * Provides CRUD operations for workspace quotas and quota validation endpoints.
  * Follows the same patterns as segmentsController.ts for consistency.
  */
@@ -50,15 +51,12 @@ export default async function quotasController(fastify: FastifyInstance) {
 
         logger().debug(
           { workspaceId, quotaFound: !!quota },
-          "Retrieved workspace quota"
+          "Retrieved workspace quota",
         );
 
         return reply.status(200).send({ quota });
       } catch (error) {
-        logger().error(
-          { error, workspaceId },
-          "Failed to get workspace quota"
-        );
+        logger().error({ error, workspaceId }, "Failed to get workspace quota");
         return reply.status(500).send();
       }
     },
@@ -83,36 +81,35 @@ export default async function quotasController(fastify: FastifyInstance) {
       const quotaData = request.body;
 
       try {
-        const result = await upsertWorkspaceQuota(
-          quotaData.workspaceId,
-          {
-            maxUsers: quotaData.maxUsers,
-            maxSegments: quotaData.maxSegments,
-            maxJourneys: quotaData.maxJourneys,
-            maxTemplates: quotaData.maxTemplates,
-            maxStorageBytes: quotaData.maxStorageBytes,
-            maxMessagesPerMonth: quotaData.maxMessagesPerMonth,
-          }
-        );
+        const result = await upsertWorkspaceQuota(quotaData.workspaceId, {
+          maxUsers: quotaData.maxUsers,
+          maxSegments: quotaData.maxSegments,
+          maxJourneys: quotaData.maxJourneys,
+          maxTemplates: quotaData.maxTemplates,
+          maxStorageBytes: quotaData.maxStorageBytes,
+          maxMessagesPerMonth: quotaData.maxMessagesPerMonth,
+          maxEventsPerMonth: quotaData.maxEventsPerMonth,
+          maxEventSizeBytes: quotaData.maxEventSizeBytes,
+        });
 
         if (result.isErr()) {
           logger().error(
             { error: result.error, quotaData },
-            "Failed to upsert workspace quota"
+            "Failed to upsert workspace quota",
           );
           return reply.status(400).send();
         }
 
         logger().info(
           { workspaceId: quotaData.workspaceId, quota: result.value },
-          "Successfully upserted workspace quota"
+          "Successfully upserted workspace quota",
         );
 
         return reply.status(200).send({ quota: result.value });
       } catch (error) {
         logger().error(
           { error, quotaData },
-          "Unexpected error during quota upsert"
+          "Unexpected error during quota upsert",
         );
         return reply.status(500).send();
       }
@@ -146,14 +143,14 @@ export default async function quotasController(fastify: FastifyInstance) {
 
         logger().info(
           { workspaceId },
-          "Deleted workspace quota (reverted to defaults)"
+          "Deleted workspace quota (reverted to defaults)",
         );
 
         return reply.status(200).send();
       } catch (error) {
         logger().error(
           { error, workspaceId },
-          "Failed to delete workspace quota"
+          "Failed to delete workspace quota",
         );
         return reply.status(500).send();
       }
@@ -188,12 +185,12 @@ export default async function quotasController(fastify: FastifyInstance) {
         const result = await validateWorkspaceQuota(
           workspaceId,
           resourceType,
-          increment
+          increment,
         );
 
         if (result.isErr()) {
           const quotaError = result.error;
-          
+
           logger().info(
             {
               workspaceId,
@@ -201,7 +198,7 @@ export default async function quotasController(fastify: FastifyInstance) {
               increment,
               quotaError,
             },
-            "Quota validation failed"
+            "Quota validation failed",
           );
 
           return reply.status(429).send({
@@ -221,14 +218,14 @@ export default async function quotasController(fastify: FastifyInstance) {
             increment,
             validationResponse,
           },
-          "Quota validation successful"
+          "Quota validation successful",
         );
 
         return reply.status(200).send(validationResponse);
       } catch (error) {
         logger().error(
           { error, workspaceId, resourceType, increment },
-          "Unexpected error during quota validation"
+          "Unexpected error during quota validation",
         );
         return reply.status(500).send();
       }
@@ -271,26 +268,29 @@ export default async function quotasController(fastify: FastifyInstance) {
           journeyCount,
           messageTemplateCount,
           emailTemplateCount,
+          messagesSent,
         ] = await Promise.all([
           db()
             .select({ count: schema.segment.id })
             .from(schema.segment)
             .where(eq(schema.segment.workspaceId, workspaceId)),
-          
+
           db()
             .select({ count: schema.journey.id })
             .from(schema.journey)
             .where(eq(schema.journey.workspaceId, workspaceId)),
-          
+
           db()
             .select({ count: schema.messageTemplate.id })
             .from(schema.messageTemplate)
             .where(eq(schema.messageTemplate.workspaceId, workspaceId)),
-          
+
           db()
             .select({ count: schema.emailTemplate.id })
             .from(schema.emailTemplate)
             .where(eq(schema.emailTemplate.workspaceId, workspaceId)),
+
+          getMessagesSentInBillingPeriod({ workspaceId }),
         ]);
 
         const usage = {
@@ -299,22 +299,22 @@ export default async function quotasController(fastify: FastifyInstance) {
           journeys: journeyCount.length,
           templates: messageTemplateCount.length + emailTemplateCount.length,
           storageBytes: 0, // TODO: Implement storage calculation
-          messagesThisMonth: 0, // TODO: Implement message counting
+          messagesThisMonth: messagesSent.count,
         };
 
         logger().debug(
           { workspaceId, usage },
-          "Retrieved workspace resource usage"
+          "Retrieved workspace resource usage",
         );
 
         return reply.status(200).send({ usage });
       } catch (error) {
         logger().error(
           { error, workspaceId },
-          "Failed to get workspace resource usage"
+          "Failed to get workspace resource usage",
         );
         return reply.status(500).send();
       }
     },
   );
-}
\ No newline at end of file
+}
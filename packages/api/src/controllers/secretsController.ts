@@ -5,6 +5,7 @@ import { and, eq, inArray, SQL } from "drizzle-orm";
 import { FastifyInstance } from "fastify";
 import { isObject } from "isomorphic-lib/src/objects";
 import {
+  AuditEventType,
   DeleteSecretRequest,
   EmptyResponse,
   JSONValue,
@@ -13,6 +14,8 @@ import {
   UpsertSecretRequest,
 } from "isomorphic-lib/src/types";
 
+import { auditResourceChange } from "../audit";
+
 // eslint-disable-next-line @typescript-eslint/require-await
 export default async function secretsController(fastify: FastifyInstance) {
   fastify.withTypeProvider<TypeBoxTypeProvider>().get(
@@ -69,7 +72,7 @@ export default async function secretsController(fastify: FastifyInstance) {
     },
     async (request, reply) => {
       const { workspaceId, name, value, configValue } = request.body;
-      await db().transaction(async (pTx) => {
+      const secretId = await db().transaction(async (pTx) => {
         const secret = await pTx.query.secret.findFirst({
           where: and(
             eq(schema.secret.workspaceId, workspaceId),
@@ -93,7 +96,7 @@ export default async function secretsController(fastify: FastifyInstance) {
         const configValueToSave = newConfig as
           | Record<string, JSONValue>
           | undefined;
-        await upsert({
+        const saved = await upsert({
           table: schema.secret,
           tx: pTx,
           values: {
@@ -109,7 +112,19 @@ export default async function secretsController(fastify: FastifyInstance) {
             configValue: configValueToSave,
           },
         });
+        return saved.isOk() ? saved.value.id : null;
       });
+      if (secretId) {
+        // Only the secret's name is recorded, never its value.
+        auditResourceChange({
+          request,
+          eventType: AuditEventType.RESOURCE_UPDATED,
+          workspaceId,
+          resourceType: "secret",
+          resourceId: secretId,
+          resourceName: name,
+        });
+      }
 
       return reply.status(204).send();
     },
@@ -138,9 +153,18 @@ export default async function secretsController(fastify: FastifyInstance) {
           ),
         )
         .returning();
-      if (!result.length) {
+      const [deleted] = result;
+      if (!deleted) {
         return reply.status(404).send();
       }
+      auditResourceChange({
+        request,
+        eventType: AuditEventType.RESOURCE_DELETED,
+        workspaceId,
+        resourceType: "secret",
+        resourceId: deleted.id,
+        resourceName: deleted.name,
+      });
       return reply.status(204).send();
     },
   );
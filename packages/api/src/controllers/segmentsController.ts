@@ -35,6 +35,7 @@ import {
   BatchItem,
   ClearManualSegmentRequest,
   CsvUploadValidationError,
+  DeleteSegmentError,
   DeleteSegmentRequest,
   EmptyResponse,
   EventType,
@@ -167,18 +168,23 @@ export default async function segmentsController(fastify: FastifyInstance) {
     "/",
     {
       schema: {
-        description: "Delete a segment.",
+        description:
+          "Delete a segment. Segments which are referenced by other segments can't be deleted.",
         tags: ["Segments"],
         body: DeleteSegmentRequest,
         response: {
           204: EmptyResponse,
           404: EmptyResponse,
+          409: DeleteSegmentError,
         },
       },
     },
     async (request, reply) => {
       const result = await deleteSegment(request.body);
-      if (!result) {
+      if (result.isErr()) {
+        return reply.status(409).send(result.error);
+      }
+      if (!result.value) {
         return reply.status(404).send();
       }
       return reply.status(204).send();
@@ -189,18 +195,23 @@ export default async function segmentsController(fastify: FastifyInstance) {
     "/v2",
     {
       schema: {
-        description: "Delete a segment.",
+        description:
+          "Delete a segment. Segments which are referenced by other segments can't be deleted.",
         tags: ["Segments"],
         querystring: DeleteSegmentRequest,
         response: {
           204: EmptyResponse,
           404: EmptyResponse,
+          409: DeleteSegmentError,
         },
       },
     },
     async (request, reply) => {
       const result = await deleteSegment(request.query);
-      if (!result) {
+      if (result.isErr()) {
+        return reply.status(409).send(result.error);
+      }
+      if (!result.value) {
         return reply.status(404).send();
       }
       return reply.status(204).send();
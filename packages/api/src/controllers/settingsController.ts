@@ -1,11 +1,27 @@
 /* eslint-disable arrow-body-style */
 import { TypeBoxTypeProvider } from "@fastify/type-provider-typebox";
 import { Type } from "@sinclair/typebox";
+import {
+  getEventTransformationRules,
+  upsertEventTransformations,
+} from "backend-lib/src/apps/transformations";
 import { getOrCreateWriteKey, getWriteKeys } from "backend-lib/src/auth";
 import { db, upsert } from "backend-lib/src/db";
 import * as schema from "backend-lib/src/db/schema";
 import { upsertEmailProvider } from "backend-lib/src/messaging/email";
-import { upsertSmsProvider } from "backend-lib/src/messaging/sms";
+import {
+  getEmailProviderFailover,
+  upsertEmailProviderFailover,
+} from "backend-lib/src/messaging/emailFailover";
+import {
+  getEmailProviderTrafficSplit,
+  upsertEmailProviderTrafficSplit,
+} from "backend-lib/src/messaging/emailTrafficSplit";
+import {
+  getSmsRoutingRules,
+  upsertSmsProvider,
+  upsertSmsRoutingRules,
+} from "backend-lib/src/messaging/sms";
 import { and, eq } from "drizzle-orm";
 import { FastifyInstance } from "fastify";
 import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
@@ -17,12 +33,20 @@ import {
   DefaultSmsProviderResource,
   DeleteDataSourceConfigurationRequest,
   DeleteWriteKeyResource,
+  EmailProviderFailoverResource,
+  EmailProviderTrafficSplitResource,
   EmptyResponse,
+  EventTransformationsResource,
+  GetEmailProviderFailoverRequest,
+  GetEmailProviderTrafficSplitRequest,
+  GetEventTransformationsRequest,
+  GetSmsRoutingRequest,
   ListDataSourceConfigurationRequest,
   ListDataSourceConfigurationResponse,
   ListWriteKeyRequest,
   ListWriteKeyResource,
   PersistedSmsProvider,
+  SmsRoutingResource,
   UpsertDataSourceConfigurationResource,
   UpsertDefaultEmailProviderRequest,
   UpsertEmailProviderRequest,
@@ -211,6 +235,168 @@ export default async function settingsController(fastify: FastifyInstance) {
     },
   );
 
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/sms-routing",
+    {
+      schema: {
+        description: "Get per-country sms routing rules",
+        tags: ["Settings"],
+        querystring: GetSmsRoutingRequest,
+        response: {
+          200: SmsRoutingResource,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { workspaceId } = request.query;
+      const rules = await getSmsRoutingRules({ workspaceId });
+      return reply.status(200).send({ workspaceId, rules });
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().put(
+    "/sms-routing",
+    {
+      schema: {
+        description: "Replace per-country sms routing rules",
+        tags: ["Settings"],
+        body: SmsRoutingResource,
+        response: {
+          200: SmsRoutingResource,
+        },
+      },
+    },
+    async (request, reply) => {
+      const resource = await upsertSmsRoutingRules(request.body);
+      return reply.status(200).send(resource);
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/email-provider-failover",
+    {
+      schema: {
+        description:
+          "Get the email providers tried, in order, when a send fails with a retryable error",
+        tags: ["Settings"],
+        querystring: GetEmailProviderFailoverRequest,
+        response: {
+          200: EmailProviderFailoverResource,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { workspaceId } = request.query;
+      const providers = await getEmailProviderFailover({ workspaceId });
+      return reply.status(200).send({ workspaceId, providers });
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().put(
+    "/email-provider-failover",
+    {
+      schema: {
+        description: "Replace the email provider failover list",
+        tags: ["Settings"],
+        body: EmailProviderFailoverResource,
+        response: {
+          200: EmailProviderFailoverResource,
+        },
+      },
+    },
+    async (request, reply) => {
+      const resource = await upsertEmailProviderFailover(request.body);
+      return reply.status(200).send(resource);
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/email-provider-traffic-split",
+    {
+      schema: {
+        description:
+          "Get the weights used to split email traffic between providers",
+        tags: ["Settings"],
+        querystring: GetEmailProviderTrafficSplitRequest,
+        response: {
+          200: EmailProviderTrafficSplitResource,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { workspaceId } = request.query;
+      const resource = await getEmailProviderTrafficSplit({ workspaceId });
+      return reply.status(200).send(resource);
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().put(
+    "/email-provider-traffic-split",
+    {
+      schema: {
+        description:
+          "Replace the weights used to split email traffic between providers, and their schedule",
+        tags: ["Settings"],
+        body: EmailProviderTrafficSplitResource,
+        response: {
+          200: EmailProviderTrafficSplitResource,
+          400: BadRequestResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const invalidStep = request.body.schedule?.find((step) =>
+        Number.isNaN(new Date(step.startsAt).getTime()),
+      );
+      if (invalidStep) {
+        return reply.status(400).send({
+          message: `Invalid payload. Invalid schedule start time: ${invalidStep.startsAt}`,
+        });
+      }
+      const resource = await upsertEmailProviderTrafficSplit(request.body);
+      return reply.status(200).send(resource);
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/event-transformations",
+    {
+      schema: {
+        description:
+          "Get the transformations applied to identify and track events before they're stored",
+        tags: ["Settings"],
+        querystring: GetEventTransformationsRequest,
+        response: {
+          200: EventTransformationsResource,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { workspaceId } = request.query;
+      const rules = await getEventTransformationRules({ workspaceId });
+      return reply.status(200).send({ workspaceId, rules });
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().put(
+    "/event-transformations",
+    {
+      schema: {
+        description:
+          "Replace the transformations applied to identify and track events",
+        tags: ["Settings"],
+        body: EventTransformationsResource,
+        response: {
+          200: EventTransformationsResource,
+        },
+      },
+    },
+    async (request, reply) => {
+      const resource = await upsertEventTransformations(request.body);
+      return reply.status(200).send(resource);
+    },
+  );
+
   fastify.withTypeProvider<TypeBoxTypeProvider>().put(
     "/email-providers/default",
     {
@@ -0,0 +1,80 @@
+import { TypeBoxTypeProvider } from "@fastify/type-provider-typebox";
+import {
+  getTrackingPlanRules,
+  getTrackingPlanViolations,
+  upsertTrackingPlan,
+} from "backend-lib/src/apps/trackingPlan";
+import { FastifyInstance } from "fastify";
+import {
+  BadRequestResponse,
+  GetTrackingPlanRequest,
+  GetTrackingPlanViolationsRequest,
+  GetTrackingPlanViolationsResponse,
+  TrackingPlanResource,
+} from "isomorphic-lib/src/types";
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export default async function trackingPlanController(fastify: FastifyInstance) {
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/",
+    {
+      schema: {
+        description:
+          "Get a workspace's tracking plan, the schemas which its identify traits and track event properties are validated against.",
+        tags: ["Tracking Plan"],
+        querystring: GetTrackingPlanRequest,
+        response: {
+          200: TrackingPlanResource,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { workspaceId } = request.query;
+      const rules = await getTrackingPlanRules({ workspaceId });
+      return reply.status(200).send({ workspaceId, rules });
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().put(
+    "/",
+    {
+      schema: {
+        description: "Replace a workspace's tracking plan.",
+        tags: ["Tracking Plan"],
+        body: TrackingPlanResource,
+        response: {
+          200: TrackingPlanResource,
+          400: BadRequestResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const result = await upsertTrackingPlan(request.body);
+      if (result.isErr()) {
+        return reply.status(400).send({
+          message: `Invalid tracking plan: ${result.error.join("; ")}`,
+        });
+      }
+      return reply.status(200).send(result.value);
+    },
+  );
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().get(
+    "/violations",
+    {
+      schema: {
+        description:
+          "Get a workspace's tracking plan violations, summarized by event.",
+        tags: ["Tracking Plan"],
+        querystring: GetTrackingPlanViolationsRequest,
+        response: {
+          200: GetTrackingPlanViolationsResponse,
+        },
+      },
+    },
+    async (request, reply) => {
+      const violations = await getTrackingPlanViolations(request.query);
+      return reply.status(200).send({ violations });
+    },
+  );
+}
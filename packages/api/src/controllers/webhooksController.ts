@@ -18,12 +18,18 @@ import { submitMailChimpEvents } from "backend-lib/src/destinations/mailchimp";
 import { submitPostmarkEvents } from "backend-lib/src/destinations/postmark";
 import { submitResendEvents } from "backend-lib/src/destinations/resend";
 import { submitSendgridEvents } from "backend-lib/src/destinations/sendgrid";
+import { submitSnsSmsEvents } from "backend-lib/src/destinations/sns";
 import { submitTwilioEvents } from "backend-lib/src/destinations/twilio";
+import {
+  submitVonageEvents,
+  verifyVonageCallback,
+} from "backend-lib/src/destinations/vonage";
 import logger from "backend-lib/src/logger";
 import { withSpan } from "backend-lib/src/openTelemetry";
 import {
   AmazonSNSEvent,
   AmazonSNSEventTypes,
+  AmazonSnsSmsDeliveryStatus,
   MailChimpEvent,
   PostMarkEvent,
   ResendEvent,
@@ -45,8 +51,13 @@ import {
   PostMarkSecret,
   ResendSecret,
   SendgridSecret,
+  SnsSecret,
+  SnsSmsWebhookRequest,
   TwilioSecret,
   TwilioWebhookRequest,
+  VonageDeliveryReceipt,
+  VonageSecret,
+  VonageWebhookRequest,
   WorkspaceId,
 } from "isomorphic-lib/src/types";
 import * as R from "remeda";
@@ -616,6 +627,185 @@ export default async function webhookController(fastify: FastifyInstance) {
     },
   );
 
+  fastify.withTypeProvider<TypeBoxTypeProvider>().route({
+    method: ["GET", "POST"],
+    url: "/vonage",
+    schema: {
+      description:
+        "Used to consume Vonage delivery receipts, which are sent either as query parameters or in the request body depending on the account's settings.",
+      tags: ["Webhooks"],
+      querystring: VonageWebhookRequest,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId, userId, subscriptionGroupId, ...rest } =
+        request.query;
+
+      const vonageSecretModel = await db().query.secret.findFirst({
+        where: and(
+          eq(schema.secret.workspaceId, workspaceId),
+          eq(schema.secret.name, SecretNames.Vonage),
+        ),
+      });
+      const apiSecret = schemaValidateWithErr(
+        vonageSecretModel?.configValue,
+        VonageSecret,
+      )
+        .map((val) => val.apiSecret)
+        .unwrapOr(null);
+
+      if (!apiSecret) {
+        return reply.status(503).send({
+          message: "Vonage configuration not found",
+        });
+      }
+
+      if (!verifyVonageCallback({ apiSecret, query: request.query })) {
+        logger().error(
+          {
+            workspaceId,
+          },
+          "Invalid signature for vonage webhook.",
+        );
+        return reply.status(401).send({
+          message: "Invalid signature.",
+        });
+      }
+
+      const receipt = schemaValidateWithErr(
+        request.method === "GET" ? request.query : request.body,
+        VonageDeliveryReceipt,
+      );
+      if (receipt.isErr()) {
+        return reply.status(400).send({
+          message: receipt.error.message,
+        });
+      }
+
+      const tags = R.pick(rest, [
+        "messageId",
+        "journeyId",
+        "templateId",
+        "nodeId",
+        "runId",
+      ]);
+      const result = await submitVonageEvents({
+        ...tags,
+        workspaceId,
+        userId,
+        subscriptionGroupId,
+        receipt: receipt.value,
+      });
+      if (result.isErr()) {
+        logger().error(
+          {
+            workspaceId,
+            err: result.error,
+          },
+          "Error submitting vonage events.",
+        );
+        return reply.status(500).send();
+      }
+      return reply.status(200).send();
+    },
+  });
+
+  fastify.withTypeProvider<TypeBoxTypeProvider>().post(
+    "/amazon-sns-sms",
+    {
+      schema: {
+        description:
+          "Used to consume Amazon SNS SMS delivery status logs, forwarded to an SNS topic which is subscribed to this endpoint.",
+        tags: ["Webhooks"],
+        body: AmazonSNSEvent,
+        querystring: SnsSmsWebhookRequest,
+      },
+      // Force JSON parsing the request body as SNS send requests with text/plain content-type.
+      onRequest: (req, _, done) => {
+        // eslint-disable-next-line no-param-reassign
+        req.headers["content-type"] = "application/json";
+        done();
+      },
+    },
+    async (request, reply) => {
+      const { body } = request;
+      const { workspaceId } = request.query;
+
+      const valid = await validSNSSignature(body);
+      if (valid.isErr()) {
+        logger().error(
+          { workspaceId, err: valid.error },
+          "Invalid signature for Amazon SNS SMS webhook.",
+        );
+        return reply.status(401).send({ message: "Invalid signature" });
+      }
+
+      switch (body.Type) {
+        case AmazonSNSEventTypes.SubscriptionConfirmation:
+        case AmazonSNSEventTypes.UnsubscribeConfirmation: {
+          const snsSecretModel = await db().query.secret.findFirst({
+            where: and(
+              eq(schema.secret.workspaceId, workspaceId),
+              eq(schema.secret.name, SecretNames.Sns),
+            ),
+          });
+          const topicArn = schemaValidateWithErr(
+            snsSecretModel?.configValue,
+            SnsSecret,
+          )
+            .map((val) => val.deliveryStatusTopicArn)
+            .unwrapOr(undefined);
+          // any aws account can subscribe its topics to the webhook, so only
+          // the configured topic is confirmed
+          if (!topicArn || topicArn !== body.TopicArn) {
+            logger().info(
+              { workspaceId, topicArn: body.TopicArn },
+              "Ignoring Amazon SNS SMS subscription for unexpected topic.",
+            );
+            return reply.status(403).send({
+              message: "Unexpected topic.",
+            });
+          }
+          const confirmed = await confirmSubscription(body);
+          if (confirmed.isErr()) {
+            logger().error(
+              { workspaceId, err: confirmed.error },
+              "Unable to confirm Amazon SNS SMS subscription.",
+            );
+            return reply.status(401).send({});
+          }
+          break;
+        }
+        case AmazonSNSEventTypes.Notification: {
+          const status = jsonParseSafe(body.Message).andThen((parsed) =>
+            schemaValidateWithErr(parsed, AmazonSnsSmsDeliveryStatus),
+          );
+          if (status.isErr()) {
+            logger().error(
+              { workspaceId, err: status.error },
+              "Invalid Amazon SNS SMS delivery status.",
+            );
+            return reply.status(400).send({
+              message: status.error.message,
+            });
+          }
+          const result = await submitSnsSmsEvents({
+            workspaceId,
+            status: status.value,
+          });
+          if (result.isErr()) {
+            logger().error(
+              { workspaceId, err: result.error },
+              "Error submitting Amazon SNS SMS events.",
+            );
+            return reply.status(500).send();
+          }
+          break;
+        }
+      }
+      return reply.status(200).send();
+    },
+  );
+
   fastify.withTypeProvider<TypeBoxTypeProvider>().post(
     "/segment",
     {
@@ -0,0 +1,7 @@
+-- Migration: Add event ingestion limits to workspace quotas
+
+ALTER TABLE "WorkspaceQuota"
+  ADD COLUMN IF NOT EXISTS "maxEventsPerMonth" INTEGER NOT NULL DEFAULT 1000000;
+
+ALTER TABLE "WorkspaceQuota"
+  ADD COLUMN IF NOT EXISTS "maxEventSizeBytes" INTEGER NOT NULL DEFAULT 65536;
@@ -0,0 +1,41 @@
+-- Create FailedMessage table, storing failed message sends so that they can be
+-- replayed once the cause of the failure has been fixed
+DO $$ BEGIN
+    CREATE TYPE "DBFailedMessageStatus" AS ENUM ('Failed', 'Replaying', 'Replayed', 'ReplayFailed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "FailedMessage" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "workspaceId" UUID NOT NULL,
+  "messageId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "channel" "DBChannelType" NOT NULL,
+  "templateId" UUID NOT NULL,
+  "journeyId" UUID,
+  "broadcastId" UUID,
+  "sendParams" JSONB NOT NULL,
+  "error" JSONB NOT NULL,
+  "status" "DBFailedMessageStatus" DEFAULT 'Failed' NOT NULL,
+  "replayCount" INTEGER DEFAULT 0 NOT NULL,
+  "lastReplayMessageId" TEXT,
+  "lastReplayedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP(3) DEFAULT NOW() NOT NULL,
+  CONSTRAINT "FailedMessage_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "FailedMessage_workspaceId_messageId_key"
+  ON "FailedMessage" USING btree ("workspaceId" uuid_ops, "messageId" text_ops);
+
+CREATE INDEX IF NOT EXISTS "FailedMessage_workspaceId_status_createdAt_idx"
+  ON "FailedMessage" ("workspaceId", "status", "createdAt");
+
+-- Enable Row-Level Security for FailedMessage
+ALTER TABLE "FailedMessage" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "failed_message_workspace_isolation" ON "FailedMessage";
+CREATE POLICY "failed_message_workspace_isolation" ON "FailedMessage"
+  USING ("workspaceId" = current_setting('app.current_workspace_id', true)::uuid);
@@ -0,0 +1,28 @@
+-- Create MessageIdempotencyKey table, recording message sends so that retried
+-- journey activities and broadcast batches don't send the same message twice
+CREATE TABLE IF NOT EXISTS "MessageIdempotencyKey" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "workspaceId" UUID NOT NULL,
+  "key" TEXT NOT NULL,
+  "messageId" TEXT NOT NULL,
+  "result" JSONB,
+  "createdAt" TIMESTAMP(3) DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP(3) DEFAULT NOW() NOT NULL,
+  CONSTRAINT "MessageIdempotencyKey_workspaceId_fkey"
+    FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "MessageIdempotencyKey_workspaceId_key_key"
+  ON "MessageIdempotencyKey" USING btree ("workspaceId" uuid_ops, "key" text_ops);
+
+-- Used to delete keys which are older than the window in which their sends can
+-- be retried
+CREATE INDEX IF NOT EXISTS "MessageIdempotencyKey_createdAt_idx"
+  ON "MessageIdempotencyKey" USING btree ("createdAt");
+
+-- Enable Row-Level Security for MessageIdempotencyKey
+ALTER TABLE "MessageIdempotencyKey" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "message_idempotency_key_workspace_isolation" ON "MessageIdempotencyKey";
+CREATE POLICY "message_idempotency_key_workspace_isolation" ON "MessageIdempotencyKey"
+  USING ("workspaceId" = current_setting('app.current_workspace_id', true)::uuid);
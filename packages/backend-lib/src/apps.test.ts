@@ -141,6 +141,7 @@ describe("apps", () => {
         triggerEventEntryJourneys: triggerEventEntryJourneysFactory({
           journeyCache: new NodeCache(),
           startKeyedJourneyImpl,
+          signalJourneyGoalImpl: jest.fn(),
         }),
       }));
 
@@ -3,12 +3,18 @@ import * as R from "remeda";
 import { submitBatch, SubmitBatchOptions } from "./apps/batch";
 import { persistFiles } from "./apps/files";
 import { splitGroupEvents } from "./apps/group";
+import { submitIdentify as submitUntransformedIdentify } from "./apps/identify";
 import { submitTrack } from "./apps/track";
+import {
+  getCachedEventTransformationRules,
+  transformEvent,
+} from "./apps/transformations";
 import {
   triggerEventEntryJourneys,
   TriggerEventEntryJourneysOptions,
 } from "./journeys";
 import {
+  AliasData,
   BatchItem,
   EventType,
   GroupData,
@@ -26,32 +32,36 @@ export async function submitIdentify({
   workspaceId: string;
   data: IdentifyData;
 }) {
-  const rest = R.omit(data, ["timestamp", "traits"]);
-  const traits = data.traits ?? {};
-  const timestamp = data.timestamp ?? new Date().toISOString();
-
-  const userEvent: InsertUserEvent = {
-    messageRaw: JSON.stringify({
-      type: "identify",
-      traits,
-      timestamp,
-      ...rest,
-    }),
-    messageId: data.messageId,
-  };
-  await insertUserEvents({
+  const { rules, templates } = await getCachedEventTransformationRules({
     workspaceId,
-    userEvents: [userEvent],
+  });
+  await submitUntransformedIdentify({
+    workspaceId,
+    data: transformEvent({
+      rules,
+      templates,
+      eventType: EventType.Identify,
+      event: data,
+    }),
   });
 }
 
 export async function submitTrackWithTriggers({
   workspaceId,
-  data,
+  data: untransformedData,
 }: {
   workspaceId: string;
   data: TrackData;
 }) {
+  const { rules, templates } = await getCachedEventTransformationRules({
+    workspaceId,
+  });
+  const data = transformEvent({
+    rules,
+    templates,
+    eventType: EventType.Track,
+    event: untransformedData,
+  });
   let properties = data.properties ?? {};
   if (data.files) {
     properties = await persistFiles({
@@ -93,8 +103,17 @@ export async function submitBatchWithTriggers({
   workspaceId,
   data: unprocessedData,
 }: SubmitBatchOptions) {
+  const { rules, templates } = await getCachedEventTransformationRules({
+    workspaceId,
+  });
   const batch = await Promise.all(
-    unprocessedData.batch.map(async (message) => {
+    unprocessedData.batch.map(async (untransformedMessage) => {
+      const message = transformEvent({
+        rules,
+        templates,
+        eventType: untransformedMessage.type,
+        event: untransformedMessage,
+      });
       if (message.type !== EventType.Track || !message.files?.length) {
         return message;
       }
@@ -206,3 +225,32 @@ export async function submitGroup({
   const batch = splitGroupEvents(data) satisfies BatchItem[];
   await submitBatch({ workspaceId, data: { batch, context: data.context } });
 }
+
+/**
+ * Merges a user's previous id into their canonical user id. The alias is
+ * applied when computing properties, so that the previous id's events, traits
+ * and segment memberships are attributed to the canonical user.
+ */
+export async function submitAlias({
+  workspaceId,
+  data,
+}: {
+  workspaceId: string;
+  data: AliasData;
+}) {
+  const rest = R.omit(data, ["timestamp"]);
+  const timestamp = data.timestamp ?? new Date().toISOString();
+
+  const userEvent: InsertUserEvent = {
+    messageRaw: JSON.stringify({
+      type: "alias",
+      timestamp,
+      ...rest,
+    }),
+    messageId: data.messageId,
+  };
+  await insertUserEvents({
+    workspaceId,
+    userEvents: [userEvent],
+  });
+}
@@ -31,6 +31,9 @@ export function buildBatchUserEvents(
       rest = R.omit(message, ["timestamp", "traits"]);
       timestamp = message.timestamp ?? new Date().toISOString();
       messageRaw.traits = message.traits ?? {};
+    } else if (message.type === EventType.Alias) {
+      rest = R.omit(message, ["timestamp"]);
+      timestamp = message.timestamp ?? new Date().toISOString();
     } else {
       rest = R.omit(message, ["timestamp", "properties"]);
       timestamp = message.timestamp ?? new Date().toISOString();
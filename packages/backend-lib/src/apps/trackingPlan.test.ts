@@ -0,0 +1,201 @@
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+
+import {
+  EventType,
+  TrackingPlanRule,
+  TrackingPlanViolationAction,
+} from "../types";
+import {
+  compileTrackingPlanRules,
+  validateTrackingPlanEvent,
+} from "./trackingPlan";
+
+describe("validateTrackingPlanEvent", () => {
+  const rules = unwrap(
+    compileTrackingPlanRules([
+      {
+        id: "identify",
+        eventType: EventType.Identify,
+        schema: {
+          type: "object",
+          properties: {
+            email: { type: "string", minLength: 3 },
+            plan: { enum: ["free", "pro"] },
+          },
+          required: ["email"],
+        },
+        action: TrackingPlanViolationAction.Reject,
+      },
+      {
+        id: "purchase",
+        eventType: EventType.Track,
+        event: "Purchase",
+        schema: {
+          type: "object",
+          properties: {
+            amount: { type: "number", minimum: 0 },
+            items: { type: "array", items: { type: "string" } },
+          },
+          required: ["amount"],
+          additionalProperties: false,
+        },
+        action: TrackingPlanViolationAction.Quarantine,
+      },
+      {
+        id: "catch-all",
+        eventType: EventType.Track,
+        schema: {
+          type: "object",
+          properties: {
+            source: { type: ["string", "null"] },
+          },
+        },
+        action: TrackingPlanViolationAction.Tag,
+      },
+    ]),
+  );
+
+  it("accepts traits which match the identify schema", () => {
+    expect(
+      validateTrackingPlanEvent({
+        rules,
+        eventType: EventType.Identify,
+        event: {
+          messageId: "1",
+          traits: { email: "max@example.com", plan: "pro", age: 30 },
+        },
+      }),
+    ).toBeNull();
+  });
+
+  it("returns the violations of traits which don't match", () => {
+    const violation = validateTrackingPlanEvent({
+      rules,
+      eventType: EventType.Identify,
+      event: {
+        messageId: "2",
+        traits: { plan: "enterprise" },
+      },
+    });
+    expect(violation).toEqual(
+      expect.objectContaining({
+        messageId: "2",
+        eventType: EventType.Identify,
+        action: TrackingPlanViolationAction.Reject,
+      }),
+    );
+    expect(violation?.errors.length).toBeGreaterThan(0);
+  });
+
+  it("validates track events with the rule for their event name", () => {
+    expect(
+      validateTrackingPlanEvent({
+        rules,
+        eventType: EventType.Track,
+        event: {
+          messageId: "3",
+          event: "Purchase",
+          properties: { amount: 10, items: ["shirt"] },
+        },
+      }),
+    ).toBeNull();
+    expect(
+      validateTrackingPlanEvent({
+        rules,
+        eventType: EventType.Track,
+        event: {
+          messageId: "4",
+          event: "Purchase",
+          properties: { amount: 10, coupon: "SALE" },
+        },
+      }),
+    ).toEqual(
+      expect.objectContaining({
+        event: "Purchase",
+        action: TrackingPlanViolationAction.Quarantine,
+      }),
+    );
+  });
+
+  it("falls back to the track rule without an event name", () => {
+    expect(
+      validateTrackingPlanEvent({
+        rules,
+        eventType: EventType.Track,
+        event: {
+          messageId: "5",
+          event: "Signup",
+          properties: { source: null },
+        },
+      }),
+    ).toBeNull();
+    expect(
+      validateTrackingPlanEvent({
+        rules,
+        eventType: EventType.Track,
+        event: {
+          messageId: "6",
+          event: "Signup",
+          properties: { source: 1 },
+        },
+      }),
+    ).toEqual(
+      expect.objectContaining({
+        event: "Signup",
+        action: TrackingPlanViolationAction.Tag,
+      }),
+    );
+  });
+
+  it("ignores events without a rule", () => {
+    expect(
+      validateTrackingPlanEvent({
+        rules: rules.filter((rule) => rule.eventType === EventType.Identify),
+        eventType: EventType.Track,
+        event: {
+          messageId: "7",
+          event: "Signup",
+          properties: { source: 1 },
+        },
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("compileTrackingPlanRules", () => {
+  const rule: TrackingPlanRule = {
+    id: "signup",
+    eventType: EventType.Track,
+    event: "Signup",
+    schema: {
+      type: "object",
+      properties: {
+        email: { type: "string", pattern: "^[^@]+@[^@]+$" },
+      },
+    },
+    action: TrackingPlanViolationAction.Reject,
+  };
+
+  it("compiles rules with valid schemas", () => {
+    expect(compileTrackingPlanRules([rule]).isOk()).toBe(true);
+  });
+
+  it("returns an error for each rule with an invalid pattern", () => {
+    const result = compileTrackingPlanRules([
+      rule,
+      {
+        ...rule,
+        id: "invalid",
+        schema: {
+          type: "object",
+          properties: {
+            email: { type: "string", pattern: "([a-z]" },
+          },
+        },
+      },
+    ]);
+    expect(result.isErr() && result.error).toEqual([
+      "rule invalid: invalid pattern ([a-z]",
+    ]);
+  });
+});
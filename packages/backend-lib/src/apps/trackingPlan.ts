@@ -0,0 +1,589 @@
+import { FormatRegistry, TSchema, Type } from "@sinclair/typebox";
+import { TypeCheck, TypeCompiler } from "@sinclair/typebox/compiler";
+import { isObject } from "isomorphic-lib/src/objects";
+import { err, ok, Result } from "neverthrow";
+
+import { clickhouseClient, ClickHouseQueryBuilder, query } from "../clickhouse";
+import { addFeatures, getFeatureConfig } from "../features";
+import logger from "../logger";
+import {
+  EventType,
+  FeatureNamesEnum,
+  GetTrackingPlanViolationsRequest,
+  TrackingPlanResource,
+  TrackingPlanRule,
+  TrackingPlanViolationAction,
+  TrackingPlanViolationSummary,
+} from "../types";
+
+// Bounds the size of the errors stored with, and returned for, a violation.
+const MAX_VIOLATION_ERRORS = 10;
+
+// How long an instance trusts its cached tracking plan before re-reading it.
+const TRACKING_PLAN_RULES_CACHE_TTL_MS = 30 * 1000;
+
+/**
+ * The fields of identify and track events, submitted individually or in a
+ * batch, which are validated by a tracking plan.
+ */
+export interface TrackingPlanEvent {
+  messageId: string;
+  type?: EventType;
+  event?: string;
+  traits?: Record<string, unknown>;
+  properties?: Record<string, unknown>;
+  context?: Record<string, unknown>;
+}
+
+export interface TrackingPlanViolation {
+  messageId: string;
+  eventType: EventType.Identify | EventType.Track;
+  event?: string;
+  action: TrackingPlanViolationAction;
+  errors: string[];
+}
+
+/**
+ * A tracking plan rule along with its schema, compiled for validating events.
+ */
+export type CompiledTrackingPlanRule = TrackingPlanRule & {
+  check: TypeCheck<TSchema>;
+};
+
+interface TrackingPlanRulesCacheEntry {
+  rules: CompiledTrackingPlanRule[];
+  refreshedAt: number;
+}
+
+const TRACKING_PLAN_RULES_CACHE = new Map<
+  string,
+  TrackingPlanRulesCacheEntry
+>();
+
+export async function getTrackingPlanRules({
+  workspaceId,
+}: {
+  workspaceId: string;
+}): Promise<TrackingPlanRule[]> {
+  const trackingPlan = await getFeatureConfig({
+    workspaceId,
+    name: FeatureNamesEnum.TrackingPlan,
+  });
+  return trackingPlan?.rules ?? [];
+}
+
+type LiteralValue = string | number | boolean;
+
+function isLiteralValue(value: unknown): value is LiteralValue {
+  return (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+function literalToTypeBox(value: unknown): TSchema {
+  if (value === null) {
+    return Type.Null();
+  }
+  return isLiteralValue(value) ? Type.Literal(value) : Type.Unknown();
+}
+
+function numberOptions(
+  schema: Record<string, unknown>,
+  keys: string[],
+): Record<string, number> {
+  return Object.fromEntries(
+    keys.flatMap((key) => {
+      const value = schema[key];
+      return typeof value === "number" ? [[key, value]] : [];
+    }),
+  );
+}
+
+/**
+ * Convert a JSON schema to an equivalent TypeBox schema, so that events can be
+ * validated with TypeBox.
+ *
+ * Supports the commonly used subset of JSON schema. Unsupported keywords are
+ * ignored, so that schemas are never stricter than they were written, and
+ * oneOf is treated as anyOf. String formats are only checked if they're
+ * registered with TypeBox's FormatRegistry.
+ */
+export function jsonSchemaToTypeBox(schema: unknown): TSchema {
+  if (!isObject(schema)) {
+    return Type.Unknown();
+  }
+  if ("const" in schema) {
+    return literalToTypeBox(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return Type.Union(schema.enum.map(literalToTypeBox));
+  }
+  const anyOf = Array.isArray(schema.anyOf) ? schema.anyOf : schema.oneOf;
+  if (Array.isArray(anyOf)) {
+    return Type.Union(anyOf.map(jsonSchemaToTypeBox));
+  }
+  if (Array.isArray(schema.allOf)) {
+    return Type.Intersect(schema.allOf.map(jsonSchemaToTypeBox));
+  }
+
+  const { type } = schema;
+  if (Array.isArray(type)) {
+    return Type.Union(
+      type.map((memberType: unknown) =>
+        jsonSchemaToTypeBox({ ...schema, type: memberType }),
+      ),
+    );
+  }
+  switch (type) {
+    case "string": {
+      const { pattern, format } = schema;
+      return Type.String({
+        ...numberOptions(schema, ["minLength", "maxLength"]),
+        ...(typeof pattern === "string" ? { pattern } : {}),
+        ...(typeof format === "string" && FormatRegistry.Has(format)
+          ? { format }
+          : {}),
+      });
+    }
+    case "number":
+    case "integer": {
+      const options = numberOptions(schema, [
+        "minimum",
+        "maximum",
+        "exclusiveMinimum",
+        "exclusiveMaximum",
+        "multipleOf",
+      ]);
+      return type === "integer" ? Type.Integer(options) : Type.Number(options);
+    }
+    case "boolean":
+      return Type.Boolean();
+    case "null":
+      return Type.Null();
+    case "array":
+      return Type.Array(jsonSchemaToTypeBox(schema.items), {
+        ...numberOptions(schema, ["minItems", "maxItems"]),
+        ...(schema.uniqueItems === true ? { uniqueItems: true } : {}),
+      });
+    case "object":
+      break;
+    default:
+      if (!isObject(schema.properties)) {
+        return Type.Unknown();
+      }
+  }
+
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = new Set(
+    Array.isArray(schema.required)
+      ? schema.required.filter((key) => typeof key === "string")
+      : [],
+  );
+  const typeBoxProperties: Record<string, TSchema> = {};
+  for (const [key, property] of Object.entries(properties)) {
+    const typeBoxProperty = jsonSchemaToTypeBox(property);
+    typeBoxProperties[key] = required.has(key)
+      ? typeBoxProperty
+      : Type.Optional(typeBoxProperty);
+  }
+  for (const key of required) {
+    if (!(key in typeBoxProperties)) {
+      typeBoxProperties[key] = Type.Unknown();
+    }
+  }
+
+  const { additionalProperties } = schema;
+  if (additionalProperties === false) {
+    return Type.Object(typeBoxProperties, { additionalProperties: false });
+  }
+  if (isObject(additionalProperties)) {
+    return Type.Object(typeBoxProperties, {
+      additionalProperties: jsonSchemaToTypeBox(additionalProperties),
+    });
+  }
+  return Type.Object(typeBoxProperties);
+}
+
+function getSchemaPatterns(schema: unknown): string[] {
+  if (Array.isArray(schema)) {
+    return schema.flatMap(getSchemaPatterns);
+  }
+  if (!isObject(schema)) {
+    return [];
+  }
+  return Object.entries(schema).flatMap(([key, value]) =>
+    key === "pattern" && typeof value === "string"
+      ? [value]
+      : getSchemaPatterns(value),
+  );
+}
+
+function compileTrackingPlanRule(
+  rule: TrackingPlanRule,
+): Result<CompiledTrackingPlanRule, string[]> {
+  const errors: string[] = [];
+  for (const pattern of getSchemaPatterns(rule.schema)) {
+    try {
+      // eslint-disable-next-line no-new
+      new RegExp(pattern);
+    } catch (error) {
+      errors.push(`rule ${rule.id}: invalid pattern ${pattern}`);
+    }
+  }
+  if (errors.length > 0) {
+    return err(errors);
+  }
+  try {
+    return ok({
+      ...rule,
+      check: TypeCompiler.Compile(jsonSchemaToTypeBox(rule.schema)),
+    });
+  } catch (error) {
+    return err([
+      `rule ${rule.id}: invalid schema${error instanceof Error ? `, ${error.message}` : ""}`,
+    ]);
+  }
+}
+
+/**
+ * Compile the schemas of a tracking plan's rules, returning an error
+ * describing each rule which can't be compiled.
+ */
+export function compileTrackingPlanRules(
+  rules: TrackingPlanRule[],
+): Result<CompiledTrackingPlanRule[], string[]> {
+  const compiled: CompiledTrackingPlanRule[] = [];
+  const errors: string[] = [];
+  for (const rule of rules) {
+    const result = compileTrackingPlanRule(rule);
+    if (result.isErr()) {
+      errors.push(...result.error);
+    } else {
+      compiled.push(result.value);
+    }
+  }
+  return errors.length > 0 ? err(errors) : ok(compiled);
+}
+
+/**
+ * Get a workspace's compiled tracking plan for ingestion, caching it briefly
+ * so that each submitted event doesn't require a query. Rules which can't be
+ * compiled are skipped rather than blocking ingestion.
+ */
+export async function getCachedTrackingPlanRules({
+  workspaceId,
+  now = Date.now(),
+}: {
+  workspaceId: string;
+  now?: number;
+}): Promise<CompiledTrackingPlanRule[]> {
+  const cached = TRACKING_PLAN_RULES_CACHE.get(workspaceId);
+  if (cached && now - cached.refreshedAt < TRACKING_PLAN_RULES_CACHE_TTL_MS) {
+    return cached.rules;
+  }
+  const rules = (await getTrackingPlanRules({ workspaceId })).flatMap(
+    (rule) => {
+      const result = compileTrackingPlanRule(rule);
+      if (result.isErr()) {
+        logger().error(
+          { workspaceId, ruleId: rule.id, errors: result.error },
+          "failed to compile tracking plan rule, skipping",
+        );
+        return [];
+      }
+      return result.value;
+    },
+  );
+  TRACKING_PLAN_RULES_CACHE.set(workspaceId, {
+    rules,
+    refreshedAt: now,
+  });
+  return rules;
+}
+
+/**
+ * Replace a workspace's tracking plan, returning an error describing each
+ * rule whose schema can't be compiled.
+ */
+export async function upsertTrackingPlan({
+  workspaceId,
+  rules,
+}: TrackingPlanResource): Promise<Result<TrackingPlanResource, string[]>> {
+  const compiled = compileTrackingPlanRules(rules);
+  if (compiled.isErr()) {
+    return err(compiled.error);
+  }
+  await addFeatures({
+    workspaceId,
+    features: [
+      {
+        type: FeatureNamesEnum.TrackingPlan,
+        rules,
+      },
+    ],
+  });
+  TRACKING_PLAN_RULES_CACHE.delete(workspaceId);
+  return ok({ workspaceId, rules });
+}
+
+/**
+ * Find the rule which validates an event. Track events are validated by the
+ * rule for their event name, falling back to a track rule without a name.
+ */
+export function findTrackingPlanRule<
+  R extends Pick<TrackingPlanRule, "eventType" | "event">,
+>({
+  rules,
+  eventType,
+  event,
+}: {
+  rules: R[];
+  eventType: EventType;
+  event?: string;
+}): R | null {
+  if (eventType === EventType.Identify) {
+    return rules.find((rule) => rule.eventType === EventType.Identify) ?? null;
+  }
+  if (eventType !== EventType.Track) {
+    return null;
+  }
+  const trackRules = rules.filter((rule) => rule.eventType === EventType.Track);
+  return (
+    trackRules.find(
+      (rule) => rule.event !== undefined && rule.event === event,
+    ) ??
+    trackRules.find((rule) => !rule.event) ??
+    null
+  );
+}
+
+/**
+ * Validate an event against its rule in the tracking plan, returning its
+ * violation if it doesn't match the rule's schema. Events which can't be
+ * validated are logged and treated as valid, so that a faulty rule doesn't
+ * block ingestion.
+ */
+export function validateTrackingPlanEvent({
+  rules,
+  eventType,
+  event,
+}: {
+  rules: CompiledTrackingPlanRule[];
+  eventType: EventType;
+  event: TrackingPlanEvent;
+}): TrackingPlanViolation | null {
+  const rule = findTrackingPlanRule({ rules, eventType, event: event.event });
+  if (!rule) {
+    return null;
+  }
+  const payload =
+    rule.eventType === EventType.Identify
+      ? event.traits ?? {}
+      : event.properties ?? {};
+  let errors: string[];
+  try {
+    if (rule.check.Check(payload)) {
+      return null;
+    }
+    errors = [];
+    for (const error of rule.check.Errors(payload)) {
+      if (errors.length >= MAX_VIOLATION_ERRORS) {
+        break;
+      }
+      errors.push(`${error.path || "/"}: ${error.message}`);
+    }
+  } catch (error) {
+    logger().error(
+      { err: error, ruleId: rule.id, messageId: event.messageId },
+      "failed to validate event against tracking plan, skipping",
+    );
+    return null;
+  }
+  return {
+    messageId: event.messageId,
+    eventType: rule.eventType,
+    event: rule.eventType === EventType.Track ? event.event : undefined,
+    action: rule.action,
+    errors,
+  };
+}
+
+async function insertTrackingPlanViolations({
+  workspaceId,
+  violations,
+  messages,
+}: {
+  workspaceId: string;
+  violations: TrackingPlanViolation[];
+  messages: Map<string, TrackingPlanEvent>;
+}) {
+  const processingTime = new Date().toISOString();
+  await clickhouseClient().insert({
+    table: "tracking_plan_violations",
+    values: violations.map((violation) => ({
+      workspace_id: workspaceId,
+      message_id: violation.messageId,
+      event_type: violation.eventType,
+      event: violation.event ?? "",
+      action: violation.action,
+      errors: violation.errors,
+      message_raw: JSON.stringify(messages.get(violation.messageId) ?? {}),
+      processing_time: processingTime,
+    })),
+    format: "JSONEachRow",
+    clickhouse_settings: {
+      async_insert: 1,
+      wait_for_async_insert: 1,
+      date_time_input_format: "best_effort",
+    },
+  });
+}
+
+/**
+ * Apply a workspace's tracking plan to submitted events, recording any
+ * violations.
+ *
+ * Returns an error with the violations if any event violated a rejecting
+ * rule, in which case none of the events should be ingested. Otherwise
+ * returns the events to ingest, without quarantined events, and with the
+ * violations of tagged events added to their context.
+ *
+ * @param eventType type of the events, for events submitted individually
+ * which don't include their type
+ * @param context context of the batch which the events were submitted in
+ */
+export async function applyTrackingPlan<T extends TrackingPlanEvent>({
+  workspaceId,
+  eventType,
+  events,
+  context,
+}: {
+  workspaceId: string;
+  eventType?: EventType;
+  events: T[];
+  context?: Record<string, unknown>;
+}): Promise<Result<T[], TrackingPlanViolation[]>> {
+  const rules = await getCachedTrackingPlanRules({ workspaceId });
+  if (rules.length === 0) {
+    return ok(events);
+  }
+
+  const violations = new Map<string, TrackingPlanViolation>();
+  const messages = new Map<string, TrackingPlanEvent>();
+  for (const event of events) {
+    const type = event.type ?? eventType;
+    if (!type) {
+      continue;
+    }
+    const violation = validateTrackingPlanEvent({
+      rules,
+      eventType: type,
+      event,
+    });
+    if (violation) {
+      violations.set(event.messageId, violation);
+      messages.set(event.messageId, event);
+    }
+  }
+  if (violations.size === 0) {
+    return ok(events);
+  }
+
+  try {
+    await insertTrackingPlanViolations({
+      workspaceId,
+      violations: Array.from(violations.values()),
+      messages,
+    });
+  } catch (error) {
+    logger().error(
+      { err: error, workspaceId },
+      "failed to record tracking plan violations",
+    );
+  }
+
+  const rejected = Array.from(violations.values()).filter(
+    (violation) => violation.action === TrackingPlanViolationAction.Reject,
+  );
+  if (rejected.length > 0) {
+    return err(rejected);
+  }
+
+  return ok(
+    events.flatMap((event) => {
+      const violation = violations.get(event.messageId);
+      if (!violation) {
+        return event;
+      }
+      if (violation.action === TrackingPlanViolationAction.Quarantine) {
+        return [];
+      }
+      return {
+        ...event,
+        context: {
+          ...context,
+          ...event.context,
+          trackingPlanViolations: violation.errors,
+        },
+      };
+    }),
+  );
+}
+
+/**
+ * Summarize a workspace's tracking plan violations by event, most frequent
+ * first.
+ */
+export async function getTrackingPlanViolations({
+  workspaceId,
+  startDate,
+  limit = 100,
+}: GetTrackingPlanViolationsRequest): Promise<TrackingPlanViolationSummary[]> {
+  const qb = new ClickHouseQueryBuilder();
+  const conditions = [
+    `workspace_id = ${qb.addQueryValue(workspaceId, "String")}`,
+  ];
+  if (startDate) {
+    conditions.push(
+      `processing_time >= toDateTime64(${qb.addQueryValue(new Date(startDate).getTime() / 1000, "Float64")}, 3)`,
+    );
+  }
+  const result = await query({
+    query: `
+      SELECT
+        event_type,
+        event,
+        action,
+        count() AS count,
+        toUnixTimestamp64Milli(max(processing_time)) AS last_seen_ms,
+        argMax(message_id, processing_time) AS last_message_id,
+        argMax(errors, processing_time) AS last_errors
+      FROM tracking_plan_violations
+      WHERE ${conditions.join(" AND ")}
+      GROUP BY event_type, event, action
+      ORDER BY count DESC, event_type, event
+      LIMIT ${qb.addQueryValue(limit, "UInt32")}
+    `,
+    query_params: qb.getQueries(),
+  });
+  const rows = await result.json<{
+    event_type: string;
+    event: string;
+    action: TrackingPlanViolationAction;
+    count: string | number;
+    last_seen_ms: string | number;
+    last_message_id: string;
+    last_errors: string[];
+  }>();
+  return rows.map((row) => ({
+    eventType: row.event_type,
+    event: row.event || undefined,
+    action: row.action,
+    count: Number(row.count),
+    lastSeenAt: new Date(Number(row.last_seen_ms)).toISOString(),
+    lastMessageId: row.last_message_id,
+    lastErrors: row.last_errors,
+  }));
+}
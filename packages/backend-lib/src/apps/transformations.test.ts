@@ -0,0 +1,160 @@
+import {
+  EventTransformationOperationType,
+  EventTransformationRule,
+  EventType,
+} from "../types";
+import { transformEvent } from "./transformations";
+
+describe("transformEvent", () => {
+  const rules: EventTransformationRule[] = [
+    {
+      id: "legacy-purchase",
+      eventType: EventType.Track,
+      event: "purchase_completed",
+      operations: [
+        {
+          type: EventTransformationOperationType.RenameEvent,
+          event: "Purchase",
+        },
+        {
+          type: EventTransformationOperationType.DropProperties,
+          paths: ["debug", "card.number"],
+        },
+      ],
+    },
+    {
+      id: "identify",
+      eventType: EventType.Identify,
+      operations: [
+        {
+          type: EventTransformationOperationType.HashProperties,
+          paths: ["ssn", "missing"],
+        },
+        {
+          type: EventTransformationOperationType.DeriveProperty,
+          path: "name.full",
+          template: "{{ traits.firstName }} {{ traits.lastName }}",
+        },
+      ],
+    },
+  ];
+
+  it("renames track events and drops their properties", () => {
+    const event = {
+      messageId: "1",
+      userId: "user-1",
+      event: "purchase_completed",
+      properties: {
+        amount: 10,
+        debug: true,
+        card: { number: "4242", brand: "visa" },
+      },
+    };
+    expect(
+      transformEvent({ rules, eventType: EventType.Track, event }),
+    ).toEqual({
+      messageId: "1",
+      userId: "user-1",
+      event: "Purchase",
+      properties: {
+        amount: 10,
+        card: { brand: "visa" },
+      },
+    });
+    expect(event.properties.debug).toBe(true);
+  });
+
+  it("hashes traits and derives new traits", () => {
+    const transformed = transformEvent({
+      rules,
+      eventType: EventType.Identify,
+      event: {
+        messageId: "2",
+        userId: "user-1",
+        traits: { firstName: "Max", lastName: "Smith", ssn: "123-45-6789" },
+      },
+    });
+    expect(transformed.traits).toEqual({
+      firstName: "Max",
+      lastName: "Smith",
+      ssn: "01a54629efb952287e554eb23ef69c52097a75aecc0e3a93ca0855ab6d7a31a0",
+      name: { full: "Max Smith" },
+    });
+  });
+
+  it("leaves events without a matching rule unchanged", () => {
+    const event = {
+      messageId: "3",
+      userId: "user-1",
+      event: "Signup",
+      properties: { debug: true },
+    };
+    expect(transformEvent({ rules, eventType: EventType.Track, event })).toBe(
+      event,
+    );
+  });
+
+  it("ignores paths which would reach an object's prototype", () => {
+    const transformed = transformEvent({
+      rules: [
+        {
+          id: "pollute",
+          eventType: EventType.Track,
+          operations: [
+            {
+              type: EventTransformationOperationType.DeriveProperty,
+              path: "__proto__.polluted",
+              template: "yes",
+            },
+            {
+              type: EventTransformationOperationType.DeriveProperty,
+              path: "constructor.prototype.polluted",
+              template: "yes",
+            },
+            {
+              type: EventTransformationOperationType.DropProperties,
+              paths: ["__proto__.toString", "nested.hasOwnProperty"],
+            },
+          ],
+        },
+      ],
+      eventType: EventType.Track,
+      event: {
+        messageId: "4",
+        userId: "user-1",
+        event: "Signup",
+        properties: { nested: {} },
+      },
+    });
+    expect(transformed.properties).toEqual({ nested: {} });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(typeof Object.prototype.toString).toBe("function");
+    expect(typeof Object.prototype.hasOwnProperty).toBe("function");
+  });
+
+  it("skips derived properties whose templates exceed the parse limit", () => {
+    const transformed = transformEvent({
+      rules: [
+        {
+          id: "oversized",
+          eventType: EventType.Track,
+          operations: [
+            {
+              type: EventTransformationOperationType.DeriveProperty,
+              path: "derived",
+              template: "a".repeat(20 * 1000),
+            },
+          ],
+        },
+      ],
+      eventType: EventType.Track,
+      event: {
+        messageId: "5",
+        userId: "user-1",
+        event: "Signup",
+        properties: {},
+      },
+    });
+    expect(transformed.properties).toEqual({});
+  });
+});
@@ -0,0 +1,326 @@
+import { createHash } from "crypto";
+import { isObject } from "isomorphic-lib/src/objects";
+import { Liquid, Template } from "liquidjs";
+
+import { addFeatures, getFeatureConfig } from "../features";
+import logger from "../logger";
+import {
+  EventTransformationOperationType,
+  EventTransformationRule,
+  EventTransformationsResource,
+  EventType,
+  FeatureNamesEnum,
+} from "../types";
+
+/**
+ * The fields of identify and track events, submitted individually or in a
+ * batch, which can be transformed.
+ */
+export interface TransformableEvent {
+  type?: EventType;
+  event?: string;
+  userId?: string;
+  anonymousId?: string;
+  traits?: Record<string, unknown>;
+  properties?: Record<string, unknown>;
+  context?: Record<string, unknown>;
+}
+
+// How long an instance trusts its cached transformation rules before
+// re-reading them.
+const EVENT_TRANSFORMATION_RULES_CACHE_TTL_MS = 30 * 1000;
+
+// Derived properties are rendered in the ingestion path, so their templates
+// are bounded in length, and their renders in time and memory.
+const transformationsLiquidEngine = new Liquid({
+  strictVariables: false,
+  lenientIf: true,
+  ownPropertyOnly: true,
+  parseLimit: 10 * 1000,
+  renderLimit: 50,
+  memoryLimit: 1000 * 1000,
+});
+
+// Path segments which would reach an object's prototype rather than the
+// event's data.
+const FORBIDDEN_PATH_SEGMENTS = new Set([
+  "__proto__",
+  "constructor",
+  "prototype",
+]);
+
+/**
+ * A workspace's transformation rules, along with their parsed derived property
+ * templates. Templates which failed to parse are null.
+ */
+export interface ParsedEventTransformationRules {
+  rules: EventTransformationRule[];
+  templates: Map<string, Template[] | null>;
+}
+
+interface EventTransformationRulesCacheEntry
+  extends ParsedEventTransformationRules {
+  refreshedAt: number;
+}
+
+const EVENT_TRANSFORMATION_RULES_CACHE = new Map<
+  string,
+  EventTransformationRulesCacheEntry
+>();
+
+export async function getEventTransformationRules({
+  workspaceId,
+}: {
+  workspaceId: string;
+}): Promise<EventTransformationRule[]> {
+  const transformations = await getFeatureConfig({
+    workspaceId,
+    name: FeatureNamesEnum.EventTransformations,
+  });
+  return transformations?.rules ?? [];
+}
+
+function parseTemplate(template: string): Template[] | null {
+  try {
+    return transformationsLiquidEngine.parse(template);
+  } catch (error) {
+    logger().error(
+      { err: error },
+      "failed to parse event transformation template",
+    );
+    return null;
+  }
+}
+
+/**
+ * Get a workspace's transformation rules for ingestion, with their templates
+ * parsed, caching them briefly so that each submitted event doesn't require a
+ * query or a parse.
+ */
+export async function getCachedEventTransformationRules({
+  workspaceId,
+  now = Date.now(),
+}: {
+  workspaceId: string;
+  now?: number;
+}): Promise<ParsedEventTransformationRules> {
+  const cached = EVENT_TRANSFORMATION_RULES_CACHE.get(workspaceId);
+  if (
+    cached &&
+    now - cached.refreshedAt < EVENT_TRANSFORMATION_RULES_CACHE_TTL_MS
+  ) {
+    return cached;
+  }
+  const rules = await getEventTransformationRules({ workspaceId });
+  const templates = new Map<string, Template[] | null>();
+  for (const rule of rules) {
+    for (const operation of rule.operations) {
+      if (
+        operation.type === EventTransformationOperationType.DeriveProperty &&
+        !templates.has(operation.template)
+      ) {
+        templates.set(operation.template, parseTemplate(operation.template));
+      }
+    }
+  }
+  const entry: EventTransformationRulesCacheEntry = {
+    rules,
+    templates,
+    refreshedAt: now,
+  };
+  EVENT_TRANSFORMATION_RULES_CACHE.set(workspaceId, entry);
+  return entry;
+}
+
+export async function upsertEventTransformations({
+  workspaceId,
+  rules,
+}: EventTransformationsResource): Promise<EventTransformationsResource> {
+  await addFeatures({
+    workspaceId,
+    features: [
+      {
+        type: FeatureNamesEnum.EventTransformations,
+        rules,
+      },
+    ],
+  });
+  EVENT_TRANSFORMATION_RULES_CACHE.delete(workspaceId);
+  return { workspaceId, rules };
+}
+
+function hashValue(value: unknown): string {
+  return createHash("sha256")
+    .update(typeof value === "string" ? value : JSON.stringify(value))
+    .digest("hex");
+}
+
+/**
+ * Find the object containing the value at a dot separated path, optionally
+ * creating missing objects along the way. Only own properties are followed,
+ * and paths which would reach a prototype are ignored.
+ */
+function getPathParent({
+  record,
+  path,
+  create,
+}: {
+  record: Record<string, unknown>;
+  path: string;
+  create: boolean;
+}): { parent: Record<string, unknown>; key: string } | null {
+  const keys = path.split(".");
+  if (keys.some((segment) => FORBIDDEN_PATH_SEGMENTS.has(segment))) {
+    return null;
+  }
+  const key = keys.pop();
+  if (!key) {
+    return null;
+  }
+  let parent = record;
+  for (const segment of keys) {
+    let child = Object.hasOwn(parent, segment) ? parent[segment] : undefined;
+    if (!isObject(child)) {
+      if (!create) {
+        return null;
+      }
+      child = Object.create(null) as Record<string, unknown>;
+      parent[segment] = child;
+    }
+    parent = child as Record<string, unknown>;
+  }
+  return { parent, key };
+}
+
+function matchesRule({
+  rule,
+  eventType,
+  event,
+}: {
+  rule: EventTransformationRule;
+  eventType: EventType.Identify | EventType.Track;
+  event?: string;
+}): boolean {
+  if (rule.eventType !== eventType) {
+    return false;
+  }
+  return (
+    eventType === EventType.Identify || !rule.event || rule.event === event
+  );
+}
+
+/**
+ * Apply the transformation rules which match an event, in order. Rules are
+ * matched by the event's name as submitted, so that renaming an event doesn't
+ * change which rules apply to it.
+ *
+ * Transformations are declarative, and derived values are rendered with the
+ * liquid engine, so that workspaces can't run arbitrary code in the ingestion
+ * path.
+ *
+ * @param templates parsed derived property templates, templates which are
+ * missing are parsed on demand
+ */
+export function transformEvent<T extends TransformableEvent>({
+  rules,
+  templates,
+  eventType,
+  event,
+}: {
+  rules: EventTransformationRule[];
+  templates?: Map<string, Template[] | null>;
+  eventType: EventType;
+  event: T;
+}): T {
+  if (eventType !== EventType.Identify && eventType !== EventType.Track) {
+    return event;
+  }
+  const matching = rules.filter((rule) =>
+    matchesRule({ rule, eventType, event: event.event }),
+  );
+  if (matching.length === 0) {
+    return event;
+  }
+
+  const payload = structuredClone(
+    (eventType === EventType.Identify ? event.traits : event.properties) ?? {},
+  );
+  let name = event.event;
+
+  for (const rule of matching) {
+    for (const operation of rule.operations) {
+      switch (operation.type) {
+        case EventTransformationOperationType.RenameEvent:
+          name = operation.event;
+          break;
+        case EventTransformationOperationType.DropProperties:
+          for (const path of operation.paths) {
+            const location = getPathParent({
+              record: payload,
+              path,
+              create: false,
+            });
+            if (location) {
+              Reflect.deleteProperty(location.parent, location.key);
+            }
+          }
+          break;
+        case EventTransformationOperationType.HashProperties:
+          for (const path of operation.paths) {
+            const location = getPathParent({
+              record: payload,
+              path,
+              create: false,
+            });
+            const value =
+              location && Object.hasOwn(location.parent, location.key)
+                ? location.parent[location.key]
+                : undefined;
+            if (location && value !== undefined && value !== null) {
+              location.parent[location.key] = hashValue(value);
+            }
+          }
+          break;
+        case EventTransformationOperationType.DeriveProperty: {
+          const parsed = templates?.has(operation.template)
+            ? templates.get(operation.template)
+            : parseTemplate(operation.template);
+          if (!parsed) {
+            break;
+          }
+          let value: string;
+          try {
+            value = transformationsLiquidEngine.renderSync(parsed, {
+              event: name,
+              properties: eventType === EventType.Track ? payload : undefined,
+              traits: eventType === EventType.Identify ? payload : undefined,
+              user_id: event.userId,
+              anonymous_id: event.anonymousId,
+              context: event.context,
+            }) as string;
+          } catch (error) {
+            logger().error(
+              { err: error, ruleId: rule.id, path: operation.path },
+              "failed to derive event property, skipping",
+            );
+            break;
+          }
+          const location = getPathParent({
+            record: payload,
+            path: operation.path,
+            create: true,
+          });
+          if (location) {
+            location.parent[location.key] = value;
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  if (eventType === EventType.Identify) {
+    return { ...event, traits: payload };
+  }
+  return { ...event, event: name, properties: payload };
+}
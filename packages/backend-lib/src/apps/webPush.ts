@@ -0,0 +1,52 @@
+import { and, eq } from "drizzle-orm";
+import { WEB_PUSH_SUBSCRIPTION_USER_PROPERTY } from "isomorphic-lib/src/channels";
+import { SecretNames } from "isomorphic-lib/src/constants";
+import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+
+import { db } from "../db";
+import { secret as dbSecret } from "../db/schema";
+import { WebPushSecret, WebPushSubscriptionData } from "../types";
+import { submitIdentify } from "./identify";
+
+/**
+ * Records a browser's push subscription as a trait of the user, which the web
+ * push provider reads when sending.
+ */
+export async function submitWebPushSubscription({
+  workspaceId,
+  data,
+}: {
+  workspaceId: string;
+  data: WebPushSubscriptionData;
+}) {
+  const { subscription, ...rest } = data;
+  await submitIdentify({
+    workspaceId,
+    data: {
+      ...rest,
+      traits: {
+        [WEB_PUSH_SUBSCRIPTION_USER_PROPERTY]: subscription,
+      },
+    },
+  });
+}
+
+export async function getWebPushPublicKey({
+  workspaceId,
+}: {
+  workspaceId: string;
+}): Promise<string | null> {
+  const secret = await db().query.secret.findFirst({
+    where: and(
+      eq(dbSecret.workspaceId, workspaceId),
+      eq(dbSecret.name, SecretNames.WebPush),
+    ),
+  });
+  if (!secret) {
+    return null;
+  }
+  return (
+    schemaValidateWithErr(secret.configValue, WebPushSecret).unwrapOr(null)
+      ?.publicKey ?? null
+  );
+}
@@ -17,7 +17,7 @@ function createJwtDecoder() {
   if (authMode === "multi-tenant" && jwtSecret) {
     // Use createVerifier for verifying signed tokens
     const { createVerifier } = require("fast-jwt");
-    return createVerifier({ key: jwtSecret, algorithms: ['HS256'] });
+    return createVerifier({ key: jwtSecret, algorithms: ["HS256"] });
   }
   // For other modes, use default decoder
   return createDecoder();
@@ -29,10 +29,10 @@ export function createJwtSigner() {
   if (!jwtSecret) {
     throw new Error("JWT_SECRET is not configured");
   }
-  return createSigner({ 
+  return createSigner({
     key: jwtSecret,
-    algorithm: 'HS256',
-    expiresIn: 7 * 24 * 60 * 60 * 1000 // 7 days in milliseconds
+    algorithm: "HS256",
+    expiresIn: 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
   });
 }
 
@@ -58,16 +58,12 @@ export function decodeJwtHeader(header: string): OpenIdProfile | null {
 }
 
 /**
- *
- * @param writeKey Authorization header of the form "basic <encodedWriteKey>".
- * The write key is encoded in base64, taking the form base64(secretKeyId:secretKeyValue).
- * @returns if the writeKey is valid, returns the workspace id, otherwise returns null
+ * Decode a write key authorization header into its secret's id and value,
+ * without checking it against the stored secret.
  */
-export async function validateWriteKey({
-  writeKey,
-}: {
-  writeKey: string;
-}): Promise<string | null> {
+export function decodeWriteKey(
+  writeKey: string,
+): { secretKeyId: string; secretKeyValue?: string } | null {
   // Extract the encodedWriteKey from the header
   const encodedWriteKey = writeKey.split(" ")[1];
   if (!encodedWriteKey) {
@@ -85,6 +81,25 @@ export async function validateWriteKey({
   if (!secretKeyId || !validate(secretKeyId)) {
     return null;
   }
+  return { secretKeyId, secretKeyValue };
+}
+
+/**
+ *
+ * @param writeKey Authorization header of the form "basic <encodedWriteKey>".
+ * The write key is encoded in base64, taking the form base64(secretKeyId:secretKeyValue).
+ * @returns if the writeKey is valid, returns the workspace id, otherwise returns null
+ */
+export async function validateWriteKey({
+  writeKey,
+}: {
+  writeKey: string;
+}): Promise<string | null> {
+  const decoded = decodeWriteKey(writeKey);
+  if (!decoded) {
+    return null;
+  }
+  const { secretKeyId, secretKeyValue } = decoded;
 
   const writeKeySecret = await db().query.secret.findFirst({
     where: eq(dbSecret.id, secretKeyId),
@@ -1,5 +1,6 @@
 import { randomUUID } from "crypto";
 import { writeKeyToHeader } from "isomorphic-lib/src/auth";
+import { WEB_PUSH_SUBSCRIPTION_USER_PROPERTY } from "isomorphic-lib/src/channels";
 import {
   DEBUG_USER_ID1,
   WORKSPACE_TOMBSTONE_PREFIX,
@@ -221,6 +222,16 @@ export async function bootstrapPostgres({
       exampleValue:
         '"1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef"',
     },
+    {
+      name: WEB_PUSH_SUBSCRIPTION_USER_PROPERTY,
+      workspaceId,
+      definition: {
+        type: UserPropertyDefinitionType.Trait,
+        path: WEB_PUSH_SUBSCRIPTION_USER_PROPERTY,
+      },
+      exampleValue:
+        '{"endpoint":"https://fcm.googleapis.com/fcm/send/abc123","keys":{"p256dh":"BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM","auth":"tBHItJI5svbpez7KI4CCXg"}}',
+    },
     {
       name: "firstName",
       workspaceId,
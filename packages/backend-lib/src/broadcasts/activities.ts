@@ -19,6 +19,7 @@ import {
   SendMessageParameters,
   SendMessageParametersBase,
 } from "../messaging";
+import { getMessageIdempotencyKey } from "../messaging/idempotency";
 import { withSpan } from "../openTelemetry";
 import { toSegmentResource } from "../segments";
 import {
@@ -34,6 +35,7 @@ import {
   InternalEventType,
   JSONValue,
   MessageSendFailure,
+  MessageSkippedType,
   MessageTags,
   SavedSegmentResource,
   TrackData,
@@ -198,7 +200,8 @@ function isNonRetryableError(error: MessageSendFailure): boolean {
     case InternalEventType.BadWorkspaceConfiguration:
       return true;
     case InternalEventType.MessageSkipped:
-      return false;
+      // the workspace's remaining messages would be skipped as well
+      return error.variant.type === MessageSkippedType.QuotaExceeded;
     default:
       assertUnreachable(error);
   }
@@ -313,6 +316,7 @@ export function sendMessagesFactory(sender: Sender) {
           });
           const messageTags: MessageTags = {
             messageId,
+            broadcastId: params.broadcastId,
           };
           if (params.workspaceOccupantId) {
             messageTags.workspaceOccupantId = params.workspaceOccupantId;
@@ -327,6 +331,11 @@ export function sendMessagesFactory(sender: Sender) {
             useDraft: false,
             userPropertyAssignments,
             messageTags,
+            idempotencyKey: getMessageIdempotencyKey({
+              workspaceId: params.workspaceId,
+              broadcastId: params.broadcastId,
+              userId: user.id,
+            }),
           };
           let messageVariant: SendMessageParameters;
           switch (config.message.type) {
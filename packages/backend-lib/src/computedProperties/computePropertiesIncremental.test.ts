@@ -29,6 +29,7 @@ import { toJourneyResource } from "../journeys";
 import logger from "../logger";
 import { findAllSegmentAssignments, toSegmentResource } from "../segments";
 import {
+  AggregationType,
   AppFileType,
   BlobStorageFile,
   ComputedPropertyStep,
@@ -49,6 +50,7 @@ import {
   SegmentNodeType,
   SegmentOperatorType,
   SegmentResource,
+  SegmentWithinDaysDirection,
   SubscriptionChange,
   SubscriptionChangeEvent,
   SubscriptionGroupType,
@@ -69,6 +71,10 @@ import {
   userPropertyStateId,
 } from "./computePropertiesIncremental";
 
+const ONE_DAY_IN_MS = 1000 * 60 * 60 * 24;
+// referenced by id from other segments
+const TRIAL_SEGMENT_ID = randomUUID();
+
 const signalWithStart = jest.fn();
 const signal = jest.fn();
 
@@ -480,7 +486,9 @@ interface AssertStep {
 }
 
 type TestUserProperty = Pick<UserPropertyResource, "name" | "definition">;
-type TestSegment = Pick<SegmentResource, "name" | "definition">;
+type TestSegment = Pick<SegmentResource, "name" | "definition"> & {
+  id?: string;
+};
 type TestJourneyResource = Pick<SavedJourneyResource, "name" | "definition">;
 
 interface TestJourney {
@@ -611,7 +619,7 @@ async function upsertComputedProperties({
         table: schema.segment,
         target: [schema.segment.workspaceId, schema.segment.name],
         values: {
-          id: randomUUID(),
+          id: s.id ?? randomUUID(),
           workspaceId,
           name: s.name,
           definition: s.definition,
@@ -2060,6 +2068,152 @@ describe("computeProperties", () => {
         },
       ],
     },
+    {
+      description: "computes date operator trait segments as time passes",
+      userProperties: [],
+      segments: [
+        {
+          name: "trialEndingSoon",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Trait,
+              id: "1",
+              path: "trialEndsAt",
+              operator: {
+                type: SegmentOperatorType.WithinDays,
+                days: 3,
+                direction: SegmentWithinDaysDirection.Future,
+              },
+            },
+            nodes: [],
+          },
+        },
+        {
+          name: "birthday",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Trait,
+              id: "1",
+              path: "birthday",
+              operator: {
+                type: SegmentOperatorType.Anniversary,
+              },
+            },
+            nodes: [],
+          },
+        },
+        {
+          name: "earlyAdopters",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Trait,
+              id: "1",
+              path: "signedUpAt",
+              operator: {
+                type: SegmentOperatorType.Before,
+                value: "2020-01-01",
+              },
+            },
+            nodes: [],
+          },
+        },
+      ],
+      steps: [
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            ({ now }) => ({
+              type: EventType.Identify,
+              offsetMs: -100,
+              userId: "user-1",
+              traits: {
+                trialEndsAt: new Date(now + 5 * ONE_DAY_IN_MS).toISOString(),
+                birthday: new Date(
+                  Date.UTC(
+                    1992,
+                    new Date(now + 3 * ONE_DAY_IN_MS).getUTCMonth(),
+                    new Date(now + 3 * ONE_DAY_IN_MS).getUTCDate(),
+                  ),
+                ).toISOString(),
+                // 2019-01-01 as a unix timestamp in seconds
+                signedUpAt: 1546300800,
+              },
+            }),
+            ({ now }) => ({
+              type: EventType.Identify,
+              offsetMs: -100,
+              userId: "user-2",
+              traits: {
+                trialEndsAt: now + ONE_DAY_IN_MS,
+                birthday: new Date(
+                  Date.UTC(
+                    1992,
+                    new Date(now).getUTCMonth(),
+                    new Date(now).getUTCDate(),
+                  ),
+                ).toISOString(),
+                signedUpAt: "2021-06-01T00:00:00.000Z",
+              },
+            }),
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description: "users are in the segments matching today's date",
+          users: [
+            {
+              id: "user-1",
+              segments: {
+                trialEndingSoon: null,
+                birthday: null,
+                earlyAdopters: true,
+              },
+            },
+            {
+              id: "user-2",
+              segments: {
+                trialEndingSoon: true,
+                birthday: true,
+                earlyAdopters: null,
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.Sleep,
+          timeMs: 3 * ONE_DAY_IN_MS,
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description:
+            "users move between segments without new events as time passes",
+          users: [
+            {
+              id: "user-1",
+              segments: {
+                trialEndingSoon: true,
+                birthday: true,
+                earlyAdopters: true,
+              },
+            },
+            {
+              id: "user-2",
+              segments: {
+                trialEndingSoon: null,
+                birthday: null,
+                earlyAdopters: null,
+              },
+            },
+          ],
+        },
+      ],
+    },
     {
       description: "computes within operator trait segment",
       userProperties: [],
@@ -3322,42 +3476,677 @@ describe("computeProperties", () => {
           name: "performed",
           definition: {
             entryNode: {
-              type: SegmentNodeType.Performed,
+              type: SegmentNodeType.Performed,
+              id: "1",
+              event: "test",
+              timesOperator: RelationalOperators.GreaterThanOrEqual,
+              times: 1,
+              properties: [
+                {
+                  path: "age",
+                  operator: {
+                    type: SegmentOperatorType.GreaterThanOrEqual,
+                    value: 20,
+                  },
+                },
+              ],
+            },
+            nodes: [],
+          },
+        },
+        {
+          name: "performed2",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Performed,
+              id: "1",
+              event: "test",
+              timesOperator: RelationalOperators.GreaterThanOrEqual,
+              times: 1,
+              properties: [
+                {
+                  path: "age",
+                  operator: {
+                    type: SegmentOperatorType.LessThan,
+                    value: 20,
+                  },
+                },
+              ],
+            },
+            nodes: [],
+          },
+        },
+      ],
+      steps: [
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Track,
+              offsetMs: -100,
+              userId: "user-1",
+              event: "test",
+              properties: {
+                age: 18,
+              },
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -100,
+              userId: "user-2",
+              event: "test",
+              properties: {
+                age: 22,
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description: "includes a user above the age threshold",
+          users: [
+            {
+              id: "user-1",
+              segments: {
+                performed: null,
+                performed2: true,
+              },
+            },
+            {
+              id: "user-2",
+              segments: {
+                performed: true,
+                performed2: null,
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      description: "computes trait segments with string operators",
+      userProperties: [],
+      segments: [
+        {
+          name: "endsWith",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Trait,
+              id: "0",
+              path: "email",
+              operator: {
+                type: SegmentOperatorType.EndsWith,
+                value: "@ourcustomer.com",
+                caseInsensitive: true,
+              },
+            },
+            nodes: [],
+          },
+        },
+        {
+          name: "matches",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Trait,
+              id: "0",
+              path: "email",
+              operator: {
+                type: SegmentOperatorType.Matches,
+                value: "^[a-z]+@",
+              },
+            },
+            nodes: [],
+          },
+        },
+        {
+          name: "in",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Trait,
+              id: "0",
+              path: "plan",
+              operator: {
+                type: SegmentOperatorType.In,
+                values: ["pro", "enterprise"],
+              },
+            },
+            nodes: [],
+          },
+        },
+        {
+          name: "notIn",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Trait,
+              id: "0",
+              path: "plan",
+              operator: {
+                type: SegmentOperatorType.NotIn,
+                values: ["pro", "enterprise"],
+              },
+            },
+            nodes: [],
+          },
+        },
+      ],
+      steps: [
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Identify,
+              offsetMs: -100,
+              userId: "user-1",
+              traits: {
+                email: "max@OurCustomer.com",
+                plan: "pro",
+              },
+            },
+            {
+              type: EventType.Identify,
+              offsetMs: -100,
+              userId: "user-2",
+              traits: {
+                email: "max.2@example.com",
+                plan: "free",
+              },
+            },
+            {
+              type: EventType.Identify,
+              offsetMs: -100,
+              userId: "user-3",
+              traits: {
+                email: "max@example.com",
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description: "users are in the segments whose operators they match",
+          users: [
+            {
+              id: "user-1",
+              segments: {
+                endsWith: true,
+                matches: true,
+                in: true,
+                notIn: null,
+              },
+            },
+            {
+              id: "user-2",
+              segments: {
+                endsWith: null,
+                matches: null,
+                in: null,
+                notIn: true,
+              },
+            },
+            {
+              id: "user-3",
+              segments: {
+                endsWith: null,
+                matches: true,
+                in: null,
+                notIn: true,
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      description: "performed segments with string operators",
+      userProperties: [
+        {
+          name: "id",
+          definition: {
+            type: UserPropertyDefinitionType.Id,
+          },
+        },
+      ],
+      segments: [
+        {
+          name: "contains",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Performed,
+              id: "1",
+              event: "test",
+              timesOperator: RelationalOperators.GreaterThanOrEqual,
+              times: 1,
+              properties: [
+                {
+                  path: "url",
+                  operator: {
+                    type: SegmentOperatorType.Contains,
+                    value: "/pricing",
+                  },
+                },
+              ],
+            },
+            nodes: [],
+          },
+        },
+        {
+          name: "startsWith",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Performed,
+              id: "1",
+              event: "test",
+              timesOperator: RelationalOperators.GreaterThanOrEqual,
+              times: 1,
+              properties: [
+                {
+                  path: "url",
+                  operator: {
+                    type: SegmentOperatorType.StartsWith,
+                    value: "HTTPS://",
+                    caseInsensitive: true,
+                  },
+                },
+              ],
+            },
+            nodes: [],
+          },
+        },
+      ],
+      steps: [
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Track,
+              offsetMs: -100,
+              userId: "user-1",
+              event: "test",
+              properties: {
+                url: "https://example.com/pricing",
+              },
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -100,
+              userId: "user-2",
+              event: "test",
+              properties: {
+                url: "http://example.com/about",
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description: "includes users whose events match the operators",
+          users: [
+            {
+              id: "user-1",
+              segments: {
+                contains: true,
+                startsWith: true,
+              },
+            },
+            {
+              id: "user-2",
+              segments: {
+                contains: null,
+                startsWith: null,
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      description: "computes sequence segments",
+      userProperties: [],
+      segments: [
+        {
+          name: "checkout",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Sequence,
+              id: "1",
+              steps: [{ event: "AddedToCart" }, { event: "CheckoutStarted" }],
+              maxSecondsBetweenSteps: 60 * 60,
+              exclusions: [
+                {
+                  event: "CartCleared",
+                  afterStep: 0,
+                },
+              ],
+            },
+            nodes: [],
+          },
+        },
+      ],
+      steps: [
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Track,
+              offsetMs: -300000,
+              userId: "user-1",
+              event: "AddedToCart",
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -100000,
+              userId: "user-1",
+              event: "CheckoutStarted",
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -300000,
+              userId: "user-2",
+              event: "CheckoutStarted",
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -100000,
+              userId: "user-2",
+              event: "AddedToCart",
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -300000,
+              userId: "user-3",
+              event: "AddedToCart",
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -200000,
+              userId: "user-3",
+              event: "CartCleared",
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -100000,
+              userId: "user-3",
+              event: "CheckoutStarted",
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -2 * 60 * 60 * 1000,
+              userId: "user-4",
+              event: "AddedToCart",
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -100000,
+              userId: "user-4",
+              event: "CheckoutStarted",
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description:
+            "only users who performed the steps in order, without an exclusion and within the time limit, are in the segment",
+          users: [
+            {
+              id: "user-1",
+              segments: {
+                checkout: true,
+              },
+            },
+            {
+              id: "user-2",
+              segments: {
+                checkout: null,
+              },
+            },
+            {
+              id: "user-3",
+              segments: {
+                checkout: null,
+              },
+            },
+            {
+              id: "user-4",
+              segments: {
+                checkout: null,
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Track,
+              offsetMs: -50,
+              userId: "user-2",
+              event: "CheckoutStarted",
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description:
+            "user enters the segment after completing the sequence in order",
+          users: [
+            {
+              id: "user-2",
+              segments: {
+                checkout: true,
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      description: "computes aggregate user properties and segments",
+      userProperties: [
+        {
+          name: "lifetimeValue",
+          definition: {
+            type: UserPropertyDefinitionType.Aggregate,
+            event: "purchase",
+            path: "amount",
+            aggregation: AggregationType.Sum,
+          },
+        },
+        {
+          name: "largestPurchase",
+          definition: {
+            type: UserPropertyDefinitionType.Aggregate,
+            event: "purchase",
+            path: "amount",
+            aggregation: AggregationType.Max,
+          },
+        },
+      ],
+      segments: [
+        {
+          name: "highValue",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Aggregate,
+              id: "1",
+              event: "purchase",
+              path: "amount",
+              aggregation: AggregationType.Sum,
+              operator: RelationalOperators.GreaterThanOrEqual,
+              value: 100,
+              withinSeconds: 2 * 24 * 60 * 60,
+            },
+            nodes: [],
+          },
+        },
+      ],
+      steps: [
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Track,
+              offsetMs: -ONE_DAY_IN_MS,
+              userId: "user-1",
+              event: "purchase",
+              properties: {
+                amount: 60,
+              },
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -1000,
+              userId: "user-1",
+              event: "purchase",
+              properties: {
+                amount: 50,
+              },
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -1000,
+              userId: "user-1",
+              event: "purchase",
+              properties: {
+                amount: "invalid",
+              },
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -1000,
+              userId: "user-2",
+              event: "purchase",
+              properties: {
+                amount: 30,
+              },
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -1000,
+              userId: "user-2",
+              event: "refund",
+              properties: {
+                amount: 500,
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description:
+            "aggregates numeric values of the matching events' property",
+          users: [
+            {
+              id: "user-1",
+              properties: {
+                lifetimeValue: 110,
+                largestPurchase: 60,
+              },
+              segments: {
+                highValue: true,
+              },
+            },
+            {
+              id: "user-2",
+              properties: {
+                lifetimeValue: 30,
+                largestPurchase: 30,
+              },
+              segments: {
+                highValue: null,
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.Sleep,
+          timeMs: 1.5 * ONE_DAY_IN_MS,
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description:
+            "user leaves the segment when events fall outside of the window, while aggregates without a window are unchanged",
+          users: [
+            {
+              id: "user-1",
+              properties: {
+                lifetimeValue: 110,
+                largestPurchase: 60,
+              },
+              segments: {
+                highValue: null,
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      description: "computes segments which reference other segments",
+      userProperties: [
+        {
+          name: "id",
+          definition: {
+            type: UserPropertyDefinitionType.Id,
+          },
+        },
+      ],
+      segments: [
+        {
+          name: "inTrial",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Segment,
+              id: "1",
+              segmentId: TRIAL_SEGMENT_ID,
+            },
+            nodes: [],
+          },
+        },
+        {
+          name: "notInTrial",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Segment,
               id: "1",
-              event: "test",
-              timesOperator: RelationalOperators.GreaterThanOrEqual,
-              times: 1,
-              properties: [
-                {
-                  path: "age",
-                  operator: {
-                    type: SegmentOperatorType.GreaterThanOrEqual,
-                    value: 20,
-                  },
-                },
-              ],
+              segmentId: TRIAL_SEGMENT_ID,
+              not: true,
             },
             nodes: [],
           },
         },
         {
-          name: "performed2",
+          id: TRIAL_SEGMENT_ID,
+          name: "trial",
           definition: {
             entryNode: {
-              type: SegmentNodeType.Performed,
+              type: SegmentNodeType.Trait,
               id: "1",
-              event: "test",
-              timesOperator: RelationalOperators.GreaterThanOrEqual,
-              times: 1,
-              properties: [
-                {
-                  path: "age",
-                  operator: {
-                    type: SegmentOperatorType.LessThan,
-                    value: 20,
-                  },
-                },
-              ],
+              path: "plan",
+              operator: {
+                type: SegmentOperatorType.Equals,
+                value: "trial",
+              },
             },
             nodes: [],
           },
@@ -3368,21 +4157,19 @@ describe("computeProperties", () => {
           type: EventsStepType.SubmitEvents,
           events: [
             {
-              type: EventType.Track,
+              type: EventType.Identify,
               offsetMs: -100,
               userId: "user-1",
-              event: "test",
-              properties: {
-                age: 18,
+              traits: {
+                plan: "trial",
               },
             },
             {
-              type: EventType.Track,
+              type: EventType.Identify,
               offsetMs: -100,
               userId: "user-2",
-              event: "test",
-              properties: {
-                age: 22,
+              traits: {
+                plan: "paid",
               },
             },
           ],
@@ -3392,20 +4179,58 @@ describe("computeProperties", () => {
         },
         {
           type: EventsStepType.Assert,
-          description: "includes a user above the age threshold",
+          description:
+            "referencing segments are computed after the segment they reference",
           users: [
             {
               id: "user-1",
               segments: {
-                performed: null,
-                performed2: true,
+                trial: true,
+                inTrial: true,
+                notInTrial: null,
               },
             },
             {
               id: "user-2",
               segments: {
-                performed: true,
-                performed2: null,
+                trial: null,
+                inTrial: null,
+                notInTrial: true,
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.Sleep,
+          timeMs: 1000,
+        },
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Identify,
+              offsetMs: -100,
+              userId: "user-1",
+              traits: {
+                plan: "paid",
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description:
+            "referencing segments are updated when the referenced segment changes",
+          users: [
+            {
+              id: "user-1",
+              segments: {
+                trial: null,
+                inTrial: null,
+                notInTrial: true,
               },
             },
           ],
@@ -7532,6 +8357,209 @@ describe("computeProperties", () => {
         },
       ],
     },
+    {
+      description:
+        "merges an aliased anonymous user's history into the canonical user",
+      userProperties: [
+        {
+          name: "email",
+          definition: {
+            type: UserPropertyDefinitionType.Trait,
+            path: "email",
+          },
+        },
+        {
+          name: "id",
+          definition: {
+            type: UserPropertyDefinitionType.Id,
+          },
+        },
+      ],
+      segments: [
+        {
+          name: "viewedPricing",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Performed,
+              id: "1",
+              event: "Viewed Pricing",
+            },
+            nodes: [],
+          },
+        },
+      ],
+      steps: [
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Identify,
+              offsetMs: -100,
+              anonymousId: "anonymous-1",
+              traits: {
+                email: "test@email.com",
+              },
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -100,
+              anonymousId: "anonymous-1",
+              event: "Viewed Pricing",
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Sleep,
+          timeMs: 1000,
+        },
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Alias,
+              offsetMs: -100,
+              userId: "user-1",
+              previousId: "anonymous-1",
+            },
+            {
+              type: EventType.Identify,
+              offsetMs: -100,
+              userId: "user-1",
+              traits: {
+                name: "Max",
+              },
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description:
+            "the canonical user has the anonymous user's traits and segments",
+          users: [
+            {
+              id: "user-1",
+              properties: {
+                email: "test@email.com",
+                id: "user-1",
+              },
+              segments: {
+                viewedPricing: true,
+              },
+            },
+            {
+              id: "anonymous-1",
+              properties: {},
+              segments: {},
+            },
+          ],
+        },
+      ],
+    },
+    {
+      description: "resolves chained aliases to the final canonical user",
+      userProperties: [
+        {
+          name: "email",
+          definition: {
+            type: UserPropertyDefinitionType.Trait,
+            path: "email",
+          },
+        },
+      ],
+      segments: [
+        {
+          name: "viewedPricing",
+          definition: {
+            entryNode: {
+              type: SegmentNodeType.Performed,
+              id: "1",
+              event: "Viewed Pricing",
+            },
+            nodes: [],
+          },
+        },
+      ],
+      steps: [
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Identify,
+              offsetMs: -100,
+              anonymousId: "anonymous-1",
+              traits: {
+                email: "test@email.com",
+              },
+            },
+            {
+              type: EventType.Track,
+              offsetMs: -100,
+              anonymousId: "anonymous-1",
+              event: "Viewed Pricing",
+            },
+            {
+              type: EventType.Alias,
+              offsetMs: -50,
+              userId: "user-1",
+              previousId: "anonymous-1",
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Sleep,
+          timeMs: 1000,
+        },
+        {
+          type: EventsStepType.SubmitEvents,
+          events: [
+            {
+              type: EventType.Alias,
+              offsetMs: -100,
+              userId: "user-2",
+              previousId: "user-1",
+            },
+          ],
+        },
+        {
+          type: EventsStepType.ComputeProperties,
+        },
+        {
+          type: EventsStepType.Assert,
+          description:
+            "the final canonical user has the history of every aliased user",
+          users: [
+            {
+              id: "user-2",
+              properties: {
+                email: "test@email.com",
+              },
+              segments: {
+                viewedPricing: true,
+              },
+            },
+            {
+              id: "user-1",
+              properties: {},
+              segments: {},
+            },
+            {
+              id: "anonymous-1",
+              properties: {},
+              segments: {},
+            },
+          ],
+        },
+      ],
+    },
   ];
   const only: null | string =
     tests.find((t) => t.only === true)?.description ?? null;
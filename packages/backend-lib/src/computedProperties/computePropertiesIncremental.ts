@@ -3,6 +3,10 @@
 import { Counter } from "@opentelemetry/api";
 import { toJsonPathParam } from "isomorphic-lib/src/jsonPath";
 import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import {
+  getReferencedSegmentIds,
+  parseSegmentDate,
+} from "isomorphic-lib/src/segments";
 import { getStringBeforeAsterisk } from "isomorphic-lib/src/strings";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
 import { fileUserPropertyToPerformed } from "isomorphic-lib/src/userProperties";
@@ -29,6 +33,8 @@ import logger from "../logger";
 import { getMeter, withSpan, withSpanSync } from "../openTelemetry";
 import { getContext } from "../temporal/activity";
 import {
+  AggregateSegmentNode,
+  AggregationType,
   BroadcastSegmentNode,
   ComputedAssignment,
   ComputedPropertyAssignment,
@@ -43,16 +49,23 @@ import {
   LeafUserPropertyDefinition,
   ManualSegmentNode,
   PerformedSegmentNode,
+  ReferenceSegmentNode,
   RelationalOperators,
   SavedHasStartedJourneyResource,
   SavedIntegrationResource,
   SavedSegmentResource,
   SavedUserPropertyResource,
+  SegmentDateOperator,
   SegmentHasBeenOperatorComparator,
   SegmentNode,
   SegmentNodeType,
   SegmentOperatorType,
+  SegmentStringOperator,
   SegmentUpdate,
+  SegmentWithinDaysDirection,
+  SequenceSegmentEvent,
+  SequenceSegmentExclusion,
+  SequenceSegmentNode,
   SubscriptionChange,
   SubscriptionGroupSegmentNode,
   SubscriptionGroupType,
@@ -362,6 +375,32 @@ export function segmentNodeStateId(
   );
 }
 
+// indexed value of date traits which can't be parsed as dates
+const MISSING_DATE_INDEX_VALUE = Number.MIN_SAFE_INTEGER;
+
+const SECONDS_IN_DAY = 60 * 60 * 24;
+
+const MS_IN_DAY = SECONDS_IN_DAY * 1000;
+
+const DAYS_IN_LEAP_YEAR = 366;
+
+/**
+ * Index a date trait as a unix timestamp in seconds, parsing ISO strings and
+ * unix timestamps in seconds or milliseconds, consistent with
+ * parseSegmentDate.
+ */
+function dateTraitIndexExpression(value: string): string {
+  const numeric = `toFloat64OrZero(${value})`;
+  return `ifNull(
+    if(
+      isNotNull(toFloat64OrNull(${value})),
+      toInt64(if(abs(${numeric}) >= 100000000000, ${numeric} / 1000, ${numeric})),
+      intDiv(toUnixTimestamp64Milli(parseDateTime64BestEffortOrNull(${value}, 3, 'UTC')), 1000)
+    ),
+    ${MISSING_DATE_INDEX_VALUE}
+  )`;
+}
+
 function segmentToIndexed({
   segment,
   node,
@@ -393,6 +432,17 @@ function segmentToIndexed({
             },
           ];
         }
+        case SegmentOperatorType.Before:
+        case SegmentOperatorType.After:
+        case SegmentOperatorType.WithinDays:
+        case SegmentOperatorType.Anniversary: {
+          return [
+            {
+              stateId,
+              expression: dateTraitIndexExpression("argMaxMerge(last_value)"),
+            },
+          ];
+        }
         default:
           return [];
       }
@@ -448,65 +498,979 @@ function getLowerBoundClause(bound?: number): string {
     : "";
 }
 
-function buildRecentUpdateSegmentQuery({
+/**
+ * Condition on a string expression for the string and list segment operators.
+ */
+function stringOperatorCondition({
+  reference,
+  operator,
+  qb,
+}: {
+  reference: string;
+  operator: SegmentStringOperator;
+  qb: ClickHouseQueryBuilder;
+}): string {
+  const caseInsensitive = operator.caseInsensitive ?? false;
+  const value = caseInsensitive
+    ? `lowerUTF8(toString(${reference}))`
+    : `toString(${reference})`;
+  const param = (v: string) => {
+    const p = qb.addQueryValue(v, "String");
+    return caseInsensitive ? `lowerUTF8(${p})` : p;
+  };
+  switch (operator.type) {
+    case SegmentOperatorType.Contains:
+      return `position(${value}, ${param(operator.value)}) > 0`;
+    case SegmentOperatorType.StartsWith:
+      return `startsWith(${value}, ${param(operator.value)})`;
+    case SegmentOperatorType.EndsWith:
+      return `endsWith(${value}, ${param(operator.value)})`;
+    case SegmentOperatorType.Matches: {
+      // patterns are validated by ClickHouse when their segment is saved
+      const pattern = qb.addQueryValue(
+        caseInsensitive ? `(?i)${operator.value}` : operator.value,
+        "String",
+      );
+      return `match(toString(${reference}), ${pattern})`;
+    }
+    case SegmentOperatorType.In:
+    case SegmentOperatorType.NotIn: {
+      const values = qb.addQueryValue(operator.values, "Array(String)");
+      const list = caseInsensitive
+        ? `arrayMap(x -> lowerUTF8(x), ${values})`
+        : values;
+      const condition = `has(${list}, ${value})`;
+      return operator.type === SegmentOperatorType.In
+        ? condition
+        : `not ${condition}`;
+    }
+    default:
+      assertUnreachable(operator);
+  }
+}
+
+function toMonthDay(month: number, day: number): string {
+  return `${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * The month and day, formatted as MM-DD, of the dates whose anniversary falls
+ * on the day of the given time.
+ */
+function getAnniversaryMonthDays(time: number): string[] {
+  const today = new Date(time);
+  const monthDays = [toMonthDay(today.getUTCMonth() + 1, today.getUTCDate())];
+  // dates on February 29th have their anniversary on February 28th outside
+  // of leap years
+  const year = today.getUTCFullYear();
+  const isLeapYear = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  if (!isLeapYear && today.getUTCMonth() === 1 && today.getUTCDate() === 28) {
+    monthDays.push(toMonthDay(2, 29));
+  }
+  return monthDays;
+}
+
+function anniversaryIndexCondition({
+  monthDays,
+  qb,
+}: {
+  monthDays: string[];
+  qb: ClickHouseQueryBuilder;
+}): string {
+  return `formatDateTime(fromUnixTimestamp64Milli(cpsi.indexed_value * 1000, 'UTC'), '%m-%d') in ${qb.addQueryValue(
+    monthDays,
+    "Array(String)",
+  )}`;
+}
+
+/**
+ * Condition on a date trait's indexed value for the date segment operators,
+ * relative to the time of the computation.
+ */
+function dateOperatorIndexCondition({
+  operator,
+  now,
+  qb,
+}: {
+  operator: SegmentDateOperator;
+  now: number;
+  qb: ClickHouseQueryBuilder;
+}): string {
+  const nowSeconds = Math.floor(now / 1000);
+  const presentCondition = `cpsi.indexed_value != ${qb.addQueryValue(
+    MISSING_DATE_INDEX_VALUE,
+    "Int64",
+  )}`;
+  switch (operator.type) {
+    case SegmentOperatorType.Before:
+    case SegmentOperatorType.After: {
+      const date = parseSegmentDate(operator.value);
+      if (date === null) {
+        logger().error(
+          { value: operator.value },
+          "invalid date in segment operator",
+        );
+        return "1=0";
+      }
+      const comparator =
+        operator.type === SegmentOperatorType.Before ? "<" : ">";
+      return `${presentCondition} and cpsi.indexed_value ${comparator} ${qb.addQueryValue(
+        Math.floor(date / 1000),
+        "Int64",
+      )}`;
+    }
+    case SegmentOperatorType.WithinDays: {
+      const windowSeconds = Math.round(operator.days * SECONDS_IN_DAY);
+      const [lowerBound, upperBound] =
+        operator.direction === SegmentWithinDaysDirection.Past
+          ? [nowSeconds - windowSeconds, nowSeconds]
+          : [nowSeconds, nowSeconds + windowSeconds];
+      return `${presentCondition} and cpsi.indexed_value >= ${qb.addQueryValue(
+        lowerBound,
+        "Int64",
+      )} and cpsi.indexed_value <= ${qb.addQueryValue(upperBound, "Int64")}`;
+    }
+    case SegmentOperatorType.Anniversary:
+      return `${presentCondition} and ${anniversaryIndexCondition({
+        monthDays: getAnniversaryMonthDays(now),
+        qb,
+      })}`;
+    default:
+      assertUnreachable(operator);
+  }
+}
+
+/**
+ * Condition on a date trait's indexed value which selects the values whose
+ * operator result can have changed as time passed between the segment's
+ * previous computation and now.
+ *
+ * @returns null if no operator result can have changed.
+ */
+function dateOperatorCrossingCondition({
+  operator,
+  now,
+  periodBound,
+  qb,
+}: {
+  operator: SegmentDateOperator;
+  now: number;
+  periodBound: number;
+  qb: ClickHouseQueryBuilder;
+}): string | null {
+  const nowSeconds = Math.floor(now / 1000);
+  const periodSeconds = Math.floor(periodBound / 1000);
+  const between = (lowerBound: number, upperBound: number) =>
+    `(cpsi.indexed_value >= ${qb.addQueryValue(
+      lowerBound,
+      "Int64",
+    )} and cpsi.indexed_value <= ${qb.addQueryValue(upperBound, "Int64")})`;
+  switch (operator.type) {
+    case SegmentOperatorType.Before:
+    case SegmentOperatorType.After:
+      // absolute dates are only crossed when the trait changes
+      return null;
+    case SegmentOperatorType.WithinDays: {
+      const windowSeconds = Math.round(operator.days * SECONDS_IN_DAY);
+      // values which entered or left the window since the previous
+      // computation
+      const [entering, leaving] =
+        operator.direction === SegmentWithinDaysDirection.Past
+          ? [
+              between(periodSeconds, nowSeconds),
+              between(
+                periodSeconds - windowSeconds,
+                nowSeconds - windowSeconds,
+              ),
+            ]
+          : [
+              between(
+                periodSeconds + windowSeconds,
+                nowSeconds + windowSeconds,
+              ),
+              between(periodSeconds, nowSeconds),
+            ];
+      return `(${entering} or ${leaving})`;
+    }
+    case SegmentOperatorType.Anniversary: {
+      const periodDay = Math.floor(periodBound / MS_IN_DAY);
+      const today = Math.floor(now / MS_IN_DAY);
+      if (periodDay === today) {
+        return null;
+      }
+      // anniversaries of the days since the previous computation, which
+      // covers every date once a year has passed
+      const monthDays = new Set<string>();
+      for (
+        let day = periodDay;
+        day <= today && day - periodDay <= DAYS_IN_LEAP_YEAR;
+        day++
+      ) {
+        for (const monthDay of getAnniversaryMonthDays(day * MS_IN_DAY)) {
+          monthDays.add(monthDay);
+        }
+      }
+      return anniversaryIndexCondition({
+        monthDays: Array.from(monthDays),
+        qb,
+      });
+    }
+    default:
+      assertUnreachable(operator);
+  }
+}
+
+/**
+ * Date traits are indexed by date, so that users move in and out of their
+ * segments as time passes, and not only when their traits change.
+ *
+ * After the segment's first computation, only users whose traits changed
+ * since the previous computation, or whose dates can have crossed the
+ * operator's threshold since then, are re-evaluated.
+ */
+function buildDateTraitSegmentQueries({
+  workspaceId,
+  segmentId,
+  stateId,
+  operator,
+  now,
+  periodBound,
+  qb,
+}: {
+  workspaceId: string;
+  segmentId: string;
+  stateId: string;
+  operator: SegmentDateOperator;
+  now: number;
+  periodBound?: number;
+  qb: ClickHouseQueryBuilder;
+}): string[] {
+  const nowSeconds = now / 1000;
+  const workspaceIdParam = qb.addQueryValue(workspaceId, "String");
+  const segmentIdParam = qb.addQueryValue(segmentId, "String");
+  const stateIdParam = qb.addQueryValue(stateId, "String");
+  const condition = dateOperatorIndexCondition({ operator, now, qb });
+
+  let candidatesClause = "";
+  if (periodBound && periodBound > 0) {
+    const candidateQueries = [
+      `
+        select
+          user_id
+        from updated_computed_property_state
+        where
+          workspace_id = ${workspaceIdParam}
+          and type = 'segment'
+          and computed_property_id = ${segmentIdParam}
+          and state_id = ${stateIdParam}
+          and computed_at <= toDateTime64(${nowSeconds}, 3)
+          ${getLowerBoundClause(periodBound)}
+      `,
+    ];
+    const crossingCondition = dateOperatorCrossingCondition({
+      operator,
+      now,
+      periodBound,
+      qb,
+    });
+    if (crossingCondition) {
+      candidateQueries.push(`
+        select
+          cpsi.user_id
+        from computed_property_state_index cpsi
+        where
+          cpsi.workspace_id = ${workspaceIdParam}
+          and cpsi.type = 'segment'
+          and cpsi.computed_property_id = ${segmentIdParam}
+          and cpsi.state_id = ${stateIdParam}
+          and ${crossingCondition}
+      `);
+    }
+    candidatesClause = `and user_id in (${candidateQueries.join(
+      " union all ",
+    )})`;
+  }
+  const matchingUsersQuery = `
+    select
+      cpsi.user_id
+    from computed_property_state_index cpsi
+    where
+      cpsi.workspace_id = ${workspaceIdParam}
+      and cpsi.type = 'segment'
+      and cpsi.computed_property_id = ${segmentIdParam}
+      and cpsi.state_id = ${stateIdParam}
+      and ${condition}
+      ${candidatesClause}
+  `;
+
+  // remove users who are no longer in the segment
+  const expiringEntrantsQuery = `
+    insert into resolved_segment_state
+    select
+      workspace_id,
+      segment_id,
+      state_id,
+      user_id,
+      False,
+      max(max_event_time),
+      toDateTime64(${nowSeconds}, 3) as assigned_at
+    from resolved_segment_state
+    where
+      workspace_id = ${workspaceIdParam}
+      and segment_id = ${segmentIdParam}
+      and state_id = ${stateIdParam}
+      ${candidatesClause}
+      and user_id not in (${matchingUsersQuery})
+    group by
+      workspace_id,
+      segment_id,
+      state_id,
+      user_id
+    having
+      argMax(segment_state_value, computed_at) = True
+  `;
+
+  // add users who are now in the segment
+  const newEntrantsQuery = `
+    insert into resolved_segment_state
+    select
+      cpsi.workspace_id,
+      cpsi.computed_property_id,
+      cpsi.state_id,
+      cpsi.user_id,
+      True,
+      toDateTime64(${nowSeconds}, 3),
+      toDateTime64(${nowSeconds}, 3) as assigned_at
+    from computed_property_state_index cpsi
+    where
+      cpsi.workspace_id = ${workspaceIdParam}
+      and cpsi.type = 'segment'
+      and cpsi.computed_property_id = ${segmentIdParam}
+      and cpsi.state_id = ${stateIdParam}
+      and ${condition}
+      ${candidatesClause}
+      and cpsi.user_id not in (
+        select
+          user_id
+        from resolved_segment_state
+        where
+          workspace_id = ${workspaceIdParam}
+          and segment_id = ${segmentIdParam}
+          and state_id = ${stateIdParam}
+        group by
+          user_id
+        having
+          argMax(segment_state_value, computed_at) = True
+      )
+  `;
+  return [expiringEntrantsQuery, newEntrantsQuery];
+}
+
+function sequenceStepStateId(
+  segment: SavedSegmentResource,
+  node: SequenceSegmentNode,
+  step: number,
+): string | null {
+  return segmentNodeStateId(segment, `${node.id}:step:${step}`);
+}
+
+function sequenceExclusionStateId(
+  segment: SavedSegmentResource,
+  node: SequenceSegmentNode,
+  exclusion: number,
+): string | null {
+  return segmentNodeStateId(segment, `${node.id}:exclusion:${exclusion}`);
+}
+
+// exclusions after the last step can't fall between two steps
+function getSequenceExclusions(
+  node: SequenceSegmentNode,
+): { exclusion: SequenceSegmentExclusion; index: number }[] {
+  return (node.exclusions ?? []).flatMap((exclusion, index) =>
+    exclusion.afterStep >= 0 && exclusion.afterStep < node.steps.length - 1
+      ? { exclusion, index }
+      : [],
+  );
+}
+
+/**
+ * Users who performed a sequence's steps in order. For each step, tracks the
+ * times at which the step was reached, along with the latest time at which
+ * the first step could have been performed to reach it, so that both the
+ * time between steps, and the time since the first step can be checked.
+ */
+function buildSequenceSegmentQuery({
+  workspaceId,
+  segment,
+  node,
+  now,
+  periodBound,
+  qb,
+}: {
+  workspaceId: string;
+  segment: SavedSegmentResource;
+  node: SequenceSegmentNode;
+  now: number;
+  periodBound?: number;
+  qb: ClickHouseQueryBuilder;
+}): string | null {
+  const stateId = segmentNodeStateId(segment, node.id);
+  const stepStateIds = node.steps.map((_step, i) =>
+    sequenceStepStateId(segment, node, i),
+  );
+  const exclusions = getSequenceExclusions(node).map(
+    ({ exclusion, index }) => ({
+      afterStep: exclusion.afterStep,
+      stateId: sequenceExclusionStateId(segment, node, index),
+    }),
+  );
+  const stateIds = [...stepStateIds, ...exclusions.map((e) => e.stateId)];
+  if (!stateId || stateIds.some((id) => id === null)) {
+    return null;
+  }
+  const nowSeconds = now / 1000;
+  const lowerBoundClause = getLowerBoundClause(periodBound);
+  const workspaceIdParam = qb.addQueryValue(workspaceId, "String");
+  const segmentIdParam = qb.addQueryValue(segment.id, "String");
+  const stateIdsParam = qb.addQueryValue(stateIds, "Array(String)");
+  const eventTimes = (id: string | null) =>
+    `groupArrayIf(toUnixTimestamp64Milli(event_time), state_id = ${qb.addQueryValue(
+      id,
+      "String",
+    )})`;
+
+  const columns: string[] = [
+    ...stepStateIds.map((id, i) => `${eventTimes(id)} as step_${i}`),
+    ...exclusions.map(
+      (exclusion, i) => `${eventTimes(exclusion.stateId)} as exclusion_${i}`,
+    ),
+  ];
+  const windowCondition =
+    node.withinSeconds !== undefined
+      ? ` and r.1 - r.2 <= ${qb.addQueryValue(
+          Math.round(node.withinSeconds * 1000),
+          "Int64",
+        )}`
+      : "";
+  columns.push(`arrayMap(t -> (t, t), step_0) as reached_0`);
+  for (let i = 1; i < node.steps.length; i++) {
+    const predecessorConditions = ["p.1 < t"];
+    if (node.maxSecondsBetweenSteps !== undefined) {
+      predecessorConditions.push(
+        `t - p.1 <= ${qb.addQueryValue(
+          Math.round(node.maxSecondsBetweenSteps * 1000),
+          "Int64",
+        )}`,
+      );
+    }
+    exclusions.forEach((exclusion, j) => {
+      if (exclusion.afterStep === i - 1) {
+        predecessorConditions.push(
+          `not arrayExists(x -> x > p.1 and x < t, exclusion_${j})`,
+        );
+      }
+    });
+    columns.push(`
+      arrayFilter(
+        r -> r.2 >= 0${windowCondition},
+        arrayMap(
+          t -> (
+            t,
+            arrayMax(
+              arrayConcat(
+                [-1],
+                arrayMap(
+                  p -> p.2,
+                  arrayFilter(
+                    p -> ${predecessorConditions.join(" and ")},
+                    reached_${i - 1}
+                  )
+                )
+              )
+            )
+          ),
+          step_${i}
+        )
+      ) as reached_${i}
+    `);
+  }
+
+  return `
+    insert into resolved_segment_state
+    select
+      workspace_id,
+      computed_property_id,
+      ${qb.addQueryValue(stateId, "String")},
+      user_id,
+      notEmpty(reached_${node.steps.length - 1}),
+      max_event_time,
+      toDateTime64(${nowSeconds}, 3) as assigned_at
+    from (
+      select
+        workspace_id,
+        computed_property_id,
+        user_id,
+        ${columns.join(",\n")},
+        max(event_time) as max_event_time
+      from computed_property_state_v2
+      where
+        workspace_id = ${workspaceIdParam}
+        and type = 'segment'
+        and computed_property_id = ${segmentIdParam}
+        and state_id in ${stateIdsParam}
+        and computed_at <= toDateTime64(${nowSeconds}, 3)
+        and user_id in (
+          select
+            user_id
+          from updated_computed_property_state
+          where
+            workspace_id = ${workspaceIdParam}
+            and type = 'segment'
+            and computed_property_id = ${segmentIdParam}
+            and state_id in ${stateIdsParam}
+            and computed_at <= toDateTime64(${nowSeconds}, 3)
+            ${lowerBoundClause}
+        )
+      group by
+        workspace_id,
+        computed_property_id,
+        user_id
+    )
+  `;
+}
+
+function buildRecentUpdateSegmentQuery({
+  workspaceId,
+  stateId,
+  expression,
+  segmentId,
+  now,
+  periodBound,
+  qb,
+}: {
+  workspaceId: string;
+  now: number;
+  segmentId: string;
+  periodBound?: number;
+  stateId: string;
+  expression: string;
+  qb: ClickHouseQueryBuilder;
+}): string {
+  const nowSeconds = now / 1000;
+  const lowerBoundClause = getLowerBoundClause(periodBound);
+
+  const query = `
+    insert into resolved_segment_state
+    select
+      workspace_id,
+      computed_property_id,
+      state_id,
+      user_id,
+      ${expression},
+      max(event_time),
+      toDateTime64(${nowSeconds}, 3) as assigned_at
+    from computed_property_state_v2 as cps
+    where
+      (
+        workspace_id,
+        computed_property_id,
+        state_id,
+        user_id
+      ) in (
+        select
+          workspace_id,
+          computed_property_id,
+          state_id,
+          user_id
+        from updated_computed_property_state
+        where
+          workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+          and type = 'segment'
+          and computed_property_id = ${qb.addQueryValue(segmentId, "String")}
+          and state_id = ${qb.addQueryValue(stateId, "String")}
+          and computed_at <= toDateTime64(${nowSeconds}, 3)
+          ${lowerBoundClause}
+      )
+    group by
+      workspace_id,
+      computed_property_id,
+      state_id,
+      user_id
+  `;
+  return query;
+}
+
+function toJsonPathParamCh({
+  path,
+  qb,
+}: {
+  path: string;
+  qb: ClickHouseQueryBuilder;
+}): string | null {
+  const normalizedPath = toJsonPathParam({ path });
+  if (normalizedPath.isErr()) {
+    logger().info(
+      {
+        path,
+        err: normalizedPath.error,
+      },
+      "invalid json path in node path",
+    );
+    return null;
+  }
+
+  return qb.addQueryValue(normalizedPath.value, "String");
+}
+
+/**
+ * The aggregate of an event property over the events recorded in an
+ * aggregate node's state, by user. Values which can't be parsed as numbers
+ * are ignored, except when counting distinct values.
+ */
+function aggregateByUserQuery({
+  workspaceId,
+  type,
+  computedPropertyId,
+  stateId,
+  path,
+  aggregation,
+  withinSeconds,
+  usersQuery,
+  now,
+  qb,
+}: {
+  workspaceId: string;
+  type: "user_property" | "segment";
+  computedPropertyId: string;
+  stateId: string;
+  path: string;
+  aggregation: AggregationType;
+  withinSeconds?: number;
+  // restricts the users whose aggregates are computed
+  usersQuery?: string;
+  now: number;
+  qb: ClickHouseQueryBuilder;
+}): string | null {
+  const pathParam = toJsonPathParamCh({ path, qb });
+  if (!pathParam) {
+    return null;
+  }
+  const nowSeconds = now / 1000;
+  const workspaceIdParam = qb.addQueryValue(workspaceId, "String");
+  const value = `JSON_VALUE(ue.properties, ${pathParam})`;
+  const numericValue = `toFloat64OrNull(${value})`;
+  const windowCondition =
+    withinSeconds && withinSeconds > 0
+      ? `ue.event_time >= toDateTime64(${Math.round(
+          Math.max(nowSeconds - withinSeconds, 0),
+        )}, 3)`
+      : "True";
+
+  let aggregate: string;
+  switch (aggregation) {
+    case AggregationType.Sum:
+      aggregate = `ifNull(sumIf(${numericValue}, ${windowCondition}), 0)`;
+      break;
+    case AggregationType.Count:
+      aggregate = `countIf(${windowCondition})`;
+      break;
+    case AggregationType.Avg:
+      aggregate = `avgIf(${numericValue}, ${windowCondition})`;
+      break;
+    case AggregationType.Min:
+      aggregate = `minIf(${numericValue}, ${windowCondition})`;
+      break;
+    case AggregationType.Max:
+      aggregate = `maxIf(${numericValue}, ${windowCondition})`;
+      break;
+    case AggregationType.DistinctCount:
+      aggregate = `uniqExactIf(${value}, ${windowCondition})`;
+      break;
+    default:
+      assertUnreachable(aggregation);
+  }
+  const usersClause = usersQuery ? `and user_id in (${usersQuery})` : "";
+
+  return `
+    select
+      ids.cps_user_id as cps_user_id,
+      ${aggregate} as aggregate_value,
+      max(ue.event_time) as max_event_time
+    from user_events_v2 as ue
+    inner join (
+      select distinct
+        cps_user_id,
+        message_id
+      from (
+        select
+          user_id as cps_user_id,
+          arrayJoin(groupArrayMerge(grouped_message_ids)) as message_id
+        from computed_property_state_v2
+        where
+          workspace_id = ${workspaceIdParam}
+          and type = '${type}'
+          and computed_property_id = ${qb.addQueryValue(
+            computedPropertyId,
+            "String",
+          )}
+          and state_id = ${qb.addQueryValue(stateId, "String")}
+          ${usersClause}
+        group by
+          user_id
+      )
+    ) as ids on ue.message_id = ids.message_id
+    where
+      ue.workspace_id = ${workspaceIdParam}
+      and ue.processing_time <= toDateTime64(${nowSeconds}, 3)
+    group by
+      ids.cps_user_id
+  `;
+}
+
+/**
+ * Aggregates which are windowed change as time passes, so they're re-computed
+ * for all users with matching events. Otherwise, they're only re-computed for
+ * users with new matching events.
+ */
+function buildAggregateSegmentQueries({
   workspaceId,
-  stateId,
-  expression,
   segmentId,
+  stateId,
+  node,
   now,
   periodBound,
   qb,
 }: {
   workspaceId: string;
-  now: number;
   segmentId: string;
-  periodBound?: number;
   stateId: string;
-  expression: string;
+  node: AggregateSegmentNode;
+  now: number;
+  periodBound?: number;
   qb: ClickHouseQueryBuilder;
-}): string {
+}): string[] {
   const nowSeconds = now / 1000;
-  const lowerBoundClause = getLowerBoundClause(periodBound);
+  const workspaceIdParam = qb.addQueryValue(workspaceId, "String");
+  const segmentIdParam = qb.addQueryValue(segmentId, "String");
+  const stateIdParam = qb.addQueryValue(stateId, "String");
+  const comparison = `coalesce(aggregate_value ${
+    node.operator
+  } ${qb.addQueryValue(node.value, "Float64")}, False)`;
+  const windowed = node.withinSeconds !== undefined && node.withinSeconds > 0;
+
+  const usersQuery = windowed
+    ? undefined
+    : `
+      select
+        user_id
+      from updated_computed_property_state
+      where
+        workspace_id = ${workspaceIdParam}
+        and type = 'segment'
+        and computed_property_id = ${segmentIdParam}
+        and state_id = ${stateIdParam}
+        and computed_at <= toDateTime64(${nowSeconds}, 3)
+        ${getLowerBoundClause(periodBound)}
+    `;
+  const aggregateQuery = aggregateByUserQuery({
+    workspaceId,
+    type: "segment",
+    computedPropertyId: segmentId,
+    stateId,
+    path: node.path,
+    aggregation: node.aggregation,
+    withinSeconds: node.withinSeconds,
+    usersQuery,
+    now,
+    qb,
+  });
+  if (!aggregateQuery) {
+    return [];
+  }
 
-  const query = `
+  if (!windowed) {
+    return [
+      `
+        insert into resolved_segment_state
+        select
+          ${workspaceIdParam},
+          ${segmentIdParam},
+          ${stateIdParam},
+          cps_user_id,
+          ${comparison},
+          max_event_time,
+          toDateTime64(${nowSeconds}, 3) as assigned_at
+        from (${aggregateQuery})
+      `,
+    ];
+  }
+
+  const currentUsersQuery = `
+    select
+      user_id
+    from resolved_segment_state
+    where
+      workspace_id = ${workspaceIdParam}
+      and segment_id = ${segmentIdParam}
+      and state_id = ${stateIdParam}
+    group by
+      user_id
+    having
+      argMax(segment_state_value, computed_at) = True
+  `;
+
+  // remove users who are no longer in the segment
+  const expiringEntrantsQuery = `
     insert into resolved_segment_state
     select
       workspace_id,
-      computed_property_id,
+      segment_id,
       state_id,
       user_id,
-      ${expression},
-      max(event_time),
+      False,
+      max(max_event_time),
       toDateTime64(${nowSeconds}, 3) as assigned_at
-    from computed_property_state_v2 as cps
+    from resolved_segment_state
     where
-      (
-        workspace_id,
-        computed_property_id,
-        state_id,
-        user_id
-      ) in (
+      workspace_id = ${workspaceIdParam}
+      and segment_id = ${segmentIdParam}
+      and state_id = ${stateIdParam}
+      and user_id not in (
         select
-          workspace_id,
-          computed_property_id,
-          state_id,
-          user_id
-        from updated_computed_property_state
-        where
-          workspace_id = ${qb.addQueryValue(workspaceId, "String")}
-          and type = 'segment'
-          and computed_property_id = ${qb.addQueryValue(segmentId, "String")}
-          and state_id = ${qb.addQueryValue(stateId, "String")}
-          and computed_at <= toDateTime64(${nowSeconds}, 3)
-          ${lowerBoundClause}
+          cps_user_id
+        from (${aggregateQuery})
+        where ${comparison}
       )
     group by
       workspace_id,
-      computed_property_id,
+      segment_id,
       state_id,
       user_id
+    having
+      argMax(segment_state_value, computed_at) = True
+  `;
+
+  // add users who are now in the segment
+  const newEntrantsQuery = `
+    insert into resolved_segment_state
+    select
+      ${workspaceIdParam},
+      ${segmentIdParam},
+      ${stateIdParam},
+      cps_user_id,
+      True,
+      max_event_time,
+      toDateTime64(${nowSeconds}, 3) as assigned_at
+    from (${aggregateQuery})
+    where
+      ${comparison}
+      and cps_user_id not in (${currentUsersQuery})
+  `;
+  return [expiringEntrantsQuery, newEntrantsQuery];
+}
+
+function buildReferenceSegmentQuery({
+  workspaceId,
+  segmentId,
+  stateId,
+  node,
+  now,
+  periodBound,
+  idUserProperty,
+  qb,
+}: {
+  workspaceId: string;
+  segmentId: string;
+  stateId: string;
+  node: ReferenceSegmentNode;
+  now: number;
+  periodBound?: number;
+  idUserProperty?: SavedUserPropertyResource;
+  qb: ClickHouseQueryBuilder;
+}): string | null {
+  const nowSeconds = now / 1000;
+  const workspaceIdParam = qb.addQueryValue(workspaceId, "String");
+  const referencedSegmentIdParam = qb.addQueryValue(node.segmentId, "String");
+  const assignedAtLowerBoundClause =
+    periodBound && periodBound > 0
+      ? `and assigned_at >= toDateTime64(${periodBound / 1000}, 3)`
+      : "";
+
+  // users whose assignment to the referenced segment has changed
+  const userQueries = [
+    `
+      select
+        user_id
+      from computed_property_assignments_v2
+      where
+        workspace_id = ${workspaceIdParam}
+        and type = 'segment'
+        and computed_property_id = ${referencedSegmentIdParam}
+        and assigned_at <= toDateTime64(${nowSeconds}, 3)
+        ${assignedAtLowerBoundClause}
+    `,
+  ];
+  if (node.not) {
+    // users who were never assigned to the referenced segment are in this one
+    if (!idUserProperty) {
+      logger().info(
+        {
+          segmentId,
+          workspaceId,
+        },
+        "No id user property for negated segment reference, skipping",
+      );
+      return null;
+    }
+    userQueries.push(`
+      select
+        user_id
+      from computed_property_state_v2
+      where
+        workspace_id = ${workspaceIdParam}
+        and type = 'user_property'
+        and computed_property_id = ${qb.addQueryValue(
+          idUserProperty.id,
+          "String",
+        )}
+        and state_id = ${qb.addQueryValue(
+          userPropertyStateId(idUserProperty),
+          "String",
+        )}
+        and computed_at <= toDateTime64(${nowSeconds}, 3)
+        ${getLowerBoundClause(periodBound)}
+    `);
+  }
+
+  return `
+    insert into resolved_segment_state
+    select
+      ${workspaceIdParam},
+      ${qb.addQueryValue(segmentId, "String")},
+      ${qb.addQueryValue(stateId, "String")},
+      users.user_id,
+      ${node.not ? "not " : ""}ref.segment_value,
+      ref.max_event_time,
+      toDateTime64(${nowSeconds}, 3) as assigned_at
+    from (
+      select distinct user_id
+      from (${userQueries.join(" union all ")})
+    ) as users
+    left join (
+      select
+        user_id,
+        argMax(segment_value, assigned_at) as segment_value,
+        max(max_event_time) as max_event_time
+      from computed_property_assignments_v2
+      where
+        workspace_id = ${workspaceIdParam}
+        and type = 'segment'
+        and computed_property_id = ${referencedSegmentIdParam}
+        and assigned_at <= toDateTime64(${nowSeconds}, 3)
+      group by
+        user_id
+    ) as ref on users.user_id = ref.user_id
   `;
-  return query;
 }
 
 function segmentToResolvedState({
@@ -1220,6 +2184,42 @@ function segmentToResolvedState({
             }),
           ];
         }
+        case SegmentOperatorType.Contains:
+        case SegmentOperatorType.StartsWith:
+        case SegmentOperatorType.EndsWith:
+        case SegmentOperatorType.Matches:
+        case SegmentOperatorType.In:
+        case SegmentOperatorType.NotIn: {
+          return [
+            buildRecentUpdateSegmentQuery({
+              workspaceId,
+              stateId,
+              expression: stringOperatorCondition({
+                reference: "argMaxMerge(last_value)",
+                operator,
+                qb,
+              }),
+              segmentId: segment.id,
+              now,
+              periodBound,
+              qb,
+            }),
+          ];
+        }
+        case SegmentOperatorType.Before:
+        case SegmentOperatorType.After:
+        case SegmentOperatorType.WithinDays:
+        case SegmentOperatorType.Anniversary: {
+          return buildDateTraitSegmentQueries({
+            workspaceId,
+            segmentId: segment.id,
+            stateId,
+            operator,
+            now,
+            periodBound,
+            qb,
+          });
+        }
         default:
           assertUnreachable(operator);
           break;
@@ -1348,6 +2348,18 @@ function segmentToResolvedState({
             case SegmentOperatorType.NotExists: {
               return `${indexedReference} == ''`;
             }
+            case SegmentOperatorType.Contains:
+            case SegmentOperatorType.StartsWith:
+            case SegmentOperatorType.EndsWith:
+            case SegmentOperatorType.Matches:
+            case SegmentOperatorType.In:
+            case SegmentOperatorType.NotIn: {
+              return stringOperatorCondition({
+                reference: indexedReference,
+                operator: property.operator,
+                qb,
+              });
+            }
             default:
               throw new Error(
                 `Unimplemented segment operator for performed node ${operatorType} for segment: ${segment.id} and node: ${node.id}`,
@@ -1462,6 +2474,41 @@ function segmentToResolvedState({
         }),
       ];
     }
+    case SegmentNodeType.Sequence: {
+      const query = buildSequenceSegmentQuery({
+        workspaceId,
+        segment,
+        node,
+        now,
+        periodBound,
+        qb,
+      });
+      return query ? [query] : [];
+    }
+    case SegmentNodeType.Aggregate: {
+      return buildAggregateSegmentQueries({
+        workspaceId,
+        segmentId: segment.id,
+        stateId,
+        node,
+        now,
+        periodBound,
+        qb,
+      });
+    }
+    case SegmentNodeType.Segment: {
+      const query = buildReferenceSegmentQuery({
+        workspaceId,
+        segmentId: segment.id,
+        stateId,
+        node,
+        now,
+        periodBound,
+        idUserProperty,
+        qb,
+      });
+      return query ? [query] : [];
+    }
     default:
       assertUnreachable(node);
   }
@@ -1603,6 +2650,24 @@ function resolvedSegmentToAssignment({
         expression: stateValue,
       };
     }
+    case SegmentNodeType.Sequence: {
+      return {
+        stateIds: [stateId],
+        expression: stateValue,
+      };
+    }
+    case SegmentNodeType.Aggregate: {
+      return {
+        stateIds: [stateId],
+        expression: stateValue,
+      };
+    }
+    case SegmentNodeType.Segment: {
+      return {
+        stateIds: [stateId],
+        expression: stateValue,
+      };
+    }
     case SegmentNodeType.Manual: {
       return resolvedSegmentToAssignment({
         node: manualSegmentToLastPerformed({
@@ -1630,31 +2695,106 @@ function resolvedSegmentToAssignment({
   }
 }
 
-function toJsonPathParamCh({
-  path,
+function truncateEventTimeExpression(windowSeconds: number): string {
+  const eventTimeInterval = getEventTimeInterval(windowSeconds);
+  return `toDateTime64(toStartOfInterval(event_time, toIntervalSecond(${eventTimeInterval})), 3)`;
+}
+
+/**
+ * Conditions on an event's properties, for the property filters of performed
+ * and sequence segment nodes.
+ */
+function eventPropertyConditions({
+  properties,
+  segmentId,
+  nodeId,
   qb,
 }: {
-  path: string;
+  properties: PerformedSegmentNode["properties"];
+  segmentId: string;
+  nodeId: string;
   qb: ClickHouseQueryBuilder;
-}): string | null {
-  const normalizedPath = toJsonPathParam({ path });
-  if (normalizedPath.isErr()) {
-    logger().info(
-      {
-        path,
-        err: normalizedPath.error,
-      },
-      "invalid json path in node path",
-    );
-    return null;
-  }
-
-  return qb.addQueryValue(normalizedPath.value, "String");
-}
+}): string[] {
+  return (
+    properties?.flatMap((property) => {
+      const { operator } = property;
+      const path = toJsonPathParamCh({
+        path: property.path,
+        qb,
+      });
 
-function truncateEventTimeExpression(windowSeconds: number): string {
-  const eventTimeInterval = getEventTimeInterval(windowSeconds);
-  return `toDateTime64(toStartOfInterval(event_time, toIntervalSecond(${eventTimeInterval})), 3)`;
+      if (!path) {
+        return [];
+      }
+      switch (operator.type) {
+        case SegmentOperatorType.Equals: {
+          return `toString(JSON_VALUE(properties, ${path})) == ${qb.addQueryValue(
+            operator.value,
+            "String",
+          )}`;
+        }
+        case SegmentOperatorType.Exists: {
+          return `JSON_VALUE(properties, ${path}) != ''`;
+        }
+        case SegmentOperatorType.NotExists: {
+          return `JSON_VALUE(properties, ${path}) == ''`;
+        }
+        case SegmentOperatorType.GreaterThanOrEqual: {
+          const varName = qb.getVariableName();
+          return `(toFloat64OrNull(JSON_VALUE(properties, ${path})) as ${varName}) is not Null and assumeNotNull(${varName}) >= ${qb.addQueryValue(
+            operator.value,
+            "Float64",
+          )}`;
+        }
+        case SegmentOperatorType.LessThan: {
+          const varName = qb.getVariableName();
+          return `(toFloat64OrNull(JSON_VALUE(properties, ${path})) as ${varName}) is not Null and assumeNotNull(${varName}) < ${qb.addQueryValue(
+            operator.value,
+            "Float64",
+          )}`;
+        }
+        case SegmentOperatorType.NotEquals: {
+          return `toString(JSON_VALUE(properties, ${path})) != ${qb.addQueryValue(
+            operator.value,
+            "String",
+          )}`;
+        }
+        case SegmentOperatorType.HasBeen: {
+          throw new Error(
+            `Unimplemented segment operator for performed node ${operator.type} for segment: ${segmentId} and node: ${nodeId}`,
+          );
+        }
+        case SegmentOperatorType.Within: {
+          throw new Error(
+            `Unimplemented segment operator for performed node ${operator.type} for segment: ${segmentId} and node: ${nodeId}`,
+          );
+        }
+        case SegmentOperatorType.Before:
+        case SegmentOperatorType.After:
+        case SegmentOperatorType.WithinDays:
+        case SegmentOperatorType.Anniversary: {
+          throw new Error(
+            `Unimplemented segment operator for performed node ${operator.type} for segment: ${segmentId} and node: ${nodeId}`,
+          );
+        }
+        case SegmentOperatorType.Contains:
+        case SegmentOperatorType.StartsWith:
+        case SegmentOperatorType.EndsWith:
+        case SegmentOperatorType.Matches:
+        case SegmentOperatorType.In:
+        case SegmentOperatorType.NotIn: {
+          return stringOperatorCondition({
+            reference: `JSON_VALUE(properties, ${path})`,
+            operator,
+            qb,
+          });
+        }
+        default:
+          assertUnreachable(operator);
+          return [];
+      }
+    }) ?? []
+  );
 }
 
 export function segmentNodeToStateSubQuery({
@@ -1681,7 +2821,8 @@ export function segmentNodeToStateSubQuery({
       }
       if (
         node.operator.type === SegmentOperatorType.NotEquals ||
-        node.operator.type === SegmentOperatorType.NotExists
+        node.operator.type === SegmentOperatorType.NotExists ||
+        node.operator.type === SegmentOperatorType.NotIn
       ) {
         const varName = qb.getVariableName();
         return [
@@ -1689,8 +2830,8 @@ export function segmentNodeToStateSubQuery({
             condition: `event_type == 'identify'`,
             type: "segment",
             uniqValue: "''",
-            // using stateId as placeholder string to allow NotEquals and NotExists
-            // to select empty values. no real danger of collissions given that
+            // using stateId as placeholder string to allow NotEquals, NotExists,
+            // and NotIn to select empty values. no real danger of collissions given that
             // stateId is a uuid
             argMaxValue: `
               if(
@@ -1729,63 +2870,11 @@ export function segmentNodeToStateSubQuery({
       if (!stateId) {
         return [];
       }
-      const propertyConditions = node.properties?.flatMap((property) => {
-        const { operator } = property;
-        const path = toJsonPathParamCh({
-          path: property.path,
-          qb,
-        });
-
-        if (!path) {
-          return [];
-        }
-        switch (operator.type) {
-          case SegmentOperatorType.Equals: {
-            return `toString(JSON_VALUE(properties, ${path})) == ${qb.addQueryValue(
-              operator.value,
-              "String",
-            )}`;
-          }
-          case SegmentOperatorType.Exists: {
-            return `JSON_VALUE(properties, ${path}) != ''`;
-          }
-          case SegmentOperatorType.NotExists: {
-            return `JSON_VALUE(properties, ${path}) == ''`;
-          }
-          case SegmentOperatorType.GreaterThanOrEqual: {
-            const varName = qb.getVariableName();
-            return `(toFloat64OrNull(JSON_VALUE(properties, ${path})) as ${varName}) is not Null and assumeNotNull(${varName}) >= ${qb.addQueryValue(
-              operator.value,
-              "Float64",
-            )}`;
-          }
-          case SegmentOperatorType.LessThan: {
-            const varName = qb.getVariableName();
-            return `(toFloat64OrNull(JSON_VALUE(properties, ${path})) as ${varName}) is not Null and assumeNotNull(${varName}) < ${qb.addQueryValue(
-              operator.value,
-              "Float64",
-            )}`;
-          }
-          case SegmentOperatorType.NotEquals: {
-            return `toString(JSON_VALUE(properties, ${path})) != ${qb.addQueryValue(
-              operator.value,
-              "String",
-            )}`;
-          }
-          case SegmentOperatorType.HasBeen: {
-            throw new Error(
-              `Unimplemented segment operator for performed node ${operator.type} for segment: ${segment.id} and node: ${node.id}`,
-            );
-          }
-          case SegmentOperatorType.Within: {
-            throw new Error(
-              `Unimplemented segment operator for performed node ${operator.type} for segment: ${segment.id} and node: ${node.id}`,
-            );
-          }
-          default:
-            assertUnreachable(operator);
-            return [];
-        }
+      const propertyConditions = eventPropertyConditions({
+        properties: node.properties,
+        segmentId: segment.id,
+        nodeId: node.id,
+        qb,
       });
       const eventTimeExpression: string | undefined = node.withinSeconds
         ? truncateEventTimeExpression(node.withinSeconds)
@@ -1800,7 +2889,7 @@ export function segmentNodeToStateSubQuery({
       if (prefixCondition) {
         conditions.push(prefixCondition);
       }
-      if (propertyConditions?.length) {
+      if (propertyConditions.length) {
         conditions.push(`(${propertyConditions.join(" and ")})`);
       }
 
@@ -1816,6 +2905,54 @@ export function segmentNodeToStateSubQuery({
         },
       ];
     }
+    case SegmentNodeType.Sequence: {
+      const events: {
+        event: SequenceSegmentEvent;
+        stateId: string | null;
+      }[] = [
+        ...node.steps.map((step, i) => ({
+          event: step,
+          stateId: sequenceStepStateId(segment, node, i),
+        })),
+        ...getSequenceExclusions(node).map(({ exclusion, index }) => ({
+          event: exclusion,
+          stateId: sequenceExclusionStateId(segment, node, index),
+        })),
+      ];
+      return events.flatMap(({ event, stateId }) => {
+        if (!stateId) {
+          return [];
+        }
+        const conditions: string[] = ["event_type == 'track'"];
+        const prefixCondition = getPrefixCondition({
+          column: "event",
+          value: event.event,
+          qb,
+        });
+        if (prefixCondition) {
+          conditions.push(prefixCondition);
+        }
+        const propertyConditions = eventPropertyConditions({
+          properties: event.properties,
+          segmentId: segment.id,
+          nodeId: node.id,
+          qb,
+        });
+        if (propertyConditions.length) {
+          conditions.push(`(${propertyConditions.join(" and ")})`);
+        }
+        // steps are ordered by the exact times of their events
+        return {
+          condition: conditions.join(" and "),
+          type: "segment",
+          eventTimeExpression: "event_time",
+          uniqValue: "message_id",
+          argMaxValue: "''",
+          computedPropertyId: segment.id,
+          stateId,
+        };
+      });
+    }
     case SegmentNodeType.And: {
       return node.children.flatMap((child) => {
         const childNode = segment.definition.nodes.find((n) => n.id === child);
@@ -1902,6 +3039,18 @@ export function segmentNodeToStateSubQuery({
           case SegmentOperatorType.NotExists: {
             return `${propertyValue} == ''`;
           }
+          case SegmentOperatorType.Contains:
+          case SegmentOperatorType.StartsWith:
+          case SegmentOperatorType.EndsWith:
+          case SegmentOperatorType.Matches:
+          case SegmentOperatorType.In:
+          case SegmentOperatorType.NotIn: {
+            return stringOperatorCondition({
+              reference: propertyValue,
+              operator: property.operator,
+              qb,
+            });
+          }
           default:
             throw new Error(
               `Unimplemented segment operator for performed node ${operatorType} for segment: ${segment.id} and node: ${node.id}`,
@@ -1947,6 +3096,54 @@ export function segmentNodeToStateSubQuery({
         },
       ];
     }
+    case SegmentNodeType.Aggregate: {
+      const stateId = segmentNodeStateId(segment, node.id);
+      if (!stateId) {
+        return [];
+      }
+      const path = toJsonPathParamCh({
+        path: node.path,
+        qb,
+      });
+      if (!path) {
+        return [];
+      }
+      const conditions: string[] = [
+        "event_type == 'track'",
+        `JSON_VALUE(properties, ${path}) != ''`,
+      ];
+      const prefixCondition = getPrefixCondition({
+        column: "event",
+        value: node.event,
+        qb,
+      });
+      if (prefixCondition) {
+        conditions.push(prefixCondition);
+      }
+      const propertyConditions = eventPropertyConditions({
+        properties: node.properties,
+        segmentId: segment.id,
+        nodeId: node.id,
+        qb,
+      });
+      if (propertyConditions.length) {
+        conditions.push(`(${propertyConditions.join(" and ")})`);
+      }
+      // aggregated from the properties of the recorded events
+      return [
+        {
+          condition: conditions.join(" and "),
+          type: "segment",
+          recordMessageId: true,
+          computedPropertyId: segment.id,
+          stateId,
+        },
+      ];
+    }
+    case SegmentNodeType.Segment: {
+      // resolved from the assignments of the referenced segment
+      return [];
+    }
     case SegmentNodeType.Broadcast: {
       const performedNode: PerformedSegmentNode = broadcastSegmentToPerformed(
         segment.id,
@@ -2283,6 +3480,57 @@ function userPropertyToSubQuery({
         },
       ];
     }
+    case UserPropertyDefinitionType.Aggregate: {
+      const { definition } = userProperty;
+      const path = toJsonPathParamCh({
+        path: definition.path,
+        qb,
+      });
+      if (!path) {
+        return [];
+      }
+      const conditions: string[] = [
+        "event_type == 'track'",
+        `JSON_VALUE(properties, ${path}) != ''`,
+      ];
+      const prefixCondition = getPrefixCondition({
+        column: "event",
+        value: definition.event,
+        qb,
+      });
+      if (prefixCondition) {
+        conditions.push(prefixCondition);
+      }
+      for (const property of definition.properties ?? []) {
+        switch (property.operator.type) {
+          case UserPropertyOperatorType.Equals: {
+            const propertyPath = toJsonPathParamCh({
+              path: property.path,
+              qb,
+            });
+            if (!propertyPath) {
+              continue;
+            }
+            conditions.push(
+              `JSON_VALUE(properties, ${propertyPath}) == ${qb.addQueryValue(
+                property.operator.value,
+                "String",
+              )}`,
+            );
+            break;
+          }
+        }
+      }
+      return [
+        {
+          condition: conditions.join(" and "),
+          type: "user_property",
+          recordMessageId: true,
+          computedPropertyId: userProperty.id,
+          stateId,
+        },
+      ];
+    }
     case UserPropertyDefinitionType.AnonymousId: {
       return [
         {
@@ -2300,7 +3548,8 @@ function userPropertyToSubQuery({
           condition: "True",
           type: "user_property",
           computedPropertyId: userProperty.id,
-          argMaxValue: "user_or_anonymous_id",
+          // resolved to the canonical id of merged users in computeState
+          argMaxValue: "resolved_user_id",
           stateId,
         },
       ];
@@ -2325,6 +3574,7 @@ function userPropertyToSubQuery({
 enum UserPropertyAssignmentType {
   Standard = "Standard",
   PerformedMany = "PerformedMany",
+  Aggregate = "Aggregate",
 }
 
 interface StandardUserPropertyAssignmentConfig {
@@ -2339,9 +3589,18 @@ interface PerformedManyUserPropertyAssignmentConfig {
   stateId: string;
 }
 
+interface AggregateUserPropertyAssignmentConfig {
+  type: UserPropertyAssignmentType.Aggregate;
+  stateId: string;
+  path: string;
+  aggregation: AggregationType;
+  withinSeconds?: number;
+}
+
 type UserPropertyAssignmentConfig =
   | StandardUserPropertyAssignmentConfig
-  | PerformedManyUserPropertyAssignmentConfig;
+  | PerformedManyUserPropertyAssignmentConfig
+  | AggregateUserPropertyAssignmentConfig;
 
 function assignStandardUserPropertiesQuery({
   workspaceId,
@@ -2534,6 +3793,72 @@ function assignPerformedManyUserPropertiesQuery({
   return query;
 }
 
+function assignAggregateUserPropertiesQuery({
+  workspaceId,
+  config: ac,
+  userPropertyId,
+  periodBound,
+  qb,
+  now,
+}: {
+  workspaceId: string;
+  now: number;
+  qb: ClickHouseQueryBuilder;
+  periodBound?: number;
+  userPropertyId: string;
+  config: AggregateUserPropertyAssignmentConfig;
+}): string | null {
+  const nowSeconds = now / 1000;
+  const workspaceIdParam = qb.addQueryValue(workspaceId, "String");
+  const computedPropertyIdParam = qb.addQueryValue(userPropertyId, "String");
+
+  // windowed aggregates change as time passes, so are re-computed for all
+  // users with matching events
+  const usersQuery =
+    ac.withinSeconds && ac.withinSeconds > 0
+      ? undefined
+      : `
+        select
+          user_id
+        from updated_computed_property_state
+        where
+          workspace_id = ${workspaceIdParam}
+          and type = 'user_property'
+          and computed_property_id = ${computedPropertyIdParam}
+          and state_id = ${qb.addQueryValue(ac.stateId, "String")}
+          and computed_at <= toDateTime64(${nowSeconds}, 3)
+          ${getLowerBoundClause(periodBound)}
+      `;
+  const aggregateQuery = aggregateByUserQuery({
+    workspaceId,
+    type: "user_property",
+    computedPropertyId: userPropertyId,
+    stateId: ac.stateId,
+    path: ac.path,
+    aggregation: ac.aggregation,
+    withinSeconds: ac.withinSeconds,
+    usersQuery,
+    now,
+    qb,
+  });
+  if (!aggregateQuery) {
+    return null;
+  }
+  return `
+    insert into computed_property_assignments_v2
+    select
+      ${workspaceIdParam},
+      'user_property',
+      ${computedPropertyIdParam},
+      cps_user_id,
+      False as segment_value,
+      ifNull(toString(aggregate_value), '') as user_property_value,
+      max_event_time,
+      toDateTime64(${nowSeconds}, 3) as assigned_at
+    from (${aggregateQuery})
+  `;
+}
+
 function assignUserPropertiesQuery({
   workspaceId,
   config: ac,
@@ -2570,6 +3895,16 @@ function assignUserPropertiesQuery({
         now,
       });
     }
+    case UserPropertyAssignmentType.Aggregate: {
+      return assignAggregateUserPropertiesQuery({
+        workspaceId,
+        config: ac,
+        userPropertyId,
+        periodBound,
+        qb,
+        now,
+      });
+    }
   }
 }
 
@@ -2764,6 +4099,19 @@ function userPropertyToAssignment({
         stateId,
       };
     }
+    case UserPropertyDefinitionType.Aggregate: {
+      const stateId = userPropertyStateId(userProperty);
+      if (!stateId) {
+        return null;
+      }
+      return {
+        type: UserPropertyAssignmentType.Aggregate,
+        stateId,
+        path: userProperty.definition.path,
+        aggregation: userProperty.definition.aggregation,
+        withinSeconds: userProperty.definition.withinSeconds,
+      };
+    }
     case UserPropertyDefinitionType.AnonymousId: {
       const stateId = userPropertyStateId(userProperty);
       if (!stateId) {
@@ -2824,6 +4172,111 @@ export type PartialComputePropertiesArgs = Omit<
   "journeys" | "integrations"
 >;
 
+// bounds the number of hops resolved in a single computation, in case aliases
+// form a cycle
+const MAX_ALIAS_CHAIN_LENGTH = 10;
+
+/**
+ * Re-points aliases whose canonical user has since been aliased to another
+ * user, so that A -> B followed by B -> C resolves A to C. The re-pointed
+ * aliases are timestamped with the current computation, so that the previous
+ * id's events are re-processed.
+ */
+async function flattenUserAliases({
+  workspaceId,
+  now,
+}: {
+  workspaceId: string;
+  now: number;
+}) {
+  for (let i = 0; i < MAX_ALIAS_CHAIN_LENGTH; i++) {
+    const qb = new ClickHouseQueryBuilder();
+    const workspaceIdParam = qb.addQueryValue(workspaceId, "String");
+    const latestAliases = `
+      select
+        previous_id,
+        argMax(user_id, aliased_at) as user_id
+      from user_aliases
+      where workspace_id = ${workspaceIdParam}
+      group by previous_id
+    `;
+    const chainedAliases = `
+      from (${latestAliases}) a
+      inner join (${latestAliases}) b on a.user_id = b.previous_id
+      where b.user_id != a.previous_id
+    `;
+    const countResult = await chQuery({
+      query: `select count() as count ${chainedAliases}`,
+      query_params: qb.getQueries(),
+      format: "JSONEachRow",
+    });
+    const [countRow] = await countResult.json<{ count: string | number }>();
+    if (!countRow || Number(countRow.count) === 0) {
+      return;
+    }
+    await command({
+      query: `
+        insert into user_aliases
+        select
+          ${workspaceIdParam} as workspace_id,
+          a.previous_id as previous_id,
+          b.user_id as user_id,
+          toDateTime64(${now / 1000}, 3) as aliased_at
+        ${chainedAliases}
+      `,
+      query_params: qb.getQueries(),
+      clickhouse_settings: {
+        wait_end_of_query: 1,
+      },
+    });
+  }
+  logger().error(
+    {
+      workspaceId,
+    },
+    "user aliases exceeded the maximum chain length, likely due to a cycle",
+  );
+}
+
+/**
+ * Deletes the state and assignments of users which were aliased to another
+ * user since the given time. Their events are re-processed as the canonical
+ * user's, so they'd otherwise retain stale memberships under their previous
+ * id.
+ */
+async function deleteAliasedUsersState({
+  workspaceId,
+  since,
+}: {
+  workspaceId: string;
+  since: number;
+}) {
+  const qb = new ClickHouseQueryBuilder();
+  const workspaceIdParam = qb.addQueryValue(workspaceId, "String");
+  const previousIds = `
+    select previous_id
+    from user_aliases
+    where
+      workspace_id = ${workspaceIdParam}
+      and aliased_at >= toDateTime64(${since / 1000}, 3)
+  `;
+  const tables = [
+    "computed_property_state_v2",
+    "computed_property_state_index",
+    "resolved_segment_state",
+    "computed_property_assignments_v2",
+    "processed_computed_properties_v2",
+  ];
+  await Promise.all(
+    tables.map((table) =>
+      command({
+        query: `DELETE FROM ${table} WHERE workspace_id = ${workspaceIdParam} AND user_id IN (${previousIds})`,
+        query_params: qb.getQueries(),
+      }),
+    ),
+  );
+}
+
 export async function computeState({
   workspaceId,
   segments,
@@ -2899,11 +4352,34 @@ export async function computeState({
       requestTimeout: config().clickhouseComputePropertiesRequestTimeout,
     });
 
+    await flattenUserAliases({ workspaceId, now });
+    // properties computed for the first time have no prior state to delete
+    const priorPeriods = Array.from(subQueriesWithPeriods.keys()).filter(
+      (period) => period > 0,
+    );
+    if (priorPeriods.length > 0) {
+      await deleteAliasedUsersState({
+        workspaceId,
+        since: Math.min(...priorPeriods),
+      });
+    }
+
     const queries = Array.from(subQueriesWithPeriods.entries()).flatMap(
       ([period, periodSubQueries]) => {
+        // users merged since the last period have their previous events
+        // re-processed, so that they're attributed to the canonical user
         const lowerBoundClause =
           period > 0
-            ? `and processing_time >= toDateTime64(${period / 1000}, 3)`
+            ? `and (
+                processing_time >= toDateTime64(${period / 1000}, 3)
+                or ue.user_or_anonymous_id in (
+                  select previous_id
+                  from user_aliases
+                  where
+                    workspace_id = ${workspaceIdClause}
+                    and aliased_at >= toDateTime64(${period / 1000}, 3)
+                )
+              )`
             : ``;
 
         return periodSubQueries.map(async (subQuery) => {
@@ -2935,15 +4411,27 @@ export async function computeState({
               '${subQuery.type}' as type,
               '${subQuery.computedPropertyId}' as computed_property_id,
               '${subQuery.stateId}' as state_id,
-              ue.user_or_anonymous_id,
+              if(
+                ua.canonical_id != '',
+                ua.canonical_id,
+                ue.user_or_anonymous_id
+              ) as resolved_user_id,
               argMaxState(${subQuery.argMaxValue ?? "''"} as last_value, ue.event_time),
               uniqState(${subQuery.uniqValue ?? "''"} as unique_value),
               ${subQuery.eventTimeExpression ?? "toDateTime64('0000-00-00 00:00:00', 3)"} as truncated_event_time,
               groupArrayState(${subQuery.recordMessageId ? "message_id" : "''"}  as grouped_message_id),
               toDateTime64(${nowSeconds}, 3) as computed_at
             from user_events_v2 ue
+            left any join (
+              select
+                previous_id,
+                argMax(user_id, aliased_at) as canonical_id
+              from user_aliases
+              where workspace_id = ${workspaceIdClause}
+              group by previous_id
+            ) ua on ue.user_or_anonymous_id = ua.previous_id
             where
-              workspace_id = ${workspaceIdClause}
+              ue.workspace_id = ${workspaceIdClause}
               and processing_time <= toDateTime64(${nowSeconds}, 3)
               and (${subQuery.condition})
               and (
@@ -2954,7 +4442,7 @@ export async function computeState({
               ${lowerBoundClause}
             group by
               ue.workspace_id,
-              ue.user_or_anonymous_id,
+              resolved_user_id,
               ue.event_time
           `;
 
@@ -2989,6 +4477,54 @@ export async function computeState({
   });
 }
 
+/**
+ * Group segments into levels which can be computed in order, such that each
+ * segment is computed after the segments it references. References to
+ * segments outside of the provided list are ignored.
+ */
+export function getSegmentComputeLevels(
+  segments: SavedSegmentResource[],
+): string[][] {
+  const remaining = new Map<string, Set<string>>();
+  for (const segment of segments) {
+    remaining.set(segment.id, getReferencedSegmentIds(segment.definition));
+  }
+  for (const references of remaining.values()) {
+    for (const referencedId of references) {
+      if (!remaining.has(referencedId)) {
+        references.delete(referencedId);
+      }
+    }
+  }
+
+  const levels: string[][] = [];
+  while (remaining.size) {
+    const level = Array.from(remaining.entries()).flatMap(
+      ([segmentId, references]) => (references.size ? [] : [segmentId]),
+    );
+    if (!level.length) {
+      logger().error(
+        {
+          segmentIds: Array.from(remaining.keys()),
+        },
+        "segment references form a cycle, computing remaining segments together",
+      );
+      levels.push(Array.from(remaining.keys()));
+      break;
+    }
+    for (const segmentId of level) {
+      remaining.delete(segmentId);
+    }
+    for (const references of remaining.values()) {
+      for (const segmentId of level) {
+        references.delete(segmentId);
+      }
+    }
+    levels.push(level);
+  }
+  return levels;
+}
+
 interface AssignmentQueryGroup {
   queries: (string | string[])[];
   qb: ClickHouseQueryBuilder;
@@ -3047,7 +4583,7 @@ export async function computeAssignments({
       workspaceId,
       step: ComputedPropertyStepEnum.ComputeAssignments,
     });
-    const segmentQueries: AssignmentQueryGroup[] = [];
+    const segmentQueries = new Map<string, AssignmentQueryGroup>();
     const userPropertyQueries: AssignmentQueryGroup[] = [];
 
     const idUserProperty = userProperties.find(
@@ -3232,7 +4768,7 @@ export async function computeAssignments({
           queries.unshift(indexQuery);
         }
 
-        segmentQueries.push({
+        segmentQueries.set(segment.id, {
           queries,
           qb,
         });
@@ -3311,11 +4847,25 @@ export async function computeAssignments({
       });
     }
 
-    await Promise.all(
-      [...segmentQueries, ...userPropertyQueries].map((group) =>
+    // segments which reference other segments are assigned after them
+    const computeSegmentLevels = async () => {
+      for (const level of getSegmentComputeLevels(segments)) {
+        await Promise.all(
+          level.flatMap((segmentId) => {
+            const group = segmentQueries.get(segmentId);
+            return group
+              ? [execAssignmentQueryGroup(group, clickhouseClient)]
+              : [];
+          }),
+        );
+      }
+    };
+    await Promise.all([
+      computeSegmentLevels(),
+      ...userPropertyQueries.map((group) =>
         execAssignmentQueryGroup(group, clickhouseClient),
       ),
-    );
+    ]);
 
     await createPeriods({
       workspaceId,
@@ -20,6 +20,7 @@ import {
   computeAssignments,
   ComputePropertiesArgs,
   computeState,
+  getSegmentComputeLevels,
   processAssignments,
 } from "../../computePropertiesIncremental";
 
@@ -399,11 +400,12 @@ async function computePropertiesGroup({
         priority: QUEUE_ITEM_PRIORITIES.Split,
       });
     }
-    for (const segment of args.segments) {
+    // enqueue segments after the segments they reference
+    for (const segmentId of getSegmentComputeLevels(args.segments).flat()) {
       individualItems.push({
         type: WorkspaceQueueItemType.Segment,
         workspaceId: params.workspaceId,
-        id: segment.id,
+        id: segmentId,
         priority: QUEUE_ITEM_PRIORITIES.Split,
       });
     }
@@ -90,6 +90,15 @@ const BaseRawConfigProps = {
   hubspotClientSecret: Type.Optional(Type.String()),
   readQueryPageSize: Type.Optional(Type.String({ format: "naturalNumber" })),
   readQueryConcurrency: Type.Optional(Type.String({ format: "naturalNumber" })),
+  auditLogRetentionDays: Type.Optional(
+    Type.String({ format: "naturalNumber" }),
+  ),
+  workspaceIngestionRateLimit: Type.Optional(
+    Type.String({ format: "naturalNumber" }),
+  ),
+  writeKeyIngestionRateLimit: Type.Optional(
+    Type.String({ format: "naturalNumber" }),
+  ),
   computePropertiesInterval: Type.Optional(
     Type.String({ format: "naturalNumber" }),
   ),
@@ -275,6 +284,9 @@ export type Config = Overwrite<
     prettyLogs: boolean;
     readQueryConcurrency: number;
     readQueryPageSize: number;
+    auditLogRetentionDays: number;
+    workspaceIngestionRateLimit?: number;
+    writeKeyIngestionRateLimit?: number;
     sessionCookieSecure: boolean;
     signoutRedirectUrl: string;
     jwtSecret?: string;
@@ -578,6 +590,16 @@ function parseRawConfig(rawConfig: RawConfig): Config {
     readQueryConcurrency: rawConfig.readQueryConcurrency
       ? parseInt(rawConfig.readQueryConcurrency)
       : 10,
+    auditLogRetentionDays: rawConfig.auditLogRetentionDays
+      ? parseInt(rawConfig.auditLogRetentionDays)
+      : 365,
+    // events per second, unlimited unless configured
+    workspaceIngestionRateLimit: rawConfig.workspaceIngestionRateLimit
+      ? parseInt(rawConfig.workspaceIngestionRateLimit)
+      : undefined,
+    writeKeyIngestionRateLimit: rawConfig.writeKeyIngestionRateLimit
+      ? parseInt(rawConfig.writeKeyIngestionRateLimit)
+      : undefined,
     // 2 minutes in ms
     computePropertiesInterval: rawConfig.computePropertiesInterval
       ? parseInt(rawConfig.computePropertiesInterval)
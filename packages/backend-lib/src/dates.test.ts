@@ -2,10 +2,18 @@ import { randomUUID } from "crypto";
 import { differenceInHours } from "date-fns";
 import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
 
-import { findNextLocalizedTimeInner, getUserPropertyDelay } from "./dates";
+import {
+  findNextLocalizedTimeInner,
+  findQuietHoursEndInner,
+  getUserPropertyDelay,
+} from "./dates";
 import { insert } from "./db";
 import { userProperty as dbUserProperty } from "./db/schema";
-import { UserPropertyDefinition, UserPropertyDefinitionType } from "./types";
+import {
+  ChannelType,
+  UserPropertyDefinition,
+  UserPropertyDefinitionType,
+} from "./types";
 import { insertUserPropertyAssignments } from "./userProperties";
 import { createWorkspace } from "./workspaces";
 
@@ -68,6 +76,75 @@ describe("findNextLocalizedTimeInner", () => {
   });
 });
 
+describe("findQuietHoursEndInner", () => {
+  // no sms between 9 pm and 8 am
+  const windows = [
+    {
+      channels: [ChannelType.Sms],
+      startHour: 21,
+      endHour: 8,
+    },
+  ];
+
+  describe("when it is 10 pm in los angeles", () => {
+    // 10 pm in los angeles time
+    const now = new Date("2023-12-20T06:00:00.000Z").getTime();
+
+    it("holds sms messages until 8 am local time", () => {
+      const result = findQuietHoursEndInner({
+        latLon: "33.8121,-117.9190",
+        now,
+        channel: ChannelType.Sms,
+        windows,
+      });
+      expect(result).toEqual(new Date("2023-12-20T16:00:00.000Z").getTime());
+    });
+
+    it("does not hold email messages", () => {
+      const result = findQuietHoursEndInner({
+        latLon: "33.8121,-117.9190",
+        now,
+        channel: ChannelType.Email,
+        windows,
+      });
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("when it is 10 pm in UTC but 2 pm in los angeles", () => {
+    it("does not hold sms messages", () => {
+      const now = new Date("2023-12-19T22:00:00.000Z").getTime();
+      const result = findQuietHoursEndInner({
+        latLon: "33.8121,-117.9190",
+        now,
+        channel: ChannelType.Sms,
+        windows,
+      });
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("when windows adjoin", () => {
+    it("holds messages until the last window ends", () => {
+      // slightly after 11 pm in UTC
+      const now = new Date("2023-12-19T23:00:12.123Z").getTime();
+      const result = findQuietHoursEndInner({
+        now,
+        channel: ChannelType.Sms,
+        windows: [
+          ...windows,
+          {
+            startHour: 8,
+            endHour: 9,
+            endMinute: 30,
+          },
+        ],
+      });
+      expect(result).toEqual(new Date("2023-12-20T09:30:00.000Z").getTime());
+    });
+  });
+});
+
 describe("getUserPropertyDelay", () => {
   const now = new Date("2024-01-01T12:00:00.000Z").getTime();
   let userId: string;
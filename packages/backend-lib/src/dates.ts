@@ -3,7 +3,12 @@ import { getTimezoneOffset, zonedTimeToUtc } from "date-fns-tz";
 import { find as findTz } from "geo-tz";
 
 import logger from "./logger";
-import { LocalTimeDelayVariantFields, UserWorkflowTrackEvent } from "./types";
+import {
+  ChannelType,
+  LocalTimeDelayVariantFields,
+  QuietHoursWindow,
+  UserWorkflowTrackEvent,
+} from "./types";
 import {
   findAllUserPropertyAssignments,
   findAllUserPropertyAssignmentsById,
@@ -83,6 +88,100 @@ export async function findNextLocalizedTime({
   });
 }
 
+const MINUTES_IN_DAY = 24 * 60;
+
+/**
+ * Returns the end of the quiet hours window which the current time falls
+ * within, in the user's local timezone. Returns null if the current time is
+ * outside of all of the windows which apply to the channel.
+ *
+ * Windows whose end precedes their start wrap around midnight, and adjoining
+ * or overlapping windows are treated as a single window.
+ */
+export function findQuietHoursEndInner({
+  latLon,
+  now,
+  channel,
+  windows,
+}: {
+  latLon?: string;
+  now: number;
+  channel: ChannelType;
+  windows: QuietHoursWindow[];
+}): number | null {
+  const timezone =
+    typeof latLon === "string" ? getTimezone({ latLon }) : DEFAULT_TIMEZONE;
+  const applicable = windows.filter(
+    (w) => !w.channels || w.channels.includes(channel),
+  );
+
+  let end = now;
+  // each window can extend the end at most once
+  const maxExtensions = applicable.length;
+  for (let i = 0; i < maxExtensions; i++) {
+    const offset = getTimezoneOffset(timezone, end);
+    const zoned = new Date(end + offset);
+    const minuteOfDay = zoned.getUTCHours() * 60 + zoned.getUTCMinutes();
+
+    let extendedBy: number | null = null;
+    for (const w of applicable) {
+      const start = w.startHour * 60 + (w.startMinute ?? 0);
+      const stop = w.endHour * 60 + (w.endMinute ?? 0);
+      if (start === stop) {
+        continue;
+      }
+      const inWindow =
+        start < stop
+          ? minuteOfDay >= start && minuteOfDay < stop
+          : minuteOfDay >= start || minuteOfDay < stop;
+      if (!inWindow) {
+        continue;
+      }
+      const remaining = (stop - minuteOfDay + MINUTES_IN_DAY) % MINUTES_IN_DAY;
+      extendedBy = Math.max(extendedBy ?? 0, remaining);
+    }
+    if (extendedBy === null) {
+      break;
+    }
+    const windowEnd = new Date(zoned);
+    windowEnd.setUTCSeconds(0, 0);
+    end = windowEnd.getTime() + extendedBy * 60 * 1000 - offset;
+  }
+  return end > now ? end : null;
+}
+
+export async function findQuietHoursEnd({
+  workspaceId,
+  userId,
+  now,
+  channel,
+  windows,
+}: {
+  workspaceId: string;
+  userId: string;
+  now: number;
+  channel: ChannelType;
+  windows: QuietHoursWindow[];
+}): Promise<number | null> {
+  const applies = windows.some(
+    (w) => !w.channels || w.channels.includes(channel),
+  );
+  if (!applies) {
+    return null;
+  }
+  const { latLon } = await findAllUserPropertyAssignments({
+    workspaceId,
+    userId,
+    userProperties: ["latLon"],
+  });
+  return findQuietHoursEndInner({
+    latLon: typeof latLon === "string" ? latLon : undefined,
+    now,
+    channel,
+    windows,
+  });
+}
+
 /**
  * Returns the delay in milliseconds to wait for a user property delay.
  * Returns null if the user property is not a date.
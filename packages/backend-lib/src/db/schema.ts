@@ -88,6 +88,12 @@ export const workspaceType = pgEnum("WorkspaceType", [
   "Child",
   "Parent",
 ]);
+export const dbFailedMessageStatus = pgEnum("DBFailedMessageStatus", [
+  "Failed",
+  "Replaying",
+  "Replayed",
+  "ReplayFailed",
+]);
 
 export const workspace = pgTable(
   "Workspace",
@@ -1107,6 +1113,8 @@ export const workspaceQuota = pgTable(
     maxTemplates: integer().default(100).notNull(),
     maxStorageBytes: integer().default(10737418240).notNull(), // 10GB default
     maxMessagesPerMonth: integer().default(100000).notNull(),
+    maxEventsPerMonth: integer().default(1000000).notNull(),
+    maxEventSizeBytes: integer().default(65536).notNull(), // 64KB default
     createdAt: timestamp({ precision: 3, mode: "date" }).defaultNow().notNull(),
     updatedAt: timestamp({ precision: 3, mode: "date" })
       .defaultNow()
@@ -1157,9 +1165,7 @@ export const tenantMetrics = pgTable(
       table.workspaceId,
       table.timestamp,
     ),
-    index("idx_tenant_metrics_timestamp").on(
-      table.timestamp,
-    ),
+    index("idx_tenant_metrics_timestamp").on(table.timestamp),
     foreignKey({
       columns: [table.workspaceId],
       foreignColumns: [workspace.id],
@@ -1169,3 +1175,81 @@ export const tenantMetrics = pgTable(
       .onDelete("cascade"),
   ],
 );
+
+export const failedMessage = pgTable(
+  "FailedMessage",
+  {
+    id: uuid().primaryKey().defaultRandom().notNull(),
+    workspaceId: uuid().notNull(),
+    messageId: text().notNull(),
+    userId: text().notNull(),
+    channel: dbChannelType().notNull(),
+    templateId: uuid().notNull(),
+    journeyId: uuid(),
+    broadcastId: uuid(),
+    // parameters of the failed send, without the user's properties, which are
+    // re-read when the message is replayed
+    sendParams: jsonb().notNull(),
+    error: jsonb().notNull(),
+    status: dbFailedMessageStatus().default("Failed").notNull(),
+    replayCount: integer().default(0).notNull(),
+    lastReplayMessageId: text(),
+    lastReplayedAt: timestamp({ precision: 3, mode: "date" }),
+    createdAt: timestamp({ precision: 3, mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp({ precision: 3, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("FailedMessage_workspaceId_messageId_key").using(
+      "btree",
+      table.workspaceId.asc().nullsLast().op("uuid_ops"),
+      table.messageId.asc().nullsLast().op("text_ops"),
+    ),
+    index("FailedMessage_workspaceId_status_createdAt_idx").on(
+      table.workspaceId,
+      table.status,
+      table.createdAt,
+    ),
+    foreignKey({
+      columns: [table.workspaceId],
+      foreignColumns: [workspace.id],
+      name: "FailedMessage_workspaceId_fkey",
+    })
+      .onUpdate("cascade")
+      .onDelete("cascade"),
+  ],
+);
+
+export const messageIdempotencyKey = pgTable(
+  "MessageIdempotencyKey",
+  {
+    id: uuid().primaryKey().defaultRandom().notNull(),
+    workspaceId: uuid().notNull(),
+    key: text().notNull(),
+    messageId: text().notNull(),
+    // the result of the send, which is null while the send is in flight
+    result: jsonb(),
+    createdAt: timestamp({ precision: 3, mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp({ precision: 3, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("MessageIdempotencyKey_workspaceId_key_key").using(
+      "btree",
+      table.workspaceId.asc().nullsLast().op("uuid_ops"),
+      table.key.asc().nullsLast().op("text_ops"),
+    ),
+    index("MessageIdempotencyKey_createdAt_idx").on(table.createdAt),
+    foreignKey({
+      columns: [table.workspaceId],
+      foreignColumns: [workspace.id],
+      name: "MessageIdempotencyKey_workspaceId_fkey",
+    })
+      .onUpdate("cascade")
+      .onDelete("cascade"),
+  ],
+);
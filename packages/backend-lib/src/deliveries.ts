@@ -612,3 +612,59 @@ export async function buildDeliveriesFile(
     fileContent,
   };
 }
+
+/**
+ * Returns the send times, in unix milliseconds, of the most recent messages
+ * sent to a user on a given channel, sorted from newest to oldest.
+ */
+export async function getRecentDeliveryTimes({
+  workspaceId,
+  userId,
+  channel,
+  journeyId,
+  since,
+  limit,
+}: {
+  workspaceId: string;
+  userId: string;
+  channel: ChannelType;
+  journeyId?: string;
+  since: number;
+  limit: number;
+}): Promise<number[]> {
+  const qb = new ClickHouseQueryBuilder();
+  const journeyClause = journeyId
+    ? `AND JSONExtractString(properties, 'journeyId') = ${qb.addQueryValue(
+        journeyId,
+        "String",
+      )}`
+    : "";
+  const query = `
+    SELECT
+      toUnixTimestamp64Milli(processing_time) AS sent_at
+    FROM user_events_v2
+    WHERE
+      event = '${InternalEventType.MessageSent}'
+      AND workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+      AND event_type = 'track'
+      AND user_or_anonymous_id = ${qb.addQueryValue(userId, "String")}
+      AND JSON_VALUE(properties, '$.variant.type') = ${qb.addQueryValue(
+        channel,
+        "String",
+      )}
+      AND processing_time >= toDateTime64(${qb.addQueryValue(
+        since / 1000,
+        "Float64",
+      )}, 3)
+      ${journeyClause}
+    ORDER BY processing_time DESC
+    LIMIT ${qb.addQueryValue(limit, "UInt64")}
+  `;
+  const result = await chQuery({
+    query,
+    query_params: qb.getQueries(),
+    format: "JSONEachRow",
+  });
+  const rows = await result.json<{ sent_at: string | number }>();
+  return rows.map((row) => Number(row.sent_at));
+}
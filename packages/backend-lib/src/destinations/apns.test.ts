@@ -0,0 +1,72 @@
+import { ApnsInterruptionLevel } from "../types";
+import { buildApnsPayload, isInvalidDeviceToken } from "./apns";
+
+describe("apns", () => {
+  describe("buildApnsPayload", () => {
+    it("includes the apns specific template options", () => {
+      expect(
+        buildApnsPayload({
+          title: "Hello",
+          body: "World",
+          apns: {
+            badge: 2,
+            sound: "default",
+            threadId: "thread-1",
+            interruptionLevel: ApnsInterruptionLevel.TimeSensitive,
+            collapseId: "collapse-1",
+          },
+        }),
+      ).toEqual({
+        aps: {
+          alert: {
+            title: "Hello",
+            body: "World",
+          },
+          badge: 2,
+          sound: "default",
+          "thread-id": "thread-1",
+          "interruption-level": "time-sensitive",
+        },
+      });
+    });
+
+    it("marks notifications with images as mutable", () => {
+      const payload = buildApnsPayload({
+        title: "Hello",
+        imageUrl: "https://example.com/image.png",
+      });
+      expect(payload.aps["mutable-content"]).toEqual(1);
+      expect(payload.imageUrl).toEqual("https://example.com/image.png");
+    });
+  });
+
+  describe("isInvalidDeviceToken", () => {
+    it("is true for rejected device tokens", () => {
+      expect(
+        isInvalidDeviceToken({
+          statusCode: 400,
+          reason: "BadDeviceToken",
+          message: "BadDeviceToken",
+        }),
+      ).toBe(true);
+      expect(
+        isInvalidDeviceToken({
+          statusCode: 410,
+          reason: "Unregistered",
+          message: "Unregistered",
+        }),
+      ).toBe(true);
+    });
+
+    it("is false for other failures", () => {
+      expect(
+        isInvalidDeviceToken({
+          statusCode: 429,
+          reason: "TooManyRequests",
+          message: "TooManyRequests",
+        }),
+      ).toBe(false);
+      expect(isInvalidDeviceToken({ message: "network error" })).toBe(false);
+    });
+  });
+});
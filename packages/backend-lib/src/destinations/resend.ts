@@ -29,33 +29,68 @@ function guardResponseError(payload: unknown): ErrorResponse {
 export type ResendRequiredData = Parameters<Resend["emails"]["send"]>["0"];
 export type ResendResponse = Awaited<ReturnType<Resend["emails"]["send"]>>;
 
-/* 
- Resend's client does not throw an error and instead returns a nullish error 
- object that's why we wrap it out in our wrapper function
+const RESEND_EMAILS_URL = "https://api.resend.com/emails";
+
+/*
+ Emails are sent with resend's api directly, rather than with its client,
+ because this version of its client doesn't accept an idempotency key. Resend
+ returns errors in its response body rather than throwing them, which is why
+ we throw them in our wrapper function.
  */
 const sendMailWrapper = async (
   apiKey: string,
   mailData: ResendRequiredData,
-) => {
-  const resend = new Resend(apiKey);
-  const response = await resend.emails.send(mailData);
-  if (response.error) {
-    throw new Error(response.error.message, {
-      cause: response.error.name,
+  idempotencyKey?: string,
+): Promise<ResendResponse> => {
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${apiKey}`,
+    "Content-Type": "application/json",
+  };
+  if (idempotencyKey) {
+    // resend de-duplicates sends with the same key
+    headers["Idempotency-Key"] = idempotencyKey;
+  }
+  let response: Response;
+  try {
+    response = await fetch(RESEND_EMAILS_URL, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(mailData),
     });
+  } catch (e) {
+    // the connection error's code, e.g. ECONNREFUSED, is used as the error's
+    // name, so that failover can tell whether the request reached resend
+    const { cause } = e as { cause?: { code?: unknown } };
+    throw new Error(e instanceof Error ? e.message : String(e), {
+      cause: typeof cause?.code === "string" ? cause.code : "network_error",
+    });
+  }
+  if (!response.ok) {
+    const error = (await response
+      .json()
+      .catch(() => null)) as Partial<ErrorResponse> | null;
+    throw new Error(
+      error?.message ?? `resend responded with status ${response.status}`,
+      {
+        cause: error?.name ?? "application_error",
+      },
+    );
   }
-  return response;
+  const data = (await response.json()) as NonNullable<ResendResponse["data"]>;
+  return { data, error: null };
 };
 
 export async function sendMail({
   apiKey,
   mailData,
+  idempotencyKey,
 }: {
   apiKey: string;
   mailData: ResendRequiredData;
+  idempotencyKey?: string;
 }): Promise<ResultAsync<ResendResponse, ErrorResponse>> {
   return ResultAsync.fromPromise(
-    sendMailWrapper(apiKey, mailData),
+    sendMailWrapper(apiKey, mailData, idempotencyKey),
     guardResponseError,
   ).map((resultArray) => resultArray);
 }
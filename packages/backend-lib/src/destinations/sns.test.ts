@@ -0,0 +1,45 @@
+import { buildPublishInput } from "./sns";
+
+describe("sns", () => {
+  describe("buildPublishInput", () => {
+    it("sends transactional messages with the configured sender", () => {
+      expect(
+        buildPublishInput({
+          to: "+15555555555",
+          body: "Hello",
+          senderId: "Dittofeed",
+          originationNumber: "+15555555556",
+        }),
+      ).toEqual({
+        PhoneNumber: "+15555555555",
+        Message: "Hello",
+        MessageAttributes: {
+          "AWS.SNS.SMS.SMSType": {
+            DataType: "String",
+            StringValue: "Transactional",
+          },
+          "AWS.SNS.SMS.SenderID": {
+            DataType: "String",
+            StringValue: "Dittofeed",
+          },
+          "AWS.MM.SMS.OriginationNumber": {
+            DataType: "String",
+            StringValue: "+15555555556",
+          },
+        },
+      });
+    });
+
+    it("omits the sender when none is configured", () => {
+      expect(
+        buildPublishInput({ to: "+15555555555", body: "Hello" })
+          .MessageAttributes,
+      ).toEqual({
+        "AWS.SNS.SMS.SMSType": {
+          DataType: "String",
+          StringValue: "Transactional",
+        },
+      });
+    });
+  });
+});
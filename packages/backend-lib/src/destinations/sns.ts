@@ -0,0 +1,212 @@
+import {
+  MessageAttributeValue,
+  PublishCommand,
+  PublishCommandInput,
+  SNSClient,
+} from "@aws-sdk/client-sns";
+import { SourceType } from "isomorphic-lib/src/constants";
+import { jsonParseSafe } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import { err, ok, Result } from "neverthrow";
+import * as R from "remeda";
+import { v5 as uuidv5 } from "uuid";
+
+import { submitBatch } from "../apps/batch";
+import { ClickHouseQueryBuilder, query as chQuery } from "../clickhouse";
+import { MESSAGE_METADATA_FIELDS } from "../constants";
+import logger from "../logger";
+import {
+  AmazonSnsSmsDeliveryStatus,
+  AmazonSnsSmsDeliveryStatusType,
+  BatchTrackData,
+  EventType,
+  InternalEventType,
+  SmsProviderType,
+} from "../types";
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export function buildPublishInput({
+  to,
+  body,
+  senderId,
+  originationNumber,
+}: {
+  to: string;
+  body: string;
+  senderId?: string;
+  originationNumber?: string;
+}): PublishCommandInput {
+  const attributes: Record<string, MessageAttributeValue> = {
+    "AWS.SNS.SMS.SMSType": {
+      DataType: "String",
+      StringValue: "Transactional",
+    },
+  };
+  if (senderId) {
+    attributes["AWS.SNS.SMS.SenderID"] = {
+      DataType: "String",
+      StringValue: senderId,
+    };
+  }
+  if (originationNumber) {
+    attributes["AWS.MM.SMS.OriginationNumber"] = {
+      DataType: "String",
+      StringValue: originationNumber,
+    };
+  }
+  return {
+    PhoneNumber: to,
+    Message: body,
+    MessageAttributes: attributes,
+  };
+}
+
+export async function sendSms({
+  credentials,
+  to,
+  body,
+  senderId,
+  originationNumber,
+}: {
+  credentials: AwsCredentials;
+  to: string;
+  body: string;
+  senderId?: string;
+  originationNumber?: string;
+}): Promise<Result<{ messageId: string }, Error>> {
+  const { accessKeyId, secretAccessKey, region } = credentials;
+  const client = new SNSClient({
+    region,
+    credentials: {
+      accessKeyId,
+      secretAccessKey,
+    },
+  });
+
+  try {
+    const response = await client.send(
+      new PublishCommand(
+        buildPublishInput({ to, body, senderId, originationNumber }),
+      ),
+    );
+    if (!response.MessageId) {
+      return err(new Error("SNS response did not include a message id"));
+    }
+    return ok({ messageId: response.MessageId });
+  } catch (e) {
+    return err(e instanceof Error ? e : new Error(String(e)));
+  }
+}
+
+interface SentSnsSms {
+  message_id: string;
+  user_or_anonymous_id: string;
+  properties: string;
+}
+
+/**
+ * SNS delivery statuses only identify messages by the id SNS assigned them,
+ * so the original send is looked up to attribute the status to a user.
+ */
+async function findSentSnsSms({
+  workspaceId,
+  snsMessageId,
+}: {
+  workspaceId: string;
+  snsMessageId: string;
+}): Promise<SentSnsSms | null> {
+  const qb = new ClickHouseQueryBuilder();
+  const query = `
+    SELECT
+      message_id,
+      user_or_anonymous_id,
+      properties
+    FROM user_events_v2
+    WHERE
+      event = '${InternalEventType.MessageSent}'
+      AND workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+      AND event_type = 'track'
+      AND JSONExtractString(properties, 'variant', 'provider', 'type') = '${SmsProviderType.Sns}'
+      AND JSONExtractString(properties, 'variant', 'provider', 'messageId') = ${qb.addQueryValue(
+        snsMessageId,
+        "String",
+      )}
+    LIMIT 1
+  `;
+  const result = await chQuery({
+    query,
+    query_params: qb.getQueries(),
+  });
+  const [row] = await result.json<SentSnsSms>();
+  return row ?? null;
+}
+
+export async function submitSnsSmsEvents({
+  workspaceId,
+  status,
+}: {
+  workspaceId: string;
+  status: AmazonSnsSmsDeliveryStatus;
+}): Promise<Result<void, Error>> {
+  const snsMessageId = status.notification.messageId;
+  let sent: SentSnsSms | null;
+  try {
+    sent = await findSentSnsSms({ workspaceId, snsMessageId });
+  } catch (e) {
+    return err(e instanceof Error ? e : new Error(String(e)));
+  }
+  if (!sent) {
+    // delivery statuses are logged for every message published by the aws
+    // account, including those which weren't sent by us, so are ignored
+    // rather than retried
+    logger().info(
+      {
+        workspaceId,
+        snsMessageId,
+      },
+      "Unable to find sent message for SNS delivery status",
+    );
+    return ok(undefined);
+  }
+  const sentProperties: Record<string, unknown> = jsonParseSafe(sent.properties)
+    .map((p) => (R.isPlainObject(p) ? p : {}))
+    .unwrapOr({});
+
+  const item: BatchTrackData = {
+    type: EventType.Track,
+    event:
+      status.status === AmazonSnsSmsDeliveryStatusType.Success
+        ? InternalEventType.SmsDelivered
+        : InternalEventType.SmsFailed,
+    userId: sent.user_or_anonymous_id,
+    messageId: uuidv5(`${snsMessageId}:${status.status}`, workspaceId),
+    timestamp: new Date().toISOString(),
+    properties: {
+      ...R.pick(sentProperties, MESSAGE_METADATA_FIELDS),
+      workspaceId,
+      userId: sent.user_or_anonymous_id,
+      messageId: sent.message_id,
+      providerResponse: status.delivery.providerResponse,
+    },
+  };
+
+  try {
+    await submitBatch({
+      workspaceId,
+      data: {
+        context: {
+          source: SourceType.Webhook,
+          provider: SmsProviderType.Sns,
+        },
+        batch: [item],
+      },
+    });
+  } catch (e) {
+    return err(e instanceof Error ? e : new Error(String(e)));
+  }
+  return ok(undefined);
+}
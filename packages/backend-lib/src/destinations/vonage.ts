@@ -0,0 +1,233 @@
+import axios, { AxiosError } from "axios";
+import crypto from "crypto";
+import { SourceType } from "isomorphic-lib/src/constants";
+import { err, ok, Result } from "neverthrow";
+import qs from "querystring";
+import * as R from "remeda";
+import { v5 as uuidv5 } from "uuid";
+
+import { submitBatch } from "../apps/batch";
+import config from "../config";
+import { generateDigest } from "../crypto";
+import logger from "../logger";
+import {
+  BatchTrackData,
+  EventType,
+  InternalEventType,
+  MessageTags,
+  SmsProviderType,
+  VonageCallbackParams,
+  VonageDeliveryReceipt,
+  VonageMessageStatus,
+  VonageWebhookRequest,
+} from "../types";
+
+const VONAGE_SMS_URL = "https://rest.nexmo.com/sms/json";
+
+const CALLBACK_PARAMS = [
+  "workspaceId",
+  "userId",
+  "subscriptionGroupId",
+  "messageId",
+  "journeyId",
+  "templateId",
+  "nodeId",
+  "runId",
+] as const;
+
+interface VonageSmsResponse {
+  messages: {
+    status: string;
+    "message-id"?: string;
+    "error-text"?: string;
+  }[];
+}
+
+function getCallbackSignature({
+  apiSecret,
+  params,
+}: {
+  apiSecret: string;
+  params: Partial<VonageCallbackParams>;
+}): string {
+  const signed = R.pipe(
+    CALLBACK_PARAMS,
+    R.filter((key) => params[key] !== undefined),
+    R.map((key) => `${key}=${params[key] ?? ""}`),
+    R.join("&"),
+  );
+  return generateDigest({ sharedSecret: apiSecret, rawBody: signed });
+}
+
+/**
+ * Checks that the parameters of a delivery receipt's callback url were signed
+ * by us when the message was sent.
+ */
+export function verifyVonageCallback({
+  apiSecret,
+  query,
+}: {
+  apiSecret: string;
+  query: VonageWebhookRequest;
+}): boolean {
+  const expected = getCallbackSignature({
+    apiSecret,
+    params: R.pick(query, CALLBACK_PARAMS),
+  });
+  const actual = query.signature;
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(
+      new Uint8Array(Buffer.from(actual)),
+      new Uint8Array(Buffer.from(expected)),
+    )
+  );
+}
+
+export async function sendSms({
+  apiKey,
+  apiSecret,
+  from,
+  to,
+  body,
+  subscriptionGroupId,
+  userId,
+  workspaceId,
+  disableCallback = false,
+  tags,
+}: {
+  apiKey: string;
+  apiSecret: string;
+  from: string;
+  to: string;
+  body: string;
+  subscriptionGroupId: string | undefined;
+  userId: string;
+  workspaceId: string;
+  disableCallback?: boolean;
+  tags?: MessageTags;
+}): Promise<Result<{ messageId: string }, Error>> {
+  let callback: string | undefined;
+  if (!disableCallback) {
+    const params: Partial<VonageCallbackParams> = R.omitBy(
+      {
+        messageId: tags?.messageId,
+        journeyId: tags?.journeyId,
+        templateId: tags?.templateId,
+        nodeId: tags?.nodeId,
+        runId: tags?.runId,
+        subscriptionGroupId,
+        userId,
+        workspaceId,
+      },
+      (value) => value === undefined,
+    );
+    const queryParams = qs.stringify({
+      ...params,
+      signature: getCallbackSignature({ apiSecret, params }),
+    });
+    callback = `${config().dashboardUrl}/api/public/webhooks/vonage?${queryParams}`;
+  }
+
+  try {
+    logger().debug(
+      {
+        workspaceId,
+        userId,
+        from,
+        to,
+      },
+      "Sending Vonage SMS",
+    );
+    const response = await axios.post<VonageSmsResponse>(VONAGE_SMS_URL, {
+      api_key: apiKey,
+      api_secret: apiSecret,
+      from,
+      // vonage expects numbers without a leading +
+      to: to.replace(/^\+/, ""),
+      text: body,
+      callback,
+      "status-report-req": callback ? 1 : 0,
+    });
+    const [message] = response.data.messages;
+    if (!message) {
+      return err(new Error("Vonage response did not include a message"));
+    }
+    // a status of 0 indicates success, other statuses indicate the message was
+    // not accepted
+    if (message.status !== "0" || !message["message-id"]) {
+      return err(
+        new Error(
+          message["error-text"] ??
+            `Vonage rejected message with status ${message.status}`,
+        ),
+      );
+    }
+    return ok({ messageId: message["message-id"] });
+  } catch (e) {
+    const { message } = e as AxiosError;
+    return err(new Error(message));
+  }
+}
+
+export async function submitVonageEvents({
+  workspaceId,
+  userId,
+  receipt,
+  ...tags
+}: {
+  receipt: VonageDeliveryReceipt;
+} & VonageCallbackParams): Promise<Result<void, Error>> {
+  let eventName: InternalEventType;
+  switch (receipt.status) {
+    case VonageMessageStatus.Delivered:
+      eventName = InternalEventType.SmsDelivered;
+      break;
+    case VonageMessageStatus.Failed:
+    case VonageMessageStatus.Rejected:
+    case VonageMessageStatus.Expired:
+      eventName = InternalEventType.SmsFailed;
+      break;
+    default:
+      // intermediate statuses, which will be followed by a final receipt
+      logger().debug(
+        {
+          workspaceId,
+          userId,
+          status: receipt.status,
+        },
+        "Ignoring Vonage delivery receipt",
+      );
+      return ok(undefined);
+  }
+
+  const item: BatchTrackData = {
+    type: EventType.Track,
+    event: eventName,
+    userId,
+    messageId: uuidv5(`${receipt.messageId}:${receipt.status}`, workspaceId),
+    timestamp: new Date().toISOString(),
+    properties: {
+      workspaceId,
+      userId,
+      errorCode: receipt["err-code"],
+      ...tags,
+    },
+  };
+
+  try {
+    await submitBatch({
+      workspaceId,
+      data: {
+        context: {
+          source: SourceType.Webhook,
+          provider: SmsProviderType.Vonage,
+        },
+        batch: [item],
+      },
+    });
+  } catch (e) {
+    return err(e instanceof Error ? e : new Error(String(e)));
+  }
+  return ok(undefined);
+}
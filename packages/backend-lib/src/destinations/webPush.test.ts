@@ -0,0 +1,114 @@
+import crypto from "crypto";
+
+import {
+  encryptPayload,
+  generateVapidKeys,
+  getVapidAuthorization,
+  isSubscriptionGone,
+} from "./webPush";
+
+// test vectors from appendix A of RFC 8291
+const RFC_8291_VECTORS = {
+  plaintext: "When I grow up, I want to be a watermelon",
+  applicationServerPrivateKey: "yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw",
+  userAgentPublicKey:
+    "BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4",
+  authSecret: "BTBZMqHH6r4Tts7J_aSIgg",
+  salt: "DGv6ra1nlYgDCS1FRnbzlw",
+  header:
+    "DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A8",
+  ciphertext:
+    "8pfeW0KbunFT06SuDKoJH9Ql87S1QUrdirN6GcG7sFz1y1sqLgVi1VhjVkHsUoEsbI_0LpXMuGvnzQ",
+};
+
+describe("webPush", () => {
+  describe("encryptPayload", () => {
+    it("matches the RFC 8291 test vectors", () => {
+      const encrypted = encryptPayload({
+        subscription: {
+          keys: {
+            p256dh: RFC_8291_VECTORS.userAgentPublicKey,
+            auth: RFC_8291_VECTORS.authSecret,
+          },
+        },
+        payload: RFC_8291_VECTORS.plaintext,
+        salt: Buffer.from(RFC_8291_VECTORS.salt, "base64url"),
+        serverPrivateKey: Buffer.from(
+          RFC_8291_VECTORS.applicationServerPrivateKey,
+          "base64url",
+        ),
+      });
+
+      expect(encrypted.subarray(0, 86).toString("base64url")).toEqual(
+        RFC_8291_VECTORS.header,
+      );
+      expect(encrypted.subarray(86).toString("base64url")).toEqual(
+        RFC_8291_VECTORS.ciphertext,
+      );
+    });
+  });
+
+  describe("getVapidAuthorization", () => {
+    it("produces a token signed by the vapid key for the push service's origin", () => {
+      const keys = generateVapidKeys();
+      const now = Date.now();
+      const authorization = getVapidAuthorization({
+        endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+        vapid: {
+          ...keys,
+          subject: "mailto:support@dittofeed.com",
+        },
+        now,
+      });
+
+      const match = /^vapid t=(.+)\.(.+)\.(.+), k=(.+)$/.exec(authorization);
+      expect(match).not.toBeNull();
+      const [, header = "", claims = "", signature = "", publicKey = ""] =
+        match ?? [];
+      expect(publicKey).toEqual(keys.publicKey);
+      expect(JSON.parse(Buffer.from(claims, "base64url").toString())).toEqual({
+        aud: "https://fcm.googleapis.com",
+        exp: Math.floor(now / 1000) + 12 * 60 * 60,
+        sub: "mailto:support@dittofeed.com",
+      });
+
+      const rawPublicKey = Buffer.from(keys.publicKey, "base64url");
+      const verified = crypto.verify(
+        "sha256",
+        new Uint8Array(Buffer.from(`${header}.${claims}`)),
+        {
+          key: crypto.createPublicKey({
+            key: {
+              kty: "EC",
+              crv: "P-256",
+              x: rawPublicKey.subarray(1, 33).toString("base64url"),
+              y: rawPublicKey.subarray(33, 65).toString("base64url"),
+            },
+            format: "jwk",
+          }),
+          dsaEncoding: "ieee-p1363",
+        },
+        new Uint8Array(Buffer.from(signature, "base64url")),
+      );
+      expect(verified).toBe(true);
+    });
+  });
+
+  describe("isSubscriptionGone", () => {
+    it("is true for expired subscriptions", () => {
+      expect(isSubscriptionGone({ statusCode: 410, message: "Gone" })).toBe(
+        true,
+      );
+      expect(
+        isSubscriptionGone({ statusCode: 404, message: "Not Found" }),
+      ).toBe(true);
+    });
+
+    it("is false for other failures", () => {
+      expect(
+        isSubscriptionGone({ statusCode: 429, message: "Too Many Requests" }),
+      ).toBe(false);
+      expect(isSubscriptionGone({ message: "network error" })).toBe(false);
+    });
+  });
+});
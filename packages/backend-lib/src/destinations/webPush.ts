@@ -0,0 +1,230 @@
+import axios, { AxiosError } from "axios";
+import crypto from "crypto";
+import { err, ok, Result } from "neverthrow";
+
+import { WebPushSubscription } from "../types";
+
+// record size advertised in the aes128gcm content coding header, our payloads
+// always fit in a single record
+const RECORD_SIZE = 4096;
+
+// VAPID tokens may be valid for at most 24 hours
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+const DEFAULT_TTL_SECONDS = 4 * 7 * 24 * 60 * 60;
+
+export interface VapidDetails {
+  // base64url encoded, uncompressed P-256 public key
+  publicKey: string;
+  // base64url encoded, raw P-256 private key
+  privateKey: string;
+  // contact for the push service, either a mailto: or https: url
+  subject: string;
+}
+
+export interface WebPushError {
+  statusCode?: number;
+  message: string;
+}
+
+/**
+ * Whether the push service indicated that the subscription has expired or
+ * been revoked, in which case it should not be used again.
+ */
+export function isSubscriptionGone(error: WebPushError): boolean {
+  return error.statusCode === 404 || error.statusCode === 410;
+}
+
+export function generateVapidKeys(): Pick<
+  VapidDetails,
+  "publicKey" | "privateKey"
+> {
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString("base64url"),
+    privateKey: ecdh.getPrivateKey().toString("base64url"),
+  };
+}
+
+// Buffers are converted to Uint8Arrays to satisfy the typings of the crypto
+// module
+function toBytes(buffer: Buffer): Uint8Array {
+  return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length);
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  return toBytes(Buffer.concat(parts));
+}
+
+function hkdf(
+  salt: Uint8Array,
+  ikm: Uint8Array,
+  info: string | Uint8Array,
+  length: number,
+): Uint8Array {
+  return new Uint8Array(crypto.hkdfSync("sha256", ikm, salt, info, length));
+}
+
+/**
+ * Encrypts a payload for a subscription with the aes128gcm content coding,
+ * as described in RFC 8291. The salt and the server's ephemeral private key
+ * are randomly generated unless provided, which is only useful for testing.
+ */
+export function encryptPayload({
+  subscription,
+  payload,
+  salt: providedSalt,
+  serverPrivateKey,
+}: {
+  subscription: Pick<WebPushSubscription, "keys">;
+  payload: string;
+  salt?: Buffer;
+  serverPrivateKey?: Buffer;
+}): Buffer {
+  const userAgentPublicKey = toBytes(
+    Buffer.from(subscription.keys.p256dh, "base64url"),
+  );
+  const authSecret = toBytes(Buffer.from(subscription.keys.auth, "base64url"));
+
+  const ecdh = crypto.createECDH("prime256v1");
+  if (serverPrivateKey) {
+    ecdh.setPrivateKey(toBytes(serverPrivateKey));
+  } else {
+    ecdh.generateKeys();
+  }
+  const serverPublicKey = toBytes(ecdh.getPublicKey());
+  const sharedSecret = toBytes(ecdh.computeSecret(userAgentPublicKey));
+  const salt = toBytes(providedSalt ?? crypto.randomBytes(16));
+
+  const ikm = hkdf(
+    authSecret,
+    sharedSecret,
+    concatBytes(
+      toBytes(Buffer.from("WebPush: info\0")),
+      userAgentPublicKey,
+      serverPublicKey,
+    ),
+    32,
+  );
+  const contentEncryptionKey = hkdf(
+    salt,
+    ikm,
+    "Content-Encoding: aes128gcm\0",
+    16,
+  );
+  const nonce = hkdf(salt, ikm, "Content-Encoding: nonce\0", 12);
+
+  const cipher = crypto.createCipheriv(
+    "aes-128-gcm",
+    contentEncryptionKey,
+    nonce,
+  );
+  // a trailing 0x02 delimiter marks the final record
+  const encrypted = concatBytes(
+    toBytes(
+      cipher.update(
+        concatBytes(toBytes(Buffer.from(payload)), new Uint8Array([2])),
+      ),
+    ),
+    toBytes(cipher.final()),
+    toBytes(cipher.getAuthTag()),
+  );
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  header.set(salt, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([toBytes(header), serverPublicKey, encrypted]);
+}
+
+export function getVapidAuthorization({
+  endpoint,
+  vapid,
+  now,
+}: {
+  endpoint: string;
+  vapid: VapidDetails;
+  now: number;
+}): string {
+  const publicKey = Buffer.from(vapid.publicKey, "base64url");
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  const header = Buffer.from(
+    JSON.stringify({ typ: "JWT", alg: "ES256" }),
+  ).toString("base64url");
+  const claims = Buffer.from(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now / 1000) + VAPID_TOKEN_TTL_SECONDS,
+      sub: vapid.subject,
+    }),
+  ).toString("base64url");
+  const unsigned = `${header}.${claims}`;
+  const signature = crypto
+    .sign("sha256", toBytes(Buffer.from(unsigned)), {
+      key: privateKey,
+      dsaEncoding: "ieee-p1363",
+    })
+    .toString("base64url");
+  return `vapid t=${unsigned}.${signature}, k=${vapid.publicKey}`;
+}
+
+export async function sendWebPushNotification({
+  subscription,
+  payload,
+  vapid,
+  ttlSeconds = DEFAULT_TTL_SECONDS,
+}: {
+  subscription: WebPushSubscription;
+  payload: string;
+  vapid: VapidDetails;
+  ttlSeconds?: number;
+}): Promise<Result<{ statusCode: number }, WebPushError>> {
+  let body: Buffer;
+  let authorization: string;
+  try {
+    body = encryptPayload({ subscription, payload });
+    authorization = getVapidAuthorization({
+      endpoint: subscription.endpoint,
+      vapid,
+      now: Date.now(),
+    });
+  } catch (e) {
+    // malformed keys, either in the subscription or the vapid details
+    return err({
+      message: (e as Error).message,
+    });
+  }
+
+  try {
+    const response = await axios.post(subscription.endpoint, body, {
+      headers: {
+        Authorization: authorization,
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        TTL: String(ttlSeconds),
+      },
+      responseType: "text",
+    });
+    return ok({ statusCode: response.status });
+  } catch (e) {
+    const { response, message } = e as AxiosError;
+    return err({
+      statusCode: response?.status,
+      message:
+        typeof response?.data === "string" && response.data.length > 0
+          ? response.data
+          : message,
+    });
+  }
+}
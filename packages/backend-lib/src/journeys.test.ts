@@ -15,6 +15,7 @@ import { recordNodeProcessed } from "./journeys/recordNodeProcessed";
 import {
   ChannelType,
   EmailProviderType,
+  ExperimentSplitNode,
   InternalEventType,
   JourneyDefinition,
   JourneyNodeType,
@@ -563,6 +564,120 @@ describe("journeys", () => {
         ).toEqual(100);
       });
     });
+
+    describe("when the journey has an experiment split node", () => {
+      beforeEach(async () => {
+        const entryNode: SegmentEntryNode = {
+          type: JourneyNodeType.SegmentEntryNode,
+          segment: randomUUID(),
+          child: "experiment-node",
+        };
+        const experimentNode: ExperimentSplitNode = {
+          type: JourneyNodeType.ExperimentSplitNode,
+          id: "experiment-node",
+          arms: [
+            {
+              id: "arm-a",
+              name: "A",
+              weight: 1,
+              child: JourneyNodeType.ExitNode,
+            },
+            {
+              id: "arm-b",
+              name: "B",
+              weight: 1,
+              child: JourneyNodeType.ExitNode,
+            },
+          ],
+          holdout: {
+            weight: 1,
+            child: JourneyNodeType.ExitNode,
+          },
+          conversionEvent: "Purchased",
+        };
+        const journeyDefinition: JourneyDefinition = {
+          entryNode,
+          nodes: [experimentNode],
+          exitNode: {
+            type: JourneyNodeType.ExitNode,
+          },
+        };
+        journeyId = randomUUID();
+        await db()
+          .insert(dbJourney)
+          .values({
+            workspaceId,
+            id: journeyId,
+            definition: journeyDefinition,
+            name: randomUUID(),
+            status: JourneyResourceStatusEnum.Running,
+            updatedAt: new Date(),
+          } satisfies PgInsertValue<typeof dbJourney>);
+
+        const journeyStartedAt = Date.now();
+        const armAssignments = ["arm-a", "arm-a", "arm-b", "holdout"];
+
+        await Promise.all([
+          ...armAssignments.map((experimentArmId, i) =>
+            recordNodeProcessed({
+              journeyStartedAt,
+              journeyId,
+              node: experimentNode,
+              workspaceId,
+              userId: `user-${i}`,
+              experimentArmId,
+            }),
+          ),
+          // only the first user in arm a converts after being bucketed
+          submitTrack({
+            workspaceId,
+            data: {
+              userId: "user-0",
+              messageId: randomUUID(),
+              event: "Purchased",
+              timestamp: new Date(journeyStartedAt + 60000).toISOString(),
+            },
+          }),
+          // converted before being bucketed, so shouldn't count
+          submitTrack({
+            workspaceId,
+            data: {
+              userId: "user-2",
+              messageId: randomUUID(),
+              event: "Purchased",
+              timestamp: new Date(journeyStartedAt - 60000).toISOString(),
+            },
+          }),
+        ]);
+      });
+
+      it("calculates the proportions and conversion rates of each arm", async () => {
+        const stats = await getJourneysStats({
+          workspaceId,
+          journeyIds: [journeyId],
+        });
+        expect(stats[0]?.nodeStats["experiment-node"]).toEqual({
+          type: NodeStatsType.ExperimentSplitNodeStats,
+          arms: {
+            "arm-a": {
+              users: 2,
+              proportion: 50,
+              conversionRate: 50,
+            },
+            "arm-b": {
+              users: 1,
+              proportion: 25,
+              conversionRate: 0,
+            },
+            holdout: {
+              users: 1,
+              proportion: 25,
+              conversionRate: 0,
+            },
+          },
+        });
+      });
+    });
   });
   // TODO: add tests for upsertJourney
   describe("upsertJourney", () => {
@@ -3,9 +3,11 @@ import { Type } from "@sinclair/typebox";
 import { and, eq, inArray, isNotNull, not, SQL } from "drizzle-orm";
 import { MESSAGE_EVENTS } from "isomorphic-lib/src/constants";
 import { doesEventNameMatch } from "isomorphic-lib/src/events";
+import { EXPERIMENT_HOLDOUT_ARM_ID } from "isomorphic-lib/src/experiments";
 import {
   buildHeritageMap,
   getJourneyConstraintViolations,
+  getNodeId,
   getSubscribedSegments,
   HeritageMap,
 } from "isomorphic-lib/src/journeys";
@@ -31,6 +33,7 @@ import { QUEUE_ITEM_PRIORITIES } from "./constants";
 import { Db, db, insert, QueryError, queryResult } from "./db";
 import * as schema from "./db/schema";
 import {
+  signalJourneyGoalEvent,
   startKeyedUserJourney,
   StartKeyedUserJourneyProps,
 } from "./journeys/userWorkflow/lifecycle";
@@ -44,21 +47,26 @@ import {
   DeleteMessageTemplateRequest,
   EmailStats,
   EnrichedJourney,
+  ExperimentSplitNodeStats,
   InternalEventType,
   Journey,
+  JourneyConversionStats,
   JourneyDefinition,
   JourneyDraft,
+  JourneyGoalType,
   JourneyNodeType,
   JourneyResourceStatusEnum,
   JourneyStats,
   JourneyUpsertValidationError,
   JourneyUpsertValidationErrorType,
   MessageChannelStats,
+  MessageQuietHoursStats,
   MessageTemplate,
   NodeStatsType,
   SavedHasStartedJourneyResource,
   SavedJourneyResource,
   SegmentNodeType,
+  SegmentSplitVariantType,
   SmsStats,
   UpsertJourneyResource,
   WorkspaceQueueItemType,
@@ -285,6 +293,34 @@ interface JourneyMessageStats {
   stats: BaseMessageNodeStats;
 }
 
+function getEmailRates(
+  eventCounts: Map<string, number>,
+): Omit<EmailStats, "type" | "providers"> {
+  const total = Array.from(eventCounts.values()).reduce(
+    (acc, val) => acc + val,
+    0,
+  );
+  const delivered =
+    (eventCounts.get(InternalEventType.EmailDelivered) ?? 0) +
+    (eventCounts.get(InternalEventType.EmailOpened) ?? 0) +
+    (eventCounts.get(InternalEventType.EmailClicked) ?? 0) +
+    (eventCounts.get(InternalEventType.EmailMarkedSpam) ?? 0);
+
+  const clicked = eventCounts.get(InternalEventType.EmailClicked) ?? 0;
+  const spam = eventCounts.get(InternalEventType.EmailMarkedSpam) ?? 0;
+  const opened =
+    (eventCounts.get(InternalEventType.EmailOpened) ?? 0) +
+    (eventCounts.get(InternalEventType.EmailMarkedSpam) ?? 0) +
+    (eventCounts.get(InternalEventType.EmailClicked) ?? 0);
+
+  return {
+    deliveryRate: delivered / total,
+    openRate: opened / total,
+    spamRate: spam / total,
+    clickRate: clicked / total,
+  };
+}
+
 export async function getJourneyMessageStats({
   workspaceId,
   journeys,
@@ -310,6 +346,7 @@ export async function getJourneyMessageStats({
         journey_id,
         last_event as event,
         node_id,
+        ifNull(provider, '') AS provider,
         count(resolved_message_id) AS count
     FROM (
             SELECT
@@ -323,7 +360,14 @@ export async function getJourneyMessageStats({
                     property_message_id,
                     message_id
                 ) AS resolved_message_id,
-                argMax(event, event_time) as last_event
+                argMax(event, event_time) as last_event,
+                -- the provider is only recorded on sent and failed events
+                any(
+                    nullIf(
+                        JSON_VALUE(message_raw, '$.properties.variant.provider.type'),
+                        ''
+                    )
+                ) AS provider
             FROM user_events_v2
             WHERE
                 workspace_id = ${qb.addQueryValue(workspaceId, "String")}
@@ -345,7 +389,8 @@ export async function getJourneyMessageStats({
     GROUP BY
         journey_id,
         node_id,
-        event
+        event,
+        provider
   `;
   const resultsSet = await chQuery({
     query,
@@ -353,6 +398,11 @@ export async function getJourneyMessageStats({
     format: "JSONEachRow",
   });
   const statsMap = new Map<string, Map<string, Map<string, number>>>();
+  // journey id -> node id -> provider -> event -> count
+  const providerStatsMap = new Map<
+    string,
+    Map<string, Map<string, Map<string, number>>>
+  >();
   await streamClickhouseQuery(resultsSet, (row) => {
     for (const i of row) {
       const item = i as {
@@ -362,16 +412,34 @@ export async function getJourneyMessageStats({
         // delivered
         event: string;
         node_id: string;
+        provider: string;
         count: string;
       };
+      const count = parseInt(item.count);
       const journeyStats =
         statsMap.get(item.journey_id) ?? new Map<string, Map<string, number>>();
       const nodeStats =
         journeyStats.get(item.node_id) ?? new Map<string, number>();
 
-      nodeStats.set(item.event, parseInt(item.count));
+      nodeStats.set(item.event, (nodeStats.get(item.event) ?? 0) + count);
       journeyStats.set(item.node_id, nodeStats);
       statsMap.set(item.journey_id, journeyStats);
+
+      if (!item.provider) {
+        continue;
+      }
+      const journeyProviderStats =
+        providerStatsMap.get(item.journey_id) ??
+        new Map<string, Map<string, Map<string, number>>>();
+      const nodeProviderStats =
+        journeyProviderStats.get(item.node_id) ??
+        new Map<string, Map<string, number>>();
+      const providerStats =
+        nodeProviderStats.get(item.provider) ?? new Map<string, number>();
+      providerStats.set(item.event, count);
+      nodeProviderStats.set(item.provider, providerStats);
+      journeyProviderStats.set(item.node_id, nodeProviderStats);
+      providerStatsMap.set(item.journey_id, journeyProviderStats);
     }
   });
 
@@ -399,26 +467,26 @@ export async function getJourneyMessageStats({
 
       switch (node.channel) {
         case ChannelType.Email: {
-          const delivered =
-            (nodeStats.get(InternalEventType.EmailDelivered) ?? 0) +
-            (nodeStats.get(InternalEventType.EmailOpened) ?? 0) +
-            (nodeStats.get(InternalEventType.EmailClicked) ?? 0) +
-            (nodeStats.get(InternalEventType.EmailMarkedSpam) ?? 0);
-
-          const clicked = nodeStats.get(InternalEventType.EmailClicked) ?? 0;
-          const spam = nodeStats.get(InternalEventType.EmailMarkedSpam) ?? 0;
-          const opened =
-            (nodeStats.get(InternalEventType.EmailOpened) ?? 0) +
-            (nodeStats.get(InternalEventType.EmailMarkedSpam) ?? 0) +
-            (nodeStats.get(InternalEventType.EmailClicked) ?? 0);
-
           const emailStats: EmailStats = {
             type: ChannelType.Email,
-            deliveryRate: delivered / total,
-            openRate: opened / total,
-            spamRate: spam / total,
-            clickRate: clicked / total,
+            ...getEmailRates(nodeStats),
           };
+          const nodeProviderStats = providerStatsMap
+            .get(journey.id)
+            ?.get(node.id);
+          if (nodeProviderStats?.size) {
+            emailStats.providers = Array.from(
+              nodeProviderStats,
+              ([provider, providerStats]) => ({
+                provider,
+                sent: Array.from(providerStats.values()).reduce(
+                  (acc, val) => acc + val,
+                  0,
+                ),
+                ...getEmailRates(providerStats),
+              }),
+            );
+          }
           channelStats = emailStats;
           break;
         }
@@ -457,6 +525,360 @@ export async function getJourneyMessageStats({
   return messageStats;
 }
 
+interface JourneyExperimentArmCounts {
+  users: number;
+  converted: number;
+}
+
+// journey id -> node id -> arm id -> counts
+type JourneyExperimentStats = Map<
+  string,
+  Map<string, Map<string, JourneyExperimentArmCounts>>
+>;
+
+/**
+ * Counts the users bucketed into each arm of the journeys' experiment split
+ * nodes, along with the number of those users which went on to perform the
+ * node's conversion event after being bucketed.
+ */
+export async function getJourneyExperimentStats({
+  workspaceId,
+  journeys,
+}: {
+  workspaceId: string;
+  journeys: {
+    id: string;
+    nodes: {
+      id: string;
+      conversionEvent?: string;
+    }[];
+  }[];
+}): Promise<JourneyExperimentStats> {
+  const statsMap: JourneyExperimentStats = new Map();
+  if (!journeys.length) {
+    return statsMap;
+  }
+  const qb = new ClickHouseQueryBuilder();
+  const nodesWithConversions = journeys.flatMap((j) =>
+    j.nodes.flatMap((n) =>
+      n.conversionEvent ? { id: n.id, event: n.conversionEvent } : [],
+    ),
+  );
+  const conversionEvents = Array.from(
+    new Set(nodesWithConversions.map((n) => n.event)),
+  );
+
+  const query = `
+    SELECT
+        assignments.journey_id AS journey_id,
+        assignments.node_id AS node_id,
+        assignments.arm_id AS arm_id,
+        uniq(assignments.user_id) AS users,
+        uniqIf(
+            assignments.user_id,
+            conversions.last_performed_at >= assignments.assigned_at
+        ) AS converted
+    FROM (
+        SELECT
+            JSON_VALUE(message_raw, '$.properties.journeyId') AS journey_id,
+            JSON_VALUE(message_raw, '$.properties.nodeId') AS node_id,
+            JSON_VALUE(message_raw, '$.properties.experimentArmId') AS arm_id,
+            transform(
+                node_id,
+                ${qb.addQueryValue(
+                  nodesWithConversions.map((n) => n.id),
+                  "Array(String)",
+                )},
+                ${qb.addQueryValue(
+                  nodesWithConversions.map((n) => n.event),
+                  "Array(String)",
+                )},
+                ''
+            ) AS conversion_event,
+            user_id,
+            min(event_time) AS assigned_at
+        FROM user_events_v2
+        WHERE
+            workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+            AND journey_id in ${qb.addQueryValue(
+              journeys.map((j) => j.id),
+              "Array(String)",
+            )}
+            AND event_type = 'track'
+            AND event = '${InternalEventType.JourneyNodeProcessed}'
+            AND arm_id != ''
+        GROUP BY
+            journey_id,
+            node_id,
+            arm_id,
+            conversion_event,
+            user_id
+    ) AS assignments
+    LEFT JOIN (
+        SELECT
+            user_id,
+            event,
+            max(event_time) AS last_performed_at
+        FROM user_events_v2
+        WHERE
+            workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+            AND event_type = 'track'
+            AND event in ${qb.addQueryValue(conversionEvents, "Array(String)")}
+        GROUP BY
+            user_id,
+            event
+    ) AS conversions
+    ON assignments.user_id = conversions.user_id
+        AND assignments.conversion_event = conversions.event
+    GROUP BY
+        journey_id,
+        node_id,
+        arm_id
+  `;
+  const resultsSet = await chQuery({
+    query,
+    query_params: qb.getQueries(),
+    format: "JSONEachRow",
+  });
+  await streamClickhouseQuery(resultsSet, (row) => {
+    for (const i of row) {
+      const item = i as {
+        journey_id: string;
+        node_id: string;
+        arm_id: string;
+        users: string;
+        converted: string;
+      };
+      const journeyStats =
+        statsMap.get(item.journey_id) ??
+        new Map<string, Map<string, JourneyExperimentArmCounts>>();
+      const nodeStats =
+        journeyStats.get(item.node_id) ??
+        new Map<string, JourneyExperimentArmCounts>();
+
+      nodeStats.set(item.arm_id, {
+        users: parseInt(item.users),
+        converted: parseInt(item.converted),
+      });
+      journeyStats.set(item.node_id, nodeStats);
+      statsMap.set(item.journey_id, journeyStats);
+    }
+  });
+  return statsMap;
+}
+
+// journey id -> node id -> quiet hours stats
+type JourneyQuietHoursStats = Map<string, Map<string, MessageQuietHoursStats>>;
+
+/**
+ * Counts the messages which were held or dropped by the journeys' message
+ * nodes due to quiet hours, along with the average time held messages waited.
+ */
+export async function getJourneyQuietHoursStats({
+  workspaceId,
+  journeyIds,
+}: {
+  workspaceId: string;
+  journeyIds: string[];
+}): Promise<JourneyQuietHoursStats> {
+  const statsMap: JourneyQuietHoursStats = new Map();
+  if (!journeyIds.length) {
+    return statsMap;
+  }
+  const qb = new ClickHouseQueryBuilder();
+  const query = `
+    SELECT
+        journey_id,
+        node_id,
+        countIf(held_ms > 0) AS held,
+        avgIf(held_ms, held_ms > 0) AS average_held_ms,
+        countIf(dropped) AS dropped
+    FROM (
+        SELECT
+            JSON_VALUE(message_raw, '$.properties.journeyId') AS journey_id,
+            JSON_VALUE(message_raw, '$.properties.nodeId') AS node_id,
+            toUInt64OrZero(
+                JSON_VALUE(message_raw, '$.properties.quietHoursHeldMs')
+            ) AS held_ms,
+            JSON_VALUE(message_raw, '$.properties.quietHoursDropped') = 'true' AS dropped
+        FROM user_events_v2
+        WHERE
+            workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+            AND journey_id in ${qb.addQueryValue(journeyIds, "Array(String)")}
+            AND event_type = 'track'
+            AND event = '${InternalEventType.JourneyNodeProcessed}'
+        GROUP BY
+            journey_id,
+            node_id,
+            message_id,
+            held_ms,
+            dropped
+    )
+    WHERE held_ms > 0 OR dropped
+    GROUP BY
+        journey_id,
+        node_id
+  `;
+  const resultsSet = await chQuery({
+    query,
+    query_params: qb.getQueries(),
+    format: "JSONEachRow",
+  });
+  await streamClickhouseQuery(resultsSet, (row) => {
+    for (const i of row) {
+      const item = i as {
+        journey_id: string;
+        node_id: string;
+        held: string;
+        average_held_ms: number | null;
+        dropped: string;
+      };
+      const journeyStats =
+        statsMap.get(item.journey_id) ??
+        new Map<string, MessageQuietHoursStats>();
+      const held = parseInt(item.held);
+      journeyStats.set(item.node_id, {
+        held,
+        averageHeldSeconds:
+          held > 0 && item.average_held_ms !== null
+            ? round(item.average_held_ms / 1000, 1)
+            : undefined,
+        dropped: parseInt(item.dropped),
+      });
+      statsMap.set(item.journey_id, journeyStats);
+    }
+  });
+  return statsMap;
+}
+
+interface JourneyConversionCounts {
+  converted: number;
+  averageTimeToConvertMs: number | null;
+}
+
+interface JourneyConversions {
+  total: JourneyConversionCounts;
+  // message node id -> conversions attributed to the node, timed from when
+  // its message was sent
+  byMessageNode: Map<string, JourneyConversionCounts>;
+}
+
+/**
+ * Counts the users which exited the journeys after reaching their goals,
+ * along with the conversions attributed to the last message node each user
+ * passed through.
+ */
+export async function getJourneyConversionStats({
+  workspaceId,
+  journeyIds,
+}: {
+  workspaceId: string;
+  journeyIds: string[];
+}): Promise<Map<string, JourneyConversions>> {
+  const statsMap = new Map<string, JourneyConversions>();
+  if (!journeyIds.length) {
+    return statsMap;
+  }
+  const qb = new ClickHouseQueryBuilder();
+  const query = `
+    SELECT
+        journey_id,
+        message_node_id,
+        count() AS converted,
+        avg(time_to_convert_ms) AS average_time_to_convert_ms,
+        avgIf(time_from_message_ms, message_node_id != '') AS average_time_from_message_ms
+    FROM (
+        SELECT
+            JSON_VALUE(message_raw, '$.properties.journeyId') AS journey_id,
+            JSON_VALUE(
+                message_raw,
+                '$.properties.conversionMessageNodeId'
+            ) AS message_node_id,
+            toUInt64OrZero(
+                JSON_VALUE(message_raw, '$.properties.timeToConvertMs')
+            ) AS time_to_convert_ms,
+            toUInt64OrZero(
+                JSON_VALUE(message_raw, '$.properties.timeFromMessageToConvertMs')
+            ) AS time_from_message_ms
+        FROM user_events_v2
+        WHERE
+            workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+            AND journey_id in ${qb.addQueryValue(journeyIds, "Array(String)")}
+            AND event_type = 'track'
+            AND event = '${InternalEventType.JourneyNodeProcessed}'
+            AND JSON_VALUE(message_raw, '$.properties.goalReached') = 'true'
+        GROUP BY
+            journey_id,
+            message_node_id,
+            message_id,
+            time_to_convert_ms,
+            time_from_message_ms
+    )
+    GROUP BY
+        journey_id,
+        message_node_id
+  `;
+  const resultsSet = await chQuery({
+    query,
+    query_params: qb.getQueries(),
+    format: "JSONEachRow",
+  });
+  await streamClickhouseQuery(resultsSet, (row) => {
+    for (const i of row) {
+      const item = i as {
+        journey_id: string;
+        message_node_id: string;
+        converted: string;
+        average_time_to_convert_ms: number | null;
+        average_time_from_message_ms: number | null;
+      };
+      const journeyStats: JourneyConversions = statsMap.get(
+        item.journey_id,
+      ) ?? {
+        total: { converted: 0, averageTimeToConvertMs: null },
+        byMessageNode: new Map(),
+      };
+      const converted = parseInt(item.converted);
+      const { total } = journeyStats;
+      const totalConverted = total.converted + converted;
+      // weighted average across the rows for each message node
+      total.averageTimeToConvertMs =
+        item.average_time_to_convert_ms !== null
+          ? ((total.averageTimeToConvertMs ?? 0) * total.converted +
+              item.average_time_to_convert_ms * converted) /
+            totalConverted
+          : total.averageTimeToConvertMs;
+      total.converted = totalConverted;
+
+      if (item.message_node_id) {
+        journeyStats.byMessageNode.set(item.message_node_id, {
+          converted,
+          averageTimeToConvertMs: item.average_time_from_message_ms,
+        });
+      }
+      statsMap.set(item.journey_id, journeyStats);
+    }
+  });
+  return statsMap;
+}
+
+function toConversionStats({
+  counts,
+  total,
+}: {
+  counts: JourneyConversionCounts;
+  total: number;
+}): JourneyConversionStats {
+  return {
+    converted: counts.converted,
+    conversionRate: total > 0 ? round((counts.converted / total) * 100, 1) : 0,
+    averageTimeToConvertSeconds:
+      counts.averageTimeToConvertMs !== null
+        ? round(counts.averageTimeToConvertMs / 1000, 1)
+        : undefined,
+  };
+}
+
 export async function getJourneysStats({
   workspaceId,
   journeyIds: allJourneyIds,
@@ -506,7 +928,13 @@ export async function getJourneysStats({
     unwrap(enrichJourney(journey)),
   );
 
-  const [statsResultSet, messageStats] = await Promise.all([
+  const [
+    statsResultSet,
+    messageStats,
+    experimentStats,
+    quietHoursStats,
+    conversionStats,
+  ] = await Promise.all([
     chQuery({
       query,
       query_params: qb.getQueries(),
@@ -536,6 +964,40 @@ export async function getJourneysStats({
         };
       }),
     }),
+    getJourneyExperimentStats({
+      workspaceId,
+      journeys: enrichedJourneys.flatMap((j) => {
+        if (!j.definition) {
+          return [];
+        }
+        const nodes = j.definition.nodes.flatMap((n) => {
+          if (n.type !== JourneyNodeType.ExperimentSplitNode) {
+            return [];
+          }
+          return {
+            id: n.id,
+            conversionEvent: n.conversionEvent,
+          };
+        });
+        if (!nodes.length) {
+          return [];
+        }
+        return {
+          id: j.id,
+          nodes,
+        };
+      }),
+    }),
+    getJourneyQuietHoursStats({
+      workspaceId,
+      journeyIds,
+    }),
+    getJourneyConversionStats({
+      workspaceId,
+      journeyIds: enrichedJourneys.flatMap((j) =>
+        j.definition?.goal ? j.id : [],
+      ),
+    }),
   ]);
 
   const stream = statsResultSet.stream();
@@ -593,11 +1055,21 @@ export async function getJourneysStats({
       continue;
     }
 
+    const journeyConversions = conversionStats.get(journeyId);
     const stats: JourneyStats = {
       workspaceId,
       journeyId,
       nodeStats: {},
     };
+    if (definition.goal) {
+      stats.conversions = toConversionStats({
+        counts: journeyConversions?.total ?? {
+          converted: 0,
+          averageTimeToConvertMs: null,
+        },
+        total: nodeProcessedMap.get(getNodeId(definition.entryNode)) ?? 0,
+      });
+    }
     journeysStats.push(stats);
     const heritageMap = buildHeritageMap(definition);
 
@@ -608,12 +1080,26 @@ export async function getJourneysStats({
             messageStats.find(
               (s) => s.journeyId === journey.id && s.nodeId === node.id,
             )?.stats ?? {};
+          const nodeQuietHoursStats = quietHoursStats
+            .get(journeyId)
+            ?.get(node.id);
+          const nodeConversions = definition.goal
+            ? toConversionStats({
+                counts: journeyConversions?.byMessageNode.get(node.id) ?? {
+                  converted: 0,
+                  averageTimeToConvertMs: null,
+                },
+                total: nodeProcessedMap.get(node.id) ?? 0,
+              })
+            : undefined;
           stats.nodeStats[node.id] = {
             type: NodeStatsType.MessageNodeStats,
             proportions: {
               childEdge: 100,
             },
             ...nodeMessageStats,
+            ...(nodeQuietHoursStats ? { quietHours: nodeQuietHoursStats } : {}),
+            ...(nodeConversions ? { conversions: nodeConversions } : {}),
           };
           break;
         }
@@ -627,6 +1113,10 @@ export async function getJourneysStats({
           break;
         }
         case JourneyNodeType.SegmentSplitNode: {
+          // edge stats are only displayed for boolean splits
+          if (node.variant.type !== SegmentSplitVariantType.Boolean) {
+            continue;
+          }
           const percent = getEdgePercent({
             originId: node.id,
             targetId: node.variant.falseChild,
@@ -667,8 +1157,42 @@ export async function getJourneysStats({
         }
         case JourneyNodeType.RateLimitNode:
           continue;
-        case JourneyNodeType.ExperimentSplitNode:
+        case JourneyNodeType.HttpRequestNode:
           continue;
+        case JourneyNodeType.ExperimentSplitNode: {
+          const armCounts = experimentStats.get(journeyId)?.get(node.id);
+          if (!armCounts) {
+            continue;
+          }
+          const armIds = node.arms.map((a) => a.id);
+          if (node.holdout) {
+            armIds.push(EXPERIMENT_HOLDOUT_ARM_ID);
+          }
+          const total = Array.from(armCounts.values()).reduce(
+            (acc, counts) => acc + counts.users,
+            0,
+          );
+          if (total === 0) {
+            continue;
+          }
+          const arms: ExperimentSplitNodeStats["arms"] = {};
+          for (const armId of armIds) {
+            const counts = armCounts.get(armId) ?? { users: 0, converted: 0 };
+            arms[armId] = {
+              users: counts.users,
+              proportion: round((counts.users / total) * 100, 1),
+              conversionRate:
+                node.conversionEvent && counts.users > 0
+                  ? round((counts.converted / counts.users) * 100, 1)
+                  : undefined,
+            };
+          }
+          stats.nodeStats[node.id] = {
+            type: NodeStatsType.ExperimentSplitNodeStats,
+            arms,
+          };
+          break;
+        }
         default:
           assertUnreachable(node);
       }
@@ -685,7 +1209,9 @@ const EVENT_TRIGGER_JOURNEY_CACHE = new NodeCache({
 
 interface EventTriggerJourneyDetails {
   journeyId: string;
-  event: string;
+  // entry event of event entry journeys
+  event?: string;
+  goalEvent?: string;
   definition: JourneyDefinition;
 }
 
@@ -695,16 +1221,20 @@ export type TriggerEventEntryJourneysOptions = Omit<
 >;
 
 /**
- * Abstracts the triggerEventEntryJourneys function for ease of testing.
+ * Abstracts the triggerEventEntryJourneys function for ease of testing. Also
+ * signals the goal events of running journeys.
  * @param journeyCache - A cache of journey details for a given workspace.
  * @param startKeyedJourneyImpl - The implementation of startKeyedUserJourney to use.
+ * @param signalJourneyGoalImpl - The implementation of signalJourneyGoalEvent to use.
  */
 export function triggerEventEntryJourneysFactory({
   startKeyedJourneyImpl,
+  signalJourneyGoalImpl,
   journeyCache,
 }: {
   journeyCache: NodeCache;
   startKeyedJourneyImpl: typeof startKeyedUserJourney;
+  signalJourneyGoalImpl: typeof signalJourneyGoalEvent;
 }) {
   return async function builtTriggerEventEntryJourneys({
     workspaceId,
@@ -731,14 +1261,22 @@ export function triggerEventEntryJourneysFactory({
           return [];
         }
         const journey = result.value;
-        if (
-          journey.status !== JourneyResourceStatusEnum.Running ||
-          journey.definition.entryNode.type !== JourneyNodeType.EventEntryNode
-        ) {
+        if (journey.status !== JourneyResourceStatusEnum.Running) {
+          return [];
+        }
+        const { entryNode, goal } = journey.definition;
+        const event =
+          entryNode.type === JourneyNodeType.EventEntryNode
+            ? entryNode.event
+            : undefined;
+        const goalEvent =
+          goal?.type === JourneyGoalType.Event ? goal.event : undefined;
+        if (!event && !goalEvent) {
           return [];
         }
         return {
-          event: journey.definition.entryNode.event,
+          event,
+          goalEvent,
           journeyId: journey.id,
           definition: journey.definition,
         };
@@ -747,11 +1285,28 @@ export function triggerEventEntryJourneysFactory({
     }
 
     const starts: Promise<unknown>[] = journeyDetails.flatMap(
-      ({ journeyId, event: journeyEvent, definition }) => {
-        const isMatch = doesEventNameMatch({
-          pattern: journeyEvent,
-          event: triggerEvent.event,
-        });
+      ({ journeyId, event: journeyEvent, goalEvent, definition }) => {
+        if (
+          goalEvent &&
+          doesEventNameMatch({
+            pattern: goalEvent,
+            event: triggerEvent.event,
+          })
+        ) {
+          return signalJourneyGoalImpl({
+            workspaceId,
+            userId,
+            journeyId,
+            definition,
+            event: triggerEvent,
+          });
+        }
+        const isMatch =
+          journeyEvent !== undefined &&
+          doesEventNameMatch({
+            pattern: journeyEvent,
+            event: triggerEvent.event,
+          });
 
         if (!isMatch) {
           return [];
@@ -799,6 +1354,7 @@ export async function updateJourney({
 export const triggerEventEntryJourneys = triggerEventEntryJourneysFactory({
   journeyCache: EVENT_TRIGGER_JOURNEY_CACHE,
   startKeyedJourneyImpl: startKeyedUserJourney,
+  signalJourneyGoalImpl: signalJourneyGoalEvent,
 });
 
 function mapUpsertValidationError(
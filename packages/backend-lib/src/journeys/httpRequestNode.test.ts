@@ -0,0 +1,338 @@
+import { TestWorkflowEnvironment } from "@temporalio/testing";
+import { Worker } from "@temporalio/worker";
+import { randomUUID } from "crypto";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { ok } from "neverthrow";
+
+import { createEnvAndWorker } from "../../test/temporal";
+import { insert } from "../db";
+import { journey as dbJourney, segment as dbSegment } from "../db/schema";
+import { insertSegmentAssignments } from "../segments";
+import {
+  ChannelType,
+  EmailProviderType,
+  HttpRequestNode,
+  InternalEventType,
+  Journey,
+  JourneyDefinition,
+  JourneyNodeType,
+  SegmentDefinition,
+  SegmentNodeType,
+  SegmentOperatorType,
+  Workspace,
+} from "../types";
+import { createWorkspace } from "../workspaces";
+import {
+  segmentUpdateSignal,
+  userJourneyWorkflow,
+  UserJourneyWorkflowVersion,
+} from "./userWorkflow";
+import { sendMessageFactory } from "./userWorkflow/activities";
+import { HttpRequestResult } from "./userWorkflow/types";
+
+jest.setTimeout(15000);
+
+describe("journeys with http request nodes", () => {
+  let workspace: Workspace;
+  let testEnv: TestWorkflowEnvironment;
+  let worker: Worker;
+  let journey: Journey;
+  let entrySegmentId: string;
+  let userId: string;
+  let successTemplateId: string;
+  let notFoundTemplateId: string;
+  let fallbackTemplateId: string;
+
+  const senderMock = jest.fn().mockReturnValue(
+    ok({
+      type: InternalEventType.MessageSent,
+      variant: {
+        type: ChannelType.Email,
+        from: "test@test.com",
+        body: "test",
+        to: "test@test.com",
+        subject: "test",
+        headers: {},
+        replyTo: "test@test.com",
+        provider: {
+          type: EmailProviderType.Test,
+          messageId: "test",
+        },
+      },
+    }),
+  );
+  const sendHttpRequestMock = jest.fn<Promise<HttpRequestResult>, [unknown]>();
+  const submitHttpResponseTraitsMock = jest.fn<Promise<void>, [unknown]>();
+
+  const testActivities = {
+    sendMessageV2: sendMessageFactory(senderMock),
+    sendHttpRequest: sendHttpRequestMock,
+    submitHttpResponseTraits: submitHttpResponseTraitsMock,
+  };
+
+  function messageNode(id: string, templateId: string) {
+    return {
+      type: JourneyNodeType.MessageNode,
+      id,
+      variant: {
+        type: ChannelType.Email,
+        templateId,
+      },
+      child: JourneyNodeType.ExitNode,
+    } as const;
+  }
+
+  async function setupJourney(
+    httpRequestNode: Pick<HttpRequestNode, "retry">,
+  ): Promise<JourneyDefinition> {
+    const definition: JourneyDefinition = {
+      entryNode: {
+        type: JourneyNodeType.SegmentEntryNode,
+        segment: entrySegmentId,
+        child: "http-request",
+      },
+      exitNode: {
+        type: JourneyNodeType.ExitNode,
+      },
+      nodes: [
+        {
+          type: JourneyNodeType.HttpRequestNode,
+          id: "http-request",
+          templateId: randomUUID(),
+          traits: [{ path: "$.plan", trait: "plan" }],
+          statusBranches: [
+            { minStatus: 200, maxStatus: 299, child: "success" },
+            { minStatus: 404, maxStatus: 404, child: "not-found" },
+          ],
+          child: "fallback",
+          ...httpRequestNode,
+        },
+        messageNode("success", successTemplateId),
+        messageNode("not-found", notFoundTemplateId),
+        messageNode("fallback", fallbackTemplateId),
+      ],
+    };
+    const entrySegmentDefinition: SegmentDefinition = {
+      entryNode: {
+        type: SegmentNodeType.Trait,
+        id: "entry-segment",
+        path: "trait1",
+        operator: {
+          type: SegmentOperatorType.Equals,
+          value: "value1",
+        },
+      },
+      nodes: [],
+    };
+    [journey] = await Promise.all([
+      insert({
+        table: dbJourney,
+        values: {
+          id: randomUUID(),
+          name: "http-request-test",
+          definition,
+          workspaceId: workspace.id,
+          updatedAt: new Date(),
+          status: "Running",
+        },
+      }).then(unwrap),
+      insert({
+        table: dbSegment,
+        values: {
+          id: entrySegmentId,
+          name: "entry-segment",
+          definition: entrySegmentDefinition,
+          workspaceId: workspace.id,
+          updatedAt: new Date(),
+        },
+      }).then(unwrap),
+    ]);
+    await insertSegmentAssignments([
+      {
+        workspaceId: workspace.id,
+        segmentId: entrySegmentId,
+        userId,
+        inSegment: true,
+      },
+    ]);
+    return definition;
+  }
+
+  async function runJourney(definition: JourneyDefinition) {
+    const handle = await testEnv.client.workflow.signalWithStart(
+      userJourneyWorkflow,
+      {
+        workflowId: `http-request-${randomUUID()}`,
+        taskQueue: "default",
+        signal: segmentUpdateSignal,
+        signalArgs: [
+          {
+            segmentId: entrySegmentId,
+            currentlyInSegment: true,
+            type: "segment",
+            segmentVersion: await testEnv.currentTimeMs(),
+          },
+        ],
+        args: [
+          {
+            journeyId: journey.id,
+            workspaceId: workspace.id,
+            userId,
+            definition,
+            version: UserJourneyWorkflowVersion.V2,
+          },
+        ],
+      },
+    );
+    await handle.result();
+  }
+
+  function expectSentTemplate(templateId: string) {
+    expect(senderMock).toHaveBeenCalledTimes(1);
+    expect(senderMock).toHaveBeenCalledWith(
+      expect.objectContaining({ templateId }),
+    );
+  }
+
+  beforeEach(async () => {
+    workspace = unwrap(
+      await createWorkspace({
+        name: `http-request-${randomUUID()}`,
+      }),
+    );
+    entrySegmentId = randomUUID();
+    userId = randomUUID();
+    successTemplateId = randomUUID();
+    notFoundTemplateId = randomUUID();
+    fallbackTemplateId = randomUUID();
+    senderMock.mockClear();
+    sendHttpRequestMock.mockReset();
+    submitHttpResponseTraitsMock.mockReset();
+
+    const envAndWorker = await createEnvAndWorker({
+      activityOverrides: testActivities,
+    });
+    testEnv = envAndWorker.testEnv;
+    worker = envAndWorker.worker;
+  });
+
+  afterEach(async () => {
+    await testEnv.teardown();
+  });
+
+  describe("when the response status matches a status branch", () => {
+    it("proceeds to the branch's child", async () => {
+      const definition = await setupJourney({});
+      sendHttpRequestMock.mockResolvedValue({ type: "Response", status: 404 });
+
+      await worker.runUntil(() => runJourney(definition));
+
+      expect(sendHttpRequestMock).toHaveBeenCalledTimes(1);
+      expectSentTemplate(notFoundTemplateId);
+      expect(submitHttpResponseTraitsMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("when the response status matches no status branch", () => {
+    it("proceeds to the default child without retrying", async () => {
+      const definition = await setupJourney({});
+      sendHttpRequestMock.mockResolvedValue({ type: "Response", status: 503 });
+
+      await worker.runUntil(() => runJourney(definition));
+
+      expect(sendHttpRequestMock).toHaveBeenCalledTimes(1);
+      expectSentTemplate(fallbackTemplateId);
+    });
+  });
+
+  describe("when the response includes traits", () => {
+    it("writes the traits once and proceeds to the branch's child", async () => {
+      const definition = await setupJourney({});
+      sendHttpRequestMock.mockResolvedValue({
+        type: "Response",
+        status: 200,
+        traits: { plan: "pro" },
+      });
+
+      await worker.runUntil(() => runJourney(definition));
+
+      expect(submitHttpResponseTraitsMock).toHaveBeenCalledTimes(1);
+      expect(submitHttpResponseTraitsMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          workspaceId: workspace.id,
+          userId,
+          traits: { plan: "pro" },
+        }),
+      );
+      expectSentTemplate(successTemplateId);
+    });
+  });
+
+  describe("when the node retries", () => {
+    describe("when the request fails with a server error", () => {
+      it("retries the request until it succeeds", async () => {
+        const definition = await setupJourney({
+          retry: { maxAttempts: 3 },
+        });
+        sendHttpRequestMock
+          .mockResolvedValueOnce({ type: "Response", status: 503 })
+          .mockResolvedValueOnce({ type: "Response", status: 200 });
+
+        await worker.runUntil(() => runJourney(definition));
+
+        expect(sendHttpRequestMock).toHaveBeenCalledTimes(2);
+        expectSentTemplate(successTemplateId);
+      });
+    });
+
+    describe("when the request fails without a response", () => {
+      it("retries the request until it succeeds", async () => {
+        const definition = await setupJourney({
+          retry: { maxAttempts: 3 },
+        });
+        sendHttpRequestMock
+          .mockResolvedValueOnce({ type: "Failed", retryable: true })
+          .mockResolvedValueOnce({ type: "Response", status: 200 });
+
+        await worker.runUntil(() => runJourney(definition));
+
+        expect(sendHttpRequestMock).toHaveBeenCalledTimes(2);
+        expectSentTemplate(successTemplateId);
+      });
+    });
+
+    describe("when the request fails with a client error", () => {
+      it("does not retry the request", async () => {
+        const definition = await setupJourney({
+          retry: { maxAttempts: 3 },
+        });
+        sendHttpRequestMock.mockResolvedValue({
+          type: "Response",
+          status: 404,
+        });
+
+        await worker.runUntil(() => runJourney(definition));
+
+        expect(sendHttpRequestMock).toHaveBeenCalledTimes(1);
+        expectSentTemplate(notFoundTemplateId);
+      });
+    });
+
+    describe("when every attempt fails", () => {
+      it("proceeds to the default child after the max attempts", async () => {
+        const definition = await setupJourney({
+          retry: { maxAttempts: 3 },
+        });
+        sendHttpRequestMock.mockResolvedValue({
+          type: "Failed",
+          retryable: true,
+        });
+
+        await worker.runUntil(() => runJourney(definition));
+
+        expect(sendHttpRequestMock).toHaveBeenCalledTimes(3);
+        expectSentTemplate(fallbackTemplateId);
+      });
+    });
+  });
+});
@@ -20,6 +20,8 @@ import {
   InternalEventType,
   Journey,
   JourneyDefinition,
+  JourneyGoal,
+  JourneyGoalType,
   JourneyNodeType,
   KeyedPerformedSegmentNode,
   SegmentDefinition,
@@ -31,10 +33,13 @@ import {
   UserPropertyDefinitionType,
   UserPropertyDelayVariant,
   UserPropertyOperatorType,
+  UserWorkflowTrackEvent,
   Workspace,
 } from "../types";
 import { createWorkspace } from "../workspaces";
 import {
+  getKeyedUserJourneyWorkflowId,
+  goalEventSignal,
   trackSignal,
   userJourneyWorkflow,
   UserJourneyWorkflowVersion,
@@ -483,4 +488,205 @@ describe("keyedEventEntry journeys", () => {
       });
     });
   });
+
+  describe("when a journey is keyed on appointmentId and has a goal", () => {
+    let journey: Journey;
+    let userId: string;
+    let appointmentId: string;
+    let goalSegmentId: string;
+    const oneDaySeconds = 60 * 60 * 24;
+
+    function buildDefinition(goal: JourneyGoal): JourneyDefinition {
+      return {
+        entryNode: {
+          type: JourneyNodeType.EventEntryNode,
+          event: "APPOINTMENT_UPDATE",
+          key: "appointmentId",
+          child: "delay",
+        },
+        exitNode: {
+          type: JourneyNodeType.ExitNode,
+        },
+        goal,
+        nodes: [
+          {
+            type: JourneyNodeType.DelayNode,
+            id: "delay",
+            variant: {
+              type: DelayVariantType.Second,
+              seconds: oneDaySeconds,
+            },
+            child: "send-reminder",
+          },
+          {
+            type: JourneyNodeType.MessageNode,
+            id: "send-reminder",
+            variant: {
+              type: ChannelType.Email,
+              templateId: randomUUID(),
+            },
+            child: JourneyNodeType.ExitNode,
+          },
+        ],
+      };
+    }
+
+    async function startJourney(definition: JourneyDefinition) {
+      journey = await insert({
+        table: dbJourney,
+        values: {
+          id: randomUUID(),
+          name: "appointment-goal-journey",
+          definition,
+          workspaceId: workspace.id,
+          status: "Running",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      }).then(unwrap);
+      const event: UserWorkflowTrackEvent = {
+        event: "APPOINTMENT_UPDATE",
+        properties: {
+          operation: "STARTED",
+          appointmentId,
+        },
+        messageId: randomUUID(),
+        timestamp: new Date().toISOString(),
+      };
+      if (definition.entryNode.type !== JourneyNodeType.EventEntryNode) {
+        throw new Error("expected an event entry node");
+      }
+      const workflowId = getKeyedUserJourneyWorkflowId({
+        workspaceId: workspace.id,
+        userId,
+        journeyId: journey.id,
+        entryNode: definition.entryNode,
+        event,
+      });
+      if (!workflowId) {
+        throw new Error("expected a keyed workflow id");
+      }
+      return testEnv.client.workflow.start(userJourneyWorkflow, {
+        workflowId,
+        taskQueue: "default",
+        args: [
+          {
+            journeyId: journey.id,
+            workspaceId: workspace.id,
+            userId,
+            definition,
+            version: UserJourneyWorkflowVersion.V2,
+            event,
+          },
+        ],
+      });
+    }
+
+    beforeEach(async () => {
+      userId = randomUUID();
+      appointmentId = randomUUID();
+      goalSegmentId = randomUUID();
+
+      const goalSegmentDefinition: SegmentDefinition = {
+        entryNode: {
+          type: SegmentNodeType.KeyedPerformed,
+          id: "segment-entry",
+          event: "APPOINTMENT_UPDATE",
+          key: "appointmentId",
+          properties: [
+            {
+              path: "operation",
+              operator: {
+                type: SegmentOperatorType.Equals,
+                value: "COMPLETED",
+              },
+            },
+          ],
+        } satisfies KeyedPerformedSegmentNode,
+        nodes: [],
+      };
+      await insert({
+        table: dbSegment,
+        values: {
+          id: goalSegmentId,
+          name: "appointment-completed",
+          definition: goalSegmentDefinition,
+          workspaceId: workspace.id,
+          updatedAt: new Date(),
+        },
+      }).then(unwrap);
+    });
+
+    describe("when the user enters the goal segment", () => {
+      it("exits the journey before sending a message", async () => {
+        await worker.runUntil(async () => {
+          const handle = await startJourney(
+            buildDefinition({
+              type: JourneyGoalType.Segment,
+              segment: goalSegmentId,
+            }),
+          );
+          await testEnv.sleep(5000);
+
+          await handle.signal(trackSignal, {
+            event: "APPOINTMENT_UPDATE",
+            properties: {
+              operation: "COMPLETED",
+              appointmentId,
+            },
+            messageId: randomUUID(),
+            timestamp: new Date().toISOString(),
+          });
+          await testEnv.sleep(oneDaySeconds * 1000);
+          await handle.result();
+
+          expect(senderMock).toHaveBeenCalledTimes(0);
+        });
+      });
+    });
+
+    describe("when the user performs the goal event", () => {
+      it("exits the journey without waiting for the delay", async () => {
+        await worker.runUntil(async () => {
+          const definition = buildDefinition({
+            type: JourneyGoalType.Event,
+            event: "APPOINTMENT_COMPLETED",
+          });
+          const handle = await startJourney(definition);
+          await testEnv.sleep(5000);
+          const startedAt = await testEnv.currentTimeMs();
+
+          const goalEvent: UserWorkflowTrackEvent = {
+            event: "APPOINTMENT_COMPLETED",
+            properties: {
+              appointmentId,
+            },
+            messageId: randomUUID(),
+            timestamp: new Date().toISOString(),
+          };
+          if (definition.entryNode.type !== JourneyNodeType.EventEntryNode) {
+            throw new Error("expected an event entry node");
+          }
+          // goal events are routed to the keyed workflow by the entry
+          // node's key
+          const goalWorkflowId = getKeyedUserJourneyWorkflowId({
+            workspaceId: workspace.id,
+            userId,
+            journeyId: journey.id,
+            entryNode: definition.entryNode,
+            event: goalEvent,
+          });
+          expect(goalWorkflowId).toEqual(handle.workflowId);
+
+          await handle.signal(goalEventSignal, goalEvent);
+          await handle.result();
+
+          expect(senderMock).toHaveBeenCalledTimes(0);
+          expect(await testEnv.currentTimeMs()).toBeLessThan(
+            startedAt + oneDaySeconds * 1000,
+          );
+        });
+      });
+    });
+  });
 });
@@ -0,0 +1,279 @@
+import { TestWorkflowEnvironment } from "@temporalio/testing";
+import { Worker } from "@temporalio/worker";
+import { randomUUID } from "crypto";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { ok } from "neverthrow";
+
+import { createEnvAndWorker } from "../../test/temporal";
+import { insert } from "../db";
+import { journey as dbJourney, segment as dbSegment } from "../db/schema";
+import { insertSegmentAssignments } from "../segments";
+import {
+  ChannelType,
+  EmailProviderType,
+  InternalEventType,
+  Journey,
+  JourneyDefinition,
+  JourneyNodeType,
+  RateLimitExceededBehavior,
+  RateLimitNode,
+  RateLimitScope,
+  SegmentDefinition,
+  SegmentNodeType,
+  SegmentOperatorType,
+  Workspace,
+} from "../types";
+import { createWorkspace } from "../workspaces";
+import {
+  segmentUpdateSignal,
+  userJourneyWorkflow,
+  UserJourneyWorkflowVersion,
+} from "./userWorkflow";
+import { sendMessageFactory } from "./userWorkflow/activities";
+import { RateLimitStatus } from "./userWorkflow/types";
+
+jest.setTimeout(15000);
+
+describe("journeys with rate limit nodes", () => {
+  let workspace: Workspace;
+  let testEnv: TestWorkflowEnvironment;
+  let worker: Worker;
+  let journey: Journey;
+  let entrySegmentId: string;
+  let userId: string;
+  const oneHourMs = 60 * 60 * 1000;
+
+  const senderMock = jest.fn().mockReturnValue(
+    ok({
+      type: InternalEventType.MessageSent,
+      variant: {
+        type: ChannelType.Email,
+        from: "test@test.com",
+        body: "test",
+        to: "test@test.com",
+        subject: "test",
+        headers: {},
+        replyTo: "test@test.com",
+        provider: {
+          type: EmailProviderType.Test,
+          messageId: "test",
+        },
+      },
+    }),
+  );
+  const getRateLimitStatusMock = jest.fn<Promise<RateLimitStatus>, [unknown]>();
+
+  const testActivities = {
+    sendMessageV2: sendMessageFactory(senderMock),
+    getRateLimitStatus: getRateLimitStatusMock,
+  };
+
+  async function setupJourney(
+    rateLimitNode: Pick<RateLimitNode, "exceededBehavior" | "maxWaitSeconds">,
+  ): Promise<JourneyDefinition> {
+    const definition: JourneyDefinition = {
+      entryNode: {
+        type: JourneyNodeType.SegmentEntryNode,
+        segment: entrySegmentId,
+        child: "rate-limit",
+      },
+      exitNode: {
+        type: JourneyNodeType.ExitNode,
+      },
+      nodes: [
+        {
+          type: JourneyNodeType.RateLimitNode,
+          id: "rate-limit",
+          channel: ChannelType.Email,
+          limit: 1,
+          windowSeconds: 60 * 60 * 24,
+          scope: RateLimitScope.Workspace,
+          child: "send-message",
+          limitedChild: JourneyNodeType.ExitNode,
+          ...rateLimitNode,
+        },
+        {
+          type: JourneyNodeType.MessageNode,
+          id: "send-message",
+          variant: {
+            type: ChannelType.Email,
+            templateId: randomUUID(),
+          },
+          child: JourneyNodeType.ExitNode,
+        },
+      ],
+    };
+    const entrySegmentDefinition: SegmentDefinition = {
+      entryNode: {
+        type: SegmentNodeType.Trait,
+        id: "entry-segment",
+        path: "trait1",
+        operator: {
+          type: SegmentOperatorType.Equals,
+          value: "value1",
+        },
+      },
+      nodes: [],
+    };
+    [journey] = await Promise.all([
+      insert({
+        table: dbJourney,
+        values: {
+          id: randomUUID(),
+          name: "rate-limit-test",
+          definition,
+          workspaceId: workspace.id,
+          updatedAt: new Date(),
+          status: "Running",
+        },
+      }).then(unwrap),
+      insert({
+        table: dbSegment,
+        values: {
+          id: entrySegmentId,
+          name: "entry-segment",
+          definition: entrySegmentDefinition,
+          workspaceId: workspace.id,
+          updatedAt: new Date(),
+        },
+      }).then(unwrap),
+    ]);
+    await insertSegmentAssignments([
+      {
+        workspaceId: workspace.id,
+        segmentId: entrySegmentId,
+        userId,
+        inSegment: true,
+      },
+    ]);
+    return definition;
+  }
+
+  async function runJourney(definition: JourneyDefinition) {
+    const handle = await testEnv.client.workflow.signalWithStart(
+      userJourneyWorkflow,
+      {
+        workflowId: `rate-limit-${randomUUID()}`,
+        taskQueue: "default",
+        signal: segmentUpdateSignal,
+        signalArgs: [
+          {
+            segmentId: entrySegmentId,
+            currentlyInSegment: true,
+            type: "segment",
+            segmentVersion: await testEnv.currentTimeMs(),
+          },
+        ],
+        args: [
+          {
+            journeyId: journey.id,
+            workspaceId: workspace.id,
+            userId,
+            definition,
+            version: UserJourneyWorkflowVersion.V2,
+          },
+        ],
+      },
+    );
+    await handle.result();
+  }
+
+  beforeEach(async () => {
+    workspace = unwrap(
+      await createWorkspace({
+        name: `rate-limit-${randomUUID()}`,
+      }),
+    );
+    entrySegmentId = randomUUID();
+    userId = randomUUID();
+    senderMock.mockClear();
+    getRateLimitStatusMock.mockReset();
+
+    const envAndWorker = await createEnvAndWorker({
+      activityOverrides: testActivities,
+    });
+    testEnv = envAndWorker.testEnv;
+    worker = envAndWorker.worker;
+  });
+
+  afterEach(async () => {
+    await testEnv.teardown();
+  });
+
+  describe("when the user is within the limit", () => {
+    it("proceeds to the child", async () => {
+      const definition = await setupJourney({
+        exceededBehavior: RateLimitExceededBehavior.Branch,
+      });
+      getRateLimitStatusMock.mockResolvedValue({ withinLimit: true });
+
+      await worker.runUntil(() => runJourney(definition));
+
+      expect(getRateLimitStatusMock).toHaveBeenCalledTimes(1);
+      expect(senderMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("when the user is over the limit and the node branches", () => {
+    it("proceeds to the limited child without waiting", async () => {
+      const definition = await setupJourney({
+        exceededBehavior: RateLimitExceededBehavior.Branch,
+      });
+      getRateLimitStatusMock.mockImplementation(async () => ({
+        withinLimit: false,
+        availableAt: (await testEnv.currentTimeMs()) + oneHourMs,
+      }));
+
+      await worker.runUntil(() => runJourney(definition));
+
+      expect(getRateLimitStatusMock).toHaveBeenCalledTimes(1);
+      expect(senderMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("when the user is over the limit and the node waits", () => {
+    it("waits until the user falls back under the limit and proceeds to the child", async () => {
+      const definition = await setupJourney({
+        exceededBehavior: RateLimitExceededBehavior.Wait,
+      });
+      let availableAt: number | null = null;
+      getRateLimitStatusMock.mockImplementation(async () => {
+        const now = await testEnv.currentTimeMs();
+        if (availableAt === null) {
+          availableAt = now + oneHourMs;
+        }
+        if (now >= availableAt) {
+          return { withinLimit: true };
+        }
+        return { withinLimit: false, availableAt };
+      });
+
+      await worker.runUntil(() => runJourney(definition));
+
+      expect(getRateLimitStatusMock).toHaveBeenCalledTimes(2);
+      expect(senderMock).toHaveBeenCalledTimes(1);
+    });
+
+    describe("when the user is not back under the limit before the max wait", () => {
+      it("proceeds to the limited child once the max wait has elapsed", async () => {
+        const definition = await setupJourney({
+          exceededBehavior: RateLimitExceededBehavior.Wait,
+          maxWaitSeconds: 60 * 60,
+        });
+        const startedAt = await testEnv.currentTimeMs();
+        getRateLimitStatusMock.mockImplementation(async () => ({
+          withinLimit: false,
+          availableAt: (await testEnv.currentTimeMs()) + 24 * oneHourMs,
+        }));
+
+        await worker.runUntil(() => runJourney(definition));
+
+        expect(getRateLimitStatusMock).toHaveBeenCalledTimes(2);
+        expect(senderMock).not.toHaveBeenCalled();
+        expect(await testEnv.currentTimeMs()).toBeGreaterThanOrEqual(
+          startedAt + oneHourMs,
+        );
+      });
+    });
+  });
+});
@@ -15,6 +15,13 @@ export async function recordNodeProcessed({
   journeyId,
   workspaceId,
   eventKey,
+  experimentArmId,
+  quietHoursHeldMs,
+  quietHoursDropped,
+  goalReached,
+  timeToConvertMs,
+  conversionMessageNodeId,
+  timeFromMessageToConvertMs,
 }: RecordNodeProcessedParams) {
   const journeyStartedAtDate = new Date(journeyStartedAt);
   const nodeId = getNodeId(node);
@@ -52,7 +59,20 @@ export async function recordNodeProcessed({
         userId,
         event: InternalEventType.JourneyNodeProcessed,
         messageId: uuidv5(messageIdName, workspaceId),
-        properties: trackedFields,
+        properties: {
+          ...trackedFields,
+          ...(experimentArmId ? { experimentArmId } : {}),
+          ...(quietHoursHeldMs ? { quietHoursHeldMs } : {}),
+          ...(quietHoursDropped ? { quietHoursDropped } : {}),
+          ...(goalReached
+            ? {
+                goalReached,
+                timeToConvertMs,
+                conversionMessageNodeId,
+                timeFromMessageToConvertMs,
+              }
+            : {}),
+        },
       },
     }),
   ]);
@@ -65,4 +85,18 @@ export interface RecordNodeProcessedParams {
   workspaceId: string;
   eventKey?: string;
   eventKeyName?: string;
+  // arm which the user was bucketed into by an experiment split node
+  experimentArmId?: string;
+  // time a message node spent waiting for quiet hours to end
+  quietHoursHeldMs?: number;
+  // whether a message node dropped its message due to quiet hours
+  quietHoursDropped?: boolean;
+  // whether the user exited the journey after reaching its goal
+  goalReached?: boolean;
+  // time from entering the journey until reaching its goal
+  timeToConvertMs?: number;
+  // last message node the user passed through before reaching the goal
+  conversionMessageNodeId?: string;
+  // time from that message being sent until reaching the goal
+  timeFromMessageToConvertMs?: number;
 }
@@ -9,6 +9,11 @@ import {
   workflowInfo,
 } from "@temporalio/workflow";
 import * as wf from "@temporalio/workflow";
+import { doesEventNameMatch } from "isomorphic-lib/src/events";
+import {
+  assignExperimentArm,
+  EXPERIMENT_HOLDOUT_ARM_ID,
+} from "isomorphic-lib/src/experiments";
 import { omit } from "remeda";
 import { v5 as uuidV5 } from "uuid";
 
@@ -19,13 +24,19 @@ import {
   ChannelType,
   DelayVariantType,
   EventEntryNode,
+  HttpRequestNode,
   JourneyDefinition,
+  JourneyGoalType,
   JourneyNode,
   JourneyNodeType,
   JSONValue,
   MessageVariant,
+  QuietHoursBehavior,
+  RateLimitExceededBehavior,
+  RateLimitNode,
   RenameKey,
   SegmentAssignment as SegmentAssignmentDb,
+  SegmentSplitVariantType,
   SegmentUpdate,
   SmsMessageVariant,
   SmsProviderOverride,
@@ -35,7 +46,10 @@ import {
   WaitForSegmentChild,
 } from "../types";
 import * as activities from "./userWorkflow/activities";
-import { GetSegmentAssignmentVersion } from "./userWorkflow/types";
+import {
+  GetSegmentAssignmentVersion,
+  HttpRequestResult,
+} from "./userWorkflow/types";
 
 const { defaultWorkerLogger: logger } = proxySinks<LoggerSinks>();
 
@@ -44,6 +58,11 @@ export const segmentUpdateSignal =
 
 export const trackSignal = wf.defineSignal<[UserWorkflowTrackEvent]>("track");
 
+// delivers events matching the journey's goal event, without adding them to
+// the keyed events used to render messages
+export const goalEventSignal =
+  wf.defineSignal<[UserWorkflowTrackEvent]>("goalEvent");
+
 const WORKFLOW_NAME = "userJourneyWorkflow";
 
 const {
@@ -56,6 +75,10 @@ const {
   getUserPropertyDelay,
   getWorkspace,
   shouldReEnter,
+  getRateLimitStatus,
+  getQuietHoursStatus,
+  sendHttpRequest,
+  submitHttpResponseTraits,
 } = proxyActivities<typeof activities>({
   startToCloseTimeout: "2 minutes",
 });
@@ -145,6 +168,7 @@ const LONG_RUNNING_NODE_TYPES = new Set<JourneyNodeType>([
   JourneyNodeType.WaitForNode,
   JourneyNodeType.DelayNode,
   JourneyNodeType.SegmentEntryNode,
+  JourneyNodeType.RateLimitNode,
 ]);
 
 export async function userJourneyWorkflow(
@@ -256,6 +280,29 @@ export async function userJourneyWorkflow(
   }
   nodes.set(definition.exitNode.type, definition.exitNode);
   let waitForSegmentIds: WaitForSegmentChild[] | null = null;
+  let goalEventPerformed = false;
+
+  function onGoalEvent(event: UserWorkflowTrackEvent) {
+    if (
+      definition.goal?.type === JourneyGoalType.Event &&
+      doesEventNameMatch({
+        pattern: definition.goal.event,
+        event: event.event,
+      })
+    ) {
+      goalEventPerformed = true;
+    }
+  }
+
+  wf.setHandler(goalEventSignal, (event) => {
+    logger.info("goal event signal", {
+      workspaceId,
+      journeyId,
+      userId,
+      messageId: event.messageId,
+    });
+    onGoalEvent(event);
+  });
 
   wf.setHandler(trackSignal, async (event) => {
     logger.info("keyed event signal", {
@@ -275,6 +322,7 @@ export async function userJourneyWorkflow(
     }
     keyedEvents.push(event);
     keyedEventIds.add(event.messageId);
+    onGoalEvent(event);
 
     if (!waitForSegmentIds) {
       logger.debug("no wait for segments, skipping", {
@@ -345,6 +393,34 @@ export async function userJourneyWorkflow(
     return segmentAssignments.get(segmentId)?.currentlyInSegment === true;
   }
 
+  function isGoalReached(): boolean {
+    const { goal } = definition;
+    if (!goal) {
+      return false;
+    }
+    switch (goal.type) {
+      case JourneyGoalType.Segment:
+        return segmentAssignedTrue(goal.segment);
+      case JourneyGoalType.Event:
+        return goalEventPerformed;
+    }
+  }
+
+  // sleeps which are cut short when the user reaches the journey's goal
+  async function sleepUntilGoal(ms: number) {
+    if (!definition.goal) {
+      await sleep(ms);
+      return;
+    }
+    await wf.condition(isGoalReached, ms);
+  }
+
+  // the last message node the user passed through, to which conversions are
+  // attributed
+  let lastMessageNodeId: string | undefined;
+  let lastMessageAt: number | undefined;
+  let goalReachedAt: number | undefined;
+
   // loop with finite length as a safety stopgap
   nodeLoop: for (let i = 0; i < nodes.size + 1; i++) {
     const defaultLoggingFields = {
@@ -362,6 +438,46 @@ export async function userJourneyWorkflow(
       ...defaultLoggingFields,
       type: currentNode.type,
     });
+
+    if (
+      definition.goal &&
+      currentNode.type !== JourneyNodeType.SegmentEntryNode &&
+      currentNode.type !== JourneyNodeType.EventEntryNode
+    ) {
+      const { goal } = definition;
+      // segment updates are only signalled to un-keyed journeys, so the goal
+      // segment's assignment is re-checked before each node
+      if (goal.type === JourneyGoalType.Segment && !isGoalReached()) {
+        const nowMs = Date.now();
+        const assignment = await getSegmentAssignment({
+          workspaceId,
+          userId,
+          segmentId: goal.segment,
+          events: keyedEvents,
+          keyValue: eventKey,
+          nowMs,
+          version: GetSegmentAssignmentVersion.V1,
+        });
+        if (assignment?.inSegment) {
+          segmentAssignments.set(goal.segment, {
+            currentlyInSegment: true,
+            segmentVersion: nowMs,
+          });
+        }
+      }
+      if (isGoalReached()) {
+        goalReachedAt = Date.now();
+        logger.info("journey goal reached, exiting journey", {
+          ...defaultLoggingFields,
+          lastMessageNodeId,
+        });
+        break;
+      }
+    }
+
+    let experimentArmId: string | undefined;
+    let quietHoursHeldMs: number | undefined;
+    let quietHoursDropped: boolean | undefined;
     switch (currentNode.type) {
       case JourneyNodeType.SegmentEntryNode: {
         const cn = currentNode;
@@ -448,7 +564,7 @@ export async function userJourneyWorkflow(
             delay,
             ...defaultLoggingFields,
           });
-          await sleep(delay);
+          await sleepUntilGoal(delay);
         } else {
           logger.info("no delay", {
             ...defaultLoggingFields,
@@ -500,11 +616,21 @@ export async function userJourneyWorkflow(
 
         if (!satisfiedSegmentWithinTimeout) {
           satisfiedSegmentWithinTimeout = await wf.condition(
-            () => segmentChildren.some((s) => segmentAssignedTrue(s.segmentId)),
+            () =>
+              segmentChildren.some((s) => segmentAssignedTrue(s.segmentId)) ||
+              isGoalReached(),
             timeoutSeconds * 1000,
           );
         }
         waitForSegmentIds = null;
+        if (
+          isGoalReached() &&
+          !segmentChildren.some((s) => segmentAssignedTrue(s.segmentId))
+        ) {
+          // exits on the goal check preceding the next node
+          nextNode = nodes.get(cn.timeoutChild) ?? definition.exitNode;
+          break;
+        }
         if (satisfiedSegmentWithinTimeout) {
           const child = segmentChildren.find((s) =>
             segmentAssignedTrue(s.segmentId),
@@ -542,18 +668,53 @@ export async function userJourneyWorkflow(
       case JourneyNodeType.SegmentSplitNode: {
         const cn = currentNode;
 
-        const segmentAssignment = await getSegmentAssignment({
-          workspaceId,
-          userId,
-          segmentId: cn.variant.segment,
-          events: keyedEvents,
-          keyValue: eventKey,
-          nowMs: Date.now(),
-          version: GetSegmentAssignmentVersion.V1,
-        });
-        const nextNodeId: string = segmentAssignment?.inSegment
-          ? currentNode.variant.trueChild
-          : currentNode.variant.falseChild;
+        let nextNodeId: string;
+        switch (cn.variant.type) {
+          case SegmentSplitVariantType.Boolean: {
+            const segmentAssignment = await getSegmentAssignment({
+              workspaceId,
+              userId,
+              segmentId: cn.variant.segment,
+              events: keyedEvents,
+              keyValue: eventKey,
+              nowMs: Date.now(),
+              version: GetSegmentAssignmentVersion.V1,
+            });
+            nextNodeId = segmentAssignment?.inSegment
+              ? cn.variant.trueChild
+              : cn.variant.falseChild;
+            break;
+          }
+          case SegmentSplitVariantType.FirstMatch: {
+            nextNodeId = cn.variant.defaultChild;
+            // evaluated sequentially so that later segments are only
+            // calculated when needed
+            for (const branch of cn.variant.branches) {
+              const segmentAssignment = await getSegmentAssignment({
+                workspaceId,
+                userId,
+                segmentId: branch.segmentId,
+                events: keyedEvents,
+                keyValue: eventKey,
+                nowMs: Date.now(),
+                version: GetSegmentAssignmentVersion.V1,
+              });
+              if (segmentAssignment?.inSegment) {
+                nextNodeId = branch.child;
+                break;
+              }
+            }
+            break;
+          }
+          default:
+            logger.error("un-implemented segment split variant", {
+              ...defaultLoggingFields,
+              variant: cn.variant,
+            });
+            assertUnreachableSafe(cn.variant, "un-implemented split variant");
+            // falls through to the exit node below
+            nextNodeId = "";
+        }
 
         if (!nextNodeId) {
           nextNode = definition.exitNode;
@@ -609,6 +770,20 @@ export async function userJourneyWorkflow(
                 };
                 break;
               }
+              case SmsProviderType.Vonage: {
+                smsProviderOverride = {
+                  providerOverride: SmsProviderType.Vonage,
+                  senderOverride: undefined,
+                };
+                break;
+              }
+              case SmsProviderType.Sns: {
+                smsProviderOverride = {
+                  providerOverride: SmsProviderType.Sns,
+                  senderOverride: undefined,
+                };
+                break;
+              }
               case SmsProviderType.Test: {
                 smsProviderOverride = {
                   providerOverride: SmsProviderType.Test,
@@ -646,6 +821,49 @@ export async function userJourneyWorkflow(
           }
         }
 
+        // guarded so that workflows which were already in flight before quiet
+        // hours were introduced replay deterministically
+        if (wf.patched("quiet-hours")) {
+          const quietHours = await getQuietHoursStatus({
+            workspaceId,
+            userId,
+            channel: currentNode.variant.type,
+            now: Date.now(),
+            journeyQuietHours: definition.quietHours,
+          });
+          if (quietHours.inQuietHours) {
+            if (quietHours.behavior === QuietHoursBehavior.Drop) {
+              logger.info("dropping message during quiet hours", {
+                ...defaultLoggingFields,
+                endsAt: quietHours.endsAt,
+              });
+              quietHoursDropped = true;
+              nextNode = nodes.get(currentNode.child) ?? null;
+              if (!nextNode) {
+                logger.error("missing message node child", {
+                  ...defaultLoggingFields,
+                  child: currentNode.child,
+                });
+                nextNode = definition.exitNode;
+              }
+              break;
+            }
+            logger.info("holding message until quiet hours end", {
+              ...defaultLoggingFields,
+              endsAt: quietHours.endsAt,
+            });
+            const heldAt = Date.now();
+            await sleepUntilGoal(Math.max(quietHours.endsAt - heldAt, 1000));
+            quietHoursHeldMs = Date.now() - heldAt;
+            if (isGoalReached()) {
+              // the held message is no longer needed, exits on the goal check
+              // preceding the next node
+              nextNode = nodes.get(currentNode.child) ?? definition.exitNode;
+              break;
+            }
+          }
+        }
+
         const messageSucceeded = await sendMessageV2({
           ...messagePayload,
           ...variant,
@@ -662,6 +880,10 @@ export async function userJourneyWorkflow(
           nextNode = definition.exitNode;
           break;
         }
+        if (messageSucceeded) {
+          lastMessageNodeId = currentNode.id;
+          lastMessageAt = Date.now();
+        }
 
         if (currentNode.syncProperties) {
           const now = Date.now();
@@ -711,19 +933,155 @@ export async function userJourneyWorkflow(
         break nodeLoop;
       }
       case JourneyNodeType.ExperimentSplitNode: {
-        logger.error("unable to handle un-implemented node type", {
+        const assignment = assignExperimentArm({
+          journeyId,
+          userId,
+          node: currentNode,
+        });
+        if (!assignment) {
+          logger.error("experiment split node has no arms with weight", {
+            ...defaultLoggingFields,
+          });
+          nextNode = definition.exitNode;
+          break;
+        }
+        let nextNodeId: string;
+        if (assignment.type === "holdout") {
+          experimentArmId = EXPERIMENT_HOLDOUT_ARM_ID;
+          nextNodeId = assignment.child;
+        } else {
+          experimentArmId = assignment.arm.id;
+          nextNodeId = assignment.arm.child;
+        }
+        logger.info("experiment arm assigned", {
           ...defaultLoggingFields,
-          nodeType: currentNode.type,
+          experimentArmId,
         });
-        nextNode = definition.exitNode;
+        nextNode = nodes.get(nextNodeId) ?? null;
+        if (!nextNode) {
+          logger.error("missing experiment split node child", {
+            ...defaultLoggingFields,
+            nextNodeId,
+          });
+          nextNode = definition.exitNode;
+          break;
+        }
         break;
       }
       case JourneyNodeType.RateLimitNode: {
-        logger.error("unable to handle un-implemented node type", {
+        const cn: RateLimitNode = currentNode;
+        const deadline =
+          cn.maxWaitSeconds !== undefined
+            ? Date.now() + cn.maxWaitSeconds * 1000
+            : null;
+        let withinLimit = false;
+        // eslint-disable-next-line no-constant-condition, @typescript-eslint/no-unnecessary-condition
+        while (true) {
+          const now = Date.now();
+          const status = await getRateLimitStatus({
+            workspaceId,
+            userId,
+            journeyId,
+            node: cn,
+            now,
+          });
+          if (status.withinLimit) {
+            withinLimit = true;
+            break;
+          }
+          if (
+            cn.exceededBehavior === RateLimitExceededBehavior.Branch ||
+            status.availableAt === null ||
+            (deadline !== null && now >= deadline)
+          ) {
+            break;
+          }
+          const wakeAt =
+            deadline !== null
+              ? Math.min(status.availableAt, deadline)
+              : status.availableAt;
+          logger.info("rate limited, waiting", {
+            ...defaultLoggingFields,
+            wakeAt,
+          });
+          // sleep for at least a second to avoid spinning on recently sent
+          // messages which haven't been ingested yet
+          await sleepUntilGoal(Math.max(wakeAt - now, 1000));
+          if (isGoalReached()) {
+            break;
+          }
+        }
+        const nextNodeId: string = withinLimit ? cn.child : cn.limitedChild;
+        nextNode = nodes.get(nextNodeId) ?? null;
+        if (!nextNode) {
+          logger.error("missing rate limit node child", {
+            ...defaultLoggingFields,
+            nextNodeId,
+          });
+          nextNode = definition.exitNode;
+          break;
+        }
+        break;
+      }
+      case JourneyNodeType.HttpRequestNode: {
+        const cn: HttpRequestNode = currentNode;
+        const requestParams: Parameters<typeof sendHttpRequest>[0] = {
+          workspaceId,
+          userId,
+          journeyId,
+          runId,
+          messageId: uuid4(),
+          node: cn,
+          events: keyedEvents,
+        };
+        let result = null as HttpRequestResult | null;
+        if (cn.retry) {
+          // server errors and requests which failed without a response are
+          // retried, client errors are treated as final
+          await retryExponential({
+            sleep,
+            check: async () => {
+              result = await sendHttpRequest(requestParams);
+              return result.type === "Response"
+                ? result.status < 500
+                : !result.retryable;
+            },
+            logger,
+            baseDelay: (cn.retry.baseDelaySeconds ?? 1) * 1000,
+            maxAttempts: cn.retry.maxAttempts,
+          });
+        } else {
+          result = await sendHttpRequest(requestParams);
+        }
+        if (result?.type === "Response" && result.traits) {
+          await submitHttpResponseTraits({
+            workspaceId,
+            userId,
+            messageId: requestParams.messageId,
+            traits: result.traits,
+          });
+        }
+        const status = result?.type === "Response" ? result.status : null;
+        logger.info("http request node completed", {
           ...defaultLoggingFields,
-          nodeType: currentNode.type,
+          status,
         });
-        nextNode = definition.exitNode;
+        const nextNodeId =
+          (status !== null
+            ? cn.statusBranches.find(
+                (branch) =>
+                  status >= branch.minStatus && status <= branch.maxStatus,
+              )?.child
+            : undefined) ?? cn.child;
+        nextNode = nodes.get(nextNodeId) ?? null;
+        if (!nextNode) {
+          logger.error("missing http request node child", {
+            ...defaultLoggingFields,
+            nextNodeId,
+          });
+          nextNode = definition.exitNode;
+          break;
+        }
         break;
       }
       default:
@@ -744,10 +1102,16 @@ export async function userJourneyWorkflow(
       journeyId,
       eventKey,
       eventKeyName,
+      experimentArmId,
+      quietHoursHeldMs,
+      quietHoursDropped,
     });
 
     // check if workspace is inactive after a long running node
-    if (LONG_RUNNING_NODE_TYPES.has(currentNode.type)) {
+    if (
+      LONG_RUNNING_NODE_TYPES.has(currentNode.type) ||
+      quietHoursHeldMs !== undefined
+    ) {
       const workspace = await getWorkspace(workspaceId);
       if (workspace?.status !== "Active") {
         logger.info("workspace is not active, exiting journey", {
@@ -769,6 +1133,17 @@ export async function userJourneyWorkflow(
     journeyId,
     eventKey,
     eventKeyName,
+    ...(goalReachedAt !== undefined
+      ? {
+          goalReached: true,
+          timeToConvertMs: goalReachedAt - journeyStartedAt,
+          conversionMessageNodeId: lastMessageNodeId,
+          timeFromMessageToConvertMs:
+            lastMessageAt !== undefined
+              ? goalReachedAt - lastMessageAt
+              : undefined,
+        }
+      : {}),
   });
 
   if (await shouldReEnter({ journeyId, userId, workspaceId })) {
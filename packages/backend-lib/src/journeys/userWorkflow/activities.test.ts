@@ -0,0 +1,298 @@
+import axios from "axios";
+import { randomUUID } from "crypto";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+
+import { submitBatch, TestEvent } from "../../../test/testEvents";
+import { upsertMessageTemplate } from "../../messaging";
+import {
+  ChannelType,
+  EmailProviderType,
+  EventType,
+  InternalEventType,
+  RateLimitScope,
+  SmsProviderType,
+  Workspace,
+} from "../../types";
+import { findIdentifyTraits } from "../../userEvents";
+import { createWorkspace } from "../../workspaces";
+import {
+  getRateLimitStatus,
+  sendHttpRequest,
+  submitHttpResponseTraits,
+} from "./activities";
+
+jest.mock("axios");
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+describe("getRateLimitStatus", () => {
+  let workspace: Workspace;
+  let userId: string;
+  let journeyId: string;
+  let otherJourneyId: string;
+  let now: number;
+  const oneHourMs = 60 * 60 * 1000;
+
+  function messageSent({
+    offsetMs,
+    sentByJourneyId,
+    channel = ChannelType.Email,
+  }: {
+    offsetMs: number;
+    sentByJourneyId: string;
+    channel?: ChannelType;
+  }): TestEvent {
+    return {
+      type: EventType.Track,
+      userId,
+      offsetMs,
+      event: InternalEventType.MessageSent,
+      properties: {
+        workspaceId: workspace.id,
+        journeyId: sentByJourneyId,
+        nodeId: randomUUID(),
+        runId: randomUUID(),
+        messageId: randomUUID(),
+        templateId: randomUUID(),
+        variant:
+          channel === ChannelType.Email
+            ? {
+                type: ChannelType.Email,
+                from: "test-from@email.com",
+                to: "test-to@email.com",
+                body: "body",
+                subject: "subject",
+                provider: {
+                  type: EmailProviderType.Test,
+                },
+              }
+            : {
+                type: ChannelType.Sms,
+                to: "+15555555555",
+                body: "body",
+                provider: {
+                  type: SmsProviderType.Test,
+                },
+              },
+      },
+    };
+  }
+
+  beforeEach(async () => {
+    workspace = unwrap(
+      await createWorkspace({
+        name: `rate-limit-${randomUUID()}`,
+      }),
+    );
+    userId = randomUUID();
+    journeyId = randomUUID();
+    otherJourneyId = randomUUID();
+    now = Date.now();
+
+    await submitBatch({
+      workspaceId: workspace.id,
+      now,
+      data: [
+        // outside of a two hour window
+        messageSent({ offsetMs: -3 * oneHourMs, sentByJourneyId: journeyId }),
+        messageSent({ offsetMs: -90 * 60 * 1000, sentByJourneyId: journeyId }),
+        messageSent({ offsetMs: -oneHourMs, sentByJourneyId: otherJourneyId }),
+        messageSent({
+          offsetMs: -30 * 60 * 1000,
+          sentByJourneyId: journeyId,
+          channel: ChannelType.Sms,
+        }),
+      ],
+    });
+  });
+
+  describe("when the user has been sent fewer messages than the limit within the window", () => {
+    it("is within the limit", async () => {
+      const status = await getRateLimitStatus({
+        workspaceId: workspace.id,
+        userId,
+        journeyId,
+        now,
+        node: {
+          channel: ChannelType.Email,
+          limit: 3,
+          windowSeconds: 2 * 60 * 60,
+          scope: RateLimitScope.Workspace,
+        },
+      });
+      expect(status).toEqual({ withinLimit: true });
+    });
+  });
+
+  describe("when the user has reached the limit within the window", () => {
+    it("is available once the oldest message in the limit falls out of the window", async () => {
+      const status = await getRateLimitStatus({
+        workspaceId: workspace.id,
+        userId,
+        journeyId,
+        now,
+        node: {
+          channel: ChannelType.Email,
+          limit: 2,
+          windowSeconds: 2 * 60 * 60,
+          scope: RateLimitScope.Workspace,
+        },
+      });
+      expect(status).toEqual({
+        withinLimit: false,
+        availableAt: now - 90 * 60 * 1000 + 2 * oneHourMs,
+      });
+    });
+  });
+
+  describe("when the rate limit is scoped to the journey", () => {
+    it("ignores messages sent by other journeys", async () => {
+      const status = await getRateLimitStatus({
+        workspaceId: workspace.id,
+        userId,
+        journeyId,
+        now,
+        node: {
+          channel: ChannelType.Email,
+          limit: 2,
+          windowSeconds: 2 * 60 * 60,
+          scope: RateLimitScope.Journey,
+        },
+      });
+      expect(status).toEqual({ withinLimit: true });
+    });
+  });
+
+  describe("when the limit is zero", () => {
+    it("is never available", async () => {
+      const status = await getRateLimitStatus({
+        workspaceId: workspace.id,
+        userId,
+        journeyId,
+        now,
+        node: {
+          channel: ChannelType.Email,
+          limit: 0,
+          windowSeconds: 60,
+          scope: RateLimitScope.Workspace,
+        },
+      });
+      expect(status).toEqual({ withinLimit: false, availableAt: null });
+    });
+  });
+});
+
+describe("sendHttpRequest", () => {
+  let workspace: Workspace;
+  let userId: string;
+  let templateId: string;
+
+  function send() {
+    return sendHttpRequest({
+      workspaceId: workspace.id,
+      userId,
+      journeyId: randomUUID(),
+      runId: randomUUID(),
+      messageId: randomUUID(),
+      node: {
+        id: "http-request",
+        templateId,
+        traits: [
+          { path: "$.plan.name", trait: "plan" },
+          { path: "$.missing", trait: "missing" },
+        ],
+      },
+    });
+  }
+
+  beforeEach(async () => {
+    workspace = unwrap(
+      await createWorkspace({
+        name: `http-request-${randomUUID()}`,
+      }),
+    );
+    userId = randomUUID();
+    const template = unwrap(
+      await upsertMessageTemplate({
+        name: randomUUID(),
+        workspaceId: workspace.id,
+        definition: {
+          type: ChannelType.Webhook,
+          identifierKey: "id",
+          body: JSON.stringify({
+            config: {
+              url: "https://dittofeed-test.com",
+              method: "POST",
+              responseType: "json",
+            },
+          }),
+        },
+      }),
+    );
+    templateId = template.id;
+    mockAxios.request.mockReset();
+  });
+
+  describe("when the request succeeds", () => {
+    it("returns the status and the traits found in the response", async () => {
+      mockAxios.request.mockResolvedValue({
+        status: 200,
+        data: { plan: { name: "pro" } },
+        statusText: "OK",
+        headers: {},
+        config: {},
+      });
+      const result = await send();
+      expect(result).toEqual({
+        type: "Response",
+        status: 200,
+        traits: { plan: "pro" },
+      });
+    });
+  });
+
+  describe("when the request fails with an error response", () => {
+    it("returns the status without traits", async () => {
+      mockAxios.request.mockRejectedValue(
+        Object.assign(new Error("server error"), {
+          response: { status: 503, data: { plan: { name: "pro" } } },
+        }),
+      );
+      const result = await send();
+      expect(result).toEqual({ type: "Response", status: 503 });
+    });
+  });
+
+  describe("when the request fails without a response", () => {
+    it("returns a retryable failure", async () => {
+      mockAxios.request.mockRejectedValue(
+        Object.assign(new Error("timeout"), { code: "ECONNABORTED" }),
+      );
+      const result = await send();
+      expect(result).toEqual({ type: "Failed", retryable: true });
+    });
+  });
+});
+
+describe("submitHttpResponseTraits", () => {
+  let workspace: Workspace;
+
+  beforeEach(async () => {
+    workspace = unwrap(
+      await createWorkspace({
+        name: `http-request-traits-${randomUUID()}`,
+      }),
+    );
+  });
+
+  it("writes the traits to the user", async () => {
+    await submitHttpResponseTraits({
+      workspaceId: workspace.id,
+      userId: randomUUID(),
+      messageId: randomUUID(),
+      traits: { plan: "pro" },
+    });
+    const traits = await findIdentifyTraits({ workspaceId: workspace.id });
+    expect(traits).toEqual(["plan"]);
+  });
+});
@@ -1,11 +1,14 @@
 import { SpanStatusCode } from "@opentelemetry/api";
+import axios, { AxiosError } from "axios";
 import { and, eq, inArray } from "drizzle-orm";
 import { ENTRY_TYPES } from "isomorphic-lib/src/constants";
 import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
 import { err, ok } from "neverthrow";
 import { omit } from "remeda";
 
+import { submitIdentify } from "../../apps/identify";
 import { submitTrack } from "../../apps/track";
+import { findQuietHoursEnd } from "../../dates";
 import { db } from "../../db";
 import {
   journey as dbJourney,
@@ -13,8 +16,17 @@ import {
   userJourneyEvent as dbUserJourneyEvent,
   workspace as dbWorkspace,
 } from "../../db/schema";
+import { getRecentDeliveryTimes } from "../../deliveries";
+import { getFeatureConfig } from "../../features";
+import { jsonValue } from "../../jsonPath";
 import logger from "../../logger";
-import { Sender, sendMessage, SendMessageParameters } from "../../messaging";
+import {
+  renderWebhookRequest,
+  Sender,
+  sendMessage,
+  SendMessageParameters,
+} from "../../messaging";
+import { getMessageIdempotencyKey } from "../../messaging/idempotency";
 import { withSpan } from "../../openTelemetry";
 import { calculateKeyedSegment, getSegmentAssignmentDb } from "../../segments";
 import {
@@ -24,6 +36,9 @@ import {
 import {
   BackendMessageSendResult,
   BadWorkspaceConfigurationType,
+  ChannelType,
+  FeatureNamesEnum,
+  HttpRequestNode,
   InternalEventType,
   JourneyDefinition,
   JourneyNodeType,
@@ -31,6 +46,9 @@ import {
   MessageTags,
   MessageVariant,
   OptionalAllOrNothing,
+  QuietHoursPolicy,
+  RateLimitNode,
+  RateLimitScope,
   RenameKey,
   SegmentAssignment,
   SegmentDefinition,
@@ -43,7 +61,12 @@ import {
   recordNodeProcessed,
   RecordNodeProcessedParams,
 } from "../recordNodeProcessed";
-import { GetSegmentAssignmentVersion } from "./types";
+import {
+  GetSegmentAssignmentVersion,
+  HttpRequestResult,
+  QuietHoursStatus,
+  RateLimitStatus,
+} from "./types";
 
 export { findNextLocalizedTime, getUserPropertyDelay } from "../../dates";
 export { findAllUserPropertyAssignments } from "../../userProperties";
@@ -94,14 +117,18 @@ async function sendMessageInner({
   const [userPropertyAssignments, journey, subscriptionGroup] =
     await Promise.all([
       findAllUserPropertyAssignments({ userId, workspaceId, context }),
-      db().query.journey.findFirst({ 
+      db().query.journey.findFirst({
         where: and(
           eq(dbJourney.id, journeyId),
-          eq(dbJourney.workspaceId, workspaceId)
-        )
+          eq(dbJourney.workspaceId, workspaceId),
+        ),
       }),
       subscriptionGroupId
-        ? getSubscriptionGroupWithAssignment({ userId, subscriptionGroupId, workspaceId })
+        ? getSubscriptionGroupWithAssignment({
+            userId,
+            subscriptionGroupId,
+            workspaceId,
+          })
         : null,
     ]);
 
@@ -149,6 +176,13 @@ async function sendMessageInner({
     userPropertyAssignments,
     subscriptionGroupDetails,
     messageTags,
+    idempotencyKey: getMessageIdempotencyKey({
+      workspaceId,
+      journeyId,
+      nodeId,
+      userId,
+      runId,
+    }),
     ...rest,
   });
   return result;
@@ -299,6 +333,198 @@ export async function onNodeProcessedV2(params: RecordNodeProcessedParams) {
   await recordNodeProcessed(params);
 }
 
+export async function getRateLimitStatus({
+  workspaceId,
+  userId,
+  journeyId,
+  node,
+  now,
+}: {
+  workspaceId: string;
+  userId: string;
+  journeyId: string;
+  node: Pick<RateLimitNode, "channel" | "limit" | "windowSeconds" | "scope">;
+  now: number;
+}): Promise<RateLimitStatus> {
+  const windowMs = node.windowSeconds * 1000;
+  if (node.limit <= 0) {
+    return { withinLimit: false, availableAt: null };
+  }
+  const sentTimes = await getRecentDeliveryTimes({
+    workspaceId,
+    userId,
+    channel: node.channel,
+    journeyId: node.scope === RateLimitScope.Journey ? journeyId : undefined,
+    since: now - windowMs,
+    limit: node.limit,
+  });
+  const oldest = sentTimes[node.limit - 1];
+  if (oldest === undefined) {
+    return { withinLimit: true };
+  }
+  // the user drops back under the limit once the oldest of the most recent
+  // messages falls out of the window
+  return { withinLimit: false, availableAt: oldest + windowMs };
+}
+
+/**
+ * Checks whether a message on the given channel would land within the quiet
+ * hours of the user's local timezone. The journey's own policy takes
+ * precedence over the workspace's.
+ */
+export async function getQuietHoursStatus({
+  workspaceId,
+  userId,
+  channel,
+  now,
+  journeyQuietHours,
+}: {
+  workspaceId: string;
+  userId: string;
+  channel: ChannelType;
+  now: number;
+  journeyQuietHours?: QuietHoursPolicy;
+}): Promise<QuietHoursStatus> {
+  const policy =
+    journeyQuietHours ??
+    (await getFeatureConfig({
+      workspaceId,
+      name: FeatureNamesEnum.QuietHours,
+    }));
+  if (!policy) {
+    return { inQuietHours: false };
+  }
+  const endsAt = await findQuietHoursEnd({
+    workspaceId,
+    userId,
+    now,
+    channel,
+    windows: policy.windows,
+  });
+  if (endsAt === null) {
+    return { inQuietHours: false };
+  }
+  return { inQuietHours: true, behavior: policy.behavior, endsAt };
+}
+
+/**
+ * Makes the request described by an HTTP request node's webhook template, and
+ * writes the values mapped from a successful response's body into the user's
+ * traits.
+ */
+export async function sendHttpRequest({
+  workspaceId,
+  userId,
+  journeyId,
+  runId,
+  messageId,
+  node,
+  events,
+}: {
+  workspaceId: string;
+  userId: string;
+  journeyId: string;
+  runId: string;
+  messageId: string;
+  node: Pick<
+    HttpRequestNode,
+    "id" | "templateId" | "timeoutSeconds" | "traits"
+  >;
+  events?: UserWorkflowTrackEvent[];
+}): Promise<HttpRequestResult> {
+  const userPropertyAssignments = await findAllUserPropertyAssignments({
+    userId,
+    workspaceId,
+    context: events?.flatMap((e) => e.properties ?? []),
+  });
+  const messageTags: MessageTags = {
+    workspaceId,
+    runId,
+    nodeId: node.id,
+    journeyId,
+    templateId: node.templateId,
+    messageId,
+    userId,
+  };
+  const rendered = await renderWebhookRequest({
+    workspaceId,
+    templateId: node.templateId,
+    userPropertyAssignments,
+    messageTags,
+    useDraft: false,
+  });
+  if (rendered.isErr()) {
+    logger().error(
+      {
+        ...messageTags,
+        err: rendered.error,
+      },
+      "failed to render http request node template",
+    );
+    return { type: "Failed", retryable: false };
+  }
+
+  let status: number;
+  let body: unknown;
+  try {
+    const response = await axios.request({
+      ...rendered.value.request,
+      timeout:
+        node.timeoutSeconds !== undefined
+          ? node.timeoutSeconds * 1000
+          : undefined,
+    });
+    status = response.status;
+    body = response.data;
+  } catch (e) {
+    const { response, code } = e as AxiosError;
+    if (!response) {
+      logger().info(
+        {
+          ...messageTags,
+          code,
+        },
+        "http request node request failed without a response",
+      );
+      return { type: "Failed", retryable: true };
+    }
+    return { type: "Response", status: response.status };
+  }
+
+  const traits: Record<string, JSONValue> = {};
+  for (const { path, trait } of node.traits) {
+    const value = jsonValue({ data: body, path }).unwrapOr(undefined);
+    if (value !== undefined) {
+      traits[trait] = value;
+    }
+  }
+  if (Object.keys(traits).length > 0) {
+    return { type: "Response", status, traits };
+  }
+  return { type: "Response", status };
+}
+
+export async function submitHttpResponseTraits({
+  workspaceId,
+  userId,
+  messageId,
+  traits,
+}: {
+  workspaceId: string;
+  userId: string;
+  messageId: string;
+  traits: Record<string, JSONValue>;
+}) {
+  await submitIdentify({
+    workspaceId,
+    data: {
+      userId,
+      messageId,
+      traits,
+    },
+  });
+}
+
 export async function getSegmentAssignment(
   params: OptionalAllOrNothing<
     {
@@ -1,5 +1,9 @@
-import { WorkflowExecutionAlreadyStartedError } from "@temporalio/common";
 import {
+  WorkflowExecutionAlreadyStartedError,
+  WorkflowNotFoundError,
+} from "@temporalio/common";
+import {
+  JourneyDefinition,
   JourneyNodeType,
   MakeRequired,
   UserWorkflowTrackEvent,
@@ -9,6 +13,8 @@ import logger from "../../logger";
 import connectWorkflowClient from "../../temporal/connectWorkflowClient";
 import {
   getKeyedUserJourneyWorkflowId,
+  getUserJourneyWorkflowId,
+  goalEventSignal,
   trackSignal,
   userJourneyWorkflow,
   UserJourneyWorkflowPropsV2,
@@ -86,3 +92,72 @@ export async function startKeyedUserJourney({
     throw e;
   }
 }
+
+export interface SignalJourneyGoalEventProps {
+  journeyId: string;
+  workspaceId: string;
+  userId: string;
+  definition: JourneyDefinition;
+  event: UserWorkflowTrackEvent;
+}
+
+/**
+ * Notifies a user's running journey workflow that they've performed the
+ * journey's goal event. Keyed journeys are signalled using the value of the
+ * entry node's key in the goal event.
+ */
+export async function signalJourneyGoalEvent({
+  journeyId,
+  workspaceId,
+  userId,
+  definition,
+  event,
+}: SignalJourneyGoalEventProps) {
+  const workflowClient = await connectWorkflowClient();
+  const { entryNode } = definition;
+  let workflowId: string | null;
+  if (entryNode.type === JourneyNodeType.EventEntryNode) {
+    // without a key, keyed workflows are identified by their entry event's
+    // message id, so can't be found from the goal event
+    workflowId = entryNode.key
+      ? getKeyedUserJourneyWorkflowId({
+          workspaceId,
+          userId,
+          journeyId,
+          event,
+          entryNode,
+        })
+      : null;
+  } else {
+    workflowId = getUserJourneyWorkflowId({ userId, journeyId });
+  }
+  if (!workflowId) {
+    logger().debug(
+      {
+        journeyId,
+        userId,
+        workspaceId,
+        messageId: event.messageId,
+      },
+      "goal event missing the journey's key, skipping signal",
+    );
+    return;
+  }
+  try {
+    await workflowClient.getHandle(workflowId).signal(goalEventSignal, event);
+  } catch (e) {
+    if (e instanceof WorkflowNotFoundError) {
+      logger().debug(
+        {
+          workflowId,
+          journeyId,
+          userId,
+          workspaceId,
+        },
+        "no running user journey to signal goal event",
+      );
+      return;
+    }
+    throw e;
+  }
+}
@@ -1,3 +1,42 @@
+import { JSONValue, QuietHoursBehavior } from "../../types";
+
 export enum GetSegmentAssignmentVersion {
   V1 = "V1",
 }
+
+export type RateLimitStatus =
+  | {
+      withinLimit: true;
+    }
+  | {
+      withinLimit: false;
+      // the time at which the user will fall back under the limit, or null if
+      // they never will
+      availableAt: number | null;
+    };
+
+export type QuietHoursStatus =
+  | {
+      inQuietHours: false;
+    }
+  | {
+      inQuietHours: true;
+      behavior: QuietHoursBehavior;
+      // the time at which the quiet hours window closes
+      endsAt: number;
+    };
+
+export type HttpRequestResult =
+  | {
+      type: "Response";
+      status: number;
+      // traits extracted from a successful response, which are written in a
+      // separate activity so that a failed write doesn't resend the request
+      traits?: Record<string, JSONValue>;
+    }
+  | {
+      type: "Failed";
+      // whether the request failed without a response, in which case it may
+      // succeed when retried
+      retryable: boolean;
+    };
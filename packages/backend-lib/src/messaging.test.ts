@@ -16,21 +16,29 @@ import {
   messageTemplate as dbMessageTemplate,
   secret as dbSecret,
   subscriptionGroup as dbSubscriptionGroup,
+  userProperty as dbUserProperty,
   workspace as dbWorkspace,
 } from "./db/schema";
 import {
+  replayClaimedFailedMessage,
   sendEmail,
   sendSms,
   sendWebhook,
   upsertMessageTemplate,
 } from "./messaging";
 import { upsertEmailProvider } from "./messaging/email";
+import {
+  claimFailedMessages,
+  getFailedMessages,
+  recordFailedMessage,
+} from "./messaging/failedMessages";
 import { upsertSmsProvider } from "./messaging/sms";
 import { upsertSubscriptionSecret } from "./subscriptionGroups";
 import {
   ChannelType,
   EmailProviderType,
   EmailTemplateResource,
+  FailedMessageStatus,
   InternalEventType,
   MessageTags,
   MessageTemplate,
@@ -39,8 +47,10 @@ import {
   SubscriptionGroup,
   SubscriptionGroupType,
   UpsertMessageTemplateValidationErrorType,
+  UserPropertyDefinitionType,
   Workspace,
 } from "./types";
+import { insertUserPropertyAssignments } from "./userProperties";
 
 jest.mock("axios");
 
@@ -645,4 +655,167 @@ describe("messaging", () => {
       }
     });
   });
+
+  describe("replayClaimedFailedMessage", () => {
+    const userId = "user-1";
+
+    async function recordAndClaim(sendParams: Record<string, unknown>) {
+      const templateId =
+        typeof sendParams.templateId === "string"
+          ? sendParams.templateId
+          : randomUUID();
+      await recordFailedMessage({
+        workspaceId: workspace.id,
+        messageId: randomUUID(),
+        userId,
+        channel: ChannelType.Email,
+        templateId,
+        sendParams,
+        error: { message: "provider unavailable" },
+      });
+      const [failedMessage] = await getFailedMessages({
+        workspaceId: workspace.id,
+      });
+      if (!failedMessage) {
+        throw new Error("failed message was not recorded");
+      }
+      await claimFailedMessages({
+        workspaceId: workspace.id,
+        ids: [failedMessage.id],
+      });
+      return failedMessage;
+    }
+
+    async function getStatus(id: string) {
+      const failedMessages = await getFailedMessages({
+        workspaceId: workspace.id,
+      });
+      return failedMessages.find((failedMessage) => failedMessage.id === id);
+    }
+
+    beforeEach(async () => {
+      const emailProperty = unwrap(
+        await insert({
+          table: dbUserProperty,
+          values: {
+            id: randomUUID(),
+            workspaceId: workspace.id,
+            name: "email",
+            updatedAt: new Date(),
+            definition: {
+              type: UserPropertyDefinitionType.Trait,
+              path: "email",
+            },
+          },
+        }),
+      );
+      await insertUserPropertyAssignments([
+        {
+          userPropertyId: emailProperty.id,
+          workspaceId: workspace.id,
+          userId,
+          value: JSON.stringify("test@email.com"),
+        },
+      ]);
+    });
+
+    describe("when the replay is sent", () => {
+      it("records the message as replayed", async () => {
+        const template = unwrap(
+          await insert({
+            table: dbMessageTemplate,
+            values: {
+              id: randomUUID(),
+              workspaceId: workspace.id,
+              name: `template-${randomUUID()}`,
+              definition: {
+                type: ChannelType.Email,
+                from: "support@company.com",
+                subject: "Hello",
+                body: "Hello",
+              } satisfies EmailTemplateResource,
+              updatedAt: new Date(),
+              createdAt: new Date(),
+            },
+          }),
+        );
+        const failedMessage = await recordAndClaim({
+          workspaceId: workspace.id,
+          userId,
+          templateId: template.id,
+          channel: ChannelType.Email,
+          useDraft: false,
+          providerOverride: EmailProviderType.Test,
+          messageTags: {
+            workspaceId: workspace.id,
+            templateId: template.id,
+            messageId: randomUUID(),
+          },
+        });
+
+        const result = await replayClaimedFailedMessage({
+          workspaceId: workspace.id,
+          id: failedMessage.id,
+        });
+
+        expect(result && unwrap(result).type).toBe(
+          InternalEventType.MessageSent,
+        );
+        expect(await getStatus(failedMessage.id)).toEqual(
+          expect.objectContaining({
+            status: FailedMessageStatus.Replayed,
+            replayCount: 1,
+          }),
+        );
+      });
+    });
+
+    describe("when the replay fails", () => {
+      it("records the message as having failed to replay", async () => {
+        const templateId = randomUUID();
+        const failedMessage = await recordAndClaim({
+          workspaceId: workspace.id,
+          userId,
+          templateId,
+          channel: ChannelType.Email,
+          useDraft: false,
+          providerOverride: EmailProviderType.Test,
+        });
+
+        const result = await replayClaimedFailedMessage({
+          workspaceId: workspace.id,
+          id: failedMessage.id,
+        });
+
+        expect(result?.isErr()).toBe(true);
+        expect(await getStatus(failedMessage.id)).toEqual(
+          expect.objectContaining({
+            status: FailedMessageStatus.ReplayFailed,
+          }),
+        );
+      });
+    });
+
+    describe("when the stored send params are invalid", () => {
+      it("records the message as having failed to replay without sending it", async () => {
+        const failedMessage = await recordAndClaim({
+          workspaceId: workspace.id,
+          templateId: randomUUID(),
+        });
+
+        const result = await replayClaimedFailedMessage({
+          workspaceId: workspace.id,
+          id: failedMessage.id,
+        });
+
+        expect(result).toBeNull();
+        expect(await getStatus(failedMessage.id)).toEqual(
+          expect.objectContaining({
+            status: FailedMessageStatus.ReplayFailed,
+            error: { message: "Invalid send params" },
+          }),
+        );
+      });
+    });
+  });
 });
@@ -5,7 +5,10 @@ import axios, { AxiosError, AxiosHeaders } from "axios";
 import { randomUUID } from "crypto";
 import { and, eq, SQL } from "drizzle-orm";
 import { toMjml } from "emailo/src/toMjml";
-import { CHANNEL_IDENTIFIERS } from "isomorphic-lib/src/channels";
+import {
+  CHANNEL_IDENTIFIERS,
+  WEB_PUSH_SUBSCRIPTION_USER_PROPERTY,
+} from "isomorphic-lib/src/channels";
 import { MESSAGE_ID_HEADER, SecretNames } from "isomorphic-lib/src/constants";
 import { isWorkspaceWideProvider } from "isomorphic-lib/src/email";
 import { messageTemplateDraftToDefinition } from "isomorphic-lib/src/messageTemplates";
@@ -20,8 +23,10 @@ import { PostgresError } from "pg-error-enum";
 import { Message as PostMarkRequiredFields } from "postmark";
 import * as R from "remeda";
 import { Overwrite } from "utility-types";
-import { validate as validateUuid } from "uuid";
+import { v5 as uuidv5, validate as validateUuid } from "uuid";
 
+import { submitIdentify } from "./apps/identify";
+import { submitTrack } from "./apps/track";
 import { getObject, storage } from "./blobStorage";
 import { db, queryResult } from "./db";
 import {
@@ -38,6 +43,11 @@ import {
   sendMail as sendMailAmazonSes,
   SesMailData,
 } from "./destinations/amazonses";
+import {
+  buildApnsPayload,
+  isInvalidDeviceToken,
+  sendApnsNotification,
+} from "./destinations/apns";
 import { sendMail as sendMailMailchimp } from "./destinations/mailchimp";
 import { sendMail as sendMailPostMark } from "./destinations/postmark";
 import {
@@ -49,11 +59,17 @@ import {
   sendMail as sendMailSmtp,
   SendSmtpMailParams,
 } from "./destinations/smtp";
+import { sendSms as sendSmsSns } from "./destinations/sns";
 import {
   Sender as TwilioSender,
   sendSms as sendSmsTwilio,
   TwilioAuth,
 } from "./destinations/twilio";
+import { sendSms as sendSmsVonage } from "./destinations/vonage";
+import {
+  isSubscriptionGone,
+  sendWebPushNotification,
+} from "./destinations/webPush";
 import {
   getAndRefreshGmailAccessToken,
   sendGmailEmail,
@@ -65,20 +81,50 @@ import {
   constructUnsubscribeHeaders,
   UnsubscribeHeaders,
 } from "./messaging/email";
+import {
+  describeEmailSendError,
+  getEmailProviderFailover,
+  isRetryableEmailProviderFailure,
+  isUnsentEmailProviderError,
+} from "./messaging/emailFailover";
+import { getEmailProviderForUser } from "./messaging/emailTrafficSplit";
+import {
+  claimFailedMessages,
+  completeFailedMessageReplay,
+  findReplayingFailedMessage,
+  recordFailedMessage,
+} from "./messaging/failedMessages";
+import {
+  claimMessageIdempotencyKey,
+  completeMessageIdempotencyKey,
+  releaseMessageIdempotencyKey,
+} from "./messaging/idempotency";
+import { findSmsRoutingRule, getSmsRoutingRules } from "./messaging/sms";
+import {
+  checkMessageQuota,
+  recordMessageSent,
+} from "./multitenancy/messageQuotas";
 import { withSpan } from "./openTelemetry";
+import { startReplayFailedMessagesWorkflow } from "./replayFailedMessagesWorkflow/lifecycle";
 import {
+  getSubscriptionGroupDetails,
+  getSubscriptionGroupWithAssignment,
   inSubscriptionGroup,
   SubscriptionGroupDetails,
 } from "./subscriptionGroups";
 import {
+  ApnsSecret,
   AppDataFileInternal,
   AppFileType,
   BackendMessageSendResult,
   BadWorkspaceConfigurationType,
   ChannelType,
+  EmailProviderFailoverAttempt,
   EmailProviderSecret,
   EmailProviderType,
   EmailProviderTypeSchema,
+  FailedMessage,
+  FailedMessageSendParams,
   InternalEventType,
   MessageSendFailure,
   MessageSkippedType,
@@ -93,23 +139,37 @@ import {
   MessageWebhookSuccess,
   MobilePushProviderType,
   ParsedWebhookBody,
+  ReplayFailedMessagesRequest,
+  ReplayFailedMessagesResponse,
   Secret,
   SmsProvider,
   SmsProviderOverride,
   SmsProviderSecret,
   SmsProviderType,
+  SmsRouteSender,
+  SmsRouteSenderType,
+  SnsSecret,
   SubscriptionChange,
   SubscriptionGroupType,
+  TrackData,
   TwilioSecret,
+  TwilioSenderOverride,
   TwilioSenderOverrideType,
   UpsertMessageTemplateResource,
   UpsertMessageTemplateValidationError,
   UpsertMessageTemplateValidationErrorType,
+  VonageSecret,
   WebhookConfig,
   WebhookResponse,
   WebhookSecret,
+  WebPushSecret,
+  WebPushSubscription,
+  WorkspaceWideEmailProviders,
 } from "./types";
-import { UserPropertyAssignments } from "./userProperties";
+import {
+  findAllUserPropertyAssignments,
+  UserPropertyAssignments,
+} from "./userProperties";
 import { isWorkspaceOccupantType } from "./workspaceOccupantSettings";
 
 export function enrichMessageTemplate({
@@ -374,6 +434,11 @@ export interface SendMessageParametersBase {
   messageTags?: MessageTags;
   useDraft: boolean;
   isPreview?: boolean;
+  // id of the stored failed message which this send is replaying
+  failedMessageId?: string;
+  // key identifying the send across retries, which prevents the message from
+  // being sent more than once
+  idempotencyKey?: string;
 }
 
 export interface SendMessageParametersEmail extends SendMessageParametersBase {
@@ -390,7 +455,7 @@ export type SendMessageParametersSms = SendMessageParametersBase &
 export interface SendMessageParametersMobilePush
   extends SendMessageParametersBase {
   channel: (typeof ChannelType)["MobilePush"];
-  provider?: MobilePushProviderType;
+  providerOverride?: MobilePushProviderType;
 }
 
 export interface SendMessageParametersWebhook
@@ -695,364 +760,119 @@ async function getEmailProvider({
   return ok(emailProviderSecret);
 }
 
-export async function sendEmail({
+interface SendEmailWithProviderParams {
+  emailProvider: EmailProviderSecret;
+  workspaceId: string;
+  templateId: string;
+  messageTags?: MessageTags;
+  idempotencyKey?: string;
+  from: string;
+  to: string;
+  subject: string;
+  body: string;
+  headers: Record<string, string>;
+  replyTo?: string;
+  cc?: string[];
+  bcc?: string[];
+  unsplitCc?: string;
+  unsplitBcc?: string;
+  emailName?: string;
+  attachments?: Attachment[];
+  attachmentsSent?: { name: string; mimeType: string }[];
+}
+
+async function sendEmailWithProvider({
+  emailProvider,
   workspaceId,
   templateId,
-  userPropertyAssignments,
-  subscriptionGroupDetails,
   messageTags,
-  userId,
-  providerOverride,
-  useDraft,
-  isPreview,
-}: Omit<
-  SendMessageParametersEmail,
-  "channel"
->): Promise<BackendMessageSendResult> {
-  const [getSendModelsResult, emailProviderResult] = await Promise.all([
-    getSendMessageModels({
-      workspaceId,
-      templateId,
-      channel: ChannelType.Email,
-      useDraft,
-      subscriptionGroupDetails,
-    }),
-    getEmailProvider({
-      workspaceId,
-      providerOverride,
-      workspaceOccupantId: messageTags?.workspaceOccupantId,
-      workspaceOccupantType: messageTags?.workspaceOccupantType,
-    }),
-  ]);
-  if (getSendModelsResult.isErr()) {
-    return err(getSendModelsResult.error);
-  }
-  const { messageTemplateDefinition, subscriptionGroupSecret } =
-    getSendModelsResult.value;
-
-  if (messageTemplateDefinition.type !== ChannelType.Email) {
-    return err({
-      type: InternalEventType.BadWorkspaceConfiguration,
-      variant: {
-        type: BadWorkspaceConfigurationType.MessageTemplateMisconfigured,
-        message: "message template is not an email template",
-      },
-    });
-  }
-  const identifierKey = CHANNEL_IDENTIFIERS[ChannelType.Email];
-  let emailBody: string;
-  if ("emailContentsType" in messageTemplateDefinition) {
-    const mjml = toMjml({
-      content: messageTemplateDefinition.body,
-      mode: "render",
-    });
-    emailBody = mjml;
-  } else {
-    emailBody = messageTemplateDefinition.body;
-  }
-  const renderedValuesResult = renderValues({
-    userProperties: userPropertyAssignments,
-    identifierKey,
-    subscriptionGroupId: subscriptionGroupDetails?.id,
-    workspaceId,
-    tags: messageTags,
-    isPreview,
-    templates: {
-      from: {
-        contents: messageTemplateDefinition.from,
-      },
-      subject: {
-        contents: messageTemplateDefinition.subject,
-      },
-      body: {
-        contents: emailBody,
-        mjml: true,
-      },
-      replyTo: {
-        contents: messageTemplateDefinition.replyTo,
-      },
-      name: {
-        contents: messageTemplateDefinition.name,
-      },
-      cc: {
-        contents: messageTemplateDefinition.cc,
-      },
-      bcc: {
-        contents: messageTemplateDefinition.bcc,
-      },
-    },
-    secrets: subscriptionGroupSecret
-      ? {
-          [SecretNames.Subscription]: subscriptionGroupSecret,
-        }
-      : undefined,
-  });
-
-  if (renderedValuesResult.isErr()) {
-    const { error, field } = renderedValuesResult.error;
-    return err({
-      type: InternalEventType.BadWorkspaceConfiguration,
-      variant: {
-        type: BadWorkspaceConfigurationType.MessageTemplateRenderError,
-        field,
-        error,
-      },
-    });
-  }
-  const identifier = userPropertyAssignments[identifierKey];
-  if (!identifier || typeof identifier !== "string") {
-    return err({
-      type: InternalEventType.MessageSkipped,
-      variant: {
-        type: MessageSkippedType.MissingIdentifier,
-        identifierKey,
-      },
-    });
-  }
-  const {
-    from,
-    subject,
-    body,
-    replyTo: baseReplyTo,
-    name: baseName,
-    cc: unsplitCc,
-    bcc: unsplitBcc,
-  } = renderedValuesResult.value;
-  const replyTo = !baseReplyTo?.length ? undefined : baseReplyTo;
-  const emailName = !baseName?.length ? undefined : baseName;
-  const cc = unsplitCc?.split(",").flatMap((email) => {
-    const trimmed = email.trim();
-    return trimmed.length ? trimmed : [];
-  });
-  const bcc = unsplitBcc?.split(",").flatMap((email) => {
-    const trimmed = email.trim();
-    return trimmed.length ? trimmed : [];
-  });
-  const to = identifier;
+  idempotencyKey,
+  from,
+  to,
+  subject,
+  body,
+  headers,
+  replyTo,
+  cc,
+  bcc,
+  unsplitCc,
+  unsplitBcc,
+  emailName,
+  attachments,
+  attachmentsSent,
+}: SendEmailWithProviderParams): Promise<BackendMessageSendResult> {
+  switch (emailProvider.type) {
+    case EmailProviderType.Smtp: {
+      const { host, port } = emailProvider;
+      if (!host) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message: `missing host in smtp config`,
+          },
+        });
+      }
+      const numPort = port?.length ? parseInt(port, 10) : undefined;
+      if (numPort && Number.isNaN(numPort)) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message: `invalid port in smtp config`,
+          },
+        });
+      }
+      const smtpAttachments: SendSmtpMailParams["attachments"] =
+        messageTags &&
+        attachments?.map((attachment) => ({
+          content: attachment.data,
+          filename: attachment.name,
+          contentType: attachment.mimeType,
+        }));
 
-  let customHeaders: Record<string, string> | undefined;
-  if (messageTemplateDefinition.headers) {
-    const headersToRender: Record<
-      string,
-      {
-        contents: string;
+      const result = await sendMailSmtp({
+        ...emailProvider,
+        from,
+        to,
+        subject,
+        replyTo,
+        name: emailName,
+        body,
+        host,
+        port: numPort,
+        headers,
+        cc,
+        bcc,
+        attachments: smtpAttachments,
+      });
+      if (result.isErr()) {
+        return err({
+          type: InternalEventType.MessageFailure,
+          variant: {
+            type: ChannelType.Email,
+            provider: result.error,
+          },
+        });
       }
-    > = {};
-    for (const header of messageTemplateDefinition.headers) {
-      headersToRender[header.name] = {
-        contents: header.value,
-      };
-    }
-    const renderedCustomHeaders = renderValues({
-      userProperties: userPropertyAssignments,
-      identifierKey,
-      subscriptionGroupId: subscriptionGroupDetails?.id,
-      workspaceId,
-      tags: messageTags,
-      isPreview,
-      templates: headersToRender,
-    });
-    if (renderedCustomHeaders.isErr()) {
-      const { error, field } = renderedCustomHeaders.error;
-      return err({
-        type: InternalEventType.BadWorkspaceConfiguration,
+      return ok({
+        type: InternalEventType.MessageSent,
         variant: {
-          type: BadWorkspaceConfigurationType.MessageTemplateRenderError,
-          field,
-          error,
-        },
-      });
-    }
-    customHeaders = renderedCustomHeaders.value;
-  }
-
-  const unsubscribeHeadersResult: Result<
-    UnsubscribeHeaders,
-    MessageTemplateRenderError
-  > | null =
-    subscriptionGroupDetails && subscriptionGroupSecret
-      ? constructUnsubscribeHeaders({
-          to,
-          from,
-          userId,
-          subscriptionGroupSecret,
-          subscriptionGroupName: subscriptionGroupDetails.name,
-          workspaceId,
-          subscriptionGroupId: subscriptionGroupDetails.id,
-        })
-      : null;
-
-  // eslint-disable-next-line @typescript-eslint/prefer-optional-chain
-  if (unsubscribeHeadersResult && unsubscribeHeadersResult.isErr()) {
-    return err({
-      type: InternalEventType.BadWorkspaceConfiguration,
-      variant: unsubscribeHeadersResult.error,
-    });
-  }
-  const unsubscribeHeaders = unsubscribeHeadersResult?.value as
-    | Record<string, string>
-    | undefined;
-
-  const headers = {
-    ...customHeaders,
-    ...unsubscribeHeaders,
-  };
-
-  let attachments: Attachment[] | undefined;
-  if (
-    messageTemplateDefinition.attachmentUserProperties?.length &&
-    messageTags
-  ) {
-    const s = storage();
-
-    const attachmentPromises =
-      messageTemplateDefinition.attachmentUserProperties.map(
-        async (attachmentProperty) => {
-          const assignment = userPropertyAssignments[attachmentProperty];
-          const file = schemaValidateWithErr(assignment, AppDataFileInternal);
-          if (file.isErr()) {
-            logger().error(
-              {
-                err: file.error,
-                assignment,
-                attachmentProperty,
-                templateId,
-                workspaceId,
-              },
-              "error validating attachment user property",
-            );
-            return [];
-          }
-
-          const { name, mimeType } = file.value;
-          let data: string;
-
-          switch (file.value.type) {
-            case AppFileType.Base64Encoded: {
-              // For Base64EncodedFile, use the data directly
-              data = file.value.data;
-              break;
-            }
-            case AppFileType.BlobStorage: {
-              // For BlobStorageFile, fetch from storage
-              const object = await getObject(s, {
-                key: file.value.key,
-              });
-              if (!object) {
-                logger().error(
-                  {
-                    key: file.value.key,
-                    workspaceId,
-                    mimeType,
-                    name,
-                    templateId,
-                  },
-                  "error getting attachment object",
-                );
-                return [];
-              }
-              data = object.text;
-              break;
-            }
-            default: {
-              assertUnreachable(file.value);
-            }
-          }
-
-          const attachment: Attachment = {
-            mimeType,
-            data,
-            name,
-          };
-          return attachment;
-        },
-      );
-
-    attachments = (await Promise.all(attachmentPromises)).flat();
-  }
-  // To set on the message sent event
-  const attachmentsSent = attachments?.map(({ name, mimeType }) => ({
-    name,
-    mimeType,
-  }));
-
-  if (emailProviderResult.isErr()) {
-    return err(emailProviderResult.error);
-  }
-  const emailProvider = emailProviderResult.value;
-
-  switch (emailProvider.type) {
-    case EmailProviderType.Smtp: {
-      const { host, port } = emailProvider;
-      if (!host) {
-        return err({
-          type: InternalEventType.BadWorkspaceConfiguration,
-          variant: {
-            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
-            message: `missing host in smtp config`,
-          },
-        });
-      }
-      const numPort = port?.length ? parseInt(port, 10) : undefined;
-      if (numPort && Number.isNaN(numPort)) {
-        return err({
-          type: InternalEventType.BadWorkspaceConfiguration,
-          variant: {
-            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
-            message: `invalid port in smtp config`,
-          },
-        });
-      }
-      const smtpAttachments: SendSmtpMailParams["attachments"] =
-        messageTags &&
-        attachments?.map((attachment) => ({
-          content: attachment.data,
-          filename: attachment.name,
-          contentType: attachment.mimeType,
-        }));
-
-      const result = await sendMailSmtp({
-        ...emailProvider,
-        from,
-        to,
-        subject,
-        replyTo,
-        name: emailName,
-        body,
-        host,
-        port: numPort,
-        headers,
-        cc,
-        bcc,
-        attachments: smtpAttachments,
-      });
-      if (result.isErr()) {
-        return err({
-          type: InternalEventType.MessageFailure,
-          variant: {
-            type: ChannelType.Email,
-            provider: result.error,
-          },
-        });
-      }
-      return ok({
-        type: InternalEventType.MessageSent,
-        variant: {
-          type: ChannelType.Email,
-          from,
-          body,
-          to,
-          subject,
-          headers,
-          replyTo,
-          cc: unsplitCc,
-          bcc: unsplitBcc,
-          name: emailName,
-          attachments: attachmentsSent,
-          provider: {
-            type: EmailProviderType.Smtp,
-            messageId: result.value.messageId,
-          },
+          type: ChannelType.Email,
+          from,
+          body,
+          to,
+          subject,
+          headers,
+          replyTo,
+          cc: unsplitCc,
+          bcc: unsplitBcc,
+          name: emailName,
+          attachments: attachmentsSent,
+          provider: {
+            type: EmailProviderType.Smtp,
+            messageId: result.value.messageId,
+          },
         },
       });
     }
@@ -1085,6 +905,10 @@ export async function sendEmail({
           workspaceId,
           templateId,
           ...messageTags,
+          // sendgrid has no native idempotency, so sends are only
+          // de-duplicated by claiming the key locally, but recording it
+          // allows duplicates to be traced
+          ...(idempotencyKey ? { idempotencyKey } : {}),
         },
       };
 
@@ -1341,6 +1165,7 @@ export async function sendEmail({
       const result = await sendMailResend({
         mailData,
         apiKey: emailProvider.apiKey,
+        idempotencyKey,
       });
 
       if (result.isErr()) {
@@ -1410,6 +1235,10 @@ export async function sendEmail({
           workspaceId,
           templateId,
           ...messageTags,
+          // postmark has no native idempotency, so sends are only
+          // de-duplicated by claiming the key locally, but recording it
+          // allows duplicates to be traced
+          ...(idempotencyKey ? { idempotencyKey } : {}),
         },
       };
 
@@ -1476,9 +1305,9 @@ export async function sendEmail({
           bcc.map((email) => ({ email, type: "bcc" })),
         );
       }
-      if (replyTo) {
-        headers["Reply-To"] = replyTo;
-      }
+      const mailChimpHeaders = replyTo
+        ? { ...headers, "Reply-To": replyTo }
+        : headers;
       const metadata: { website: string } & Record<string, string> = {
         website,
       };
@@ -1498,7 +1327,7 @@ export async function sendEmail({
         from_name: emailName,
         preserve_recipients: true,
         subject,
-        headers,
+        headers: mailChimpHeaders,
         to: mailChimpTo,
         attachments: attachments?.map(({ name, data, mimeType }) => ({
           type: mimeType,
@@ -1559,7 +1388,7 @@ export async function sendEmail({
           cc: unsplitCc,
           bcc: unsplitBcc,
           replyTo,
-          headers,
+          headers: mailChimpHeaders,
           attachments: attachmentsSent,
           provider: {
             type: EmailProviderType.MailChimp,
@@ -1598,77 +1427,909 @@ export async function sendEmail({
   }
 }
 
-export async function sendSms(
-  params: Omit<SendMessageParametersSms, "channel">,
-): Promise<BackendMessageSendResult> {
-  const {
-    workspaceId,
-    templateId,
-    userPropertyAssignments,
-    subscriptionGroupDetails,
-    useDraft,
-    providerOverride,
-    userId,
-    messageTags,
-    disableCallback = false,
-    isPreview,
-  } = params;
-  const [getSendModelsResult, smsProvider] = await Promise.all([
-    getSendMessageModels({
-      workspaceId,
-      templateId,
-      channel: ChannelType.Sms,
-      useDraft,
-      subscriptionGroupDetails,
-    }),
-    getSmsProvider({
-      workspaceId,
-      // Provider override has to be nullable to be compatible with JSON schema
-      providerOverride: providerOverride ?? undefined,
-    }),
-  ]);
-  if (getSendModelsResult.isErr()) {
-    return err(getSendModelsResult.error);
-  }
-  const { messageTemplateDefinition } = getSendModelsResult.value;
-
-  if (!smsProvider?.secret) {
-    return err({
-      type: InternalEventType.BadWorkspaceConfiguration,
-      variant: {
-        type: BadWorkspaceConfigurationType.MessageServiceProviderNotFound,
-      },
-    });
-  }
-  const smsConfig = smsProvider.secret.configValue;
-
-  const parsedConfigResult = schemaValidateWithErr(
-    smsConfig,
-    SmsProviderSecret,
+/**
+ * Send an email with the given provider, trying the workspace's failover
+ * providers in order when it fails with a retryable error. Thrown errors are
+ * retryable by convention, and are re-thrown if no provider succeeds so that
+ * the send is retried later.
+ */
+async function sendEmailWithFailover({
+  workspaceId,
+  emailProvider,
+  failoverProviders,
+  sendParams,
+}: {
+  workspaceId: string;
+  emailProvider: EmailProviderSecret;
+  failoverProviders: WorkspaceWideEmailProviders[];
+  sendParams: Omit<SendEmailWithProviderParams, "emailProvider">;
+}): Promise<BackendMessageSendResult> {
+  const fallbacks = failoverProviders.filter(
+    (type) => type !== emailProvider.type,
   );
-  if (parsedConfigResult.isErr()) {
-    return err({
-      type: InternalEventType.BadWorkspaceConfiguration,
-      variant: {
-        type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
-        message: parsedConfigResult.error.message,
-      },
+  const failoverAttempts: EmailProviderFailoverAttempt[] = [];
+  let provider: EmailProviderSecret | null = emailProvider;
+  let lastResult: BackendMessageSendResult | null = null;
+  let lastError: unknown = null;
+  // each provider is sent the same key, so that a retry of the send is
+  // de-duplicated by whichever provider accepted it
+  const idempotencyKey =
+    sendParams.idempotencyKey ?? sendParams.messageTags?.messageId;
+
+  while (provider) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      const result = await sendEmailWithProvider({
+        ...sendParams,
+        idempotencyKey,
+        emailProvider: provider,
+      });
+      if (result.isOk()) {
+        if (
+          failoverAttempts.length > 0 &&
+          result.value.type === InternalEventType.MessageSent &&
+          result.value.variant.type === ChannelType.Email
+        ) {
+          return ok({
+            ...result.value,
+            variant: { ...result.value.variant, failoverAttempts },
+          });
+        }
+        return result;
+      }
+      if (!isRetryableEmailProviderFailure(result.error)) {
+        return result;
+      }
+      lastResult = result;
+      lastError = null;
+    } catch (e) {
+      if (!isUnsentEmailProviderError(e)) {
+        throw e;
+      }
+      lastResult = null;
+      lastError = e;
+    }
+    // member level providers, like gmail, can't fail over to the
+    // workspace's providers
+    if (!isWorkspaceWideProvider(provider.type)) {
+      break;
+    }
+    failoverAttempts.push({
+      type: provider.type,
+      error: describeEmailSendError(lastResult?.error ?? lastError),
     });
+
+    provider = null;
+    while (!provider && fallbacks.length > 0) {
+      const next = fallbacks.shift();
+      // eslint-disable-next-line no-await-in-loop
+      const nextResult = await getEmailProvider({
+        workspaceId,
+        providerOverride: next,
+      });
+      if (nextResult.isErr()) {
+        logger().error(
+          { workspaceId, provider: next, err: nextResult.error },
+          "email failover provider is not configured",
+        );
+      } else {
+        logger().info(
+          { workspaceId, failoverAttempts, provider: next },
+          "email provider failed, retrying with failover provider",
+        );
+        provider = nextResult.value;
+      }
+    }
   }
 
-  if (messageTemplateDefinition.type !== ChannelType.Sms) {
-    return err({
-      type: InternalEventType.BadWorkspaceConfiguration,
-      variant: {
-        type: BadWorkspaceConfigurationType.MessageTemplateMisconfigured,
-        message: "message template is not an sms template",
-      },
-    });
+  if (lastResult) {
+    return lastResult;
   }
-  const identifierKey = CHANNEL_IDENTIFIERS[ChannelType.Sms];
+  throw lastError;
+}
 
-  const renderedValuesResult = renderValues({
-    userProperties: userPropertyAssignments,
+/**
+ * Get the provider for an email without an explicit provider override,
+ * splitting traffic between the workspace's weighted providers when
+ * configured. Falls back to the default provider when the selected provider
+ * isn't configured.
+ */
+async function getEmailProviderForSend({
+  workspaceId,
+  userId,
+  providerOverride,
+  isPreview,
+  workspaceOccupantId,
+  workspaceOccupantType,
+}: {
+  workspaceId: string;
+  userId: string;
+  providerOverride?: EmailProviderTypeSchema;
+  isPreview?: boolean;
+  workspaceOccupantId?: string;
+  workspaceOccupantType?: string;
+}): Promise<Result<EmailProviderSecret, MessageSendFailure>> {
+  // previews are sent with the default provider, so that they're not
+  // attributed to the split, and messages sent on behalf of a workspace
+  // occupant aren't split, so that they're sent with the provider configured
+  // for them
+  const isOccupantSend =
+    workspaceOccupantId !== undefined &&
+    isWorkspaceOccupantType(workspaceOccupantType);
+  const splitProvider =
+    providerOverride || isPreview || isOccupantSend
+      ? null
+      : await getEmailProviderForUser({ workspaceId, userId });
+  if (splitProvider) {
+    const splitResult = await getEmailProvider({
+      workspaceId,
+      providerOverride: splitProvider,
+    });
+    if (splitResult.isOk()) {
+      return splitResult;
+    }
+    logger().error(
+      { workspaceId, provider: splitProvider, err: splitResult.error },
+      "weighted email provider is not configured, using default provider",
+    );
+  }
+  return getEmailProvider({
+    workspaceId,
+    providerOverride,
+    workspaceOccupantId,
+    workspaceOccupantType,
+  });
+}
+
+export async function sendEmail({
+  workspaceId,
+  templateId,
+  userPropertyAssignments,
+  subscriptionGroupDetails,
+  messageTags,
+  userId,
+  providerOverride,
+  useDraft,
+  isPreview,
+  idempotencyKey,
+}: Omit<
+  SendMessageParametersEmail,
+  "channel"
+>): Promise<BackendMessageSendResult> {
+  const [getSendModelsResult, emailProviderResult, failoverProviders] =
+    await Promise.all([
+      getSendMessageModels({
+        workspaceId,
+        templateId,
+        channel: ChannelType.Email,
+        useDraft,
+        subscriptionGroupDetails,
+      }),
+      getEmailProviderForSend({
+        workspaceId,
+        userId,
+        providerOverride,
+        isPreview,
+        workspaceOccupantId: messageTags?.workspaceOccupantId,
+        workspaceOccupantType: messageTags?.workspaceOccupantType,
+      }),
+      // previews are sent with the selected provider only
+      isPreview ? [] : getEmailProviderFailover({ workspaceId }),
+    ]);
+  if (getSendModelsResult.isErr()) {
+    return err(getSendModelsResult.error);
+  }
+  const { messageTemplateDefinition, subscriptionGroupSecret } =
+    getSendModelsResult.value;
+
+  if (messageTemplateDefinition.type !== ChannelType.Email) {
+    return err({
+      type: InternalEventType.BadWorkspaceConfiguration,
+      variant: {
+        type: BadWorkspaceConfigurationType.MessageTemplateMisconfigured,
+        message: "message template is not an email template",
+      },
+    });
+  }
+  const identifierKey = CHANNEL_IDENTIFIERS[ChannelType.Email];
+  let emailBody: string;
+  if ("emailContentsType" in messageTemplateDefinition) {
+    const mjml = toMjml({
+      content: messageTemplateDefinition.body,
+      mode: "render",
+    });
+    emailBody = mjml;
+  } else {
+    emailBody = messageTemplateDefinition.body;
+  }
+  const renderedValuesResult = renderValues({
+    userProperties: userPropertyAssignments,
+    identifierKey,
+    subscriptionGroupId: subscriptionGroupDetails?.id,
+    workspaceId,
+    tags: messageTags,
+    isPreview,
+    templates: {
+      from: {
+        contents: messageTemplateDefinition.from,
+      },
+      subject: {
+        contents: messageTemplateDefinition.subject,
+      },
+      body: {
+        contents: emailBody,
+        mjml: true,
+      },
+      replyTo: {
+        contents: messageTemplateDefinition.replyTo,
+      },
+      name: {
+        contents: messageTemplateDefinition.name,
+      },
+      cc: {
+        contents: messageTemplateDefinition.cc,
+      },
+      bcc: {
+        contents: messageTemplateDefinition.bcc,
+      },
+    },
+    secrets: subscriptionGroupSecret
+      ? {
+          [SecretNames.Subscription]: subscriptionGroupSecret,
+        }
+      : undefined,
+  });
+
+  if (renderedValuesResult.isErr()) {
+    const { error, field } = renderedValuesResult.error;
+    return err({
+      type: InternalEventType.BadWorkspaceConfiguration,
+      variant: {
+        type: BadWorkspaceConfigurationType.MessageTemplateRenderError,
+        field,
+        error,
+      },
+    });
+  }
+  const identifier = userPropertyAssignments[identifierKey];
+  if (!identifier || typeof identifier !== "string") {
+    return err({
+      type: InternalEventType.MessageSkipped,
+      variant: {
+        type: MessageSkippedType.MissingIdentifier,
+        identifierKey,
+      },
+    });
+  }
+  const {
+    from,
+    subject,
+    body,
+    replyTo: baseReplyTo,
+    name: baseName,
+    cc: unsplitCc,
+    bcc: unsplitBcc,
+  } = renderedValuesResult.value;
+  const replyTo = !baseReplyTo?.length ? undefined : baseReplyTo;
+  const emailName = !baseName?.length ? undefined : baseName;
+  const cc = unsplitCc?.split(",").flatMap((email) => {
+    const trimmed = email.trim();
+    return trimmed.length ? trimmed : [];
+  });
+  const bcc = unsplitBcc?.split(",").flatMap((email) => {
+    const trimmed = email.trim();
+    return trimmed.length ? trimmed : [];
+  });
+  const to = identifier;
+
+  let customHeaders: Record<string, string> | undefined;
+  if (messageTemplateDefinition.headers) {
+    const headersToRender: Record<
+      string,
+      {
+        contents: string;
+      }
+    > = {};
+    for (const header of messageTemplateDefinition.headers) {
+      headersToRender[header.name] = {
+        contents: header.value,
+      };
+    }
+    const renderedCustomHeaders = renderValues({
+      userProperties: userPropertyAssignments,
+      identifierKey,
+      subscriptionGroupId: subscriptionGroupDetails?.id,
+      workspaceId,
+      tags: messageTags,
+      isPreview,
+      templates: headersToRender,
+    });
+    if (renderedCustomHeaders.isErr()) {
+      const { error, field } = renderedCustomHeaders.error;
+      return err({
+        type: InternalEventType.BadWorkspaceConfiguration,
+        variant: {
+          type: BadWorkspaceConfigurationType.MessageTemplateRenderError,
+          field,
+          error,
+        },
+      });
+    }
+    customHeaders = renderedCustomHeaders.value;
+  }
+
+  const unsubscribeHeadersResult: Result<
+    UnsubscribeHeaders,
+    MessageTemplateRenderError
+  > | null =
+    subscriptionGroupDetails && subscriptionGroupSecret
+      ? constructUnsubscribeHeaders({
+          to,
+          from,
+          userId,
+          subscriptionGroupSecret,
+          subscriptionGroupName: subscriptionGroupDetails.name,
+          workspaceId,
+          subscriptionGroupId: subscriptionGroupDetails.id,
+        })
+      : null;
+
+  // eslint-disable-next-line @typescript-eslint/prefer-optional-chain
+  if (unsubscribeHeadersResult && unsubscribeHeadersResult.isErr()) {
+    return err({
+      type: InternalEventType.BadWorkspaceConfiguration,
+      variant: unsubscribeHeadersResult.error,
+    });
+  }
+  const unsubscribeHeaders = unsubscribeHeadersResult?.value as
+    | Record<string, string>
+    | undefined;
+
+  const headers = {
+    ...customHeaders,
+    ...unsubscribeHeaders,
+  };
+
+  let attachments: Attachment[] | undefined;
+  if (
+    messageTemplateDefinition.attachmentUserProperties?.length &&
+    messageTags
+  ) {
+    const s = storage();
+
+    const attachmentPromises =
+      messageTemplateDefinition.attachmentUserProperties.map(
+        async (attachmentProperty) => {
+          const assignment = userPropertyAssignments[attachmentProperty];
+          const file = schemaValidateWithErr(assignment, AppDataFileInternal);
+          if (file.isErr()) {
+            logger().error(
+              {
+                err: file.error,
+                assignment,
+                attachmentProperty,
+                templateId,
+                workspaceId,
+              },
+              "error validating attachment user property",
+            );
+            return [];
+          }
+
+          const { name, mimeType } = file.value;
+          let data: string;
+
+          switch (file.value.type) {
+            case AppFileType.Base64Encoded: {
+              // For Base64EncodedFile, use the data directly
+              data = file.value.data;
+              break;
+            }
+            case AppFileType.BlobStorage: {
+              // For BlobStorageFile, fetch from storage
+              const object = await getObject(s, {
+                key: file.value.key,
+              });
+              if (!object) {
+                logger().error(
+                  {
+                    key: file.value.key,
+                    workspaceId,
+                    mimeType,
+                    name,
+                    templateId,
+                  },
+                  "error getting attachment object",
+                );
+                return [];
+              }
+              data = object.text;
+              break;
+            }
+            default: {
+              assertUnreachable(file.value);
+            }
+          }
+
+          const attachment: Attachment = {
+            mimeType,
+            data,
+            name,
+          };
+          return attachment;
+        },
+      );
+
+    attachments = (await Promise.all(attachmentPromises)).flat();
+  }
+  // To set on the message sent event
+  const attachmentsSent = attachments?.map(({ name, mimeType }) => ({
+    name,
+    mimeType,
+  }));
+
+  if (emailProviderResult.isErr()) {
+    return err(emailProviderResult.error);
+  }
+  return sendEmailWithFailover({
+    workspaceId,
+    emailProvider: emailProviderResult.value,
+    failoverProviders,
+    sendParams: {
+      workspaceId,
+      templateId,
+      messageTags,
+      idempotencyKey,
+      from,
+      to,
+      subject,
+      body,
+      headers,
+      replyTo,
+      cc,
+      bcc,
+      unsplitCc,
+      unsplitBcc,
+      emailName,
+      attachments,
+      attachmentsSent,
+    },
+  });
+}
+
+async function getSmsProviderConfig({
+  workspaceId,
+  providerOverride,
+}: {
+  workspaceId: string;
+  providerOverride?: SmsProviderType;
+}): Promise<
+  Result<
+    { type: SmsProvider["type"]; config: SmsProviderSecret },
+    MessageSendFailure
+  >
+> {
+  const smsProvider = await getSmsProvider({
+    workspaceId,
+    providerOverride,
+  });
+  if (!smsProvider?.secret) {
+    return err({
+      type: InternalEventType.BadWorkspaceConfiguration,
+      variant: {
+        type: BadWorkspaceConfigurationType.MessageServiceProviderNotFound,
+      },
+    });
+  }
+
+  const parsedConfigResult = schemaValidateWithErr(
+    smsProvider.secret.configValue,
+    SmsProviderSecret,
+  );
+  if (parsedConfigResult.isErr()) {
+    return err({
+      type: InternalEventType.BadWorkspaceConfiguration,
+      variant: {
+        type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+        message: parsedConfigResult.error.message,
+      },
+    });
+  }
+  return ok({ type: smsProvider.type, config: parsedConfigResult.value });
+}
+
+interface SendSmsWithProviderParams {
+  type: SmsProvider["type"];
+  config: SmsProviderSecret;
+  body: string;
+  to: string;
+  userId: string;
+  workspaceId: string;
+  subscriptionGroupId?: string;
+  messageTags?: MessageTags;
+  disableCallback: boolean;
+  sender?: SmsRouteSender | null;
+}
+
+function getRouteSenderAddress(
+  sender: SmsRouteSender | null | undefined,
+): string | undefined {
+  switch (sender?.type) {
+    case SmsRouteSenderType.PhoneNumber:
+      return sender.phone;
+    case SmsRouteSenderType.AlphanumericSenderId:
+      return sender.senderId;
+    default:
+      return undefined;
+  }
+}
+
+function twilioOverrideToRouteSender(
+  senderOverride: TwilioSenderOverride,
+): SmsRouteSender {
+  switch (senderOverride.type) {
+    case TwilioSenderOverrideType.MessageSid:
+      return {
+        type: SmsRouteSenderType.MessagingService,
+        messagingServiceSid: senderOverride.messagingServiceSid,
+      };
+    case TwilioSenderOverrideType.PhoneNumber:
+      return {
+        type: SmsRouteSenderType.PhoneNumber,
+        phone: senderOverride.phone,
+      };
+    default:
+      assertUnreachable(senderOverride);
+  }
+}
+
+/**
+ * Sends a rendered sms with one of the workspace's sms providers. Each
+ * provider validates its own configuration and maps its response onto the
+ * shared message sent and message failure events.
+ */
+async function sendSmsWithProvider(
+  params: SendSmsWithProviderParams,
+): Promise<BackendMessageSendResult> {
+  const {
+    type,
+    config,
+    body,
+    to,
+    userId,
+    workspaceId,
+    subscriptionGroupId,
+    messageTags,
+    disableCallback,
+  } = params;
+
+  switch (type) {
+    case SmsProviderType.Twilio: {
+      const configResult = schemaValidateWithErr(config, TwilioSecret);
+      if (configResult.isErr()) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message: configResult.error.message,
+          },
+        });
+      }
+
+      const {
+        accountSid,
+        authToken,
+        messagingServiceSid,
+        apiKeySid,
+        apiKeySecret,
+      } = configResult.value;
+
+      if (!accountSid) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message: `missing accountSid in sms provider config`,
+          },
+        });
+      }
+      let auth: TwilioAuth;
+      if (apiKeySid && apiKeySecret) {
+        auth = {
+          type: "apiKey",
+          apiKeySid,
+          apiKeySecret,
+        };
+      } else if (authToken) {
+        auth = {
+          type: "authToken",
+          authToken,
+        };
+      } else {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message:
+              "twilio auth must provider either an auth token or api key sid and secret",
+          },
+        });
+      }
+
+      let sender: TwilioSender;
+      const senderOverride = params.sender;
+      if (senderOverride) {
+        switch (senderOverride.type) {
+          case SmsRouteSenderType.MessagingService:
+            sender = {
+              messagingServiceSid: senderOverride.messagingServiceSid,
+            };
+            break;
+          case SmsRouteSenderType.PhoneNumber:
+            sender = {
+              from: senderOverride.phone,
+            };
+            break;
+          case SmsRouteSenderType.AlphanumericSenderId:
+            sender = {
+              from: senderOverride.senderId,
+            };
+            break;
+          default:
+            assertUnreachable(senderOverride);
+        }
+      } else if (messagingServiceSid) {
+        sender = {
+          messagingServiceSid,
+        };
+      } else {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message:
+              "twilio sender must provide either a messaging service sid or a sender override",
+          },
+        });
+      }
+
+      const result = await sendSmsTwilio({
+        body,
+        accountSid,
+        auth,
+        userId,
+        subscriptionGroupId,
+        to,
+        workspaceId,
+        disableCallback,
+        tags: messageTags,
+        ...sender,
+      });
+
+      if (result.isErr()) {
+        return err({
+          type: InternalEventType.MessageFailure,
+          variant: {
+            type: ChannelType.Sms,
+            provider: {
+              type: SmsProviderType.Twilio,
+              message: result.error.message,
+            },
+          },
+        });
+      }
+      return ok({
+        type: InternalEventType.MessageSent,
+        variant: {
+          type: ChannelType.Sms,
+          body,
+          to,
+          provider: {
+            type: SmsProviderType.Twilio,
+            sid: result.value.sid,
+          },
+        },
+      });
+    }
+    case SmsProviderType.Vonage: {
+      const configResult = schemaValidateWithErr(config, VonageSecret);
+      if (configResult.isErr()) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message: configResult.error.message,
+          },
+        });
+      }
+      const { apiKey, apiSecret } = configResult.value;
+      const from =
+        getRouteSenderAddress(params.sender) ?? configResult.value.from;
+      if (!apiKey || !apiSecret || !from) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message:
+              "vonage provider must have an api key, api secret, and sender",
+          },
+        });
+      }
+
+      const result = await sendSmsVonage({
+        apiKey,
+        apiSecret,
+        from,
+        to,
+        body,
+        userId,
+        subscriptionGroupId,
+        workspaceId,
+        disableCallback,
+        tags: messageTags,
+      });
+      if (result.isErr()) {
+        return err({
+          type: InternalEventType.MessageFailure,
+          variant: {
+            type: ChannelType.Sms,
+            provider: {
+              type: SmsProviderType.Vonage,
+              message: result.error.message,
+            },
+          },
+        });
+      }
+      return ok({
+        type: InternalEventType.MessageSent,
+        variant: {
+          type: ChannelType.Sms,
+          body,
+          to,
+          provider: {
+            type: SmsProviderType.Vonage,
+            messageId: result.value.messageId,
+          },
+        },
+      });
+    }
+    case SmsProviderType.Sns: {
+      const configResult = schemaValidateWithErr(config, SnsSecret);
+      if (configResult.isErr()) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message: configResult.error.message,
+          },
+        });
+      }
+      const { accessKeyId, secretAccessKey, region } = configResult.value;
+      let { senderId, originationNumber } = configResult.value;
+      switch (params.sender?.type) {
+        case SmsRouteSenderType.PhoneNumber:
+          originationNumber = params.sender.phone;
+          break;
+        case SmsRouteSenderType.AlphanumericSenderId:
+          senderId = params.sender.senderId;
+          break;
+        default:
+          break;
+      }
+      if (!accessKeyId || !secretAccessKey || !region) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message:
+              "sns provider must have an access key id, secret access key, and region",
+          },
+        });
+      }
+
+      const result = await sendSmsSns({
+        credentials: {
+          accessKeyId,
+          secretAccessKey,
+          region,
+        },
+        to,
+        body,
+        senderId,
+        originationNumber,
+      });
+      if (result.isErr()) {
+        return err({
+          type: InternalEventType.MessageFailure,
+          variant: {
+            type: ChannelType.Sms,
+            provider: {
+              type: SmsProviderType.Sns,
+              message: result.error.message,
+            },
+          },
+        });
+      }
+      return ok({
+        type: InternalEventType.MessageSent,
+        variant: {
+          type: ChannelType.Sms,
+          body,
+          to,
+          provider: {
+            type: SmsProviderType.Sns,
+            messageId: result.value.messageId,
+          },
+        },
+      });
+    }
+    case SmsProviderType.Test:
+      return ok({
+        type: InternalEventType.MessageSent,
+        variant: {
+          type: ChannelType.Sms,
+          body,
+          to,
+          provider: {
+            type: SmsProviderType.Test,
+          },
+        },
+      });
+    default: {
+      return err({
+        type: InternalEventType.BadWorkspaceConfiguration,
+        variant: {
+          type: BadWorkspaceConfigurationType.MessageServiceProviderNotFound,
+        },
+      });
+    }
+  }
+}
+
+export async function sendSms(
+  params: Omit<SendMessageParametersSms, "channel">,
+): Promise<BackendMessageSendResult> {
+  const {
+    workspaceId,
+    templateId,
+    userPropertyAssignments,
+    subscriptionGroupDetails,
+    useDraft,
+    providerOverride,
+    userId,
+    messageTags,
+    disableCallback = false,
+    isPreview,
+  } = params;
+  const [getSendModelsResult, routingRules] = await Promise.all([
+    getSendMessageModels({
+      workspaceId,
+      templateId,
+      channel: ChannelType.Sms,
+      useDraft,
+      subscriptionGroupDetails,
+    }),
+    // explicit provider overrides take precedence over routing rules
+    providerOverride ? [] : getSmsRoutingRules({ workspaceId }),
+  ]);
+  if (getSendModelsResult.isErr()) {
+    return err(getSendModelsResult.error);
+  }
+  const { messageTemplateDefinition } = getSendModelsResult.value;
+
+  if (messageTemplateDefinition.type !== ChannelType.Sms) {
+    return err({
+      type: InternalEventType.BadWorkspaceConfiguration,
+      variant: {
+        type: BadWorkspaceConfigurationType.MessageTemplateMisconfigured,
+        message: "message template is not an sms template",
+      },
+    });
+  }
+  const identifierKey = CHANNEL_IDENTIFIERS[ChannelType.Sms];
+
+  const renderedValuesResult = renderValues({
+    userProperties: userPropertyAssignments,
     identifierKey,
     subscriptionGroupId: subscriptionGroupDetails?.id,
     workspaceId,
@@ -1718,117 +2379,383 @@ export async function sendSms(
     });
   }
   const { body } = renderedValuesResult.value;
-  const to = identifier;
+  const rule = findSmsRoutingRule({ rules: routingRules, to: identifier });
 
-  switch (smsProvider.type) {
-    case SmsProviderType.Twilio: {
-      const configResult = schemaValidateWithErr(
-        parsedConfigResult.value,
-        TwilioSecret,
+  const providerResult = await getSmsProviderConfig({
+    workspaceId,
+    // Provider override has to be nullable to be compatible with JSON schema
+    providerOverride: providerOverride ?? rule?.provider,
+  });
+  if (providerResult.isErr()) {
+    return err(providerResult.error);
+  }
+
+  let sender: SmsRouteSender | null | undefined = rule?.sender;
+  if (providerOverride === SmsProviderType.Twilio && params.senderOverride) {
+    sender = twilioOverrideToRouteSender(params.senderOverride);
+  }
+  const sendParams: Omit<SendSmsWithProviderParams, "type" | "config"> = {
+    body,
+    to: identifier,
+    userId,
+    workspaceId,
+    subscriptionGroupId: subscriptionGroupDetails?.id,
+    messageTags,
+    disableCallback,
+  };
+  const result = await sendSmsWithProvider({
+    ...sendParams,
+    ...providerResult.value,
+    sender,
+  });
+
+  if (
+    result.isOk() ||
+    result.error.type !== InternalEventType.MessageFailure ||
+    !rule?.fallbackProvider
+  ) {
+    return result;
+  }
+
+  const fallbackResult = await getSmsProviderConfig({
+    workspaceId,
+    providerOverride: rule.fallbackProvider,
+  });
+  if (fallbackResult.isErr()) {
+    logger().error(
+      {
+        workspaceId,
+        provider: rule.provider,
+        fallbackProvider: rule.fallbackProvider,
+        err: fallbackResult.error,
+      },
+      "sms fallback provider is not configured",
+    );
+    return result;
+  }
+  logger().info(
+    {
+      workspaceId,
+      userId,
+      provider: rule.provider,
+      fallbackProvider: rule.fallbackProvider,
+    },
+    "sms provider failed, retrying with fallback provider",
+  );
+  // the rule's sender is specific to its primary provider, so the fallback
+  // uses its own configured sender
+  return sendSmsWithProvider({
+    ...sendParams,
+    ...fallbackResult.value,
+  });
+}
+
+function parseWebPushSubscription(value: unknown): WebPushSubscription | null {
+  const parsed =
+    typeof value === "string" ? jsonParseSafe(value).unwrapOr(null) : value;
+  if (!parsed) {
+    return null;
+  }
+  return schemaValidateWithErr(parsed, WebPushSubscription).unwrapOr(null);
+}
+
+export async function sendMobilePush(
+  params: Omit<SendMessageParametersMobilePush, "channel">,
+): Promise<BackendMessageSendResult> {
+  const {
+    workspaceId,
+    templateId,
+    userPropertyAssignments,
+    subscriptionGroupDetails,
+    useDraft,
+    providerOverride,
+    userId,
+    messageTags,
+    isPreview,
+  } = params;
+  const [getSendModelsResult, webPushSecret, apnsSecret] = await Promise.all([
+    getSendMessageModels({
+      workspaceId,
+      templateId,
+      channel: ChannelType.MobilePush,
+      useDraft,
+      subscriptionGroupDetails,
+    }),
+    db().query.secret.findFirst({
+      where: and(
+        eq(dbSecret.workspaceId, workspaceId),
+        eq(dbSecret.name, SecretNames.WebPush),
+      ),
+    }),
+    db().query.secret.findFirst({
+      where: and(
+        eq(dbSecret.workspaceId, workspaceId),
+        eq(dbSecret.name, SecretNames.Apns),
+      ),
+    }),
+  ]);
+  if (getSendModelsResult.isErr()) {
+    return err(getSendModelsResult.error);
+  }
+  const { messageTemplateDefinition } = getSendModelsResult.value;
+
+  if (messageTemplateDefinition.type !== ChannelType.MobilePush) {
+    return err({
+      type: InternalEventType.BadWorkspaceConfiguration,
+      variant: {
+        type: BadWorkspaceConfigurationType.MessageTemplateMisconfigured,
+        message: "message template is not a mobile push template",
+      },
+    });
+  }
+  const identifierKey = CHANNEL_IDENTIFIERS[ChannelType.MobilePush];
+
+  const renderedValuesResult = renderValues({
+    userProperties: userPropertyAssignments,
+    identifierKey,
+    subscriptionGroupId: subscriptionGroupDetails?.id,
+    workspaceId,
+    tags: messageTags,
+    isPreview,
+    templates: {
+      title: {
+        contents: messageTemplateDefinition.title,
+      },
+      body: {
+        contents: messageTemplateDefinition.body,
+      },
+      imageUrl: {
+        contents: messageTemplateDefinition.imageUrl,
+      },
+    },
+  });
+
+  if (renderedValuesResult.isErr()) {
+    const { error, field } = renderedValuesResult.error;
+    return err({
+      type: InternalEventType.BadWorkspaceConfiguration,
+      variant: {
+        type: BadWorkspaceConfigurationType.MessageTemplateRenderError,
+        field,
+        error,
+      },
+    });
+  }
+  const { title, body, imageUrl } = renderedValuesResult.value;
+
+  // default to apns for users with a device token, and otherwise to web push,
+  // for workspaces which have configured them, as firebase delivery is not yet
+  // supported
+  let providerType: MobilePushProviderType;
+  if (providerOverride) {
+    providerType = providerOverride;
+  } else if (
+    apnsSecret &&
+    typeof userPropertyAssignments[identifierKey] === "string"
+  ) {
+    providerType = MobilePushProviderType.Apns;
+  } else if (webPushSecret) {
+    providerType = MobilePushProviderType.WebPush;
+  } else if (apnsSecret) {
+    providerType = MobilePushProviderType.Apns;
+  } else {
+    providerType = MobilePushProviderType.Firebase;
+  }
+
+  switch (providerType) {
+    case MobilePushProviderType.WebPush: {
+      if (!webPushSecret) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderNotFound,
+          },
+        });
+      }
+      const secretResult = schemaValidateWithErr(
+        webPushSecret.configValue,
+        WebPushSecret,
+      );
+      if (secretResult.isErr()) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message: secretResult.error.message,
+          },
+        });
+      }
+      const { publicKey, privateKey, subject } = secretResult.value;
+      if (!publicKey || !privateKey || !subject) {
+        return err({
+          type: InternalEventType.BadWorkspaceConfiguration,
+          variant: {
+            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
+            message:
+              "web push provider must have a vapid public key, private key, and subject",
+          },
+        });
+      }
+
+      const subscription = parseWebPushSubscription(
+        userPropertyAssignments[WEB_PUSH_SUBSCRIPTION_USER_PROPERTY],
       );
-      if (configResult.isErr()) {
+      if (!subscription) {
         return err({
-          type: InternalEventType.BadWorkspaceConfiguration,
+          type: InternalEventType.MessageSkipped,
           variant: {
-            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
-            message: configResult.error.message,
+            type: MessageSkippedType.MissingIdentifier,
+            identifierKey: WEB_PUSH_SUBSCRIPTION_USER_PROPERTY,
           },
         });
       }
 
-      const {
-        accountSid,
-        authToken,
-        messagingServiceSid,
-        apiKeySid,
-        apiKeySecret,
-      } = configResult.value;
-
-      if (!accountSid) {
+      const result = await sendWebPushNotification({
+        subscription,
+        vapid: {
+          publicKey,
+          privateKey,
+          subject,
+        },
+        payload: JSON.stringify({
+          title,
+          body,
+          imageUrl,
+          messageId: messageTags?.messageId,
+        }),
+      });
+      if (result.isErr()) {
+        if (isSubscriptionGone(result.error) && !isPreview) {
+          logger().info(
+            {
+              workspaceId,
+              userId,
+              statusCode: result.error.statusCode,
+            },
+            "removing expired web push subscription",
+          );
+          await submitIdentify({
+            workspaceId,
+            data: {
+              userId,
+              messageId: randomUUID(),
+              traits: {
+                [WEB_PUSH_SUBSCRIPTION_USER_PROPERTY]: null,
+              },
+            },
+          });
+        }
+        return err({
+          type: InternalEventType.MessageFailure,
+          variant: {
+            type: ChannelType.MobilePush,
+            provider: {
+              type: MobilePushProviderType.WebPush,
+              statusCode: result.error.statusCode,
+              message: result.error.message,
+            },
+          },
+        });
+      }
+      return ok({
+        type: InternalEventType.MessageSent,
+        variant: {
+          type: ChannelType.MobilePush,
+          title,
+          body,
+          imageUrl,
+          to: subscription.endpoint,
+          provider: {
+            type: MobilePushProviderType.WebPush,
+            statusCode: result.value.statusCode,
+          },
+        },
+      });
+    }
+    case MobilePushProviderType.Apns: {
+      if (!apnsSecret) {
         return err({
           type: InternalEventType.BadWorkspaceConfiguration,
           variant: {
-            type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
-            message: `missing accountSid in sms provider config`,
+            type: BadWorkspaceConfigurationType.MessageServiceProviderNotFound,
           },
         });
       }
-      let auth: TwilioAuth;
-      if (apiKeySid && apiKeySecret) {
-        auth = {
-          type: "apiKey",
-          apiKeySid,
-          apiKeySecret,
-        };
-      } else if (authToken) {
-        auth = {
-          type: "authToken",
-          authToken,
-        };
-      } else {
+      const secretResult = schemaValidateWithErr(
+        apnsSecret.configValue,
+        ApnsSecret,
+      );
+      if (secretResult.isErr()) {
         return err({
           type: InternalEventType.BadWorkspaceConfiguration,
           variant: {
             type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
-            message:
-              "twilio auth must provider either an auth token or api key sid and secret",
+            message: secretResult.error.message,
           },
         });
       }
-
-      let sender: TwilioSender;
-      const { senderOverride } = params;
-      if (providerOverride === SmsProviderType.Twilio && senderOverride) {
-        switch (senderOverride.type) {
-          case TwilioSenderOverrideType.MessageSid:
-            sender = {
-              messagingServiceSid: senderOverride.messagingServiceSid,
-            };
-            break;
-          case TwilioSenderOverrideType.PhoneNumber:
-            sender = {
-              from: senderOverride.phone,
-            };
-            break;
-          default:
-            assertUnreachable(senderOverride);
-        }
-      } else if (messagingServiceSid) {
-        sender = {
-          messagingServiceSid,
-        };
-      } else {
+      const { teamId, keyId, privateKey, bundleId, environment } =
+        secretResult.value;
+      if (!teamId || !keyId || !privateKey || !bundleId) {
         return err({
           type: InternalEventType.BadWorkspaceConfiguration,
           variant: {
             type: BadWorkspaceConfigurationType.MessageServiceProviderMisconfigured,
             message:
-              "twilio sender must provide either a messaging service sid or a sender override",
+              "apns provider must have a team id, key id, private key, and bundle id",
           },
         });
       }
 
-      const result = await sendSmsTwilio({
-        body,
-        accountSid,
-        auth,
-        userId,
-        subscriptionGroupId: subscriptionGroupDetails?.id,
-        to,
-        workspaceId,
-        disableCallback,
-        tags: messageTags,
-        ...sender,
-      });
+      const to = userPropertyAssignments[identifierKey];
+      if (typeof to !== "string") {
+        return err({
+          type: InternalEventType.MessageSkipped,
+          variant: {
+            type: MessageSkippedType.MissingIdentifier,
+            identifierKey,
+          },
+        });
+      }
 
+      const { apns } = messageTemplateDefinition;
+      const result = await sendApnsNotification({
+        deviceToken: to,
+        credentials: {
+          teamId,
+          keyId,
+          privateKey,
+          bundleId,
+          sandbox: environment === "sandbox",
+        },
+        collapseId: apns?.collapseId,
+        payload: buildApnsPayload({
+          title,
+          body,
+          imageUrl,
+          apns,
+        }),
+      });
       if (result.isErr()) {
+        if (isInvalidDeviceToken(result.error)) {
+          logger().info(
+            {
+              workspaceId,
+              userId,
+              statusCode: result.error.statusCode,
+              reason: result.error.reason,
+            },
+            "apns rejected device token",
+          );
+        }
         return err({
           type: InternalEventType.MessageFailure,
           variant: {
-            type: ChannelType.Sms,
+            type: ChannelType.MobilePush,
             provider: {
-              type: SmsProviderType.Twilio,
-              message: result.error.message,
+              type: MobilePushProviderType.Apns,
+              statusCode: result.error.statusCode,
+              reason: result.error.reason ?? result.error.message,
             },
           },
         });
@@ -1836,40 +2763,69 @@ export async function sendSms(
       return ok({
         type: InternalEventType.MessageSent,
         variant: {
-          type: ChannelType.Sms,
+          type: ChannelType.MobilePush,
+          title,
           body,
+          imageUrl,
           to,
           provider: {
-            type: SmsProviderType.Twilio,
-            sid: result.value.sid,
+            type: MobilePushProviderType.Apns,
+            apnsId: result.value.apnsId,
           },
         },
       });
     }
-    case SmsProviderType.Test:
+    case MobilePushProviderType.Test: {
+      const to = userPropertyAssignments[identifierKey];
+      if (typeof to !== "string") {
+        return err({
+          type: InternalEventType.MessageSkipped,
+          variant: {
+            type: MessageSkippedType.MissingIdentifier,
+            identifierKey,
+          },
+        });
+      }
       return ok({
         type: InternalEventType.MessageSent,
         variant: {
-          type: ChannelType.Sms,
+          type: ChannelType.MobilePush,
+          title,
           body,
+          imageUrl,
           to,
           provider: {
-            type: SmsProviderType.Test,
+            type: MobilePushProviderType.Test,
           },
         },
       });
-    default: {
-      return err({
-        type: InternalEventType.BadWorkspaceConfiguration,
-        variant: {
-          type: BadWorkspaceConfigurationType.MessageServiceProviderNotFound,
-        },
-      });
     }
+    case MobilePushProviderType.Firebase:
+      throw new Error("not implemented");
+    default:
+      assertUnreachable(providerType);
   }
 }
 
-export async function sendWebhook({
+export interface RenderedWebhookRequest {
+  identifier: string;
+  // the rendered config, excluding secrets, which is safe to record
+  config: WebhookConfig;
+  request: {
+    url?: string;
+    method?: string;
+    params?: unknown;
+    data?: unknown;
+    responseType?: WebhookConfig["responseType"];
+    headers: Record<string, string>;
+  };
+}
+
+/**
+ * Renders a webhook template into the request which it describes, merging in
+ * the workspace's webhook secrets.
+ */
+export async function renderWebhookRequest({
   workspaceId,
   templateId,
   userPropertyAssignments,
@@ -1877,10 +2833,9 @@ export async function sendWebhook({
   useDraft,
   messageTags,
   isPreview,
-}: Omit<
-  SendMessageParametersWebhook,
-  "channel"
->): Promise<BackendMessageSendResult> {
+}: Omit<SendMessageParametersWebhook, "channel" | "userId">): Promise<
+  Result<RenderedWebhookRequest, MessageSendFailure>
+> {
   const [getSendModelsResult, secret] = await Promise.all([
     getSendMessageModels({
       workspaceId,
@@ -2025,22 +2980,36 @@ export async function sendWebhook({
     });
   }
 
-  try {
-    const data: unknown = renderedSecret?.data ?? renderedConfig.data;
-    const params: unknown = renderedSecret?.params ?? renderedConfig.params;
-    const method = renderedSecret?.method ?? renderedConfig.method;
-    const responseType =
-      renderedSecret?.responseType ?? renderedConfig.responseType;
-    const url = renderedSecret?.url ?? renderedConfig.url;
-
-    const response = await axios.request({
-      url,
-      method,
+  const data: unknown = renderedSecret?.data ?? renderedConfig.data;
+  const params: unknown = renderedSecret?.params ?? renderedConfig.params;
+  return ok({
+    identifier,
+    config: {
+      ...renderedConfig,
+      headers: renderedConfigHeaders,
+    },
+    request: {
+      url: renderedSecret?.url ?? renderedConfig.url,
+      method: renderedSecret?.method ?? renderedConfig.method,
       params,
       data,
-      responseType,
+      responseType: renderedSecret?.responseType ?? renderedConfig.responseType,
       headers: renderedHeaders,
-    });
+    },
+  });
+}
+
+export async function sendWebhook(
+  params: Omit<SendMessageParametersWebhook, "channel">,
+): Promise<BackendMessageSendResult> {
+  const renderedResult = await renderWebhookRequest(params);
+  if (renderedResult.isErr()) {
+    return err(renderedResult.error);
+  }
+  const { identifier, config: renderedConfig, request } = renderedResult.value;
+
+  try {
+    const response = await axios.request(request);
 
     const axiosHeaders =
       response.headers instanceof AxiosHeaders
@@ -2052,10 +3021,7 @@ export async function sendWebhook({
       variant: {
         type: ChannelType.Webhook,
         to: identifier,
-        request: {
-          ...renderedConfig,
-          headers: renderedConfigHeaders,
-        } satisfies WebhookConfig,
+        request: renderedConfig,
         response: {
           status: response.status,
           headers: axiosHeaders as WebhookResponse["headers"] | undefined,
@@ -2088,10 +3054,88 @@ export async function sendWebhook({
   }
 }
 
+async function storeFailedMessage({
+  params,
+  error,
+}: {
+  params: SendMessageParameters;
+  error: MessageSendFailure;
+}) {
+  const { messageTags } = params;
+  if (!messageTags) {
+    return;
+  }
+  try {
+    await recordFailedMessage({
+      workspaceId: params.workspaceId,
+      messageId: messageTags.messageId,
+      userId: params.userId,
+      channel: params.channel,
+      templateId: params.templateId,
+      journeyId: messageTags.journeyId,
+      broadcastId: messageTags.broadcastId,
+      sendParams: R.omit(params, ["userPropertyAssignments"]),
+      error: R.omit(error, ["type"]),
+    });
+  } catch (e) {
+    // storing the failure is best effort, and shouldn't cause the send to be
+    // retried
+    logger().error(
+      {
+        err: e,
+        workspaceId: params.workspaceId,
+        messageId: messageTags.messageId,
+      },
+      "failed to store failed message",
+    );
+  }
+}
+
 export type Sender = (
   params: SendMessageParameters,
 ) => Promise<BackendMessageSendResult>;
 
+async function sendMessageToChannel(
+  params: SendMessageParameters,
+): Promise<BackendMessageSendResult> {
+  // previews and test sends don't count towards the workspace's quota
+  if (!params.isPreview) {
+    const quotaResult = await checkMessageQuota({
+      workspaceId: params.workspaceId,
+    });
+    if (quotaResult.isErr()) {
+      return err(quotaResult.error);
+    }
+  }
+  let result: BackendMessageSendResult;
+  switch (params.channel) {
+    case ChannelType.Email:
+      result = await sendEmail(params);
+      break;
+    case ChannelType.Sms:
+      result = await sendSms(params);
+      break;
+    case ChannelType.MobilePush:
+      result = await sendMobilePush(params);
+      break;
+    case ChannelType.Webhook:
+      result = await sendWebhook(params);
+      break;
+  }
+  if (result.isOk() && !params.isPreview) {
+    await recordMessageSent({ workspaceId: params.workspaceId });
+  }
+  if (
+    result.isErr() &&
+    result.error.type === InternalEventType.MessageFailure &&
+    !params.isPreview &&
+    !params.failedMessageId
+  ) {
+    await storeFailedMessage({ params, error: result.error });
+  }
+  return result;
+}
+
 /**
  * Send a message to a channel
  * Re-tryable errors will be thrown. Non-retryable errors will be returned as
@@ -2111,19 +3155,220 @@ export async function sendMessage(
       messageId: params.messageTags?.messageId,
       nodeId: params.messageTags?.nodeId,
     });
-    switch (params.channel) {
-      case ChannelType.Email:
-        return sendEmail(params);
-      case ChannelType.Sms:
-        return sendSms(params);
-      case ChannelType.MobilePush:
-        throw new Error("not implemented");
-      case ChannelType.Webhook:
-        return sendWebhook(params);
+    const { workspaceId, idempotencyKey } = params;
+    if (!idempotencyKey || params.isPreview) {
+      return sendMessageToChannel(params);
+    }
+    const previousResult = await claimMessageIdempotencyKey({
+      workspaceId,
+      key: idempotencyKey,
+      messageId: params.messageTags?.messageId ?? idempotencyKey,
+    });
+    if (previousResult) {
+      logger().info(
+        {
+          workspaceId,
+          idempotencyKey,
+          messageId: params.messageTags?.messageId,
+        },
+        "message already sent, skipping duplicate send",
+      );
+      return ok(previousResult);
+    }
+
+    let result: BackendMessageSendResult;
+    try {
+      result = await sendMessageToChannel(params);
+    } catch (e) {
+      await releaseMessageIdempotencyKey({ workspaceId, key: idempotencyKey });
+      throw e;
     }
+    if (result.isOk()) {
+      await completeMessageIdempotencyKey({
+        workspaceId,
+        key: idempotencyKey,
+        result: result.value,
+      });
+    } else {
+      await releaseMessageIdempotencyKey({ workspaceId, key: idempotencyKey });
+    }
+    return result;
   });
 }
 
+async function replayFailedMessage(
+  failedMessage: FailedMessage,
+): Promise<BackendMessageSendResult | null> {
+  const { workspaceId, userId } = failedMessage;
+  const replayMessageId = uuidv5(
+    `${failedMessage.messageId}:${failedMessage.replayCount}`,
+    workspaceId,
+  );
+  const sendParamsResult = schemaValidateWithErr(
+    failedMessage.sendParams,
+    FailedMessageSendParams,
+  );
+  if (sendParamsResult.isErr()) {
+    logger().error(
+      {
+        err: sendParamsResult.error,
+        workspaceId,
+        failedMessageId: failedMessage.id,
+      },
+      "failed message has invalid send params, skipping replay",
+    );
+    await completeFailedMessageReplay({
+      id: failedMessage.id,
+      replayMessageId,
+      error: { message: "Invalid send params" },
+    });
+    return null;
+  }
+  // channel specific parameters are validated by the send
+  const sendParams = sendParamsResult.value as Omit<
+    SendMessageParameters,
+    "userPropertyAssignments"
+  >;
+  const messageTags: MessageTags = {
+    ...sendParams.messageTags,
+    messageId: replayMessageId,
+    replayOf: failedMessage.messageId,
+  };
+
+  let result: BackendMessageSendResult;
+  try {
+    const subscriptionGroupId = sendParams.subscriptionGroupDetails?.id;
+    const [userPropertyAssignments, subscriptionGroup] = await Promise.all([
+      findAllUserPropertyAssignments({ userId, workspaceId }),
+      subscriptionGroupId
+        ? getSubscriptionGroupWithAssignment({
+            subscriptionGroupId,
+            userId,
+            workspaceId,
+          })
+        : null,
+    ]);
+    result = await sendMessage({
+      ...sendParams,
+      // the send is attributed to the failed message's user, regardless of
+      // its stored params
+      workspaceId,
+      userId,
+      userPropertyAssignments,
+      subscriptionGroupDetails: subscriptionGroup
+        ? {
+            ...getSubscriptionGroupDetails(subscriptionGroup),
+            name: subscriptionGroup.name,
+          }
+        : undefined,
+      messageTags,
+      failedMessageId: failedMessage.id,
+      // stale claims are replayed with the same message id, so the key
+      // prevents re-sending replays which reached the provider
+      idempotencyKey: replayMessageId,
+    } as SendMessageParameters);
+  } catch (e) {
+    logger().error(
+      { err: e, workspaceId, failedMessageId: failedMessage.id },
+      "failed to replay failed message",
+    );
+    await completeFailedMessageReplay({
+      id: failedMessage.id,
+      replayMessageId,
+      error: { message: e instanceof Error ? e.message : String(e) },
+    });
+    return null;
+  }
+
+  const outcome = result.isErr() ? result.error : result.value;
+  const trackData: TrackData = {
+    userId,
+    messageId: replayMessageId,
+    event: outcome.type,
+    timestamp: new Date().toISOString(),
+    properties: {
+      ...R.pick(messageTags, [
+        "journeyId",
+        "nodeId",
+        "runId",
+        "templateId",
+        "broadcastId",
+        "triggeringMessageId",
+        "replayOf",
+      ]),
+      ...R.omit(outcome, ["type"]),
+    },
+  };
+  try {
+    await completeFailedMessageReplay({
+      id: failedMessage.id,
+      replayMessageId,
+      error: result.isErr() ? R.omit(result.error, ["type"]) : null,
+    });
+  } catch (e) {
+    logger().error(
+      { err: e, workspaceId, failedMessageId: failedMessage.id },
+      "failed to complete failed message replay",
+    );
+  }
+  try {
+    await submitTrack({ workspaceId, data: trackData });
+  } catch (e) {
+    logger().error(
+      { err: e, workspaceId, failedMessageId: failedMessage.id },
+      "failed to track failed message replay",
+    );
+  }
+  return result;
+}
+
+/**
+ * Replay a failed message which was claimed by replayFailedMessages. Messages
+ * which are no longer being replayed, e.g. because their claim went stale and
+ * was replayed by another request, are ignored.
+ */
+export async function replayClaimedFailedMessage({
+  workspaceId,
+  id,
+}: {
+  workspaceId: string;
+  id: string;
+}): Promise<BackendMessageSendResult | null> {
+  const failedMessage = await findReplayingFailedMessage({ workspaceId, id });
+  if (!failedMessage) {
+    logger().info(
+      { workspaceId, failedMessageId: id },
+      "failed message is no longer being replayed, skipping",
+    );
+    return null;
+  }
+  return replayFailedMessage(failedMessage);
+}
+
+/**
+ * Re-send stored failed messages, with the user's current properties and the
+ * workspace's current providers. Each replay is sent with a new message id,
+ * and recorded as a delivery which references the original message.
+ *
+ * Claimed messages are replayed in the background by a workflow, and their
+ * outcomes are reflected in their status.
+ */
+export async function replayFailedMessages({
+  workspaceId,
+  ids,
+}: ReplayFailedMessagesRequest): Promise<ReplayFailedMessagesResponse> {
+  const claimed = await claimFailedMessages({ workspaceId, ids });
+  const queued = claimed.map((failedMessage) => failedMessage.id);
+  const claimedIds = new Set(queued);
+  if (queued.length > 0) {
+    await startReplayFailedMessagesWorkflow({ workspaceId, ids: queued });
+  }
+  return {
+    queued,
+    skipped: ids.filter((id) => !claimedIds.has(id)),
+  };
+}
+
 export async function testTemplate(
   request: MessageTemplateTestRequest,
 ): Promise<BackendMessageSendResult> {
@@ -2200,7 +3445,7 @@ export async function testTemplate(
     case ChannelType.MobilePush: {
       sendMessageParams = {
         ...baseSendMessageParams,
-        provider: request.provider,
+        providerOverride: request.provider,
         channel: request.channel,
       };
       break;
@@ -0,0 +1,160 @@
+import {
+  ChannelType,
+  EmailProviderType,
+  EmailServiceProviderFailure,
+  InternalEventType,
+  MessageSendFailure,
+  MessageSkippedType,
+} from "../types";
+import {
+  isRetryableEmailProviderFailure,
+  isUnsentEmailProviderError,
+} from "./emailFailover";
+
+function emailFailure(
+  provider: EmailServiceProviderFailure,
+): MessageSendFailure {
+  return {
+    type: InternalEventType.MessageFailure,
+    variant: {
+      type: ChannelType.Email,
+      provider,
+    },
+  };
+}
+
+describe("isRetryableEmailProviderFailure", () => {
+  it("retries provider outages and throttling", () => {
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({ type: EmailProviderType.SendGrid, status: 503 }),
+      ),
+    ).toBe(true);
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({ type: EmailProviderType.SendGrid, status: 429 }),
+      ),
+    ).toBe(true);
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({
+          type: EmailProviderType.Resend,
+          name: "rate_limit_exceeded",
+          message: "Too many requests",
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({
+          type: EmailProviderType.Smtp,
+          message: "421 Service not available, closing transmission channel",
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it("doesn't retry messages rejected by the provider", () => {
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({ type: EmailProviderType.SendGrid, status: 400 }),
+      ),
+    ).toBe(false);
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({
+          type: EmailProviderType.Resend,
+          name: "validation_error",
+          message: "Invalid `to` field",
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({
+          type: EmailProviderType.Smtp,
+          message: "550 Mailbox unavailable",
+        }),
+      ),
+    ).toBe(false);
+  });
+
+  it("doesn't retry failures which the provider may have accepted", () => {
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({ type: EmailProviderType.SendGrid }),
+      ),
+    ).toBe(false);
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({ type: EmailProviderType.SendGrid, status: 504 }),
+      ),
+    ).toBe(false);
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({
+          type: EmailProviderType.MailChimp,
+          name: "ECONNRESET",
+          message: "socket hang up",
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      isRetryableEmailProviderFailure(
+        emailFailure({
+          type: EmailProviderType.Smtp,
+          message: "Connection timeout",
+        }),
+      ),
+    ).toBe(false);
+  });
+
+  it("doesn't retry failures which aren't provider failures", () => {
+    expect(
+      isRetryableEmailProviderFailure({
+        type: InternalEventType.MessageSkipped,
+        variant: {
+          type: MessageSkippedType.MissingIdentifier,
+          identifierKey: "email",
+        },
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("isUnsentEmailProviderError", () => {
+  it("fails over when the provider couldn't be reached or refused the request", () => {
+    expect(
+      isUnsentEmailProviderError(
+        Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:443"), {
+          code: "ECONNREFUSED",
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      isUnsentEmailProviderError(
+        Object.assign(new Error("Service unavailable"), { statusCode: 503 }),
+      ),
+    ).toBe(true);
+  });
+
+  it("doesn't fail over when the provider may have accepted the message", () => {
+    expect(
+      isUnsentEmailProviderError(
+        Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" }),
+      ),
+    ).toBe(false);
+    expect(
+      isUnsentEmailProviderError(
+        new Error("fetch failed", {
+          cause: Object.assign(new Error("timed out"), { code: "ETIMEDOUT" }),
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      isUnsentEmailProviderError(
+        Object.assign(new Error("Gateway timeout"), { statusCode: 504 }),
+      ),
+    ).toBe(false);
+  });
+});
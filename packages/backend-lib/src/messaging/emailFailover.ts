@@ -0,0 +1,177 @@
+import { addFeatures, getFeatureConfig } from "../features";
+import {
+  ChannelType,
+  EmailProviderFailoverResource,
+  EmailProviderType,
+  EmailServiceProviderFailure,
+  FeatureNamesEnum,
+  InternalEventType,
+  MessageSendFailure,
+  WorkspaceWideEmailProviders,
+} from "../types";
+
+// Failover only follows errors which show that the provider didn't accept the
+// message, so that failing over can't deliver the message twice. Timeouts and
+// reset connections aren't among them, because the provider may have accepted
+// the message before the connection was lost.
+
+// errors from http based providers which indicate that the provider is
+// unavailable or throttling requests, rather than rejecting the message
+const UNACCEPTED_HTTP_ERROR_PATTERN =
+  /throttl|rate limit|rate exceeded|too many requests|service unavailable|internal (server error|failure)/i;
+
+// errors raised before a connection to the provider was established
+const UNSENT_CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]);
+
+const UNSENT_CONNECTION_ERROR_PATTERN =
+  /ECONNREFUSED|ENOTFOUND|EAI_AGAIN|EHOSTUNREACH|ENETUNREACH/;
+
+// smtp reply codes in the 4xx range are transient, while 5xx codes are
+// permanent rejections of the message
+const UNACCEPTED_SMTP_ERROR_PATTERN = /\b4\d\d\b|greylist/i;
+
+const UNACCEPTED_RESEND_ERRORS = new Set([
+  "rate_limit_exceeded",
+  "internal_server_error",
+  "application_error",
+]);
+
+// a gateway timeout may be returned after the provider accepted the message
+function isUnacceptedHttpStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status !== 504);
+}
+
+export async function getEmailProviderFailover({
+  workspaceId,
+}: {
+  workspaceId: string;
+}): Promise<WorkspaceWideEmailProviders[]> {
+  const failover = await getFeatureConfig({
+    workspaceId,
+    name: FeatureNamesEnum.EmailProviderFailover,
+  });
+  return failover?.providers ?? [];
+}
+
+export async function upsertEmailProviderFailover({
+  workspaceId,
+  providers,
+}: EmailProviderFailoverResource): Promise<EmailProviderFailoverResource> {
+  await addFeatures({
+    workspaceId,
+    features: [
+      {
+        type: FeatureNamesEnum.EmailProviderFailover,
+        providers,
+      },
+    ],
+  });
+  return { workspaceId, providers };
+}
+
+function isRetryableProviderFailure(
+  failure: EmailServiceProviderFailure,
+): boolean {
+  switch (failure.type) {
+    case EmailProviderType.SendGrid:
+      // a missing status means the request never received a response, so it's
+      // unknown whether it was accepted
+      return (
+        failure.status !== undefined && isUnacceptedHttpStatus(failure.status)
+      );
+    case EmailProviderType.Resend:
+      return (
+        UNACCEPTED_RESEND_ERRORS.has(failure.name) ||
+        UNSENT_CONNECTION_ERROR_CODES.has(failure.name)
+      );
+    case EmailProviderType.MailChimp: {
+      if (failure.name === "ERR_BAD_RESPONSE") {
+        return !failure.message.includes("status code 504");
+      }
+      return (
+        UNSENT_CONNECTION_ERROR_CODES.has(failure.name) ||
+        UNACCEPTED_HTTP_ERROR_PATTERN.test(failure.message)
+      );
+    }
+    case EmailProviderType.AmazonSes:
+    case EmailProviderType.PostMark:
+      return (
+        UNACCEPTED_HTTP_ERROR_PATTERN.test(failure.message ?? "") ||
+        UNSENT_CONNECTION_ERROR_PATTERN.test(failure.message ?? "")
+      );
+    case EmailProviderType.Smtp:
+      return (
+        UNACCEPTED_SMTP_ERROR_PATTERN.test(failure.message) ||
+        UNSENT_CONNECTION_ERROR_PATTERN.test(failure.message)
+      );
+    case EmailProviderType.Gmail:
+      // retryable gmail errors are thrown rather than returned
+      return false;
+  }
+}
+
+/**
+ * Whether a failed email send should be tried with the workspace's next
+ * failover provider, because the provider was unavailable or throttling,
+ * rather than because it rejected the message, and it can't have accepted the
+ * message.
+ */
+export function isRetryableEmailProviderFailure(
+  failure: MessageSendFailure,
+): boolean {
+  if (
+    failure.type !== InternalEventType.MessageFailure ||
+    failure.variant.type !== ChannelType.Email
+  ) {
+    return false;
+  }
+  return isRetryableProviderFailure(failure.variant.provider);
+}
+
+/**
+ * Whether an error thrown by an email provider's client shows that the
+ * provider didn't accept the message, so that the send can be tried with the
+ * workspace's next failover provider.
+ */
+export function isUnsentEmailProviderError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { code, statusCode, cause } = error as Error & {
+    code?: unknown;
+    statusCode?: unknown;
+    cause?: unknown;
+  };
+  if (typeof code === "string" && UNSENT_CONNECTION_ERROR_CODES.has(code)) {
+    return true;
+  }
+  if (typeof statusCode === "number" && statusCode > 0) {
+    return isUnacceptedHttpStatus(statusCode);
+  }
+  if (cause instanceof Error && isUnsentEmailProviderError(cause)) {
+    return true;
+  }
+  return UNSENT_CONNECTION_ERROR_PATTERN.test(error.message);
+}
+
+export function describeEmailSendError(error: unknown): string {
+  if (
+    typeof error === "object" &&
+    error !== null &&
+    "type" in error &&
+    error.type === InternalEventType.MessageFailure &&
+    "variant" in error
+  ) {
+    return JSON.stringify(error.variant);
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from "crypto";
+
+import { EmailProviderType } from "../types";
+import {
+  getActiveEmailProviderWeights,
+  selectWeightedEmailProvider,
+} from "./emailTrafficSplit";
+
+describe("selectWeightedEmailProvider", () => {
+  const workspaceId = randomUUID();
+  const userIds = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+
+  it("assigns users to the same provider on every send", () => {
+    const weights = [
+      { provider: EmailProviderType.AmazonSes, weight: 1 },
+      { provider: EmailProviderType.SendGrid, weight: 1 },
+    ];
+    for (const userId of userIds.slice(0, 10)) {
+      expect(
+        selectWeightedEmailProvider({ workspaceId, userId, weights }),
+      ).toEqual(selectWeightedEmailProvider({ workspaceId, userId, weights }));
+    }
+  });
+
+  it("splits users in proportion to the weights", () => {
+    const weights = [
+      { provider: EmailProviderType.AmazonSes, weight: 20 },
+      { provider: EmailProviderType.SendGrid, weight: 80 },
+    ];
+    const ses = userIds.filter(
+      (userId) =>
+        selectWeightedEmailProvider({ workspaceId, userId, weights }) ===
+        EmailProviderType.AmazonSes,
+    ).length;
+    expect(ses).toBeGreaterThan(150);
+    expect(ses).toBeLessThan(250);
+  });
+
+  it("keeps users with the first provider as its weight grows", () => {
+    const before = [
+      { provider: EmailProviderType.AmazonSes, weight: 10 },
+      { provider: EmailProviderType.SendGrid, weight: 90 },
+    ];
+    const after = [
+      { provider: EmailProviderType.AmazonSes, weight: 50 },
+      { provider: EmailProviderType.SendGrid, weight: 50 },
+    ];
+    for (const userId of userIds) {
+      if (
+        selectWeightedEmailProvider({
+          workspaceId,
+          userId,
+          weights: before,
+        }) === EmailProviderType.AmazonSes
+      ) {
+        expect(
+          selectWeightedEmailProvider({ workspaceId, userId, weights: after }),
+        ).toEqual(EmailProviderType.AmazonSes);
+      }
+    }
+  });
+
+  it("returns null without positive weights", () => {
+    expect(
+      selectWeightedEmailProvider({
+        workspaceId,
+        userId: "user-1",
+        weights: [{ provider: EmailProviderType.SendGrid, weight: 0 }],
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("getActiveEmailProviderWeights", () => {
+  const weights = [{ provider: EmailProviderType.SendGrid, weight: 1 }];
+  const firstStep = [
+    { provider: EmailProviderType.SendGrid, weight: 9 },
+    { provider: EmailProviderType.AmazonSes, weight: 1 },
+  ];
+  const secondStep = [
+    { provider: EmailProviderType.SendGrid, weight: 1 },
+    { provider: EmailProviderType.AmazonSes, weight: 1 },
+  ];
+  const split = {
+    weights,
+    schedule: [
+      { startsAt: "2024-01-08T00:00:00.000Z", weights: secondStep },
+      { startsAt: "2024-01-01T00:00:00.000Z", weights: firstStep },
+    ],
+  };
+
+  it("uses the latest step which has started", () => {
+    expect(
+      getActiveEmailProviderWeights({
+        split,
+        now: new Date("2023-12-31T00:00:00.000Z").getTime(),
+      }),
+    ).toEqual(weights);
+    expect(
+      getActiveEmailProviderWeights({
+        split,
+        now: new Date("2024-01-02T00:00:00.000Z").getTime(),
+      }),
+    ).toEqual(firstStep);
+    expect(
+      getActiveEmailProviderWeights({
+        split,
+        now: new Date("2024-01-09T00:00:00.000Z").getTime(),
+      }),
+    ).toEqual(secondStep);
+  });
+});
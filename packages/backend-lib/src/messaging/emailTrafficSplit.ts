@@ -0,0 +1,125 @@
+import { getExperimentBucket } from "isomorphic-lib/src/experiments";
+
+import { addFeatures, getFeatureConfig } from "../features";
+import {
+  EmailProviderTrafficSplitResource,
+  EmailProviderWeight,
+  FeatureNamesEnum,
+  WorkspaceWideEmailProviders,
+} from "../types";
+
+// Users are bucketed like they are by experiment nodes, with the split scoped
+// to the workspace in place of a journey node.
+const TRAFFIC_SPLIT_BUCKET_NODE_ID = "email-provider-traffic-split";
+
+export async function getEmailProviderTrafficSplit({
+  workspaceId,
+}: {
+  workspaceId: string;
+}): Promise<EmailProviderTrafficSplitResource> {
+  const split = await getFeatureConfig({
+    workspaceId,
+    name: FeatureNamesEnum.EmailProviderTrafficSplit,
+  });
+  return {
+    workspaceId,
+    weights: split?.weights ?? [],
+    schedule: split?.schedule,
+  };
+}
+
+export async function upsertEmailProviderTrafficSplit({
+  workspaceId,
+  weights,
+  schedule,
+}: EmailProviderTrafficSplitResource): Promise<EmailProviderTrafficSplitResource> {
+  await addFeatures({
+    workspaceId,
+    features: [
+      {
+        type: FeatureNamesEnum.EmailProviderTrafficSplit,
+        weights,
+        schedule,
+      },
+    ],
+  });
+  return { workspaceId, weights, schedule };
+}
+
+/**
+ * The weights in effect at the given time, from the latest step of the
+ * schedule which has started, or the split's base weights.
+ */
+export function getActiveEmailProviderWeights({
+  split,
+  now,
+}: {
+  split: Pick<EmailProviderTrafficSplitResource, "weights" | "schedule">;
+  now: number;
+}): EmailProviderWeight[] {
+  let active = split.weights;
+  let activeStartsAt = -Infinity;
+  for (const step of split.schedule ?? []) {
+    const startsAt = new Date(step.startsAt).getTime();
+    if (Number.isNaN(startsAt) || startsAt > now) {
+      continue;
+    }
+    if (startsAt >= activeStartsAt) {
+      active = step.weights;
+      activeStartsAt = startsAt;
+    }
+  }
+  return active;
+}
+
+/**
+ * Select the provider for a user from weighted providers. Users are always
+ * assigned to the same point on the cumulative weights, so that a user keeps
+ * being sent messages with the same provider while the weights don't change.
+ */
+export function selectWeightedEmailProvider({
+  workspaceId,
+  userId,
+  weights,
+}: {
+  workspaceId: string;
+  userId: string;
+  weights: EmailProviderWeight[];
+}): WorkspaceWideEmailProviders | null {
+  const positive = weights.filter((w) => w.weight > 0);
+  const total = positive.reduce((acc, w) => acc + w.weight, 0);
+  if (total <= 0) {
+    return null;
+  }
+  const point =
+    getExperimentBucket({
+      journeyId: workspaceId,
+      nodeId: TRAFFIC_SPLIT_BUCKET_NODE_ID,
+      userId,
+    }) * total;
+  let cumulative = 0;
+  for (const { provider, weight } of positive) {
+    cumulative += weight;
+    if (point < cumulative) {
+      return provider;
+    }
+  }
+  return positive[positive.length - 1]?.provider ?? null;
+}
+
+export async function getEmailProviderForUser({
+  workspaceId,
+  userId,
+  now = Date.now(),
+}: {
+  workspaceId: string;
+  userId: string;
+  now?: number;
+}): Promise<WorkspaceWideEmailProviders | null> {
+  const split = await getEmailProviderTrafficSplit({ workspaceId });
+  return selectWeightedEmailProvider({
+    workspaceId,
+    userId,
+    weights: getActiveEmailProviderWeights({ split, now }),
+  });
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from "crypto";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+
+import {
+  ChannelType,
+  FailedMessageResource,
+  FailedMessageStatus,
+  Workspace,
+} from "../types";
+import { createWorkspace } from "../workspaces";
+import {
+  claimFailedMessages,
+  completeFailedMessageReplay,
+  FAILED_MESSAGE_REPLAY_TIMEOUT_MS,
+  getFailedMessages,
+  recordFailedMessage,
+} from "./failedMessages";
+
+describe("failedMessages", () => {
+  let workspace: Workspace;
+  let failedMessage: FailedMessageResource;
+
+  beforeEach(async () => {
+    workspace = unwrap(
+      await createWorkspace({
+        name: `failed-messages-${randomUUID()}`,
+      }),
+    );
+    const templateId = randomUUID();
+    await recordFailedMessage({
+      workspaceId: workspace.id,
+      messageId: randomUUID(),
+      userId: "user-1",
+      channel: ChannelType.Email,
+      templateId,
+      sendParams: {
+        workspaceId: workspace.id,
+        userId: "user-1",
+        templateId,
+        channel: ChannelType.Email,
+        useDraft: false,
+      },
+      error: { message: "provider unavailable" },
+    });
+    const failedMessages = await getFailedMessages({
+      workspaceId: workspace.id,
+    });
+    if (!failedMessages[0]) {
+      throw new Error("failed message was not recorded");
+    }
+    [failedMessage] = failedMessages;
+  });
+
+  describe("claimFailedMessages", () => {
+    describe("when the message is claimed concurrently", () => {
+      it("is only claimed once", async () => {
+        const claims = await Promise.all([
+          claimFailedMessages({
+            workspaceId: workspace.id,
+            ids: [failedMessage.id],
+          }),
+          claimFailedMessages({
+            workspaceId: workspace.id,
+            ids: [failedMessage.id],
+          }),
+        ]);
+        expect(claims.flat().map((claimed) => claimed.id)).toEqual([
+          failedMessage.id,
+        ]);
+        expect(claims.flat()[0]).toEqual(
+          expect.objectContaining({
+            status: FailedMessageStatus.Replaying,
+            replayCount: 1,
+          }),
+        );
+      });
+    });
+
+    describe("when the message is being replayed", () => {
+      beforeEach(async () => {
+        await claimFailedMessages({
+          workspaceId: workspace.id,
+          ids: [failedMessage.id],
+        });
+      });
+
+      it("isn't claimed before its claim goes stale", async () => {
+        const claimed = await claimFailedMessages({
+          workspaceId: workspace.id,
+          ids: [failedMessage.id],
+        });
+        expect(claimed).toEqual([]);
+      });
+
+      it("is claimed without incrementing its replay count once its claim is stale", async () => {
+        const claimed = await claimFailedMessages({
+          workspaceId: workspace.id,
+          ids: [failedMessage.id],
+          now: Date.now() + FAILED_MESSAGE_REPLAY_TIMEOUT_MS + 1000,
+        });
+        expect(claimed).toEqual([
+          expect.objectContaining({
+            id: failedMessage.id,
+            status: FailedMessageStatus.Replaying,
+            replayCount: 1,
+          }),
+        ]);
+      });
+    });
+
+    describe("when the message has already been replayed", () => {
+      beforeEach(async () => {
+        await claimFailedMessages({
+          workspaceId: workspace.id,
+          ids: [failedMessage.id],
+        });
+        await completeFailedMessageReplay({
+          id: failedMessage.id,
+          replayMessageId: randomUUID(),
+          error: null,
+        });
+      });
+
+      it("isn't claimed", async () => {
+        const claimed = await claimFailedMessages({
+          workspaceId: workspace.id,
+          ids: [failedMessage.id],
+          now: Date.now() + FAILED_MESSAGE_REPLAY_TIMEOUT_MS + 1000,
+        });
+        expect(claimed).toEqual([]);
+      });
+    });
+
+    describe("when the message's replay failed", () => {
+      beforeEach(async () => {
+        await claimFailedMessages({
+          workspaceId: workspace.id,
+          ids: [failedMessage.id],
+        });
+        await completeFailedMessageReplay({
+          id: failedMessage.id,
+          replayMessageId: randomUUID(),
+          error: { message: "provider unavailable" },
+        });
+      });
+
+      it("is claimed again with an incremented replay count", async () => {
+        const claimed = await claimFailedMessages({
+          workspaceId: workspace.id,
+          ids: [failedMessage.id],
+        });
+        expect(claimed).toEqual([
+          expect.objectContaining({
+            id: failedMessage.id,
+            status: FailedMessageStatus.Replaying,
+            replayCount: 2,
+          }),
+        ]);
+      });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  and,
+  desc,
+  eq,
+  gte,
+  inArray,
+  lt,
+  lte,
+  or,
+  SQL,
+  sql,
+} from "drizzle-orm";
+import { validate as validateUuid } from "uuid";
+
+import { db } from "../db";
+import { failedMessage as dbFailedMessage } from "../db/schema";
+import {
+  ChannelType,
+  FailedMessage,
+  FailedMessageResource,
+  FailedMessageStatus,
+  GetFailedMessagesRequest,
+} from "../types";
+
+// How long a message may be replaying before its claim is considered stale,
+// e.g. because the worker replaying it died, and it can be claimed again.
+export const FAILED_MESSAGE_REPLAY_TIMEOUT_MS = 15 * 60 * 1000;
+
+export function toFailedMessageResource(
+  failedMessage: FailedMessage,
+): FailedMessageResource {
+  return {
+    id: failedMessage.id,
+    workspaceId: failedMessage.workspaceId,
+    messageId: failedMessage.messageId,
+    userId: failedMessage.userId,
+    channel: failedMessage.channel as ChannelType,
+    templateId: failedMessage.templateId,
+    journeyId: failedMessage.journeyId ?? undefined,
+    broadcastId: failedMessage.broadcastId ?? undefined,
+    status: failedMessage.status as FailedMessageStatus,
+    error: failedMessage.error as Record<string, unknown>,
+    replayCount: failedMessage.replayCount,
+    lastReplayMessageId: failedMessage.lastReplayMessageId ?? undefined,
+    lastReplayedAt: failedMessage.lastReplayedAt?.toISOString(),
+    createdAt: failedMessage.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Store a failed send so that it can be replayed. A send which has already
+ * been recorded, e.g. because its activity was retried, is ignored.
+ */
+export async function recordFailedMessage({
+  workspaceId,
+  messageId,
+  userId,
+  channel,
+  templateId,
+  journeyId,
+  broadcastId,
+  sendParams,
+  error,
+}: {
+  workspaceId: string;
+  messageId: string;
+  userId: string;
+  channel: ChannelType;
+  templateId: string;
+  journeyId?: string;
+  broadcastId?: string;
+  sendParams: Record<string, unknown>;
+  error: Record<string, unknown>;
+}): Promise<void> {
+  await db()
+    .insert(dbFailedMessage)
+    .values({
+      workspaceId,
+      messageId,
+      userId,
+      channel,
+      templateId,
+      journeyId: journeyId && validateUuid(journeyId) ? journeyId : null,
+      broadcastId:
+        broadcastId && validateUuid(broadcastId) ? broadcastId : null,
+      sendParams,
+      error,
+    })
+    .onConflictDoNothing();
+}
+
+export async function getFailedMessages({
+  workspaceId,
+  statuses,
+  channels,
+  templateId,
+  journeyId,
+  broadcastId,
+  startDate,
+  endDate,
+  limit = 100,
+  offset = 0,
+}: GetFailedMessagesRequest): Promise<FailedMessageResource[]> {
+  const conditions: SQL[] = [eq(dbFailedMessage.workspaceId, workspaceId)];
+  if (statuses?.length) {
+    conditions.push(inArray(dbFailedMessage.status, statuses));
+  }
+  if (channels?.length) {
+    conditions.push(inArray(dbFailedMessage.channel, channels));
+  }
+  for (const [column, id] of [
+    [dbFailedMessage.templateId, templateId],
+    [dbFailedMessage.journeyId, journeyId],
+    [dbFailedMessage.broadcastId, broadcastId],
+  ] as const) {
+    if (id === undefined) {
+      continue;
+    }
+    if (!validateUuid(id)) {
+      return [];
+    }
+    conditions.push(eq(column, id));
+  }
+  if (startDate) {
+    conditions.push(gte(dbFailedMessage.createdAt, new Date(startDate)));
+  }
+  if (endDate) {
+    conditions.push(lte(dbFailedMessage.createdAt, new Date(endDate)));
+  }
+  const failedMessages = await db()
+    .select()
+    .from(dbFailedMessage)
+    .where(and(...conditions))
+    .orderBy(desc(dbFailedMessage.createdAt))
+    .limit(limit)
+    .offset(offset);
+  return failedMessages.map(toFailedMessageResource);
+}
+
+/**
+ * Mark failed messages as being replayed, returning the messages which were
+ * claimed. Messages which have already been replayed, or which are being
+ * replayed by a concurrent request, aren't returned, so that each failure is
+ * only re-sent once.
+ *
+ * Claims older than FAILED_MESSAGE_REPLAY_TIMEOUT_MS are taken over without
+ * incrementing the replay count, so that the replay keeps its message id and
+ * idempotency key, and isn't re-sent if the stale replay reached the provider.
+ */
+export async function claimFailedMessages({
+  workspaceId,
+  ids,
+  now = Date.now(),
+}: {
+  workspaceId: string;
+  ids: string[];
+  now?: number;
+}): Promise<FailedMessage[]> {
+  const validIds = ids.filter((id) => validateUuid(id));
+  if (validIds.length === 0) {
+    return [];
+  }
+  return db()
+    .update(dbFailedMessage)
+    .set({
+      status: FailedMessageStatus.Replaying,
+      replayCount: sql`case when ${dbFailedMessage.status} = ${FailedMessageStatus.Replaying} then ${dbFailedMessage.replayCount} else ${dbFailedMessage.replayCount} + 1 end`,
+    })
+    .where(
+      and(
+        eq(dbFailedMessage.workspaceId, workspaceId),
+        inArray(dbFailedMessage.id, validIds),
+        or(
+          inArray(dbFailedMessage.status, [
+            FailedMessageStatus.Failed,
+            FailedMessageStatus.ReplayFailed,
+          ]),
+          and(
+            eq(dbFailedMessage.status, FailedMessageStatus.Replaying),
+            lt(
+              dbFailedMessage.updatedAt,
+              new Date(now - FAILED_MESSAGE_REPLAY_TIMEOUT_MS),
+            ),
+          ),
+        ),
+      ),
+    )
+    .returning();
+}
+
+/**
+ * Find a failed message which has been claimed for replay.
+ */
+export async function findReplayingFailedMessage({
+  workspaceId,
+  id,
+}: {
+  workspaceId: string;
+  id: string;
+}): Promise<FailedMessage | null> {
+  if (!validateUuid(id)) {
+    return null;
+  }
+  const failedMessage = await db().query.failedMessage.findFirst({
+    where: and(
+      eq(dbFailedMessage.workspaceId, workspaceId),
+      eq(dbFailedMessage.id, id),
+      eq(dbFailedMessage.status, FailedMessageStatus.Replaying),
+    ),
+  });
+  return failedMessage ?? null;
+}
+
+/**
+ * Record the outcome of replaying a claimed message. Messages which fail
+ * again can be replayed again.
+ */
+export async function completeFailedMessageReplay({
+  id,
+  replayMessageId,
+  error,
+}: {
+  id: string;
+  replayMessageId: string;
+  error: Record<string, unknown> | null;
+}): Promise<void> {
+  await db()
+    .update(dbFailedMessage)
+    .set({
+      status: error
+        ? FailedMessageStatus.ReplayFailed
+        : FailedMessageStatus.Replayed,
+      lastReplayMessageId: replayMessageId,
+      lastReplayedAt: new Date(),
+      ...(error ? { error } : {}),
+    })
+    .where(eq(dbFailedMessage.id, id));
+}
@@ -0,0 +1,46 @@
+import { randomUUID } from "crypto";
+
+import { getMessageIdempotencyKey } from "./idempotency";
+
+describe("getMessageIdempotencyKey", () => {
+  const workspaceId = randomUUID();
+  const journeySend = {
+    workspaceId,
+    journeyId: randomUUID(),
+    nodeId: "message-node",
+    userId: "user-1",
+    runId: randomUUID(),
+  };
+
+  it("returns the same key for retries of a send", () => {
+    expect(getMessageIdempotencyKey(journeySend)).toEqual(
+      getMessageIdempotencyKey({ ...journeySend }),
+    );
+  });
+
+  it("returns different keys for different sends", () => {
+    const key = getMessageIdempotencyKey(journeySend);
+    expect(
+      getMessageIdempotencyKey({ ...journeySend, runId: randomUUID() }),
+    ).not.toEqual(key);
+    expect(
+      getMessageIdempotencyKey({ ...journeySend, nodeId: "other-node" }),
+    ).not.toEqual(key);
+    expect(
+      getMessageIdempotencyKey({ ...journeySend, workspaceId: randomUUID() }),
+    ).not.toEqual(key);
+    expect(
+      getMessageIdempotencyKey({
+        workspaceId,
+        broadcastId: journeySend.journeyId,
+        userId: journeySend.userId,
+      }),
+    ).not.toEqual(
+      getMessageIdempotencyKey({
+        workspaceId,
+        journeyId: journeySend.journeyId,
+        userId: journeySend.userId,
+      }),
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { and, eq, isNull, lt } from "drizzle-orm";
+import { v5 as uuidv5 } from "uuid";
+
+import { db } from "../db";
+import { messageIdempotencyKey as dbMessageIdempotencyKey } from "../db/schema";
+import logger from "../logger";
+import { MessageSuccess } from "../types";
+
+// keys only need to outlive the retries of the journey activities and
+// broadcast batches which claimed them
+export const MESSAGE_IDEMPOTENCY_KEY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Derive the idempotency key of a message sent by a journey or broadcast.
+ * Retries of the same send produce the same key, while sends to the same user
+ * from different nodes, runs, or broadcasts don't collide.
+ */
+export function getMessageIdempotencyKey({
+  workspaceId,
+  journeyId,
+  broadcastId,
+  nodeId,
+  userId,
+  runId,
+}: {
+  workspaceId: string;
+  journeyId?: string;
+  broadcastId?: string;
+  nodeId?: string;
+  userId: string;
+  runId?: string;
+}): string {
+  return uuidv5(
+    [journeyId, broadcastId, nodeId, userId, runId]
+      .map((part) => part ?? "")
+      .join(":"),
+    workspaceId,
+  );
+}
+
+/**
+ * Claim an idempotency key before sending a message. Returns the result of the
+ * earlier send if the key has already been used successfully, in which case
+ * the message shouldn't be sent again.
+ *
+ * A key which was claimed but never completed belongs to a send which was
+ * interrupted, e.g. by a worker restart. It's unknown whether the provider
+ * accepted that send, so the message is sent again with the same key. Resend
+ * de-duplicates sends by key, while other providers, e.g. SendGrid and
+ * Postmark, have no native idempotency, so for them de-duplication only
+ * happens through this table, and an interrupted send can be delivered twice.
+ */
+export async function claimMessageIdempotencyKey({
+  workspaceId,
+  key,
+  messageId,
+}: {
+  workspaceId: string;
+  key: string;
+  messageId: string;
+}): Promise<MessageSuccess | null> {
+  const inserted = await db()
+    .insert(dbMessageIdempotencyKey)
+    .values({ workspaceId, key, messageId })
+    .onConflictDoNothing()
+    .returning({ id: dbMessageIdempotencyKey.id });
+  if (inserted.length > 0) {
+    return null;
+  }
+  const existing = await db().query.messageIdempotencyKey.findFirst({
+    where: and(
+      eq(dbMessageIdempotencyKey.workspaceId, workspaceId),
+      eq(dbMessageIdempotencyKey.key, key),
+    ),
+  });
+  if (existing?.result) {
+    return existing.result as MessageSuccess;
+  }
+  logger().warn(
+    { workspaceId, key, messageId, previousMessageId: existing?.messageId },
+    "re-sending message with interrupted idempotency key",
+  );
+  return null;
+}
+
+export async function completeMessageIdempotencyKey({
+  workspaceId,
+  key,
+  result,
+}: {
+  workspaceId: string;
+  key: string;
+  result: MessageSuccess;
+}): Promise<void> {
+  await db()
+    .update(dbMessageIdempotencyKey)
+    .set({ result })
+    .where(
+      and(
+        eq(dbMessageIdempotencyKey.workspaceId, workspaceId),
+        eq(dbMessageIdempotencyKey.key, key),
+      ),
+    );
+}
+
+/**
+ * Release the claim on a key whose send failed, so that it can be retried.
+ */
+export async function releaseMessageIdempotencyKey({
+  workspaceId,
+  key,
+}: {
+  workspaceId: string;
+  key: string;
+}): Promise<void> {
+  await db()
+    .delete(dbMessageIdempotencyKey)
+    .where(
+      and(
+        eq(dbMessageIdempotencyKey.workspaceId, workspaceId),
+        eq(dbMessageIdempotencyKey.key, key),
+        isNull(dbMessageIdempotencyKey.result),
+      ),
+    );
+}
+
+/**
+ * Delete idempotency keys which are older than the window in which their sends
+ * can be retried. Returns the number of deleted keys.
+ */
+export async function deleteExpiredMessageIdempotencyKeys({
+  now = Date.now(),
+}: {
+  now?: number;
+} = {}): Promise<number> {
+  const result = await db()
+    .delete(dbMessageIdempotencyKey)
+    .where(
+      lt(
+        dbMessageIdempotencyKey.createdAt,
+        new Date(now - MESSAGE_IDEMPOTENCY_KEY_RETENTION_MS),
+      ),
+    );
+  return result.rowCount ?? 0;
+}
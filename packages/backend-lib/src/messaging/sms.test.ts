@@ -1,10 +1,10 @@
 import { randomUUID } from "crypto";
 import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
-import { SmsProviderType } from "isomorphic-lib/src/types";
+import { SmsProviderType, SmsRoutingRule } from "isomorphic-lib/src/types";
 
 import { db } from "../db";
 import { createWorkspace } from "../workspaces";
-import { upsertSmsProvider } from "./sms";
+import { findSmsRoutingRule, upsertSmsProvider } from "./sms";
 
 describe("sms", () => {
   describe("upsertSmsProvider", () => {
@@ -51,4 +51,42 @@ describe("sms", () => {
       );
     });
   });
+
+  describe("findSmsRoutingRule", () => {
+    const rules: SmsRoutingRule[] = [
+      {
+        id: "us",
+        countryPrefix: "1",
+        provider: SmsProviderType.Twilio,
+      },
+      {
+        id: "jamaica",
+        countryPrefix: "+1876",
+        provider: SmsProviderType.Vonage,
+      },
+      {
+        id: "uk",
+        countryPrefix: "44",
+        provider: SmsProviderType.Sns,
+        fallbackProvider: SmsProviderType.Twilio,
+      },
+    ];
+
+    it("picks the rule with the longest matching prefix", () => {
+      expect(findSmsRoutingRule({ rules, to: "+18765551234" })?.id).toEqual(
+        "jamaica",
+      );
+      expect(findSmsRoutingRule({ rules, to: "+14155551234" })?.id).toEqual(
+        "us",
+      );
+      expect(
+        findSmsRoutingRule({ rules, to: "+44 (20) 7946-0958" })?.id,
+      ).toEqual("uk");
+    });
+
+    it("does not route numbers without a matching or known country", () => {
+      expect(findSmsRoutingRule({ rules, to: "+33612345678" })).toBeNull();
+      expect(findSmsRoutingRule({ rules, to: "4155551234" })).toBeNull();
+    });
+  });
 });
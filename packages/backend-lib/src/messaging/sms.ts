@@ -8,11 +8,15 @@ import {
   secret as dbSecret,
   smsProvider as dbSmsProvider,
 } from "../db/schema";
+import { addFeatures, getFeatureConfig } from "../features";
 import logger from "../logger";
 import {
+  FeatureNamesEnum,
   PersistedSmsProvider,
   SmsProvider,
   SmsProviderType,
+  SmsRoutingResource,
+  SmsRoutingRule,
   UpsertSmsProviderRequest,
 } from "../types";
 
@@ -100,6 +104,12 @@ export async function getOrCreateSmsProviders({
       case SmsProviderType.Twilio:
         type = SmsProviderType.Twilio;
         break;
+      case SmsProviderType.Vonage:
+        type = SmsProviderType.Vonage;
+        break;
+      case SmsProviderType.Sns:
+        type = SmsProviderType.Sns;
+        break;
       case SmsProviderType.Test:
         type = SmsProviderType.Test;
         break;
@@ -135,3 +145,62 @@ export async function getOrCreateSmsProviders({
   await Promise.all(upsertPromises);
   return smsProviders;
 }
+
+export async function getSmsRoutingRules({
+  workspaceId,
+}: {
+  workspaceId: string;
+}): Promise<SmsRoutingRule[]> {
+  const routing = await getFeatureConfig({
+    workspaceId,
+    name: FeatureNamesEnum.SmsRouting,
+  });
+  return routing?.rules ?? [];
+}
+
+export async function upsertSmsRoutingRules({
+  workspaceId,
+  rules,
+}: SmsRoutingResource): Promise<SmsRoutingResource> {
+  await addFeatures({
+    workspaceId,
+    features: [
+      {
+        type: FeatureNamesEnum.SmsRouting,
+        rules,
+      },
+    ],
+  });
+  return { workspaceId, rules };
+}
+
+/**
+ * Finds the rule with the longest country prefix matching the recipient's
+ * phone number. Numbers which aren't in E.164 format are never routed, as
+ * their country can't be determined.
+ */
+export function findSmsRoutingRule({
+  rules,
+  to,
+}: {
+  rules: SmsRoutingRule[];
+  to: string;
+}): SmsRoutingRule | null {
+  const normalized = to.replace(/[\s()-]/g, "");
+  if (!normalized.startsWith("+")) {
+    return null;
+  }
+  const digits = normalized.slice(1);
+  let match: SmsRoutingRule | null = null;
+  for (const rule of rules) {
+    const prefix = rule.countryPrefix.replace(/^\+/, "");
+    if (
+      prefix.length > 0 &&
+      digits.startsWith(prefix) &&
+      (!match || prefix.length > match.countryPrefix.replace(/^\+/, "").length)
+    ) {
+      match = rule;
+    }
+  }
+  return match;
+}
@@ -0,0 +1,123 @@
+import { randomUUID } from "crypto";
+
+import { submitBatch } from "../../../test/testEvents";
+import { EventType, InternalEventType } from "../../types";
+import {
+  countEventsIngested,
+  evictIdleTokenBuckets,
+  takeTokens,
+} from "../ingestionLimits";
+
+describe("IngestionLimits", () => {
+  describe("takeTokens", () => {
+    it("allows bursts up to the bucket's capacity", () => {
+      const key = randomUUID();
+      const now = Date.now();
+      expect(
+        takeTokens({ limits: [{ key, rate: 1 }], count: 10, now }),
+      ).toEqual({ allowed: true });
+      expect(takeTokens({ limits: [{ key, rate: 1 }], count: 1, now })).toEqual(
+        { allowed: false, retryAfterSeconds: 1 },
+      );
+    });
+
+    it("refills the bucket at the configured rate", () => {
+      const key = randomUUID();
+      const now = Date.now();
+      takeTokens({ limits: [{ key, rate: 2 }], count: 20, now });
+      expect(
+        takeTokens({ limits: [{ key, rate: 2 }], count: 4, now: now + 1000 }),
+      ).toEqual({ allowed: false, retryAfterSeconds: 1 });
+      expect(
+        takeTokens({ limits: [{ key, rate: 2 }], count: 4, now: now + 2000 }),
+      ).toEqual({ allowed: true });
+    });
+
+    it("takes no tokens when any bucket is exhausted", () => {
+      const workspaceKey = randomUUID();
+      const writeKey = randomUUID();
+      const now = Date.now();
+      takeTokens({ limits: [{ key: writeKey, rate: 1 }], count: 10, now });
+      expect(
+        takeTokens({
+          limits: [
+            { key: workspaceKey, rate: 1 },
+            { key: writeKey, rate: 1 },
+          ],
+          count: 5,
+          now,
+        }),
+      ).toEqual({ allowed: false, retryAfterSeconds: 5 });
+      expect(
+        takeTokens({
+          limits: [{ key: workspaceKey, rate: 1 }],
+          count: 10,
+          now,
+        }),
+      ).toEqual({ allowed: true });
+    });
+  });
+
+  describe("evictIdleTokenBuckets", () => {
+    it("removes buckets once they've refilled to capacity", () => {
+      const key = randomUUID();
+      const now = Date.now();
+      takeTokens({ limits: [{ key, rate: 1 }], count: 10, now });
+      evictIdleTokenBuckets(now + 5000);
+      expect(
+        takeTokens({ limits: [{ key, rate: 1 }], count: 6, now: now + 5000 }),
+      ).toEqual({ allowed: false, retryAfterSeconds: 1 });
+
+      expect(evictIdleTokenBuckets(now + 20000)).toBeGreaterThanOrEqual(1);
+      expect(
+        takeTokens({ limits: [{ key, rate: 1 }], count: 10, now: now + 20000 }),
+      ).toEqual({ allowed: true });
+    });
+  });
+
+  describe("countEventsIngested", () => {
+    it("counts only the client events processed since the given time", async () => {
+      const workspaceId = randomUUID();
+      const userId = randomUUID();
+      const now = Date.now();
+      await submitBatch({
+        workspaceId,
+        now,
+        data: [
+          {
+            type: EventType.Track,
+            userId,
+            offsetMs: -1000,
+            event: "Viewed Pricing",
+          },
+          {
+            type: EventType.Identify,
+            userId,
+            offsetMs: -1000,
+            traits: {
+              plan: "pro",
+            },
+          },
+          {
+            type: EventType.Track,
+            userId,
+            offsetMs: -1000,
+            event: InternalEventType.MessageSent,
+          },
+          {
+            type: EventType.Track,
+            userId,
+            offsetMs: -60 * 60 * 1000,
+            event: "Viewed Pricing",
+          },
+        ],
+      });
+
+      const count = await countEventsIngested({
+        workspaceId,
+        since: new Date(now - 60 * 1000),
+      });
+      expect(count).toEqual(2);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  getBillingPeriod,
+  getCrossedWarningThresholds,
+} from "../messageQuotas";
+
+describe("MessageQuotas", () => {
+  describe("getBillingPeriod", () => {
+    it("starts on the first of the month by default", () => {
+      const period = getBillingPeriod({
+        now: new Date("2024-03-15T12:00:00.000Z"),
+      });
+      expect(period.start.toISOString()).toEqual("2024-03-01T00:00:00.000Z");
+      expect(period.end.toISOString()).toEqual("2024-04-01T00:00:00.000Z");
+    });
+
+    it("uses the previous month's anchor day before this month's", () => {
+      const period = getBillingPeriod({
+        now: new Date("2024-01-10T12:00:00.000Z"),
+        anchorDay: 15,
+      });
+      expect(period.start.toISOString()).toEqual("2023-12-15T00:00:00.000Z");
+      expect(period.end.toISOString()).toEqual("2024-01-15T00:00:00.000Z");
+    });
+
+    it("resets usage at the anchor day boundary", () => {
+      const period = getBillingPeriod({
+        now: new Date("2024-01-15T00:00:00.000Z"),
+        anchorDay: 15,
+      });
+      expect(period.start.toISOString()).toEqual("2024-01-15T00:00:00.000Z");
+      expect(period.end.toISOString()).toEqual("2024-02-15T00:00:00.000Z");
+    });
+  });
+
+  describe("getCrossedWarningThresholds", () => {
+    it("returns the thresholds crossed by the new usage", () => {
+      expect(
+        getCrossedWarningThresholds({
+          previousUsage: 79,
+          currentUsage: 80,
+          limit: 100,
+          thresholds: [80, 90],
+        }),
+      ).toEqual([80]);
+    });
+
+    it("doesn't return thresholds which were already crossed", () => {
+      expect(
+        getCrossedWarningThresholds({
+          previousUsage: 80,
+          currentUsage: 81,
+          limit: 100,
+          thresholds: [80, 90],
+        }),
+      ).toEqual([]);
+    });
+  });
+});
@@ -108,6 +108,8 @@ describe("ResourceQuotas", () => {
         maxTemplates: 100,
         maxStorageBytes: 10737418240,
         maxMessagesPerMonth: 100000,
+        maxEventsPerMonth: 1000000,
+        maxEventSizeBytes: 65536,
       });
 
       // Mock getCurrentResourceUsage to return low usage
@@ -146,6 +148,8 @@ describe("ResourceQuotas", () => {
         maxTemplates: 100,
         maxStorageBytes: 10737418240,
         maxMessagesPerMonth: 100000,
+        maxEventsPerMonth: 1000000,
+        maxEventSizeBytes: 65536,
       });
 
       // Mock getCurrentResourceUsage to return usage at limit
@@ -183,6 +187,8 @@ describe("ResourceQuotas", () => {
         maxTemplates: 100,
         maxStorageBytes: 10737418240,
         maxMessagesPerMonth: 100000,
+        maxEventsPerMonth: 1000000,
+        maxEventSizeBytes: 65536,
       });
 
       const mockGetCurrentResourceUsage = getCurrentResourceUsage as jest.MockedFunction<typeof getCurrentResourceUsage>;
@@ -259,6 +265,8 @@ describe("ResourceQuotas", () => {
         maxTemplates: 100,
         maxStorageBytes: 10737418240, // 10GB
         maxMessagesPerMonth: 100000,
+        maxEventsPerMonth: 1000000,
+        maxEventSizeBytes: 65536, // 64KB
       });
     });
   });
@@ -0,0 +1,401 @@
+import { err, ok, Result } from "neverthrow";
+
+import { ClickHouseQueryBuilder, query } from "../clickhouse";
+import config from "../config";
+import logger from "../logger";
+import { auditRateLimitExceeded } from "../security/auditLogger";
+import { BillingPeriod, getWorkspaceBillingPeriod } from "./messageQuotas";
+import {
+  getConfiguredWorkspaceQuotaLimits,
+  QuotaLimits,
+} from "./resourceQuotas";
+
+/**
+ * Limits applied to events submitted through the public app routes.
+ *
+ * Request rates are limited per workspace and per write key with in-memory
+ * token buckets, so limits apply per API instance, when rate limits are
+ * configured. Event sizes and the maxEventsPerMonth quota are read from the
+ * workspace's quota, and are only enforced for workspaces which have one.
+ */
+
+// Buckets hold this many seconds worth of events, allowing short bursts above
+// the sustained rate.
+const INGESTION_BURST_SECONDS = 10;
+
+// How long an instance trusts its locally incremented event count and cached
+// quota before re-reading them.
+const INGESTION_USAGE_CACHE_TTL_MS = 60 * 1000;
+
+// How long an instance skips quota checks after failing to read a workspace's
+// quota or usage, so that an outage isn't compounded by retrying per request.
+const INGESTION_USAGE_FAILURE_TTL_MS = 5 * 1000;
+
+// Minimum interval between sweeps of idle token buckets and audit timestamps.
+const EVICTION_INTERVAL_MS = 60 * 1000;
+
+// Minimum interval between audit events for the same limit and key, so that a
+// client hammering the API doesn't flood the audit log.
+const RATE_LIMIT_AUDIT_INTERVAL_MS = 60 * 1000;
+
+export enum IngestionLimitErrorType {
+  RateLimited = "RateLimited",
+  MonthlyQuotaExceeded = "MonthlyQuotaExceeded",
+  EventTooLarge = "EventTooLarge",
+}
+
+export interface IngestionRateLimitedError {
+  type: IngestionLimitErrorType.RateLimited;
+  retryAfterSeconds: number;
+}
+
+export interface IngestionMonthlyQuotaExceededError {
+  type: IngestionLimitErrorType.MonthlyQuotaExceeded;
+  retryAfterSeconds: number;
+  currentUsage: number;
+  limit: number;
+}
+
+export interface IngestionEventTooLargeError {
+  type: IngestionLimitErrorType.EventTooLarge;
+  sizeBytes: number;
+  limit: number;
+}
+
+export type IngestionLimitError =
+  | IngestionRateLimitedError
+  | IngestionMonthlyQuotaExceededError
+  | IngestionEventTooLargeError;
+
+interface TokenBucket {
+  tokens: number;
+  rate: number;
+  updatedAt: number;
+}
+
+interface IngestionUsageCacheEntry {
+  limits: QuotaLimits | null;
+  period: BillingPeriod;
+  count: number;
+  refreshedAt: number;
+}
+
+const TOKEN_BUCKETS = new Map<string, TokenBucket>();
+const INGESTION_USAGE_CACHE = new Map<string, IngestionUsageCacheEntry>();
+const INGESTION_USAGE_REQUESTS = new Map<
+  string,
+  Promise<IngestionUsageCacheEntry>
+>();
+const INGESTION_USAGE_FAILED_AT = new Map<string, number>();
+const RATE_LIMIT_AUDITED_AT = new Map<string, number>();
+let lastEvictedAt = 0;
+
+export interface TokenBucketLimit {
+  key: string;
+  // tokens added per second
+  rate: number;
+}
+
+/**
+ * Take count tokens from each of the buckets, or none of them if any bucket
+ * is exhausted. Requests larger than a bucket's capacity are allowed from a
+ * full bucket, leaving it in debt until it refills.
+ */
+export function takeTokens({
+  limits,
+  count,
+  now,
+}: {
+  limits: TokenBucketLimit[];
+  count: number;
+  now: number;
+}): { allowed: true } | { allowed: false; retryAfterSeconds: number } {
+  const buckets = limits.map(({ key, rate }) => {
+    const capacity = rate * INGESTION_BURST_SECONDS;
+    const existing = TOKEN_BUCKETS.get(key);
+    const bucket: TokenBucket = existing
+      ? {
+          tokens: Math.min(
+            capacity,
+            existing.tokens + ((now - existing.updatedAt) / 1000) * rate,
+          ),
+          rate,
+          updatedAt: now,
+        }
+      : { tokens: capacity, rate, updatedAt: now };
+    TOKEN_BUCKETS.set(key, bucket);
+    return { bucket, rate, required: Math.min(count, capacity) };
+  });
+
+  let retryAfterSeconds = 0;
+  for (const { bucket, rate, required } of buckets) {
+    if (bucket.tokens < required) {
+      retryAfterSeconds = Math.max(
+        retryAfterSeconds,
+        Math.ceil((required - bucket.tokens) / rate),
+      );
+    }
+  }
+  if (retryAfterSeconds > 0) {
+    return { allowed: false, retryAfterSeconds };
+  }
+  for (const { bucket } of buckets) {
+    bucket.tokens -= count;
+  }
+  return { allowed: true };
+}
+
+/**
+ * Remove token buckets which have refilled to capacity, as they're equivalent
+ * to missing buckets, along with expired audit timestamps.
+ *
+ * @returns the number of buckets removed
+ */
+export function evictIdleTokenBuckets(now: number): number {
+  let evicted = 0;
+  for (const [key, bucket] of TOKEN_BUCKETS) {
+    const capacity = bucket.rate * INGESTION_BURST_SECONDS;
+    if (
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.rate >=
+      capacity
+    ) {
+      TOKEN_BUCKETS.delete(key);
+      evicted += 1;
+    }
+  }
+  for (const [key, auditedAt] of RATE_LIMIT_AUDITED_AT) {
+    if (now - auditedAt >= RATE_LIMIT_AUDIT_INTERVAL_MS) {
+      RATE_LIMIT_AUDITED_AT.delete(key);
+    }
+  }
+  return evicted;
+}
+
+export async function countEventsIngested({
+  workspaceId,
+  since,
+}: {
+  workspaceId: string;
+  since: Date;
+}): Promise<number> {
+  const qb = new ClickHouseQueryBuilder();
+  const result = await query({
+    query: `
+      SELECT count() AS count
+      FROM user_events_v2
+      WHERE
+        workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+        AND processing_time >= toDateTime64(${qb.addQueryValue(since.getTime() / 1000, "Float64")}, 3)
+        AND NOT startsWith(event, 'DF')
+    `,
+    query_params: qb.getQueries(),
+  });
+  const rows = await result.json<{ count: string | number }>();
+  return Number(rows[0]?.count ?? 0);
+}
+
+async function readIngestionUsage({
+  workspaceId,
+  now,
+}: {
+  workspaceId: string;
+  now: Date;
+}): Promise<IngestionUsageCacheEntry> {
+  const [limits, period] = await Promise.all([
+    getConfiguredWorkspaceQuotaLimits(workspaceId),
+    getWorkspaceBillingPeriod({ workspaceId, now }),
+  ]);
+  // usage is only counted for workspaces with a quota
+  const count = limits
+    ? await countEventsIngested({
+        workspaceId,
+        since: period.start,
+      })
+    : 0;
+  const entry: IngestionUsageCacheEntry = {
+    limits,
+    period,
+    count,
+    refreshedAt: now.getTime(),
+  };
+  INGESTION_USAGE_CACHE.set(workspaceId, entry);
+  return entry;
+}
+
+/**
+ * Get a workspace's cached quota and usage, sharing a single read between
+ * concurrent requests when the cache has expired.
+ */
+async function getIngestionUsage({
+  workspaceId,
+  now,
+}: {
+  workspaceId: string;
+  now: Date;
+}): Promise<IngestionUsageCacheEntry> {
+  const cached = INGESTION_USAGE_CACHE.get(workspaceId);
+  if (
+    cached &&
+    now.getTime() < cached.period.end.getTime() &&
+    now.getTime() - cached.refreshedAt < INGESTION_USAGE_CACHE_TTL_MS
+  ) {
+    return cached;
+  }
+  const inFlight = INGESTION_USAGE_REQUESTS.get(workspaceId);
+  if (inFlight) {
+    return inFlight;
+  }
+  const request = readIngestionUsage({ workspaceId, now }).finally(() => {
+    INGESTION_USAGE_REQUESTS.delete(workspaceId);
+  });
+  INGESTION_USAGE_REQUESTS.set(workspaceId, request);
+  return request;
+}
+
+function auditLimitExceeded({
+  workspaceId,
+  writeKeyId,
+  limit,
+  now,
+  metadata,
+}: {
+  workspaceId: string;
+  writeKeyId: string;
+  limit: string;
+  now: Date;
+  metadata: Record<string, unknown>;
+}) {
+  const key = `${limit}:${writeKeyId}`;
+  const auditedAt = RATE_LIMIT_AUDITED_AT.get(key);
+  if (
+    auditedAt !== undefined &&
+    now.getTime() - auditedAt < RATE_LIMIT_AUDIT_INTERVAL_MS
+  ) {
+    return;
+  }
+  RATE_LIMIT_AUDITED_AT.set(key, now.getTime());
+  auditRateLimitExceeded(workspaceId, limit, {
+    resourceType: "write_key",
+    resourceId: writeKeyId,
+    metadata,
+  });
+}
+
+/**
+ * Check whether a batch of events submitted with a write key may be ingested,
+ * counting them towards the workspace's rate limits and monthly quota if so.
+ *
+ * Fails open when the workspace's quota or usage can't be determined, so that
+ * an outage of the quota store doesn't drop events.
+ */
+export async function checkIngestionLimits({
+  workspaceId,
+  writeKeyId,
+  eventSizes,
+  now = new Date(),
+}: {
+  workspaceId: string;
+  writeKeyId: string;
+  eventSizes: number[];
+  now?: Date;
+}): Promise<Result<void, IngestionLimitError>> {
+  if (now.getTime() - lastEvictedAt >= EVICTION_INTERVAL_MS) {
+    lastEvictedAt = now.getTime();
+    evictIdleTokenBuckets(now.getTime());
+  }
+
+  let usage: IngestionUsageCacheEntry | null = null;
+  const failedAt = INGESTION_USAGE_FAILED_AT.get(workspaceId);
+  if (
+    failedAt === undefined ||
+    now.getTime() - failedAt >= INGESTION_USAGE_FAILURE_TTL_MS
+  ) {
+    try {
+      usage = await getIngestionUsage({ workspaceId, now });
+      INGESTION_USAGE_FAILED_AT.delete(workspaceId);
+    } catch (error) {
+      INGESTION_USAGE_FAILED_AT.set(workspaceId, now.getTime());
+      logger().error(
+        { err: error, workspaceId },
+        "failed to read ingestion usage, skipping quota checks",
+      );
+    }
+  }
+
+  const maxEventSizeBytes = usage?.limits?.maxEventSizeBytes;
+  if (maxEventSizeBytes !== undefined) {
+    const sizeBytes = Math.max(0, ...eventSizes);
+    if (sizeBytes > maxEventSizeBytes) {
+      auditLimitExceeded({
+        workspaceId,
+        writeKeyId,
+        limit: "event size",
+        now,
+        metadata: { sizeBytes, limit: maxEventSizeBytes },
+      });
+      return err({
+        type: IngestionLimitErrorType.EventTooLarge,
+        sizeBytes,
+        limit: maxEventSizeBytes,
+      });
+    }
+  }
+
+  const { workspaceIngestionRateLimit, writeKeyIngestionRateLimit } = config();
+  const rateLimits: TokenBucketLimit[] = [];
+  if (workspaceIngestionRateLimit !== undefined) {
+    rateLimits.push({
+      key: `workspace:${workspaceId}`,
+      rate: workspaceIngestionRateLimit,
+    });
+  }
+  if (writeKeyIngestionRateLimit !== undefined) {
+    rateLimits.push({
+      key: `writeKey:${writeKeyId}`,
+      rate: writeKeyIngestionRateLimit,
+    });
+  }
+  const rateLimit = rateLimits.length
+    ? takeTokens({
+        limits: rateLimits,
+        count: eventSizes.length,
+        now: now.getTime(),
+      })
+    : { allowed: true as const };
+  if (!rateLimit.allowed) {
+    auditLimitExceeded({
+      workspaceId,
+      writeKeyId,
+      limit: "events per second",
+      now,
+      metadata: { retryAfterSeconds: rateLimit.retryAfterSeconds },
+    });
+    return err({
+      type: IngestionLimitErrorType.RateLimited,
+      retryAfterSeconds: rateLimit.retryAfterSeconds,
+    });
+  }
+
+  const maxEventsPerMonth = usage?.limits?.maxEventsPerMonth;
+  if (usage && maxEventsPerMonth !== undefined) {
+    if (usage.count + eventSizes.length > maxEventsPerMonth) {
+      auditLimitExceeded({
+        workspaceId,
+        writeKeyId,
+        limit: "events per month",
+        now,
+        metadata: { currentUsage: usage.count, limit: maxEventsPerMonth },
+      });
+      return err({
+        type: IngestionLimitErrorType.MonthlyQuotaExceeded,
+        retryAfterSeconds: Math.ceil(
+          (usage.period.end.getTime() - now.getTime()) / 1000,
+        ),
+        currentUsage: usage.count,
+        limit: maxEventsPerMonth,
+      });
+    }
+    usage.count += eventSizes.length;
+  }
+  return ok(undefined);
+}
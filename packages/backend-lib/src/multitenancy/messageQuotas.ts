@@ -0,0 +1,335 @@
+import {
+  FeatureNamesEnum,
+  InternalEventType,
+  MessageSkippedFailure,
+  MessageSkippedType,
+} from "isomorphic-lib/src/types";
+import { err, ok, Result } from "neverthrow";
+
+import { ClickHouseQueryBuilder, query } from "../clickhouse";
+import { getFeatureConfig } from "../features";
+import logger from "../logger";
+import { AuditEventType, auditQuotaEvent } from "../security/auditLogger";
+import { getConfiguredWorkspaceQuotaLimits } from "./resourceQuotas";
+
+/**
+ * Enforcement of the maxMessagesPerMonth workspace quota at send time.
+ *
+ * Usage is counted from the messages sent within the workspace's current
+ * billing period. Warnings are recorded to the audit log as usage crosses the
+ * configured thresholds, and once the limit is reached further messages are
+ * skipped until the next billing period begins. Only workspaces with an
+ * explicitly configured quota are limited.
+ */
+
+export const DEFAULT_MESSAGE_QUOTA_WARNING_THRESHOLDS = [80, 90];
+
+// How long a worker trusts its locally incremented count and cached quota
+// before re-reading them.
+const MESSAGE_USAGE_CACHE_TTL_MS = 60 * 1000;
+
+interface MessageQuotaCacheEntry {
+  limit: number | null;
+  billingPeriodAnchorDay?: number;
+  warningThresholds: number[];
+  refreshedAt: number;
+}
+
+interface MessageUsageCacheEntry {
+  periodStart: number;
+  count: number;
+  refreshedAt: number;
+  exceededAudited: boolean;
+}
+
+const MESSAGE_USAGE_CACHE = new Map<string, MessageUsageCacheEntry>();
+const MESSAGE_QUOTA_CACHE = new Map<string, MessageQuotaCacheEntry>();
+
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Get the billing period containing now. Periods begin at midnight UTC on the
+ * anchor day of each month.
+ */
+export function getBillingPeriod({
+  now,
+  anchorDay = 1,
+}: {
+  now: Date;
+  anchorDay?: number;
+}): BillingPeriod {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  let start = new Date(Date.UTC(year, month, anchorDay));
+  if (now.getTime() < start.getTime()) {
+    start = new Date(Date.UTC(year, month - 1, anchorDay));
+  }
+  const end = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, anchorDay),
+  );
+  return { start, end };
+}
+
+/**
+ * Get the warning thresholds, as percentages of the limit, which are crossed
+ * as usage moves from previousUsage to currentUsage.
+ */
+export function getCrossedWarningThresholds({
+  previousUsage,
+  currentUsage,
+  limit,
+  thresholds,
+}: {
+  previousUsage: number;
+  currentUsage: number;
+  limit: number;
+  thresholds: number[];
+}): number[] {
+  return thresholds.filter((threshold) => {
+    const thresholdUsage = (limit * threshold) / 100;
+    return previousUsage < thresholdUsage && currentUsage >= thresholdUsage;
+  });
+}
+
+export async function countMessagesSent({
+  workspaceId,
+  since,
+}: {
+  workspaceId: string;
+  since: Date;
+}): Promise<number> {
+  const qb = new ClickHouseQueryBuilder();
+  const result = await query({
+    query: `
+      SELECT count() AS count
+      FROM user_events_v2
+      WHERE
+        workspace_id = ${qb.addQueryValue(workspaceId, "String")}
+        AND processing_time >= toDateTime64(${qb.addQueryValue(since.getTime() / 1000, "Float64")}, 3)
+        AND event_type = 'track'
+        AND event = '${InternalEventType.MessageSent}'
+    `,
+    query_params: qb.getQueries(),
+  });
+  const rows = await result.json<{ count: string | number }>();
+  return Number(rows[0]?.count ?? 0);
+}
+
+export async function getWorkspaceBillingPeriod({
+  workspaceId,
+  now,
+}: {
+  workspaceId: string;
+  now: Date;
+}): Promise<BillingPeriod> {
+  const quotaConfig = await getFeatureConfig({
+    workspaceId,
+    name: FeatureNamesEnum.MessageQuota,
+  });
+  return getBillingPeriod({
+    now,
+    anchorDay: quotaConfig?.billingPeriodAnchorDay,
+  });
+}
+
+/**
+ * Count the messages a workspace has sent in its current billing period.
+ */
+export async function getMessagesSentInBillingPeriod({
+  workspaceId,
+  now = new Date(),
+}: {
+  workspaceId: string;
+  now?: Date;
+}): Promise<{ count: number; period: BillingPeriod }> {
+  const period = await getWorkspaceBillingPeriod({ workspaceId, now });
+  const count = await countMessagesSent({ workspaceId, since: period.start });
+  return { count, period };
+}
+
+async function getMessageUsage({
+  workspaceId,
+  period,
+  now,
+}: {
+  workspaceId: string;
+  period: BillingPeriod;
+  now: Date;
+}): Promise<MessageUsageCacheEntry> {
+  const cached = MESSAGE_USAGE_CACHE.get(workspaceId);
+  if (
+    cached &&
+    cached.periodStart === period.start.getTime() &&
+    now.getTime() - cached.refreshedAt < MESSAGE_USAGE_CACHE_TTL_MS
+  ) {
+    return cached;
+  }
+  const count = await countMessagesSent({
+    workspaceId,
+    since: period.start,
+  });
+  const entry: MessageUsageCacheEntry = {
+    periodStart: period.start.getTime(),
+    count,
+    refreshedAt: now.getTime(),
+    exceededAudited:
+      cached?.periodStart === period.start.getTime() && cached.exceededAudited,
+  };
+  MESSAGE_USAGE_CACHE.set(workspaceId, entry);
+  return entry;
+}
+
+async function getMessageQuota({
+  workspaceId,
+  now,
+}: {
+  workspaceId: string;
+  now: Date;
+}): Promise<MessageQuotaCacheEntry> {
+  const cached = MESSAGE_QUOTA_CACHE.get(workspaceId);
+  if (
+    cached &&
+    now.getTime() - cached.refreshedAt < MESSAGE_USAGE_CACHE_TTL_MS
+  ) {
+    return cached;
+  }
+  const [limits, quotaConfig] = await Promise.all([
+    getConfiguredWorkspaceQuotaLimits(workspaceId),
+    getFeatureConfig({
+      workspaceId,
+      name: FeatureNamesEnum.MessageQuota,
+    }),
+  ]);
+  const entry: MessageQuotaCacheEntry = {
+    limit: limits?.maxMessagesPerMonth ?? null,
+    billingPeriodAnchorDay: quotaConfig?.billingPeriodAnchorDay,
+    warningThresholds:
+      quotaConfig?.warningThresholds ??
+      DEFAULT_MESSAGE_QUOTA_WARNING_THRESHOLDS,
+    refreshedAt: now.getTime(),
+  };
+  MESSAGE_QUOTA_CACHE.set(workspaceId, entry);
+  return entry;
+}
+
+/**
+ * Check whether a workspace may send another message within its
+ * maxMessagesPerMonth quota. Sent messages are counted towards usage with
+ * recordMessageSent.
+ *
+ * Fails open when the workspace's quota can't be determined, so that an
+ * outage of the quota store doesn't halt messaging.
+ */
+export async function checkMessageQuota({
+  workspaceId,
+  now = new Date(),
+}: {
+  workspaceId: string;
+  now?: Date;
+}): Promise<Result<void, MessageSkippedFailure>> {
+  try {
+    const quota = await getMessageQuota({ workspaceId, now });
+    const { limit } = quota;
+    if (limit === null) {
+      return ok(undefined);
+    }
+    const period = getBillingPeriod({
+      now,
+      anchorDay: quota.billingPeriodAnchorDay,
+    });
+    const usage = await getMessageUsage({ workspaceId, period, now });
+
+    if (usage.count >= limit) {
+      if (!usage.exceededAudited) {
+        usage.exceededAudited = true;
+        auditQuotaEvent(
+          AuditEventType.QUOTA_EXCEEDED,
+          workspaceId,
+          "Messages",
+          usage.count,
+          limit,
+        );
+      }
+      logger().info(
+        {
+          workspaceId,
+          currentUsage: usage.count,
+          limit,
+          periodStart: period.start.toISOString(),
+        },
+        "message quota exceeded, skipping message",
+      );
+      return err({
+        type: InternalEventType.MessageSkipped,
+        variant: {
+          type: MessageSkippedType.QuotaExceeded,
+          currentUsage: usage.count,
+          limit,
+          periodStart: period.start.toISOString(),
+        },
+      });
+    }
+    return ok(undefined);
+  } catch (error) {
+    logger().error(
+      { err: error, workspaceId },
+      "failed to check message quota, allowing message",
+    );
+    return ok(undefined);
+  }
+}
+
+/**
+ * Count a successfully sent message towards the workspace's cached usage,
+ * recording a warning if it crosses one of the quota's thresholds.
+ */
+export async function recordMessageSent({
+  workspaceId,
+  now = new Date(),
+}: {
+  workspaceId: string;
+  now?: Date;
+}): Promise<void> {
+  try {
+    const quota = await getMessageQuota({ workspaceId, now });
+    const { limit } = quota;
+    if (limit === null) {
+      return;
+    }
+    const period = getBillingPeriod({
+      now,
+      anchorDay: quota.billingPeriodAnchorDay,
+    });
+    const usage = MESSAGE_USAGE_CACHE.get(workspaceId);
+    // uncached usage is re-read from ClickHouse, which includes this message
+    if (!usage || usage.periodStart !== period.start.getTime()) {
+      return;
+    }
+    const previousUsage = usage.count;
+    usage.count += 1;
+
+    const crossed = getCrossedWarningThresholds({
+      previousUsage,
+      currentUsage: usage.count,
+      limit,
+      thresholds: quota.warningThresholds,
+    });
+    if (crossed.length > 0) {
+      auditQuotaEvent(
+        AuditEventType.QUOTA_WARNING,
+        workspaceId,
+        "Messages",
+        usage.count,
+        limit,
+      );
+    }
+  } catch (error) {
+    logger().error(
+      { err: error, workspaceId },
+      "failed to record message quota usage",
+    );
+  }
+}
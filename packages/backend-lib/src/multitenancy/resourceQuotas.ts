@@ -20,13 +20,15 @@ import logger from "../logger";
  * Follows the same error handling patterns as backend-lib/src/auth.ts
  */
 
-interface QuotaLimits {
+export interface QuotaLimits {
   maxUsers: number;
   maxSegments: number;
   maxJourneys: number;
   maxTemplates: number;
   maxStorageBytes: number;
   maxMessagesPerMonth: number;
+  maxEventsPerMonth: number;
+  maxEventSizeBytes: number;
 }
 
 interface ResourceCounts {
@@ -49,8 +51,46 @@ const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
   maxTemplates: 100,
   maxStorageBytes: 10 * 1024 * 1024 * 1024, // 10GB
   maxMessagesPerMonth: 100000,
+  maxEventsPerMonth: 1000000,
+  maxEventSizeBytes: 64 * 1024, // 64KB
 };
 
+function toQuotaLimits(
+  quotaRecord: typeof schema.workspaceQuota.$inferSelect,
+): QuotaLimits {
+  return {
+    maxUsers: quotaRecord.maxUsers,
+    maxSegments: quotaRecord.maxSegments,
+    maxJourneys: quotaRecord.maxJourneys,
+    maxTemplates: quotaRecord.maxTemplates,
+    maxStorageBytes: quotaRecord.maxStorageBytes,
+    maxMessagesPerMonth: quotaRecord.maxMessagesPerMonth,
+    maxEventsPerMonth: quotaRecord.maxEventsPerMonth,
+    maxEventSizeBytes: quotaRecord.maxEventSizeBytes,
+  };
+}
+
+/**
+ * Get the quota limits explicitly configured for a workspace
+ * Unlike getWorkspaceQuotaLimits, doesn't fall back to the default limits, so
+ * that usage limits enforced at send and ingestion time are opt-in
+ *
+ * @param workspaceId - The UUID of the workspace
+ * @returns The configured quota limits or null if none are configured
+ * @throws If the quota can't be read
+ */
+export async function getConfiguredWorkspaceQuotaLimits(
+  workspaceId: string,
+): Promise<QuotaLimits | null> {
+  if (!validate(workspaceId)) {
+    return null;
+  }
+  const quotaRecord = await db().query.workspaceQuota.findFirst({
+    where: eq(schema.workspaceQuota.workspaceId, workspaceId),
+  });
+  return quotaRecord ? toQuotaLimits(quotaRecord) : null;
+}
+
 /**
  * Get the quota limits for a workspace
  * Returns default limits if no custom quota is set
@@ -73,14 +113,7 @@ export async function getWorkspaceQuotaLimits(
     });
 
     if (quotaRecord) {
-      return {
-        maxUsers: quotaRecord.maxUsers,
-        maxSegments: quotaRecord.maxSegments,
-        maxJourneys: quotaRecord.maxJourneys,
-        maxTemplates: quotaRecord.maxTemplates,
-        maxStorageBytes: quotaRecord.maxStorageBytes,
-        maxMessagesPerMonth: quotaRecord.maxMessagesPerMonth,
-      };
+      return toQuotaLimits(quotaRecord);
     }
 
     // Return default limits if no custom quota exists
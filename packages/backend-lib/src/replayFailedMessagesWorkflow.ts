@@ -0,0 +1,37 @@
+import { ActivityFailure, proxyActivities } from "@temporalio/workflow";
+
+// Only import the activity types
+import type * as activities from "./temporal/activities";
+
+export interface ReplayFailedMessagesWorkflowProps {
+  workspaceId: string;
+  ids: string[];
+}
+
+const { replayFailedMessageActivity } = proxyActivities<typeof activities>({
+  startToCloseTimeout: "2 minutes",
+  retry: {
+    maximumAttempts: 3,
+  },
+});
+
+/**
+ * Replay failed messages which have been claimed for replay. Messages are
+ * replayed sequentially to avoid bursts against the workspace's providers.
+ */
+export async function replayFailedMessagesWorkflow({
+  workspaceId,
+  ids,
+}: ReplayFailedMessagesWorkflowProps) {
+  for (const id of ids) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      await replayFailedMessageActivity({ workspaceId, id });
+    } catch (e) {
+      // messages whose replay can't be completed are left to be reclaimed
+      if (!(e instanceof ActivityFailure)) {
+        throw e;
+      }
+    }
+  }
+}
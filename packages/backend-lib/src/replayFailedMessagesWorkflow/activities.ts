@@ -0,0 +1,11 @@
+import { replayClaimedFailedMessage } from "../messaging";
+
+export async function replayFailedMessageActivity({
+  workspaceId,
+  id,
+}: {
+  workspaceId: string;
+  id: string;
+}) {
+  await replayClaimedFailedMessage({ workspaceId, id });
+}
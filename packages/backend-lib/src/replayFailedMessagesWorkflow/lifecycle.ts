@@ -0,0 +1,22 @@
+import { randomUUID } from "crypto";
+
+import {
+  replayFailedMessagesWorkflow,
+  ReplayFailedMessagesWorkflowProps,
+} from "../replayFailedMessagesWorkflow";
+import connectWorkflowClient from "../temporal/connectWorkflowClient";
+
+export async function startReplayFailedMessagesWorkflow({
+  workspaceId,
+  ids,
+}: ReplayFailedMessagesWorkflowProps) {
+  const workflowClient = await connectWorkflowClient();
+  await workflowClient.start<typeof replayFailedMessagesWorkflow>(
+    replayFailedMessagesWorkflow,
+    {
+      taskQueue: "default",
+      workflowId: `replay-failed-messages-workflow-${workspaceId}-${randomUUID()}`,
+      args: [{ workspaceId, ids }],
+    },
+  );
+}
@@ -26,6 +26,12 @@ jest.mock("../../logger", () => ({
   })),
 }));
 
+jest.mock("../../clickhouse", () => ({
+  clickhouseClient: jest.fn(() => ({
+    insert: jest.fn(() => Promise.resolve()),
+  })),
+}));
+
 jest.mock("crypto", () => ({
   randomUUID: jest.fn(() => "mocked-uuid-1234"),
 }));
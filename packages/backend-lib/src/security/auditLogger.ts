@@ -1,58 +1,24 @@
 import { randomUUID } from "crypto";
+import {
+  AuditEventResource,
+  AuditEventType,
+  AuditSeverity,
+  GetAuditEventsRequest,
+} from "isomorphic-lib/src/types";
 import { validate } from "uuid";
 
+import { clickhouseClient, ClickHouseQueryBuilder, query } from "../clickhouse";
 import logger from "../logger";
 
 /**
  * Comprehensive audit logging for multi-tenant security events
- * 
+ *
  * This module provides structured audit logging for security-critical events
  * in the multi-tenant environment, including tenant boundary crossings,
  * authentication events, and resource access patterns.
  */
 
-export enum AuditEventType {
-  // Authentication Events
-  USER_LOGIN = "USER_LOGIN",
-  USER_LOGOUT = "USER_LOGOUT", 
-  USER_LOGIN_FAILED = "USER_LOGIN_FAILED",
-  API_KEY_ACCESS = "API_KEY_ACCESS",
-  API_KEY_ACCESS_FAILED = "API_KEY_ACCESS_FAILED",
-  
-  // Workspace/Tenant Events
-  WORKSPACE_ACCESS = "WORKSPACE_ACCESS",
-  WORKSPACE_ACCESS_DENIED = "WORKSPACE_ACCESS_DENIED",
-  WORKSPACE_CONTEXT_SET = "WORKSPACE_CONTEXT_SET",
-  WORKSPACE_CONTEXT_FAILED = "WORKSPACE_CONTEXT_FAILED",
-  
-  // Resource Access Events
-  RESOURCE_CREATED = "RESOURCE_CREATED",
-  RESOURCE_UPDATED = "RESOURCE_UPDATED",
-  RESOURCE_DELETED = "RESOURCE_DELETED",
-  RESOURCE_ACCESS_DENIED = "RESOURCE_ACCESS_DENIED",
-  
-  // Quota Events
-  QUOTA_EXCEEDED = "QUOTA_EXCEEDED",
-  QUOTA_WARNING = "QUOTA_WARNING",
-  QUOTA_UPDATED = "QUOTA_UPDATED",
-  
-  // Security Events
-  SUSPICIOUS_ACTIVITY = "SUSPICIOUS_ACTIVITY",
-  RATE_LIMIT_EXCEEDED = "RATE_LIMIT_EXCEEDED",
-  UNAUTHORIZED_ACCESS_ATTEMPT = "UNAUTHORIZED_ACCESS_ATTEMPT",
-  
-  // Data Events
-  DATA_EXPORT = "DATA_EXPORT",
-  DATA_IMPORT = "DATA_IMPORT",
-  BULK_OPERATION = "BULK_OPERATION",
-}
-
-export enum AuditSeverity {
-  LOW = "LOW",
-  MEDIUM = "MEDIUM", 
-  HIGH = "HIGH",
-  CRITICAL = "CRITICAL",
-}
+export { AuditEventType, AuditSeverity };
 
 export interface AuditContext {
   // Request Context
@@ -60,20 +26,20 @@ export interface AuditContext {
   sessionId?: string;
   userAgent?: string;
   ipAddress?: string;
-  
+
   // User Context
   userId?: string;
   userEmail?: string;
-  
+
   // Workspace Context
   workspaceId?: string;
   workspaceName?: string;
-  
+
   // Resource Context
   resourceType?: string;
   resourceId?: string;
   resourceName?: string;
-  
+
   // Additional metadata
   metadata?: Record<string, unknown>;
 }
@@ -89,9 +55,69 @@ export interface AuditEvent {
   error?: string;
 }
 
+interface AuditEventRow {
+  id: string;
+  workspace_id: string;
+  timestamp: string;
+  event_type: string;
+  severity: string;
+  message: string;
+  success: boolean;
+  error: string;
+  actor_id: string;
+  actor_email: string;
+  resource_type: string;
+  resource_id: string;
+  resource_name: string;
+  request_id: string;
+  ip_address: string;
+  user_agent: string;
+  metadata: string;
+}
+
+/**
+ * Write an audit event to the audit_events table in ClickHouse, where it is
+ * retained for auditLogRetentionDays.
+ */
+async function persistAuditEvent(
+  event: AuditEvent & { context: { workspaceId: string } },
+): Promise<void> {
+  const { context } = event;
+  const row: AuditEventRow = {
+    id: event.id,
+    workspace_id: context.workspaceId,
+    timestamp: event.timestamp.toISOString(),
+    event_type: event.eventType,
+    severity: event.severity,
+    message: event.message,
+    success: event.success,
+    error: event.error ?? "",
+    actor_id: context.userId ?? "",
+    actor_email: context.userEmail ?? "",
+    resource_type: context.resourceType ?? "",
+    resource_id: context.resourceId ?? "",
+    resource_name: context.resourceName ?? "",
+    request_id: context.requestId ?? "",
+    ip_address: context.ipAddress ?? "",
+    user_agent: context.userAgent ?? "",
+    metadata: context.metadata ? JSON.stringify(context.metadata) : "",
+  };
+
+  await clickhouseClient().insert({
+    table: "audit_events",
+    values: [row],
+    format: "JSONEachRow",
+    clickhouse_settings: {
+      async_insert: 1,
+      wait_for_async_insert: 1,
+      date_time_input_format: "best_effort",
+    },
+  });
+}
+
 /**
  * Core audit logging function
- * 
+ *
  * @param eventType - The type of security event
  * @param severity - The severity level of the event
  * @param message - Human-readable description of the event
@@ -104,8 +130,8 @@ export function auditLog(
   severity: AuditSeverity,
   message: string,
   context: AuditContext = {},
-  success: boolean = true,
-  error?: string
+  success = true,
+  error?: string,
 ): void {
   const auditEvent: AuditEvent = {
     id: randomUUID(),
@@ -124,7 +150,7 @@ export function auditLog(
       audit: true,
       ...auditEvent,
     },
-    `AUDIT: ${message}`
+    `AUDIT: ${message}`,
   );
 
   // For critical events, also log at error level
@@ -135,9 +161,27 @@ export function auditLog(
         critical: true,
         ...auditEvent,
       },
-      `CRITICAL AUDIT: ${message}`
+      `CRITICAL AUDIT: ${message}`,
     );
   }
+
+  // Events which can't be attributed to a workspace are only logged.
+  const { workspaceId } = context;
+  if (workspaceId && validate(workspaceId)) {
+    persistAuditEvent({
+      ...auditEvent,
+      context: { ...context, workspaceId },
+    }).catch((err: unknown) => {
+      logger().error(
+        {
+          err,
+          auditEventId: auditEvent.id,
+          workspaceId,
+        },
+        "Failed to persist audit event",
+      );
+    });
+  }
 }
 
 /**
@@ -147,8 +191,8 @@ export function auditUserLogin(
   userId: string,
   userEmail: string,
   workspaceId?: string,
-  success: boolean = true,
-  context: Partial<AuditContext> = {}
+  success = true,
+  context: Partial<AuditContext> = {},
 ): void {
   auditLog(
     success ? AuditEventType.USER_LOGIN : AuditEventType.USER_LOGIN_FAILED,
@@ -160,7 +204,7 @@ export function auditUserLogin(
       workspaceId,
       ...context,
     },
-    success
+    success,
   );
 }
 
@@ -170,8 +214,8 @@ export function auditUserLogin(
 export function auditApiKeyAccess(
   workspaceId: string,
   keyId: string,
-  success: boolean = true,
-  context: Partial<AuditContext> = {}
+  success = true,
+  context: Partial<AuditContext> = {},
 ): void {
   // Validate workspace ID format for security
   if (!validate(workspaceId)) {
@@ -181,13 +225,15 @@ export function auditApiKeyAccess(
       "Invalid workspace ID format in API key access",
       { workspaceId, resourceId: keyId, resourceType: "api_key", ...context },
       false,
-      "Invalid UUID format"
+      "Invalid UUID format",
     );
     return;
   }
 
   auditLog(
-    success ? AuditEventType.API_KEY_ACCESS : AuditEventType.API_KEY_ACCESS_FAILED,
+    success
+      ? AuditEventType.API_KEY_ACCESS
+      : AuditEventType.API_KEY_ACCESS_FAILED,
     success ? AuditSeverity.LOW : AuditSeverity.MEDIUM,
     success ? "API key access successful" : "API key access failed",
     {
@@ -196,7 +242,7 @@ export function auditApiKeyAccess(
       resourceType: "api_key",
       ...context,
     },
-    success
+    success,
   );
 }
 
@@ -206,8 +252,8 @@ export function auditApiKeyAccess(
 export function auditWorkspaceAccess(
   workspaceId: string,
   userId?: string,
-  success: boolean = true,
-  context: Partial<AuditContext> = {}
+  success = true,
+  context: Partial<AuditContext> = {},
 ): void {
   // Validate workspace ID format for security
   if (!validate(workspaceId)) {
@@ -217,13 +263,15 @@ export function auditWorkspaceAccess(
       "Invalid workspace ID format in workspace access",
       { workspaceId, userId, ...context },
       false,
-      "Invalid UUID format"
+      "Invalid UUID format",
     );
     return;
   }
 
   auditLog(
-    success ? AuditEventType.WORKSPACE_ACCESS : AuditEventType.WORKSPACE_ACCESS_DENIED,
+    success
+      ? AuditEventType.WORKSPACE_ACCESS
+      : AuditEventType.WORKSPACE_ACCESS_DENIED,
     success ? AuditSeverity.LOW : AuditSeverity.HIGH,
     success ? "Workspace access granted" : "Workspace access denied",
     {
@@ -231,7 +279,7 @@ export function auditWorkspaceAccess(
       userId,
       ...context,
     },
-    success
+    success,
   );
 }
 
@@ -240,18 +288,22 @@ export function auditWorkspaceAccess(
  */
 export function auditWorkspaceContextSet(
   workspaceId: string,
-  success: boolean = true,
-  context: Partial<AuditContext> = {}
+  success = true,
+  context: Partial<AuditContext> = {},
 ): void {
   auditLog(
-    success ? AuditEventType.WORKSPACE_CONTEXT_SET : AuditEventType.WORKSPACE_CONTEXT_FAILED,
+    success
+      ? AuditEventType.WORKSPACE_CONTEXT_SET
+      : AuditEventType.WORKSPACE_CONTEXT_FAILED,
     success ? AuditSeverity.LOW : AuditSeverity.HIGH,
-    success ? "RLS workspace context set" : "Failed to set RLS workspace context",
+    success
+      ? "RLS workspace context set"
+      : "Failed to set RLS workspace context",
     {
       workspaceId,
       ...context,
     },
-    success
+    success,
   );
 }
 
@@ -259,13 +311,17 @@ export function auditWorkspaceContextSet(
  * Log resource access events
  */
 export function auditResourceAccess(
-  eventType: AuditEventType.RESOURCE_CREATED | AuditEventType.RESOURCE_UPDATED | AuditEventType.RESOURCE_DELETED | AuditEventType.RESOURCE_ACCESS_DENIED,
+  eventType:
+    | AuditEventType.RESOURCE_CREATED
+    | AuditEventType.RESOURCE_UPDATED
+    | AuditEventType.RESOURCE_DELETED
+    | AuditEventType.RESOURCE_ACCESS_DENIED,
   workspaceId: string,
   resourceType: string,
   resourceId: string,
   userId?: string,
-  success: boolean = true,
-  context: Partial<AuditContext> = {}
+  success = true,
+  context: Partial<AuditContext> = {},
 ): void {
   // Validate workspace ID format for security
   if (!validate(workspaceId)) {
@@ -275,13 +331,13 @@ export function auditResourceAccess(
       "Invalid workspace ID format in resource access",
       { workspaceId, resourceType, resourceId, userId, ...context },
       false,
-      "Invalid UUID format"
+      "Invalid UUID format",
     );
     return;
   }
 
   const severity = success ? AuditSeverity.LOW : AuditSeverity.HIGH;
-  const message = `Resource ${eventType.toLowerCase().replace('resource_', '')} ${success ? 'successful' : 'failed'}`;
+  const message = `Resource ${eventType.toLowerCase().replace("resource_", "")} ${success ? "successful" : "failed"}`;
 
   auditLog(
     eventType,
@@ -294,7 +350,7 @@ export function auditResourceAccess(
       userId,
       ...context,
     },
-    success
+    success,
   );
 }
 
@@ -302,19 +358,25 @@ export function auditResourceAccess(
  * Log quota-related events
  */
 export function auditQuotaEvent(
-  eventType: AuditEventType.QUOTA_EXCEEDED | AuditEventType.QUOTA_WARNING | AuditEventType.QUOTA_UPDATED,
+  eventType:
+    | AuditEventType.QUOTA_EXCEEDED
+    | AuditEventType.QUOTA_WARNING
+    | AuditEventType.QUOTA_UPDATED,
   workspaceId: string,
   resourceType: string,
   currentUsage: number,
   limit: number,
-  context: Partial<AuditContext> = {}
+  context: Partial<AuditContext> = {},
 ): void {
-  const severity = eventType === AuditEventType.QUOTA_EXCEEDED ? AuditSeverity.HIGH : AuditSeverity.MEDIUM;
-  
+  const severity =
+    eventType === AuditEventType.QUOTA_EXCEEDED
+      ? AuditSeverity.HIGH
+      : AuditSeverity.MEDIUM;
+
   auditLog(
     eventType,
     severity,
-    `Quota ${eventType.toLowerCase().replace('quota_', '')} for ${resourceType}`,
+    `Quota ${eventType.toLowerCase().replace("quota_", "")} for ${resourceType}`,
     {
       workspaceId,
       resourceType,
@@ -325,7 +387,28 @@ export function auditQuotaEvent(
       },
       ...context,
     },
-    eventType !== AuditEventType.QUOTA_EXCEEDED
+    eventType !== AuditEventType.QUOTA_EXCEEDED,
+  );
+}
+
+/**
+ * Log rejected requests which exceeded an ingestion limit
+ */
+export function auditRateLimitExceeded(
+  workspaceId: string,
+  limit: string,
+  context: Partial<AuditContext> = {},
+): void {
+  auditLog(
+    AuditEventType.RATE_LIMIT_EXCEEDED,
+    AuditSeverity.MEDIUM,
+    `Rate limit exceeded: ${limit}`,
+    {
+      workspaceId,
+      ...context,
+    },
+    false,
+    "Request rejected",
   );
 }
 
@@ -336,7 +419,7 @@ export function auditSuspiciousActivity(
   message: string,
   workspaceId?: string,
   userId?: string,
-  context: Partial<AuditContext> = {}
+  context: Partial<AuditContext> = {},
 ): void {
   auditLog(
     AuditEventType.SUSPICIOUS_ACTIVITY,
@@ -348,7 +431,7 @@ export function auditSuspiciousActivity(
       ...context,
     },
     false,
-    "Suspicious activity detected"
+    "Suspicious activity detected",
   );
 }
 
@@ -356,16 +439,19 @@ export function auditSuspiciousActivity(
  * Log data export/import events for compliance
  */
 export function auditDataOperation(
-  eventType: AuditEventType.DATA_EXPORT | AuditEventType.DATA_IMPORT | AuditEventType.BULK_OPERATION,
+  eventType:
+    | AuditEventType.DATA_EXPORT
+    | AuditEventType.DATA_IMPORT
+    | AuditEventType.BULK_OPERATION,
   workspaceId: string,
   userId: string,
   recordCount: number,
-  context: Partial<AuditContext> = {}
+  context: Partial<AuditContext> = {},
 ): void {
   auditLog(
     eventType,
     AuditSeverity.MEDIUM,
-    `Data ${eventType.toLowerCase().replace('data_', '')} operation`,
+    `Data ${eventType.toLowerCase().replace("data_", "")} operation`,
     {
       workspaceId,
       userId,
@@ -373,7 +459,7 @@ export function auditDataOperation(
         recordCount,
       },
       ...context,
-    }
+    },
   );
 }
 
@@ -385,7 +471,7 @@ export function createAuditContext(
   sessionId?: string,
   userAgent?: string,
   ipAddress?: string,
-  additionalContext: Partial<AuditContext> = {}
+  additionalContext: Partial<AuditContext> = {},
 ): AuditContext {
   return {
     requestId,
@@ -396,30 +482,115 @@ export function createAuditContext(
   };
 }
 
+function parseMetadata(metadata: string): Record<string, unknown> | undefined {
+  if (!metadata) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(metadata) as Record<string, unknown>;
+  } catch (err) {
+    return undefined;
+  }
+}
+
+type AuditEventQueryRow = Omit<AuditEventRow, "timestamp"> & {
+  timestamp_ms: string | number;
+};
+
+function rowToAuditEventResource(row: AuditEventQueryRow): AuditEventResource {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    timestamp: new Date(Number(row.timestamp_ms)).toISOString(),
+    eventType: row.event_type as AuditEventType,
+    severity: row.severity as AuditSeverity,
+    message: row.message,
+    success: row.success,
+    error: row.error || undefined,
+    actorId: row.actor_id || undefined,
+    actorEmail: row.actor_email || undefined,
+    resourceType: row.resource_type || undefined,
+    resourceId: row.resource_id || undefined,
+    resourceName: row.resource_name || undefined,
+    requestId: row.request_id || undefined,
+    ipAddress: row.ip_address || undefined,
+    userAgent: row.user_agent || undefined,
+    metadata: parseMetadata(row.metadata),
+  };
+}
+
 /**
- * Get audit events for a workspace (for security monitoring)
- * This is a simplified implementation - in production you might want
- * to use a dedicated audit storage system
+ * Get the persisted audit events for a workspace, most recent first.
  */
-export function getAuditEvents(
-  workspaceId: string,
-  eventTypes?: AuditEventType[],
-  startDate?: Date,
-  endDate?: Date,
-  limit: number = 100
-): AuditEvent[] {
-  // This is a placeholder implementation
-  // In a real system, you would query your audit log storage
-  logger().debug(
-    {
-      workspaceId,
-      eventTypes,
-      startDate,
-      endDate,
-      limit,
-    },
-    "Audit events query requested"
-  );
-  
-  return [];
-}
\ No newline at end of file
+export async function getAuditEvents({
+  workspaceId,
+  eventTypes,
+  severities,
+  actor,
+  startDate,
+  endDate,
+  limit = 100,
+  offset = 0,
+}: GetAuditEventsRequest): Promise<AuditEventResource[]> {
+  const qb = new ClickHouseQueryBuilder();
+  const conditions: string[] = [
+    `workspace_id = ${qb.addQueryValue(workspaceId, "String")}`,
+  ];
+  if (eventTypes?.length) {
+    conditions.push(
+      `event_type IN ${qb.addQueryValue(eventTypes, "Array(String)")}`,
+    );
+  }
+  if (severities?.length) {
+    conditions.push(
+      `severity IN ${qb.addQueryValue(severities, "Array(String)")}`,
+    );
+  }
+  if (actor) {
+    const actorParam = qb.addQueryValue(actor, "String");
+    conditions.push(
+      `(actor_id = ${actorParam} OR actor_email = ${actorParam})`,
+    );
+  }
+  if (startDate) {
+    conditions.push(
+      `timestamp >= parseDateTime64BestEffort(${qb.addQueryValue(startDate, "String")}, 3)`,
+    );
+  }
+  if (endDate) {
+    conditions.push(
+      `timestamp <= parseDateTime64BestEffort(${qb.addQueryValue(endDate, "String")}, 3)`,
+    );
+  }
+
+  const result = await query({
+    query: `
+      SELECT
+        id,
+        workspace_id,
+        toUnixTimestamp64Milli(timestamp) AS timestamp_ms,
+        event_type,
+        severity,
+        message,
+        success,
+        error,
+        actor_id,
+        actor_email,
+        resource_type,
+        resource_id,
+        resource_name,
+        request_id,
+        ip_address,
+        user_agent,
+        metadata
+      FROM audit_events
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY timestamp DESC, id DESC
+      LIMIT ${qb.addQueryValue(limit, "Int32")}
+      OFFSET ${qb.addQueryValue(offset, "Int32")}
+    `,
+    query_params: qb.getQueries(),
+  });
+  const rows = await result.json<AuditEventQueryRow>();
+  return rows.map(rowToAuditEventResource);
+}
@@ -11,13 +11,14 @@ import {
 import {
   buildSegmentsFile,
   calculateKeyedSegment,
+  deleteSegment,
   findAllSegmentAssignments,
   findRecentlyUpdatedUsersInSegment,
   insertSegmentAssignments,
   upsertSegment,
 } from "./segments";
 import {
-  KeyedPerformedSegmentNode,
+  DeleteSegmentErrorType,
   RelationalOperators,
   Segment,
   SegmentDefinition,
@@ -466,6 +467,156 @@ describe("segments", () => {
         expect(segment.status).toBe(SegmentStatusEnum.NotStarted);
       });
     });
+
+    describe("when a segment update would create a reference cycle", () => {
+      let firstSegmentId: string;
+      let secondSegmentId: string;
+      beforeEach(async () => {
+        firstSegmentId = randomUUID();
+        secondSegmentId = randomUUID();
+        unwrap(
+          await upsertSegment({
+            id: secondSegmentId,
+            name: "second",
+            workspaceId: workspace.id,
+            definition: {
+              entryNode: {
+                id: randomUUID(),
+                type: SegmentNodeType.Trait,
+                path: "name",
+                operator: {
+                  type: SegmentOperatorType.Equals,
+                  value: "test",
+                },
+              },
+              nodes: [],
+            },
+          }),
+        );
+        unwrap(
+          await upsertSegment({
+            id: firstSegmentId,
+            name: "first",
+            workspaceId: workspace.id,
+            definition: {
+              entryNode: {
+                id: randomUUID(),
+                type: SegmentNodeType.Segment,
+                segmentId: secondSegmentId,
+              },
+              nodes: [],
+            },
+          }),
+        );
+      });
+      it("returns a cycle error", async () => {
+        const result = await upsertSegment({
+          id: secondSegmentId,
+          name: "second",
+          workspaceId: workspace.id,
+          definition: {
+            entryNode: {
+              id: randomUUID(),
+              type: SegmentNodeType.Segment,
+              segmentId: firstSegmentId,
+              not: true,
+            },
+            nodes: [],
+          },
+        });
+        expect(result.isErr() && result.error.type).toEqual(
+          UpsertSegmentValidationErrorType.CycleError,
+        );
+      });
+    });
+
+    describe("when a segment has a pattern which isn't valid RE2", () => {
+      it("returns a pattern error", async () => {
+        const result = await upsertSegment({
+          name: "lookahead",
+          workspaceId: workspace.id,
+          definition: {
+            entryNode: {
+              id: randomUUID(),
+              type: SegmentNodeType.Trait,
+              path: "email",
+              operator: {
+                type: SegmentOperatorType.Matches,
+                value: "^(?!admin)@example\\.com$",
+              },
+            },
+            nodes: [],
+          },
+        });
+        expect(result.isErr() && result.error.type).toEqual(
+          UpsertSegmentValidationErrorType.PatternError,
+        );
+      });
+    });
+  });
+
+  describe("deleteSegment", () => {
+    describe("when the segment is referenced by another segment", () => {
+      let referencedSegmentId: string;
+      let referencingSegmentId: string;
+      beforeEach(async () => {
+        referencedSegmentId = randomUUID();
+        referencingSegmentId = randomUUID();
+        unwrap(
+          await upsertSegment({
+            id: referencedSegmentId,
+            name: "referenced",
+            workspaceId: workspace.id,
+            definition: {
+              entryNode: {
+                id: randomUUID(),
+                type: SegmentNodeType.Trait,
+                path: "name",
+                operator: {
+                  type: SegmentOperatorType.Equals,
+                  value: "test",
+                },
+              },
+              nodes: [],
+            },
+          }),
+        );
+        unwrap(
+          await upsertSegment({
+            id: referencingSegmentId,
+            name: "referencing",
+            workspaceId: workspace.id,
+            definition: {
+              entryNode: {
+                id: randomUUID(),
+                type: SegmentNodeType.Segment,
+                segmentId: referencedSegmentId,
+              },
+              nodes: [],
+            },
+          }),
+        );
+      });
+      it("returns the dependent segments without deleting it", async () => {
+        const result = await deleteSegment({
+          workspaceId: workspace.id,
+          id: referencedSegmentId,
+        });
+        expect(result.isErr() && result.error).toEqual(
+          expect.objectContaining({
+            type: DeleteSegmentErrorType.DependentSegments,
+            segmentIds: [referencingSegmentId],
+          }),
+        );
+        const deleted = unwrap(
+          await deleteSegment({
+            workspaceId: workspace.id,
+            id: referencingSegmentId,
+          }),
+        );
+        expect(deleted?.id).toEqual(referencingSegmentId);
+      });
+    });
   });
 
   describe("calculateKeyedSegment", () => {
@@ -1,3 +1,4 @@
+import { ClickHouseError } from "@clickhouse/client";
 import { writeToString } from "@fast-csv/format";
 import { Static, Type } from "@sinclair/typebox";
 import { ValueError } from "@sinclair/typebox/errors";
@@ -10,6 +11,10 @@ import {
   schemaValidate,
   schemaValidateWithErr,
 } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import {
+  getReferencedSegmentIds,
+  getSegmentPatterns,
+} from "isomorphic-lib/src/segments";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
 import { err, ok, Result } from "neverthrow";
 import { PostgresError } from "pg-error-enum";
@@ -29,6 +34,8 @@ import {
 import { jsonValue } from "./jsonPath";
 import logger from "./logger";
 import {
+  DeleteSegmentError,
+  DeleteSegmentErrorType,
   DeleteSegmentRequest,
   EnrichedSegment,
   InternalEventType,
@@ -361,6 +368,117 @@ export async function findSegmentResource({
   return toSegmentResource(segment);
 }
 
+type SegmentReferences = Pick<EnrichedSegment, "id" | "name" | "definition">;
+
+/**
+ * Find a cycle of segment references passing through a segment, were its
+ * definition to be updated.
+ *
+ * @returns the ids of the segments in the cycle, starting and ending with the
+ * updated segment, or null if there isn't one.
+ */
+export function findSegmentReferenceCycle({
+  segmentId,
+  definition,
+  segments,
+}: {
+  segmentId: string;
+  definition: SegmentDefinition;
+  segments: SegmentReferences[];
+}): string[] | null {
+  const referencesById = new Map<string, Set<string>>();
+  for (const segment of segments) {
+    referencesById.set(segment.id, getReferencedSegmentIds(segment.definition));
+  }
+  referencesById.set(segmentId, getReferencedSegmentIds(definition));
+
+  const visited = new Set<string>();
+  const visit = (id: string, path: string[]): string[] | null => {
+    for (const referencedId of referencesById.get(id) ?? []) {
+      if (referencedId === segmentId) {
+        return [...path, referencedId];
+      }
+      if (!visited.has(referencedId)) {
+        visited.add(referencedId);
+        const cycle = visit(referencedId, [...path, referencedId]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+    return null;
+  };
+  return visit(segmentId, [segmentId]);
+}
+
+/**
+ * The ids of the segments which reference a segment, directly or through
+ * other segments.
+ */
+export function getDependentSegmentIds({
+  segmentId,
+  segments,
+}: {
+  segmentId: string;
+  segments: SegmentReferences[];
+}): string[] {
+  const dependents = new Set<string>();
+  const queue = [segmentId];
+  let current = queue.shift();
+  while (current !== undefined) {
+    for (const segment of segments) {
+      if (
+        !dependents.has(segment.id) &&
+        segment.id !== segmentId &&
+        getReferencedSegmentIds(segment.definition).has(current)
+      ) {
+        dependents.add(segment.id);
+        queue.push(segment.id);
+      }
+    }
+    current = queue.shift();
+  }
+  return Array.from(dependents);
+}
+
+// ClickHouse's error code for regular expressions which can't be compiled.
+const CANNOT_COMPILE_REGEXP_ERROR_CODE = "427";
+
+/**
+ * Validate the patterns of a segment definition's matches operators by
+ * compiling them with ClickHouse, so that they're checked against the RE2
+ * syntax which the segment is computed with.
+ */
+async function validateSegmentPatterns(
+  definition: SegmentDefinition,
+): Promise<Result<null, Error>> {
+  const errors = await Promise.all(
+    getSegmentPatterns(definition).map(async ({ nodeId, pattern }) => {
+      const qb = new ClickHouseQueryBuilder();
+      try {
+        const result = await chQuery({
+          query: `SELECT match('', ${qb.addQueryValue(pattern, "String")})`,
+          query_params: qb.getQueries(),
+        });
+        await result.json();
+        return null;
+      } catch (error) {
+        if (
+          error instanceof ClickHouseError &&
+          error.code === CANNOT_COMPILE_REGEXP_ERROR_CODE
+        ) {
+          return new Error(
+            `Invalid regular expression "${pattern}" in segment node ${nodeId}: ${error.message}`,
+          );
+        }
+        throw error;
+      }
+    }),
+  );
+  const error = errors.find((e) => e !== null);
+  return error ? err(error) : ok(null);
+}
+
 /**
  * Upsert segment resource if the existing segment is not internal.
  * @param segment
@@ -376,6 +494,40 @@ export async function upsertSegment(
     });
   }
 
+  let workspaceSegments: SegmentReferences[] = [];
+  if (params.definition) {
+    const patternsResult = await validateSegmentPatterns(params.definition);
+    if (patternsResult.isErr()) {
+      return err({
+        type: UpsertSegmentValidationErrorType.PatternError,
+        message: patternsResult.error.message,
+      });
+    }
+    workspaceSegments = (
+      await db().query.segment.findMany({
+        where: eq(dbSegment.workspaceId, params.workspaceId),
+      })
+    ).flatMap((s) => {
+      const result = enrichSegment(s);
+      return result.isOk() ? [result.value] : [];
+    });
+    const segmentId =
+      params.id ?? workspaceSegments.find((s) => s.name === params.name)?.id;
+    const cycle = segmentId
+      ? findSegmentReferenceCycle({
+          segmentId,
+          definition: params.definition,
+          segments: workspaceSegments,
+        })
+      : null;
+    if (cycle) {
+      return err({
+        type: UpsertSegmentValidationErrorType.CycleError,
+        message: `Segment references form a cycle: ${cycle.join(" -> ")}`,
+      });
+    }
+  }
+
   const txResult: Result<Segment, TxQueryError> = await db().transaction(
     async (tx) => {
       const findFirstConditions: SQL[] = [
@@ -468,6 +620,31 @@ export async function upsertSegment(
           );
           throw new Error("segment not found");
         }
+        if (wasDefinitionUpdated) {
+          // segments which reference this segment are recomputed from scratch
+          const dependentIds = getDependentSegmentIds({
+            segmentId: existingSegment.id,
+            segments: workspaceSegments,
+          });
+          if (dependentIds.length) {
+            const dependentsResult = await txQueryResult(
+              tx
+                .update(dbSegment)
+                .set({
+                  definitionUpdatedAt: updatedSegment.definitionUpdatedAt,
+                })
+                .where(
+                  and(
+                    eq(dbSegment.workspaceId, params.workspaceId),
+                    inArray(dbSegment.id, dependentIds),
+                  ),
+                ),
+            );
+            if (dependentsResult.isErr()) {
+              return err(dependentsResult.error);
+            }
+          }
+        }
         return ok(updatedSegment);
       }
 
@@ -1002,9 +1179,36 @@ export async function getSegmentAssignmentDb({
   return rows[0]?.latest_segment_value ?? null;
 }
 
+/**
+ * Delete a segment, unless it's referenced by other segments, which would
+ * otherwise reference a segment which no longer exists.
+ */
 export async function deleteSegment(
   params: DeleteSegmentRequest,
-): Promise<Segment | null> {
+): Promise<Result<Segment | null, DeleteSegmentError>> {
+  const workspaceSegments = (
+    await db().query.segment.findMany({
+      where: eq(dbSegment.workspaceId, params.workspaceId),
+    })
+  ).flatMap((s) => {
+    const result = enrichSegment(s);
+    return result.isOk() ? [result.value] : [];
+  });
+  const dependentIds = getDependentSegmentIds({
+    segmentId: params.id,
+    segments: workspaceSegments,
+  });
+  if (dependentIds.length > 0) {
+    const dependentNames = workspaceSegments
+      .filter((s) => dependentIds.includes(s.id))
+      .map((s) => s.name);
+    return err({
+      type: DeleteSegmentErrorType.DependentSegments,
+      message: `Segment is referenced by other segments: ${dependentNames.join(", ")}`,
+      segmentIds: dependentIds,
+    });
+  }
+
   const result = await db()
     .delete(dbSegment)
     .where(
@@ -1014,5 +1218,5 @@ export async function deleteSegment(
       ),
     )
     .returning();
-  return result[0] ?? null;
+  return ok(result[0] ?? null);
 }
@@ -4,6 +4,8 @@ export { getFeature } from "../features";
 export * from "../integrations/hubspot/activities";
 export * from "../journeys/bootstrap/activities";
 export * from "../journeys/userWorkflow/activities";
+export { deleteExpiredMessageIdempotencyKeys } from "../messaging/idempotency";
+export * from "../replayFailedMessagesWorkflow/activities";
 export {
   emitGlobalSignals,
   observeWorkspaceComputeLatency,
@@ -9,4 +9,5 @@ export * from "../integrations/hubspotUserWorkflow";
 export * from "../integrations/hubspotWorkflow";
 export * from "../journeys/bootstrap";
 export * from "../journeys/userWorkflow";
+export * from "../replayFailedMessagesWorkflow";
 export * from "../segments/manualSegmentWorkflow";
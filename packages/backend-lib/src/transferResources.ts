@@ -7,17 +7,23 @@ import {
   EntryNode,
   GroupChildrenUserPropertyDefinitions,
   GroupParentUserPropertyDefinitions,
+  HttpRequestNode,
   JourneyBodyNode,
   JourneyDefinition,
+  JourneyGoal,
+  JourneyGoalType,
   JourneyNodeType,
   MessageNode,
   SegmentDefinition,
   SegmentEntryNode,
+  SegmentJourneyGoal,
   SegmentNode,
   SegmentNodeType,
   SegmentOperator,
   SegmentOperatorType,
   SegmentSplitNode,
+  SegmentSplitVariantType,
+  SequenceSegmentEvent,
   UserPropertyDefinition,
   UserPropertyDefinitionType,
   UserPropertyOperator,
@@ -194,6 +200,18 @@ function mapSegmentOperator({
       return operator;
     case SegmentOperatorType.NotExists:
       return operator;
+    case SegmentOperatorType.Contains:
+    case SegmentOperatorType.StartsWith:
+    case SegmentOperatorType.EndsWith:
+    case SegmentOperatorType.Matches:
+    case SegmentOperatorType.In:
+    case SegmentOperatorType.NotIn:
+      return operator;
+    case SegmentOperatorType.Before:
+    case SegmentOperatorType.After:
+    case SegmentOperatorType.WithinDays:
+    case SegmentOperatorType.Anniversary:
+      return operator;
     default:
       assertUnreachable(operator);
   }
@@ -227,7 +245,13 @@ function mapSegmentNode({
         ...node,
         templateId: getWithDefault("template", templateMap, node.templateId),
       };
+    case SegmentNodeType.Segment:
+      return {
+        ...node,
+        segmentId: getWithDefault("segment", segmentMap, node.segmentId),
+      };
     case SegmentNodeType.Performed:
+    case SegmentNodeType.Aggregate:
       return {
         ...node,
         properties: node.properties?.map((property) => ({
@@ -242,6 +266,31 @@ function mapSegmentNode({
           }),
         })),
       };
+    case SegmentNodeType.Sequence: {
+      const mapProperties = (properties: SequenceSegmentEvent["properties"]) =>
+        properties?.map((property) => ({
+          ...property,
+          operator: mapSegmentOperator({
+            operator: property.operator,
+            path: property.path,
+            templateMap,
+            segmentMap,
+            userPropertyMap,
+            subscriptionGroupMap,
+          }),
+        }));
+      return {
+        ...node,
+        steps: node.steps.map((step) => ({
+          ...step,
+          properties: mapProperties(step.properties),
+        })),
+        exclusions: node.exclusions?.map((exclusion) => ({
+          ...exclusion,
+          properties: mapProperties(exclusion.properties),
+        })),
+      };
+    }
     default:
       return node;
   }
@@ -265,6 +314,24 @@ function mapJourneyEntryNode({
   }
 }
 
+function mapJourneyGoal({
+  goal,
+  segmentMap,
+}: {
+  goal: JourneyGoal;
+  segmentMap: Map<string, string>;
+}): JourneyGoal {
+  switch (goal.type) {
+    case JourneyGoalType.Event:
+      return goal;
+    case JourneyGoalType.Segment:
+      return {
+        ...goal,
+        segment: getWithDefault("segment", segmentMap, goal.segment),
+      } satisfies SegmentJourneyGoal;
+  }
+}
+
 function mapJourneyBodyNode({
   node,
   subscriptionGroupMap,
@@ -300,36 +367,52 @@ function mapJourneyBodyNode({
       } satisfies MessageNode;
     case JourneyNodeType.SegmentSplitNode: {
       const { variant } = node;
-
-      return {
-        ...node,
-        variant: {
-          ...variant,
-          trueChild: getWithDefault(
-            "segment",
-            segmentMap,
-            node.variant.trueChild,
-          ),
-          falseChild: getWithDefault(
-            "segment",
-            segmentMap,
-            node.variant.falseChild,
-          ),
-        },
-      } satisfies SegmentSplitNode;
+      switch (variant.type) {
+        case SegmentSplitVariantType.Boolean:
+          return {
+            ...node,
+            variant: {
+              ...variant,
+              segment: getWithDefault("segment", segmentMap, variant.segment),
+            },
+          } satisfies SegmentSplitNode;
+        case SegmentSplitVariantType.FirstMatch:
+          return {
+            ...node,
+            variant: {
+              ...variant,
+              branches: variant.branches.map((branch) => ({
+                ...branch,
+                segmentId: getWithDefault(
+                  "segment",
+                  segmentMap,
+                  branch.segmentId,
+                ),
+              })),
+            },
+          } satisfies SegmentSplitNode;
+        default:
+          assertUnreachable(variant);
+      }
+      break;
     }
     case JourneyNodeType.WaitForNode:
       return {
         ...node,
         segmentChildren: node.segmentChildren.map((child) => ({
           ...child,
-          segment: getWithDefault("segment", segmentMap, child.segmentId),
+          segmentId: getWithDefault("segment", segmentMap, child.segmentId),
         })),
       } satisfies WaitForNode;
     case JourneyNodeType.ExperimentSplitNode:
-      throw new Error("Not implemented");
+      return node;
     case JourneyNodeType.RateLimitNode:
-      throw new Error("Not implemented");
+      return node;
+    case JourneyNodeType.HttpRequestNode:
+      return {
+        ...node,
+        templateId: getWithDefault("template", templateMap, node.templateId),
+      } satisfies HttpRequestNode;
   }
 }
 
@@ -366,6 +449,7 @@ function mapUserPropertyDefinition<T extends MappedUserProperty>({
         ),
       };
     case UserPropertyDefinitionType.Performed:
+    case UserPropertyDefinitionType.Aggregate:
       return {
         ...node,
         properties: node.properties?.map((p) => ({
@@ -633,6 +717,10 @@ export async function transferResources({
             }),
           ),
           exitNode: definition.exitNode,
+          quietHours: definition.quietHours,
+          goal: definition.goal
+            ? mapJourneyGoal({ goal: definition.goal, segmentMap })
+            : undefined,
         } satisfies JourneyDefinition;
 
         return insert({
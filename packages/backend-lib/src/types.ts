@@ -32,6 +32,7 @@ import {
   computedPropertyPeriod as dbComputedPropertyPeriod,
   DBWorkspaceOccupantType,
   emailProvider as dbEmailProvider,
+  failedMessage as dbFailedMessage,
   integration as dbIntegration,
   journey as dbJourney,
   journeyStatus as dbJourneyStatus,
@@ -116,6 +117,9 @@ export type JourneyInsert = typeof dbJourney.$inferInsert;
 export type Broadcast = InferSelectModel<typeof dbBroadcast>;
 
 export type UserJourneyEvent = InferSelectModel<typeof dbUserJourneyEvent>;
+
+export type FailedMessage = InferSelectModel<typeof dbFailedMessage>;
+
 export interface EnrichedSegment extends Omit<Segment, "definition"> {
   definition: SegmentDefinition;
 }
@@ -268,6 +272,28 @@ export const TwilioEventSms = Type.Object({
 
 export type TwilioInboundSchema = Static<typeof TwilioEventSms>;
 
+export enum AmazonSnsSmsDeliveryStatusType {
+  Success = "SUCCESS",
+  Failure = "FAILURE",
+}
+
+// format of the sms delivery status logs written by sns
+export const AmazonSnsSmsDeliveryStatus = Type.Object({
+  notification: Type.Object({
+    messageId: Type.String(),
+    timestamp: Type.Optional(Type.String()),
+  }),
+  delivery: Type.Object({
+    destination: Type.String(),
+    providerResponse: Type.Optional(Type.String()),
+  }),
+  status: Type.Enum(AmazonSnsSmsDeliveryStatusType),
+});
+
+export type AmazonSnsSmsDeliveryStatus = Static<
+  typeof AmazonSnsSmsDeliveryStatus
+>;
+
 export enum AmazonSesNotificationType {
   Bounce = "Bounce",
   Complaint = "Complaint",
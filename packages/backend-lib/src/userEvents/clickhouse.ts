@@ -74,6 +74,150 @@ export const GROUP_MATERIALIZED_VIEWS = [
   `,
 ];
 
+export const ALIAS_TABLES = [
+  // Maps the previous ids of merged users, typically anonymous ids, onto their
+  // canonical user ids. The latest alias for a previous id wins.
+  `
+    CREATE TABLE IF NOT EXISTS user_aliases (
+      workspace_id LowCardinality(String),
+      previous_id String,
+      user_id String,
+      aliased_at DateTime64(3)
+    )
+    ENGINE = ReplacingMergeTree(aliased_at)
+    ORDER BY (
+      workspace_id,
+      previous_id
+    );
+  `,
+];
+
+export const ALIAS_MATERIALIZED_VIEWS = [
+  `
+    create materialized view if not exists user_aliases_mv to user_aliases
+    as select
+      workspace_id,
+      JSONExtractString(uev.message_raw, 'previousId') as previous_id,
+      uev.user_id as user_id,
+      uev.processing_time as aliased_at
+    from user_events_v2 as uev
+    where
+      uev.event_type = 'alias'
+      and previous_id != ''
+      and uev.user_id != ''
+      and previous_id != uev.user_id
+  `,
+];
+
+export const TRACKING_PLAN_TABLES = [
+  // Events which failed validation against their workspace's tracking plan.
+  // Quarantined events are only stored here.
+  `
+    CREATE TABLE IF NOT EXISTS tracking_plan_violations (
+      workspace_id LowCardinality(String),
+      message_id String,
+      event_type LowCardinality(String),
+      event String,
+      action LowCardinality(String),
+      errors Array(String),
+      message_raw String,
+      processing_time DateTime64(3)
+    )
+    ENGINE = MergeTree()
+    PARTITION BY toYYYYMM(processing_time)
+    ORDER BY (
+      workspace_id,
+      event_type,
+      event,
+      processing_time,
+      message_id
+    )
+    TTL toDateTime(processing_time) + interval 90 day;
+  `,
+];
+
+function getAuditEventsTtl({ retentionDays }: { retentionDays: number }) {
+  return `toDateTime(timestamp) + interval ${String(retentionDays)} day`;
+}
+
+export function getAuditTables({
+  retentionDays,
+}: {
+  retentionDays: number;
+}): string[] {
+  const ttl = getAuditEventsTtl({ retentionDays });
+  return [
+    // Durable, per workspace store of the events recorded by auditLog.
+    `
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id String,
+        workspace_id LowCardinality(String),
+        timestamp DateTime64(3),
+        event_type LowCardinality(String),
+        severity LowCardinality(String),
+        message String,
+        success Boolean,
+        error String,
+        actor_id String,
+        actor_email String,
+        resource_type LowCardinality(String),
+        resource_id String,
+        resource_name String,
+        request_id String,
+        ip_address String,
+        user_agent String,
+        metadata String
+      )
+      ENGINE = MergeTree()
+      PARTITION BY toYYYYMM(timestamp)
+      ORDER BY (
+        workspace_id,
+        timestamp,
+        id
+      )
+      TTL ${ttl};
+    `,
+  ];
+}
+
+/**
+ * Keeps the retention of an existing audit_events table in line with the
+ * configured value. Modifying the TTL rewrites the table's TTL metadata, so
+ * it's skipped when the retention is unchanged.
+ */
+async function updateAuditEventsRetention({
+  retentionDays,
+}: {
+  retentionDays: number;
+}) {
+  const result = await clickhouseClient().query({
+    query: `
+      SELECT engine_full
+      FROM system.tables
+      WHERE database = currentDatabase() AND name = 'audit_events'
+    `,
+    format: "JSONEachRow",
+  });
+  const [table] = await result.json<{ engine_full: string }>();
+  const currentRetentionDays = table?.engine_full.match(
+    /TTL toDateTime\(timestamp\) \+ toIntervalDay\((\d+)\)/,
+  )?.[1];
+  if (Number(currentRetentionDays) === retentionDays) {
+    return;
+  }
+  logger().info(
+    {
+      currentRetentionDays,
+      retentionDays,
+    },
+    "Updating audit events retention",
+  );
+  await clickhouseClient().exec({
+    query: `ALTER TABLE audit_events MODIFY TTL ${getAuditEventsTtl({ retentionDays })}`,
+    clickhouse_settings: { wait_end_of_query: 1 },
+  });
+}
+
 // TODO route through kafka
 export async function insertProcessedComputedProperties({
   assignments,
@@ -315,6 +459,8 @@ export async function createUserEventsTables() {
         );
       `,
     ...GROUP_TABLES,
+    ...ALIAS_TABLES,
+    ...TRACKING_PLAN_TABLES,
   ];
 
   await Promise.all(
@@ -364,6 +510,7 @@ export async function createUserEventsTables() {
         computed_at;
     `,
     ...GROUP_MATERIALIZED_VIEWS,
+    ...ALIAS_MATERIALIZED_VIEWS,
   ];
 
   await Promise.all(
@@ -374,6 +521,18 @@ export async function createUserEventsTables() {
       }),
     ),
   );
+
+  const retentionDays = config().auditLogRetentionDays;
+  await Promise.all(
+    getAuditTables({ retentionDays }).map((query) =>
+      clickhouseClient().exec({
+        query,
+        clickhouse_settings: { wait_end_of_query: 1 },
+      }),
+    ),
+  );
+  // Depends on the table existing.
+  await updateAuditEventsRetention({ retentionDays });
 }
 
 export async function dropKafkaTables() {
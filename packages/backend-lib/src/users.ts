@@ -52,6 +52,36 @@ function serializeUserCursor(cursor: Cursor): string {
   return serializeCursor(cursor);
 }
 
+/**
+ * Users which have been aliased to another user id are merged into that user,
+ * so they're excluded from results, and filtering by their previous id finds
+ * the merged user.
+ */
+function getAliasClauses({
+  qb,
+  workspaceIdClause,
+  userIds,
+}: {
+  qb: ClickHouseQueryBuilder;
+  workspaceIdClause: string;
+  userIds?: string[];
+}): { mergedUsersClause: string; userIdsClause: string } {
+  const mergedUsersClause = `AND user_id NOT IN (SELECT previous_id FROM user_aliases WHERE ${workspaceIdClause})`;
+  if (!userIds) {
+    return { mergedUsersClause, userIdsClause: "" };
+  }
+  const userIdsParam = qb.addQueryValue(userIds, "Array(String)");
+  const userIdsClause = `AND (
+    user_id IN (${userIdsParam})
+    OR user_id IN (
+      SELECT user_id
+      FROM user_aliases FINAL
+      WHERE ${workspaceIdClause} AND previous_id IN (${userIdsParam})
+    )
+  )`;
+  return { mergedUsersClause, userIdsClause };
+}
+
 export async function getUsers(
   {
     workspaceId,
@@ -192,14 +222,16 @@ export async function getUsers(
       ? `HAVING ${havingSubClauses.join(" AND ")}`
       : "";
   const selectedStr = selectUserIdColumns.join(", ");
-  const userIdsClause = userIds
-    ? `AND user_id IN (${qb.addQueryValue(userIds, "Array(String)")})`
-    : "";
 
   const workspaceIdClause =
     childWorkspaceIds.length > 0
       ? `workspace_id IN (${qb.addQueryValue(childWorkspaceIds, "Array(String)")})`
       : `workspace_id = ${qb.addQueryValue(workspaceId, "String")}`;
+  const { mergedUsersClause, userIdsClause } = getAliasClauses({
+    qb,
+    workspaceIdClause,
+    userIds,
+  });
 
   const query = `
     SELECT
@@ -230,6 +262,7 @@ export async function getUsers(
             ${workspaceIdClause}
             ${cursorClause}
             ${userIdsClause}
+            ${mergedUsersClause}
           GROUP BY workspace_id, user_id
           ${havingClause}
           ORDER BY
@@ -471,6 +504,10 @@ export async function deleteUsers({
     // Delete from resolved_segment_state
     `DELETE FROM resolved_segment_state WHERE workspace_id = ${workspaceIdParam}
      AND user_id IN (${userIdsParam}) settings mutations_sync = 0, lightweight_deletes_sync = 0;`,
+
+    // Delete from user_aliases
+    `DELETE FROM user_aliases WHERE workspace_id = ${workspaceIdParam}
+     AND (user_id IN (${userIdsParam}) OR previous_id IN (${userIdsParam})) settings mutations_sync = 0, lightweight_deletes_sync = 0;`,
   ];
 
   await Promise.all([
@@ -535,6 +572,10 @@ export async function deleteAllUsers({
     // Delete from resolved_segment_state
     `DELETE FROM resolved_segment_state WHERE workspace_id = ${workspaceIdParam}
      settings mutations_sync = 0, lightweight_deletes_sync = 0;`,
+
+    // Delete from user_aliases
+    `DELETE FROM user_aliases WHERE workspace_id = ${workspaceIdParam}
+     settings mutations_sync = 0, lightweight_deletes_sync = 0;`,
   ];
 
   await Promise.all([
@@ -658,14 +699,16 @@ export async function getUsersCount({
       ? `HAVING ${havingSubClauses.join(" AND ")}`
       : "";
   const selectUserIdStr = selectUserIdColumns.join(", ");
-  const userIdsClause = userIds
-    ? `AND user_id IN (${qb.addQueryValue(userIds, "Array(String)")})`
-    : "";
 
   const workspaceIdClause =
     childWorkspaceIds.length > 0
       ? `workspace_id IN (${qb.addQueryValue(childWorkspaceIds, "Array(String)")})`
       : `workspace_id = ${qb.addQueryValue(workspaceId, "String")}`;
+  const { mergedUsersClause, userIdsClause } = getAliasClauses({
+    qb,
+    workspaceIdClause,
+    userIds,
+  });
 
   // Using a similar nested query approach as getUsers
   const query = `
@@ -678,6 +721,7 @@ export async function getUsersCount({
       WHERE
         ${workspaceIdClause}
         ${userIdsClause}
+        ${mergedUsersClause}
       GROUP BY workspace_id, user_id
       ${havingClause}
     )
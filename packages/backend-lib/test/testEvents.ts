@@ -2,6 +2,7 @@ import { randomUUID } from "crypto";
 import {
   AnonymousBatchIdentifyData,
   AnonymousBatchTrackData,
+  BatchAliasData,
   BatchAppData,
   BatchItem,
   KnownBatchIdentifyData,
@@ -22,7 +23,8 @@ export type TestEvent =
   | TestEventCommon<KnownBatchIdentifyData>
   | TestEventCommon<KnownBatchTrackData>
   | TestEventCommon<AnonymousBatchIdentifyData>
-  | TestEventCommon<AnonymousBatchTrackData>;
+  | TestEventCommon<AnonymousBatchTrackData>
+  | TestEventCommon<BatchAliasData>;
 
 export async function submitBatch({
   workspaceId,
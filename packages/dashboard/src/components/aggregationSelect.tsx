@@ -0,0 +1,43 @@
+import { FormControl, InputLabel, MenuItem, Select } from "@mui/material";
+import { AggregationType } from "isomorphic-lib/src/types";
+
+const aggregationTypeLabels: [AggregationType, string][] = [
+  [AggregationType.Sum, "Sum"],
+  [AggregationType.Count, "Count"],
+  [AggregationType.Avg, "Average"],
+  [AggregationType.Min, "Minimum"],
+  [AggregationType.Max, "Maximum"],
+  [AggregationType.DistinctCount, "Distinct Count"],
+];
+
+export interface AggregationSelectProps {
+  value: AggregationType;
+  disabled?: boolean;
+  inputLabel?: string;
+  onChange: (aggregation: AggregationType) => void;
+}
+
+export default function AggregationSelect({
+  value,
+  inputLabel = "Aggregation",
+  disabled,
+  onChange,
+}: AggregationSelectProps) {
+  return (
+    <FormControl>
+      <InputLabel>{inputLabel}</InputLabel>
+      <Select
+        label={inputLabel}
+        value={value}
+        onChange={(e) => onChange(e.target.value as AggregationType)}
+        disabled={disabled}
+      >
+        {aggregationTypeLabels.map(([aggregation, label]) => (
+          <MenuItem key={aggregation} value={aggregation}>
+            {label}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
@@ -0,0 +1,235 @@
+import {
+  Box,
+  Chip,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { DataGrid } from "@mui/x-data-grid";
+import { keepPreviousData } from "@tanstack/react-query";
+import {
+  AuditEventResource,
+  AuditEventType,
+  AuditSeverity,
+} from "isomorphic-lib/src/types";
+import { useMemo } from "react";
+import { useImmer } from "use-immer";
+
+import { useAuditEventsQuery } from "../lib/useAuditEventsQuery";
+
+const MAX_EVENTS = 1000;
+
+const SEVERITY_COLORS: Record<
+  AuditSeverity,
+  "default" | "info" | "warning" | "error"
+> = {
+  [AuditSeverity.LOW]: "default",
+  [AuditSeverity.MEDIUM]: "info",
+  [AuditSeverity.HIGH]: "warning",
+  [AuditSeverity.CRITICAL]: "error",
+};
+
+interface Filters {
+  eventTypes: AuditEventType[];
+  severities: AuditSeverity[];
+  actor: string;
+  startDate: string;
+  endDate: string;
+}
+
+// datetime-local inputs are in the browser's timezone, without an offset
+function localToIso(value: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function formatEventType(eventType: AuditEventType): string {
+  return eventType.toLowerCase().split("_").join(" ");
+}
+
+export default function AuditLogTable() {
+  const [filters, setFilters] = useImmer<Filters>({
+    eventTypes: [],
+    severities: [],
+    actor: "",
+    startDate: "",
+    endDate: "",
+  });
+  const { data, isPending, isError } = useAuditEventsQuery(
+    {
+      eventTypes: filters.eventTypes.length ? filters.eventTypes : undefined,
+      severities: filters.severities.length ? filters.severities : undefined,
+      actor: filters.actor.trim() || undefined,
+      startDate: localToIso(filters.startDate),
+      endDate: localToIso(filters.endDate),
+      limit: MAX_EVENTS,
+    },
+    { placeholderData: keepPreviousData },
+  );
+  const rows: AuditEventResource[] = useMemo(() => data?.events ?? [], [data]);
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={1}>
+        <TextField
+          select
+          label="Event Types"
+          value={filters.eventTypes}
+          sx={{ width: 240 }}
+          SelectProps={{
+            multiple: true,
+            renderValue: (selected) =>
+              (selected as AuditEventType[]).map(formatEventType).join(", "),
+          }}
+          onChange={(e) =>
+            setFilters((draft) => {
+              draft.eventTypes = e.target.value as unknown as AuditEventType[];
+            })
+          }
+        >
+          {Object.values(AuditEventType).map((eventType) => (
+            <MenuItem key={eventType} value={eventType}>
+              {formatEventType(eventType)}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Severities"
+          value={filters.severities}
+          sx={{ width: 180 }}
+          SelectProps={{
+            multiple: true,
+            renderValue: (selected) => (selected as AuditSeverity[]).join(", "),
+          }}
+          onChange={(e) =>
+            setFilters((draft) => {
+              draft.severities = e.target.value as unknown as AuditSeverity[];
+            })
+          }
+        >
+          {Object.values(AuditSeverity).map((severity) => (
+            <MenuItem key={severity} value={severity}>
+              {severity}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          label="Actor"
+          placeholder="Member id or email"
+          value={filters.actor}
+          sx={{ flex: 1 }}
+          onChange={(e) =>
+            setFilters((draft) => {
+              draft.actor = e.target.value;
+            })
+          }
+        />
+        <TextField
+          label="From"
+          type="datetime-local"
+          value={filters.startDate}
+          InputLabelProps={{ shrink: true }}
+          onChange={(e) =>
+            setFilters((draft) => {
+              draft.startDate = e.target.value;
+            })
+          }
+        />
+        <TextField
+          label="To"
+          type="datetime-local"
+          value={filters.endDate}
+          InputLabelProps={{ shrink: true }}
+          onChange={(e) =>
+            setFilters((draft) => {
+              draft.endDate = e.target.value;
+            })
+          }
+        />
+      </Stack>
+      {isError ? (
+        <Typography color="error" variant="body2">
+          Failed to load audit events.
+        </Typography>
+      ) : null}
+      <Box sx={{ height: 600, width: "100%" }}>
+        <DataGrid<AuditEventResource>
+          rows={rows}
+          loading={isPending}
+          autoPageSize
+          disableRowSelectionOnClick
+          sx={{
+            "& .MuiDataGrid-cell:focus": {
+              outline: "none",
+            },
+            "& .MuiDataGrid-cell:focus-within": {
+              outline: "none",
+            },
+          }}
+          columns={[
+            {
+              field: "timestamp",
+              headerName: "Time",
+              width: 200,
+              valueGetter: (params) =>
+                new Date(params.row.timestamp).toLocaleString(),
+            },
+            {
+              field: "eventType",
+              headerName: "Event",
+              width: 180,
+              valueGetter: (params) => formatEventType(params.row.eventType),
+            },
+            {
+              field: "severity",
+              headerName: "Severity",
+              width: 110,
+              renderCell: (params) => (
+                <Chip
+                  size="small"
+                  label={params.row.severity}
+                  color={SEVERITY_COLORS[params.row.severity]}
+                />
+              ),
+            },
+            {
+              field: "actor",
+              headerName: "Actor",
+              flex: 1,
+              valueGetter: (params) =>
+                params.row.actorEmail ?? params.row.actorId ?? "",
+            },
+            {
+              field: "resource",
+              headerName: "Resource",
+              flex: 1,
+              valueGetter: (params) =>
+                [
+                  params.row.resourceType,
+                  params.row.resourceName ?? params.row.resourceId,
+                ]
+                  .filter(Boolean)
+                  .join(": "),
+            },
+            {
+              field: "message",
+              headerName: "Message",
+              flex: 1,
+              renderCell: (params) => (
+                <Tooltip title={params.row.error ?? params.row.message}>
+                  <span>{params.row.message}</span>
+                </Tooltip>
+              ),
+            },
+          ]}
+        />
+      </Box>
+    </Stack>
+  );
+}
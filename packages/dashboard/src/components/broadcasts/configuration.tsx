@@ -146,6 +146,8 @@ export default function Configuration({
       case ChannelType.Sms:
         return [
           { id: SmsProviderType.Twilio, label: "Twilio" },
+          { id: SmsProviderType.Vonage, label: "Vonage" },
+          { id: SmsProviderType.Sns, label: "Amazon SNS" },
           { id: SmsProviderType.Test, label: "Test" },
         ];
       case ChannelType.Webhook:
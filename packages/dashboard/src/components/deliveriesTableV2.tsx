@@ -53,6 +53,7 @@ import axios from "axios";
 import { subDays, subMinutes } from "date-fns";
 import formatDistanceToNow from "date-fns/formatDistanceToNow";
 import { isInternalBroadcastTemplate } from "isomorphic-lib/src/broadcasts";
+import { emailProviderLabel } from "isomorphic-lib/src/email";
 import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
 import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
@@ -110,6 +111,7 @@ export const DEFAULT_ALLOWED_COLUMNS: DeliveriesAllowedColumn[] = [
   "to",
   "userId",
   "channel",
+  "provider",
   "status",
   "origin",
   "template",
@@ -376,6 +378,7 @@ interface BaseDelivery {
   templateName?: string;
   sentAt: number;
   updatedAt: number;
+  provider?: string;
   from?: string;
   to?: string;
   subject?: string;
@@ -920,6 +923,12 @@ export function DeliveriesTableV2({
         accessorKey: "channel",
         cell: ({ row }) => humanizeChannel(row.original.channel),
       },
+      provider: {
+        id: "provider",
+        header: "Provider",
+        accessorKey: "provider",
+        cell: ({ row }) => row.original.provider,
+      },
       status: {
         id: "status",
         header: "Status",
@@ -1010,6 +1019,11 @@ export function DeliveriesTableV2({
           delivery = {
             ...baseDelivery,
             channel: ChannelType.Email,
+            provider: variant.failoverAttempts?.length
+              ? `${emailProviderLabel(variant.provider.type)} (after ${variant.failoverAttempts
+                  .map((attempt) => emailProviderLabel(attempt.type))
+                  .join(", ")})`
+              : emailProviderLabel(variant.provider.type),
             body: variant.body,
             snippet: variant.subject,
             subject: variant.subject,
@@ -1022,6 +1036,7 @@ export function DeliveriesTableV2({
           delivery = {
             ...baseDelivery,
             channel: ChannelType.Sms,
+            provider: variant.provider.type,
             body: variant.body,
             snippet: variant.body,
             to: variant.to,
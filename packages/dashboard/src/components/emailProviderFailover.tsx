@@ -0,0 +1,135 @@
+import {
+  AddCircleOutline,
+  ArrowDownward,
+  ArrowUpward,
+  DeleteOutline,
+} from "@mui/icons-material";
+import { LoadingButton } from "@mui/lab";
+import {
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { emailProviderLabel } from "isomorphic-lib/src/email";
+import { WorkspaceWideEmailProviders } from "isomorphic-lib/src/types";
+import { enqueueSnackbar } from "notistack";
+import { useEffect } from "react";
+import { useImmer } from "use-immer";
+
+import { useAppStorePick } from "../lib/appStore";
+import { noticeAnchorOrigin } from "../lib/notices";
+import { useEmailProviderFailoverQuery } from "../lib/useEmailProviderFailoverQuery";
+import { useUpdateEmailProviderFailoverMutation } from "../lib/useUpdateEmailProviderFailoverMutation";
+
+export default function EmailProviderFailover() {
+  const { emailProviders } = useAppStorePick(["emailProviders"]);
+  const { data } = useEmailProviderFailoverQuery();
+  const [providers, setProviders] = useImmer<WorkspaceWideEmailProviders[]>([]);
+  const updateMutation = useUpdateEmailProviderFailoverMutation({
+    onSuccess: () => {
+      enqueueSnackbar("Saved email provider failover.", {
+        variant: "success",
+        autoHideDuration: 3000,
+        anchorOrigin: noticeAnchorOrigin,
+      });
+    },
+    onError: () => {
+      enqueueSnackbar("API Error: Failed to save email provider failover.", {
+        variant: "error",
+        autoHideDuration: 3000,
+        anchorOrigin: noticeAnchorOrigin,
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setProviders(data.providers);
+    }
+  }, [data, setProviders]);
+
+  const availableProviders = emailProviders
+    .map((p) => p.type)
+    .filter((type) => !providers.includes(type));
+
+  const move = (from: number, to: number) =>
+    setProviders((draft) => {
+      const [provider] = draft.splice(from, 1);
+      if (provider) {
+        draft.splice(to, 0, provider);
+      }
+    });
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="body2">
+        When the default provider, or the provider selected by a message, fails
+        because it is unavailable or throttling, the message is retried with
+        these providers in order. Messages which a provider rejects, or which
+        time out and may have been accepted, are not retried.
+      </Typography>
+      {providers.map((provider, i) => (
+        <Stack key={provider} direction="row" spacing={1} alignItems="center">
+          <Typography sx={{ flex: 1 }}>
+            {i + 1}. {emailProviderLabel(provider)}
+          </Typography>
+          <IconButton
+            aria-label="Move provider up"
+            disabled={i === 0}
+            onClick={() => move(i, i - 1)}
+          >
+            <ArrowUpward />
+          </IconButton>
+          <IconButton
+            aria-label="Move provider down"
+            disabled={i === providers.length - 1}
+            onClick={() => move(i, i + 1)}
+          >
+            <ArrowDownward />
+          </IconButton>
+          <IconButton
+            aria-label="Remove failover provider"
+            onClick={() =>
+              setProviders((draft) => {
+                draft.splice(i, 1);
+              })
+            }
+          >
+            <DeleteOutline />
+          </IconButton>
+        </Stack>
+      ))}
+      <Stack direction="row" justifyContent="space-between">
+        <TextField
+          select
+          size="small"
+          label="Add Provider"
+          value=""
+          disabled={availableProviders.length === 0}
+          sx={{ width: 200 }}
+          InputProps={{ startAdornment: <AddCircleOutline sx={{ mr: 1 }} /> }}
+          onChange={(e) =>
+            setProviders((draft) => {
+              draft.push(e.target.value as WorkspaceWideEmailProviders);
+            })
+          }
+        >
+          {availableProviders.map((type) => (
+            <MenuItem key={type} value={type}>
+              {emailProviderLabel(type)}
+            </MenuItem>
+          ))}
+        </TextField>
+        <LoadingButton
+          variant="contained"
+          loading={updateMutation.isPending}
+          onClick={() => updateMutation.mutate(providers)}
+        >
+          Save
+        </LoadingButton>
+      </Stack>
+    </Stack>
+  );
+}
@@ -0,0 +1,233 @@
+import { AddCircleOutline, DeleteOutline } from "@mui/icons-material";
+import { LoadingButton } from "@mui/lab";
+import {
+  Button,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { format } from "date-fns";
+import { emailProviderLabel } from "isomorphic-lib/src/email";
+import {
+  EmailProviderWeight,
+  WorkspaceWideEmailProviders,
+} from "isomorphic-lib/src/types";
+import { enqueueSnackbar } from "notistack";
+import { useEffect } from "react";
+import { useImmer } from "use-immer";
+
+import { useAppStorePick } from "../lib/appStore";
+import { noticeAnchorOrigin } from "../lib/notices";
+import { useEmailProviderTrafficSplitQuery } from "../lib/useEmailProviderTrafficSplitQuery";
+import {
+  EmailProviderTrafficSplitUpdate,
+  useUpdateEmailProviderTrafficSplitMutation,
+} from "../lib/useUpdateEmailProviderTrafficSplitMutation";
+
+function WeightsEditor({
+  weights,
+  providers,
+  onChange,
+}: {
+  weights: EmailProviderWeight[];
+  providers: WorkspaceWideEmailProviders[];
+  onChange: (weights: EmailProviderWeight[]) => void;
+}) {
+  const total = weights.reduce((acc, w) => acc + w.weight, 0);
+  const availableProviders = providers.filter(
+    (provider) => !weights.some((w) => w.provider === provider),
+  );
+  return (
+    <Stack spacing={1}>
+      {weights.map((w, i) => (
+        <Stack key={w.provider} direction="row" spacing={1} alignItems="center">
+          <Typography sx={{ flex: 1 }}>
+            {emailProviderLabel(w.provider)}
+          </Typography>
+          <TextField
+            size="small"
+            type="number"
+            label="Weight"
+            value={w.weight}
+            inputProps={{ min: 0 }}
+            sx={{ width: 120 }}
+            onChange={(e) => {
+              const weight = Math.max(0, Number(e.target.value) || 0);
+              onChange(
+                weights.map((existing, j) =>
+                  j === i ? { ...existing, weight } : existing,
+                ),
+              );
+            }}
+          />
+          <Typography sx={{ width: 60 }} variant="body2">
+            {total > 0 ? `${Math.round((w.weight / total) * 100)}%` : "0%"}
+          </Typography>
+          <IconButton
+            aria-label="Remove weighted provider"
+            onClick={() => onChange(weights.filter((_, j) => j !== i))}
+          >
+            <DeleteOutline />
+          </IconButton>
+        </Stack>
+      ))}
+      <TextField
+        select
+        size="small"
+        label="Add Provider"
+        value=""
+        disabled={availableProviders.length === 0}
+        sx={{ width: 200 }}
+        InputProps={{ startAdornment: <AddCircleOutline sx={{ mr: 1 }} /> }}
+        onChange={(e) =>
+          onChange([
+            ...weights,
+            {
+              provider: e.target.value as WorkspaceWideEmailProviders,
+              weight: 0,
+            },
+          ])
+        }
+      >
+        {availableProviders.map((type) => (
+          <MenuItem key={type} value={type}>
+            {emailProviderLabel(type)}
+          </MenuItem>
+        ))}
+      </TextField>
+    </Stack>
+  );
+}
+
+export default function EmailProviderTrafficSplit() {
+  const { emailProviders } = useAppStorePick(["emailProviders"]);
+  const { data } = useEmailProviderTrafficSplitQuery();
+  const [split, setSplit] = useImmer<EmailProviderTrafficSplitUpdate>({
+    weights: [],
+  });
+  const updateMutation = useUpdateEmailProviderTrafficSplitMutation({
+    onSuccess: () => {
+      enqueueSnackbar("Saved email provider traffic split.", {
+        variant: "success",
+        autoHideDuration: 3000,
+        anchorOrigin: noticeAnchorOrigin,
+      });
+    },
+    onError: () => {
+      enqueueSnackbar(
+        "API Error: Failed to save email provider traffic split.",
+        {
+          variant: "error",
+          autoHideDuration: 3000,
+          anchorOrigin: noticeAnchorOrigin,
+        },
+      );
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setSplit({ weights: data.weights, schedule: data.schedule });
+    }
+  }, [data, setSplit]);
+
+  const providers = emailProviders.map((p) => p.type);
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="body2">
+        Split email traffic between providers by weight, e.g. while warming up a
+        new provider&apos;s IPs. Each user is always sent email with the same
+        provider while the weights don&apos;t change. Messages sent with a
+        specific provider aren&apos;t split.
+      </Typography>
+      <WeightsEditor
+        weights={split.weights}
+        providers={providers}
+        onChange={(weights) =>
+          setSplit((draft) => {
+            draft.weights = weights;
+          })
+        }
+      />
+      {(split.schedule ?? []).map((step, i) => (
+        // eslint-disable-next-line react/no-array-index-key
+        <Stack key={i} spacing={1}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField
+              size="small"
+              type="datetime-local"
+              label="Starting At"
+              InputLabelProps={{ shrink: true }}
+              value={format(new Date(step.startsAt), "yyyy-MM-dd'T'HH:mm")}
+              onChange={(e) => {
+                const startsAt = new Date(e.target.value);
+                if (Number.isNaN(startsAt.getTime())) {
+                  return;
+                }
+                setSplit((draft) => {
+                  const draftStep = draft.schedule?.[i];
+                  if (draftStep) {
+                    draftStep.startsAt = startsAt.toISOString();
+                  }
+                });
+              }}
+            />
+            <IconButton
+              aria-label="Remove schedule step"
+              onClick={() =>
+                setSplit((draft) => {
+                  draft.schedule?.splice(i, 1);
+                })
+              }
+            >
+              <DeleteOutline />
+            </IconButton>
+          </Stack>
+          <WeightsEditor
+            weights={step.weights}
+            providers={providers}
+            onChange={(weights) =>
+              setSplit((draft) => {
+                const draftStep = draft.schedule?.[i];
+                if (draftStep) {
+                  draftStep.weights = weights;
+                }
+              })
+            }
+          />
+        </Stack>
+      ))}
+      <Stack direction="row" justifyContent="space-between">
+        <Button
+          startIcon={<AddCircleOutline />}
+          onClick={() =>
+            setSplit((draft) => {
+              const previous = draft.schedule?.[draft.schedule.length - 1];
+              const step = {
+                startsAt: new Date().toISOString(),
+                weights: (previous ?? draft).weights.map((w) => ({ ...w })),
+              };
+              if (draft.schedule) {
+                draft.schedule.push(step);
+              } else {
+                draft.schedule = [step];
+              }
+            })
+          }
+        >
+          Add Schedule Step
+        </Button>
+        <LoadingButton
+          variant="contained"
+          loading={updateMutation.isPending}
+          onClick={() => updateMutation.mutate(split)}
+        >
+          Save
+        </LoadingButton>
+      </Stack>
+    </Stack>
+  );
+}
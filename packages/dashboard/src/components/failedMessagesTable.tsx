@@ -0,0 +1,203 @@
+import {
+  Box,
+  Button,
+  Chip,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { DataGrid, GridRowSelectionModel } from "@mui/x-data-grid";
+import {
+  ChannelType,
+  FailedMessageResource,
+  FailedMessageStatus,
+} from "isomorphic-lib/src/types";
+import { enqueueSnackbar } from "notistack";
+import { useState } from "react";
+
+import { noticeAnchorOrigin } from "../lib/notices";
+import { useFailedMessagesQuery } from "../lib/useFailedMessagesQuery";
+import { useReplayFailedMessagesMutation } from "../lib/useReplayFailedMessagesMutation";
+
+// the maximum number of messages which can be replayed in a single request
+const MAX_REPLAY_BATCH = 100;
+
+const STATUS_COLORS: Record<
+  FailedMessageStatus,
+  "default" | "info" | "success" | "error"
+> = {
+  [FailedMessageStatus.Failed]: "error",
+  [FailedMessageStatus.Replaying]: "info",
+  [FailedMessageStatus.Replayed]: "success",
+  [FailedMessageStatus.ReplayFailed]: "error",
+};
+
+function isReplayable(status: FailedMessageStatus): boolean {
+  return (
+    status === FailedMessageStatus.Failed ||
+    status === FailedMessageStatus.ReplayFailed
+  );
+}
+
+function errorSummary(error: FailedMessageResource["error"]): string {
+  const { message, variant } = error;
+  if (typeof message === "string") {
+    return message;
+  }
+  return JSON.stringify(variant ?? error);
+}
+
+export default function FailedMessagesTable() {
+  const [status, setStatus] = useState<FailedMessageStatus | "">(
+    FailedMessageStatus.Failed,
+  );
+  const [channel, setChannel] = useState<ChannelType | "">("");
+  const [selection, setSelection] = useState<GridRowSelectionModel>([]);
+
+  const { data, isPending, isError } = useFailedMessagesQuery({
+    statuses: status ? [status] : undefined,
+    channels: channel ? [channel] : undefined,
+  });
+  const replayMutation = useReplayFailedMessagesMutation({
+    onSuccess: ({ queued, skipped }) => {
+      setSelection([]);
+      enqueueSnackbar(
+        `Queued ${queued.length} messages for replay, ${skipped.length} skipped.`,
+        {
+          variant: skipped.length > 0 ? "warning" : "success",
+          autoHideDuration: 5000,
+          anchorOrigin: noticeAnchorOrigin,
+        },
+      );
+    },
+    onError: () => {
+      enqueueSnackbar("API Error: failed to replay messages.", {
+        variant: "error",
+        autoHideDuration: 3000,
+        anchorOrigin: noticeAnchorOrigin,
+      });
+    },
+  });
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={2} alignItems="center">
+        <TextField
+          select
+          size="small"
+          label="Status"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as FailedMessageStatus)}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="">All</MenuItem>
+          {Object.values(FailedMessageStatus).map((s) => (
+            <MenuItem key={s} value={s}>
+              {s}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Channel"
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as ChannelType)}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="">All</MenuItem>
+          {Object.values(ChannelType).map((c) => (
+            <MenuItem key={c} value={c}>
+              {c}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Box sx={{ flex: 1 }} />
+        <Button
+          variant="contained"
+          disabled={selection.length === 0 || replayMutation.isPending}
+          onClick={() =>
+            replayMutation.mutate({
+              ids: selection.map(String).slice(0, MAX_REPLAY_BATCH),
+            })
+          }
+        >
+          Replay {selection.length > 0 ? `(${selection.length})` : ""}
+        </Button>
+      </Stack>
+      {isError ? (
+        <Typography color="error" variant="body2">
+          Failed to load failed messages.
+        </Typography>
+      ) : null}
+      <Box sx={{ height: 600, width: "100%" }}>
+        <DataGrid<FailedMessageResource>
+          rows={data?.messages ?? []}
+          loading={isPending}
+          autoPageSize
+          checkboxSelection
+          disableRowSelectionOnClick
+          isRowSelectable={(params) => isReplayable(params.row.status)}
+          rowSelectionModel={selection}
+          onRowSelectionModelChange={(model) =>
+            setSelection(model.slice(0, MAX_REPLAY_BATCH))
+          }
+          columns={[
+            {
+              field: "createdAt",
+              headerName: "Failed At",
+              width: 200,
+              valueGetter: (params) =>
+                new Date(params.row.createdAt).toLocaleString(),
+            },
+            {
+              field: "userId",
+              headerName: "User",
+              flex: 1,
+            },
+            {
+              field: "channel",
+              headerName: "Channel",
+              width: 120,
+            },
+            {
+              field: "status",
+              headerName: "Status",
+              width: 140,
+              renderCell: (params) => (
+                <Chip
+                  size="small"
+                  label={params.row.status}
+                  color={STATUS_COLORS[params.row.status]}
+                />
+              ),
+            },
+            {
+              field: "replayCount",
+              headerName: "Replays",
+              type: "number",
+              width: 90,
+            },
+            {
+              field: "error",
+              headerName: "Error",
+              flex: 2,
+              renderCell: (params) => {
+                const summary = errorSummary(params.row.error);
+                return (
+                  <Tooltip
+                    title={`Message ${params.row.messageId}: ${summary}`}
+                  >
+                    <span>{summary}</span>
+                  </Tooltip>
+                );
+              },
+            },
+          ]}
+        />
+      </Box>
+    </Stack>
+  );
+}
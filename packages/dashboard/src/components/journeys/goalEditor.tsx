@@ -0,0 +1,160 @@
+import {
+  Autocomplete,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  AdditionalJourneyNodeType,
+  JourneyGoalType,
+  JourneyNodeType,
+  JourneyUiNodeType,
+  SegmentNodeType,
+} from "isomorphic-lib/src/types";
+import { ReactNode, useMemo } from "react";
+
+import { useAppStorePick } from "../../lib/appStore";
+import { useSegmentsQuery } from "../../lib/useSegmentsQuery";
+import { EventNamesAutocomplete } from "../eventsAutocomplete";
+
+export default function GoalEditor({ disabled }: { disabled?: boolean }) {
+  const { journeyGoal, setJourneyGoal, journeyNodes } = useAppStorePick([
+    "journeyGoal",
+    "setJourneyGoal",
+    "journeyNodes",
+  ]);
+
+  const isEventEntry = useMemo(
+    () =>
+      journeyNodes.find(
+        (n) =>
+          n.data.type === JourneyUiNodeType.JourneyUiNodeDefinitionProps &&
+          n.data.nodeTypeProps.type === AdditionalJourneyNodeType.EntryUiNode &&
+          n.data.nodeTypeProps.variant.type === JourneyNodeType.EventEntryNode,
+      ),
+    [journeyNodes],
+  );
+
+  const { data: segmentsData } = useSegmentsQuery({
+    resourceType: "Declarative",
+  });
+
+  // mirrors the segments available to wait for nodes
+  const segments = useMemo(() => {
+    if (!segmentsData) {
+      return [];
+    }
+    if (isEventEntry) {
+      return segmentsData.segments.filter(
+        (s) => s.definition.entryNode.type === SegmentNodeType.KeyedPerformed,
+      );
+    }
+    return segmentsData.segments.filter(
+      (s) => s.definition.entryNode.type !== SegmentNodeType.KeyedPerformed,
+    );
+  }, [segmentsData, isEventEntry]);
+
+  let goalFields: ReactNode = null;
+  switch (journeyGoal?.type) {
+    case JourneyGoalType.Segment: {
+      const segment =
+        segments.find((s) => s.id === journeyGoal.segment) ?? null;
+      goalFields = (
+        <Autocomplete
+          value={segment}
+          options={segments}
+          getOptionLabel={(s) => s.name}
+          disabled={disabled}
+          onChange={(_event, newSegment) =>
+            setJourneyGoal({
+              type: JourneyGoalType.Segment,
+              segment: newSegment?.id ?? "",
+            })
+          }
+          renderInput={(params) => (
+            <TextField {...params} label="Goal Segment" variant="outlined" />
+          )}
+        />
+      );
+      break;
+    }
+    case JourneyGoalType.Event:
+      goalFields = (
+        <EventNamesAutocomplete
+          event={journeyGoal.event}
+          disabled={disabled}
+          label="Goal Event"
+          onEventChange={(event) =>
+            setJourneyGoal({
+              type: JourneyGoalType.Event,
+              event,
+            })
+          }
+        />
+      );
+      break;
+    case undefined:
+      break;
+  }
+
+  return (
+    <Stack spacing={2}>
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={journeyGoal !== null}
+            disabled={disabled}
+            onChange={(e) =>
+              setJourneyGoal(
+                e.target.checked
+                  ? {
+                      type: JourneyGoalType.Segment,
+                      segment: "",
+                    }
+                  : null,
+              )
+            }
+          />
+        }
+        label="Exit users when they reach a goal"
+      />
+      <Typography variant="caption">
+        Users who enter the goal segment, or perform the goal event, exit the
+        journey before receiving any further messages, and are counted as
+        converted.
+      </Typography>
+      {journeyGoal && (
+        <>
+          <FormControl>
+            <InputLabel id="journey-goal-type-select-label">
+              Goal Type
+            </InputLabel>
+            <Select
+              labelId="journey-goal-type-select-label"
+              label="Goal Type"
+              value={journeyGoal.type}
+              disabled={disabled}
+              onChange={(e) =>
+                setJourneyGoal(
+                  e.target.value === JourneyGoalType.Event
+                    ? { type: JourneyGoalType.Event, event: "" }
+                    : { type: JourneyGoalType.Segment, segment: "" },
+                )
+              }
+            >
+              <MenuItem value={JourneyGoalType.Segment}>Segment</MenuItem>
+              <MenuItem value={JourneyGoalType.Event}>Event</MenuItem>
+            </Select>
+          </FormControl>
+          {goalFields}
+        </>
+      )}
+    </Stack>
+  );
+}
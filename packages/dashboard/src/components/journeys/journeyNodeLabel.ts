@@ -21,5 +21,11 @@ export default function journeyNodeLabel(
       return "Message";
     case JourneyNodeType.WaitForNode:
       return "Wait For";
+    case JourneyNodeType.ExperimentSplitNode:
+      return "Experiment Split";
+    case JourneyNodeType.RateLimitNode:
+      return "Rate Limit";
+    case JourneyNodeType.HttpRequestNode:
+      return "HTTP Request";
   }
 }
@@ -22,6 +22,10 @@ import { SelectInputProps } from "@mui/material/Select/SelectInput";
 import { MultiSectionDigitalClock } from "@mui/x-date-pickers/MultiSectionDigitalClock";
 import { Node } from "@xyflow/react";
 import { DAY_INDICES } from "isomorphic-lib/src/constants";
+import {
+  EXPERIMENT_HOLDOUT_ARM_ID,
+  EXPERIMENT_HOLDOUT_ARM_NAME,
+} from "isomorphic-lib/src/experiments";
 import { getDefaultSubscriptionGroup } from "isomorphic-lib/src/subscriptionGroups";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
 import {
@@ -30,27 +34,39 @@ import {
   CursorDirectionEnum,
   DelayVariantType,
   EntryNode,
+  ExperimentArmStats,
   JourneyNodeType,
   JourneyUiNodeType,
   MessageTemplateResource,
   MobilePushProviderType,
+  NodeStatsType,
   PartialSegmentResource,
+  RateLimitExceededBehavior,
+  RateLimitScope,
   SavedSegmentResource,
   SegmentNodeType,
+  SegmentSplitVariantType,
   SmsProviderType,
   TwilioSenderOverrideType,
   UserPropertyResource,
   WorkspaceWideEmailProviders,
 } from "isomorphic-lib/src/types";
+import { useRouter } from "next/router";
 import { ReactNode, useMemo } from "react";
+import { v4 as uuid } from "uuid";
 
 import { useAppStorePick } from "../../lib/appStore";
 import {
   AdditionalJourneyNodeType,
   DelayUiNodeProps,
   EntryUiNodeProps,
+  ExperimentSplitUiArm,
+  ExperimentSplitUiNodeProps,
+  FirstMatchSegmentSplitUiNodeProps,
+  HttpRequestUiNodeProps,
   JourneyUiNodeDefinitionProps,
   MessageUiNodeProps,
+  RateLimitUiNodeProps,
   SegmentSplitUiNodeProps,
   WaitForUiNodeProps,
 } from "../../lib/types";
@@ -69,7 +85,11 @@ import InfoTooltip from "../infoTooltip";
 import { SubscriptionGroupAutocompleteV2 } from "../subscriptionGroupAutocomplete";
 import findJourneyNode from "./findJourneyNode";
 import journeyNodeLabel from "./journeyNodeLabel";
-import { waitForTimeoutLabel } from "./store";
+import {
+  rateLimitExceededLabel,
+  segmentSplitBranchLabel,
+  waitForTimeoutLabel,
+} from "./store";
 
 const width = 420;
 const transitionDuration = ".15s";
@@ -84,10 +104,13 @@ function SegmentSplitNodeFields({
   disabled,
 }: {
   nodeId: string;
-  nodeProps: SegmentSplitUiNodeProps;
+  nodeProps: SegmentSplitUiNodeProps | FirstMatchSegmentSplitUiNodeProps;
   disabled?: boolean;
 }) {
-  const { updateJourneyNodeData } = useAppStorePick(["updateJourneyNodeData"]);
+  const { updateJourneyNodeData, setSegmentSplitProps } = useAppStorePick([
+    "updateJourneyNodeData",
+    "setSegmentSplitProps",
+  ]);
   const { data: segmentsData } = useSegmentsQuery({
     resourceType: "Declarative",
   });
@@ -98,30 +121,198 @@ function SegmentSplitNodeFields({
   ) => {
     updateJourneyNodeData(nodeId, (node) => {
       const props = node.data.nodeTypeProps;
-      if (props.type === JourneyNodeType.SegmentSplitNode) {
+      if (
+        props.type === JourneyNodeType.SegmentSplitNode &&
+        props.variantType !== SegmentSplitVariantType.FirstMatch
+      ) {
         props.segmentId = segment?.id;
       }
     });
   };
 
+  const onBranchSegmentChangeHandler = (
+    labelNodeId: string,
+    segment: PartialSegmentResource | null,
+  ) => {
+    updateJourneyNodeData(nodeId, (node) => {
+      const props = node.data.nodeTypeProps;
+      if (
+        props.type === JourneyNodeType.SegmentSplitNode &&
+        props.variantType === SegmentSplitVariantType.FirstMatch
+      ) {
+        const branch = props.branches.find(
+          (b) => b.labelNodeId === labelNodeId,
+        );
+        if (branch) {
+          branch.segmentId = segment?.id;
+        }
+      }
+    });
+  };
+
+  // the existing label nodes are reused when switching variants, so that the
+  // nodes within each branch are preserved
+  const onVariantTypeChangeHandler = (variantType: SegmentSplitVariantType) => {
+    if (
+      variantType === SegmentSplitVariantType.FirstMatch &&
+      nodeProps.variantType !== SegmentSplitVariantType.FirstMatch
+    ) {
+      setSegmentSplitProps(nodeId, {
+        type: JourneyNodeType.SegmentSplitNode,
+        variantType: SegmentSplitVariantType.FirstMatch,
+        name: nodeProps.name,
+        branches: [
+          {
+            segmentId: nodeProps.segmentId,
+            labelNodeId: nodeProps.trueLabelNodeId,
+          },
+        ],
+        defaultLabelNodeId: nodeProps.falseLabelNodeId,
+      });
+    } else if (
+      variantType === SegmentSplitVariantType.Boolean &&
+      nodeProps.variantType === SegmentSplitVariantType.FirstMatch
+    ) {
+      const branch = nodeProps.branches[0];
+      if (!branch || nodeProps.branches.length > 1) {
+        return;
+      }
+      setSegmentSplitProps(nodeId, {
+        type: JourneyNodeType.SegmentSplitNode,
+        variantType: SegmentSplitVariantType.Boolean,
+        name: nodeProps.name,
+        segmentId: branch.segmentId,
+        trueLabelNodeId: branch.labelNodeId,
+        falseLabelNodeId: nodeProps.defaultLabelNodeId,
+      });
+    }
+  };
+
   if (!segmentsData) {
     return null;
   }
 
-  const segment =
-    segmentsData.segments.find((t) => t.id === nodeProps.segmentId) ?? null;
+  const isFirstMatch =
+    nodeProps.variantType === SegmentSplitVariantType.FirstMatch;
+
+  let segmentsEl: ReactNode;
+  if (nodeProps.variantType === SegmentSplitVariantType.FirstMatch) {
+    const { branches } = nodeProps;
+    const branchEls = branches.map((branch, i) => {
+      const segment =
+        segmentsData.segments.find((t) => t.id === branch.segmentId) ?? null;
+      return (
+        <Stack
+          key={branch.labelNodeId}
+          direction="row"
+          spacing={1}
+          alignItems="center"
+        >
+          <Autocomplete
+            value={segment}
+            options={segmentsData.segments}
+            getOptionLabel={getLabel}
+            onChange={(_event, s) =>
+              onBranchSegmentChangeHandler(branch.labelNodeId, s)
+            }
+            disabled={disabled}
+            sx={{ flex: 1 }}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label={segmentSplitBranchLabel(i)}
+                variant="outlined"
+              />
+            )}
+          />
+          <IconButton
+            disabled={Boolean(disabled) || branches.length <= 1}
+            onClick={() =>
+              setSegmentSplitProps(nodeId, {
+                ...nodeProps,
+                branches: branches.filter(
+                  (b) => b.labelNodeId !== branch.labelNodeId,
+                ),
+              })
+            }
+          >
+            <Delete />
+          </IconButton>
+        </Stack>
+      );
+    });
+    segmentsEl = (
+      <>
+        <SubtleHeader>Segments</SubtleHeader>
+        {branchEls}
+        <Button
+          variant="outlined"
+          disabled={disabled}
+          onClick={() =>
+            setSegmentSplitProps(nodeId, {
+              ...nodeProps,
+              branches: [...branches, { labelNodeId: uuid() }],
+            })
+          }
+        >
+          Add Segment
+        </Button>
+      </>
+    );
+  } else {
+    const segment =
+      segmentsData.segments.find((t) => t.id === nodeProps.segmentId) ?? null;
+    segmentsEl = (
+      <Autocomplete
+        value={segment}
+        options={segmentsData.segments}
+        getOptionLabel={getLabel}
+        onChange={onSegmentChangeHandler}
+        disabled={disabled}
+        renderInput={(params) => (
+          <TextField {...params} label="segment" variant="outlined" />
+        )}
+      />
+    );
+  }
 
   return (
-    <Autocomplete
-      value={segment}
-      options={segmentsData.segments}
-      getOptionLabel={getLabel}
-      onChange={onSegmentChangeHandler}
-      disabled={disabled}
-      renderInput={(params) => (
-        <TextField {...params} label="segment" variant="outlined" />
-      )}
-    />
+    <>
+      <FormControl>
+        <InputLabel id="segment-split-variant-select-label">
+          Split Type
+        </InputLabel>
+        <Select
+          labelId="segment-split-variant-select-label"
+          label="Split Type"
+          value={
+            isFirstMatch
+              ? SegmentSplitVariantType.FirstMatch
+              : SegmentSplitVariantType.Boolean
+          }
+          disabled={disabled}
+          onChange={(e) =>
+            onVariantTypeChangeHandler(
+              e.target.value as SegmentSplitVariantType,
+            )
+          }
+        >
+          <MenuItem
+            value={SegmentSplitVariantType.Boolean}
+            disabled={
+              nodeProps.variantType === SegmentSplitVariantType.FirstMatch &&
+              nodeProps.branches.length > 1
+            }
+          >
+            True / False
+          </MenuItem>
+          <MenuItem value={SegmentSplitVariantType.FirstMatch}>
+            First Matching Segment
+          </MenuItem>
+        </Select>
+      </FormControl>
+      {segmentsEl}
+    </>
   );
 }
 
@@ -1006,6 +1197,604 @@ function WaitForNodeFields({
   );
 }
 
+function RateLimitNodeFields({
+  nodeId,
+  nodeProps,
+  disabled,
+}: {
+  nodeId: string;
+  nodeProps: RateLimitUiNodeProps;
+  disabled?: boolean;
+}) {
+  const { updateJourneyNodeData, updateLabelNode } = useAppStorePick([
+    "updateJourneyNodeData",
+    "updateLabelNode",
+  ]);
+
+  const updateRateLimit = (
+    update: Partial<Omit<RateLimitUiNodeProps, "type">>,
+  ) => {
+    updateJourneyNodeData(nodeId, (node) => {
+      const props = node.data.nodeTypeProps;
+      if (props.type === JourneyNodeType.RateLimitNode) {
+        Object.assign(props, update);
+      }
+    });
+    updateLabelNode(
+      nodeProps.limitedLabelNodeId,
+      rateLimitExceededLabel({ ...nodeProps, ...update }),
+    );
+  };
+
+  const isWaiting =
+    nodeProps.exceededBehavior === RateLimitExceededBehavior.Wait;
+
+  return (
+    <>
+      <FormControl>
+        <InputLabel id="rate-limit-channel-select-label">Channel</InputLabel>
+        <Select
+          labelId="rate-limit-channel-select-label"
+          label="Channel"
+          value={nodeProps.channel}
+          disabled={disabled}
+          onChange={(e) =>
+            updateRateLimit({ channel: e.target.value as ChannelType })
+          }
+        >
+          <MenuItem value={ChannelType.Email}>Email</MenuItem>
+          <MenuItem value={ChannelType.Sms}>SMS</MenuItem>
+          <MenuItem value={ChannelType.Webhook}>Webhook</MenuItem>
+          <MenuItem value={ChannelType.MobilePush}>Mobile Push</MenuItem>
+        </Select>
+      </FormControl>
+      <TextField
+        label="Maximum Messages"
+        type="number"
+        value={nodeProps.limit}
+        disabled={disabled}
+        inputProps={{ min: 0 }}
+        onChange={(e) =>
+          updateRateLimit({
+            limit: Math.max(Math.floor(Number(e.target.value) || 0), 0),
+          })
+        }
+      />
+      <DurationSelect
+        inputLabel="Window"
+        description="Within a rolling window of"
+        value={nodeProps.windowSeconds}
+        onChange={(windowSeconds) => updateRateLimit({ windowSeconds })}
+        disabled={disabled}
+      />
+      <FormControl>
+        <InputLabel id="rate-limit-scope-select-label">
+          Count Messages
+        </InputLabel>
+        <Select
+          labelId="rate-limit-scope-select-label"
+          label="Count Messages"
+          value={nodeProps.scope}
+          disabled={disabled}
+          onChange={(e) =>
+            updateRateLimit({ scope: e.target.value as RateLimitScope })
+          }
+        >
+          <MenuItem value={RateLimitScope.Journey}>From This Journey</MenuItem>
+          <MenuItem value={RateLimitScope.Workspace}>
+            From Any Journey or Broadcast
+          </MenuItem>
+        </Select>
+      </FormControl>
+      <FormControl>
+        <InputLabel id="rate-limit-exceeded-select-label">
+          When Over Limit
+        </InputLabel>
+        <Select
+          labelId="rate-limit-exceeded-select-label"
+          label="When Over Limit"
+          value={nodeProps.exceededBehavior}
+          disabled={disabled}
+          onChange={(e) =>
+            updateRateLimit({
+              exceededBehavior: e.target.value as RateLimitExceededBehavior,
+            })
+          }
+        >
+          <MenuItem value={RateLimitExceededBehavior.Branch}>
+            Take Over Limit Branch
+          </MenuItem>
+          <MenuItem value={RateLimitExceededBehavior.Wait}>
+            Wait Until Within Limit
+          </MenuItem>
+        </Select>
+      </FormControl>
+      {isWaiting ? (
+        <FormControlLabel
+          control={
+            <Switch
+              checked={nodeProps.maxWaitSeconds !== undefined}
+              disabled={disabled}
+              onChange={(e) =>
+                updateRateLimit({
+                  // 1 week
+                  maxWaitSeconds: e.target.checked ? 604800 : undefined,
+                })
+              }
+            />
+          }
+          label="Limit Wait Time"
+        />
+      ) : null}
+      {isWaiting && nodeProps.maxWaitSeconds !== undefined ? (
+        <DurationSelect
+          inputLabel="Maximum Wait"
+          description="Takes the over limit branch after waiting"
+          value={nodeProps.maxWaitSeconds}
+          onChange={(maxWaitSeconds) => updateRateLimit({ maxWaitSeconds })}
+          disabled={disabled}
+        />
+      ) : null}
+    </>
+  );
+}
+
+function parseHttpStatus(value: string): number {
+  return Math.min(Math.max(Math.floor(Number(value) || 0), 100), 599);
+}
+
+function HttpRequestNodeFields({
+  nodeId,
+  nodeProps,
+  disabled,
+}: {
+  nodeId: string;
+  nodeProps: HttpRequestUiNodeProps;
+  disabled?: boolean;
+}) {
+  const { updateJourneyNodeData, setHttpRequestProps } = useAppStorePick([
+    "updateJourneyNodeData",
+    "setHttpRequestProps",
+  ]);
+  const { data: messageTemplates } = useMessageTemplatesQuery({
+    resourceType: "Declarative",
+  });
+
+  const updateHttpRequest = (
+    update: Partial<Omit<HttpRequestUiNodeProps, "type">>,
+  ) => {
+    updateJourneyNodeData(nodeId, (node) => {
+      const props = node.data.nodeTypeProps;
+      if (props.type === JourneyNodeType.HttpRequestNode) {
+        Object.assign(props, update);
+      }
+    });
+  };
+
+  const updateStatusBranches = (
+    statusBranches: HttpRequestUiNodeProps["statusBranches"],
+  ) => {
+    setHttpRequestProps(nodeId, { ...nodeProps, statusBranches });
+  };
+
+  const templates = messageTemplates
+    ? messageTemplates.filter((t) => t.type === ChannelType.Webhook)
+    : [];
+  const template = templates.find((t) => t.id === nodeProps.templateId) ?? null;
+
+  const traitsEls = nodeProps.traits.map((mapping, i) => (
+    // eslint-disable-next-line react/no-array-index-key
+    <Stack key={i} direction="row" spacing={1} alignItems="center">
+      <TextField
+        label="Response Path"
+        placeholder="$.data.plan"
+        value={mapping.path}
+        disabled={disabled}
+        sx={{ flex: 1 }}
+        onChange={(e) =>
+          updateHttpRequest({
+            traits: nodeProps.traits.map((m, j) =>
+              j === i ? { ...m, path: e.target.value } : m,
+            ),
+          })
+        }
+      />
+      <TextField
+        label="Trait"
+        value={mapping.trait}
+        disabled={disabled}
+        sx={{ flex: 1 }}
+        onChange={(e) =>
+          updateHttpRequest({
+            traits: nodeProps.traits.map((m, j) =>
+              j === i ? { ...m, trait: e.target.value } : m,
+            ),
+          })
+        }
+      />
+      <IconButton
+        disabled={disabled}
+        onClick={() =>
+          updateHttpRequest({
+            traits: nodeProps.traits.filter((_, j) => j !== i),
+          })
+        }
+      >
+        <Delete />
+      </IconButton>
+    </Stack>
+  ));
+
+  const statusBranchesEls = nodeProps.statusBranches.map((branch) => (
+    <Stack
+      key={branch.labelNodeId}
+      direction="row"
+      spacing={1}
+      alignItems="center"
+    >
+      <TextField
+        label="From Status"
+        type="number"
+        value={branch.minStatus}
+        disabled={disabled}
+        sx={{ flex: 1 }}
+        inputProps={{ min: 100, max: 599 }}
+        onChange={(e) =>
+          updateStatusBranches(
+            nodeProps.statusBranches.map((b) =>
+              b.labelNodeId === branch.labelNodeId
+                ? { ...b, minStatus: parseHttpStatus(e.target.value) }
+                : b,
+            ),
+          )
+        }
+      />
+      <TextField
+        label="To Status"
+        type="number"
+        value={branch.maxStatus}
+        disabled={disabled}
+        sx={{ flex: 1 }}
+        inputProps={{ min: 100, max: 599 }}
+        onChange={(e) =>
+          updateStatusBranches(
+            nodeProps.statusBranches.map((b) =>
+              b.labelNodeId === branch.labelNodeId
+                ? { ...b, maxStatus: parseHttpStatus(e.target.value) }
+                : b,
+            ),
+          )
+        }
+      />
+      <IconButton
+        disabled={disabled}
+        onClick={() =>
+          updateStatusBranches(
+            nodeProps.statusBranches.filter(
+              (b) => b.labelNodeId !== branch.labelNodeId,
+            ),
+          )
+        }
+      >
+        <Delete />
+      </IconButton>
+    </Stack>
+  ));
+
+  return (
+    <>
+      <TextField
+        label="Name"
+        value={nodeProps.name}
+        disabled={disabled}
+        onChange={(e) => updateHttpRequest({ name: e.target.value })}
+      />
+      <Autocomplete
+        value={template}
+        options={templates}
+        disabled={disabled}
+        getOptionLabel={getTemplateLabel}
+        onChange={(_event, t) => updateHttpRequest({ templateId: t?.id })}
+        renderInput={(params) => (
+          <TextField {...params} label="Webhook Template" variant="outlined" />
+        )}
+      />
+      <DurationSelect
+        inputLabel="Timeout"
+        description="Fails the request after"
+        value={nodeProps.timeoutSeconds}
+        onChange={(timeoutSeconds) => updateHttpRequest({ timeoutSeconds })}
+        disabled={disabled}
+      />
+      <FormControlLabel
+        control={
+          <Switch
+            checked={nodeProps.retry !== undefined}
+            disabled={disabled}
+            onChange={(e) =>
+              updateHttpRequest({
+                retry: e.target.checked ? { maxAttempts: 3 } : undefined,
+              })
+            }
+          />
+        }
+        label="Retry Failed Requests"
+      />
+      {nodeProps.retry ? (
+        <TextField
+          label="Maximum Attempts"
+          type="number"
+          value={nodeProps.retry.maxAttempts}
+          disabled={disabled}
+          inputProps={{ min: 1 }}
+          onChange={(e) =>
+            updateHttpRequest({
+              retry: {
+                ...nodeProps.retry,
+                maxAttempts: Math.max(
+                  Math.floor(Number(e.target.value) || 0),
+                  1,
+                ),
+              },
+            })
+          }
+        />
+      ) : null}
+      <Stack direction="row" spacing={1} alignItems="center">
+        <SubtleHeader>Response Traits</SubtleHeader>
+        <InfoTooltip title="Values at these JSON paths in a successful response body are written to the user's traits." />
+      </Stack>
+      {traitsEls}
+      <Button
+        variant="outlined"
+        disabled={disabled}
+        onClick={() =>
+          updateHttpRequest({
+            traits: [...nodeProps.traits, { path: "", trait: "" }],
+          })
+        }
+      >
+        Add Trait
+      </Button>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <SubtleHeader>Status Branches</SubtleHeader>
+        <InfoTooltip title="Users take the first branch whose range contains the response status, and the default branch otherwise, or if the request fails." />
+      </Stack>
+      {statusBranchesEls}
+      <Button
+        variant="outlined"
+        disabled={disabled}
+        onClick={() =>
+          updateStatusBranches([
+            ...nodeProps.statusBranches,
+            {
+              minStatus: 400,
+              maxStatus: 499,
+              labelNodeId: uuid(),
+            },
+          ])
+        }
+      >
+        Add Status Branch
+      </Button>
+    </>
+  );
+}
+
+function nextExperimentArmName(arms: ExperimentSplitUiArm[]): string {
+  const names = new Set(arms.map((arm) => arm.name));
+  for (let i = 0; i < 26; i++) {
+    const name = String.fromCharCode(65 + i);
+    if (!names.has(name)) {
+      return name;
+    }
+  }
+  return `Arm ${arms.length + 1}`;
+}
+
+function ExperimentArmStatsDescription({
+  stats,
+}: {
+  stats?: ExperimentArmStats;
+}) {
+  if (!stats) {
+    return null;
+  }
+  const conversion =
+    stats.conversionRate !== undefined
+      ? `, ${stats.conversionRate}% converted`
+      : "";
+  return (
+    <Typography variant="caption" color="text.secondary">
+      {stats.users} users ({stats.proportion}%){conversion}
+    </Typography>
+  );
+}
+
+function ExperimentSplitNodeFields({
+  nodeId,
+  nodeProps,
+  disabled,
+}: {
+  nodeId: string;
+  nodeProps: ExperimentSplitUiNodeProps;
+  disabled?: boolean;
+}) {
+  const path = useRouter();
+  const { updateJourneyNodeData, setExperimentSplitArms, journeyStats } =
+    useAppStorePick([
+      "updateJourneyNodeData",
+      "setExperimentSplitArms",
+      "journeyStats",
+    ]);
+  const { arms, holdout } = nodeProps;
+
+  const armStats = useMemo(() => {
+    const { id: journeyId } = path.query;
+    if (!journeyId || typeof journeyId !== "string") {
+      return null;
+    }
+    const stats = journeyStats[journeyId]?.nodeStats[nodeId];
+    return stats?.type === NodeStatsType.ExperimentSplitNodeStats
+      ? stats.arms
+      : null;
+  }, [journeyStats, nodeId, path.query]);
+
+  // an experiment needs at least two branches to compare
+  const canRemoveBranch = arms.length + (holdout ? 1 : 0) > 2;
+
+  const updateArm = (armId: string, update: Partial<ExperimentSplitUiArm>) => {
+    setExperimentSplitArms(nodeId, {
+      arms: arms.map((arm) => (arm.id === armId ? { ...arm, ...update } : arm)),
+      holdout,
+    });
+  };
+
+  const armsEls = arms.map((arm) => (
+    <Stack key={arm.id} direction="column" spacing={0.5}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          label="Arm Name"
+          value={arm.name}
+          disabled={disabled}
+          sx={{ flex: 2 }}
+          onChange={(e) => updateArm(arm.id, { name: e.target.value })}
+        />
+        <TextField
+          label="Weight"
+          type="number"
+          value={arm.weight}
+          disabled={disabled}
+          sx={{ flex: 1 }}
+          inputProps={{ min: 0 }}
+          onChange={(e) =>
+            updateArm(arm.id, {
+              weight: Math.max(Number(e.target.value) || 0, 0),
+            })
+          }
+        />
+        <IconButton
+          disabled={Boolean(disabled) || !canRemoveBranch}
+          onClick={() =>
+            setExperimentSplitArms(nodeId, {
+              arms: arms.filter((a) => a.id !== arm.id),
+              holdout,
+            })
+          }
+        >
+          <Delete />
+        </IconButton>
+      </Stack>
+      <ExperimentArmStatsDescription stats={armStats?.[arm.id]} />
+    </Stack>
+  ));
+
+  return (
+    <>
+      <TextField
+        label="Name"
+        value={nodeProps.name}
+        disabled={disabled}
+        onChange={(e) => {
+          updateJourneyNodeData(nodeId, (node) => {
+            const props = node.data.nodeTypeProps;
+            if (props.type === JourneyNodeType.ExperimentSplitNode) {
+              props.name = e.target.value;
+            }
+          });
+        }}
+      />
+      <SubtleHeader>Arms</SubtleHeader>
+      {armsEls}
+      <Button
+        variant="outlined"
+        disabled={disabled}
+        onClick={() =>
+          setExperimentSplitArms(nodeId, {
+            arms: [
+              ...arms,
+              {
+                id: uuid(),
+                name: nextExperimentArmName(arms),
+                weight: 1,
+                labelNodeId: uuid(),
+              },
+            ],
+            holdout,
+          })
+        }
+      >
+        Add Arm
+      </Button>
+      <Stack direction="column" spacing={0.5}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <FormControlLabel
+            sx={{ flex: 2 }}
+            control={
+              <Switch
+                checked={Boolean(holdout)}
+                disabled={disabled || (Boolean(holdout) && !canRemoveBranch)}
+                onChange={(e) =>
+                  setExperimentSplitArms(nodeId, {
+                    arms,
+                    holdout: e.target.checked
+                      ? { weight: 1, labelNodeId: uuid() }
+                      : undefined,
+                  })
+                }
+              />
+            }
+            label={
+              <InfoTooltip title="Users in the holdout skip the experiment's arms, and can be used as a control group.">
+                <span>{EXPERIMENT_HOLDOUT_ARM_NAME}</span>
+              </InfoTooltip>
+            }
+          />
+          {holdout ? (
+            <TextField
+              label="Weight"
+              type="number"
+              value={holdout.weight}
+              disabled={disabled}
+              sx={{ flex: 1 }}
+              inputProps={{ min: 0 }}
+              onChange={(e) =>
+                setExperimentSplitArms(nodeId, {
+                  arms,
+                  holdout: {
+                    ...holdout,
+                    weight: Math.max(Number(e.target.value) || 0, 0),
+                  },
+                })
+              }
+            />
+          ) : null}
+        </Stack>
+        {holdout ? (
+          <ExperimentArmStatsDescription
+            stats={armStats?.[EXPERIMENT_HOLDOUT_ARM_ID]}
+          />
+        ) : null}
+      </Stack>
+      <EventNamesAutocomplete
+        event={nodeProps.conversionEvent ?? ""}
+        disabled={disabled}
+        label="Conversion Event"
+        onEventChange={(newEventName) => {
+          updateJourneyNodeData(nodeId, (node) => {
+            const props = node.data.nodeTypeProps;
+            if (props.type === JourneyNodeType.ExperimentSplitNode) {
+              props.conversionEvent = newEventName.length
+                ? newEventName
+                : undefined;
+            }
+          });
+        }}
+      />
+    </>
+  );
+}
+
 function NodeLayout({
   deleteButton,
   children,
@@ -1130,6 +1919,36 @@ function NodeFields({
           />
         </NodeLayout>
       );
+    case JourneyNodeType.ExperimentSplitNode:
+      return (
+        <NodeLayout deleteButton nodeId={node.id}>
+          <ExperimentSplitNodeFields
+            nodeId={node.id}
+            nodeProps={nodeProps}
+            disabled={disabled}
+          />
+        </NodeLayout>
+      );
+    case JourneyNodeType.RateLimitNode:
+      return (
+        <NodeLayout deleteButton nodeId={node.id}>
+          <RateLimitNodeFields
+            nodeId={node.id}
+            nodeProps={nodeProps}
+            disabled={disabled}
+          />
+        </NodeLayout>
+      );
+    case JourneyNodeType.HttpRequestNode:
+      return (
+        <NodeLayout deleteButton nodeId={node.id}>
+          <HttpRequestNodeFields
+            nodeId={node.id}
+            nodeProps={nodeProps}
+            disabled={disabled}
+          />
+        </NodeLayout>
+      );
   }
 }
 
@@ -6,6 +6,8 @@ import {
   DelayVariantType,
   JourneyNodeType,
   JourneyUiBodyNodeTypeProps,
+  RateLimitExceededBehavior,
+  RateLimitScope,
   SavedSubscriptionGroupResource,
 } from "isomorphic-lib/src/types";
 import { v4 as uuid } from "uuid";
@@ -18,6 +20,10 @@ import {
 
 export const defaultSegmentSplitName = "True / False Branch";
 
+export const defaultExperimentSplitName = "A/B Test";
+
+export const defaultHttpRequestName = "HTTP Request";
+
 export interface DefaultNodeTypeProps {
   type: JourneyUiNodeTypeProps["type"];
   nodes: Node<JourneyNodeUiProps>[];
@@ -72,6 +78,53 @@ export function defaultBodyNodeTypeProps({
           },
         ],
       };
+    case JourneyNodeType.ExperimentSplitNode:
+      return {
+        type,
+        name: defaultExperimentSplitName,
+        arms: [
+          {
+            id: uuid(),
+            name: "A",
+            weight: 1,
+            labelNodeId: uuid(),
+          },
+          {
+            id: uuid(),
+            name: "B",
+            weight: 1,
+            labelNodeId: uuid(),
+          },
+        ],
+      };
+    case JourneyNodeType.RateLimitNode:
+      return {
+        type,
+        channel: ChannelType.Email,
+        limit: 1,
+        // 1 day
+        windowSeconds: 86400,
+        scope: RateLimitScope.Workspace,
+        exceededBehavior: RateLimitExceededBehavior.Branch,
+        withinLimitLabelNodeId: uuid(),
+        limitedLabelNodeId: uuid(),
+      };
+    case JourneyNodeType.HttpRequestNode:
+      return {
+        type,
+        name: defaultHttpRequestName,
+        // 10 seconds
+        timeoutSeconds: 10,
+        traits: [],
+        statusBranches: [
+          {
+            minStatus: 200,
+            maxStatus: 299,
+            labelNodeId: uuid(),
+          },
+        ],
+        defaultLabelNodeId: uuid(),
+      };
     case AdditionalJourneyNodeType.EntryUiNode:
       throw new Error(
         "EntryUiNode should not be handled by defaultBodyNodeTypeProps",
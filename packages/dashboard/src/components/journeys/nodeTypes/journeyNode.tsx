@@ -4,7 +4,10 @@ import {
   BoltOutlined,
   CallSplitOutlined,
   ExitToAppOutlined,
+  HttpOutlined,
   MailOutlineOutlined,
+  ScienceOutlined,
+  SpeedOutlined,
 } from "@mui/icons-material";
 import {
   Box,
@@ -15,6 +18,10 @@ import {
 } from "@mui/material";
 import { Handle, NodeProps, Position } from "@xyflow/react";
 import { format } from "date-fns";
+import {
+  emailProviderLabel,
+  isEmailProviderType,
+} from "isomorphic-lib/src/email";
 import { round } from "isomorphic-lib/src/numbers";
 import { isStringPresent } from "isomorphic-lib/src/strings";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
@@ -25,6 +32,7 @@ import {
   MessageTemplateResource,
   NodeStatsType,
   SavedSegmentResource,
+  SegmentSplitVariantType,
 } from "isomorphic-lib/src/types";
 import { useRouter } from "next/router";
 import { useCallback, useMemo } from "react";
@@ -109,11 +117,32 @@ export function isNodeComplete(
       }
       break;
     case JourneyNodeType.SegmentSplitNode:
+      if (props.variantType === SegmentSplitVariantType.FirstMatch) {
+        return (
+          props.branches.length > 0 &&
+          props.branches.every((branch) => Boolean(branch.segmentId))
+        );
+      }
       return Boolean(props.segmentId);
     case JourneyNodeType.WaitForNode: {
       const segmentChild = props.segmentChildren[0];
       return segmentChild !== undefined && Boolean(segmentChild.segmentId);
     }
+    case JourneyNodeType.ExperimentSplitNode:
+      return (
+        props.arms.every((arm) => isStringPresent(arm.name)) &&
+        props.arms.some((arm) => arm.weight > 0)
+      );
+    case JourneyNodeType.RateLimitNode:
+      return props.windowSeconds > 0 && props.limit >= 0;
+    case JourneyNodeType.HttpRequestNode:
+      return (
+        Boolean(props.templateId) &&
+        props.statusBranches.every(
+          (branch) => branch.minStatus <= branch.maxStatus,
+        ) &&
+        props.traits.every((mapping) => mapping.path && mapping.trait)
+      );
   }
 }
 
@@ -188,6 +217,12 @@ export function journeyNodeIcon(
       return ExitToAppOutlined;
     case JourneyNodeType.WaitForNode:
       return BackHandOutlined;
+    case JourneyNodeType.ExperimentSplitNode:
+      return ScienceOutlined;
+    case JourneyNodeType.RateLimitNode:
+      return SpeedOutlined;
+    case JourneyNodeType.HttpRequestNode:
+      return HttpOutlined;
   }
 }
 
@@ -244,7 +279,12 @@ function journNodeTypeToConfig(
       break;
     }
     case JourneyNodeType.SegmentSplitNode: {
-      const body = <SegmentDescriptionBody segmentId={props.segmentId} />;
+      const body =
+        props.variantType === SegmentSplitVariantType.FirstMatch ? (
+          <>Routes users to the branch of the first segment they are in.</>
+        ) : (
+          <SegmentDescriptionBody segmentId={props.segmentId} />
+        );
       return {
         sidebarColor: "#12F7BE",
         icon: journeyNodeIcon(JourneyNodeType.SegmentSplitNode),
@@ -285,6 +325,56 @@ function journNodeTypeToConfig(
         body,
       };
     }
+    case JourneyNodeType.ExperimentSplitNode: {
+      const armCount = props.arms.length;
+      const body = (
+        <>
+          Splits users between {armCount} {armCount === 1 ? "arm" : "arms"}
+          {props.holdout ? " and a holdout" : ""}.
+        </>
+      );
+      return {
+        sidebarColor: "#A35CF7",
+        icon: journeyNodeIcon(JourneyNodeType.ExperimentSplitNode),
+        title: props.name.length
+          ? props.name
+          : journeyNodeLabel(JourneyNodeType.ExperimentSplitNode),
+        body,
+      };
+    }
+    case JourneyNodeType.RateLimitNode: {
+      const body = (
+        <>
+          At most {props.limit} {props.channel}{" "}
+          {props.limit === 1 ? "message" : "messages"} per{" "}
+          <DurationDescription durationSeconds={props.windowSeconds} />
+        </>
+      );
+      return {
+        sidebarColor: "#F7C520",
+        icon: journeyNodeIcon(JourneyNodeType.RateLimitNode),
+        title: journeyNodeLabel(JourneyNodeType.RateLimitNode),
+        body,
+      };
+    }
+    case JourneyNodeType.HttpRequestNode: {
+      const traitCount = props.traits.length;
+      const body =
+        traitCount > 0 ? (
+          <>
+            Writes {traitCount} {traitCount === 1 ? "trait" : "traits"} from the
+            response.
+          </>
+        ) : null;
+      return {
+        sidebarColor: "#5C7CF7",
+        icon: journeyNodeIcon(JourneyNodeType.HttpRequestNode),
+        title: props.name.length
+          ? props.name
+          : journeyNodeLabel(JourneyNodeType.HttpRequestNode),
+        body,
+      };
+    }
   }
 }
 
@@ -381,7 +471,12 @@ export function JourneyNode({ id, data }: NodeProps<JourneyUiNodeDefinition>) {
       stats?.type === NodeStatsType.MessageNodeStats &&
       stats.sendRate &&
       stats.channelStats
-      ? { ...stats.channelStats, sendRate: stats.sendRate }
+      ? {
+          ...stats.channelStats,
+          sendRate: stats.sendRate,
+          quietHours: stats.quietHours,
+          conversions: stats.conversions,
+        }
       : null;
   }, [id, isSelected, journeyId, journeyStats]);
 
@@ -522,6 +617,57 @@ export function JourneyNode({ id, data }: NodeProps<JourneyUiNodeDefinition>) {
           </>
         ) : null}
       </Stack>
+      {channelStats?.type === ChannelType.Email &&
+      channelStats.providers &&
+      channelStats.providers.length > 1 ? (
+        <Typography
+          variant="caption"
+          sx={{
+            paddingLeft: 1,
+            paddingRight: 1,
+            fontFamily: "monospace",
+          }}
+        >
+          {channelStats.providers
+            .map(
+              (p) =>
+                `${isEmailProviderType(p.provider) ? emailProviderLabel(p.provider) : p.provider}: ${p.sent} sent (${round(p.deliveryRate * 100, 2)}% delivered)`,
+            )
+            .join(", ")}
+        </Typography>
+      ) : null}
+      {channelStats?.quietHours ? (
+        <Typography
+          variant="caption"
+          sx={{
+            paddingLeft: 1,
+            paddingRight: 1,
+            fontFamily: "monospace",
+          }}
+        >
+          Quiet hours: {channelStats.quietHours.held} held
+          {channelStats.quietHours.averageHeldSeconds !== undefined
+            ? ` (avg ${round(channelStats.quietHours.averageHeldSeconds / 60, 1)} min)`
+            : ""}
+          , {channelStats.quietHours.dropped} dropped
+        </Typography>
+      ) : null}
+      {channelStats?.conversions ? (
+        <Typography
+          variant="caption"
+          sx={{
+            paddingLeft: 1,
+            paddingRight: 1,
+            fontFamily: "monospace",
+          }}
+        >
+          Conversions: {channelStats.conversions.converted} (
+          {channelStats.conversions.conversionRate}%)
+          {channelStats.conversions.averageTimeToConvertSeconds !== undefined
+            ? `, avg ${round(channelStats.conversions.averageTimeToConvertSeconds / 60, 1)} min to convert`
+            : ""}
+        </Typography>
+      ) : null}
     </Stack>
   );
 
@@ -0,0 +1,255 @@
+import { Delete } from "@mui/icons-material";
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  ChannelType,
+  QuietHoursBehavior,
+  QuietHoursPolicy,
+  QuietHoursWindow,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "../../lib/appStore";
+
+const CHANNEL_LABELS: Record<ChannelType, string> = {
+  [ChannelType.Email]: "Email",
+  [ChannelType.Sms]: "SMS",
+  [ChannelType.Webhook]: "Webhook",
+  [ChannelType.MobilePush]: "Mobile Push",
+};
+
+const ALL_CHANNELS = "All";
+
+function defaultQuietHoursWindow(): QuietHoursWindow {
+  return {
+    startHour: 21,
+    endHour: 8,
+  };
+}
+
+function formatTime(hour: number, minute?: number): string {
+  return `${String(hour).padStart(2, "0")}:${String(minute ?? 0).padStart(2, "0")}`;
+}
+
+function parseTime(value: string): { hour: number; minute: number } | null {
+  const [hour, minute] = value.split(":").map(Number);
+  if (
+    hour === undefined ||
+    minute === undefined ||
+    Number.isNaN(hour) ||
+    Number.isNaN(minute)
+  ) {
+    return null;
+  }
+  return { hour, minute };
+}
+
+function QuietHoursWindowFields({
+  window,
+  disabled,
+  onChange,
+  onDelete,
+}: {
+  window: QuietHoursWindow;
+  disabled?: boolean;
+  onChange: (window: QuietHoursWindow) => void;
+  onDelete: () => void;
+}) {
+  const channels: string[] = window.channels ?? [ALL_CHANNELS];
+  return (
+    <Stack direction="row" spacing={1} alignItems="center">
+      <FormControl sx={{ minWidth: 180 }}>
+        <InputLabel id="quiet-hours-channels-select-label">Channels</InputLabel>
+        <Select
+          labelId="quiet-hours-channels-select-label"
+          label="Channels"
+          multiple
+          value={channels}
+          disabled={disabled}
+          renderValue={(selected) =>
+            selected
+              .map((c) =>
+                c === ALL_CHANNELS ? "All" : CHANNEL_LABELS[c as ChannelType],
+              )
+              .join(", ")
+          }
+          onChange={(e) => {
+            const { value } = e.target;
+            const selected = typeof value === "string" ? [value] : value;
+            // selecting "All" clears the individually selected channels
+            if (
+              selected.length === 0 ||
+              (selected.includes(ALL_CHANNELS) &&
+                !channels.includes(ALL_CHANNELS))
+            ) {
+              onChange({ ...window, channels: undefined });
+              return;
+            }
+            onChange({
+              ...window,
+              channels: selected.filter(
+                (c): c is ChannelType => c !== ALL_CHANNELS,
+              ),
+            });
+          }}
+        >
+          <MenuItem value={ALL_CHANNELS}>All</MenuItem>
+          {Object.values(ChannelType).map((channel) => (
+            <MenuItem key={channel} value={channel}>
+              {CHANNEL_LABELS[channel]}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <TextField
+        label="From"
+        type="time"
+        value={formatTime(window.startHour, window.startMinute)}
+        disabled={disabled}
+        InputLabelProps={{ shrink: true }}
+        onChange={(e) => {
+          const time = parseTime(e.target.value);
+          if (time) {
+            onChange({
+              ...window,
+              startHour: time.hour,
+              startMinute: time.minute,
+            });
+          }
+        }}
+      />
+      <TextField
+        label="Until"
+        type="time"
+        value={formatTime(window.endHour, window.endMinute)}
+        disabled={disabled}
+        InputLabelProps={{ shrink: true }}
+        onChange={(e) => {
+          const time = parseTime(e.target.value);
+          if (time) {
+            onChange({
+              ...window,
+              endHour: time.hour,
+              endMinute: time.minute,
+            });
+          }
+        }}
+      />
+      <IconButton disabled={disabled} onClick={onDelete}>
+        <Delete />
+      </IconButton>
+    </Stack>
+  );
+}
+
+export default function QuietHoursEditor({ disabled }: { disabled?: boolean }) {
+  const { journeyQuietHours, setJourneyQuietHours } = useAppStorePick([
+    "journeyQuietHours",
+    "setJourneyQuietHours",
+  ]);
+
+  const updateQuietHours = (update: Partial<QuietHoursPolicy>) => {
+    if (!journeyQuietHours) {
+      return;
+    }
+    setJourneyQuietHours({ ...journeyQuietHours, ...update });
+  };
+
+  return (
+    <Stack spacing={2}>
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={journeyQuietHours !== null}
+            disabled={disabled}
+            onChange={(e) =>
+              setJourneyQuietHours(
+                e.target.checked
+                  ? {
+                      windows: [defaultQuietHoursWindow()],
+                      behavior: QuietHoursBehavior.Hold,
+                    }
+                  : null,
+              )
+            }
+          />
+        }
+        label="Enforce quiet hours for this journey's messages"
+      />
+      <Typography variant="caption">
+        Quiet hours are evaluated in each user&apos;s local timezone, as
+        determined by their latLon user property. When enabled, they take
+        precedence over the workspace&apos;s quiet hours.
+      </Typography>
+      {journeyQuietHours && (
+        <>
+          <FormControl>
+            <InputLabel id="quiet-hours-behavior-select-label">
+              During Quiet Hours
+            </InputLabel>
+            <Select
+              labelId="quiet-hours-behavior-select-label"
+              label="During Quiet Hours"
+              value={journeyQuietHours.behavior}
+              disabled={disabled}
+              onChange={(e) =>
+                updateQuietHours({
+                  behavior: e.target.value as QuietHoursBehavior,
+                })
+              }
+            >
+              <MenuItem value={QuietHoursBehavior.Hold}>
+                Hold messages until quiet hours end
+              </MenuItem>
+              <MenuItem value={QuietHoursBehavior.Drop}>Drop messages</MenuItem>
+            </Select>
+          </FormControl>
+          {journeyQuietHours.windows.map((window, i) => (
+            <QuietHoursWindowFields
+              // eslint-disable-next-line react/no-array-index-key
+              key={i}
+              window={window}
+              disabled={disabled}
+              onChange={(updated) =>
+                updateQuietHours({
+                  windows: journeyQuietHours.windows.map((w, j) =>
+                    j === i ? updated : w,
+                  ),
+                })
+              }
+              onDelete={() =>
+                updateQuietHours({
+                  windows: journeyQuietHours.windows.filter((_, j) => j !== i),
+                })
+              }
+            />
+          ))}
+          <Button
+            variant="outlined"
+            disabled={disabled}
+            onClick={() =>
+              updateQuietHours({
+                windows: [
+                  ...journeyQuietHours.windows,
+                  defaultQuietHoursWindow(),
+                ],
+              })
+            }
+          >
+            Add Quiet Hours
+          </Button>
+        </>
+      )}
+    </Stack>
+  );
+}
@@ -17,6 +17,9 @@ const SIDEBAR_NODE_TYPES: JourneyUiBodyNodeTypeProps["type"][] = [
   JourneyNodeType.SegmentSplitNode,
   JourneyNodeType.MessageNode,
   JourneyNodeType.WaitForNode,
+  JourneyNodeType.ExperimentSplitNode,
+  JourneyNodeType.RateLimitNode,
+  JourneyNodeType.HttpRequestNode,
 ];
 
 function Sidebar() {
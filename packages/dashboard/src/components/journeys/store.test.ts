@@ -4,9 +4,18 @@ import {
   ChannelType,
   CompletionStatus,
   DelayVariantType,
+  HttpRequestNode,
   JourneyDefinition,
+  JourneyGoal,
+  JourneyGoalType,
   JourneyNodeType,
   JourneyResource,
+  QuietHoursBehavior,
+  QuietHoursPolicy,
+  RateLimitExceededBehavior,
+  RateLimitNode,
+  RateLimitScope,
+  SegmentSplitNode,
   SegmentSplitVariantType,
 } from "isomorphic-lib/src/types";
 import { Overwrite } from "utility-types";
@@ -23,6 +32,8 @@ import {
   findDirectUiChildren,
   findDirectUiParents,
   journeyDefinitionFromState,
+  journeyDraftToState,
+  journeyStateToDraft,
   journeyToState,
 } from "./store";
 
@@ -35,6 +46,8 @@ const EXAMPLE_JOURNEY_STATE: JourneyState = {
     type: CompletionStatus.NotStarted,
   },
   journeyStats: {},
+  journeyQuietHours: null,
+  journeyGoal: null,
   journeyNodes: [
     {
       id: AdditionalJourneyNodeType.EntryUiNode,
@@ -654,6 +667,599 @@ describe("journeyToState", () => {
       });
     });
   });
+  describe("when journey has an experiment split with a holdout", () => {
+    beforeEach(async () => {
+      const definition: JourneyDefinition = {
+        entryNode: {
+          type: JourneyNodeType.SegmentEntryNode,
+          segment: uuid(),
+          child: "experiment",
+        },
+        exitNode: {
+          type: JourneyNodeType.ExitNode,
+        },
+        nodes: [
+          {
+            id: "experiment",
+            type: JourneyNodeType.ExperimentSplitNode,
+            name: "Welcome Experiment",
+            conversionEvent: "Purchased",
+            arms: [
+              {
+                id: "arm-a",
+                name: "A",
+                weight: 2,
+                child: "message-a",
+              },
+              {
+                id: "arm-b",
+                name: "B",
+                weight: 1,
+                child: "message-b",
+              },
+            ],
+            holdout: {
+              weight: 1,
+              child: "delay",
+            },
+          },
+          {
+            id: "message-a",
+            type: JourneyNodeType.MessageNode,
+            name: "Message A",
+            child: "delay",
+            variant: {
+              type: ChannelType.Email,
+              templateId: uuid(),
+            },
+          },
+          {
+            id: "message-b",
+            type: JourneyNodeType.MessageNode,
+            name: "Message B",
+            child: "delay",
+            variant: {
+              type: ChannelType.Email,
+              templateId: uuid(),
+            },
+          },
+          {
+            id: "delay",
+            type: JourneyNodeType.DelayNode,
+            child: JourneyNodeType.ExitNode,
+            variant: {
+              type: DelayVariantType.Second,
+              seconds: 1800,
+            },
+          },
+        ],
+      };
+
+      journeyId = uuid();
+      workspaceId = uuid();
+      journeyResource = {
+        id: journeyId,
+        name: "My Journey",
+        status: "NotStarted",
+        definition,
+        workspaceId,
+        updatedAt: Number(new Date()),
+      };
+      uiState = journeyToState(journeyResource);
+
+      definitionFromState = unwrap(
+        await journeyDefinitionFromState({ state: uiState }),
+      );
+    });
+
+    const uiExpectations: [string, string[]][] = [
+      [
+        "experiment",
+        ["experiment-child-0", "experiment-child-1", "experiment-child-2"],
+      ],
+      ["experiment-child-0", ["message-a"]],
+      ["experiment-child-1", ["message-b"]],
+      ["experiment-child-2", ["experiment-empty"]],
+      ["message-a", ["experiment-empty"]],
+      ["message-b", ["experiment-empty"]],
+      ["experiment-empty", ["delay"]],
+    ];
+
+    test.each(uiExpectations)(
+      "node %p has %p as children in ui state",
+      (nodeId, expectedChildren) => {
+        const actualChildren = findDirectUiChildren(
+          nodeId,
+          uiState.journeyEdges,
+        );
+        expect(new Set(actualChildren)).toEqual(new Set(expectedChildren));
+      },
+    );
+
+    it("labels arms with their share of users", () => {
+      const titles = uiState.journeyNodes.flatMap((n) =>
+        n.data.type === JourneyUiNodeType.JourneyUiNodeLabelProps
+          ? [n.data.title]
+          : [],
+      );
+      expect(titles).toEqual(
+        expect.arrayContaining(["A (50%)", "B (25%)", "Holdout (25%)"]),
+      );
+    });
+
+    it("produces an equivalent definition from state", () => {
+      expect(definitionFromState.nodes).toEqual(
+        expect.arrayContaining([
+          {
+            id: "experiment",
+            type: JourneyNodeType.ExperimentSplitNode,
+            name: "Welcome Experiment",
+            conversionEvent: "Purchased",
+            arms: [
+              {
+                id: "arm-a",
+                name: "A",
+                weight: 2,
+                child: "message-a",
+              },
+              {
+                id: "arm-b",
+                name: "B",
+                weight: 1,
+                child: "message-b",
+              },
+            ],
+            holdout: {
+              weight: 1,
+              child: "delay",
+            },
+          },
+        ]),
+      );
+      expect(definitionFromState.nodes).toHaveLength(4);
+    });
+  });
+  describe("when journey has a first match segment split", () => {
+    let segmentSplitNode: SegmentSplitNode;
+
+    beforeEach(async () => {
+      segmentSplitNode = {
+        id: "split",
+        type: JourneyNodeType.SegmentSplitNode,
+        name: "Tier Split",
+        variant: {
+          type: SegmentSplitVariantType.FirstMatch,
+          branches: [
+            {
+              segmentId: uuid(),
+              child: "message-gold",
+            },
+            {
+              segmentId: uuid(),
+              child: "message-silver",
+            },
+            {
+              segmentId: uuid(),
+              child: "delay",
+            },
+          ],
+          defaultChild: JourneyNodeType.ExitNode,
+        },
+      };
+      const definition: JourneyDefinition = {
+        entryNode: {
+          type: JourneyNodeType.SegmentEntryNode,
+          segment: uuid(),
+          child: "split",
+        },
+        exitNode: {
+          type: JourneyNodeType.ExitNode,
+        },
+        nodes: [
+          segmentSplitNode,
+          {
+            id: "message-gold",
+            type: JourneyNodeType.MessageNode,
+            name: "Gold Message",
+            child: JourneyNodeType.ExitNode,
+            variant: {
+              type: ChannelType.Email,
+              templateId: uuid(),
+            },
+          },
+          {
+            id: "message-silver",
+            type: JourneyNodeType.MessageNode,
+            name: "Silver Message",
+            child: JourneyNodeType.ExitNode,
+            variant: {
+              type: ChannelType.Email,
+              templateId: uuid(),
+            },
+          },
+          {
+            id: "delay",
+            type: JourneyNodeType.DelayNode,
+            child: JourneyNodeType.ExitNode,
+            variant: {
+              type: DelayVariantType.Second,
+              seconds: 1800,
+            },
+          },
+        ],
+      };
+
+      journeyId = uuid();
+      workspaceId = uuid();
+      journeyResource = {
+        id: journeyId,
+        name: "My Journey",
+        status: "NotStarted",
+        definition,
+        workspaceId,
+        updatedAt: Number(new Date()),
+      };
+      uiState = journeyToState(journeyResource);
+
+      definitionFromState = unwrap(
+        await journeyDefinitionFromState({ state: uiState }),
+      );
+    });
+
+    const uiExpectations: [string, string[]][] = [
+      [
+        "split",
+        ["split-child-0", "split-child-1", "split-child-2", "split-child-3"],
+      ],
+      ["split-child-0", ["message-gold"]],
+      ["split-child-1", ["message-silver"]],
+      ["split-child-2", ["delay"]],
+      ["split-child-3", ["split-empty"]],
+      ["message-gold", ["split-empty"]],
+      ["message-silver", ["split-empty"]],
+      ["delay", ["split-empty"]],
+      ["split-empty", [JourneyNodeType.ExitNode]],
+    ];
+
+    test.each(uiExpectations)(
+      "node %p has %p as children in ui state",
+      (nodeId, expectedChildren) => {
+        const actualChildren = findDirectUiChildren(
+          nodeId,
+          uiState.journeyEdges,
+        );
+        expect(new Set(actualChildren)).toEqual(new Set(expectedChildren));
+      },
+    );
+
+    it("produces an equivalent definition from state", () => {
+      expect(definitionFromState.nodes).toEqual(
+        expect.arrayContaining([segmentSplitNode]),
+      );
+      expect(definitionFromState.nodes).toHaveLength(4);
+    });
+  });
+  describe("when journey has a rate limit node", () => {
+    let rateLimitNode: RateLimitNode;
+
+    beforeEach(async () => {
+      rateLimitNode = {
+        id: "rate-limit",
+        type: JourneyNodeType.RateLimitNode,
+        channel: ChannelType.Email,
+        limit: 2,
+        windowSeconds: 86400,
+        scope: RateLimitScope.Workspace,
+        exceededBehavior: RateLimitExceededBehavior.Wait,
+        maxWaitSeconds: 3600,
+        child: "message",
+        limitedChild: JourneyNodeType.ExitNode,
+      };
+      const definition: JourneyDefinition = {
+        entryNode: {
+          type: JourneyNodeType.SegmentEntryNode,
+          segment: uuid(),
+          child: "rate-limit",
+        },
+        exitNode: {
+          type: JourneyNodeType.ExitNode,
+        },
+        nodes: [
+          rateLimitNode,
+          {
+            id: "message",
+            type: JourneyNodeType.MessageNode,
+            name: "Message",
+            child: JourneyNodeType.ExitNode,
+            variant: {
+              type: ChannelType.Email,
+              templateId: uuid(),
+            },
+          },
+        ],
+      };
+
+      journeyId = uuid();
+      workspaceId = uuid();
+      journeyResource = {
+        id: journeyId,
+        name: "My Journey",
+        status: "NotStarted",
+        definition,
+        workspaceId,
+        updatedAt: Number(new Date()),
+      };
+      uiState = journeyToState(journeyResource);
+
+      definitionFromState = unwrap(
+        await journeyDefinitionFromState({ state: uiState }),
+      );
+    });
+
+    const uiExpectations: [string, string[]][] = [
+      ["rate-limit", ["rate-limit-child-0", "rate-limit-child-1"]],
+      ["rate-limit-child-0", ["message"]],
+      ["rate-limit-child-1", ["rate-limit-empty"]],
+      ["message", ["rate-limit-empty"]],
+      ["rate-limit-empty", [JourneyNodeType.ExitNode]],
+    ];
+
+    test.each(uiExpectations)(
+      "node %p has %p as children in ui state",
+      (nodeId, expectedChildren) => {
+        const actualChildren = findDirectUiChildren(
+          nodeId,
+          uiState.journeyEdges,
+        );
+        expect(new Set(actualChildren)).toEqual(new Set(expectedChildren));
+      },
+    );
+
+    it("produces an equivalent definition from state", () => {
+      expect(definitionFromState.nodes).toEqual(
+        expect.arrayContaining([rateLimitNode]),
+      );
+      expect(definitionFromState.nodes).toHaveLength(2);
+    });
+  });
+
+  describe("when journey has an http request node", () => {
+    let httpRequestNode: HttpRequestNode;
+
+    beforeEach(async () => {
+      httpRequestNode = {
+        id: "http-request",
+        type: JourneyNodeType.HttpRequestNode,
+        name: "Enrich",
+        templateId: uuid(),
+        timeoutSeconds: 10,
+        retry: {
+          maxAttempts: 3,
+        },
+        traits: [{ path: "$.plan", trait: "plan" }],
+        statusBranches: [
+          { minStatus: 200, maxStatus: 299, child: "message" },
+          { minStatus: 404, maxStatus: 404, child: JourneyNodeType.ExitNode },
+        ],
+        child: JourneyNodeType.ExitNode,
+      };
+      const definition: JourneyDefinition = {
+        entryNode: {
+          type: JourneyNodeType.SegmentEntryNode,
+          segment: uuid(),
+          child: "http-request",
+        },
+        exitNode: {
+          type: JourneyNodeType.ExitNode,
+        },
+        nodes: [
+          httpRequestNode,
+          {
+            id: "message",
+            type: JourneyNodeType.MessageNode,
+            name: "Message",
+            child: JourneyNodeType.ExitNode,
+            variant: {
+              type: ChannelType.Email,
+              templateId: uuid(),
+            },
+          },
+        ],
+      };
+
+      journeyId = uuid();
+      workspaceId = uuid();
+      journeyResource = {
+        id: journeyId,
+        name: "My Journey",
+        status: "NotStarted",
+        definition,
+        workspaceId,
+        updatedAt: Number(new Date()),
+      };
+      uiState = journeyToState(journeyResource);
+
+      definitionFromState = unwrap(
+        await journeyDefinitionFromState({ state: uiState }),
+      );
+    });
+
+    const uiExpectations: [string, string[]][] = [
+      [
+        "http-request",
+        [
+          "http-request-child-0",
+          "http-request-child-1",
+          "http-request-child-2",
+        ],
+      ],
+      ["http-request-child-0", ["message"]],
+      ["http-request-child-1", ["http-request-empty"]],
+      ["http-request-child-2", ["http-request-empty"]],
+      ["message", ["http-request-empty"]],
+      ["http-request-empty", [JourneyNodeType.ExitNode]],
+    ];
+
+    test.each(uiExpectations)(
+      "node %p has %p as children in ui state",
+      (nodeId, expectedChildren) => {
+        const actualChildren = findDirectUiChildren(
+          nodeId,
+          uiState.journeyEdges,
+        );
+        expect(new Set(actualChildren)).toEqual(new Set(expectedChildren));
+      },
+    );
+
+    it("produces an equivalent definition from state", () => {
+      expect(definitionFromState.nodes).toEqual(
+        expect.arrayContaining([httpRequestNode]),
+      );
+      expect(definitionFromState.nodes).toHaveLength(2);
+    });
+  });
+
+  describe("when journey has quiet hours", () => {
+    let quietHours: QuietHoursPolicy;
+
+    beforeEach(async () => {
+      quietHours = {
+        windows: [
+          {
+            channels: [ChannelType.Sms],
+            startHour: 21,
+            endHour: 8,
+            endMinute: 30,
+          },
+        ],
+        behavior: QuietHoursBehavior.Hold,
+      };
+      journeyId = uuid();
+      workspaceId = uuid();
+      journeyResource = {
+        id: journeyId,
+        name: "My Journey",
+        status: "NotStarted",
+        definition: {
+          entryNode: {
+            type: JourneyNodeType.SegmentEntryNode,
+            segment: uuid(),
+            child: "message",
+          },
+          exitNode: {
+            type: JourneyNodeType.ExitNode,
+          },
+          nodes: [
+            {
+              id: "message",
+              type: JourneyNodeType.MessageNode,
+              name: "Message",
+              child: JourneyNodeType.ExitNode,
+              variant: {
+                type: ChannelType.Sms,
+                templateId: uuid(),
+              },
+            },
+          ],
+          quietHours,
+        },
+        workspaceId,
+        updatedAt: Number(new Date()),
+      };
+      uiState = journeyToState(journeyResource);
+
+      definitionFromState = unwrap(
+        await journeyDefinitionFromState({ state: uiState }),
+      );
+    });
+
+    it("preserves the quiet hours in the definition from state", () => {
+      expect(uiState.journeyQuietHours).toEqual(quietHours);
+      expect(definitionFromState.quietHours).toEqual(quietHours);
+    });
+
+    it("preserves the quiet hours through the draft", () => {
+      const draft = journeyStateToDraft(uiState);
+      expect(draft.quietHours).toEqual(quietHours);
+      expect(
+        journeyDraftToState({ name: "My Journey", draft }).journeyQuietHours,
+      ).toEqual(quietHours);
+    });
+  });
+
+  describe("when journey has a goal", () => {
+    let goal: JourneyGoal;
+
+    beforeEach(async () => {
+      goal = {
+        type: JourneyGoalType.Segment,
+        segment: uuid(),
+      };
+      journeyId = uuid();
+      workspaceId = uuid();
+      journeyResource = {
+        id: journeyId,
+        name: "My Journey",
+        status: "NotStarted",
+        definition: {
+          entryNode: {
+            type: JourneyNodeType.SegmentEntryNode,
+            segment: uuid(),
+            child: "message",
+          },
+          exitNode: {
+            type: JourneyNodeType.ExitNode,
+          },
+          nodes: [
+            {
+              id: "message",
+              type: JourneyNodeType.MessageNode,
+              name: "Message",
+              child: JourneyNodeType.ExitNode,
+              variant: {
+                type: ChannelType.Email,
+                templateId: uuid(),
+              },
+            },
+          ],
+          goal,
+        },
+        workspaceId,
+        updatedAt: Number(new Date()),
+      };
+      uiState = journeyToState(journeyResource);
+
+      definitionFromState = unwrap(
+        await journeyDefinitionFromState({ state: uiState }),
+      );
+    });
+
+    it("preserves the goal in the definition from state", () => {
+      expect(uiState.journeyGoal).toEqual(goal);
+      expect(definitionFromState.goal).toEqual(goal);
+    });
+
+    it("preserves the goal through the draft", () => {
+      const draft = journeyStateToDraft(uiState);
+      expect(draft.goal).toEqual(goal);
+      expect(
+        journeyDraftToState({ name: "My Journey", draft }).journeyGoal,
+      ).toEqual(goal);
+    });
+
+    it("rejects a goal without a segment", () => {
+      const result = journeyDefinitionFromState({
+        state: {
+          ...uiState,
+          journeyGoal: {
+            type: JourneyGoalType.Segment,
+            segment: "",
+          },
+        },
+      });
+      expect(result.isErr()).toBe(true);
+    });
+  });
   describe("when journey has split then delay", () => {
     beforeEach(() => {
       journeyId = uuid();
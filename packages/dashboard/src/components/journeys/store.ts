@@ -9,6 +9,7 @@ import {
 import { idxUnsafe } from "isomorphic-lib/src/arrays";
 import { ENTRY_TYPES } from "isomorphic-lib/src/constants";
 import { deepEquals } from "isomorphic-lib/src/equality";
+import { EXPERIMENT_HOLDOUT_ARM_NAME } from "isomorphic-lib/src/experiments";
 import {
   buildHeritageMap,
   getNearestFromChildren,
@@ -16,6 +17,7 @@ import {
   HeritageMap,
 } from "isomorphic-lib/src/journeys";
 import { getUnsafe } from "isomorphic-lib/src/maps";
+import { round } from "isomorphic-lib/src/numbers";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
 import {
   BaseMessageUiNodeProps,
@@ -26,17 +28,24 @@ import {
   EntryNode,
   EventEntryNode,
   ExitNode,
+  ExperimentSplitNode,
+  HttpRequestNode,
+  HttpStatusBranch,
   JourneyBodyNode,
   JourneyDefinition,
   JourneyDraft,
+  JourneyGoalType,
   JourneyNode,
   JourneyNodeType,
   JourneyResource,
   JourneyUiBodyNodeTypeProps,
   JourneyUiEdgeProps,
   MessageNode,
+  RateLimitExceededBehavior,
+  RateLimitNode,
   SavedJourneyResource,
   SegmentEntryNode,
+  SegmentSplitBranch,
   SegmentSplitNode,
   SegmentSplitVariantType,
   WaitForNode,
@@ -54,6 +63,9 @@ import {
   DelayUiNodeVariant,
   EntryUiNodeProps,
   ExitUiNodeProps,
+  ExperimentSplitUiNodeProps,
+  FirstMatchSegmentSplitUiNodeProps,
+  HttpRequestUiNodeProps,
   JourneyContent,
   JourneyNodeUiProps,
   JourneyState,
@@ -64,6 +76,7 @@ import {
   JourneyUiNodeType,
   JourneyUiNodeTypeProps,
   MessageUiNodeProps,
+  RateLimitUiNodeProps,
   SegmentSplitUiNodeProps,
   WaitForUiNodeProps,
 } from "../../lib/types";
@@ -106,6 +119,129 @@ export function waitForTimeoutLabel(timeoutSeconds?: number): string {
   return `Timed out after ${durationDescription(timeoutSeconds)}`;
 }
 
+export const SEGMENT_SPLIT_DEFAULT_LABEL = "In no segment";
+
+export function segmentSplitBranchLabel(index: number): string {
+  return `In segment ${index + 1}`;
+}
+
+/**
+ * Returns the titles of the label nodes for each of a segment split node's
+ * branches, in the order in which they're evaluated.
+ */
+export function segmentSplitLabels(
+  props: SegmentSplitUiNodeProps | FirstMatchSegmentSplitUiNodeProps,
+): { labelNodeId: string; title: string }[] {
+  if (props.variantType === SegmentSplitVariantType.FirstMatch) {
+    return [
+      ...props.branches.map((branch, i) => ({
+        labelNodeId: branch.labelNodeId,
+        title: segmentSplitBranchLabel(i),
+      })),
+      {
+        labelNodeId: props.defaultLabelNodeId,
+        title: SEGMENT_SPLIT_DEFAULT_LABEL,
+      },
+    ];
+  }
+  return [
+    { labelNodeId: props.trueLabelNodeId, title: "true" },
+    { labelNodeId: props.falseLabelNodeId, title: "false" },
+  ];
+}
+
+export const RATE_LIMIT_WITHIN_LABEL = "Within limit";
+
+export function rateLimitExceededLabel({
+  exceededBehavior,
+  maxWaitSeconds,
+}: Pick<RateLimitUiNodeProps, "exceededBehavior" | "maxWaitSeconds">): string {
+  if (exceededBehavior === RateLimitExceededBehavior.Branch) {
+    return "Over limit";
+  }
+  if (maxWaitSeconds === undefined) {
+    return "Never within limit";
+  }
+  return `Over limit after ${durationDescription(maxWaitSeconds)}`;
+}
+
+export function experimentArmLabel({
+  name,
+  weight,
+  totalWeight,
+}: {
+  name: string;
+  weight: number;
+  totalWeight: number;
+}): string {
+  const percent = totalWeight > 0 ? round((weight / totalWeight) * 100, 1) : 0;
+  return `${name} (${percent}%)`;
+}
+
+/**
+ * Returns the titles of the label nodes for each of an experiment split
+ * node's arms, including the holdout.
+ */
+export function experimentSplitLabels(
+  props: Pick<ExperimentSplitUiNodeProps, "arms" | "holdout">,
+): { labelNodeId: string; title: string }[] {
+  const totalWeight = props.arms.reduce(
+    (acc, arm) => acc + arm.weight,
+    props.holdout?.weight ?? 0,
+  );
+  const labels = props.arms.map((arm) => ({
+    labelNodeId: arm.labelNodeId,
+    title: experimentArmLabel({
+      name: arm.name,
+      weight: arm.weight,
+      totalWeight,
+    }),
+  }));
+  if (props.holdout) {
+    labels.push({
+      labelNodeId: props.holdout.labelNodeId,
+      title: experimentArmLabel({
+        name: EXPERIMENT_HOLDOUT_ARM_NAME,
+        weight: props.holdout.weight,
+        totalWeight,
+      }),
+    });
+  }
+  return labels;
+}
+
+export const HTTP_REQUEST_DEFAULT_LABEL = "Otherwise";
+
+export function httpStatusBranchLabel({
+  minStatus,
+  maxStatus,
+}: Pick<HttpStatusBranch, "minStatus" | "maxStatus">): string {
+  if (minStatus === maxStatus) {
+    return `Status ${minStatus}`;
+  }
+  return `Status ${minStatus}-${maxStatus}`;
+}
+
+/**
+ * Returns the titles of the label nodes for each of an http request node's
+ * status branches, in the order in which they're evaluated, followed by the
+ * default branch taken by unmatched statuses and failed requests.
+ */
+export function httpRequestLabels(
+  props: Pick<HttpRequestUiNodeProps, "statusBranches" | "defaultLabelNodeId">,
+): { labelNodeId: string; title: string }[] {
+  return [
+    ...props.statusBranches.map((branch) => ({
+      labelNodeId: branch.labelNodeId,
+      title: httpStatusBranchLabel(branch),
+    })),
+    {
+      labelNodeId: props.defaultLabelNodeId,
+      title: HTTP_REQUEST_DEFAULT_LABEL,
+    },
+  ];
+}
+
 type JourneyNodeMap = Map<string, JourneyUiNodeTypeProps>;
 
 function buildJourneyNodeMap(
@@ -526,6 +662,76 @@ function journeyDefinitionFromStateBranch(
         break;
       }
       case JourneyNodeType.SegmentSplitNode: {
+        if (uiNode.variantType === SegmentSplitVariantType.FirstMatch) {
+          if (!uiNode.branches.length) {
+            return err({
+              message: "Segment split node must have at least one segment",
+              nodeId: nId,
+            });
+          }
+          const nfc = getNearestJourneyFromChildren(nId, hm, uiJourneyNodes);
+          const branches: SegmentSplitBranch[] = [];
+          for (const branch of uiNode.branches) {
+            if (!branch.segmentId) {
+              return err({
+                message: "Segment split node must have a segment",
+                nodeId: nId,
+              });
+            }
+            const child = findNextJourneyNode(
+              branch.labelNodeId,
+              hm,
+              uiJourneyNodes,
+            );
+            if (nfc !== child) {
+              const branchResult = journeyDefinitionFromStateBranch(
+                child,
+                hm,
+                nodes,
+                uiJourneyNodes,
+                edges,
+                nfc,
+              );
+              if (branchResult.isErr()) {
+                return err(branchResult.error);
+              }
+            }
+            branches.push({ segmentId: branch.segmentId, child });
+          }
+
+          const defaultChild = findNextJourneyNode(
+            uiNode.defaultLabelNodeId,
+            hm,
+            uiJourneyNodes,
+          );
+          if (nfc !== defaultChild) {
+            const branchResult = journeyDefinitionFromStateBranch(
+              defaultChild,
+              hm,
+              nodes,
+              uiJourneyNodes,
+              edges,
+              nfc,
+            );
+            if (branchResult.isErr()) {
+              return err(branchResult.error);
+            }
+          }
+
+          const node: SegmentSplitNode = {
+            type: JourneyNodeType.SegmentSplitNode,
+            id: nId,
+            name: uiNode.name,
+            variant: {
+              type: SegmentSplitVariantType.FirstMatch,
+              branches,
+              defaultChild,
+            },
+          };
+          nodes.push(node);
+          nextId = nfc;
+          break;
+        }
         if (!uiNode.segmentId) {
           return err({
             message: "Segment split node must have a segment",
@@ -587,6 +793,198 @@ function journeyDefinitionFromStateBranch(
         nextId = nfc;
         break;
       }
+      case JourneyNodeType.ExperimentSplitNode: {
+        if (uiNode.arms.some((arm) => !arm.name)) {
+          return err({
+            message: "All experiment arms must have a name",
+            nodeId: nId,
+          });
+        }
+        if (!uiNode.arms.some((arm) => arm.weight > 0)) {
+          return err({
+            message: "At least one experiment arm must have a positive weight",
+            nodeId: nId,
+          });
+        }
+        const nfc = getNearestJourneyFromChildren(nId, hm, uiJourneyNodes);
+        const branchLabelNodeIds = uiNode.arms.map((arm) => arm.labelNodeId);
+        if (uiNode.holdout) {
+          branchLabelNodeIds.push(uiNode.holdout.labelNodeId);
+        }
+
+        // label node id -> first journey node in the branch
+        const branchChildren = new Map<string, string>();
+        for (const labelNodeId of branchLabelNodeIds) {
+          const child = findNextJourneyNode(labelNodeId, hm, uiJourneyNodes);
+          if (nfc !== child) {
+            const branchResult = journeyDefinitionFromStateBranch(
+              child,
+              hm,
+              nodes,
+              uiJourneyNodes,
+              edges,
+              nfc,
+            );
+            if (branchResult.isErr()) {
+              return err(branchResult.error);
+            }
+          }
+          branchChildren.set(labelNodeId, child);
+        }
+
+        const node: ExperimentSplitNode = {
+          type: JourneyNodeType.ExperimentSplitNode,
+          id: nId,
+          name: uiNode.name,
+          conversionEvent: uiNode.conversionEvent,
+          arms: uiNode.arms.map((arm) => ({
+            id: arm.id,
+            name: arm.name,
+            weight: arm.weight,
+            child: getUnsafe(branchChildren, arm.labelNodeId),
+          })),
+          holdout: uiNode.holdout
+            ? {
+                weight: uiNode.holdout.weight,
+                child: getUnsafe(branchChildren, uiNode.holdout.labelNodeId),
+              }
+            : undefined,
+        };
+        nodes.push(node);
+        nextId = nfc;
+        break;
+      }
+      case JourneyNodeType.RateLimitNode: {
+        if (!(uiNode.windowSeconds > 0)) {
+          return err({
+            message: "Rate limit node must have a window",
+            nodeId: nId,
+          });
+        }
+        const child = findNextJourneyNode(
+          uiNode.withinLimitLabelNodeId,
+          hm,
+          uiJourneyNodes,
+        );
+        const nfc = getNearestJourneyFromChildren(nId, hm, uiJourneyNodes);
+        if (nfc !== child) {
+          const branchResult = journeyDefinitionFromStateBranch(
+            child,
+            hm,
+            nodes,
+            uiJourneyNodes,
+            edges,
+            nfc,
+          );
+          if (branchResult.isErr()) {
+            return err(branchResult.error);
+          }
+        }
+
+        const limitedChild = findNextJourneyNode(
+          uiNode.limitedLabelNodeId,
+          hm,
+          uiJourneyNodes,
+        );
+        if (nfc !== limitedChild) {
+          const branchResult = journeyDefinitionFromStateBranch(
+            limitedChild,
+            hm,
+            nodes,
+            uiJourneyNodes,
+            edges,
+            nfc,
+          );
+          if (branchResult.isErr()) {
+            return err(branchResult.error);
+          }
+        }
+
+        const node: RateLimitNode = {
+          type: JourneyNodeType.RateLimitNode,
+          id: nId,
+          channel: uiNode.channel,
+          limit: uiNode.limit,
+          windowSeconds: uiNode.windowSeconds,
+          scope: uiNode.scope,
+          exceededBehavior: uiNode.exceededBehavior,
+          maxWaitSeconds:
+            uiNode.exceededBehavior === RateLimitExceededBehavior.Wait
+              ? uiNode.maxWaitSeconds
+              : undefined,
+          child,
+          limitedChild,
+        };
+        nodes.push(node);
+        nextId = nfc;
+        break;
+      }
+      case JourneyNodeType.HttpRequestNode: {
+        if (!uiNode.templateId) {
+          return err({
+            message: "HTTP request node must have a webhook template",
+            nodeId: nId,
+          });
+        }
+        if (
+          uiNode.statusBranches.some(
+            (branch) => branch.minStatus > branch.maxStatus,
+          )
+        ) {
+          return err({
+            message:
+              "HTTP request node status ranges must not end before they start",
+            nodeId: nId,
+          });
+        }
+        if (uiNode.traits.some((mapping) => !mapping.path || !mapping.trait)) {
+          return err({
+            message:
+              "HTTP request node trait mappings must have a path and trait",
+            nodeId: nId,
+          });
+        }
+        const nfc = getNearestJourneyFromChildren(nId, hm, uiJourneyNodes);
+
+        // label node id -> first journey node in the branch
+        const branchChildren = new Map<string, string>();
+        for (const { labelNodeId } of httpRequestLabels(uiNode)) {
+          const child = findNextJourneyNode(labelNodeId, hm, uiJourneyNodes);
+          if (nfc !== child) {
+            const branchResult = journeyDefinitionFromStateBranch(
+              child,
+              hm,
+              nodes,
+              uiJourneyNodes,
+              edges,
+              nfc,
+            );
+            if (branchResult.isErr()) {
+              return err(branchResult.error);
+            }
+          }
+          branchChildren.set(labelNodeId, child);
+        }
+
+        const node: HttpRequestNode = {
+          type: JourneyNodeType.HttpRequestNode,
+          id: nId,
+          name: uiNode.name,
+          templateId: uiNode.templateId,
+          timeoutSeconds: uiNode.timeoutSeconds,
+          retry: uiNode.retry,
+          traits: uiNode.traits,
+          statusBranches: uiNode.statusBranches.map((branch) => ({
+            minStatus: branch.minStatus,
+            maxStatus: branch.maxStatus,
+            child: getUnsafe(branchChildren, branch.labelNodeId),
+          })),
+          child: getUnsafe(branchChildren, uiNode.defaultLabelNodeId),
+        };
+        nodes.push(node);
+        nextId = nfc;
+        break;
+      }
       default:
         assertUnreachable(uiNode);
     }
@@ -650,15 +1048,102 @@ export function journeyDefinitionFromState({
     exitNode,
     nodes: bodyNodes,
   };
+  if (state.journeyQuietHours) {
+    definition.quietHours = state.journeyQuietHours;
+  }
+  if (state.journeyGoal) {
+    const goal = state.journeyGoal;
+    if (
+      (goal.type === JourneyGoalType.Segment && !goal.segment) ||
+      (goal.type === JourneyGoalType.Event && !goal.event)
+    ) {
+      return err({
+        message: "Journey goal must have a segment or event",
+        nodeId: AdditionalJourneyNodeType.EntryUiNode,
+      });
+    }
+    definition.goal = goal;
+  }
   return ok(definition);
 }
 
+function buildLabelNode(id: string, title: string): JourneyUiNode {
+  return {
+    id,
+    position: placeholderNodePosition,
+    type: "label",
+    data: {
+      type: JourneyUiNodeType.JourneyUiNodeLabelProps,
+      title,
+    },
+  };
+}
+
+function buildEmptyNode(id: string): JourneyUiNode {
+  return {
+    id,
+    position: placeholderNodePosition,
+    type: "empty",
+    data: {
+      type: JourneyUiNodeType.JourneyUiNodeEmptyProps,
+    },
+  };
+}
+
+function buildWorkflowEdge(source: string, target: string): JourneyUiEdge {
+  return {
+    id: `${source}=>${target}`,
+    source,
+    target,
+    type: "workflow",
+    sourceHandle: "bottom",
+    data: {
+      type: JourneyUiEdgeType.JourneyUiDefinitionEdgeProps,
+      disableMarker: true,
+    },
+  };
+}
+
+function buildPlaceholderEdge(source: string, target: string): JourneyUiEdge {
+  return {
+    id: `${source}=>${target}`,
+    source,
+    target,
+    type: "placeholder",
+    sourceHandle: "bottom",
+    data: {
+      type: JourneyUiEdgeType.JourneyUiPlaceholderEdgeProps,
+    },
+  };
+}
+
 export interface DualNodeParams {
   leftId: string;
   rightId: string;
   emptyId: string;
 }
 
+export interface MultiNodeParams {
+  branches: { labelNodeId: string; title: string }[];
+  emptyId: string;
+}
+
+/**
+ * Builds the label nodes for each branch of a node with N children, along with
+ * the empty node at which the branches rejoin.
+ */
+export function multiNodeNonJourneyNodes({
+  branches,
+  emptyId,
+}: MultiNodeParams): JourneyUiNode[] {
+  return [
+    ...branches.map(({ labelNodeId, title }) =>
+      buildLabelNode(labelNodeId, title),
+    ),
+    buildEmptyNode(emptyId),
+  ];
+}
+
 export function dualNodeNonJourneyNodes({
   leftId,
   rightId,
@@ -669,44 +1154,24 @@ export function dualNodeNonJourneyNodes({
   leftLabel: string;
   rightLabel: string;
 }): JourneyUiNode[] {
-  return [
-    {
-      id: leftId,
-      position: placeholderNodePosition,
-      type: "label",
-      data: {
-        type: JourneyUiNodeType.JourneyUiNodeLabelProps,
-        title: leftLabel,
-      },
-    },
-    {
-      id: rightId,
-      position: placeholderNodePosition,
-      type: "label",
-      data: {
-        type: JourneyUiNodeType.JourneyUiNodeLabelProps,
-        title: rightLabel,
-      },
-    },
-    {
-      id: emptyId,
-      position: placeholderNodePosition,
-      type: "empty",
-      data: {
-        type: JourneyUiNodeType.JourneyUiNodeEmptyProps,
-      },
-    },
-  ];
+  return multiNodeNonJourneyNodes({
+    branches: [
+      { labelNodeId: leftId, title: leftLabel },
+      { labelNodeId: rightId, title: rightLabel },
+    ],
+    emptyId,
+  });
 }
 
-export function dualNodeEdges({
-  leftId,
-  rightId,
+export function multiNodeEdges({
+  labelNodeIds,
   emptyId,
   nodeId,
   source,
   target,
-}: DualNodeParams & {
+}: {
+  labelNodeIds: string[];
+  emptyId: string;
   source: string;
   target: string;
   nodeId: string;
@@ -723,65 +1188,40 @@ export function dualNodeEdges({
         disableMarker: true,
       },
     },
-    {
-      id: `${nodeId}=>${leftId}`,
-      source: nodeId,
-      target: leftId,
-      type: "placeholder",
-      sourceHandle: "bottom",
-      data: {
-        type: JourneyUiEdgeType.JourneyUiPlaceholderEdgeProps,
-      },
-    },
-    {
-      id: `${nodeId}=>${rightId}`,
-      source: nodeId,
-      target: rightId,
-      type: "placeholder",
-      sourceHandle: "bottom",
-      data: {
-        type: JourneyUiEdgeType.JourneyUiPlaceholderEdgeProps,
-      },
-    },
-    {
-      id: `${leftId}=>${emptyId}`,
-      source: leftId,
-      target: emptyId,
-      type: "workflow",
-      sourceHandle: "bottom",
-      data: {
-        type: JourneyUiEdgeType.JourneyUiDefinitionEdgeProps,
-        disableMarker: true,
-      },
-    },
-    {
-      id: `${rightId}=>${emptyId}`,
-      source: rightId,
-      target: emptyId,
-      type: "workflow",
-      sourceHandle: "bottom",
-      data: {
-        type: JourneyUiEdgeType.JourneyUiDefinitionEdgeProps,
-        disableMarker: true,
-      },
-    },
+    ...labelNodeIds.map((labelNodeId) =>
+      buildPlaceholderEdge(nodeId, labelNodeId),
+    ),
+    ...labelNodeIds.map((labelNodeId) =>
+      buildWorkflowEdge(labelNodeId, emptyId),
+    ),
   ];
   if (target) {
-    edges.push({
-      id: `${emptyId}=>${target}`,
-      source: emptyId,
-      target,
-      type: "workflow",
-      sourceHandle: "bottom",
-      data: {
-        type: JourneyUiEdgeType.JourneyUiDefinitionEdgeProps,
-        disableMarker: true,
-      },
-    });
+    edges.push(buildWorkflowEdge(emptyId, target));
   }
   return edges;
 }
 
+export function dualNodeEdges({
+  leftId,
+  rightId,
+  emptyId,
+  nodeId,
+  source,
+  target,
+}: DualNodeParams & {
+  source: string;
+  target: string;
+  nodeId: string;
+}): JourneyUiEdge[] {
+  return multiNodeEdges({
+    labelNodeIds: [leftId, rightId],
+    emptyId,
+    nodeId,
+    source,
+    target,
+  });
+}
+
 export function edgesForJourneyNode({
   type,
   nodeId,
@@ -789,6 +1229,7 @@ export function edgesForJourneyNode({
   target,
   leftId,
   rightId,
+  labelNodeIds,
   emptyId,
 }: {
   type: JourneyNodeType;
@@ -797,11 +1238,32 @@ export function edgesForJourneyNode({
   target: string;
   leftId?: string;
   rightId?: string;
+  labelNodeIds?: string[];
   emptyId?: string;
 }): JourneyUiEdge[] {
+  if (
+    type === JourneyNodeType.ExperimentSplitNode ||
+    type === JourneyNodeType.HttpRequestNode ||
+    (type === JourneyNodeType.SegmentSplitNode && labelNodeIds)
+  ) {
+    if (!labelNodeIds || !emptyId) {
+      throw new Error("Missing multi node ids");
+    }
+    if (!source) {
+      throw new Error("Missing source");
+    }
+    return multiNodeEdges({
+      source,
+      target,
+      nodeId,
+      labelNodeIds,
+      emptyId,
+    });
+  }
   if (
     type === JourneyNodeType.SegmentSplitNode ||
-    type === JourneyNodeType.WaitForNode
+    type === JourneyNodeType.WaitForNode ||
+    type === JourneyNodeType.RateLimitNode
   ) {
     if (!leftId || !rightId || !emptyId) {
       throw new Error("Missing dual node ids");
@@ -818,11 +1280,7 @@ export function edgesForJourneyNode({
       emptyId,
     });
   }
-  if (
-    type === JourneyNodeType.RateLimitNode ||
-    type === JourneyNodeType.ExperimentSplitNode ||
-    type === JourneyNodeType.ExitNode
-  ) {
+  if (type === JourneyNodeType.ExitNode) {
     throw new Error(`Unimplemented node type ${type}`);
   }
 
@@ -913,56 +1371,6 @@ export function findAllDescendants(
 
 type CreateJourneySlice = Parameters<typeof immer<JourneyContent>>[0];
 
-function buildLabelNode(id: string, title: string): JourneyUiNode {
-  return {
-    id,
-    position: placeholderNodePosition,
-    type: "label",
-    data: {
-      type: JourneyUiNodeType.JourneyUiNodeLabelProps,
-      title,
-    },
-  };
-}
-
-function buildEmptyNode(id: string): JourneyUiNode {
-  return {
-    id,
-    position: placeholderNodePosition,
-    type: "empty",
-    data: {
-      type: JourneyUiNodeType.JourneyUiNodeEmptyProps,
-    },
-  };
-}
-
-function buildWorkflowEdge(source: string, target: string): JourneyUiEdge {
-  return {
-    id: `${source}=>${target}`,
-    source,
-    target,
-    type: "workflow",
-    sourceHandle: "bottom",
-    data: {
-      type: JourneyUiEdgeType.JourneyUiDefinitionEdgeProps,
-      disableMarker: true,
-    },
-  };
-}
-
-function buildPlaceholderEdge(source: string, target: string): JourneyUiEdge {
-  return {
-    id: `${source}=>${target}`,
-    source,
-    target,
-    type: "placeholder",
-    sourceHandle: "bottom",
-    data: {
-      type: JourneyUiEdgeType.JourneyUiPlaceholderEdgeProps,
-    },
-  };
-}
-
 function buildJourneyNode(
   id: string,
   nodeTypeProps: JourneyUiNodeTypeProps,
@@ -978,11 +1386,80 @@ function buildJourneyNode(
   };
 }
 
+/**
+ * Updates the props of a node with a variable number of branches, adding and
+ * removing branches so that they match the provided labels. Branches are
+ * matched to their label nodes by id, so that the descendants of retained
+ * branches are preserved.
+ */
+function setNodeBranches(
+  state: JourneyContent,
+  nodeId: string,
+  props: JourneyUiBodyNodeTypeProps,
+  labels: { labelNodeId: string; title: string }[],
+) {
+  const hm = buildUiHeritageMap(state.journeyNodes, state.journeyEdges);
+  // the empty node at which the node's branches rejoin
+  const emptyId = getNearestUiFromChildren(nodeId, hm);
+  if (!emptyId) {
+    throw new Error("Multi child node is missing an empty node");
+  }
+  const labelTitles = new Map(
+    labels.map(({ labelNodeId, title }) => [labelNodeId, title]),
+  );
+  const existingLabelIds = getUnsafe(hm, nodeId).children;
+
+  // remove branches which no longer exist, along with their descendants
+  const nodesToRemove = new Set<string>();
+  for (const labelNodeId of existingLabelIds) {
+    if (labelTitles.has(labelNodeId)) {
+      continue;
+    }
+    nodesToRemove.add(labelNodeId);
+    for (const descendantId of getUnsafe(hm, labelNodeId).descendants) {
+      if (getUnsafe(hm, descendantId).descendants.has(emptyId)) {
+        nodesToRemove.add(descendantId);
+      }
+    }
+  }
+  state.journeyNodes = state.journeyNodes.filter(
+    (n) => !nodesToRemove.has(n.id),
+  );
+  state.journeyEdges = state.journeyEdges.filter(
+    (e) => !nodesToRemove.has(e.source) && !nodesToRemove.has(e.target),
+  );
+
+  // add new branches which rejoin immediately
+  for (const { labelNodeId, title } of labels) {
+    if (existingLabelIds.has(labelNodeId)) {
+      continue;
+    }
+    state.journeyNodes.push(buildLabelNode(labelNodeId, title));
+    state.journeyEdges.push(buildPlaceholderEdge(nodeId, labelNodeId));
+    state.journeyEdges.push(buildWorkflowEdge(labelNodeId, emptyId));
+  }
+
+  for (const n of state.journeyNodes) {
+    if (n.id === nodeId && isJourneyNode(n)) {
+      n.data.nodeTypeProps = props;
+      continue;
+    }
+    const title = labelTitles.get(n.id);
+    if (title !== undefined && isLabelNode(n)) {
+      n.data.title = title;
+    }
+  }
+  state.journeyNodes = layoutNodes(state.journeyNodes, state.journeyEdges);
+  state.journeyNodesIndex = buildNodesIndex(state.journeyNodes);
+}
+
 export const createJourneySlice: CreateJourneySlice = (set) => ({
   journeySelectedNodeId: null,
   journeyNodes: DEFAULT_JOURNEY_NODES,
   journeyEdges: DEFAULT_EDGES,
   journeyNodesIndex: buildNodesIndex(DEFAULT_JOURNEY_NODES),
+  journeyQuietHours: null,
+  journeyGoal: null,
   journeyDraggedComponentType: null,
   journeyName: "",
   journeyUpdateRequest: {
@@ -1042,6 +1519,56 @@ export const createJourneySlice: CreateJourneySlice = (set) => ({
       state.journeyNodes = layoutNodes(state.journeyNodes, state.journeyEdges);
       state.journeyNodesIndex = buildNodesIndex(state.journeyNodes);
     }),
+  setExperimentSplitArms: (nodeId, { arms, holdout }) =>
+    set((state) => {
+      const node = findJourneyNode(
+        nodeId,
+        state.journeyNodes,
+        state.journeyNodesIndex,
+      );
+      if (
+        !node ||
+        node.data.nodeTypeProps.type !== JourneyNodeType.ExperimentSplitNode
+      ) {
+        return;
+      }
+      const props: ExperimentSplitUiNodeProps = {
+        ...node.data.nodeTypeProps,
+        arms,
+        holdout,
+      };
+      setNodeBranches(state, nodeId, props, experimentSplitLabels(props));
+    }),
+  setSegmentSplitProps: (nodeId, props) =>
+    set((state) => {
+      const node = findJourneyNode(
+        nodeId,
+        state.journeyNodes,
+        state.journeyNodesIndex,
+      );
+      if (
+        !node ||
+        node.data.nodeTypeProps.type !== JourneyNodeType.SegmentSplitNode
+      ) {
+        return;
+      }
+      setNodeBranches(state, nodeId, props, segmentSplitLabels(props));
+    }),
+  setHttpRequestProps: (nodeId, props) =>
+    set((state) => {
+      const node = findJourneyNode(
+        nodeId,
+        state.journeyNodes,
+        state.journeyNodesIndex,
+      );
+      if (
+        !node ||
+        node.data.nodeTypeProps.type !== JourneyNodeType.HttpRequestNode
+      ) {
+        return;
+      }
+      setNodeBranches(state, nodeId, props, httpRequestLabels(props));
+    }),
   setNodes: (changes: NodeChange<JourneyUiNode>[]) =>
     set((state) => {
       state.journeyNodes = applyNodeChanges<JourneyUiNode>(
@@ -1110,6 +1637,14 @@ export const createJourneySlice: CreateJourneySlice = (set) => ({
     set((state) => {
       state.journeyName = name;
     }),
+  setJourneyQuietHours: (quietHours) =>
+    set((state) => {
+      state.journeyQuietHours = quietHours;
+    }),
+  setJourneyGoal: (goal) =>
+    set((state) => {
+      state.journeyGoal = goal;
+    }),
   updateLabelNode: (nodeId, title) =>
     set((state) => {
       const node = findNode(
@@ -1121,11 +1656,13 @@ export const createJourneySlice: CreateJourneySlice = (set) => ({
         node.data.title = title;
       }
     }),
-  resetJourneyState: ({ nodes, edges, index }) =>
+  resetJourneyState: ({ nodes, edges, index, quietHours, goal }) =>
     set((state) => {
       state.journeyNodes = nodes;
       state.journeyEdges = edges;
       state.journeyNodesIndex = index;
+      state.journeyQuietHours = quietHours;
+      state.journeyGoal = goal;
     }),
   initJourneyState: (stateFromJourney: JourneyStateForResource) =>
     set((state) => {
@@ -1133,6 +1670,8 @@ export const createJourneySlice: CreateJourneySlice = (set) => ({
       state.journeyEdges = stateFromJourney.journeyEdges;
       state.journeyNodes = stateFromJourney.journeyNodes;
       state.journeyNodesIndex = stateFromJourney.journeyNodesIndex;
+      state.journeyQuietHours = stateFromJourney.journeyQuietHours;
+      state.journeyGoal = stateFromJourney.journeyGoal;
     }),
 });
 
@@ -1311,11 +1850,290 @@ export function journeyBranchToState(
         edgesState.push(buildWorkflowEdge(nId, node.child));
         break;
       }
-      case JourneyNodeType.ExperimentSplitNode:
-        throw new Error("ExperimentSplitNode is not implemented");
-      case JourneyNodeType.RateLimitNode:
-        throw new Error("RateLimitNode is not implemented");
+      case JourneyNodeType.ExperimentSplitNode: {
+        const emptyId = `${nId}-empty`;
+        const experimentSplitNode: ExperimentSplitUiNodeProps = {
+          type: JourneyNodeType.ExperimentSplitNode,
+          name: node.name ?? "",
+          conversionEvent: node.conversionEvent,
+          arms: [],
+        };
+        const branches: { labelNodeId: string; child: string }[] = [];
+        for (const arm of node.arms) {
+          const labelNodeId = `${nId}-child-${branches.length}`;
+          experimentSplitNode.arms.push({
+            id: arm.id,
+            name: arm.name,
+            weight: arm.weight,
+            labelNodeId,
+          });
+          branches.push({ labelNodeId, child: arm.child });
+        }
+        if (node.holdout) {
+          const labelNodeId = `${nId}-child-${branches.length}`;
+          experimentSplitNode.holdout = {
+            weight: node.holdout.weight,
+            labelNodeId,
+          };
+          branches.push({ labelNodeId, child: node.holdout.child });
+        }
+        nodesState.push(buildJourneyNode(nId, experimentSplitNode));
+        for (const label of experimentSplitLabels(experimentSplitNode)) {
+          nodesState.push(buildLabelNode(label.labelNodeId, label.title));
+        }
+        nodesState.push(buildEmptyNode(emptyId));
+
+        const nfc = getNearestFromChildren(nId, hm);
+
+        for (const branch of branches) {
+          edgesState.push(buildPlaceholderEdge(nId, branch.labelNodeId));
+
+          if (branch.child === nfc || nfc === null) {
+            edgesState.push(buildWorkflowEdge(branch.labelNodeId, emptyId));
+            continue;
+          }
+          edgesState.push(buildWorkflowEdge(branch.labelNodeId, branch.child));
+
+          const terminalId = journeyBranchToState(
+            branch.child,
+            nodesState,
+            edgesState,
+            nodes,
+            hm,
+            nfc,
+          ).terminalNode;
+          if (!terminalId) {
+            throw new Error(
+              "experiment split children terminate which should not be possible",
+            );
+          }
+          edgesState.push(buildWorkflowEdge(terminalId, emptyId));
+        }
+
+        const firstBranch = branches[0];
+        if (!firstBranch) {
+          throw new Error(
+            "Malformed journey, ExperimentSplitNode has no arms.",
+          );
+        }
+        // default to first child because will be null if all children are equal
+        nextNodeId = nfc ?? firstBranch.child;
+
+        if (nextNodeId === terminateBefore) {
+          return {
+            terminalNode: emptyId,
+          };
+        }
+        edgesState.push(buildWorkflowEdge(emptyId, nextNodeId));
+        break;
+      }
+      case JourneyNodeType.RateLimitNode: {
+        const withinLimitId = `${nId}-child-0`;
+        const limitedId = `${nId}-child-1`;
+        const emptyId = `${nId}-empty`;
+
+        const rateLimitNode: RateLimitUiNodeProps = {
+          type: JourneyNodeType.RateLimitNode,
+          channel: node.channel,
+          limit: node.limit,
+          windowSeconds: node.windowSeconds,
+          scope: node.scope,
+          exceededBehavior: node.exceededBehavior,
+          maxWaitSeconds: node.maxWaitSeconds,
+          withinLimitLabelNodeId: withinLimitId,
+          limitedLabelNodeId: limitedId,
+        };
+        nodesState.push(buildJourneyNode(nId, rateLimitNode));
+        nodesState.push(buildLabelNode(withinLimitId, RATE_LIMIT_WITHIN_LABEL));
+        nodesState.push(
+          buildLabelNode(limitedId, rateLimitExceededLabel(rateLimitNode)),
+        );
+        nodesState.push(buildEmptyNode(emptyId));
+        edgesState.push(buildPlaceholderEdge(nId, withinLimitId));
+        edgesState.push(buildPlaceholderEdge(nId, limitedId));
+
+        const nfc = getNearestFromChildren(nId, hm);
+
+        for (const [labelId, child] of [
+          [withinLimitId, node.child],
+          [limitedId, node.limitedChild],
+        ] as const) {
+          if (child === nfc || nfc === null) {
+            edgesState.push(buildWorkflowEdge(labelId, emptyId));
+            continue;
+          }
+          edgesState.push(buildWorkflowEdge(labelId, child));
+
+          const terminalId = journeyBranchToState(
+            child,
+            nodesState,
+            edgesState,
+            nodes,
+            hm,
+            nfc,
+          ).terminalNode;
+          if (!terminalId) {
+            throw new Error(
+              "rate limit children terminate which should not be possible",
+            );
+          }
+          edgesState.push(buildWorkflowEdge(terminalId, emptyId));
+        }
+
+        // default to child because will be null if both children are equal
+        nextNodeId = nfc ?? node.child;
+
+        if (nextNodeId === terminateBefore) {
+          return {
+            terminalNode: emptyId,
+          };
+        }
+        edgesState.push(buildWorkflowEdge(emptyId, nextNodeId));
+        break;
+      }
+      case JourneyNodeType.HttpRequestNode: {
+        const emptyId = `${nId}-empty`;
+        const httpRequestNode: HttpRequestUiNodeProps = {
+          type: JourneyNodeType.HttpRequestNode,
+          name: node.name ?? "",
+          templateId: node.templateId,
+          timeoutSeconds: node.timeoutSeconds,
+          retry: node.retry,
+          traits: node.traits,
+          statusBranches: [],
+          defaultLabelNodeId: `${nId}-child-${node.statusBranches.length}`,
+        };
+        const branches: { labelNodeId: string; child: string }[] = [];
+        for (const branch of node.statusBranches) {
+          const labelNodeId = `${nId}-child-${branches.length}`;
+          httpRequestNode.statusBranches.push({
+            minStatus: branch.minStatus,
+            maxStatus: branch.maxStatus,
+            labelNodeId,
+          });
+          branches.push({ labelNodeId, child: branch.child });
+        }
+        branches.push({
+          labelNodeId: httpRequestNode.defaultLabelNodeId,
+          child: node.child,
+        });
+
+        nodesState.push(buildJourneyNode(nId, httpRequestNode));
+        for (const label of httpRequestLabels(httpRequestNode)) {
+          nodesState.push(buildLabelNode(label.labelNodeId, label.title));
+        }
+        nodesState.push(buildEmptyNode(emptyId));
+
+        const nfc = getNearestFromChildren(nId, hm);
+
+        for (const branch of branches) {
+          edgesState.push(buildPlaceholderEdge(nId, branch.labelNodeId));
+
+          if (branch.child === nfc || nfc === null) {
+            edgesState.push(buildWorkflowEdge(branch.labelNodeId, emptyId));
+            continue;
+          }
+          edgesState.push(buildWorkflowEdge(branch.labelNodeId, branch.child));
+
+          const terminalId = journeyBranchToState(
+            branch.child,
+            nodesState,
+            edgesState,
+            nodes,
+            hm,
+            nfc,
+          ).terminalNode;
+          if (!terminalId) {
+            throw new Error(
+              "http request children terminate which should not be possible",
+            );
+          }
+          edgesState.push(buildWorkflowEdge(terminalId, emptyId));
+        }
+
+        // default to the default child because will be null if all children
+        // are equal
+        nextNodeId = nfc ?? node.child;
+
+        if (nextNodeId === terminateBefore) {
+          return {
+            terminalNode: emptyId,
+          };
+        }
+        edgesState.push(buildWorkflowEdge(emptyId, nextNodeId));
+        break;
+      }
       case JourneyNodeType.SegmentSplitNode: {
+        if (node.variant.type === SegmentSplitVariantType.FirstMatch) {
+          const emptyId = `${nId}-empty`;
+          const segmentSplitNode: FirstMatchSegmentSplitUiNodeProps = {
+            type: JourneyNodeType.SegmentSplitNode,
+            variantType: SegmentSplitVariantType.FirstMatch,
+            name: node.name ?? "",
+            branches: [],
+            defaultLabelNodeId: `${nId}-child-${node.variant.branches.length}`,
+          };
+          const branches: { labelNodeId: string; child: string }[] = [];
+          for (const branch of node.variant.branches) {
+            const labelNodeId = `${nId}-child-${branches.length}`;
+            segmentSplitNode.branches.push({
+              segmentId: branch.segmentId,
+              labelNodeId,
+            });
+            branches.push({ labelNodeId, child: branch.child });
+          }
+          branches.push({
+            labelNodeId: segmentSplitNode.defaultLabelNodeId,
+            child: node.variant.defaultChild,
+          });
+
+          nodesState.push(buildJourneyNode(nId, segmentSplitNode));
+          for (const label of segmentSplitLabels(segmentSplitNode)) {
+            nodesState.push(buildLabelNode(label.labelNodeId, label.title));
+          }
+          nodesState.push(buildEmptyNode(emptyId));
+
+          const nfc = getNearestFromChildren(nId, hm);
+
+          for (const branch of branches) {
+            edgesState.push(buildPlaceholderEdge(nId, branch.labelNodeId));
+
+            if (branch.child === nfc || nfc === null) {
+              edgesState.push(buildWorkflowEdge(branch.labelNodeId, emptyId));
+              continue;
+            }
+            edgesState.push(
+              buildWorkflowEdge(branch.labelNodeId, branch.child),
+            );
+
+            const terminalId = journeyBranchToState(
+              branch.child,
+              nodesState,
+              edgesState,
+              nodes,
+              hm,
+              nfc,
+            ).terminalNode;
+            if (!terminalId) {
+              throw new Error(
+                "segment split children terminate which should not be possible",
+              );
+            }
+            edgesState.push(buildWorkflowEdge(terminalId, emptyId));
+          }
+
+          // default to the default child because will be null if all
+          // children are equal
+          nextNodeId = nfc ?? node.variant.defaultChild;
+
+          if (nextNodeId === terminateBefore) {
+            return {
+              terminalNode: emptyId,
+            };
+          }
+          edgesState.push(buildWorkflowEdge(emptyId, nextNodeId));
+          break;
+        }
         const trueId = `${nId}-child-0`;
         const falseId = `${nId}-child-1`;
         const emptyId = `${nId}-empty`;
@@ -1524,16 +2342,19 @@ export function journeyToState(
     journeyNodes,
     journeyNodesIndex,
     journeyEdges,
+    journeyQuietHours: journey.definition.quietHours ?? null,
+    journeyGoal: journey.definition.goal ?? null,
   };
 }
 
 export type JourneyStateForDraft = Pick<
   JourneyState,
   "journeyNodes" | "journeyEdges"
->;
+> &
+  Partial<Pick<JourneyState, "journeyQuietHours" | "journeyGoal">>;
 
 export function journeyStateToDraft(state: JourneyStateForDraft): JourneyDraft {
-  return {
+  const draft: JourneyDraft = {
     nodes: state.journeyNodes.map((n) => ({
       id: n.id,
       data: n.data,
@@ -1549,6 +2370,13 @@ export function journeyStateToDraft(state: JourneyStateForDraft): JourneyDraft {
       };
     }),
   };
+  if (state.journeyQuietHours) {
+    draft.quietHours = state.journeyQuietHours;
+  }
+  if (state.journeyGoal) {
+    draft.goal = state.journeyGoal;
+  }
+  return draft;
 }
 
 export type CreateConnectionsEntryNodeParams = EntryUiNodeProps & {
@@ -1598,6 +2426,31 @@ export function createConnections(params: CreateConnectionsParams): {
 
   switch (params.type) {
     case JourneyNodeType.SegmentSplitNode: {
+      if (params.variantType === SegmentSplitVariantType.FirstMatch) {
+        const emptyId = uuid();
+        const branches = segmentSplitLabels(params);
+
+        newNodes = newNodes.concat([
+          buildBaseJourneyNode({
+            id: params.id,
+            nodeTypeProps: omit(params, ["id", "source", "target"]),
+          }),
+          ...multiNodeNonJourneyNodes({
+            emptyId,
+            branches,
+          }),
+        ]);
+
+        newEdges = edgesForJourneyNode({
+          type: params.type,
+          nodeId: params.id,
+          emptyId,
+          labelNodeIds: branches.map((b) => b.labelNodeId),
+          source: params.source,
+          target: params.target,
+        });
+        break;
+      }
       const { trueLabelNodeId, falseLabelNodeId } = params;
       const { target, source } = params;
       const emptyId = uuid();
@@ -1664,6 +2517,85 @@ export function createConnections(params: CreateConnectionsParams): {
       });
       break;
     }
+    case JourneyNodeType.RateLimitNode: {
+      const { withinLimitLabelNodeId, limitedLabelNodeId } = params;
+      const emptyId = uuid();
+
+      newNodes = newNodes.concat([
+        buildBaseJourneyNode({
+          id: params.id,
+          nodeTypeProps: omit(params, ["id", "source", "target"]),
+        }),
+        ...dualNodeNonJourneyNodes({
+          emptyId,
+          leftId: withinLimitLabelNodeId,
+          rightId: limitedLabelNodeId,
+          leftLabel: RATE_LIMIT_WITHIN_LABEL,
+          rightLabel: rateLimitExceededLabel(params),
+        }),
+      ]);
+
+      newEdges = edgesForJourneyNode({
+        type: params.type,
+        nodeId: params.id,
+        emptyId,
+        leftId: withinLimitLabelNodeId,
+        rightId: limitedLabelNodeId,
+        source: params.source,
+        target: params.target,
+      });
+      break;
+    }
+    case JourneyNodeType.HttpRequestNode: {
+      const emptyId = uuid();
+      const branches = httpRequestLabels(params);
+
+      newNodes = newNodes.concat([
+        buildBaseJourneyNode({
+          id: params.id,
+          nodeTypeProps: omit(params, ["id", "source", "target"]),
+        }),
+        ...multiNodeNonJourneyNodes({
+          emptyId,
+          branches,
+        }),
+      ]);
+
+      newEdges = edgesForJourneyNode({
+        type: params.type,
+        nodeId: params.id,
+        emptyId,
+        labelNodeIds: branches.map((b) => b.labelNodeId),
+        source: params.source,
+        target: params.target,
+      });
+      break;
+    }
+    case JourneyNodeType.ExperimentSplitNode: {
+      const emptyId = uuid();
+      const branches = experimentSplitLabels(params);
+
+      newNodes = newNodes.concat([
+        buildBaseJourneyNode({
+          id: params.id,
+          nodeTypeProps: omit(params, ["id", "source", "target"]),
+        }),
+        ...multiNodeNonJourneyNodes({
+          emptyId,
+          branches,
+        }),
+      ]);
+
+      newEdges = edgesForJourneyNode({
+        type: params.type,
+        nodeId: params.id,
+        emptyId,
+        labelNodeIds: branches.map((b) => b.labelNodeId),
+        source: params.source,
+        target: params.target,
+      });
+      break;
+    }
     case JourneyNodeType.DelayNode: {
       newNodes.push(
         buildBaseJourneyNode({
@@ -1771,6 +2703,8 @@ export function journeyDraftToState({
     journeyNodes,
     journeyEdges,
     journeyNodesIndex: buildNodesIndex(journeyNodes),
+    journeyQuietHours: draft.quietHours ?? null,
+    journeyGoal: draft.goal ?? null,
   };
 }
 
@@ -1788,18 +2722,24 @@ export function shouldDraftBeUpdated({
   journeyNodes,
   journeyEdges,
   journeyNodesIndex,
+  journeyQuietHours,
+  journeyGoal,
 }: {
   draft?: JourneyDraft;
   definition?: JourneyDefinition;
   journeyNodes: JourneyUiNode[];
   journeyEdges: JourneyUiEdge[];
   journeyNodesIndex: JourneyState["journeyNodesIndex"];
+  journeyQuietHours: JourneyState["journeyQuietHours"];
+  journeyGoal: JourneyState["journeyGoal"];
 }): boolean {
   if (draft) {
     return !deepEquals(
       journeyStateToDraft({
         journeyNodes,
         journeyEdges,
+        journeyQuietHours,
+        journeyGoal,
       }),
       draft,
     );
@@ -1812,6 +2752,8 @@ export function shouldDraftBeUpdated({
       journeyNodes,
       journeyEdges,
       journeyNodesIndex,
+      journeyQuietHours,
+      journeyGoal,
     },
   });
   if (draftFromStateResult.isErr()) {
@@ -34,12 +34,16 @@ export default function JourneyV2({ id }: { id: string }) {
     journeyEdges,
     journeyNodes,
     journeyNodesIndex,
+    journeyQuietHours,
+    journeyGoal,
   } = useAppStorePick([
     "initJourneyState",
     "viewDraft",
     "journeyEdges",
     "journeyNodes",
     "journeyNodesIndex",
+    "journeyQuietHours",
+    "journeyGoal",
   ]);
 
   const context = useMemo(() => ({ state, setState }), [state, setState]);
@@ -78,6 +82,8 @@ export default function JourneyV2({ id }: { id: string }) {
         journeyEdges,
         journeyNodes,
         journeyNodesIndex,
+        journeyQuietHours,
+        journeyGoal,
       })
     ) {
       return;
@@ -87,11 +93,21 @@ export default function JourneyV2({ id }: { id: string }) {
       draft: journeyStateToDraft({
         journeyEdges,
         journeyNodes,
+        journeyQuietHours,
+        journeyGoal,
       }),
     };
     updateJourney(upsertPayload);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [journey, journeyEdges, journeyNodes, journeyNodesIndex, viewDraft]);
+  }, [
+    journey,
+    journeyEdges,
+    journeyNodes,
+    journeyNodesIndex,
+    journeyQuietHours,
+    journeyGoal,
+    viewDraft,
+  ]);
 
   return (
     <JourneyV2Context.Provider value={context}>
@@ -51,6 +51,8 @@ import {
 } from "../../publisher";
 import { SettingsCommand, SettingsMenu } from "../../settingsMenu";
 import { getGlobalJourneyErrors } from "../globalJourneyErrors";
+import GoalEditor from "../goalEditor";
+import QuietHoursEditor from "../quietHoursEditor";
 import {
   journeyDefinitionFromState,
   journeyDraftToState,
@@ -179,14 +181,23 @@ function JourneyStatusControl() {
     state.id,
   );
   const { data: segmentsResponse } = useSegmentsQuery();
-  const { workspace, journeyNodes, journeyEdges, journeyNodesIndex, member } =
-    useAppStorePick([
-      "workspace",
-      "journeyNodes",
-      "journeyEdges",
-      "journeyNodesIndex",
-      "member",
-    ]);
+  const {
+    workspace,
+    journeyNodes,
+    journeyEdges,
+    journeyNodesIndex,
+    journeyQuietHours,
+    journeyGoal,
+    member,
+  } = useAppStorePick([
+    "workspace",
+    "journeyNodes",
+    "journeyEdges",
+    "journeyNodesIndex",
+    "journeyQuietHours",
+    "journeyGoal",
+    "member",
+  ]);
 
   const segments = useMemo(
     () => segmentsResponse?.segments ?? [],
@@ -206,9 +217,18 @@ function JourneyStatusControl() {
         journeyNodes,
         journeyEdges,
         journeyNodesIndex,
+        journeyQuietHours,
+        journeyGoal,
       },
     }).unwrapOr(null);
-  }, [journeyNodes, journeyEdges, journeyNodesIndex, segments]);
+  }, [
+    journeyNodes,
+    journeyEdges,
+    journeyNodesIndex,
+    journeyQuietHours,
+    journeyGoal,
+    segments,
+  ]);
 
   const statusValue: StatusCopy = useMemo(() => {
     if (!journey) {
@@ -334,6 +354,8 @@ export default function JourneyV2Layout({
     journeyNodes,
     journeyEdges,
     journeyNodesIndex,
+    journeyQuietHours,
+    journeyGoal,
     viewDraft,
     resetJourneyState,
     setViewDraft,
@@ -342,6 +364,8 @@ export default function JourneyV2Layout({
     "journeyNodes",
     "journeyEdges",
     "journeyNodesIndex",
+    "journeyQuietHours",
+    "journeyGoal",
     "viewDraft",
     "resetJourneyState",
     "setViewDraft",
@@ -384,6 +408,8 @@ export default function JourneyV2Layout({
         journeyNodes,
         journeyEdges,
         journeyNodesIndex,
+        journeyQuietHours,
+        journeyGoal,
       },
     });
 
@@ -433,6 +459,8 @@ export default function JourneyV2Layout({
                   journeyEdges: edges,
                   journeyNodes: nodes,
                   journeyNodesIndex: index,
+                  journeyQuietHours: quietHours,
+                  journeyGoal: goal,
                 } = journeyToState({
                   definition,
                   name,
@@ -442,6 +470,8 @@ export default function JourneyV2Layout({
                   edges,
                   nodes,
                   index,
+                  quietHours,
+                  goal,
                 });
               }
             },
@@ -464,12 +494,16 @@ export default function JourneyV2Layout({
             edges: newState.journeyEdges,
             index: newState.journeyNodesIndex,
             nodes: newState.journeyNodes,
+            quietHours: newState.journeyQuietHours,
+            goal: newState.journeyGoal,
           });
         } else if (journey.definition) {
           const {
             journeyEdges: edges,
             journeyNodes: nodes,
             journeyNodesIndex: index,
+            journeyQuietHours: quietHours,
+            journeyGoal: goal,
           } = journeyToState({
             definition: journey.definition,
             name: journey.name,
@@ -478,6 +512,8 @@ export default function JourneyV2Layout({
             edges,
             nodes,
             index,
+            quietHours,
+            goal,
           });
         }
       },
@@ -489,6 +525,8 @@ export default function JourneyV2Layout({
     journeyEdges,
     journeyNodes,
     journeyNodesIndex,
+    journeyQuietHours,
+    journeyGoal,
     segmentsResponse,
     updateJourney,
     viewDraft,
@@ -684,6 +722,10 @@ export default function JourneyV2Layout({
               }
               label="Allow journey to run multiple times per user"
             />
+            <Divider />
+            <QuietHoursEditor disabled={!viewDraft} />
+            <Divider />
+            <GoalEditor disabled={!viewDraft} />
           </Stack>
         </DialogContent>
       </Dialog>
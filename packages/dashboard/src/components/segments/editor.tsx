@@ -3,7 +3,9 @@ import {
   Autocomplete,
   Box,
   Button,
+  Checkbox,
   FormControl,
+  FormControlLabel,
   IconButton,
   InputLabel,
   MenuItem,
@@ -22,9 +24,12 @@ import { round } from "isomorphic-lib/src/numbers";
 import {
   getNewManualSegmentVersion,
   isBodySegmentNode,
+  parseSegmentDate,
 } from "isomorphic-lib/src/segments";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
 import {
+  AggregateSegmentNode,
+  AggregationType,
   BodySegmentNode,
   ChannelType,
   CompletionStatus,
@@ -36,7 +41,9 @@ import {
   ManualSegmentNode,
   PerformedSegmentNode,
   RandomBucketSegmentNode,
+  ReferenceSegmentNode,
   RelationalOperators,
+  SegmentDateOperator,
   SegmentDefinition,
   SegmentEqualsOperator,
   SegmentGreaterThanOrEqualOperator,
@@ -49,7 +56,11 @@ import {
   SegmentOperator,
   SegmentOperatorType,
   SegmentResource,
+  SegmentStringOperator,
+  SegmentWithinDaysDirection,
   SegmentWithinOperator,
+  SequenceSegmentEvent,
+  SequenceSegmentNode,
   SubscriptionGroupSegmentNode,
   SubscriptionGroupType,
   TraitSegmentNode,
@@ -68,6 +79,7 @@ import { useAppStorePick } from "../../lib/appStore";
 import { GroupedOption } from "../../lib/types";
 import { useSegmentQuery } from "../../lib/useSegmentQuery";
 import { useUploadCsvMutation } from "../../lib/useUploadCsvMutation";
+import AggregationSelect from "../aggregationSelect";
 import { CsvUploader } from "../csvUploader";
 import DurationSelect from "../durationSelect";
 import {
@@ -77,6 +89,7 @@ import {
 import { SubtleHeader } from "../headers";
 import InfoTooltip from "../infoTooltip";
 import { MessageTemplateAutocomplete } from "../messageTemplateAutocomplete";
+import { SegmentsAutocomplete } from "../segmentsAutocomplete";
 import { SubscriptionGroupAutocompleteV2 } from "../subscriptionGroupAutocomplete";
 import TraitAutocomplete from "../traitAutocomplete";
 
@@ -285,6 +298,40 @@ function mapSegmentNodeToNewType(
         secondary: [],
       };
     }
+    case SegmentNodeType.Sequence: {
+      return {
+        primary: {
+          type: SegmentNodeType.Sequence,
+          id: node.id,
+          steps: [{ event: "" }, { event: "" }],
+        },
+        secondary: [],
+      };
+    }
+    case SegmentNodeType.Aggregate: {
+      return {
+        primary: {
+          type: SegmentNodeType.Aggregate,
+          id: node.id,
+          event: "",
+          path: "",
+          aggregation: AggregationType.Sum,
+          operator: RelationalOperators.GreaterThanOrEqual,
+          value: 0,
+        },
+        secondary: [],
+      };
+    }
+    case SegmentNodeType.Segment: {
+      return {
+        primary: {
+          type: SegmentNodeType.Segment,
+          id: node.id,
+          segmentId: "",
+        },
+        secondary: [],
+      };
+    }
     case SegmentNodeType.Everyone: {
       return {
         primary: {
@@ -524,10 +571,31 @@ const lastPerformedOption = {
   label: "Last Performed",
 };
 
+const sequenceOption = {
+  id: SegmentNodeType.Sequence,
+  group: "User Data",
+  label: "Performed In Sequence",
+};
+
+const aggregateOption = {
+  id: SegmentNodeType.Aggregate,
+  group: "User Data",
+  label: "Performed Aggregate",
+};
+
+const referenceOption = {
+  id: SegmentNodeType.Segment,
+  group: "User Data",
+  label: "In Segment",
+};
+
 const SEGMENT_OPTIONS: SegmentGroupedOption[] = [
   traitGroupedOption,
   performedOption,
   lastPerformedOption,
+  sequenceOption,
+  aggregateOption,
+  referenceOption,
   everyoneOption,
   randomBucketOption,
   keyedPerformedOption,
@@ -552,6 +620,9 @@ const keyedSegmentOptions: Record<
   [SegmentNodeType.Email]: emailOption,
   [SegmentNodeType.LastPerformed]: lastPerformedOption,
   [SegmentNodeType.RandomBucket]: randomBucketOption,
+  [SegmentNodeType.Sequence]: sequenceOption,
+  [SegmentNodeType.Aggregate]: aggregateOption,
+  [SegmentNodeType.Segment]: referenceOption,
 };
 
 interface Option {
@@ -599,6 +670,72 @@ const notExistsOperatorOption = {
   label: "Not Exists",
 };
 
+const containsOperatorOption = {
+  id: SegmentOperatorType.Contains,
+  label: "Contains",
+};
+
+const startsWithOperatorOption = {
+  id: SegmentOperatorType.StartsWith,
+  label: "Starts With",
+};
+
+const endsWithOperatorOption = {
+  id: SegmentOperatorType.EndsWith,
+  label: "Ends With",
+};
+
+const matchesOperatorOption = {
+  id: SegmentOperatorType.Matches,
+  label: "Matches Regex",
+};
+
+const inOperatorOption = {
+  id: SegmentOperatorType.In,
+  label: "In List",
+};
+
+const notInOperatorOption = {
+  id: SegmentOperatorType.NotIn,
+  label: "Not In List",
+};
+
+const stringOperatorOptions: Option[] = [
+  containsOperatorOption,
+  startsWithOperatorOption,
+  endsWithOperatorOption,
+  matchesOperatorOption,
+  inOperatorOption,
+  notInOperatorOption,
+];
+
+const beforeOperatorOption = {
+  id: SegmentOperatorType.Before,
+  label: "Date Before",
+};
+
+const afterOperatorOption = {
+  id: SegmentOperatorType.After,
+  label: "Date After",
+};
+
+const withinDaysOperatorOption = {
+  id: SegmentOperatorType.WithinDays,
+  label: "Date Within Days",
+};
+
+const anniversaryOperatorOption = {
+  id: SegmentOperatorType.Anniversary,
+  label: "Date Anniversary",
+};
+
+const dateOperatorOptions: Option[] = [
+  beforeOperatorOption,
+  afterOperatorOption,
+  withinDaysOperatorOption,
+  anniversaryOperatorOption,
+];
+
 const traitOperatorOptions: Option[] = [
   equalsOperatorOption,
   notEqualsOperatorOption,
@@ -608,6 +745,8 @@ const traitOperatorOptions: Option[] = [
   notExistsOperatorOption,
   lessThanOperatorOption,
   greaterThanOrEqualOperatorOption,
+  ...stringOperatorOptions,
+  ...dateOperatorOptions,
 ];
 
 const keyedOperatorOptions: Record<SegmentOperatorType, Option> = {
@@ -619,7 +758,80 @@ const keyedOperatorOptions: Record<SegmentOperatorType, Option> = {
   [SegmentOperatorType.NotEquals]: notEqualsOperatorOption,
   [SegmentOperatorType.LessThan]: lessThanOperatorOption,
   [SegmentOperatorType.GreaterThanOrEqual]: greaterThanOrEqualOperatorOption,
+  [SegmentOperatorType.Contains]: containsOperatorOption,
+  [SegmentOperatorType.StartsWith]: startsWithOperatorOption,
+  [SegmentOperatorType.EndsWith]: endsWithOperatorOption,
+  [SegmentOperatorType.Matches]: matchesOperatorOption,
+  [SegmentOperatorType.In]: inOperatorOption,
+  [SegmentOperatorType.NotIn]: notInOperatorOption,
+  [SegmentOperatorType.Before]: beforeOperatorOption,
+  [SegmentOperatorType.After]: afterOperatorOption,
+  [SegmentOperatorType.WithinDays]: withinDaysOperatorOption,
+  [SegmentOperatorType.Anniversary]: anniversaryOperatorOption,
 };
+
+function isStringOperator(
+  operator: SegmentOperator,
+): operator is SegmentStringOperator {
+  return stringOperatorOptions.some((option) => option.id === operator.type);
+}
+
+function defaultSegmentOperator(type: SegmentOperatorType): SegmentOperator {
+  switch (type) {
+    case SegmentOperatorType.Equals:
+    case SegmentOperatorType.NotEquals:
+      return { type, value: "" };
+    case SegmentOperatorType.Within:
+      return { type, windowSeconds: 0 };
+    case SegmentOperatorType.HasBeen:
+      return {
+        type,
+        comparator: SegmentHasBeenOperatorComparator.GTE,
+        value: "",
+        windowSeconds: 0,
+      };
+    case SegmentOperatorType.Exists:
+    case SegmentOperatorType.NotExists:
+      return { type };
+    case SegmentOperatorType.LessThan:
+    case SegmentOperatorType.GreaterThanOrEqual:
+      return { type, value: 0 };
+    case SegmentOperatorType.Contains:
+    case SegmentOperatorType.StartsWith:
+    case SegmentOperatorType.EndsWith:
+    case SegmentOperatorType.Matches:
+      return { type, value: "" };
+    case SegmentOperatorType.In:
+    case SegmentOperatorType.NotIn:
+      return { type, values: [] };
+    case SegmentOperatorType.Before:
+    case SegmentOperatorType.After:
+      return { type, value: new Date().toISOString().slice(0, 10) };
+    case SegmentOperatorType.WithinDays:
+      return { type, days: 7, direction: SegmentWithinDaysDirection.Future };
+    case SegmentOperatorType.Anniversary:
+      return { type };
+    default:
+      assertUnreachable(type);
+  }
+}
+
+/**
+ * Change the type of a property's operator, keeping its value unless the
+ * operator's shape changes.
+ */
+function changePropertyOperatorType(
+  operator: Draft<SegmentOperator>,
+  type: SegmentOperatorType,
+): SegmentOperator {
+  const changed = defaultSegmentOperator(type);
+  if (isStringOperator(changed) || isStringOperator(operator)) {
+    return changed;
+  }
+  // eslint-disable-next-line no-param-reassign
+  operator.type = changed.type;
+  return operator;
+}
 const relationalOperatorNames: [RelationalOperators, string][] = [
   [RelationalOperators.GreaterThanOrEqual, "At least (>=)"],
   [RelationalOperators.LessThan, "Less than (<)"],
@@ -779,6 +991,180 @@ function DurationValueSelect({
   );
 }
 
+function StringOperatorValueSelect({
+  operator,
+  disabled,
+  onChange,
+}: {
+  operator: SegmentStringOperator;
+  disabled?: boolean;
+  onChange: (operator: SegmentStringOperator) => void;
+}) {
+  let valueInput: React.ReactNode;
+  switch (operator.type) {
+    case SegmentOperatorType.In:
+    case SegmentOperatorType.NotIn:
+      valueInput = (
+        <Autocomplete
+          multiple
+          freeSolo
+          disabled={disabled}
+          options={[]}
+          value={operator.values}
+          sx={{ minWidth: selectorWidth }}
+          onChange={(_event, values) => onChange({ ...operator, values })}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Values"
+              placeholder="Press enter to add"
+              InputLabelProps={{
+                shrink: true,
+              }}
+            />
+          )}
+        />
+      );
+      break;
+    case SegmentOperatorType.Matches: {
+      // patterns are evaluated with RE2, which is validated when the segment
+      // is saved, so this only catches malformed patterns while editing
+      let invalidPattern = false;
+      try {
+        // eslint-disable-next-line no-new
+        new RegExp(operator.value);
+      } catch (e) {
+        invalidPattern = true;
+      }
+      valueInput = (
+        <TextField
+          disabled={disabled}
+          label="Pattern"
+          value={operator.value}
+          error={invalidPattern}
+          helperText={invalidPattern ? "Invalid regular expression" : undefined}
+          onChange={(e) => onChange({ ...operator, value: e.target.value })}
+          sx={{ width: selectorWidth }}
+          InputLabelProps={{
+            shrink: true,
+          }}
+        />
+      );
+      break;
+    }
+    case SegmentOperatorType.Contains:
+    case SegmentOperatorType.StartsWith:
+    case SegmentOperatorType.EndsWith:
+      valueInput = (
+        <TextField
+          disabled={disabled}
+          label="Value"
+          value={operator.value}
+          onChange={(e) => onChange({ ...operator, value: e.target.value })}
+          sx={{ width: selectorWidth }}
+          InputLabelProps={{
+            shrink: true,
+          }}
+        />
+      );
+      break;
+    default:
+      assertUnreachable(operator);
+  }
+  return (
+    <>
+      {valueInput}
+      <FormControlLabel
+        label="Ignore Case"
+        disabled={disabled}
+        control={
+          <Checkbox
+            checked={operator.caseInsensitive ?? false}
+            onChange={(e) =>
+              onChange({ ...operator, caseInsensitive: e.target.checked })
+            }
+          />
+        }
+      />
+    </>
+  );
+}
+
+function DateOperatorValueSelect({
+  operator,
+  disabled,
+  onChange,
+}: {
+  operator: SegmentDateOperator;
+  disabled?: boolean;
+  onChange: (operator: SegmentDateOperator) => void;
+}) {
+  switch (operator.type) {
+    case SegmentOperatorType.Before:
+    case SegmentOperatorType.After: {
+      const date = parseSegmentDate(operator.value);
+      return (
+        <TextField
+          disabled={disabled}
+          type="date"
+          label="Date (UTC)"
+          value={date === null ? "" : new Date(date).toISOString().slice(0, 10)}
+          error={date === null}
+          onChange={(e) => onChange({ ...operator, value: e.target.value })}
+          sx={{ width: selectorWidth }}
+          InputLabelProps={{
+            shrink: true,
+          }}
+        />
+      );
+    }
+    case SegmentOperatorType.WithinDays:
+      return (
+        <>
+          <Select
+            disabled={disabled}
+            value={operator.direction}
+            onChange={(e) =>
+              onChange({
+                ...operator,
+                direction: e.target.value as SegmentWithinDaysDirection,
+              })
+            }
+          >
+            <MenuItem value={SegmentWithinDaysDirection.Past}>
+              In the Past
+            </MenuItem>
+            <MenuItem value={SegmentWithinDaysDirection.Future}>
+              In the Next
+            </MenuItem>
+          </Select>
+          <TextField
+            disabled={disabled}
+            type="number"
+            label="Days"
+            value={operator.days}
+            inputProps={{ min: 0 }}
+            onChange={(e) => {
+              const days = Number(e.target.value);
+              if (Number.isNaN(days) || days < 0) {
+                return;
+              }
+              onChange({ ...operator, days });
+            }}
+            sx={{ width: secondarySelectorWidth }}
+            InputLabelProps={{
+              shrink: true,
+            }}
+          />
+        </>
+      );
+    case SegmentOperatorType.Anniversary:
+      return null;
+    default:
+      assertUnreachable(operator);
+  }
+}
+
 function LastPerformedSelect({ node }: { node: LastPerformedSegmentNode }) {
   const { state, setState } = useSegmentEditorContext();
   const { disabled } = state;
@@ -880,7 +1266,10 @@ function LastPerformedSelect({ node }: { node: LastPerformedSegmentNode }) {
           if (!existingProperty) {
             return;
           }
-          existingProperty.operator.type = newOperator;
+          existingProperty.operator = changePropertyOperatorType(
+            existingProperty.operator,
+            newOperator,
+          );
         }
       });
     };
@@ -1027,6 +1416,30 @@ function LastPerformedSelect({ node }: { node: LastPerformedSegmentNode }) {
         operatorEl = null;
         break;
       }
+      case SegmentOperatorType.Contains:
+      case SegmentOperatorType.StartsWith:
+      case SegmentOperatorType.EndsWith:
+      case SegmentOperatorType.Matches:
+      case SegmentOperatorType.In:
+      case SegmentOperatorType.NotIn: {
+        operatorEl = (
+          <StringOperatorValueSelect
+            operator={property.operator}
+            disabled={disabled}
+            onChange={(newOperator) => {
+              updateEditableSegmentNodeData(setState, node.id, (n) => {
+                if (n.type === SegmentNodeType.LastPerformed) {
+                  const existingProperty = n.hasProperties?.[i];
+                  if (existingProperty) {
+                    existingProperty.operator = newOperator;
+                  }
+                }
+              });
+            }}
+          />
+        );
+        break;
+      }
       default: {
         throw new Error(`Unsupported operator type: ${property.operator.type}`);
       }
@@ -1067,6 +1480,11 @@ function LastPerformedSelect({ node }: { node: LastPerformedSegmentNode }) {
           <MenuItem value={SegmentOperatorType.NotExists}>
             {keyedOperatorOptions[SegmentOperatorType.NotExists].label}
           </MenuItem>
+          {stringOperatorOptions.map((option) => (
+            <MenuItem key={option.id} value={option.id}>
+              {option.label}
+            </MenuItem>
+          ))}
         </Select>
         {operatorEl}
         <IconButton
@@ -1117,7 +1535,10 @@ function LastPerformedSelect({ node }: { node: LastPerformedSegmentNode }) {
           if (!existingProperty) {
             return;
           }
-          existingProperty.operator.type = newOperator;
+          existingProperty.operator = changePropertyOperatorType(
+            existingProperty.operator,
+            newOperator,
+          );
         }
       });
     };
@@ -1194,6 +1615,30 @@ function LastPerformedSelect({ node }: { node: LastPerformedSegmentNode }) {
         operatorEl = null;
         break;
       }
+      case SegmentOperatorType.Contains:
+      case SegmentOperatorType.StartsWith:
+      case SegmentOperatorType.EndsWith:
+      case SegmentOperatorType.Matches:
+      case SegmentOperatorType.In:
+      case SegmentOperatorType.NotIn: {
+        operatorEl = (
+          <StringOperatorValueSelect
+            operator={property.operator}
+            disabled={disabled}
+            onChange={(newOperator) => {
+              updateEditableSegmentNodeData(setState, node.id, (n) => {
+                if (n.type === SegmentNodeType.LastPerformed) {
+                  const existingProperty = n.whereProperties?.[i];
+                  if (existingProperty) {
+                    existingProperty.operator = newOperator;
+                  }
+                }
+              });
+            }}
+          />
+        );
+        break;
+      }
       default: {
         throw new Error(`Unsupported operator type: ${property.operator.type}`);
       }
@@ -1228,6 +1673,11 @@ function LastPerformedSelect({ node }: { node: LastPerformedSegmentNode }) {
           <MenuItem value={SegmentOperatorType.NotExists}>
             {keyedOperatorOptions[SegmentOperatorType.NotExists].label}
           </MenuItem>
+          {stringOperatorOptions.map((option) => (
+            <MenuItem key={option.id} value={option.id}>
+              {option.label}
+            </MenuItem>
+          ))}
         </Select>
         {operatorEl}
         <IconButton
@@ -1368,7 +1818,10 @@ function PerformedSelect({ node }: { node: PerformedSegmentNode }) {
           if (!existingProperty) {
             return;
           }
-          existingProperty.operator.type = newOperator;
+          existingProperty.operator = changePropertyOperatorType(
+            existingProperty.operator,
+            newOperator,
+          );
         }
       });
     };
@@ -1481,6 +1934,30 @@ function PerformedSelect({ node }: { node: PerformedSegmentNode }) {
         operatorEl = null;
         break;
       }
+      case SegmentOperatorType.Contains:
+      case SegmentOperatorType.StartsWith:
+      case SegmentOperatorType.EndsWith:
+      case SegmentOperatorType.Matches:
+      case SegmentOperatorType.In:
+      case SegmentOperatorType.NotIn: {
+        operatorEl = (
+          <StringOperatorValueSelect
+            operator={property.operator}
+            disabled={disabled}
+            onChange={(newOperator) => {
+              updateEditableSegmentNodeData(setState, node.id, (n) => {
+                if (n.type === SegmentNodeType.Performed) {
+                  const existingProperty = n.properties?.[i];
+                  if (existingProperty) {
+                    existingProperty.operator = newOperator;
+                  }
+                }
+              });
+            }}
+          />
+        );
+        break;
+      }
       default: {
         throw new Error(`Unsupported operator type: ${property.operator.type}`);
       }
@@ -1515,6 +1992,11 @@ function PerformedSelect({ node }: { node: PerformedSegmentNode }) {
           <MenuItem value={SegmentOperatorType.LessThan}>
             {keyedOperatorOptions[SegmentOperatorType.LessThan].label}
           </MenuItem>
+          {stringOperatorOptions.map((option) => (
+            <MenuItem key={option.id} value={option.id}>
+              {option.label}
+            </MenuItem>
+          ))}
         </Select>
         {operatorEl}
         <IconButton
@@ -1605,59 +2087,578 @@ function PerformedSelect({ node }: { node: PerformedSegmentNode }) {
   );
 }
 
-function KeyedPerformedSelect({ node }: { node: KeyedPerformedSegmentNode }) {
-  const { state, setState } = useSegmentEditorContext();
-  const { disabled } = state;
-
-  const handleEventNameChange = (newEvent: string) => {
-    updateEditableSegmentNodeData(setState, node.id, (n) => {
-      if (n.type === SegmentNodeType.KeyedPerformed) {
-        n.event = newEvent;
-      }
-    });
-  };
-
-  const handleTimesOperatorChange: SelectProps["onChange"] = (e) => {
-    updateEditableSegmentNodeData(setState, node.id, (n) => {
-      if (n.type === SegmentNodeType.KeyedPerformed) {
-        n.timesOperator = e.target.value as RelationalOperators;
-      }
-    });
-  };
-
-  const handleEventTimesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    updateEditableSegmentNodeData(setState, node.id, (n) => {
-      const times = parseInt(e.target.value, 10);
-      if (n.type === SegmentNodeType.KeyedPerformed && !Number.isNaN(times)) {
-        n.times = times;
-      }
+function SequenceEventEditor({
+  event,
+  label,
+  disabled,
+  onUpdate,
+  onDelete,
+}: {
+  event: SequenceSegmentEvent;
+  label: string;
+  disabled?: boolean;
+  onUpdate: (update: (draft: Draft<SequenceSegmentEvent>) => void) => void;
+  onDelete?: () => void;
+}) {
+  const handleAddProperty = () => {
+    onUpdate((draft) => {
+      draft.properties = draft.properties ?? [];
+      draft.properties.push({
+        path: `myPropertyPath${draft.properties.length + 1}`,
+        operator: {
+          type: SegmentOperatorType.Equals,
+          value: "myPropertyValue",
+        },
+      });
     });
   };
 
-  const handleAddProperty = () => {
-    updateEditableSegmentNodeData(setState, node.id, (n) => {
-      if (n.type === SegmentNodeType.KeyedPerformed) {
-        let propertyPath: string | null = null;
-        // put arbtitrary limit on the number of properties
-        for (let i = 0; i < 100; i++) {
-          const propertyCount = n.properties?.length ?? 0;
-          const prospectivePath = `myPropertyPath${propertyCount + 1}`;
-          if (!n.properties?.find((p) => p.path === prospectivePath)) {
-            propertyPath = prospectivePath;
-            break;
-          }
-        }
-        if (propertyPath) {
-          n.properties = n.properties ?? [];
-          n.properties.push({
-            path: propertyPath,
-            operator: {
-              type: SegmentOperatorType.Equals,
-              value: "myPropertyValue",
-            },
-          });
+  const propertyRows = event.properties?.map((property, i) => {
+    const updateOperator = (operator: SegmentOperator) =>
+      onUpdate((draft) => {
+        const existingProperty = draft.properties?.[i];
+        if (existingProperty) {
+          existingProperty.operator = operator;
         }
-      }
+      });
+    let operatorEl: React.ReactNode;
+    switch (property.operator.type) {
+      case SegmentOperatorType.Equals: {
+        const { operator } = property;
+        operatorEl = (
+          <TextField
+            label="Property Value"
+            disabled={disabled}
+            value={operator.value}
+            onChange={(e) =>
+              updateOperator({ ...operator, value: e.target.value })
+            }
+            InputLabelProps={{
+              shrink: true,
+            }}
+          />
+        );
+        break;
+      }
+      case SegmentOperatorType.GreaterThanOrEqual:
+      case SegmentOperatorType.LessThan: {
+        const { operator } = property;
+        operatorEl = (
+          <TextField
+            label="Property Value"
+            disabled={disabled}
+            InputProps={{
+              type: "number",
+            }}
+            value={operator.value}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (!Number.isNaN(value)) {
+                updateOperator({ ...operator, value });
+              }
+            }}
+            InputLabelProps={{
+              shrink: true,
+            }}
+          />
+        );
+        break;
+      }
+      case SegmentOperatorType.Contains:
+      case SegmentOperatorType.StartsWith:
+      case SegmentOperatorType.EndsWith:
+      case SegmentOperatorType.Matches:
+      case SegmentOperatorType.In:
+      case SegmentOperatorType.NotIn: {
+        operatorEl = (
+          <StringOperatorValueSelect
+            operator={property.operator}
+            disabled={disabled}
+            onChange={updateOperator}
+          />
+        );
+        break;
+      }
+      default:
+        operatorEl = null;
+    }
+    return (
+      <Stack
+        // eslint-disable-next-line react/no-array-index-key
+        key={i}
+        direction="row"
+        spacing={1}
+        sx={{
+          alignItems: "center",
+        }}
+      >
+        <PropertiesAutocomplete
+          event={event.event}
+          property={property.path}
+          disabled={disabled}
+          onPropertyChange={(newPath) =>
+            onUpdate((draft) => {
+              const existingProperty = draft.properties?.[i];
+              if (existingProperty) {
+                existingProperty.path = newPath;
+              }
+            })
+          }
+          sx={{ width: selectorWidth }}
+        />
+        <Select
+          value={property.operator.type}
+          disabled={disabled}
+          onChange={(e) =>
+            onUpdate((draft) => {
+              const existingProperty = draft.properties?.[i];
+              if (existingProperty) {
+                existingProperty.operator = changePropertyOperatorType(
+                  existingProperty.operator,
+                  e.target.value as SegmentOperatorType,
+                );
+              }
+            })
+          }
+        >
+          {[
+            equalsOperatorOption,
+            existsOperatorOption,
+            greaterThanOrEqualOperatorOption,
+            lessThanOperatorOption,
+            ...stringOperatorOptions,
+          ].map((option) => (
+            <MenuItem key={option.id} value={option.id}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </Select>
+        {operatorEl}
+        <IconButton
+          color="error"
+          size="large"
+          disabled={disabled}
+          onClick={() =>
+            onUpdate((draft) => {
+              draft.properties = draft.properties?.filter(
+                (_, index) => index !== i,
+              );
+            })
+          }
+        >
+          <Delete />
+        </IconButton>
+      </Stack>
+    );
+  });
+
+  return (
+    <Stack direction="column" spacing={1}>
+      <Stack direction="row" spacing={1} sx={{ alignItems: "center" }}>
+        <Typography sx={{ width: 140 }}>{label}</Typography>
+        <EventNamesAutocomplete
+          event={event.event}
+          disabled={disabled}
+          onEventChange={(newEvent) =>
+            onUpdate((draft) => {
+              draft.event = newEvent;
+            })
+          }
+          sx={{ width: selectorWidth }}
+        />
+        <Button
+          variant="contained"
+          disabled={disabled}
+          onClick={handleAddProperty}
+        >
+          Property
+        </Button>
+        {onDelete ? (
+          <IconButton
+            color="error"
+            size="large"
+            disabled={disabled}
+            onClick={onDelete}
+          >
+            <Delete />
+          </IconButton>
+        ) : null}
+      </Stack>
+      {propertyRows}
+    </Stack>
+  );
+}
+
+function SequenceSelect({ node }: { node: SequenceSegmentNode }) {
+  const { state, setState } = useSegmentEditorContext();
+  const disabled = state.disabled ?? false;
+
+  const updateSequence = (
+    update: (sequence: Draft<SequenceSegmentNode>) => void,
+  ) => {
+    updateEditableSegmentNodeData(setState, node.id, (n) => {
+      if (n.type === SegmentNodeType.Sequence) {
+        update(n);
+      }
+    });
+  };
+
+  const stepRows = node.steps.map((step, i) => (
+    <SequenceEventEditor
+      // eslint-disable-next-line react/no-array-index-key
+      key={i}
+      event={step}
+      label={`Step ${i + 1}`}
+      disabled={disabled}
+      onUpdate={(update) =>
+        updateSequence((n) => {
+          const draftStep = n.steps[i];
+          if (draftStep) {
+            update(draftStep);
+          }
+        })
+      }
+      onDelete={
+        node.steps.length > 1
+          ? () =>
+              updateSequence((n) => {
+                n.steps.splice(i, 1);
+                // keep exclusions between the same steps, dropping those
+                // which no longer fall between two steps
+                n.exclusions = n.exclusions
+                  ?.map((exclusion) => ({
+                    ...exclusion,
+                    afterStep:
+                      exclusion.afterStep >= i
+                        ? exclusion.afterStep - 1
+                        : exclusion.afterStep,
+                  }))
+                  .filter(
+                    (exclusion) =>
+                      exclusion.afterStep >= 0 &&
+                      exclusion.afterStep < n.steps.length - 1,
+                  );
+              })
+          : undefined
+      }
+    />
+  ));
+
+  const exclusionRows = node.exclusions?.map((exclusion, i) => (
+    // eslint-disable-next-line react/no-array-index-key
+    <Stack key={i} direction="column" spacing={1}>
+      <Select
+        value={exclusion.afterStep}
+        disabled={disabled}
+        sx={{ width: selectorWidth }}
+        onChange={(e) =>
+          updateSequence((n) => {
+            const draftExclusion = n.exclusions?.[i];
+            if (draftExclusion) {
+              draftExclusion.afterStep = Number(e.target.value);
+            }
+          })
+        }
+      >
+        {node.steps.slice(0, -1).map((_step, stepIndex) => (
+          // eslint-disable-next-line react/no-array-index-key
+          <MenuItem key={stepIndex} value={stepIndex}>
+            Between Step {stepIndex + 1} and Step {stepIndex + 2}
+          </MenuItem>
+        ))}
+      </Select>
+      <SequenceEventEditor
+        event={exclusion}
+        label="Not Performed"
+        disabled={disabled}
+        onUpdate={(update) =>
+          updateSequence((n) => {
+            const draftExclusion = n.exclusions?.[i];
+            if (draftExclusion) {
+              update(draftExclusion);
+            }
+          })
+        }
+        onDelete={() =>
+          updateSequence((n) => {
+            n.exclusions = n.exclusions?.filter((_, index) => index !== i);
+          })
+        }
+      />
+    </Stack>
+  ));
+
+  const durationRow = (
+    key: "maxSecondsBetweenSteps" | "withinSeconds",
+    label: string,
+  ) => {
+    const seconds = node[key];
+    if (seconds === undefined) {
+      return null;
+    }
+    return (
+      <Stack direction="row" spacing={1}>
+        <DurationSelect
+          value={seconds}
+          inputLabel={label}
+          disabled={disabled}
+          onChange={(newSeconds) =>
+            updateSequence((n) => {
+              n[key] = newSeconds;
+            })
+          }
+        />
+        <IconButton
+          color="error"
+          size="large"
+          disabled={disabled}
+          onClick={() =>
+            updateSequence((n) => {
+              n[key] = undefined;
+            })
+          }
+        >
+          <Delete />
+        </IconButton>
+      </Stack>
+    );
+  };
+
+  return (
+    <Stack direction="column" spacing={2}>
+      {stepRows}
+      <Stack direction="row" spacing={1}>
+        <Button
+          variant="contained"
+          disabled={disabled}
+          onClick={() =>
+            updateSequence((n) => {
+              n.steps.push({ event: "" });
+            })
+          }
+        >
+          Step
+        </Button>
+        <Button
+          variant="contained"
+          disabled={disabled || node.steps.length < 2}
+          onClick={() =>
+            updateSequence((n) => {
+              n.exclusions = n.exclusions ?? [];
+              n.exclusions.push({ event: "", afterStep: 0 });
+            })
+          }
+        >
+          Exclusion
+        </Button>
+        <Button
+          variant="contained"
+          disabled={disabled || node.maxSecondsBetweenSteps !== undefined}
+          onClick={() =>
+            updateSequence((n) => {
+              n.maxSecondsBetweenSteps = 60 * 60;
+            })
+          }
+        >
+          Time Between Steps
+        </Button>
+        <Button
+          variant="contained"
+          disabled={disabled || node.withinSeconds !== undefined}
+          onClick={() =>
+            updateSequence((n) => {
+              n.withinSeconds = 24 * 60 * 60;
+            })
+          }
+        >
+          Time Window
+        </Button>
+      </Stack>
+      {exclusionRows?.length ? <SubtleHeader>Exclusions</SubtleHeader> : null}
+      {exclusionRows}
+      {node.maxSecondsBetweenSteps !== undefined ||
+      node.withinSeconds !== undefined ? (
+        <SubtleHeader>Time Limits</SubtleHeader>
+      ) : null}
+      {durationRow("maxSecondsBetweenSteps", "Each Step Within")}
+      {durationRow("withinSeconds", "All Steps Within")}
+    </Stack>
+  );
+}
+
+function AggregateSelect({ node }: { node: AggregateSegmentNode }) {
+  const { state, setState } = useSegmentEditorContext();
+  const disabled = state.disabled ?? false;
+
+  const updateAggregate = (
+    update: (aggregate: Draft<AggregateSegmentNode>) => void,
+  ) => {
+    updateEditableSegmentNodeData(setState, node.id, (n) => {
+      if (n.type === SegmentNodeType.Aggregate) {
+        update(n);
+      }
+    });
+  };
+
+  return (
+    <Stack direction="column" spacing={2}>
+      <SequenceEventEditor
+        event={node}
+        label="Event"
+        disabled={disabled}
+        onUpdate={updateAggregate}
+      />
+      <Stack direction="row" spacing={1} sx={{ alignItems: "center" }}>
+        <AggregationSelect
+          value={node.aggregation}
+          disabled={disabled}
+          onChange={(aggregation) =>
+            updateAggregate((n) => {
+              n.aggregation = aggregation;
+            })
+          }
+        />
+        <PropertiesAutocomplete
+          event={node.event}
+          property={node.path}
+          label="Aggregated Property Path"
+          disabled={disabled}
+          onPropertyChange={(path) =>
+            updateAggregate((n) => {
+              n.path = path;
+            })
+          }
+          sx={{ width: selectorWidth }}
+        />
+        <Select
+          disabled={disabled}
+          value={node.operator}
+          onChange={(e) =>
+            updateAggregate((n) => {
+              n.operator = e.target.value as RelationalOperators;
+            })
+          }
+        >
+          {relationalOperatorNames.map(([operator, label]) => (
+            <MenuItem key={operator} value={operator}>
+              {label}
+            </MenuItem>
+          ))}
+        </Select>
+        <TextField
+          disabled={disabled}
+          label="Value"
+          InputProps={{
+            type: "number",
+          }}
+          value={String(node.value)}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            if (!Number.isNaN(value)) {
+              updateAggregate((n) => {
+                n.value = value;
+              });
+            }
+          }}
+        />
+        <Button
+          variant="contained"
+          disabled={disabled || node.withinSeconds !== undefined}
+          onClick={() =>
+            updateAggregate((n) => {
+              n.withinSeconds = 30 * 24 * 60 * 60;
+            })
+          }
+        >
+          Time Window
+        </Button>
+      </Stack>
+      {node.withinSeconds !== undefined ? (
+        <>
+          <SubtleHeader>Time Window</SubtleHeader>
+          <Stack direction="row" spacing={1}>
+            <DurationSelect
+              value={node.withinSeconds}
+              inputLabel="Events Occurred Within The Last"
+              disabled={disabled}
+              onChange={(seconds) =>
+                updateAggregate((n) => {
+                  n.withinSeconds = seconds;
+                })
+              }
+            />
+            <IconButton
+              color="error"
+              size="large"
+              disabled={disabled}
+              onClick={() =>
+                updateAggregate((n) => {
+                  n.withinSeconds = undefined;
+                })
+              }
+            >
+              <Delete />
+            </IconButton>
+          </Stack>
+        </>
+      ) : null}
+    </Stack>
+  );
+}
+
+function KeyedPerformedSelect({ node }: { node: KeyedPerformedSegmentNode }) {
+  const { state, setState } = useSegmentEditorContext();
+  const { disabled } = state;
+
+  const handleEventNameChange = (newEvent: string) => {
+    updateEditableSegmentNodeData(setState, node.id, (n) => {
+      if (n.type === SegmentNodeType.KeyedPerformed) {
+        n.event = newEvent;
+      }
+    });
+  };
+
+  const handleTimesOperatorChange: SelectProps["onChange"] = (e) => {
+    updateEditableSegmentNodeData(setState, node.id, (n) => {
+      if (n.type === SegmentNodeType.KeyedPerformed) {
+        n.timesOperator = e.target.value as RelationalOperators;
+      }
+    });
+  };
+
+  const handleEventTimesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateEditableSegmentNodeData(setState, node.id, (n) => {
+      const times = parseInt(e.target.value, 10);
+      if (n.type === SegmentNodeType.KeyedPerformed && !Number.isNaN(times)) {
+        n.times = times;
+      }
+    });
+  };
+
+  const handleAddProperty = () => {
+    updateEditableSegmentNodeData(setState, node.id, (n) => {
+      if (n.type === SegmentNodeType.KeyedPerformed) {
+        let propertyPath: string | null = null;
+        // put arbtitrary limit on the number of properties
+        for (let i = 0; i < 100; i++) {
+          const propertyCount = n.properties?.length ?? 0;
+          const prospectivePath = `myPropertyPath${propertyCount + 1}`;
+          if (!n.properties?.find((p) => p.path === prospectivePath)) {
+            propertyPath = prospectivePath;
+            break;
+          }
+        }
+        if (propertyPath) {
+          n.properties = n.properties ?? [];
+          n.properties.push({
+            path: propertyPath,
+            operator: {
+              type: SegmentOperatorType.Equals,
+              value: "myPropertyValue",
+            },
+          });
+        }
+      }
     });
   };
 
@@ -2066,6 +3067,46 @@ function SubscriptionGroupSelect({
   );
 }
 
+function ReferenceSelect({ node }: { node: ReferenceSegmentNode }) {
+  const { state, setState } = useSegmentEditorContext();
+  const { disabled } = state;
+
+  return (
+    <>
+      <Box sx={{ width: secondarySelectorWidth }}>
+        <Select
+          disabled={disabled}
+          value={node.not ? "not" : "in"}
+          onChange={(e) => {
+            updateEditableSegmentNodeData(setState, node.id, (segmentNode) => {
+              if (segmentNode.type === SegmentNodeType.Segment) {
+                segmentNode.not = e.target.value === "not";
+              }
+            });
+          }}
+        >
+          <MenuItem value="in">In</MenuItem>
+          <MenuItem value="not">Not In</MenuItem>
+        </Select>
+      </Box>
+      <Box sx={{ width: selectorWidth }}>
+        <SegmentsAutocomplete
+          disabled={disabled}
+          segmentId={node.segmentId}
+          excludeSegmentId={state.editedSegment.id}
+          handler={(newValue) => {
+            updateEditableSegmentNodeData(setState, node.id, (segmentNode) => {
+              if (newValue && segmentNode.type === SegmentNodeType.Segment) {
+                segmentNode.segmentId = newValue.id;
+              }
+            });
+          }}
+        />
+      </Box>
+    </>
+  );
+}
+
 function TraitSelect({ node }: { node: TraitSegmentNode }) {
   const traitPath = node.path;
   const { state, setState } = useSegmentEditorContext();
@@ -2157,6 +3198,46 @@ function TraitSelect({ node }: { node: TraitSegmentNode }) {
       );
       break;
     }
+    case SegmentOperatorType.Contains:
+    case SegmentOperatorType.StartsWith:
+    case SegmentOperatorType.EndsWith:
+    case SegmentOperatorType.Matches:
+    case SegmentOperatorType.In:
+    case SegmentOperatorType.NotIn: {
+      valueSelect = (
+        <StringOperatorValueSelect
+          operator={node.operator}
+          disabled={disabled}
+          onChange={(newOperator) => {
+            updateEditableSegmentNodeData(setState, node.id, (segmentNode) => {
+              if (segmentNode.type === SegmentNodeType.Trait) {
+                segmentNode.operator = newOperator;
+              }
+            });
+          }}
+        />
+      );
+      break;
+    }
+    case SegmentOperatorType.Before:
+    case SegmentOperatorType.After:
+    case SegmentOperatorType.WithinDays:
+    case SegmentOperatorType.Anniversary: {
+      valueSelect = (
+        <DateOperatorValueSelect
+          operator={node.operator}
+          disabled={disabled}
+          onChange={(newOperator) => {
+            updateEditableSegmentNodeData(setState, node.id, (segmentNode) => {
+              if (segmentNode.type === SegmentNodeType.Trait) {
+                segmentNode.operator = newOperator;
+              }
+            });
+          }}
+        />
+      );
+      break;
+    }
     default: {
       assertUnreachable(node.operator);
     }
@@ -2189,69 +3270,7 @@ function TraitSelect({ node }: { node: TraitSegmentNode }) {
                 segmentNode.type === SegmentNodeType.Trait &&
                 newValue.id !== segmentNode.operator.type
               ) {
-                let nodeOperator: SegmentOperator;
-                switch (newValue.id) {
-                  case SegmentOperatorType.Equals: {
-                    nodeOperator = {
-                      type: SegmentOperatorType.Equals,
-                      value: "",
-                    };
-                    break;
-                  }
-                  case SegmentOperatorType.Within: {
-                    nodeOperator = {
-                      type: SegmentOperatorType.Within,
-                      windowSeconds: 0,
-                    };
-                    break;
-                  }
-                  case SegmentOperatorType.HasBeen: {
-                    nodeOperator = {
-                      type: SegmentOperatorType.HasBeen,
-                      comparator: SegmentHasBeenOperatorComparator.GTE,
-                      value: "",
-                      windowSeconds: 0,
-                    };
-                    break;
-                  }
-                  case SegmentOperatorType.Exists: {
-                    nodeOperator = {
-                      type: SegmentOperatorType.Exists,
-                    };
-                    break;
-                  }
-                  case SegmentOperatorType.NotExists: {
-                    nodeOperator = {
-                      type: SegmentOperatorType.NotExists,
-                    };
-                    break;
-                  }
-                  case SegmentOperatorType.NotEquals: {
-                    nodeOperator = {
-                      type: SegmentOperatorType.NotEquals,
-                      value: "",
-                    };
-                    break;
-                  }
-                  case SegmentOperatorType.LessThan: {
-                    nodeOperator = {
-                      type: SegmentOperatorType.LessThan,
-                      value: 0,
-                    };
-                    break;
-                  }
-                  case SegmentOperatorType.GreaterThanOrEqual: {
-                    nodeOperator = {
-                      type: SegmentOperatorType.GreaterThanOrEqual,
-                      value: 0,
-                    };
-                    break;
-                  }
-                  default: {
-                    assertUnreachable(newValue.id);
-                  }
-                }
-                segmentNode.operator = nodeOperator;
+                segmentNode.operator = defaultSegmentOperator(newValue.id);
               }
             });
           }}
@@ -2567,6 +3586,33 @@ function SegmentNodeComponent({
         {deleteButton}
       </Stack>
     );
+  } else if (node.type === SegmentNodeType.Sequence) {
+    el = (
+      <Stack direction="row" spacing={1}>
+        {labelEl}
+        {conditionSelect}
+        <SequenceSelect node={node} />
+        {deleteButton}
+      </Stack>
+    );
+  } else if (node.type === SegmentNodeType.Aggregate) {
+    el = (
+      <Stack direction="row" spacing={1}>
+        {labelEl}
+        {conditionSelect}
+        <AggregateSelect node={node} />
+        {deleteButton}
+      </Stack>
+    );
+  } else if (node.type === SegmentNodeType.Segment) {
+    el = (
+      <Stack direction="row" spacing={1}>
+        {labelEl}
+        {conditionSelect}
+        <ReferenceSelect node={node} />
+        {deleteButton}
+      </Stack>
+    );
   } else if (node.type === SegmentNodeType.Everyone) {
     el = (
       <Stack direction="row" spacing={1}>
@@ -250,6 +250,13 @@ export function SegmentEditorV2({
         draft.snackbarMessage = "Segment saved successfully!";
       });
     },
+    onError: (error) => {
+      setState((draft) => {
+        draft.snackbarOpen = true;
+        draft.snackbarMessage =
+          error.response?.data.message ?? "Failed to save segment.";
+      });
+    },
   });
 
   const handleDefinitionSave = useCallback(() => {
@@ -57,6 +57,7 @@ import {
 import { AxiosError } from "axios";
 import formatDistanceToNow from "date-fns/formatDistanceToNow";
 import { DEFAULT_SEGMENT_DEFINITION } from "isomorphic-lib/src/constants";
+import { getReferencedSegmentIds } from "isomorphic-lib/src/segments";
 import {
   CompletionStatus,
   ComputedPropertyPeriod,
@@ -85,6 +86,7 @@ import { RelatedResourceSelect } from "../resourceTable";
 export type SegmentsAllowedColumn =
   | "name"
   | "journeysUsedBy"
+  | "segmentsUsedBy"
   | "lastRecomputed"
   | "updatedAt"
   | "actions";
@@ -92,6 +94,7 @@ export type SegmentsAllowedColumn =
 export const DEFAULT_ALLOWED_SEGMENTS_COLUMNS: SegmentsAllowedColumn[] = [
   "name",
   "journeysUsedBy",
+  "segmentsUsedBy",
   "lastRecomputed",
   "updatedAt",
   "actions",
@@ -99,6 +102,7 @@ export const DEFAULT_ALLOWED_SEGMENTS_COLUMNS: SegmentsAllowedColumn[] = [
 
 type Row = SegmentResource & {
   journeysUsedBy: MinimalJourneysResource[];
+  segmentsUsedBy: Pick<SegmentResource, "id" | "name">[];
 };
 
 // TimeCell for displaying timestamps like createdAt
@@ -290,6 +294,29 @@ function JourneysCell({ getValue }: CellContext<Row, unknown>) {
   );
 }
 
+function SegmentsCell({ getValue }: CellContext<Row, unknown>) {
+  const segments = getValue<Row["segmentsUsedBy"]>();
+  const universalRouter = useUniversalRouter();
+
+  if (segments.length === 0) {
+    return null;
+  }
+
+  const relatedLabel = `${segments.length} ${segments.length === 1 ? "Segment" : "Segments"}`;
+
+  const relatedResources = segments.map((segment) => ({
+    href: universalRouter.mapUrl("/segments/v1", { id: segment.id }),
+    name: segment.name,
+  }));
+
+  return (
+    <RelatedResourceSelect
+      label={relatedLabel}
+      relatedResources={relatedResources}
+    />
+  );
+}
+
 export function SegmentsTable({
   sx,
   columnAllowList = DEFAULT_ALLOWED_SEGMENTS_COLUMNS,
@@ -338,10 +365,19 @@ export function SegmentsTable({
         journeysBySegmentId.set(journeySegment, existingJourneys);
       }
     }
+    const segmentsBySegmentId = new Map<string, Row["segmentsUsedBy"]>();
+    for (const segment of segmentsQuery.data.segments) {
+      for (const referencedId of getReferencedSegmentIds(segment.definition)) {
+        const existingSegments = segmentsBySegmentId.get(referencedId) ?? [];
+        existingSegments.push(segment);
+        segmentsBySegmentId.set(referencedId, existingSegments);
+      }
+    }
     return segmentsQuery.data.segments.map((segment) => ({
       ...segment,
       lastRecomputedAt: periodBySegmentId.get(segment.id)?.lastRecomputed,
       journeysUsedBy: journeysBySegmentId.get(segment.id) ?? [],
+      segmentsUsedBy: segmentsBySegmentId.get(segment.id) ?? [],
     }));
   }, [
     segmentsQuery.data?.segments,
@@ -366,8 +402,10 @@ export function SegmentsTable({
       setSnackbarMessage("Segment deleted successfully!");
       setSnackbarOpen(true);
     },
-    onError: () => {
-      setSnackbarMessage("Failed to delete segment.");
+    onError: (error) => {
+      setSnackbarMessage(
+        error.response?.data.message ?? "Failed to delete segment.",
+      );
       setSnackbarOpen(true);
     },
   });
@@ -441,6 +479,13 @@ export function SegmentsTable({
         cell: JourneysCell,
         enableSorting: false,
       },
+      segmentsUsedBy: {
+        id: "segmentsUsedBy",
+        header: "Segments Used By",
+        accessorKey: "segmentsUsedBy",
+        cell: SegmentsCell,
+        enableSorting: false,
+      },
       lastRecomputed: {
         id: "lastRecomputed",
         header: "Last Recomputed",
@@ -17,10 +17,12 @@ export type SegmentChangeHandler = (segment: SimpleSegment | null) => void;
 
 export function SegmentsAutocomplete({
   segmentId,
+  excludeSegmentId,
   disabled,
   handler,
 }: {
   segmentId?: string;
+  excludeSegmentId?: string;
   disabled?: boolean;
   handler: SegmentChangeHandler;
 }) {
@@ -31,8 +33,10 @@ export function SegmentsAutocomplete({
     if (!segments) {
       return [];
     }
-    return segments;
-  }, [queryData]);
+    return excludeSegmentId
+      ? segments.filter((sg) => sg.id !== excludeSegmentId)
+      : segments;
+  }, [queryData, excludeSegmentId]);
 
   const segment = useMemo(() => {
     return (
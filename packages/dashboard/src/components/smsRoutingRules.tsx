@@ -0,0 +1,290 @@
+import { AddCircleOutline, DeleteOutline } from "@mui/icons-material";
+import { LoadingButton } from "@mui/lab";
+import {
+  Button,
+  IconButton,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
+import {
+  SmsProviderType,
+  SmsRouteSender,
+  SmsRouteSenderType,
+  SmsRoutingRule,
+} from "isomorphic-lib/src/types";
+import { enqueueSnackbar } from "notistack";
+import { useEffect } from "react";
+import { useImmer } from "use-immer";
+import { v4 as uuid } from "uuid";
+
+import { useAppStorePick } from "../lib/appStore";
+import { noticeAnchorOrigin } from "../lib/notices";
+import { useSmsRoutingQuery } from "../lib/useSmsRoutingQuery";
+import { useUpdateSmsRoutingMutation } from "../lib/useUpdateSmsRoutingMutation";
+
+interface RuleRow {
+  id: string;
+  countryPrefix: string;
+  provider: SmsProviderType | "";
+  senderType: SmsRouteSenderType | "";
+  senderValue: string;
+  fallbackProvider: SmsProviderType | "";
+}
+
+const PROVIDER_LABELS: Record<SmsProviderType, string> = {
+  [SmsProviderType.Twilio]: "Twilio",
+  [SmsProviderType.Vonage]: "Vonage",
+  [SmsProviderType.Sns]: "Amazon SNS",
+  [SmsProviderType.Test]: "Test",
+};
+
+const SENDER_LABELS: Record<SmsRouteSenderType, string> = {
+  [SmsRouteSenderType.PhoneNumber]: "Phone Number",
+  [SmsRouteSenderType.AlphanumericSenderId]: "Alphanumeric Sender ID",
+  [SmsRouteSenderType.MessagingService]: "Messaging Service SID",
+};
+
+function ruleToRow(rule: SmsRoutingRule): RuleRow {
+  let senderValue = "";
+  switch (rule.sender?.type) {
+    case SmsRouteSenderType.PhoneNumber:
+      senderValue = rule.sender.phone;
+      break;
+    case SmsRouteSenderType.AlphanumericSenderId:
+      senderValue = rule.sender.senderId;
+      break;
+    case SmsRouteSenderType.MessagingService:
+      senderValue = rule.sender.messagingServiceSid;
+      break;
+    default:
+      break;
+  }
+  return {
+    id: rule.id,
+    countryPrefix: rule.countryPrefix,
+    provider: rule.provider,
+    senderType: rule.sender?.type ?? "",
+    senderValue,
+    fallbackProvider: rule.fallbackProvider ?? "",
+  };
+}
+
+function rowToSender(row: RuleRow): SmsRouteSender | null {
+  const value = row.senderValue.trim();
+  if (!row.senderType || !value) {
+    return null;
+  }
+  switch (row.senderType) {
+    case SmsRouteSenderType.PhoneNumber:
+      return { type: row.senderType, phone: value };
+    case SmsRouteSenderType.AlphanumericSenderId:
+      return { type: row.senderType, senderId: value };
+    case SmsRouteSenderType.MessagingService:
+      return { type: row.senderType, messagingServiceSid: value };
+    default:
+      assertUnreachable(row.senderType);
+  }
+}
+
+function rowToRule(row: RuleRow): SmsRoutingRule | null {
+  const countryPrefix = row.countryPrefix.trim().replace(/^\+/, "");
+  if (!countryPrefix || !row.provider) {
+    return null;
+  }
+  return {
+    id: row.id,
+    countryPrefix,
+    provider: row.provider,
+    sender: rowToSender(row),
+    fallbackProvider: row.fallbackProvider || null,
+  };
+}
+
+export default function SmsRoutingRules() {
+  const { smsProviders } = useAppStorePick(["smsProviders"]);
+  const { data } = useSmsRoutingQuery();
+  const [rows, setRows] = useImmer<RuleRow[]>([]);
+  const updateMutation = useUpdateSmsRoutingMutation({
+    onSuccess: () => {
+      enqueueSnackbar("Saved SMS routing rules.", {
+        variant: "success",
+        autoHideDuration: 3000,
+        anchorOrigin: noticeAnchorOrigin,
+      });
+    },
+    onError: () => {
+      enqueueSnackbar("API Error: Failed to save SMS routing rules.", {
+        variant: "error",
+        autoHideDuration: 3000,
+        anchorOrigin: noticeAnchorOrigin,
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setRows(data.rules.map(ruleToRow));
+    }
+  }, [data, setRows]);
+
+  // twilio providers predate the type field
+  const providerOptions = smsProviders.map(
+    (p) => p.type ?? SmsProviderType.Twilio,
+  );
+
+  const handleSave = () => {
+    const rules = rows.flatMap((row) => rowToRule(row) ?? []);
+    updateMutation.mutate(rules);
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="body2">
+        Route messages by the country calling code of the recipient&apos;s phone
+        number. The rule with the longest matching prefix is used, and messages
+        which match no rule are sent with the default provider. If the
+        rule&apos;s provider rejects a message, it is retried with the fallback
+        provider.
+      </Typography>
+      {rows.map((row, i) => (
+        <Stack key={row.id} direction="row" spacing={1} alignItems="center">
+          <TextField
+            label="Country Code"
+            placeholder="44"
+            value={row.countryPrefix}
+            sx={{ width: 120 }}
+            onChange={(e) =>
+              setRows((draft) => {
+                const draftRow = draft[i];
+                if (draftRow) {
+                  draftRow.countryPrefix = e.target.value;
+                }
+              })
+            }
+          />
+          <TextField
+            select
+            label="Provider"
+            value={row.provider}
+            sx={{ width: 160 }}
+            onChange={(e) =>
+              setRows((draft) => {
+                const draftRow = draft[i];
+                if (draftRow) {
+                  draftRow.provider = e.target.value as SmsProviderType;
+                }
+              })
+            }
+          >
+            {providerOptions.map((type) => (
+              <MenuItem key={type} value={type}>
+                {PROVIDER_LABELS[type]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Sender"
+            value={row.senderType}
+            sx={{ width: 220 }}
+            onChange={(e) =>
+              setRows((draft) => {
+                const draftRow = draft[i];
+                if (draftRow) {
+                  draftRow.senderType = e.target.value as
+                    | SmsRouteSenderType
+                    | "";
+                }
+              })
+            }
+          >
+            <MenuItem value="">Provider Default</MenuItem>
+            {Object.values(SmsRouteSenderType).map((type) => (
+              <MenuItem key={type} value={type}>
+                {SENDER_LABELS[type]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label="Sender Value"
+            value={row.senderValue}
+            disabled={!row.senderType}
+            sx={{ flex: 1 }}
+            onChange={(e) =>
+              setRows((draft) => {
+                const draftRow = draft[i];
+                if (draftRow) {
+                  draftRow.senderValue = e.target.value;
+                }
+              })
+            }
+          />
+          <TextField
+            select
+            label="Fallback Provider"
+            value={row.fallbackProvider}
+            sx={{ width: 160 }}
+            onChange={(e) =>
+              setRows((draft) => {
+                const draftRow = draft[i];
+                if (draftRow) {
+                  draftRow.fallbackProvider = e.target.value as
+                    | SmsProviderType
+                    | "";
+                }
+              })
+            }
+          >
+            <MenuItem value="">None</MenuItem>
+            {providerOptions
+              .filter((type) => type !== row.provider)
+              .map((type) => (
+                <MenuItem key={type} value={type}>
+                  {PROVIDER_LABELS[type]}
+                </MenuItem>
+              ))}
+          </TextField>
+          <IconButton
+            aria-label="Delete routing rule"
+            onClick={() =>
+              setRows((draft) => {
+                draft.splice(i, 1);
+              })
+            }
+          >
+            <DeleteOutline />
+          </IconButton>
+        </Stack>
+      ))}
+      <Stack direction="row" justifyContent="space-between">
+        <Button
+          startIcon={<AddCircleOutline />}
+          onClick={() =>
+            setRows((draft) => {
+              draft.push({
+                id: uuid(),
+                countryPrefix: "",
+                provider: providerOptions[0] ?? "",
+                senderType: "",
+                senderValue: "",
+                fallbackProvider: "",
+              });
+            })
+          }
+        >
+          Add Rule
+        </Button>
+        <LoadingButton
+          variant="contained"
+          loading={updateMutation.isPending}
+          onClick={handleSave}
+        >
+          Save
+        </LoadingButton>
+      </Stack>
+    </Stack>
+  );
+}
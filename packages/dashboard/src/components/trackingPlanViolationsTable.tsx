@@ -0,0 +1,107 @@
+import { Box, Chip, Stack, Tooltip, Typography } from "@mui/material";
+import { DataGrid } from "@mui/x-data-grid";
+import {
+  TrackingPlanViolationAction,
+  TrackingPlanViolationSummary,
+} from "isomorphic-lib/src/types";
+import { useMemo } from "react";
+
+import { useTrackingPlanViolationsQuery } from "../lib/useTrackingPlanViolationsQuery";
+
+const ACTION_COLORS: Record<
+  TrackingPlanViolationAction,
+  "default" | "warning" | "error"
+> = {
+  [TrackingPlanViolationAction.Tag]: "default",
+  [TrackingPlanViolationAction.Quarantine]: "warning",
+  [TrackingPlanViolationAction.Reject]: "error",
+};
+
+type ViolationRow = TrackingPlanViolationSummary & { id: string };
+
+export default function TrackingPlanViolationsTable() {
+  const { data, isPending, isError } = useTrackingPlanViolationsQuery();
+  const rows: ViolationRow[] = useMemo(
+    () =>
+      (data?.violations ?? []).map((violation) => ({
+        ...violation,
+        id: [violation.eventType, violation.event, violation.action].join(":"),
+      })),
+    [data],
+  );
+
+  return (
+    <Stack spacing={2}>
+      {isError ? (
+        <Typography color="error" variant="body2">
+          Failed to load tracking plan violations.
+        </Typography>
+      ) : null}
+      <Box sx={{ height: 400, width: "100%" }}>
+        <DataGrid<ViolationRow>
+          rows={rows}
+          loading={isPending}
+          autoPageSize
+          disableRowSelectionOnClick
+          sx={{
+            "& .MuiDataGrid-cell:focus": {
+              outline: "none",
+            },
+            "& .MuiDataGrid-cell:focus-within": {
+              outline: "none",
+            },
+          }}
+          columns={[
+            {
+              field: "event",
+              headerName: "Event",
+              flex: 1,
+              valueGetter: (params) =>
+                params.row.event ?? `(${params.row.eventType})`,
+            },
+            {
+              field: "action",
+              headerName: "Action",
+              width: 130,
+              renderCell: (params) => (
+                <Chip
+                  size="small"
+                  label={params.row.action}
+                  color={ACTION_COLORS[params.row.action]}
+                />
+              ),
+            },
+            {
+              field: "count",
+              headerName: "Violations",
+              type: "number",
+              width: 110,
+            },
+            {
+              field: "lastSeenAt",
+              headerName: "Last Seen",
+              width: 200,
+              valueGetter: (params) =>
+                new Date(params.row.lastSeenAt).toLocaleString(),
+            },
+            {
+              field: "lastErrors",
+              headerName: "Latest Errors",
+              flex: 2,
+              renderCell: (params) => {
+                const errors = params.row.lastErrors.join(", ");
+                return (
+                  <Tooltip
+                    title={`Message ${params.row.lastMessageId}: ${errors}`}
+                  >
+                    <span>{errors}</span>
+                  </Tooltip>
+                );
+              },
+            },
+          ]}
+        />
+      </Box>
+    </Stack>
+  );
+}
@@ -16,9 +16,14 @@ import {
   EntryUiNodeVariant,
   EphemeralRequestStatus,
   ExitUiNodeProps,
+  ExperimentSplitUiArm,
+  ExperimentSplitUiNodeProps,
   FeatureMap,
+  FirstMatchSegmentSplitUiNodeProps,
   GetPropertiesResponse,
+  HttpRequestUiNodeProps,
   IntegrationResource,
+  JourneyGoal,
   JourneyNodeUiProps,
   JourneyStats,
   JourneyStatsResponse,
@@ -41,6 +46,8 @@ import {
   PartialSegmentResource,
   PersistedEmailProvider,
   PersistedSmsProvider,
+  QuietHoursPolicy,
+  RateLimitUiNodeProps,
   RequestStatus,
   SavedJourneyResource,
   SavedSubscriptionGroupResource,
@@ -75,6 +82,10 @@ export {
   type EntryUiNodeProps,
   type EntryUiNodeVariant,
   type ExitUiNodeProps,
+  type ExperimentSplitUiArm,
+  type ExperimentSplitUiNodeProps,
+  type FirstMatchSegmentSplitUiNodeProps,
+  type HttpRequestUiNodeProps,
   type JourneyNodeUiProps,
   type JourneyUiDefinitionEdgeProps,
   type JourneyUiDraftEdge,
@@ -90,6 +101,7 @@ export {
   type JourneyUiNodeTypeProps,
   type JourneyUiPlaceholderEdgeProps,
   type MessageUiNodeProps,
+  type RateLimitUiNodeProps,
   type SegmentSplitUiNodeProps,
   TimeUnit,
   type WaitForUiNodeProps,
@@ -320,6 +332,8 @@ export interface JourneyState {
   journeyNodes: JourneyUiNode[];
   journeyEdges: JourneyUiEdge[];
   journeyNodesIndex: JourneyNodesIndex;
+  journeyQuietHours: QuietHoursPolicy | null;
+  journeyGoal: JourneyGoal | null;
   journeyUpdateRequest: EphemeralRequestStatus<Error>;
   journeyStats: Record<string, JourneyStats>;
   journeyStatsRequest: EphemeralRequestStatus<Error>;
@@ -357,13 +371,26 @@ export interface JourneyContent extends JourneyState {
   updateJourneyNodeData: (nodeId: string, updater: JourneyNodeUpdater) => void;
   setJourneyUpdateRequest: (request: EphemeralRequestStatus<Error>) => void;
   setJourneyName: (name: string) => void;
+  setJourneyQuietHours: (quietHours: QuietHoursPolicy | null) => void;
+  setJourneyGoal: (goal: JourneyGoal | null) => void;
   updateLabelNode: (nodeId: string, title: string) => void;
+  setExperimentSplitArms: (
+    nodeId: string,
+    arms: Pick<ExperimentSplitUiNodeProps, "arms" | "holdout">,
+  ) => void;
+  setSegmentSplitProps: (
+    nodeId: string,
+    props: SegmentSplitUiNodeProps | FirstMatchSegmentSplitUiNodeProps,
+  ) => void;
+  setHttpRequestProps: (nodeId: string, props: HttpRequestUiNodeProps) => void;
   setJourneyStatsRequest: (request: EphemeralRequestStatus<Error>) => void;
   upsertJourneyStats: (stats: JourneyStatsResponse) => void;
   resetJourneyState: (state: {
     edges: JourneyUiEdge[];
     nodes: JourneyUiNode[];
     index: JourneyNodesIndex;
+    quietHours: QuietHoursPolicy | null;
+    goal: JourneyGoal | null;
   }) => void;
 }
 
@@ -401,5 +428,10 @@ export type JourneyUiNodeDefinition = Node<
 
 export type JourneyStateForResource = Pick<
   JourneyState,
-  "journeyNodes" | "journeyEdges" | "journeyNodesIndex" | "journeyName"
+  | "journeyNodes"
+  | "journeyEdges"
+  | "journeyNodesIndex"
+  | "journeyName"
+  | "journeyQuietHours"
+  | "journeyGoal"
 >;
@@ -0,0 +1,58 @@
+import {
+  useQuery,
+  UseQueryOptions,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import {
+  CompletionStatus,
+  GetAuditEventsRequest,
+  GetAuditEventsResponse,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+
+export const AUDIT_EVENTS_QUERY_KEY = "auditEvents";
+
+/**
+ * Custom hook for fetching the workspace's audit events using the GET
+ * /api/audit-log endpoint
+ */
+export function useAuditEventsQuery<TData = GetAuditEventsResponse>(
+  params?: Omit<GetAuditEventsRequest, "workspaceId">,
+  options?: Omit<
+    UseQueryOptions<GetAuditEventsResponse, Error, TData>,
+    "queryKey" | "queryFn"
+  >,
+): UseQueryResult<TData> {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  if (workspace.type !== CompletionStatus.Successful) {
+    throw new Error("Workspace not available for audit events query");
+  }
+
+  const workspaceId = workspace.value.id;
+  const queryKey = [AUDIT_EVENTS_QUERY_KEY, { ...params, workspaceId }];
+
+  return useQuery<GetAuditEventsResponse, Error, TData>({
+    queryKey,
+    queryFn: async (): Promise<GetAuditEventsResponse> => {
+      const response = await axiosInstance.get(`${baseApiUrl}/audit-log`, {
+        params: {
+          ...params,
+          workspaceId,
+        },
+        headers: authHeaders,
+      });
+      return unwrap(
+        schemaValidateWithErr(response.data, GetAuditEventsResponse),
+      );
+    },
+    ...options,
+  });
+}
@@ -7,12 +7,13 @@ import {
 import { AxiosError } from "axios";
 import {
   CompletionStatus,
+  DeleteSegmentError,
   DeleteSegmentRequest,
 } from "isomorphic-lib/src/types";
 
-import axiosInstance from "./axiosInstance";
 import { useAppStorePick } from "./appStore";
 import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
 import { SEGMENTS_QUERY_KEY } from "./useSegmentsQuery"; // Assuming SEGMENTS_QUERY_KEY is exported from here
 
 // Define the mutation function type
@@ -20,10 +21,10 @@ type DeleteSegmentMutationFn = (segmentId: string) => Promise<void>;
 
 export function useDeleteSegmentMutation(
   options?: Omit<
-    UseMutationOptions<void, AxiosError, string>, // string is segmentId
+    UseMutationOptions<void, AxiosError<DeleteSegmentError>, string>, // string is segmentId
     "mutationFn"
   >,
-): UseMutationResult<void, AxiosError, string> {
+): UseMutationResult<void, AxiosError<DeleteSegmentError>, string> {
   const queryClient = useQueryClient();
   const { workspace } = useAppStorePick(["workspace"]);
   const authHeaders = useAuthHeaders();
@@ -47,7 +48,7 @@ export function useDeleteSegmentMutation(
     });
   };
 
-  const mutation = useMutation<void, AxiosError, string>({
+  const mutation = useMutation<void, AxiosError<DeleteSegmentError>, string>({
     mutationFn,
     ...options,
     onSuccess: (data, variables, context) => {
@@ -0,0 +1,62 @@
+import {
+  useQuery,
+  UseQueryOptions,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import {
+  CompletionStatus,
+  EmailProviderFailoverResource,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+
+export const EMAIL_PROVIDER_FAILOVER_QUERY_KEY = "emailProviderFailover";
+
+/**
+ * Custom hook for fetching the workspace's email provider failover list
+ * using the GET /api/settings/email-provider-failover endpoint
+ */
+export function useEmailProviderFailoverQuery<
+  TData = EmailProviderFailoverResource,
+>(
+  options?: Omit<
+    UseQueryOptions<EmailProviderFailoverResource, Error, TData>,
+    "queryKey" | "queryFn"
+  >,
+): UseQueryResult<TData> {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  if (workspace.type !== CompletionStatus.Successful) {
+    throw new Error(
+      "Workspace not available for email provider failover query",
+    );
+  }
+
+  const workspaceId = workspace.value.id;
+  const queryKey = [EMAIL_PROVIDER_FAILOVER_QUERY_KEY, { workspaceId }];
+
+  return useQuery<EmailProviderFailoverResource, Error, TData>({
+    queryKey,
+    queryFn: async (): Promise<EmailProviderFailoverResource> => {
+      const response = await axiosInstance.get(
+        `${baseApiUrl}/settings/email-provider-failover`,
+        {
+          params: {
+            workspaceId,
+          },
+          headers: authHeaders,
+        },
+      );
+      return unwrap(
+        schemaValidateWithErr(response.data, EmailProviderFailoverResource),
+      );
+    },
+    ...options,
+  });
+}
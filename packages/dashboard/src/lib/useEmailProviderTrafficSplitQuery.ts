@@ -0,0 +1,63 @@
+import {
+  useQuery,
+  UseQueryOptions,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import {
+  CompletionStatus,
+  EmailProviderTrafficSplitResource,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+
+export const EMAIL_PROVIDER_TRAFFIC_SPLIT_QUERY_KEY =
+  "emailProviderTrafficSplit";
+
+/**
+ * Custom hook for fetching the workspace's email provider traffic split
+ * using the GET /api/settings/email-provider-traffic-split endpoint
+ */
+export function useEmailProviderTrafficSplitQuery<
+  TData = EmailProviderTrafficSplitResource,
+>(
+  options?: Omit<
+    UseQueryOptions<EmailProviderTrafficSplitResource, Error, TData>,
+    "queryKey" | "queryFn"
+  >,
+): UseQueryResult<TData> {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  if (workspace.type !== CompletionStatus.Successful) {
+    throw new Error(
+      "Workspace not available for email provider traffic split query",
+    );
+  }
+
+  const workspaceId = workspace.value.id;
+  const queryKey = [EMAIL_PROVIDER_TRAFFIC_SPLIT_QUERY_KEY, { workspaceId }];
+
+  return useQuery<EmailProviderTrafficSplitResource, Error, TData>({
+    queryKey,
+    queryFn: async (): Promise<EmailProviderTrafficSplitResource> => {
+      const response = await axiosInstance.get(
+        `${baseApiUrl}/settings/email-provider-traffic-split`,
+        {
+          params: {
+            workspaceId,
+          },
+          headers: authHeaders,
+        },
+      );
+      return unwrap(
+        schemaValidateWithErr(response.data, EmailProviderTrafficSplitResource),
+      );
+    },
+    ...options,
+  });
+}
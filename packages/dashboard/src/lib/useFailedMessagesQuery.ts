@@ -0,0 +1,61 @@
+import {
+  useQuery,
+  UseQueryOptions,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import {
+  CompletionStatus,
+  GetFailedMessagesRequest,
+  GetFailedMessagesResponse,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+
+export const FAILED_MESSAGES_QUERY_KEY = "failedMessages";
+
+/**
+ * Custom hook for fetching the workspace's stored failed message sends using
+ * the GET /api/deliveries/failed endpoint
+ */
+export function useFailedMessagesQuery<TData = GetFailedMessagesResponse>(
+  params?: Omit<GetFailedMessagesRequest, "workspaceId">,
+  options?: Omit<
+    UseQueryOptions<GetFailedMessagesResponse, Error, TData>,
+    "queryKey" | "queryFn"
+  >,
+): UseQueryResult<TData> {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  if (workspace.type !== CompletionStatus.Successful) {
+    throw new Error("Workspace not available for failed messages query");
+  }
+
+  const workspaceId = workspace.value.id;
+  const queryKey = [FAILED_MESSAGES_QUERY_KEY, { ...params, workspaceId }];
+
+  return useQuery<GetFailedMessagesResponse, Error, TData>({
+    queryKey,
+    queryFn: async (): Promise<GetFailedMessagesResponse> => {
+      const response = await axiosInstance.get(
+        `${baseApiUrl}/deliveries/failed`,
+        {
+          params: {
+            ...params,
+            workspaceId,
+          },
+          headers: authHeaders,
+        },
+      );
+      return unwrap(
+        schemaValidateWithErr(response.data, GetFailedMessagesResponse),
+      );
+    },
+    ...options,
+  });
+}
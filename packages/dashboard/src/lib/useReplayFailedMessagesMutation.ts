@@ -0,0 +1,80 @@
+import {
+  useMutation,
+  UseMutationOptions,
+  UseMutationResult,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { AxiosError } from "axios";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import {
+  CompletionStatus,
+  ReplayFailedMessagesRequest,
+  ReplayFailedMessagesResponse,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+import { FAILED_MESSAGES_QUERY_KEY } from "./useFailedMessagesQuery";
+
+type ReplayFailedMessagesVariables = Omit<
+  ReplayFailedMessagesRequest,
+  "workspaceId"
+>;
+
+export function useReplayFailedMessagesMutation(
+  options?: Omit<
+    UseMutationOptions<
+      ReplayFailedMessagesResponse,
+      AxiosError,
+      ReplayFailedMessagesVariables
+    >,
+    "mutationFn"
+  >,
+): UseMutationResult<
+  ReplayFailedMessagesResponse,
+  AxiosError,
+  ReplayFailedMessagesVariables
+> {
+  const queryClient = useQueryClient();
+  const { workspace } = useAppStorePick(["workspace"]);
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  const mutationFn = async (
+    variables: ReplayFailedMessagesVariables,
+  ): Promise<ReplayFailedMessagesResponse> => {
+    if (workspace.type !== CompletionStatus.Successful) {
+      throw new Error("Workspace not available for failed message replay");
+    }
+    const response = await axiosInstance.post(
+      `${baseApiUrl}/deliveries/failed/replay`,
+      {
+        ...variables,
+        workspaceId: workspace.value.id,
+      } satisfies ReplayFailedMessagesRequest,
+      { headers: authHeaders },
+    );
+    return unwrap(
+      schemaValidateWithErr(response.data, ReplayFailedMessagesResponse),
+    );
+  };
+
+  return useMutation<
+    ReplayFailedMessagesResponse,
+    AxiosError,
+    ReplayFailedMessagesVariables
+  >({
+    mutationFn,
+    ...options,
+    onSettled: (data, error, variables, context) => {
+      options?.onSettled?.(data, error, variables, context);
+      // replays change the status of the failed messages, whether or not
+      // they succeed
+      void queryClient.invalidateQueries({
+        queryKey: [FAILED_MESSAGES_QUERY_KEY],
+      });
+    },
+  });
+}
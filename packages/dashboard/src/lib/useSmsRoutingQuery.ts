@@ -0,0 +1,53 @@
+import {
+  useQuery,
+  UseQueryOptions,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import { CompletionStatus, SmsRoutingResource } from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+
+export const SMS_ROUTING_QUERY_KEY = "smsRouting";
+
+/**
+ * Custom hook for fetching the workspace's per-country sms routing rules
+ * using the GET /api/settings/sms-routing endpoint
+ */
+export function useSmsRoutingQuery<TData = SmsRoutingResource>(
+  options?: Omit<
+    UseQueryOptions<SmsRoutingResource, Error, TData>,
+    "queryKey" | "queryFn"
+  >,
+): UseQueryResult<TData> {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  if (workspace.type !== CompletionStatus.Successful) {
+    throw new Error("Workspace not available for sms routing query");
+  }
+
+  const workspaceId = workspace.value.id;
+  const queryKey = [SMS_ROUTING_QUERY_KEY, { workspaceId }];
+
+  return useQuery<SmsRoutingResource, Error, TData>({
+    queryKey,
+    queryFn: async (): Promise<SmsRoutingResource> => {
+      const response = await axiosInstance.get(
+        `${baseApiUrl}/settings/sms-routing`,
+        {
+          params: {
+            workspaceId,
+          },
+          headers: authHeaders,
+        },
+      );
+      return unwrap(schemaValidateWithErr(response.data, SmsRoutingResource));
+    },
+    ...options,
+  });
+}
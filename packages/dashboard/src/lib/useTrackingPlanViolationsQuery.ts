@@ -0,0 +1,68 @@
+import {
+  useQuery,
+  UseQueryOptions,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
+import { schemaValidateWithErr } from "isomorphic-lib/src/resultHandling/schemaValidation";
+import {
+  CompletionStatus,
+  GetTrackingPlanViolationsRequest,
+  GetTrackingPlanViolationsResponse,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+
+export const TRACKING_PLAN_VIOLATIONS_QUERY_KEY = "trackingPlanViolations";
+
+/**
+ * Custom hook for fetching the workspace's tracking plan violations,
+ * summarized by event, using the GET /api/tracking-plan/violations endpoint
+ */
+export function useTrackingPlanViolationsQuery<
+  TData = GetTrackingPlanViolationsResponse,
+>(
+  params?: Omit<GetTrackingPlanViolationsRequest, "workspaceId">,
+  options?: Omit<
+    UseQueryOptions<GetTrackingPlanViolationsResponse, Error, TData>,
+    "queryKey" | "queryFn"
+  >,
+): UseQueryResult<TData> {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  if (workspace.type !== CompletionStatus.Successful) {
+    throw new Error(
+      "Workspace not available for tracking plan violations query",
+    );
+  }
+
+  const workspaceId = workspace.value.id;
+  const queryKey = [
+    TRACKING_PLAN_VIOLATIONS_QUERY_KEY,
+    { ...params, workspaceId },
+  ];
+
+  return useQuery<GetTrackingPlanViolationsResponse, Error, TData>({
+    queryKey,
+    queryFn: async (): Promise<GetTrackingPlanViolationsResponse> => {
+      const response = await axiosInstance.get(
+        `${baseApiUrl}/tracking-plan/violations`,
+        {
+          params: {
+            ...params,
+            workspaceId,
+          },
+          headers: authHeaders,
+        },
+      );
+      return unwrap(
+        schemaValidateWithErr(response.data, GetTrackingPlanViolationsResponse),
+      );
+    },
+    ...options,
+  });
+}
@@ -0,0 +1,71 @@
+import {
+  useMutation,
+  UseMutationOptions,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  CompletionStatus,
+  EmailProviderFailoverResource,
+  WorkspaceWideEmailProviders,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+import { EMAIL_PROVIDER_FAILOVER_QUERY_KEY } from "./useEmailProviderFailoverQuery";
+
+type UpdateEmailProviderFailoverHookOptions = Omit<
+  UseMutationOptions<
+    EmailProviderFailoverResource,
+    Error,
+    WorkspaceWideEmailProviders[]
+  >,
+  "mutationFn"
+>;
+
+export function useUpdateEmailProviderFailoverMutation(
+  hookOpts?: UpdateEmailProviderFailoverHookOptions,
+) {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const queryClient = useQueryClient();
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  const mutationFn = async (
+    providers: WorkspaceWideEmailProviders[],
+  ): Promise<EmailProviderFailoverResource> => {
+    if (workspace.type !== CompletionStatus.Successful) {
+      throw new Error(
+        "Workspace not available for email provider failover update.",
+      );
+    }
+    const requestData: EmailProviderFailoverResource = {
+      workspaceId: workspace.value.id,
+      providers,
+    };
+    const response = await axiosInstance.put<EmailProviderFailoverResource>(
+      `${baseApiUrl}/settings/email-provider-failover`,
+      requestData,
+      { headers: authHeaders },
+    );
+    return response.data;
+  };
+
+  const { onSuccess: userOnSuccess, ...restHookOpts } = hookOpts ?? {};
+
+  return useMutation<
+    EmailProviderFailoverResource,
+    Error,
+    WorkspaceWideEmailProviders[]
+  >({
+    mutationFn,
+    onSuccess: (data, variables, context) => {
+      queryClient.setQueryData(
+        [EMAIL_PROVIDER_FAILOVER_QUERY_KEY, { workspaceId: data.workspaceId }],
+        data,
+      );
+      userOnSuccess?.(data, variables, context);
+    },
+    ...restHookOpts,
+  });
+}
@@ -0,0 +1,78 @@
+import {
+  useMutation,
+  UseMutationOptions,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  CompletionStatus,
+  EmailProviderTrafficSplitResource,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+import { EMAIL_PROVIDER_TRAFFIC_SPLIT_QUERY_KEY } from "./useEmailProviderTrafficSplitQuery";
+
+export type EmailProviderTrafficSplitUpdate = Omit<
+  EmailProviderTrafficSplitResource,
+  "workspaceId"
+>;
+
+type UpdateEmailProviderTrafficSplitHookOptions = Omit<
+  UseMutationOptions<
+    EmailProviderTrafficSplitResource,
+    Error,
+    EmailProviderTrafficSplitUpdate
+  >,
+  "mutationFn"
+>;
+
+export function useUpdateEmailProviderTrafficSplitMutation(
+  hookOpts?: UpdateEmailProviderTrafficSplitHookOptions,
+) {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const queryClient = useQueryClient();
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  const mutationFn = async (
+    update: EmailProviderTrafficSplitUpdate,
+  ): Promise<EmailProviderTrafficSplitResource> => {
+    if (workspace.type !== CompletionStatus.Successful) {
+      throw new Error(
+        "Workspace not available for email provider traffic split update.",
+      );
+    }
+    const requestData: EmailProviderTrafficSplitResource = {
+      ...update,
+      workspaceId: workspace.value.id,
+    };
+    const response = await axiosInstance.put<EmailProviderTrafficSplitResource>(
+      `${baseApiUrl}/settings/email-provider-traffic-split`,
+      requestData,
+      { headers: authHeaders },
+    );
+    return response.data;
+  };
+
+  const { onSuccess: userOnSuccess, ...restHookOpts } = hookOpts ?? {};
+
+  return useMutation<
+    EmailProviderTrafficSplitResource,
+    Error,
+    EmailProviderTrafficSplitUpdate
+  >({
+    mutationFn,
+    onSuccess: (data, variables, context) => {
+      queryClient.setQueryData(
+        [
+          EMAIL_PROVIDER_TRAFFIC_SPLIT_QUERY_KEY,
+          { workspaceId: data.workspaceId },
+        ],
+        data,
+      );
+      userOnSuccess?.(data, variables, context);
+    },
+    ...restHookOpts,
+  });
+}
@@ -0,0 +1,61 @@
+import {
+  useMutation,
+  UseMutationOptions,
+  useQueryClient,
+} from "@tanstack/react-query";
+import {
+  CompletionStatus,
+  SmsRoutingResource,
+  SmsRoutingRule,
+} from "isomorphic-lib/src/types";
+
+import { useAppStorePick } from "./appStore";
+import { useAuthHeaders, useBaseApiUrl } from "./authModeProvider";
+import axiosInstance from "./axiosInstance";
+import { SMS_ROUTING_QUERY_KEY } from "./useSmsRoutingQuery";
+
+type UpdateSmsRoutingHookOptions = Omit<
+  UseMutationOptions<SmsRoutingResource, Error, SmsRoutingRule[]>,
+  "mutationFn"
+>;
+
+export function useUpdateSmsRoutingMutation(
+  hookOpts?: UpdateSmsRoutingHookOptions,
+) {
+  const { workspace } = useAppStorePick(["workspace"]);
+  const queryClient = useQueryClient();
+  const authHeaders = useAuthHeaders();
+  const baseApiUrl = useBaseApiUrl();
+
+  const mutationFn = async (
+    rules: SmsRoutingRule[],
+  ): Promise<SmsRoutingResource> => {
+    if (workspace.type !== CompletionStatus.Successful) {
+      throw new Error("Workspace not available for sms routing update.");
+    }
+    const requestData: SmsRoutingResource = {
+      workspaceId: workspace.value.id,
+      rules,
+    };
+    const response = await axiosInstance.put<SmsRoutingResource>(
+      `${baseApiUrl}/settings/sms-routing`,
+      requestData,
+      { headers: authHeaders },
+    );
+    return response.data;
+  };
+
+  const { onSuccess: userOnSuccess, ...restHookOpts } = hookOpts ?? {};
+
+  return useMutation<SmsRoutingResource, Error, SmsRoutingRule[]>({
+    mutationFn,
+    onSuccess: (data, variables, context) => {
+      queryClient.setQueryData(
+        [SMS_ROUTING_QUERY_KEY, { workspaceId: data.workspaceId }],
+        data,
+      );
+      userOnSuccess?.(data, variables, context);
+    },
+    ...restHookOpts,
+  });
+}
@@ -47,6 +47,8 @@ export function getDefaultUserPropertyExampleValue(
       return DEFAULT_PERFORMED_EXAMPLE;
     case UserPropertyDefinitionType.PerformedMany:
       throw new Error("Not implemented");
+    case UserPropertyDefinitionType.Aggregate:
+      return "100";
     default:
       assertUnreachable(definition);
   }
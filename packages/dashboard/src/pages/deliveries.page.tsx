@@ -1,11 +1,13 @@
-import { Box } from "@mui/material";
+import { Box, Tab, Tabs } from "@mui/material";
 import { GetServerSideProps } from "next";
+import { useState } from "react";
 
 import DashboardContent from "../components/dashboardContent";
 import {
   DEFAULT_DELIVERIES_TABLE_V2_PROPS,
   DeliveriesTableV2,
 } from "../components/deliveriesTableV2";
+import FailedMessagesTable from "../components/failedMessagesTable";
 import { addInitialStateToProps } from "../lib/addInitialStateToProps";
 import { requestContext } from "../lib/requestContext";
 import { PropsWithInitialState } from "../lib/types";
@@ -25,10 +27,21 @@ export const getServerSideProps: GetServerSideProps<PropsWithInitialState> =
   });
 
 export default function DeliveriesPage() {
+  const [tab, setTab] = useState<"deliveries" | "failed">("deliveries");
   return (
     <DashboardContent>
       <Box sx={{ width: "100%", p: 4, height: "100%" }}>
-        <DeliveriesTableV2 {...DEFAULT_DELIVERIES_TABLE_V2_PROPS} />
+        <Box sx={{ borderBottom: 1, borderColor: "divider", mb: 2 }}>
+          <Tabs value={tab} onChange={(_, value) => setTab(value)}>
+            <Tab label="Deliveries" value="deliveries" />
+            <Tab label="Failed Sends" value="failed" />
+          </Tabs>
+        </Box>
+        {tab === "deliveries" ? (
+          <DeliveriesTableV2 {...DEFAULT_DELIVERIES_TABLE_V2_PROPS} />
+        ) : (
+          <FailedMessagesTable />
+        )}
       </Box>
     </DashboardContent>
   );
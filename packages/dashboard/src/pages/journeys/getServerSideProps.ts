@@ -50,7 +50,7 @@ export const journeyGetServerSideProps: JourneyGetServerSideProps =
       await db().query.journey.findFirst({
         where: and(
           eq(schema.journey.id, id),
-          eq(schema.journey.workspaceId, workspaceId)
+          eq(schema.journey.workspaceId, workspaceId),
         ),
       }),
       findSegmentResources({ workspaceId }),
@@ -95,6 +95,8 @@ export const journeyGetServerSideProps: JourneyGetServerSideProps =
       serverInitialState.journeyEdges = stateFromJourney.journeyEdges;
       serverInitialState.journeyNodes = stateFromJourney.journeyNodes;
       serverInitialState.journeyNodesIndex = stateFromJourney.journeyNodesIndex;
+      serverInitialState.journeyQuietHours = stateFromJourney.journeyQuietHours;
+      serverInitialState.journeyGoal = stateFromJourney.journeyGoal;
     } else {
       const stateForDraft: JourneyStateForDraft = {
         journeyNodes: DEFAULT_JOURNEY_NODES,
@@ -1,9 +1,12 @@
 /* eslint-disable @typescript-eslint/no-unsafe-enum-comparison */
 import {
   Create,
+  History,
   InfoOutlined,
   Key,
   Mail,
+  NotificationsActive,
+  Rule,
   SimCardDownload,
   SmsOutlined,
   Webhook,
@@ -25,7 +28,6 @@ import {
 } from "@mui/material";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { AxiosError } from "axios";
-import axiosInstance from "../lib/axiosInstance";
 import { getAdminApiKeys } from "backend-lib/src/adminApiKeys";
 import { getOrCreateWriteKey, getWriteKeys } from "backend-lib/src/auth";
 import { HUBSPOT_INTEGRATION } from "backend-lib/src/constants";
@@ -56,6 +58,7 @@ import {
   EphemeralRequestStatus,
   IntegrationResource,
   IntegrationType,
+  MobilePushProviderType,
   PartialSegmentResource,
   SmsProviderType,
   SmtpSecretKey,
@@ -76,7 +79,10 @@ import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
 
 import AdminApiKeyTable from "../components/adminApiKeyTable";
+import AuditLogTable from "../components/auditLogTable";
 import DashboardHead from "../components/dashboardHead";
+import EmailProviderFailover from "../components/emailProviderFailover";
+import EmailProviderTrafficSplit from "../components/emailProviderTrafficSplit";
 import ExternalLink from "../components/externalLink";
 import Fields from "../components/form/Fields";
 import {
@@ -89,11 +95,14 @@ import InfoBox from "../components/infoBox";
 import Layout from "../components/layout";
 import { MenuItemGroup } from "../components/menuItems/types";
 import { PermissionsTable } from "../components/permissionsTable";
+import SmsRoutingRules from "../components/smsRoutingRules";
 import { SubscriptionManagement } from "../components/subscriptionManagement";
+import TrackingPlanViolationsTable from "../components/trackingPlanViolationsTable";
 import WebhookSecretTable from "../components/webhookSecretTable";
 import { addInitialStateToProps } from "../lib/addInitialStateToProps";
 import apiRequestHandlerFactory from "../lib/apiRequestHandlerFactory";
 import { useAppStore, useAppStorePick } from "../lib/appStore";
+import axiosInstance from "../lib/axiosInstance";
 import { copyInputProps } from "../lib/copyToClipboard";
 import { getOrCreateEmailProviders } from "../lib/email";
 import { noticeAnchorOrigin } from "../lib/notices";
@@ -248,6 +257,8 @@ export const getServerSideProps: GetServerSideProps<PropsWithInitialState> =
         workspaceId,
         names: [
           SecretNames.Webhook,
+          SecretNames.WebPush,
+          SecretNames.Apns,
           ...Object.values(EMAIL_PROVIDER_TYPE_TO_SECRET_NAME),
           ...Object.values(SMS_PROVIDER_TYPE_TO_SECRET_NAME),
         ],
@@ -302,6 +313,7 @@ const settingsSectionIds = {
   emailChannel: "email-channel",
   smsChannel: "sms-channel",
   webhookChannel: "webhook-channel",
+  mobilePushChannel: "mobile-push-channel",
   subscription: "subscriptions",
   authentication: "authentication",
   writeKey: "write-key",
@@ -309,6 +321,8 @@ const settingsSectionIds = {
   hubspotIntegration: "hubspot-integration",
   workspaceMetadata: "workspace-metadata",
   permissions: "permissions",
+  auditLog: "audit-log",
+  trackingPlan: "tracking-plan",
 } as const;
 
 function getMenuItems(authMode: string | undefined): MenuItemGroup[] {
@@ -359,6 +373,15 @@ function getMenuItems(authMode: string | undefined): MenuItemGroup[] {
           icon: Webhook,
           description: "Configure webhook settings, including custom secrets.",
         },
+        {
+          id: "mobile-push",
+          title: "Mobile Push",
+          type: "item",
+          url: `/settings#${settingsSectionIds.mobilePushChannel}`,
+          icon: NotificationsActive,
+          description:
+            "Configure push notification settings, including web push VAPID keys.",
+        },
       ],
     },
     {
@@ -423,6 +446,39 @@ function getMenuItems(authMode: string | undefined): MenuItemGroup[] {
       ],
       url: `/settings#${settingsSectionIds.workspaceMetadata}`,
     },
+    {
+      id: settingsSectionIds.auditLog,
+      title: "Audit Log",
+      type: "group",
+      children: [
+        {
+          id: "audit-events",
+          title: "Audit Events",
+          type: "item",
+          url: `/settings#${settingsSectionIds.auditLog}`,
+          icon: History,
+          description: "Browse the history of changes to this workspace.",
+        },
+      ],
+      url: `/settings#${settingsSectionIds.auditLog}`,
+    },
+    {
+      id: settingsSectionIds.trackingPlan,
+      title: "Tracking Plan",
+      type: "group",
+      children: [
+        {
+          id: "tracking-plan-violations",
+          title: "Violations",
+          type: "item",
+          url: `/settings#${settingsSectionIds.trackingPlan}`,
+          icon: Rule,
+          description:
+            "Review events which didn't match the workspace's tracking plan.",
+        },
+      ],
+      url: `/settings#${settingsSectionIds.trackingPlan}`,
+    },
   ];
 
   // Only add permissions menu item in multi-tenant mode
@@ -1223,6 +1279,40 @@ function EmailChannelConfig() {
       <PostMarkConfig />
       <MailChimpConfig />
       <SmtpConfig />
+      <Fields
+        sections={[
+          {
+            id: "email-provider-failover-section",
+            fieldGroups: [
+              {
+                id: "email-provider-failover-fields",
+                name: "Provider Failover",
+                fields: [],
+              },
+            ],
+          },
+        ]}
+        disableChildStyling
+      >
+        <EmailProviderFailover />
+      </Fields>
+      <Fields
+        sections={[
+          {
+            id: "email-provider-traffic-split-section",
+            fieldGroups: [
+              {
+                id: "email-provider-traffic-split-fields",
+                name: "Traffic Split",
+                fields: [],
+              },
+            ],
+          },
+        ]}
+        disableChildStyling
+      >
+        <EmailProviderTrafficSplit />
+      </Fields>
     </>
   );
 }
@@ -1296,6 +1386,12 @@ function DefaultSmsConfig() {
       case SmsProviderType.Twilio:
         name = "Twilio";
         break;
+      case SmsProviderType.Vonage:
+        name = "Vonage";
+        break;
+      case SmsProviderType.Sns:
+        name = "Amazon SNS";
+        break;
       case SmsProviderType.Test:
         name = "Test";
         break;
@@ -1461,12 +1557,228 @@ function Twilios() {
   );
 }
 
+function Vonage() {
+  const secretAvailability = useSecretAvailability();
+  return (
+    <Fields
+      sections={[
+        {
+          id: "vonage-section",
+          fieldGroups: [
+            {
+              id: "vonage-fields",
+              name: "Vonage",
+              description:
+                "Vonage SMS API credentials. Delivery receipts are reported to Dittofeed automatically.",
+              fields: [
+                {
+                  id: "vonage-api-key",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Vonage,
+                    secretKey: "apiKey",
+                    label: "Vonage API Key",
+                    helperText: "Vonage API key used to authenticate requests.",
+                    type: SmsProviderType.Vonage,
+                    saved: isSecretSaved(
+                      SecretNames.Vonage,
+                      "apiKey",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "vonage-api-secret",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Vonage,
+                    secretKey: "apiSecret",
+                    label: "Vonage API Secret",
+                    helperText:
+                      "Vonage API secret used to authenticate requests.",
+                    type: SmsProviderType.Vonage,
+                    saved: isSecretSaved(
+                      SecretNames.Vonage,
+                      "apiSecret",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "vonage-from",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Vonage,
+                    secretKey: "from",
+                    label: "Vonage Sender",
+                    helperText:
+                      "Phone number or alphanumeric sender id which messages are sent from.",
+                    type: SmsProviderType.Vonage,
+                    saved: isSecretSaved(
+                      SecretNames.Vonage,
+                      "from",
+                      secretAvailability,
+                    ),
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ]}
+    />
+  );
+}
+
+function AmazonSns() {
+  const secretAvailability = useSecretAvailability();
+  return (
+    <Fields
+      sections={[
+        {
+          id: "sns-section",
+          fieldGroups: [
+            {
+              id: "sns-fields",
+              name: "Amazon SNS",
+              description:
+                "AWS credentials used to publish SMS messages with Amazon SNS. To receive delivery statuses, forward the SNS SMS delivery status logs to an SNS topic subscribed to /api/public/webhooks/amazon-sns-sms?workspaceId=<your workspace id>.",
+              fields: [
+                {
+                  id: "sns-access-key-id",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Sns,
+                    secretKey: "accessKeyId",
+                    label: "AWS Access Key ID",
+                    helperText:
+                      "Access key id of an IAM user with the sns:Publish permission.",
+                    type: SmsProviderType.Sns,
+                    saved: isSecretSaved(
+                      SecretNames.Sns,
+                      "accessKeyId",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "sns-secret-access-key",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Sns,
+                    secretKey: "secretAccessKey",
+                    label: "AWS Secret Access Key",
+                    helperText: "Secret access key of the IAM user.",
+                    type: SmsProviderType.Sns,
+                    saved: isSecretSaved(
+                      SecretNames.Sns,
+                      "secretAccessKey",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "sns-region",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Sns,
+                    secretKey: "region",
+                    label: "AWS Region",
+                    helperText:
+                      "Region in which SNS messages are published e.g. us-east-1.",
+                    type: SmsProviderType.Sns,
+                    saved: isSecretSaved(
+                      SecretNames.Sns,
+                      "region",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "sns-sender-id",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Sns,
+                    secretKey: "senderId",
+                    label: "Sender ID",
+                    helperText:
+                      "Optional alphanumeric sender id, in countries which support them.",
+                    type: SmsProviderType.Sns,
+                    saved: isSecretSaved(
+                      SecretNames.Sns,
+                      "senderId",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "sns-origination-number",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Sns,
+                    secretKey: "originationNumber",
+                    label: "Origination Number",
+                    helperText:
+                      "Optional phone number which messages are sent from, in E.164 format.",
+                    type: SmsProviderType.Sns,
+                    saved: isSecretSaved(
+                      SecretNames.Sns,
+                      "originationNumber",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "sns-delivery-status-topic-arn",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Sns,
+                    secretKey: "deliveryStatusTopicArn",
+                    label: "Delivery Status Topic ARN",
+                    helperText:
+                      "ARN of the SNS topic which delivery status logs are forwarded to. Subscriptions from other topics are not confirmed.",
+                    type: SmsProviderType.Sns,
+                    saved: isSecretSaved(
+                      SecretNames.Sns,
+                      "deliveryStatusTopicArn",
+                      secretAvailability,
+                    ),
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ]}
+    />
+  );
+}
+
 function SmsChannelConfig() {
   return (
     <>
       <SectionSubHeader id={settingsSectionIds.smsChannel} title="SMS" />
       <DefaultSmsConfig />
       <Twilios />
+      <Vonage />
+      <AmazonSns />
+      <Fields
+        sections={[
+          {
+            id: "sms-routing-section",
+            fieldGroups: [
+              {
+                id: "sms-routing-fields",
+                name: "Country Routing",
+                fields: [],
+              },
+            ],
+          },
+        ]}
+        disableChildStyling
+      >
+        <SmsRoutingRules />
+      </Fields>
     </>
   );
 }
@@ -1485,6 +1797,199 @@ function WebhookChannelConfig() {
   );
 }
 
+function WebPushConfig() {
+  const secretAvailability = useSecretAvailability();
+  return (
+    <Fields
+      sections={[
+        {
+          id: "web-push-section",
+          fieldGroups: [
+            {
+              id: "web-push-fields",
+              name: "Web Push",
+              description:
+                "VAPID keys used to send push notifications to browsers. Browsers register their subscriptions via the public web push subscription endpoint.",
+              fields: [
+                {
+                  id: "web-push-public-key",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.WebPush,
+                    secretKey: "publicKey",
+                    label: "VAPID Public Key",
+                    helperText:
+                      "Base64url encoded public key, also used by browsers when subscribing.",
+                    type: MobilePushProviderType.WebPush,
+                    saved: isSecretSaved(
+                      SecretNames.WebPush,
+                      "publicKey",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "web-push-private-key",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.WebPush,
+                    secretKey: "privateKey",
+                    label: "VAPID Private Key",
+                    helperText:
+                      "Base64url encoded private key, used to sign requests to push services.",
+                    type: MobilePushProviderType.WebPush,
+                    saved: isSecretSaved(
+                      SecretNames.WebPush,
+                      "privateKey",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "web-push-subject",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.WebPush,
+                    secretKey: "subject",
+                    label: "VAPID Subject",
+                    helperText:
+                      "A mailto: or https: contact url, provided to push services.",
+                    type: MobilePushProviderType.WebPush,
+                    saved: isSecretSaved(
+                      SecretNames.WebPush,
+                      "subject",
+                      secretAvailability,
+                    ),
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ]}
+    />
+  );
+}
+
+function ApnsConfig() {
+  const secretAvailability = useSecretAvailability();
+  return (
+    <Fields
+      sections={[
+        {
+          id: "apns-section",
+          fieldGroups: [
+            {
+              id: "apns-fields",
+              name: "Apple Push Notification service",
+              description:
+                "Token based credentials used to send push notifications directly to iOS devices, identified by their deviceToken.",
+              fields: [
+                {
+                  id: "apns-team-id",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Apns,
+                    secretKey: "teamId",
+                    label: "Team ID",
+                    helperText:
+                      "The 10 character team id of your Apple developer account.",
+                    type: MobilePushProviderType.Apns,
+                    saved: isSecretSaved(
+                      SecretNames.Apns,
+                      "teamId",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "apns-key-id",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Apns,
+                    secretKey: "keyId",
+                    label: "Key ID",
+                    helperText: "The id of the APNs authentication key.",
+                    type: MobilePushProviderType.Apns,
+                    saved: isSecretSaved(
+                      SecretNames.Apns,
+                      "keyId",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "apns-private-key",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Apns,
+                    secretKey: "privateKey",
+                    label: "Private Key",
+                    helperText: "Contents of the .p8 authentication key file.",
+                    type: MobilePushProviderType.Apns,
+                    saved: isSecretSaved(
+                      SecretNames.Apns,
+                      "privateKey",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "apns-bundle-id",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Apns,
+                    secretKey: "bundleId",
+                    label: "Bundle ID",
+                    helperText:
+                      "The bundle id of your app, used as the notification topic.",
+                    type: MobilePushProviderType.Apns,
+                    saved: isSecretSaved(
+                      SecretNames.Apns,
+                      "bundleId",
+                      secretAvailability,
+                    ),
+                  },
+                },
+                {
+                  id: "apns-environment",
+                  type: "secret",
+                  fieldProps: {
+                    name: SecretNames.Apns,
+                    secretKey: "environment",
+                    label: "Environment",
+                    helperText:
+                      'Set to "sandbox" to deliver to development builds, otherwise production is used.',
+                    type: MobilePushProviderType.Apns,
+                    saved: isSecretSaved(
+                      SecretNames.Apns,
+                      "environment",
+                      secretAvailability,
+                    ),
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ]}
+    />
+  );
+}
+
+function MobilePushChannelConfig() {
+  return (
+    <>
+      <SectionSubHeader
+        id={settingsSectionIds.mobilePushChannel}
+        title="Mobile Push"
+      />
+      <WebPushConfig />
+      <ApnsConfig />
+    </>
+  );
+}
+
 function MessageChannelsConfig() {
   return (
     <Stack spacing={3}>
@@ -1492,6 +1997,7 @@ function MessageChannelsConfig() {
       <EmailChannelConfig />
       <SmsChannelConfig />
       <WebhookChannelConfig />
+      <MobilePushChannelConfig />
     </Stack>
   );
 }
@@ -1980,6 +2486,32 @@ function PermissionsSettings() {
   );
 }
 
+function AuditLogSettings() {
+  return (
+    <Stack spacing={3}>
+      <SectionHeader
+        id={settingsSectionIds.auditLog}
+        title="Audit Log"
+        description="Who changed what in this workspace, including journeys, templates, secrets and API keys."
+      />
+      <AuditLogTable />
+    </Stack>
+  );
+}
+
+function TrackingPlanSettings() {
+  return (
+    <Stack spacing={3}>
+      <SectionHeader
+        id={settingsSectionIds.trackingPlan}
+        title="Tracking Plan"
+        description="Events whose traits or properties didn't match their schema in the workspace's tracking plan, by event."
+      />
+      <TrackingPlanViolationsTable />
+    </Stack>
+  );
+}
+
 function SettingsContents() {
   const { inTransition } = useAppStorePick(["inTransition"]);
   if (inTransition) {
@@ -1993,6 +2525,8 @@ function SettingsContents() {
       <SubscriptionManagementSettings />
       <IntegrationSettings />
       <PermissionsSettings />
+      <AuditLogSettings />
+      <TrackingPlanSettings />
       <Metadata />
     </>
   );
@@ -24,6 +24,8 @@ import { unwrap } from "isomorphic-lib/src/resultHandling/resultUtils";
 import { schemaValidate } from "isomorphic-lib/src/resultHandling/schemaValidation";
 import { assertUnreachable } from "isomorphic-lib/src/typeAssertions";
 import {
+  AggregateUserPropertyDefinition,
+  AggregationType,
   AnyOfUserPropertyDefinition,
   CompletionStatus,
   FileUserPropertyDefinition,
@@ -42,7 +44,9 @@ import { useRouter } from "next/router";
 import React, { useCallback } from "react";
 import { v4 as uuidv4, validate } from "uuid";
 
+import AggregationSelect from "../../components/aggregationSelect";
 import DashboardContent from "../../components/dashboardContent";
+import DurationSelect from "../../components/durationSelect";
 import { EditableTitle } from "../../components/editableName/v2";
 import { SubtleHeader } from "../../components/headers";
 import InfoTooltip from "../../components/infoTooltip";
@@ -98,6 +102,12 @@ const fileOption = {
   label: "File",
 };
 
+const aggregateOption = {
+  id: UserPropertyDefinitionType.Aggregate,
+  group: "Track Events",
+  label: "Aggregate",
+};
+
 const anyOfOption = {
   id: UserPropertyDefinitionType.AnyOf,
   group: "Group",
@@ -118,6 +128,7 @@ const userPropertyOptions: UserPropertyGroupedOption[] = [
   performedManyOption,
   fileOption,
   keyedPerformedOption,
+  aggregateOption,
   anyOfOption,
   idOption,
   anonymousIdOption,
@@ -155,6 +166,8 @@ function getUserPropertyOption(
       return performedManyOption;
     case UserPropertyDefinitionType.KeyedPerformed:
       return keyedPerformedOption;
+    case UserPropertyDefinitionType.Aggregate:
+      return aggregateOption;
     default:
       assertUnreachable(type);
   }
@@ -229,6 +242,14 @@ function defaultUserProperty(
         path: "",
         properties: [],
       };
+    case UserPropertyDefinitionType.Aggregate:
+      return {
+        id,
+        type: UserPropertyDefinitionType.Aggregate,
+        event: "",
+        path: "",
+        aggregation: AggregationType.Sum,
+      };
     default:
       assertUnreachable(type);
   }
@@ -815,6 +836,221 @@ function PerformedUserPropertyDefinitionEditor({
   );
 }
 
+function AggregateUserPropertyDefinitionEditor({
+  definition,
+}: {
+  definition: AggregateUserPropertyDefinition;
+}) {
+  const { updateUserPropertyDefinition, properties } = useAppStorePick([
+    "updateUserPropertyDefinition",
+    "properties",
+  ]);
+
+  const updateAggregateNode = useCallback(
+    (
+      updater: (
+        currentValue: Draft<AggregateUserPropertyDefinition>,
+      ) => Draft<AggregateUserPropertyDefinition>,
+    ) => {
+      updateUserPropertyDefinition((current) => {
+        if (current.type === UserPropertyDefinitionType.Aggregate) {
+          updater(current);
+        }
+        return current;
+      });
+    },
+    [updateUserPropertyDefinition],
+  );
+
+  const handleAddProperty = () => {
+    updateAggregateNode((current) => {
+      const nodeProperties = current.properties ?? [];
+      // limit to 100 properties
+      if (nodeProperties.length >= 100) {
+        return current;
+      }
+      nodeProperties.push({
+        path: "myPropertyPath",
+        operator: {
+          type: UserPropertyOperatorType.Equals,
+          value: "myValue",
+        },
+      });
+      current.properties = nodeProperties;
+      return current;
+    });
+  };
+
+  const propertyRows = definition.properties?.map((property, i) => {
+    const handlePropertyPathChange = (newPath: string | null) => {
+      if (newPath === null) {
+        return;
+      }
+      updateAggregateNode((current) => {
+        const existingProperty = current.properties?.[i];
+        if (!existingProperty) {
+          return current;
+        }
+        existingProperty.path = newPath;
+        return current;
+      });
+    };
+
+    const handlePropertyValueChange = (
+      e: React.ChangeEvent<HTMLInputElement>,
+    ) => {
+      updateAggregateNode((current) => {
+        const existingProperty = current.properties?.[i];
+        if (!existingProperty) {
+          return current;
+        }
+        existingProperty.operator.value = e.target.value;
+        return current;
+      });
+    };
+    const handleDelete = () => {
+      updateAggregateNode((current) => {
+        const nodeProperties = current.properties ?? [];
+        nodeProperties.splice(i, 1);
+        current.properties = nodeProperties;
+        return current;
+      });
+    };
+    return (
+      <Stack
+        direction="row"
+        // eslint-disable-next-line react/no-array-index-key
+        key={i}
+        spacing={1}
+        sx={{
+          alignItems: "center",
+        }}
+      >
+        <Autocomplete
+          value={property.path}
+          freeSolo
+          sx={{ width: selectorWidth }}
+          options={properties[definition.event] ?? []}
+          onInputChange={(_event, newPath) => {
+            handlePropertyPathChange(newPath);
+          }}
+          renderInput={(params) => (
+            <TextField label="Property Path" {...params} variant="outlined" />
+          )}
+        />
+        {/* hardcoded until support for multiple operators is added */}
+        <Select value={UserPropertyOperatorType.Equals}>
+          <MenuItem value={UserPropertyOperatorType.Equals}>Equals</MenuItem>
+        </Select>
+        <TextField
+          label="Property Value"
+          onChange={handlePropertyValueChange}
+          value={property.operator.value}
+        />
+        <IconButton color="error" size="large" onClick={handleDelete}>
+          <Delete />
+        </IconButton>
+      </Stack>
+    );
+  });
+
+  return (
+    <Stack direction="column" spacing={2}>
+      <Stack spacing={1} direction="row">
+        <Autocomplete
+          value={definition.event}
+          freeSolo
+          sx={{ width: selectorWidth }}
+          options={Object.keys(properties)}
+          onInputChange={(_e, newEvent) => {
+            updateAggregateNode((current) => {
+              current.event = newEvent;
+              return current;
+            });
+          }}
+          renderInput={(params) => (
+            <TextField label="Event Name" {...params} variant="outlined" />
+          )}
+        />
+        <AggregationSelect
+          value={definition.aggregation}
+          onChange={(aggregation) =>
+            updateAggregateNode((current) => {
+              current.aggregation = aggregation;
+              return current;
+            })
+          }
+        />
+        <Autocomplete
+          value={definition.path}
+          freeSolo
+          sx={{ width: selectorWidth }}
+          options={properties[definition.event] ?? []}
+          onInputChange={(_e, newPath) => {
+            updateAggregateNode((current) => {
+              current.path = newPath;
+              return current;
+            });
+          }}
+          renderInput={(params) => (
+            <TextField
+              label="Aggregated Property Path"
+              {...params}
+              variant="outlined"
+            />
+          )}
+        />
+        <Button variant="contained" onClick={() => handleAddProperty()}>
+          Property
+        </Button>
+        <Button
+          variant="contained"
+          disabled={definition.withinSeconds !== undefined}
+          onClick={() =>
+            updateAggregateNode((current) => {
+              current.withinSeconds = 30 * 24 * 60 * 60;
+              return current;
+            })
+          }
+        >
+          Time Window
+        </Button>
+      </Stack>
+      {propertyRows?.length ? <SubtleHeader>Properties</SubtleHeader> : null}
+      {propertyRows}
+      {definition.withinSeconds !== undefined ? (
+        <>
+          <SubtleHeader>Time Window</SubtleHeader>
+          <Stack direction="row" spacing={1}>
+            <DurationSelect
+              value={definition.withinSeconds}
+              inputLabel="Events Occurred Within The Last"
+              onChange={(seconds) =>
+                updateAggregateNode((current) => {
+                  current.withinSeconds = seconds;
+                  return current;
+                })
+              }
+            />
+            <IconButton
+              color="error"
+              size="large"
+              onClick={() =>
+                updateAggregateNode((current) => {
+                  current.withinSeconds = undefined;
+                  return current;
+                })
+              }
+            >
+              <Delete />
+            </IconButton>
+          </Stack>
+        </>
+      ) : null}
+    </Stack>
+  );
+}
+
 function AnyOfUserPropertyDefinitionEditor({
   groupedUserProperty,
   definition,
@@ -996,6 +1232,9 @@ function DefinitionComponent({
         <KeyedPerformedUserPropertyDefinitionEditor definition={definition} />
       );
       break;
+    case UserPropertyDefinitionType.Aggregate:
+      up = <AggregateUserPropertyDefinitionEditor definition={definition} />;
+      break;
     case UserPropertyDefinitionType.PerformedMany:
       up = (
         <Typography sx={{ p: 2, bgcolor: 'info.light', borderRadius: 1 }}>
@@ -9,6 +9,10 @@ export const CHANNEL_IDENTIFIERS: Record<
   [ChannelType.Sms]: "phone",
 };
 
+// user property holding the browser push subscription used by the web push
+// provider, in place of a device token
+export const WEB_PUSH_SUBSCRIPTION_USER_PROPERTY = "webPushSubscription";
+
 export function isChannelType(type: string): type is ChannelType {
   return Object.values(ChannelType).includes(type as ChannelType);
 }
@@ -20,12 +20,16 @@ export const DEBUG_USER_ID1 = "1b9858de-907d-493f-a067-b3c8effecb0b" as const;
 
 export enum SecretNames {
   Twilio = "twilio-key",
+  Vonage = "vonage",
+  Sns = "sns-sms",
   SendGrid = "sendgrid",
   AmazonSes = "amazonses",
   Resend = "resend",
   Postmark = "postmark",
   MailChimp = "mailchimp",
   Fcm = "fcm-key",
+  WebPush = "web-push",
+  Apns = "apns",
   Smtp = "smtp",
   Subscription = "subscription-key",
   Webhook = "webhook-channel",
@@ -40,6 +44,8 @@ export enum DataSources {
 export const SMS_PROVIDER_TYPE_TO_SECRET_NAME: Record<SmsProviderType, string> =
   {
     [SmsProviderType.Twilio]: SecretNames.Twilio,
+    [SmsProviderType.Vonage]: SecretNames.Vonage,
+    [SmsProviderType.Sns]: SecretNames.Sns,
     [SmsProviderType.Test]: SecretNames.SmsTestProvider,
   };
 
@@ -0,0 +1,86 @@
+import { v5 as uuidv5 } from "uuid";
+
+import { ExperimentSplitArm, ExperimentSplitNode } from "./types";
+
+export const EXPERIMENT_HOLDOUT_ARM_ID = "holdout" as const;
+
+export const EXPERIMENT_HOLDOUT_ARM_NAME = "Holdout" as const;
+
+// namespace used to derive bucketing hashes, must never change or users would
+// be re-bucketed into different arms
+const EXPERIMENT_BUCKET_NAMESPACE = "8a5b1c2e-3f3d-4c6a-9b0e-6f1d2a7c4e91";
+
+/**
+ * Deterministically maps a user to a value in [0, 1) for a given experiment
+ * node. Free of side effects so that it can be called from within workflows.
+ */
+export function getExperimentBucket({
+  journeyId,
+  nodeId,
+  userId,
+}: {
+  journeyId: string;
+  nodeId: string;
+  userId: string;
+}): number {
+  const hash = uuidv5(
+    [journeyId, nodeId, userId].join(":"),
+    EXPERIMENT_BUCKET_NAMESPACE,
+  );
+  // the leading 32 bits of the uuid are taken directly from its sha-1 hash
+  return Number.parseInt(hash.slice(0, 8), 16) / 2 ** 32;
+}
+
+export type ExperimentArmAssignment =
+  | {
+      type: "arm";
+      arm: ExperimentSplitArm;
+    }
+  | {
+      type: "holdout";
+      child: string;
+    };
+
+/**
+ * Assigns a user to one of the experiment node's arms, or its holdout, in
+ * proportion to their weights. Assignments are sticky, as long as the node's
+ * arms and weights are unchanged a user will always land in the same arm.
+ * Returns null if none of the arms have a positive weight.
+ */
+export function assignExperimentArm({
+  journeyId,
+  userId,
+  node,
+}: {
+  journeyId: string;
+  userId: string;
+  node: Pick<ExperimentSplitNode, "id" | "arms" | "holdout">;
+}): ExperimentArmAssignment | null {
+  const holdoutWeight = Math.max(node.holdout?.weight ?? 0, 0);
+  const totalWeight = node.arms.reduce(
+    (acc, arm) => acc + Math.max(arm.weight, 0),
+    holdoutWeight,
+  );
+  if (totalWeight <= 0) {
+    return null;
+  }
+  const point =
+    getExperimentBucket({ journeyId, nodeId: node.id, userId }) * totalWeight;
+
+  let cumulative = 0;
+  for (const arm of node.arms) {
+    if (arm.weight <= 0) {
+      continue;
+    }
+    cumulative += arm.weight;
+    if (point < cumulative) {
+      return { type: "arm", arm };
+    }
+  }
+  if (node.holdout && holdoutWeight > 0) {
+    return { type: "holdout", child: node.holdout.child };
+  }
+  // guard against floating point error in the final arm's upper bound
+  const lastArm = node.arms.filter((arm) => arm.weight > 0).pop();
+  return lastArm ? { type: "arm", arm: lastArm } : null;
+}
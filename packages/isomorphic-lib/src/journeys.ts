@@ -1,5 +1,6 @@
 import { sortBy } from "remeda";
 
+import { EXPERIMENT_HOLDOUT_ARM_ID } from "./experiments";
 import { getUnsafe } from "./maps";
 import { assertUnreachable } from "./typeAssertions";
 import {
@@ -7,14 +8,43 @@ import {
   JourneyConstraintViolation,
   JourneyConstraintViolationType,
   JourneyDefinition,
+  JourneyGoalType,
   JourneyNode,
   JourneyNodeType,
   JourneyResourceStatus,
   JourneyResourceStatusEnum,
   SavedSegmentResource,
   SegmentNodeType,
+  SegmentSplitVariant,
+  SegmentSplitVariantType,
 } from "./types";
 
+/**
+ * Returns the segments of a segment split, in the order in which they're
+ * evaluated.
+ */
+export function segmentSplitSegments(variant: SegmentSplitVariant): string[] {
+  switch (variant.type) {
+    case SegmentSplitVariantType.Boolean:
+      return [variant.segment];
+    case SegmentSplitVariantType.FirstMatch:
+      return variant.branches.map((b) => b.segmentId);
+    default:
+      assertUnreachable(variant);
+  }
+}
+
+export function segmentSplitChildren(variant: SegmentSplitVariant): string[] {
+  switch (variant.type) {
+    case SegmentSplitVariantType.Boolean:
+      return [variant.trueChild, variant.falseChild];
+    case SegmentSplitVariantType.FirstMatch:
+      return [...variant.branches.map((b) => b.child), variant.defaultChild];
+    default:
+      assertUnreachable(variant);
+  }
+}
+
 export function getNodeId(node: JourneyNode): string {
   if (node.type === JourneyNodeType.SegmentEntryNode) {
     return JourneyNodeType.SegmentEntryNode;
@@ -49,7 +79,34 @@ export function getJourneyConstraintViolations({
   const constraintViolations: JourneyConstraintViolation[] = [];
 
   if (definition) {
-    const segmentsById = new Map(segments?.map((s) => [s.id, s]));
+    for (const node of definition.nodes) {
+      if (node.type !== JourneyNodeType.ExperimentSplitNode) {
+        continue;
+      }
+      const armIds = new Set(node.arms.map((a) => a.id));
+      if (
+        armIds.size !== node.arms.length ||
+        armIds.has(EXPERIMENT_HOLDOUT_ARM_ID)
+      ) {
+        constraintViolations.push({
+          type: JourneyConstraintViolationType.InvalidExperimentSplitNode,
+          message: `Experiment split node ${node.id} has arms with duplicate or reserved ids`,
+        });
+      }
+      if (node.arms.length + (node.holdout ? 1 : 0) < 2) {
+        constraintViolations.push({
+          type: JourneyConstraintViolationType.InvalidExperimentSplitNode,
+          message: `Experiment split node ${node.id} must have at least two arms, including the holdout`,
+        });
+      }
+      if (!node.arms.some((a) => a.weight > 0)) {
+        constraintViolations.push({
+          type: JourneyConstraintViolationType.InvalidExperimentSplitNode,
+          message: `Experiment split node ${node.id} must have at least one arm with a positive weight`,
+        });
+      }
+    }
+    const segmentsById = new Map(segments.map((s) => [s.id, s]));
     const hasEventEntry =
       definition.entryNode.type === JourneyNodeType.EventEntryNode;
 
@@ -77,6 +134,18 @@ export function getJourneyConstraintViolations({
             "A journey cannot have both an Event Entry node and a Wait For node",
         });
       }
+      // goal events are routed to keyed journeys by the entry node's key
+      if (
+        definition.goal?.type === JourneyGoalType.Event &&
+        definition.entryNode.type === JourneyNodeType.EventEntryNode &&
+        !definition.entryNode.key
+      ) {
+        constraintViolations.push({
+          type: JourneyConstraintViolationType.UnkeyedEventGoal,
+          message:
+            "Event Entry journeys with a goal event must have a key, which the goal event must include",
+        });
+      }
     } else {
       const hasInvalidNode = definition.nodes.some((n) => {
         switch (n.type) {
@@ -91,26 +160,32 @@ export function getJourneyConstraintViolations({
                 SegmentNodeType.KeyedPerformed
               );
             });
-          case JourneyNodeType.SegmentSplitNode: {
-            const segment = segmentsById.get(n.variant.segment);
-            if (!segment) {
-              return false;
-            }
-            return (
-              segment.definition.entryNode.type ===
-              SegmentNodeType.KeyedPerformed
-            );
-          }
+          case JourneyNodeType.SegmentSplitNode:
+            return segmentSplitSegments(n.variant).some((segmentId) => {
+              const segment = segmentsById.get(segmentId);
+              if (!segment) {
+                return false;
+              }
+              return (
+                segment.definition.entryNode.type ===
+                SegmentNodeType.KeyedPerformed
+              );
+            });
           default:
             return false;
         }
       });
+      const { goal } = definition;
+      const hasInvalidGoal =
+        goal?.type === JourneyGoalType.Segment &&
+        segmentsById.get(goal.segment)?.definition.entryNode.type ===
+          SegmentNodeType.KeyedPerformed;
 
-      if (hasInvalidNode) {
+      if (hasInvalidNode || hasInvalidGoal) {
         constraintViolations.push({
           type: JourneyConstraintViolationType.KeyedPerformedSegmentEntryNode,
           message:
-            "Segment entry journeys cannot condition on keyed performed segments in segment split or wait for nodes.",
+            "Segment entry journeys cannot condition on keyed performed segments in segment split or wait for nodes, or in their goal.",
         });
       }
     }
@@ -126,12 +201,14 @@ export function getJourneyConstraintViolations({
 function nodeToSegments(node: JourneyBodyNode): string[] {
   switch (node.type) {
     case JourneyNodeType.SegmentSplitNode: {
-      return [node.variant.segment];
+      return segmentSplitSegments(node.variant);
     }
     case JourneyNodeType.ExperimentSplitNode:
       return [];
     case JourneyNodeType.RateLimitNode:
       return [];
+    case JourneyNodeType.HttpRequestNode:
+      return [];
     case JourneyNodeType.MessageNode:
       return [];
     case JourneyNodeType.DelayNode:
@@ -144,7 +221,10 @@ function nodeToSegments(node: JourneyBodyNode): string[] {
 export function isMultiChildNode(type: JourneyNodeType): boolean {
   if (
     type === JourneyNodeType.SegmentSplitNode ||
-    type === JourneyNodeType.WaitForNode
+    type === JourneyNodeType.WaitForNode ||
+    type === JourneyNodeType.ExperimentSplitNode ||
+    type === JourneyNodeType.RateLimitNode ||
+    type === JourneyNodeType.HttpRequestNode
   ) {
     return true;
   }
@@ -163,6 +243,9 @@ export function getSubscribedSegments(
   if (definition.entryNode.type === JourneyNodeType.SegmentEntryNode) {
     subscribedSegments.add(definition.entryNode.segment);
   }
+  if (definition.goal?.type === JourneyGoalType.Segment) {
+    subscribedSegments.add(definition.goal.segment);
+  }
   for (const node of definition.nodes) {
     const segments = nodeToSegments(node);
     for (const segment of segments) {
@@ -184,6 +267,8 @@ export function getMessageTemplates(
   for (const node of definition.nodes) {
     if (node.type === JourneyNodeType.MessageNode) {
       subscribedMessageTemplates.add(node.variant.templateId);
+    } else if (node.type === JourneyNodeType.HttpRequestNode) {
+      subscribedMessageTemplates.add(node.templateId);
     }
   }
   return subscribedMessageTemplates;
@@ -221,8 +306,7 @@ export function findDirectChildren(
   let children: Set<string>;
   switch (node.type) {
     case JourneyNodeType.SegmentSplitNode: {
-      const { trueChild, falseChild } = node.variant;
-      children = new Set<string>([trueChild, falseChild]);
+      children = new Set<string>(segmentSplitChildren(node.variant));
       break;
     }
     case JourneyNodeType.WaitForNode: {
@@ -247,10 +331,22 @@ export function findDirectChildren(
     case JourneyNodeType.ExitNode:
       children = new Set<string>();
       break;
-    case JourneyNodeType.ExperimentSplitNode:
-      throw new Error("Not implemented");
+    case JourneyNodeType.ExperimentSplitNode: {
+      children = new Set<string>(node.arms.map((a) => a.child));
+      if (node.holdout) {
+        children.add(node.holdout.child);
+      }
+      break;
+    }
     case JourneyNodeType.RateLimitNode:
-      throw new Error("Not implemented");
+      children = new Set<string>([node.child, node.limitedChild]);
+      break;
+    case JourneyNodeType.HttpRequestNode:
+      children = new Set<string>([
+        ...node.statusBranches.map((b) => b.child),
+        node.child,
+      ]);
+      break;
     default:
       assertUnreachable(node);
   }
@@ -1,9 +1,94 @@
-import { BodySegmentNode, SegmentNode, SegmentNodeType } from "./types";
+import {
+  BodySegmentNode,
+  SegmentDefinition,
+  SegmentNode,
+  SegmentNodeType,
+  SegmentOperator,
+  SegmentOperatorType,
+} from "./types";
 
 export function isBodySegmentNode(node: SegmentNode): node is BodySegmentNode {
   return node.type !== SegmentNodeType.Manual;
 }
 
+/**
+ * The ids of the segments referenced by a segment's definition.
+ */
+export function getReferencedSegmentIds(
+  definition: SegmentDefinition,
+): Set<string> {
+  const referenced = new Set<string>();
+  for (const node of [definition.entryNode, ...definition.nodes]) {
+    if (node.type === SegmentNodeType.Segment) {
+      referenced.add(node.segmentId);
+    }
+  }
+  return referenced;
+}
+
 export function getNewManualSegmentVersion(now: number): number {
   return Math.floor(now / 1000);
 }
+
+// unix timestamps with an absolute value at least this large are assumed to
+// be in milliseconds, which leaves seconds unambiguous until the year 5138
+const MIN_MILLISECOND_TIMESTAMP = 100_000_000_000;
+
+/**
+ * Parse the value of a date segment operator, or of a date trait, from an ISO
+ * 8601 string or a unix timestamp in seconds or milliseconds.
+ *
+ * @returns the date as a unix timestamp in milliseconds, or null if the value
+ * isn't a date.
+ */
+export function parseSegmentDate(value: string | number): number | null {
+  const trimmed = typeof value === "string" ? value.trim() : value;
+  if (trimmed === "") {
+    return null;
+  }
+  const numeric = Number(trimmed);
+  if (Number.isFinite(numeric)) {
+    return Math.abs(numeric) >= MIN_MILLISECOND_TIMESTAMP
+      ? numeric
+      : numeric * 1000;
+  }
+  const parsed = new Date(trimmed).getTime();
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function getNodeOperators(node: SegmentNode): SegmentOperator[] {
+  switch (node.type) {
+    case SegmentNodeType.Trait:
+      return [node.operator];
+    case SegmentNodeType.Performed:
+    case SegmentNodeType.Aggregate:
+      return node.properties?.map((property) => property.operator) ?? [];
+    case SegmentNodeType.Sequence:
+      return [...node.steps, ...(node.exclusions ?? [])].flatMap(
+        (event) => event.properties?.map((property) => property.operator) ?? [],
+      );
+    case SegmentNodeType.LastPerformed:
+      return [
+        ...(node.whereProperties ?? []),
+        ...(node.hasProperties ?? []),
+      ].map((property) => property.operator);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get the patterns of a segment definition's matches operators, along with the
+ * ids of their nodes.
+ */
+export function getSegmentPatterns(
+  definition: SegmentDefinition,
+): { nodeId: string; pattern: string }[] {
+  return [definition.entryNode, ...definition.nodes].flatMap((node) =>
+    getNodeOperators(node).flatMap((operator) =>
+      operator.type === SegmentOperatorType.Matches
+        ? [{ nodeId: node.id, pattern: operator.value }]
+        : [],
+    ),
+  );
+}
@@ -150,6 +150,8 @@ export type WorkspaceWideEmailProviders = Static<
 
 export enum MobilePushProviderType {
   Firebase = "Firebase",
+  WebPush = "WebPush",
+  Apns = "Apns",
   Test = "Test",
 }
 
@@ -157,6 +159,8 @@ export type ChannelType = (typeof ChannelType)[keyof typeof ChannelType];
 
 export enum SmsProviderType {
   Twilio = "Twilio",
+  Vonage = "Vonage",
+  Sns = "Sns",
   Test = "Test",
 }
 
@@ -213,6 +217,16 @@ export enum SegmentOperatorType {
   NotExists = "NotExists",
   GreaterThanOrEqual = "GreaterThanOrEqual",
   LessThan = "LessThan",
+  Contains = "Contains",
+  StartsWith = "StartsWith",
+  EndsWith = "EndsWith",
+  Matches = "Matches",
+  In = "In",
+  NotIn = "NotIn",
+  Before = "Before",
+  After = "After",
+  WithinDays = "WithinDays",
+  Anniversary = "Anniversary",
 }
 
 export enum SegmentHasBeenOperatorComparator {
@@ -278,6 +292,136 @@ export const SegmentLessThanOperator = Type.Object({
 
 export type SegmentLessThanOperator = Static<typeof SegmentLessThanOperator>;
 
+const CaseInsensitive = Type.Optional(
+  Type.Boolean({
+    description: "Whether to ignore case when comparing values.",
+  }),
+);
+
+export const SegmentContainsOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.Contains),
+  value: Type.String(),
+  caseInsensitive: CaseInsensitive,
+});
+
+export type SegmentContainsOperator = Static<typeof SegmentContainsOperator>;
+
+export const SegmentStartsWithOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.StartsWith),
+  value: Type.String(),
+  caseInsensitive: CaseInsensitive,
+});
+
+export type SegmentStartsWithOperator = Static<
+  typeof SegmentStartsWithOperator
+>;
+
+export const SegmentEndsWithOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.EndsWith),
+  value: Type.String(),
+  caseInsensitive: CaseInsensitive,
+});
+
+export type SegmentEndsWithOperator = Static<typeof SegmentEndsWithOperator>;
+
+export const SegmentMatchesOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.Matches),
+  value: Type.String({
+    description:
+      "Regular expression, using RE2 syntax, which must match part of the value.",
+  }),
+  caseInsensitive: CaseInsensitive,
+});
+
+export type SegmentMatchesOperator = Static<typeof SegmentMatchesOperator>;
+
+export const SegmentInOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.In),
+  values: Type.Array(Type.String()),
+  caseInsensitive: CaseInsensitive,
+});
+
+export type SegmentInOperator = Static<typeof SegmentInOperator>;
+
+export const SegmentNotInOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.NotIn),
+  values: Type.Array(Type.String()),
+  caseInsensitive: CaseInsensitive,
+});
+
+export type SegmentNotInOperator = Static<typeof SegmentNotInOperator>;
+
+export const SegmentStringOperator = Type.Union([
+  SegmentContainsOperator,
+  SegmentStartsWithOperator,
+  SegmentEndsWithOperator,
+  SegmentMatchesOperator,
+  SegmentInOperator,
+  SegmentNotInOperator,
+]);
+
+export type SegmentStringOperator = Static<typeof SegmentStringOperator>;
+
+const SegmentDateValue = Type.Union([Type.String(), Type.Number()], {
+  description:
+    "An ISO 8601 date string, or a unix timestamp in seconds or milliseconds.",
+});
+
+export const SegmentBeforeOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.Before),
+  value: SegmentDateValue,
+});
+
+export type SegmentBeforeOperator = Static<typeof SegmentBeforeOperator>;
+
+export const SegmentAfterOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.After),
+  value: SegmentDateValue,
+});
+
+export type SegmentAfterOperator = Static<typeof SegmentAfterOperator>;
+
+export enum SegmentWithinDaysDirection {
+  Past = "Past",
+  Future = "Future",
+}
+
+export const SegmentWithinDaysOperator = Type.Object({
+  type: Type.Literal(SegmentOperatorType.WithinDays),
+  days: Type.Number({ minimum: 0 }),
+  direction: Type.Enum(SegmentWithinDaysDirection, {
+    description:
+      "Whether the date must fall within the past or the next number of days.",
+  }),
+});
+
+export type SegmentWithinDaysOperator = Static<
+  typeof SegmentWithinDaysOperator
+>;
+
+export const SegmentAnniversaryOperator = Type.Object(
+  {
+    type: Type.Literal(SegmentOperatorType.Anniversary),
+  },
+  {
+    description:
+      "Matches dates whose month and day, in UTC, are the same as today's.",
+  },
+);
+
+export type SegmentAnniversaryOperator = Static<
+  typeof SegmentAnniversaryOperator
+>;
+
+export const SegmentDateOperator = Type.Union([
+  SegmentBeforeOperator,
+  SegmentAfterOperator,
+  SegmentWithinDaysOperator,
+  SegmentAnniversaryOperator,
+]);
+
+export type SegmentDateOperator = Static<typeof SegmentDateOperator>;
+
 export const SegmentOperator = Type.Union([
   SegmentWithinOperator,
   SegmentEqualsOperator,
@@ -287,6 +431,16 @@ export const SegmentOperator = Type.Union([
   NotExistsOperator,
   SegmentGreaterThanOrEqualOperator,
   SegmentLessThanOperator,
+  SegmentContainsOperator,
+  SegmentStartsWithOperator,
+  SegmentEndsWithOperator,
+  SegmentMatchesOperator,
+  SegmentInOperator,
+  SegmentNotInOperator,
+  SegmentBeforeOperator,
+  SegmentAfterOperator,
+  SegmentWithinDaysOperator,
+  SegmentAnniversaryOperator,
 ]);
 
 export type SegmentOperator = Static<typeof SegmentOperator>;
@@ -304,6 +458,9 @@ export enum SegmentNodeType {
   RandomBucket = "RandomBucket",
   KeyedPerformed = "KeyedPerformed",
   Everyone = "Everyone",
+  Sequence = "Sequence",
+  Aggregate = "Aggregate",
+  Segment = "Segment",
 }
 
 export const DBResourceTypeEnum = {
@@ -362,6 +519,97 @@ export const PerformedSegmentNode = Type.Object({
 
 export type PerformedSegmentNode = Static<typeof PerformedSegmentNode>;
 
+export const SequenceSegmentEvent = Type.Object({
+  event: Type.String(),
+  properties: Type.Optional(
+    Type.Array(
+      Type.Object({
+        path: Type.String(),
+        operator: SegmentOperator,
+      }),
+    ),
+  ),
+});
+
+export type SequenceSegmentEvent = Static<typeof SequenceSegmentEvent>;
+
+export const SequenceSegmentExclusion = Type.Composite([
+  SequenceSegmentEvent,
+  Type.Object({
+    afterStep: Type.Number({
+      description:
+        "The index of the step after which, and before the next step, the event must not have been performed.",
+    }),
+  }),
+]);
+
+export type SequenceSegmentExclusion = Static<typeof SequenceSegmentExclusion>;
+
+export const SequenceSegmentNode = Type.Object(
+  {
+    type: Type.Literal(SegmentNodeType.Sequence),
+    id: Type.String(),
+    steps: Type.Array(SequenceSegmentEvent, { minItems: 1 }),
+    maxSecondsBetweenSteps: Type.Optional(
+      Type.Number({
+        description:
+          "The maximum number of seconds between each step and the next.",
+      }),
+    ),
+    withinSeconds: Type.Optional(
+      Type.Number({
+        description:
+          "The maximum number of seconds between the first and the last step.",
+      }),
+    ),
+    exclusions: Type.Optional(Type.Array(SequenceSegmentExclusion)),
+  },
+  {
+    description:
+      "Users who performed each of the steps' events in order, optionally within a window of time.",
+  },
+);
+
+export type SequenceSegmentNode = Static<typeof SequenceSegmentNode>;
+
+export enum AggregationType {
+  Sum = "Sum",
+  Count = "Count",
+  Avg = "Avg",
+  Min = "Min",
+  Max = "Max",
+  DistinctCount = "DistinctCount",
+}
+
+export const AggregateSegmentNode = Type.Object(
+  {
+    type: Type.Literal(SegmentNodeType.Aggregate),
+    id: Type.String(),
+    event: Type.String(),
+    path: Type.String({
+      description: "The path of the event property to aggregate.",
+    }),
+    aggregation: Type.Enum(AggregationType),
+    operator: Type.Enum(RelationalOperators),
+    value: Type.Number(),
+    withinSeconds: Type.Optional(Type.Number()),
+    properties: Type.Optional(
+      Type.Array(
+        Type.Object({
+          path: Type.String(),
+          operator: SegmentOperator,
+        }),
+      ),
+    ),
+  },
+  {
+    description:
+      "Users for whom the aggregate of a property over their matching events compares to a value, e.g. a sum of purchase amounts over 30 days >= 100.",
+  },
+);
+
+export type AggregateSegmentNode = Static<typeof AggregateSegmentNode>;
+
 // Order of this union is important, as it determines the order of the listed events in the UI
 export const EmailEvent = Type.Union([
   Type.Literal(InternalEventType.MessageSent),
@@ -500,6 +748,27 @@ export type KeyedPerformedSegmentNode = Static<
   typeof KeyedPerformedSegmentNode
 >;
 
+export const ReferenceSegmentNode = Type.Object(
+  {
+    type: Type.Literal(SegmentNodeType.Segment),
+    id: Type.String(),
+    segmentId: Type.String({
+      description: "The id of the referenced segment.",
+    }),
+    not: Type.Optional(
+      Type.Boolean({
+        description:
+          "When true, matches users who are not in the referenced segment.",
+      }),
+    ),
+  },
+  {
+    description: "Users who are in another segment.",
+  },
+);
+
+export type ReferenceSegmentNode = Static<typeof ReferenceSegmentNode>;
+
 export const BodySegmentNode = Type.Union([
   TraitSegmentNode,
   AndSegmentNode,
@@ -510,6 +779,9 @@ export const BodySegmentNode = Type.Union([
   BroadcastSegmentNode,
   SubscriptionGroupSegmentNode,
   RandomBucketSegmentNode,
+  SequenceSegmentNode,
+  AggregateSegmentNode,
+  ReferenceSegmentNode,
 ]);
 
 export type BodySegmentNode = Static<typeof BodySegmentNode>;
@@ -540,6 +812,7 @@ export enum UserPropertyDefinitionType {
   PerformedMany = "PerformedMany",
   KeyedPerformed = "KeyedPerformed",
   File = "File",
+  Aggregate = "Aggregate",
 }
 
 export const TraitUserPropertyDefinition = Type.Object(
@@ -645,6 +918,34 @@ export type PerformedManyUserPropertyDefinition = Static<
   typeof PerformedManyUserPropertyDefinition
 >;
 
+export const AggregateUserPropertyDefinition = Type.Object(
+  {
+    id: Type.Optional(Type.String()),
+    type: Type.Literal(UserPropertyDefinitionType.Aggregate),
+    event: Type.String(),
+    path: Type.String(),
+    aggregation: Type.Enum(AggregationType),
+    withinSeconds: Type.Optional(Type.Number()),
+    properties: Type.Optional(
+      Type.Array(
+        Type.Object({
+          path: Type.String(),
+          operator: UserPropertyOperator,
+        }),
+      ),
+    ),
+  },
+  {
+    title: "AggregateUserPropertyDefinition",
+    description:
+      "A user property definition that renders an aggregate of a property over matching track events.",
+  },
+);
+
+export type AggregateUserPropertyDefinition = Static<
+  typeof AggregateUserPropertyDefinition
+>;
+
 export const FileUserPropertyDefinition = Type.Object(
   {
     id: Type.Optional(Type.String()),
@@ -799,6 +1100,7 @@ export const UserPropertyDefinition = Type.Union(
     GroupUserPropertyDefinition,
     LeafUserPropertyDefinition,
     PerformedManyUserPropertyDefinition,
+    AggregateUserPropertyDefinition,
   ],
   {
     title: "UserPropertyDefinition",
@@ -813,6 +1115,7 @@ export enum JourneyNodeType {
   SegmentSplitNode = "SegmentSplitNode",
   MessageNode = "MessageNode",
   RateLimitNode = "RateLimitNode",
+  HttpRequestNode = "HttpRequestNode",
   ExperimentSplitNode = "ExperimentSplitNode",
   ExitNode = "ExitNode",
   // Inconsistent naming is for backwards compatibility.
@@ -973,20 +1276,123 @@ export const DelayNode = Type.Object(
 
 export type DelayNode = Static<typeof DelayNode>;
 
+export enum RateLimitScope {
+  Journey = "Journey",
+  Workspace = "Workspace",
+}
+
+export enum RateLimitExceededBehavior {
+  Wait = "Wait",
+  Branch = "Branch",
+}
+
 export const RateLimitNode = Type.Object(
   {
     ...BaseNode,
     type: Type.Literal(JourneyNodeType.RateLimitNode),
+    channel: Type.Enum(ChannelType),
+    limit: Type.Integer({
+      minimum: 0,
+      description:
+        "The maximum number of messages a user can be sent on the channel within the window.",
+    }),
+    windowSeconds: Type.Number({
+      exclusiveMinimum: 0,
+      description: "The length of the rolling window in seconds.",
+    }),
+    scope: Type.Enum(RateLimitScope, {
+      description:
+        "Whether to count messages sent by this journey only, or by every journey and broadcast in the workspace.",
+    }),
+    exceededBehavior: Type.Enum(RateLimitExceededBehavior),
+    maxWaitSeconds: Type.Optional(
+      Type.Number({
+        description:
+          "When waiting, the maximum time to wait for the user to fall back under the limit before proceeding to the limited child. Waits indefinitely if omitted.",
+      }),
+    ),
+    child: Type.String(),
+    limitedChild: Type.String(),
   },
   {
     title: "Rate Limit Node",
     description:
-      "Used to limit the frequency with which users are contacted by a given Journey.",
+      "Used to limit the frequency with which users are contacted on a given channel. Users within the limit proceed to the child, while users over the limit either wait, or proceed to the limited child.",
   },
 );
 
 export type RateLimitNode = Static<typeof RateLimitNode>;
 
+export const HttpResponseTraitMapping = Type.Object({
+  path: Type.String({
+    description:
+      "JSON path into the response body, e.g. $.data.plan. The value at the path is written to the trait.",
+  }),
+  trait: Type.String({
+    description: "Name of the trait to which the value is written.",
+  }),
+});
+
+export type HttpResponseTraitMapping = Static<typeof HttpResponseTraitMapping>;
+
+export const HttpStatusBranch = Type.Object({
+  minStatus: Type.Integer({ minimum: 100, maximum: 599 }),
+  maxStatus: Type.Integer({ minimum: 100, maximum: 599 }),
+  child: Type.String(),
+});
+
+export type HttpStatusBranch = Static<typeof HttpStatusBranch>;
+
+export const HttpRequestRetryPolicy = Type.Object({
+  maxAttempts: Type.Integer({
+    minimum: 1,
+    description:
+      "The maximum number of times the request is attempted. Requests are retried when they fail without a response, or with a 5xx status code.",
+  }),
+  baseDelaySeconds: Type.Optional(
+    Type.Number({
+      exclusiveMinimum: 0,
+      description:
+        "Delay before the first retry, which doubles with each subsequent retry.",
+    }),
+  ),
+});
+
+export type HttpRequestRetryPolicy = Static<typeof HttpRequestRetryPolicy>;
+
+export const HttpRequestNode = Type.Object(
+  {
+    ...BaseNode,
+    type: Type.Literal(JourneyNodeType.HttpRequestNode),
+    name: Type.Optional(Type.String()),
+    templateId: Type.String({
+      description:
+        "Id of the webhook template which is rendered to produce the request.",
+    }),
+    timeoutSeconds: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+    retry: Type.Optional(HttpRequestRetryPolicy),
+    traits: Type.Array(HttpResponseTraitMapping, {
+      description:
+        "Values extracted from the response body, and written to the user's traits with an identify event.",
+    }),
+    statusBranches: Type.Array(HttpStatusBranch, {
+      description:
+        "Users proceed to the child of the first branch whose status code range includes the response's status code.",
+    }),
+    child: Type.String({
+      description:
+        "Child for users whose response matched none of the status branches, or whose request failed without a response.",
+    }),
+  },
+  {
+    title: "HTTP Request Node",
+    description:
+      "Makes an HTTP request on behalf of a user, writes values from the response into the user's traits, and branches on the response's status code.",
+  },
+);
+
+export type HttpRequestNode = Static<typeof HttpRequestNode>;
+
 export const EmailMessageVariant = Type.Object({
   type: Type.Literal(ChannelType.Email),
   templateId: Type.String(),
@@ -1048,9 +1454,25 @@ export const TestSmsOverride = Type.Object({
 
 export type TestSmsOverride = Static<typeof TestSmsOverride>;
 
+export const VonageOverride = Type.Object({
+  providerOverride: Type.Literal(SmsProviderType.Vonage),
+  senderOverride: Type.Optional(Type.Null()),
+});
+
+export type VonageOverride = Static<typeof VonageOverride>;
+
+export const SnsOverride = Type.Object({
+  providerOverride: Type.Literal(SmsProviderType.Sns),
+  senderOverride: Type.Optional(Type.Null()),
+});
+
+export type SnsOverride = Static<typeof SnsOverride>;
+
 export const SmsProviderOverride = Type.Union([
   NoSmsProviderOverride,
   TwilioOverride,
+  VonageOverride,
+  SnsOverride,
   TestSmsOverride,
 ]);
 
@@ -1059,6 +1481,8 @@ export type SmsProviderOverride = Static<typeof SmsProviderOverride>;
 export const SmsMessageVariant = Type.Union([
   Type.Composite([BaseSmsMessageVariant, NoSmsProviderOverride]),
   Type.Composite([BaseSmsMessageVariant, TwilioOverride]),
+  Type.Composite([BaseSmsMessageVariant, VonageOverride]),
+  Type.Composite([BaseSmsMessageVariant, SnsOverride]),
   Type.Composite([BaseSmsMessageVariant, TestSmsOverride]),
 ]);
 
@@ -1101,9 +1525,9 @@ export type MessageNode = Static<typeof MessageNode>;
 
 export enum SegmentSplitVariantType {
   Boolean = "Boolean",
+  FirstMatch = "FirstMatch",
 }
 
-// TODO change this to segments, plural
 export const BooleanSegmentSplitVariant = Type.Object({
   type: Type.Literal(SegmentSplitVariantType.Boolean),
   segment: Type.String(),
@@ -1111,8 +1535,39 @@ export const BooleanSegmentSplitVariant = Type.Object({
   falseChild: Type.String(),
 });
 
-// Later implement a split on 1 > segments
-export const SegmentSplitVariant = Type.Union([BooleanSegmentSplitVariant]);
+export type BooleanSegmentSplitVariant = Static<
+  typeof BooleanSegmentSplitVariant
+>;
+
+export const SegmentSplitBranch = Type.Object({
+  segmentId: Type.String(),
+  child: Type.String(),
+});
+
+export type SegmentSplitBranch = Static<typeof SegmentSplitBranch>;
+
+export const FirstMatchSegmentSplitVariant = Type.Object({
+  type: Type.Literal(SegmentSplitVariantType.FirstMatch),
+  branches: Type.Array(SegmentSplitBranch, {
+    minItems: 1,
+    description:
+      "Evaluated in order. Users proceed to the child of the first branch whose segment they are in.",
+  }),
+  defaultChild: Type.String({
+    description: "The child of users who are in none of the branch segments.",
+  }),
+});
+
+export type FirstMatchSegmentSplitVariant = Static<
+  typeof FirstMatchSegmentSplitVariant
+>;
+
+export const SegmentSplitVariant = Type.Union([
+  BooleanSegmentSplitVariant,
+  FirstMatchSegmentSplitVariant,
+]);
+
+export type SegmentSplitVariant = Static<typeof SegmentSplitVariant>;
 
 export const SegmentSplitNode = Type.Object(
   {
@@ -1130,10 +1585,39 @@ export const SegmentSplitNode = Type.Object(
 
 export type SegmentSplitNode = Static<typeof SegmentSplitNode>;
 
+export const ExperimentSplitArm = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  weight: Type.Number({
+    minimum: 0,
+    description:
+      "Relative weight of the arm. Users are bucketed proportionally to the weights of all arms, including the holdout.",
+  }),
+  child: Type.String(),
+});
+
+export type ExperimentSplitArm = Static<typeof ExperimentSplitArm>;
+
+export const ExperimentSplitHoldout = Type.Object({
+  weight: Type.Number({ minimum: 0 }),
+  child: Type.String(),
+});
+
+export type ExperimentSplitHoldout = Static<typeof ExperimentSplitHoldout>;
+
 export const ExperimentSplitNode = Type.Object(
   {
     ...BaseNode,
     type: Type.Literal(JourneyNodeType.ExperimentSplitNode),
+    name: Type.Optional(Type.String()),
+    arms: Type.Array(ExperimentSplitArm),
+    holdout: Type.Optional(ExperimentSplitHoldout),
+    conversionEvent: Type.Optional(
+      Type.String({
+        description:
+          "Name of the track event which counts as a conversion when computing per arm stats.",
+      }),
+    ),
   },
   {
     title: "Experiment Split Node",
@@ -1160,6 +1644,7 @@ export type ExitNode = Static<typeof ExitNode>;
 export const JourneyBodyNode = Type.Union([
   DelayNode,
   RateLimitNode,
+  HttpRequestNode,
   SegmentSplitNode,
   MessageNode,
   ExperimentSplitNode,
@@ -1172,10 +1657,74 @@ export const JourneyNode = Type.Union([EntryNode, ExitNode, JourneyBodyNode]);
 
 export type JourneyNode = Static<typeof JourneyNode>;
 
+export enum QuietHoursBehavior {
+  Hold = "Hold",
+  Drop = "Drop",
+}
+
+export const QuietHoursWindow = Type.Object({
+  channels: Type.Optional(
+    Type.Array(Type.Enum(ChannelType), {
+      description:
+        "Channels which are silenced during the window. Applies to all channels when omitted.",
+    }),
+  ),
+  startHour: Type.Integer({ minimum: 0, maximum: 23 }),
+  startMinute: Type.Optional(Type.Integer({ minimum: 0, maximum: 59 })),
+  endHour: Type.Integer({ minimum: 0, maximum: 23 }),
+  endMinute: Type.Optional(Type.Integer({ minimum: 0, maximum: 59 })),
+});
+
+export type QuietHoursWindow = Static<typeof QuietHoursWindow>;
+
+export const QuietHoursPolicy = Type.Object(
+  {
+    windows: Type.Array(QuietHoursWindow),
+    behavior: Type.Enum(QuietHoursBehavior, {
+      description:
+        "Whether messages which land in a window are held until it closes, or dropped.",
+    }),
+  },
+  {
+    description:
+      "Windows of time, in the user's local timezone, during which messages are not sent. Windows whose end precedes their start wrap around midnight.",
+  },
+);
+
+export type QuietHoursPolicy = Static<typeof QuietHoursPolicy>;
+
+export enum JourneyGoalType {
+  Segment = "Segment",
+  Event = "Event",
+}
+
+export const SegmentJourneyGoal = Type.Object({
+  type: Type.Literal(JourneyGoalType.Segment),
+  segment: Type.String(),
+});
+
+export type SegmentJourneyGoal = Static<typeof SegmentJourneyGoal>;
+
+export const EventJourneyGoal = Type.Object({
+  type: Type.Literal(JourneyGoalType.Event),
+  event: Type.String(),
+});
+
+export type EventJourneyGoal = Static<typeof EventJourneyGoal>;
+
+export const JourneyGoal = Type.Union([SegmentJourneyGoal, EventJourneyGoal], {
+  description:
+    "Users who enter the goal segment, or perform the goal event, after entering the journey exit it immediately and are counted as converted.",
+});
+
+export type JourneyGoal = Static<typeof JourneyGoal>;
+
 export const JourneyDefinition = Type.Object({
   entryNode: EntryNode,
   exitNode: ExitNode,
   nodes: Type.Array(JourneyBodyNode),
+  quietHours: Type.Optional(QuietHoursPolicy),
+  goal: Type.Optional(JourneyGoal),
 });
 
 export type JourneyDefinition = Static<typeof JourneyDefinition>;
@@ -1353,6 +1902,8 @@ export type UpsertSegmentResource = Static<typeof UpsertSegmentResource>;
 export enum UpsertSegmentValidationErrorType {
   IdError = "IdError",
   UniqueConstraintViolation = "UniqueConstraintViolation",
+  CycleError = "CycleError",
+  PatternError = "PatternError",
 }
 
 export const IdUpsertSegmentValidationError = Type.Object({
@@ -1376,9 +1927,29 @@ export type UniqueConstraintViolationUpsertSegmentValidationError = Static<
   typeof UniqueConstraintViolationUpsertSegmentValidationError
 >;
 
+export const CycleUpsertSegmentValidationError = Type.Object({
+  type: Type.Literal(UpsertSegmentValidationErrorType.CycleError),
+  message: Type.String(),
+});
+
+export type CycleUpsertSegmentValidationError = Static<
+  typeof CycleUpsertSegmentValidationError
+>;
+
+export const PatternUpsertSegmentValidationError = Type.Object({
+  type: Type.Literal(UpsertSegmentValidationErrorType.PatternError),
+  message: Type.String(),
+});
+
+export type PatternUpsertSegmentValidationError = Static<
+  typeof PatternUpsertSegmentValidationError
+>;
+
 export const UpsertSegmentValidationError = Type.Union([
   IdUpsertSegmentValidationError,
   UniqueConstraintViolationUpsertSegmentValidationError,
+  CycleUpsertSegmentValidationError,
+  PatternUpsertSegmentValidationError,
 ]);
 
 export type UpsertSegmentValidationError = Static<
@@ -1392,6 +1963,29 @@ export const DeleteSegmentRequest = Type.Object({
 
 export type DeleteSegmentRequest = Static<typeof DeleteSegmentRequest>;
 
+export enum DeleteSegmentErrorType {
+  DependentSegments = "DependentSegments",
+}
+
+export const DependentSegmentsDeleteSegmentError = Type.Object({
+  type: Type.Literal(DeleteSegmentErrorType.DependentSegments),
+  message: Type.String(),
+  segmentIds: Type.Array(Type.String(), {
+    description:
+      "Ids of the segments which reference the segment, directly or through other segments.",
+  }),
+});
+
+export type DependentSegmentsDeleteSegmentError = Static<
+  typeof DependentSegmentsDeleteSegmentError
+>;
+
+export const DeleteSegmentError = Type.Union([
+  DependentSegmentsDeleteSegmentError,
+]);
+
+export type DeleteSegmentError = Static<typeof DeleteSegmentError>;
+
 export const UserId = Type.String({
   description:
     "Unique identifier for the user. Should be the id of the user in your system. Only applicable to logged in users.",
@@ -1615,6 +2209,33 @@ export const EmailConfiguration = Type.Composite([
 
 export type EmailConfiguration = Static<typeof EmailConfiguration>;
 
+export enum ApnsInterruptionLevel {
+  Passive = "passive",
+  Active = "active",
+  TimeSensitive = "time-sensitive",
+  Critical = "critical",
+}
+
+export const ApnsTemplateOptions = Type.Object(
+  {
+    badge: Type.Optional(Type.Number()),
+    sound: Type.Optional(Type.String()),
+    threadId: Type.Optional(Type.String()),
+    interruptionLevel: Type.Optional(Type.Enum(ApnsInterruptionLevel)),
+    collapseId: Type.Optional(
+      Type.String({
+        description:
+          "Notifications with the same collapse id are displayed as a single notification.",
+      }),
+    ),
+  },
+  {
+    description: "Options which only apply to APNs deliveries.",
+  },
+);
+
+export type ApnsTemplateOptions = Static<typeof ApnsTemplateOptions>;
+
 export const MobilePushTemplateResource = Type.Object(
   {
     type: Type.Literal(ChannelType.MobilePush),
@@ -1628,6 +2249,7 @@ export const MobilePushTemplateResource = Type.Object(
         }),
       }),
     ),
+    apns: Type.Optional(ApnsTemplateOptions),
   },
   {
     description: "Mobile push template resource",
@@ -2117,6 +2739,8 @@ export type DelayUiNodeProps = Static<typeof DelayUiNodeProps>;
 
 export const SegmentSplitUiNodeProps = Type.Object({
   type: Type.Literal(JourneyNodeType.SegmentSplitNode),
+  // omitted by nodes created before multiple variants were supported
+  variantType: Type.Optional(Type.Literal(SegmentSplitVariantType.Boolean)),
   name: Type.String(),
   segmentId: Type.Optional(Type.String()),
   trueLabelNodeId: Type.String(),
@@ -2125,6 +2749,25 @@ export const SegmentSplitUiNodeProps = Type.Object({
 
 export type SegmentSplitUiNodeProps = Static<typeof SegmentSplitUiNodeProps>;
 
+export const SegmentSplitUiBranch = Type.Object({
+  segmentId: Type.Optional(Type.String()),
+  labelNodeId: Type.String(),
+});
+
+export type SegmentSplitUiBranch = Static<typeof SegmentSplitUiBranch>;
+
+export const FirstMatchSegmentSplitUiNodeProps = Type.Object({
+  type: Type.Literal(JourneyNodeType.SegmentSplitNode),
+  variantType: Type.Literal(SegmentSplitVariantType.FirstMatch),
+  name: Type.String(),
+  branches: Type.Array(SegmentSplitUiBranch),
+  defaultLabelNodeId: Type.String(),
+});
+
+export type FirstMatchSegmentSplitUiNodeProps = Static<
+  typeof FirstMatchSegmentSplitUiNodeProps
+>;
+
 export const WaitForUiNodeProps = Type.Object({
   type: Type.Literal(JourneyNodeType.WaitForNode),
   timeoutSeconds: Type.Optional(Type.Number()),
@@ -2137,13 +2780,78 @@ export const WaitForUiNodeProps = Type.Object({
   ),
 });
 
-export type WaitForUiNodeProps = Static<typeof WaitForUiNodeProps>;
+export type WaitForUiNodeProps = Static<typeof WaitForUiNodeProps>;
+
+export const ExperimentSplitUiArm = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  weight: Type.Number(),
+  labelNodeId: Type.String(),
+});
+
+export type ExperimentSplitUiArm = Static<typeof ExperimentSplitUiArm>;
+
+export const ExperimentSplitUiNodeProps = Type.Object({
+  type: Type.Literal(JourneyNodeType.ExperimentSplitNode),
+  name: Type.String(),
+  arms: Type.Array(ExperimentSplitUiArm),
+  holdout: Type.Optional(
+    Type.Object({
+      weight: Type.Number(),
+      labelNodeId: Type.String(),
+    }),
+  ),
+  conversionEvent: Type.Optional(Type.String()),
+});
+
+export type ExperimentSplitUiNodeProps = Static<
+  typeof ExperimentSplitUiNodeProps
+>;
+
+export const RateLimitUiNodeProps = Type.Object({
+  type: Type.Literal(JourneyNodeType.RateLimitNode),
+  channel: Type.Enum(ChannelType),
+  limit: Type.Number(),
+  windowSeconds: Type.Number(),
+  scope: Type.Enum(RateLimitScope),
+  exceededBehavior: Type.Enum(RateLimitExceededBehavior),
+  maxWaitSeconds: Type.Optional(Type.Number()),
+  withinLimitLabelNodeId: Type.String(),
+  limitedLabelNodeId: Type.String(),
+});
+
+export type RateLimitUiNodeProps = Static<typeof RateLimitUiNodeProps>;
+
+export const HttpStatusUiBranch = Type.Object({
+  minStatus: Type.Number(),
+  maxStatus: Type.Number(),
+  labelNodeId: Type.String(),
+});
+
+export type HttpStatusUiBranch = Static<typeof HttpStatusUiBranch>;
+
+export const HttpRequestUiNodeProps = Type.Object({
+  type: Type.Literal(JourneyNodeType.HttpRequestNode),
+  name: Type.String(),
+  templateId: Type.Optional(Type.String()),
+  timeoutSeconds: Type.Optional(Type.Number()),
+  retry: Type.Optional(HttpRequestRetryPolicy),
+  traits: Type.Array(HttpResponseTraitMapping),
+  statusBranches: Type.Array(HttpStatusUiBranch),
+  defaultLabelNodeId: Type.String(),
+});
+
+export type HttpRequestUiNodeProps = Static<typeof HttpRequestUiNodeProps>;
 
 export const JourneyUiBodyNodeTypeProps = Type.Union([
   MessageUiNodeProps,
   DelayUiNodeProps,
   SegmentSplitUiNodeProps,
+  FirstMatchSegmentSplitUiNodeProps,
   WaitForUiNodeProps,
+  ExperimentSplitUiNodeProps,
+  RateLimitUiNodeProps,
+  HttpRequestUiNodeProps,
 ]);
 
 export type JourneyUiBodyNodeTypeProps = Static<
@@ -2164,7 +2872,11 @@ export type JourneyUiNodePairing =
   | [MessageUiNodeProps, SegmentNode]
   | [DelayUiNodeProps, SegmentNode]
   | [SegmentSplitUiNodeProps, SegmentNode]
-  | [WaitForUiNodeProps, WaitForNode];
+  | [FirstMatchSegmentSplitUiNodeProps, SegmentSplitNode]
+  | [WaitForUiNodeProps, WaitForNode]
+  | [ExperimentSplitUiNodeProps, ExperimentSplitNode]
+  | [RateLimitUiNodeProps, RateLimitNode]
+  | [HttpRequestUiNodeProps, HttpRequestNode];
 
 export enum JourneyUiNodeType {
   JourneyUiNodeDefinitionProps = "JourneyUiNodeDefinitionProps",
@@ -2269,6 +2981,8 @@ export type JourneyUiDraftNode = Static<typeof JourneyUiDraftNode>;
 export const JourneyDraft = Type.Object({
   nodes: Type.Array(JourneyUiDraftNode),
   edges: Type.Array(JourneyUiDraftEdge),
+  quietHours: Type.Optional(QuietHoursPolicy),
+  goal: Type.Optional(JourneyGoal),
 });
 
 export type JourneyDraft = Static<typeof JourneyDraft>;
@@ -3107,6 +3821,34 @@ export const GroupData = Type.Union([KnownGroupData, AnonymousGroupData]);
 
 export type GroupData = Static<typeof GroupData>;
 
+export const BaseAliasData = {
+  ...BaseAppData,
+  userId: Type.String({
+    description:
+      "The canonical identifier of the user, which the previous identifier is merged into.",
+    examples: ["1043", "user-123"],
+  }),
+  previousId: Type.String({
+    description:
+      "The anonymous id, or previous user id, of the user. Its events, traits, and segment memberships are attributed to the canonical user id.",
+    examples: ["0a58e5e4-c753-477e-a6c4-f9b0e3396b9b", "session-123"],
+  }),
+};
+
+export const AliasData = Type.Object({
+  ...BaseAliasData,
+  context: AppDataContext,
+});
+
+export type AliasData = Static<typeof AliasData>;
+
+export const BatchAliasData = Type.Object({
+  ...BaseAliasData,
+  type: Type.Literal(EventType.Alias),
+});
+
+export type BatchAliasData = Static<typeof BatchAliasData>;
+
 export const KnownBatchGroupData = Type.Object({
   ...BaseBatchGroupData,
   userId: UserId,
@@ -3260,6 +4002,7 @@ const BatchItem = Type.Union([
   BatchPageData,
   BatchScreenData,
   BatchGroupData,
+  BatchAliasData,
 ]);
 
 export type BatchItem = Static<typeof BatchItem>;
@@ -3298,6 +4041,230 @@ export const BatchAppData = Type.Object(
 
 export type BatchAppData = Static<typeof BatchAppData>;
 
+export enum TrackingPlanViolationAction {
+  // Reject the request which submitted the event.
+  Reject = "Reject",
+  // Ingest the event, recording its violations in its context.
+  Tag = "Tag",
+  // Drop the event, keeping it only in the workspace's violations.
+  Quarantine = "Quarantine",
+}
+
+export const TrackingPlanRule = Type.Object({
+  id: Type.String(),
+  eventType: Type.Union([
+    Type.Literal(EventType.Identify),
+    Type.Literal(EventType.Track),
+  ]),
+  event: Type.Optional(
+    Type.String({
+      description:
+        "Name of the track events validated by the rule. A track rule without an event validates the track events which have no rule of their own. Ignored by identify rules.",
+    }),
+  ),
+  schema: Type.Record(Type.String(), Type.Unknown(), {
+    description:
+      "JSON schema which the traits of identify events, or the properties of track events, must match.",
+  }),
+  action: Type.Enum(TrackingPlanViolationAction),
+});
+
+export type TrackingPlanRule = Static<typeof TrackingPlanRule>;
+
+export const TrackingPlanResource = Type.Object({
+  workspaceId: Type.String(),
+  rules: Type.Array(TrackingPlanRule),
+});
+
+export type TrackingPlanResource = Static<typeof TrackingPlanResource>;
+
+export const GetTrackingPlanRequest = Type.Object({
+  workspaceId: Type.String(),
+});
+
+export type GetTrackingPlanRequest = Static<typeof GetTrackingPlanRequest>;
+
+export const TrackingPlanViolationSummary = Type.Object({
+  eventType: Type.String(),
+  event: Type.Optional(Type.String()),
+  action: Type.Enum(TrackingPlanViolationAction),
+  count: Type.Number(),
+  lastSeenAt: Type.String(),
+  lastMessageId: Type.String(),
+  lastErrors: Type.Array(Type.String()),
+});
+
+export type TrackingPlanViolationSummary = Static<
+  typeof TrackingPlanViolationSummary
+>;
+
+export const GetTrackingPlanViolationsRequest = Type.Object({
+  workspaceId: Type.String(),
+  startDate: Type.Optional(Type.String({ format: "date-time" })),
+  limit: Type.Optional(Type.Number({ minimum: 1, maximum: 1000 })),
+});
+
+export type GetTrackingPlanViolationsRequest = Static<
+  typeof GetTrackingPlanViolationsRequest
+>;
+
+export const GetTrackingPlanViolationsResponse = Type.Object({
+  violations: Type.Array(TrackingPlanViolationSummary),
+});
+
+export type GetTrackingPlanViolationsResponse = Static<
+  typeof GetTrackingPlanViolationsResponse
+>;
+
+export enum EventTransformationOperationType {
+  RenameEvent = "RenameEvent",
+  DropProperties = "DropProperties",
+  HashProperties = "HashProperties",
+  DeriveProperty = "DeriveProperty",
+}
+
+// Excludes paths through __proto__, constructor or prototype, which would
+// reach an object's prototype rather than the event's data.
+const EventTransformationPathPattern =
+  "^(?!(.*\\.)?(__proto__|constructor|prototype)(\\.|$))";
+
+const EventTransformationPaths = Type.Array(
+  Type.String({ pattern: EventTransformationPathPattern }),
+  {
+    description:
+      "Dot separated paths of identify traits, or track event properties e.g. address.street.",
+  },
+);
+
+export const RenameEventOperation = Type.Object({
+  type: Type.Literal(EventTransformationOperationType.RenameEvent),
+  event: Type.String({
+    description: "New name of the track event. Ignored by identify rules.",
+  }),
+});
+
+export type RenameEventOperation = Static<typeof RenameEventOperation>;
+
+export const DropPropertiesOperation = Type.Object({
+  type: Type.Literal(EventTransformationOperationType.DropProperties),
+  paths: EventTransformationPaths,
+});
+
+export type DropPropertiesOperation = Static<typeof DropPropertiesOperation>;
+
+export const HashPropertiesOperation = Type.Object({
+  type: Type.Literal(EventTransformationOperationType.HashProperties),
+  paths: EventTransformationPaths,
+});
+
+export type HashPropertiesOperation = Static<typeof HashPropertiesOperation>;
+
+export const DerivePropertyOperation = Type.Object({
+  type: Type.Literal(EventTransformationOperationType.DeriveProperty),
+  path: Type.String({
+    pattern: EventTransformationPathPattern,
+    description:
+      "Dot separated path of the identify trait, or track event property, to set.",
+  }),
+  template: Type.String({
+    description:
+      "Liquid template rendered to derive the value, with access to event, properties, traits, user_id, anonymous_id and context.",
+  }),
+});
+
+export type DerivePropertyOperation = Static<typeof DerivePropertyOperation>;
+
+export const EventTransformationOperation = Type.Union([
+  RenameEventOperation,
+  DropPropertiesOperation,
+  HashPropertiesOperation,
+  DerivePropertyOperation,
+]);
+
+export type EventTransformationOperation = Static<
+  typeof EventTransformationOperation
+>;
+
+export const EventTransformationRule = Type.Object({
+  id: Type.String(),
+  eventType: Type.Union([
+    Type.Literal(EventType.Identify),
+    Type.Literal(EventType.Track),
+  ]),
+  event: Type.Optional(
+    Type.String({
+      description:
+        "Name of the track events transformed by the rule. A track rule without an event transforms all track events. Ignored by identify rules.",
+    }),
+  ),
+  operations: Type.Array(EventTransformationOperation, {
+    description: "Operations applied to matching events, in order.",
+  }),
+});
+
+export type EventTransformationRule = Static<typeof EventTransformationRule>;
+
+export const EventTransformationsResource = Type.Object({
+  workspaceId: Type.String(),
+  rules: Type.Array(EventTransformationRule),
+});
+
+export type EventTransformationsResource = Static<
+  typeof EventTransformationsResource
+>;
+
+export const GetEventTransformationsRequest = Type.Object({
+  workspaceId: Type.String(),
+});
+
+export type GetEventTransformationsRequest = Static<
+  typeof GetEventTransformationsRequest
+>;
+
+export const WebPushSubscription = Type.Object(
+  {
+    endpoint: Type.String(),
+    expirationTime: Type.Optional(Nullable(Type.Number())),
+    keys: Type.Object({
+      p256dh: Type.String(),
+      auth: Type.String(),
+    }),
+  },
+  {
+    description:
+      "A browser push subscription, as returned by PushSubscription.toJSON().",
+  },
+);
+
+export type WebPushSubscription = Static<typeof WebPushSubscription>;
+
+const BaseWebPushSubscriptionData = {
+  ...BaseAppData,
+  subscription: WebPushSubscription,
+};
+
+export const WebPushSubscriptionData = Type.Union([
+  Type.Object({
+    ...BaseWebPushSubscriptionData,
+    userId: UserId,
+  }),
+  Type.Object({
+    ...BaseWebPushSubscriptionData,
+    anonymousId: AnonymousId,
+  }),
+]);
+
+export type WebPushSubscriptionData = Static<typeof WebPushSubscriptionData>;
+
+export const WebPushPublicKeyResponse = Type.Object({
+  publicKey: Type.String({
+    description:
+      "The workspace's VAPID public key, to be passed as the applicationServerKey when subscribing to push notifications in the browser.",
+  }),
+});
+
+export type WebPushPublicKeyResponse = Static<typeof WebPushPublicKeyResponse>;
+
 export const WriteKeyResource = Type.Object({
   writeKeyName: Type.String(),
   writeKeyValue: Type.String(),
@@ -3439,14 +4406,29 @@ export enum NodeStatsType {
   SegmentSplitNodeStats = "SegmentSplitNodeStats",
   WaitForNodeStats = "WaitForNodeStats",
   DelayNodeStats = "DelayNodeStats",
+  ExperimentSplitNodeStats = "ExperimentSplitNodeStats",
 }
 
+export const EmailProviderStats = Type.Object({
+  provider: Type.String(),
+  sent: Type.Number({
+    description: "Number of messages sent, or attempted, with the provider.",
+  }),
+  deliveryRate: Type.Number(),
+  openRate: Type.Number(),
+  clickRate: Type.Number(),
+  spamRate: Type.Number(),
+});
+
+export type EmailProviderStats = Static<typeof EmailProviderStats>;
+
 export const EmailStats = Type.Object({
   type: Type.Literal(ChannelType.Email),
   deliveryRate: Type.Number(),
   openRate: Type.Number(),
   clickRate: Type.Number(),
   spamRate: Type.Number(),
+  providers: Type.Optional(Type.Array(EmailProviderStats)),
 });
 
 export type EmailStats = Static<typeof EmailStats>;
@@ -3474,9 +4456,37 @@ export const MessageChannelStats = Type.Union([
 
 export type MessageChannelStats = Static<typeof MessageChannelStats>;
 
+export const MessageQuietHoursStats = Type.Object({
+  held: Type.Number({
+    description: "Number of messages held until quiet hours ended.",
+  }),
+  averageHeldSeconds: Type.Optional(Type.Number()),
+  dropped: Type.Number({
+    description: "Number of messages dropped due to quiet hours.",
+  }),
+});
+
+export type MessageQuietHoursStats = Static<typeof MessageQuietHoursStats>;
+
+export const JourneyConversionStats = Type.Object({
+  converted: Type.Number({
+    description: "Number of users which reached the journey's goal.",
+  }),
+  conversionRate: Type.Number({
+    description: "Percentage of users which reached the journey's goal.",
+  }),
+  averageTimeToConvertSeconds: Type.Optional(Type.Number()),
+});
+
+export type JourneyConversionStats = Static<typeof JourneyConversionStats>;
+
 export const BaseMessageNodeStats = Type.Object({
   sendRate: Type.Optional(Type.Number()),
   channelStats: Type.Optional(MessageChannelStats),
+  quietHours: Type.Optional(MessageQuietHoursStats),
+  // conversions attributed to the node, as the last message node the users
+  // passed through before reaching the journey's goal
+  conversions: Type.Optional(JourneyConversionStats),
 });
 
 export type BaseMessageNodeStats = Static<typeof BaseMessageNodeStats>;
@@ -3520,11 +4530,31 @@ export const SegmentSplitNodeStats = Type.Object({
 
 export type SegmentSplitNodeStats = Static<typeof SegmentSplitNodeStats>;
 
+export const ExperimentArmStats = Type.Object({
+  // number of users bucketed into the arm
+  users: Type.Number(),
+  // percentage of the node's users bucketed into the arm
+  proportion: Type.Number(),
+  // percentage of the arm's users which performed the conversion event
+  conversionRate: Type.Optional(Type.Number()),
+});
+
+export type ExperimentArmStats = Static<typeof ExperimentArmStats>;
+
+export const ExperimentSplitNodeStats = Type.Object({
+  type: Type.Literal(NodeStatsType.ExperimentSplitNodeStats),
+  // arm id -> stats, the holdout is keyed by EXPERIMENT_HOLDOUT_ARM_ID
+  arms: Type.Record(Type.String(), ExperimentArmStats),
+});
+
+export type ExperimentSplitNodeStats = Static<typeof ExperimentSplitNodeStats>;
+
 export const NodeStats = Type.Union([
   MessageNodeStats,
   DelayNodeStats,
   WaitForNodeStats,
   SegmentSplitNodeStats,
+  ExperimentSplitNodeStats,
 ]);
 
 export type NodeStats = Static<typeof NodeStats>;
@@ -3533,6 +4563,7 @@ export const JourneyStats = Type.Object({
   journeyId: Type.String(),
   workspaceId: Type.String(),
   nodeStats: Type.Record(Type.String(), NodeStats),
+  conversions: Type.Optional(JourneyConversionStats),
 });
 
 export type JourneyStats = Static<typeof JourneyStats>;
@@ -3546,51 +4577,225 @@ export const JourneyStatsRequest = Type.Object({
   journeyIds: Type.Optional(Type.Array(Type.String())),
 });
 
-export type JourneyStatsRequest = Static<typeof JourneyStatsRequest>;
+export type JourneyStatsRequest = Static<typeof JourneyStatsRequest>;
+
+export const TwilioSecret = Type.Object({
+  type: Type.Literal(SmsProviderType.Twilio),
+  accountSid: Type.Optional(Type.String()),
+  messagingServiceSid: Type.Optional(Type.String()),
+  authToken: Type.Optional(Type.String()),
+  apiKeySid: Type.Optional(Type.String()),
+  apiKeySecret: Type.Optional(Type.String()),
+});
+
+export type TwilioSecret = Static<typeof TwilioSecret>;
+
+export const VonageSecret = Type.Object({
+  type: Type.Literal(SmsProviderType.Vonage),
+  apiKey: Type.Optional(Type.String()),
+  apiSecret: Type.Optional(Type.String()),
+  // phone number or alphanumeric sender id
+  from: Type.Optional(Type.String()),
+});
+
+export type VonageSecret = Static<typeof VonageSecret>;
+
+export const SnsSecret = Type.Object({
+  type: Type.Literal(SmsProviderType.Sns),
+  accessKeyId: Type.Optional(Type.String()),
+  secretAccessKey: Type.Optional(Type.String()),
+  region: Type.Optional(Type.String()),
+  senderId: Type.Optional(Type.String()),
+  originationNumber: Type.Optional(Type.String()),
+  // arn of the topic which delivery status logs are forwarded to, the only
+  // topic whose subscription to the webhook is confirmed
+  deliveryStatusTopicArn: Type.Optional(Type.String()),
+});
+
+export type SnsSecret = Static<typeof SnsSecret>;
+
+export const TestSmsSecret = Type.Object({
+  type: Type.Literal(SmsProviderType.Test),
+});
+
+export type TestSmsSecret = Static<typeof TestSmsSecret>;
+
+export const TestSmsProvider = Type.Object({
+  id: Type.String(),
+  workspaceId: Type.String(),
+  type: Type.Literal(SmsProviderType.Test),
+});
+
+export type TestSmsProvider = Static<typeof TestSmsProvider>;
+
+export const SmsProviderSecret = Type.Union([
+  TwilioSecret,
+  VonageSecret,
+  SnsSecret,
+  TestSmsSecret,
+]);
+
+export type SmsProviderSecret = Static<typeof SmsProviderSecret>;
+
+export const TwilioSmsProvider = Type.Object({
+  id: Type.String(),
+  workspaceId: Type.String(),
+  type: Type.Optional(Type.Literal(SmsProviderType.Twilio)),
+});
+
+export type TwilioSmsProvider = Static<typeof TwilioSmsProvider>;
+
+export const VonageSmsProvider = Type.Object({
+  id: Type.String(),
+  workspaceId: Type.String(),
+  type: Type.Literal(SmsProviderType.Vonage),
+});
+
+export type VonageSmsProvider = Static<typeof VonageSmsProvider>;
+
+export const SnsSmsProvider = Type.Object({
+  id: Type.String(),
+  workspaceId: Type.String(),
+  type: Type.Literal(SmsProviderType.Sns),
+});
+
+export type SnsSmsProvider = Static<typeof SnsSmsProvider>;
+
+export const PersistedSmsProvider = Type.Union([
+  TwilioSmsProvider,
+  VonageSmsProvider,
+  SnsSmsProvider,
+  TestSmsProvider,
+]);
+
+export type PersistedSmsProvider = Static<typeof PersistedSmsProvider>;
+
+export enum SmsRouteSenderType {
+  PhoneNumber = "PhoneNumber",
+  AlphanumericSenderId = "AlphanumericSenderId",
+  MessagingService = "MessagingService",
+}
+
+export const SmsRouteSender = Type.Union([
+  Type.Object({
+    type: Type.Literal(SmsRouteSenderType.PhoneNumber),
+    phone: Type.String(),
+  }),
+  Type.Object({
+    type: Type.Literal(SmsRouteSenderType.AlphanumericSenderId),
+    senderId: Type.String(),
+  }),
+  Type.Object({
+    type: Type.Literal(SmsRouteSenderType.MessagingService),
+    messagingServiceSid: Type.String(),
+  }),
+]);
+
+export type SmsRouteSender = Static<typeof SmsRouteSender>;
+
+export const SmsRoutingRule = Type.Object({
+  id: Type.String(),
+  countryPrefix: Type.String({
+    description:
+      "E.164 country calling code which recipients' phone numbers must start with, without the leading + e.g. 44.",
+  }),
+  provider: Type.Enum(SmsProviderType),
+  sender: Type.Optional(
+    Type.Union([SmsRouteSender, Type.Null()], {
+      description:
+        "Overrides the provider's configured sender. Messaging services are only supported by Twilio.",
+    }),
+  ),
+  fallbackProvider: Type.Optional(
+    Type.Union([Type.Enum(SmsProviderType), Type.Null()], {
+      description:
+        "Provider used, with its configured sender, when the first provider rejects the message.",
+    }),
+  ),
+});
+
+export type SmsRoutingRule = Static<typeof SmsRoutingRule>;
+
+export const SmsRoutingResource = Type.Object({
+  workspaceId: Type.String(),
+  rules: Type.Array(SmsRoutingRule),
+});
+
+export type SmsRoutingResource = Static<typeof SmsRoutingResource>;
+
+export const GetSmsRoutingRequest = Type.Object({
+  workspaceId: Type.String(),
+});
+
+export type GetSmsRoutingRequest = Static<typeof GetSmsRoutingRequest>;
 
-export const TwilioSecret = Type.Object({
-  type: Type.Literal(SmsProviderType.Twilio),
-  accountSid: Type.Optional(Type.String()),
-  messagingServiceSid: Type.Optional(Type.String()),
-  authToken: Type.Optional(Type.String()),
-  apiKeySid: Type.Optional(Type.String()),
-  apiKeySecret: Type.Optional(Type.String()),
+export const EmailProviderFailoverResource = Type.Object({
+  workspaceId: Type.String(),
+  providers: Type.Array(WorkspaceWideEmailProviders, {
+    description:
+      "Providers tried in order when the default or overridden provider fails with a retryable error, showing that it didn't accept the message. Timeouts aren't retried, because the message may have been accepted.",
+  }),
 });
 
-export type TwilioSecret = Static<typeof TwilioSecret>;
+export type EmailProviderFailoverResource = Static<
+  typeof EmailProviderFailoverResource
+>;
 
-export const TestSmsSecret = Type.Object({
-  type: Type.Literal(SmsProviderType.Test),
+export const GetEmailProviderFailoverRequest = Type.Object({
+  workspaceId: Type.String(),
 });
 
-export type TestSmsSecret = Static<typeof TestSmsSecret>;
+export type GetEmailProviderFailoverRequest = Static<
+  typeof GetEmailProviderFailoverRequest
+>;
 
-export const TestSmsProvider = Type.Object({
-  id: Type.String(),
-  workspaceId: Type.String(),
-  type: Type.Literal(SmsProviderType.Test),
+export const EmailProviderWeight = Type.Object({
+  provider: WorkspaceWideEmailProviders,
+  weight: Type.Number({
+    minimum: 0,
+    description:
+      "Relative share of the workspace's email traffic sent with the provider.",
+  }),
 });
 
-export type TestSmsProvider = Static<typeof TestSmsProvider>;
+export type EmailProviderWeight = Static<typeof EmailProviderWeight>;
 
-export const SmsProviderSecret = Type.Union([TwilioSecret, TestSmsSecret]);
+export const EmailProviderTrafficSplitStep = Type.Object({
+  startsAt: Type.String({
+    description: "ISO 8601 timestamp from which the step's weights apply.",
+  }),
+  weights: Type.Array(EmailProviderWeight),
+});
 
-export type SmsProviderSecret = Static<typeof SmsProviderSecret>;
+export type EmailProviderTrafficSplitStep = Static<
+  typeof EmailProviderTrafficSplitStep
+>;
 
-export const TwilioSmsProvider = Type.Object({
-  id: Type.String(),
+export const EmailProviderTrafficSplitResource = Type.Object({
   workspaceId: Type.String(),
-  type: Type.Optional(Type.Literal(SmsProviderType.Twilio)),
+  weights: Type.Array(EmailProviderWeight, {
+    description:
+      "Weights used until the first step of the schedule starts. Users are assigned to providers in the listed order, so users assigned to the first provider stay with it as its weight grows.",
+  }),
+  schedule: Type.Optional(
+    Type.Array(EmailProviderTrafficSplitStep, {
+      description:
+        "Steps replacing the weights at a given time, e.g. to ramp up traffic while warming up a provider's IPs.",
+    }),
+  ),
 });
 
-export type TwilioSmsProvider = Static<typeof TwilioSmsProvider>;
+export type EmailProviderTrafficSplitResource = Static<
+  typeof EmailProviderTrafficSplitResource
+>;
 
-export const PersistedSmsProvider = Type.Union([
-  TwilioSmsProvider,
-  TestSmsProvider,
-]);
+export const GetEmailProviderTrafficSplitRequest = Type.Object({
+  workspaceId: Type.String(),
+});
 
-export type PersistedSmsProvider = Static<typeof PersistedSmsProvider>;
+export type GetEmailProviderTrafficSplitRequest = Static<
+  typeof GetEmailProviderTrafficSplitRequest
+>;
 
 export const DefaultSmsProviderResource = Type.Object({
   workspaceId: Type.String(),
@@ -3610,6 +4815,20 @@ export const SmsTwilioSuccess = Type.Object({
 
 export type SmsTwilioSuccess = Static<typeof SmsTwilioSuccess>;
 
+export const SmsVonageSuccess = Type.Object({
+  type: Type.Literal(SmsProviderType.Vonage),
+  messageId: Type.String(),
+});
+
+export type SmsVonageSuccess = Static<typeof SmsVonageSuccess>;
+
+export const SmsSnsSuccess = Type.Object({
+  type: Type.Literal(SmsProviderType.Sns),
+  messageId: Type.String(),
+});
+
+export type SmsSnsSuccess = Static<typeof SmsSnsSuccess>;
+
 export const SmsTestSuccess = Type.Object({
   type: Type.Literal(SmsProviderType.Test),
 });
@@ -3618,6 +4837,8 @@ export type SmsTestSuccess = Static<typeof SmsTestSuccess>;
 
 export const SmsServiceProviderSuccess = Type.Union([
   SmsTwilioSuccess,
+  SmsVonageSuccess,
+  SmsSnsSuccess,
   SmsTestSuccess,
 ]);
 
@@ -3703,10 +4924,25 @@ export type EmailServiceProviderSuccess = Static<
   typeof EmailServiceProviderSuccess
 >;
 
+export const EmailProviderFailoverAttempt = Type.Object({
+  type: WorkspaceWideEmailProviders,
+  error: Type.String(),
+});
+
+export type EmailProviderFailoverAttempt = Static<
+  typeof EmailProviderFailoverAttempt
+>;
+
 export const MessageEmailSuccess = Type.Composite([
   Type.Object({
     type: Type.Literal(ChannelType.Email),
     provider: EmailServiceProviderSuccess,
+    failoverAttempts: Type.Optional(
+      Type.Array(EmailProviderFailoverAttempt, {
+        description:
+          "Providers which failed with retryable errors, in order, before the message was delivered by the provider above.",
+      }),
+    ),
     to: Type.String(),
     headers: Type.Optional(Type.Record(Type.String(), Type.String())),
     attachments: Type.Optional(
@@ -3742,6 +4978,47 @@ export const WebhookResponse = Type.Object({
 
 export type WebhookResponse = Static<typeof WebhookResponse>;
 
+export const MobilePushWebPushSuccess = Type.Object({
+  type: Type.Literal(MobilePushProviderType.WebPush),
+  statusCode: Type.Number(),
+});
+
+export type MobilePushWebPushSuccess = Static<typeof MobilePushWebPushSuccess>;
+
+export const MobilePushApnsSuccess = Type.Object({
+  type: Type.Literal(MobilePushProviderType.Apns),
+  apnsId: Type.Optional(Type.String()),
+});
+
+export type MobilePushApnsSuccess = Static<typeof MobilePushApnsSuccess>;
+
+export const MobilePushTestSuccess = Type.Object({
+  type: Type.Literal(MobilePushProviderType.Test),
+});
+
+export type MobilePushTestSuccess = Static<typeof MobilePushTestSuccess>;
+
+export const MobilePushServiceProviderSuccess = Type.Union([
+  MobilePushWebPushSuccess,
+  MobilePushApnsSuccess,
+  MobilePushTestSuccess,
+]);
+
+export type MobilePushServiceProviderSuccess = Static<
+  typeof MobilePushServiceProviderSuccess
+>;
+
+export const MessageMobilePushSuccess = Type.Composite([
+  Type.Object({
+    type: Type.Literal(ChannelType.MobilePush),
+    provider: MobilePushServiceProviderSuccess,
+    to: Type.String(),
+  }),
+  Type.Pick(MobilePushTemplateResource, ["title", "body", "imageUrl"]),
+]);
+
+export type MessageMobilePushSuccess = Static<typeof MessageMobilePushSuccess>;
+
 export const MessageWebhookSuccess = Type.Object({
   type: Type.Literal(ChannelType.Webhook),
   to: Type.String(),
@@ -3762,6 +5039,7 @@ export const MessageSendSuccessVariant = Type.Union([
   MessageEmailSuccess,
   MessageSmsSuccess,
   MessageWebhookSuccess,
+  MessageMobilePushSuccess,
 ]);
 
 export type MessageSendSuccessVariant = Static<
@@ -4028,8 +5306,20 @@ export const MessageTwilioServiceFailure = Type.Object({
   message: Type.Optional(Type.String()),
 });
 
+export const MessageVonageServiceFailure = Type.Object({
+  type: Type.Literal(SmsProviderType.Vonage),
+  message: Type.Optional(Type.String()),
+});
+
+export const MessageSnsServiceFailure = Type.Object({
+  type: Type.Literal(SmsProviderType.Sns),
+  message: Type.Optional(Type.String()),
+});
+
 export const SmsServiceProviderFailure = Type.Union([
   MessageTwilioServiceFailure,
+  MessageVonageServiceFailure,
+  MessageSnsServiceFailure,
 ]);
 
 export type SmsServiceProviderFailure = Static<
@@ -4043,6 +5333,41 @@ export const MessageSmsServiceFailure = Type.Object({
 
 export type MessageSmsServiceFailure = Static<typeof MessageSmsServiceFailure>;
 
+export const MessageWebPushServiceFailure = Type.Object({
+  type: Type.Literal(MobilePushProviderType.WebPush),
+  statusCode: Type.Optional(Type.Number()),
+  message: Type.Optional(Type.String()),
+});
+
+export const MessageApnsServiceFailure = Type.Object({
+  type: Type.Literal(MobilePushProviderType.Apns),
+  statusCode: Type.Optional(Type.Number()),
+  reason: Type.Optional(
+    Type.String({
+      description:
+        "The reason given by APNs for rejecting the notification e.g. BadDeviceToken.",
+    }),
+  ),
+});
+
+export const MobilePushServiceProviderFailure = Type.Union([
+  MessageWebPushServiceFailure,
+  MessageApnsServiceFailure,
+]);
+
+export type MobilePushServiceProviderFailure = Static<
+  typeof MobilePushServiceProviderFailure
+>;
+
+export const MessageMobilePushServiceFailure = Type.Object({
+  type: Type.Literal(ChannelType.MobilePush),
+  provider: MobilePushServiceProviderFailure,
+});
+
+export type MessageMobilePushServiceFailure = Static<
+  typeof MessageMobilePushServiceFailure
+>;
+
 export const MessageWebhookServiceFailure = Type.Object({
   type: Type.Literal(ChannelType.Webhook),
   code: Type.Optional(Type.String()),
@@ -4057,6 +5382,7 @@ export const MessageServiceFailureVariant = Type.Union([
   MessageEmailServiceFailure,
   MessageSmsServiceFailure,
   MessageWebhookServiceFailure,
+  MessageMobilePushServiceFailure,
 ]);
 
 export type MessageServiceFailureVariant = Static<
@@ -4082,6 +5408,7 @@ export type UserSubscriptionAction = Static<typeof UserSubscriptionAction>;
 export enum MessageSkippedType {
   SubscriptionState = "SubscriptionState",
   MissingIdentifier = "MissingIdentifier",
+  QuotaExceeded = "QuotaExceeded",
 }
 
 export const MessageSkippedSubscriptionState = Type.Object({
@@ -4099,9 +5426,21 @@ export const MessageSkippedMissingIdentifier = Type.Object({
   identifierKey: Type.String(),
 });
 
+export const MessageSkippedQuotaExceeded = Type.Object({
+  type: Type.Literal(MessageSkippedType.QuotaExceeded),
+  currentUsage: Type.Number(),
+  limit: Type.Number(),
+  periodStart: Type.String(),
+});
+
+export type MessageSkippedQuotaExceeded = Static<
+  typeof MessageSkippedQuotaExceeded
+>;
+
 export const MessageSkippedVariant = Type.Union([
   MessageSkippedSubscriptionState,
   MessageSkippedMissingIdentifier,
+  MessageSkippedQuotaExceeded,
 ]);
 
 export type MessageSkippedVariant = Static<typeof MessageSkippedVariant>;
@@ -4272,6 +5611,100 @@ export const SearchDeliveriesResponse = Type.Object({
 
 export type SearchDeliveriesResponse = Static<typeof SearchDeliveriesResponse>;
 
+export enum FailedMessageStatus {
+  Failed = "Failed",
+  Replaying = "Replaying",
+  Replayed = "Replayed",
+  ReplayFailed = "ReplayFailed",
+}
+
+export const FailedMessageResource = Type.Object({
+  id: Type.String(),
+  workspaceId: Type.String(),
+  messageId: Type.String({
+    description:
+      "Id of the failed send, and of the message failure event which records its rendered payload.",
+  }),
+  userId: Type.String(),
+  channel: Type.Enum(ChannelType),
+  templateId: Type.String(),
+  journeyId: Type.Optional(Type.String()),
+  broadcastId: Type.Optional(Type.String()),
+  status: Type.Enum(FailedMessageStatus),
+  error: Type.Record(Type.String(), Type.Unknown()),
+  replayCount: Type.Number(),
+  lastReplayMessageId: Type.Optional(Type.String()),
+  lastReplayedAt: Type.Optional(Type.String()),
+  createdAt: Type.String(),
+});
+
+export type FailedMessageResource = Static<typeof FailedMessageResource>;
+
+// Parameters of a failed send which are required to replay it. Channel
+// specific parameters, like provider overrides, are passed through as stored.
+export const FailedMessageSendParams = Type.Object({
+  workspaceId: Type.String(),
+  userId: Type.String(),
+  templateId: Type.String(),
+  channel: Type.Enum(ChannelType),
+  useDraft: Type.Boolean(),
+  messageTags: Type.Optional(Type.Record(Type.String(), Type.String())),
+  subscriptionGroupDetails: Type.Optional(
+    Type.Object({
+      id: Type.String(),
+    }),
+  ),
+});
+
+export type FailedMessageSendParams = Static<typeof FailedMessageSendParams>;
+
+export const GetFailedMessagesRequest = Type.Object({
+  workspaceId: Type.String(),
+  statuses: Type.Optional(Type.Array(Type.Enum(FailedMessageStatus))),
+  channels: Type.Optional(Type.Array(Type.Enum(ChannelType))),
+  templateId: Type.Optional(Type.String()),
+  journeyId: Type.Optional(Type.String()),
+  broadcastId: Type.Optional(Type.String()),
+  startDate: Type.Optional(Type.String({ format: "date-time" })),
+  endDate: Type.Optional(Type.String({ format: "date-time" })),
+  limit: Type.Optional(Type.Number({ minimum: 1, maximum: 1000 })),
+  offset: Type.Optional(Type.Number({ minimum: 0 })),
+});
+
+export type GetFailedMessagesRequest = Static<typeof GetFailedMessagesRequest>;
+
+export const GetFailedMessagesResponse = Type.Object({
+  messages: Type.Array(FailedMessageResource),
+});
+
+export type GetFailedMessagesResponse = Static<
+  typeof GetFailedMessagesResponse
+>;
+
+export const ReplayFailedMessagesRequest = Type.Object({
+  workspaceId: Type.String(),
+  ids: Type.Array(Type.String(), { minItems: 1, maxItems: 100 }),
+});
+
+export type ReplayFailedMessagesRequest = Static<
+  typeof ReplayFailedMessagesRequest
+>;
+
+export const ReplayFailedMessagesResponse = Type.Object({
+  queued: Type.Array(Type.String(), {
+    description:
+      "Ids of the failed messages which were queued to be re-sent. The outcome of each replay is reflected in the failed message's status.",
+  }),
+  skipped: Type.Array(Type.String(), {
+    description:
+      "Ids of the failed messages which weren't re-sent, because they've already been replayed or are being replayed.",
+  }),
+});
+
+export type ReplayFailedMessagesResponse = Static<
+  typeof ReplayFailedMessagesResponse
+>;
+
 export const WorkspaceMemberSettingTypeEnum = {
   GmailTokens: "GmailTokens",
 } as const;
@@ -4427,6 +5860,28 @@ export type WebhookSecret = Static<typeof WebhookSecret>;
 
 export type WebhookProviderSecret = Static<typeof WebhookSecret>;
 
+export const WebPushSecret = Type.Object({
+  type: Type.Literal(MobilePushProviderType.WebPush),
+  publicKey: Type.Optional(Type.String()),
+  privateKey: Type.Optional(Type.String()),
+  subject: Type.Optional(Type.String()),
+});
+
+export type WebPushSecret = Static<typeof WebPushSecret>;
+
+export const ApnsSecret = Type.Object({
+  type: Type.Literal(MobilePushProviderType.Apns),
+  teamId: Type.Optional(Type.String()),
+  keyId: Type.Optional(Type.String()),
+  // contents of the .p8 signing key
+  privateKey: Type.Optional(Type.String()),
+  bundleId: Type.Optional(Type.String()),
+  // "sandbox" to deliver to development builds, otherwise production
+  environment: Type.Optional(Type.String()),
+});
+
+export type ApnsSecret = Static<typeof ApnsSecret>;
+
 export const EmailProviderSecret = Type.Union([
   MailChimpSecret,
   SendgridSecret,
@@ -4528,6 +5983,8 @@ export enum JourneyConstraintViolationType {
   WaitForNodeAndEventEntryNode = "WaitForNodeAndEventEntryNode",
   KeyedPerformedSegmentEntryNode = "KeyedPerformedSegmentEntryNode",
   CantStart = "CantStart",
+  InvalidExperimentSplitNode = "InvalidExperimentSplitNode",
+  UnkeyedEventGoal = "UnkeyedEventGoal",
 }
 
 export const JourneyConstraintViolation = Type.Object({
@@ -4623,6 +6080,13 @@ export const FeatureNamesEnum = {
   DisplayJourneyPercentages: "DisplayJourneyPercentages",
   WhiteLabel: "WhiteLabel",
   ComputePropertiesGlobal: "ComputePropertiesGlobal",
+  QuietHours: "QuietHours",
+  SmsRouting: "SmsRouting",
+  MessageQuota: "MessageQuota",
+  TrackingPlan: "TrackingPlan",
+  EventTransformations: "EventTransformations",
+  EmailProviderFailover: "EmailProviderFailover",
+  EmailProviderTrafficSplit: "EmailProviderTrafficSplit",
 } as const;
 
 export const FeatureName = Type.KeyOf(Type.Const(FeatureNamesEnum));
@@ -4661,10 +6125,92 @@ export type DisplayJourneyPercentagesFeatureConfig = Static<
   typeof DisplayJourneyPercentagesFeatureConfig
 >;
 
+export const QuietHoursFeatureConfig = Type.Composite([
+  Type.Object({
+    type: Type.Literal(FeatureNamesEnum.QuietHours),
+  }),
+  QuietHoursPolicy,
+]);
+
+export type QuietHoursFeatureConfig = Static<typeof QuietHoursFeatureConfig>;
+
+export const SmsRoutingFeatureConfig = Type.Object({
+  type: Type.Literal(FeatureNamesEnum.SmsRouting),
+  rules: Type.Array(SmsRoutingRule),
+});
+
+export type SmsRoutingFeatureConfig = Static<typeof SmsRoutingFeatureConfig>;
+
+export const MessageQuotaFeatureConfig = Type.Object({
+  type: Type.Literal(FeatureNamesEnum.MessageQuota),
+  warningThresholds: Type.Optional(
+    Type.Array(Type.Number({ exclusiveMinimum: 0, maximum: 100 }), {
+      description:
+        "Percentages of maxMessagesPerMonth at which a quota warning is recorded. Defaults to 80 and 90.",
+    }),
+  ),
+  billingPeriodAnchorDay: Type.Optional(
+    Type.Number({
+      minimum: 1,
+      maximum: 28,
+      description:
+        "Day of the month, in UTC, on which message usage is reset. Defaults to 1.",
+    }),
+  ),
+});
+
+export type MessageQuotaFeatureConfig = Static<
+  typeof MessageQuotaFeatureConfig
+>;
+
+export const TrackingPlanFeatureConfig = Type.Object({
+  type: Type.Literal(FeatureNamesEnum.TrackingPlan),
+  rules: Type.Array(TrackingPlanRule),
+});
+
+export type TrackingPlanFeatureConfig = Static<
+  typeof TrackingPlanFeatureConfig
+>;
+
+export const EventTransformationsFeatureConfig = Type.Object({
+  type: Type.Literal(FeatureNamesEnum.EventTransformations),
+  rules: Type.Array(EventTransformationRule),
+});
+
+export type EventTransformationsFeatureConfig = Static<
+  typeof EventTransformationsFeatureConfig
+>;
+
+export const EmailProviderFailoverFeatureConfig = Type.Object({
+  type: Type.Literal(FeatureNamesEnum.EmailProviderFailover),
+  providers: Type.Array(WorkspaceWideEmailProviders),
+});
+
+export type EmailProviderFailoverFeatureConfig = Static<
+  typeof EmailProviderFailoverFeatureConfig
+>;
+
+export const EmailProviderTrafficSplitFeatureConfig = Type.Object({
+  type: Type.Literal(FeatureNamesEnum.EmailProviderTrafficSplit),
+  weights: Type.Array(EmailProviderWeight),
+  schedule: Type.Optional(Type.Array(EmailProviderTrafficSplitStep)),
+});
+
+export type EmailProviderTrafficSplitFeatureConfig = Static<
+  typeof EmailProviderTrafficSplitFeatureConfig
+>;
+
 export const FeatureConfig = Type.Union([
   WhiteLabelFeatureConfig,
   ComputePropertiesGlobalFeatureConfig,
   DisplayJourneyPercentagesFeatureConfig,
+  QuietHoursFeatureConfig,
+  SmsRoutingFeatureConfig,
+  MessageQuotaFeatureConfig,
+  TrackingPlanFeatureConfig,
+  EventTransformationsFeatureConfig,
+  EmailProviderFailoverFeatureConfig,
+  EmailProviderTrafficSplitFeatureConfig,
 ]);
 
 export type FeatureConfig = Static<typeof FeatureConfig>;
@@ -4679,6 +6225,14 @@ export const FeatureConfigByType = {
   [FeatureNamesEnum.WhiteLabel]: WhiteLabelFeatureConfig,
   [FeatureNamesEnum.DisplayJourneyPercentages]:
     DisplayJourneyPercentagesFeatureConfig,
+  [FeatureNamesEnum.QuietHours]: QuietHoursFeatureConfig,
+  [FeatureNamesEnum.SmsRouting]: SmsRoutingFeatureConfig,
+  [FeatureNamesEnum.MessageQuota]: MessageQuotaFeatureConfig,
+  [FeatureNamesEnum.TrackingPlan]: TrackingPlanFeatureConfig,
+  [FeatureNamesEnum.EventTransformations]: EventTransformationsFeatureConfig,
+  [FeatureNamesEnum.EmailProviderFailover]: EmailProviderFailoverFeatureConfig,
+  [FeatureNamesEnum.EmailProviderTrafficSplit]:
+    EmailProviderTrafficSplitFeatureConfig,
 } as const;
 
 export const ManualSegmentUploadCsvHeaders = Type.Object({
@@ -4923,6 +6477,60 @@ export const TwilioWebhookRequest = Type.Object({
 
 export type TwilioWebhookRequest = Static<typeof TwilioWebhookRequest>;
 
+// parameters included in the callback url of vonage messages, which identify
+// the message that a delivery receipt refers to
+export const VonageCallbackParams = Type.Object({
+  workspaceId: Type.String(),
+  userId: Type.String(),
+  subscriptionGroupId: Type.Optional(Type.String()),
+  messageId: Type.Optional(Type.String()),
+  journeyId: Type.Optional(Type.String()),
+  templateId: Type.Optional(Type.String()),
+  nodeId: Type.Optional(Type.String()),
+  runId: Type.Optional(Type.String()),
+});
+
+export type VonageCallbackParams = Static<typeof VonageCallbackParams>;
+
+export const VonageWebhookRequest = Type.Composite([
+  VonageCallbackParams,
+  Type.Object({
+    // signs the above parameters, as vonage doesn't sign delivery receipts
+    // unless signed webhooks are enabled on the account
+    signature: Type.String(),
+  }),
+]);
+
+export type VonageWebhookRequest = Static<typeof VonageWebhookRequest>;
+
+export enum VonageMessageStatus {
+  Delivered = "delivered",
+  Expired = "expired",
+  Failed = "failed",
+  Rejected = "rejected",
+  Accepted = "accepted",
+  Buffered = "buffered",
+  Unknown = "unknown",
+}
+
+// delivery receipts are sent either as query parameters or in the request
+// body, alongside the callback params
+export const VonageDeliveryReceipt = Type.Object({
+  messageId: Type.String(),
+  msisdn: Type.String(),
+  to: Type.String(),
+  status: Type.Enum(VonageMessageStatus),
+  "err-code": Type.Optional(Type.String()),
+});
+
+export type VonageDeliveryReceipt = Static<typeof VonageDeliveryReceipt>;
+
+export const SnsSmsWebhookRequest = Type.Object({
+  workspaceId: Type.String(),
+});
+
+export type SnsSmsWebhookRequest = Static<typeof SnsSmsWebhookRequest>;
+
 export enum UpsertUserPropertyErrorType {
   UserPropertyAlreadyExists = "UserPropertyAlreadyExists",
   ProtectedUserProperty = "ProtectedUserProperty",
@@ -4977,6 +6585,7 @@ export const DeliveriesAllowedColumnEnum = {
   userId: "userId",
   snippet: "snippet",
   channel: "channel",
+  provider: "provider",
   status: "status",
   origin: "origin",
   sentAt: "sentAt",
@@ -5410,6 +7019,8 @@ export const BaseBroadcastSmsMessageVariant = Type.Object({
 export const BroadcastSmsMessageVariant = Type.Union([
   Type.Composite([BaseBroadcastSmsMessageVariant, NoSmsProviderOverride]),
   Type.Composite([BaseBroadcastSmsMessageVariant, TwilioOverride]),
+  Type.Composite([BaseBroadcastSmsMessageVariant, VonageOverride]),
+  Type.Composite([BaseBroadcastSmsMessageVariant, SnsOverride]),
   Type.Composite([BaseBroadcastSmsMessageVariant, TestSmsOverride]),
 ]);
 
@@ -5742,6 +7353,8 @@ export const WorkspaceQuota = Type.Object({
   maxTemplates: Type.Number({ minimum: 1 }),
   maxStorageBytes: Type.Number({ minimum: 0 }),
   maxMessagesPerMonth: Type.Number({ minimum: 0 }),
+  maxEventsPerMonth: Type.Number({ minimum: 0 }),
+  maxEventSizeBytes: Type.Number({ minimum: 0 }),
   createdAt: Type.String({ format: "date-time" }),
   updatedAt: Type.String({ format: "date-time" }),
 });
@@ -5756,6 +7369,8 @@ export const UpsertWorkspaceQuotaRequest = Type.Object({
   maxTemplates: Type.Optional(Type.Number({ minimum: 1 })),
   maxStorageBytes: Type.Optional(Type.Number({ minimum: 0 })),
   maxMessagesPerMonth: Type.Optional(Type.Number({ minimum: 0 })),
+  maxEventsPerMonth: Type.Optional(Type.Number({ minimum: 0 })),
+  maxEventSizeBytes: Type.Optional(Type.Number({ minimum: 0 })),
 });
 
 export type UpsertWorkspaceQuotaRequest = Static<typeof UpsertWorkspaceQuotaRequest>;
@@ -5848,3 +7463,92 @@ export const QuotaError = Type.Object({
 });
 
 export type QuotaError = Static<typeof QuotaError>;
+
+// Audit Log Types
+export enum AuditEventType {
+  // Authentication Events
+  USER_LOGIN = "USER_LOGIN",
+  USER_LOGOUT = "USER_LOGOUT",
+  USER_LOGIN_FAILED = "USER_LOGIN_FAILED",
+  API_KEY_ACCESS = "API_KEY_ACCESS",
+  API_KEY_ACCESS_FAILED = "API_KEY_ACCESS_FAILED",
+
+  // Workspace/Tenant Events
+  WORKSPACE_ACCESS = "WORKSPACE_ACCESS",
+  WORKSPACE_ACCESS_DENIED = "WORKSPACE_ACCESS_DENIED",
+  WORKSPACE_CONTEXT_SET = "WORKSPACE_CONTEXT_SET",
+  WORKSPACE_CONTEXT_FAILED = "WORKSPACE_CONTEXT_FAILED",
+
+  // Resource Access Events
+  RESOURCE_CREATED = "RESOURCE_CREATED",
+  RESOURCE_UPDATED = "RESOURCE_UPDATED",
+  RESOURCE_DELETED = "RESOURCE_DELETED",
+  RESOURCE_ACCESS_DENIED = "RESOURCE_ACCESS_DENIED",
+
+  // Quota Events
+  QUOTA_EXCEEDED = "QUOTA_EXCEEDED",
+  QUOTA_WARNING = "QUOTA_WARNING",
+  QUOTA_UPDATED = "QUOTA_UPDATED",
+
+  // Security Events
+  SUSPICIOUS_ACTIVITY = "SUSPICIOUS_ACTIVITY",
+  RATE_LIMIT_EXCEEDED = "RATE_LIMIT_EXCEEDED",
+  UNAUTHORIZED_ACCESS_ATTEMPT = "UNAUTHORIZED_ACCESS_ATTEMPT",
+
+  // Data Events
+  DATA_EXPORT = "DATA_EXPORT",
+  DATA_IMPORT = "DATA_IMPORT",
+  BULK_OPERATION = "BULK_OPERATION",
+}
+
+export enum AuditSeverity {
+  LOW = "LOW",
+  MEDIUM = "MEDIUM",
+  HIGH = "HIGH",
+  CRITICAL = "CRITICAL",
+}
+
+export const AuditEventResource = Type.Object({
+  id: Type.String(),
+  workspaceId: Type.String(),
+  timestamp: Type.String(),
+  eventType: Type.Enum(AuditEventType),
+  severity: Type.Enum(AuditSeverity),
+  message: Type.String(),
+  success: Type.Boolean(),
+  error: Type.Optional(Type.String()),
+  actorId: Type.Optional(Type.String()),
+  actorEmail: Type.Optional(Type.String()),
+  resourceType: Type.Optional(Type.String()),
+  resourceId: Type.Optional(Type.String()),
+  resourceName: Type.Optional(Type.String()),
+  requestId: Type.Optional(Type.String()),
+  ipAddress: Type.Optional(Type.String()),
+  userAgent: Type.Optional(Type.String()),
+  metadata: Type.Optional(Type.Record(Type.String(), Type.Unknown())),
+});
+
+export type AuditEventResource = Static<typeof AuditEventResource>;
+
+export const GetAuditEventsRequest = Type.Object({
+  workspaceId: Type.String(),
+  eventTypes: Type.Optional(Type.Array(Type.Enum(AuditEventType))),
+  severities: Type.Optional(Type.Array(Type.Enum(AuditSeverity))),
+  actor: Type.Optional(
+    Type.String({
+      description: "Matches the id or email of the actor.",
+    }),
+  ),
+  startDate: Type.Optional(Type.String({ format: "date-time" })),
+  endDate: Type.Optional(Type.String({ format: "date-time" })),
+  limit: Type.Optional(Type.Number({ minimum: 1, maximum: 1000 })),
+  offset: Type.Optional(Type.Number({ minimum: 0 })),
+});
+
+export type GetAuditEventsRequest = Static<typeof GetAuditEventsRequest>;
+
+export const GetAuditEventsResponse = Type.Object({
+  events: Type.Array(AuditEventResource),
+});
+
+export type GetAuditEventsResponse = Static<typeof GetAuditEventsResponse>;